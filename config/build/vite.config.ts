@@ -72,7 +72,7 @@ export default defineConfig(({ mode, ssrBuild }) => {
 			}
 		},
 		ssr: {
-			external: ['@ffmpeg/ffmpeg', '@ffmpeg/util']
+			external: ['@ffmpeg/ffmpeg', '@ffmpeg/util', 'better-sqlite3']
 		},
 		coverage: {
 			reporter: ['text', 'html', 'lcov'],
@@ -3,7 +3,9 @@
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			auth: import('$lib/server/auth').AuthContext;
+		}
 		// interface PageData {}
 		// interface PageState {}
 		// interface Platform {}
@@ -1,5 +1,17 @@
-import type { Handle } from '@sveltejs/kit';
+import { error, json, redirect, type Handle } from '@sveltejs/kit';
 import { startWorker } from '$lib/server/downloadQueueWorker';
+import { startQualityUpgradeWatcher } from '$lib/server/mediaLibraryUpgrades';
+import { startArtistFollowPoller } from '$lib/server/artistFollows';
+import { startMediaLibraryWatcher } from '$lib/server/mediaLibraryWatcher';
+import { startWebhookDispatcher } from '$lib/server/webhooks';
+import {
+	AuthError,
+	SESSION_COOKIE_NAME,
+	apiTokenScopeError,
+	authenticateRequest,
+	hasRole,
+	requiredRoleFor
+} from '$lib/server/auth';
 import { env } from '$env/dynamic/private';
 
 // Start background download worker (enabled by default, disable with ENABLE_DEV_WORKER=false)
@@ -9,11 +21,74 @@ if (enableWorker) {
 	startWorker()
 		.then(() => console.log('[Server] Background download worker started'))
 		.catch(err => console.error('[Server] Failed to start worker:', err));
+	if (startQualityUpgradeWatcher()) {
+		console.log('[Server] Quality-upgrade watcher started');
+	}
+	if (startArtistFollowPoller()) {
+		console.log('[Server] Artist follow poller started');
+	}
+	if (startMediaLibraryWatcher()) {
+		console.log('[Server] Media library watcher started');
+	}
+	if (startWebhookDispatcher()) {
+		console.log('[Server] Webhook dispatcher started');
+	}
 } else {
 	console.log('[Server] Background download worker disabled in dev mode');
 }
 
+function readClientAddress(getClientAddress: () => string): string | null {
+	try {
+		return getClientAddress();
+	} catch {
+		// Some adapters can't tell during prerendering
+		return null;
+	}
+}
+
 export const handle: Handle = async ({ event, resolve }) => {
+	const { pathname } = event.url;
+	try {
+		event.locals.auth = await authenticateRequest({
+			headers: event.request.headers,
+			sessionToken: event.cookies.get(SESSION_COOKIE_NAME),
+			clientAddress: readClientAddress(event.getClientAddress)
+		});
+	} catch (err) {
+		// Unreadable account storage refuses every request instead of opening the server
+		if (!(err instanceof AuthError)) throw err;
+		if (pathname.startsWith('/api/')) {
+			return json({ success: false, error: err.message }, { status: err.status });
+		}
+		error(err.status, err.message);
+	}
+
+	const requiredRole = requiredRoleFor(pathname, event.request.method);
+	if (requiredRole && !hasRole(event.locals.auth.user, requiredRole)) {
+		const signedIn = event.locals.auth.user !== null;
+		if (pathname.startsWith('/api/')) {
+			return json(
+				{
+					success: false,
+					error: signedIn ? `This action needs the ${requiredRole} role` : 'Sign in required'
+				},
+				{ status: signedIn ? 403 : 401 }
+			);
+		}
+		if (!signedIn) {
+			// Thrown rather than returned so client-side navigations get the redirect too
+			redirect(303, `/login?redirectTo=${encodeURIComponent(`${pathname}${event.url.search}`)}`);
+		}
+		error(403, `This page needs the ${requiredRole} role`);
+	}
+
+	const scopeError = requiredRole
+		? apiTokenScopeError(event.locals.auth.user, pathname, event.request.method)
+		: null;
+	if (scopeError) {
+		return json({ success: false, error: scopeError }, { status: 403 });
+	}
+
 	// Increase request body size limit for audio file uploads
 	// Default is 512KB, we need ~100MB for FLAC files
 	const contentLength = event.request.headers.get('content-length');
@@ -1,15 +1,24 @@
 import { z } from 'zod';
 import { safeValidateApiResponse } from '../utils/schemas';
 import { detectAudioFormat } from '../utils/audioFormat';
+import { readReplayGainInfo } from '../utils/replayGain';
 import { assertFullTrackStream } from '../utils/streamAvailability';
 import { buildMpdSegmentUrls, parseMpdSegmentTemplate } from './streamManifest';
 import { downloadCoverSeparately } from './coverDownload';
-import type { AudioQuality, TrackLookup } from '../types';
+import type { AudioQuality, ReplayGainInfo, TrackLookup } from '../types';
 import type { DashManifestResult, DownloadTrackOptions } from '../apiClient';
 
 const StreamDataResultSchema = z.object({
 	url: z.string(),
 	replayGain: z.number().nullable(),
+	normalization: z
+		.object({
+			trackGain: z.number().nullable(),
+			trackPeak: z.number().nullable(),
+			albumGain: z.number().nullable(),
+			albumPeak: z.number().nullable()
+		})
+		.nullable(),
 	sampleRate: z.number().nullable(),
 	bitDepth: z.number().nullable()
 });
@@ -47,6 +56,7 @@ export async function getStreamDataForTrack(params: {
 }): Promise<{
 	url: string;
 	replayGain: number | null;
+	normalization: ReplayGainInfo | null;
 	sampleRate: number | null;
 	bitDepth: number | null;
 }> {
@@ -61,6 +71,7 @@ export async function getStreamDataForTrack(params: {
 	} = params;
 	let quality = params.quality;
 	let replayGain: number | null = null;
+	let normalization: ReplayGainInfo | null = null;
 	let sampleRate: number | null = null;
 	let bitDepth: number | null = null;
 
@@ -70,6 +81,7 @@ export async function getStreamDataForTrack(params: {
 				const lookup = await getTrack(trackId, quality);
 				assertFullTrackStream(lookup, { trackId, quality });
 				replayGain = lookup.info.trackReplayGain ?? null;
+				normalization = readReplayGainInfo(lookup.info);
 				sampleRate = lookup.info.sampleRate ?? null;
 				bitDepth = lookup.info.bitDepth ?? null;
 			} catch {
@@ -77,7 +89,7 @@ export async function getStreamDataForTrack(params: {
 			}
 
 			const url = await resolveHiResStreamFromDash(trackId);
-			const result = { url, replayGain, sampleRate, bitDepth };
+			const result = { url, replayGain, normalization, sampleRate, bitDepth };
 			const validationResult = safeValidateApiResponse(result, StreamDataResultSchema, {
 				endpoint: 'stream.hires',
 				allowUnvalidated: true
@@ -96,11 +108,12 @@ export async function getStreamDataForTrack(params: {
 			const lookup = await getTrack(trackId, quality);
 			assertFullTrackStream(lookup, { trackId, quality });
 			replayGain = lookup.info.trackReplayGain ?? null;
+			normalization = readReplayGainInfo(lookup.info);
 			sampleRate = lookup.info.sampleRate ?? null;
 			bitDepth = lookup.info.bitDepth ?? null;
 
 			if (lookup.originalTrackUrl) {
-				const result = { url: lookup.originalTrackUrl, replayGain, sampleRate, bitDepth };
+				const result = { url: lookup.originalTrackUrl, replayGain, normalization, sampleRate, bitDepth };
 				const validationResult = safeValidateApiResponse(result, StreamDataResultSchema, {
 					endpoint: 'stream.standard.original',
 					allowUnvalidated: true
@@ -123,7 +136,7 @@ export async function getStreamDataForTrack(params: {
 
 			const manifestUrl = extractStreamUrlFromManifest(lookup.info.manifest);
 			if (manifestUrl) {
-				const result = { url: manifestUrl, replayGain, sampleRate, bitDepth };
+				const result = { url: manifestUrl, replayGain, normalization, sampleRate, bitDepth };
 				const validationResult = safeValidateApiResponse(result, StreamDataResultSchema, {
 					endpoint: 'stream.standard.manifest',
 					allowUnvalidated: true
@@ -4,6 +4,7 @@ import { musicBrainzClient } from '$lib/clients/musicBrainzClient';
 import type { RegionOption } from '$lib/stores/region';
 import { parseTidalUrl } from './utils/urlParser';
 import { buildStandardMetadataEntries, type StandardMetadataKey } from './utils/metadataStandard';
+import { readReplayGainInfo } from './utils/replayGain';
 import { normalizeSearchResponse, prepareAlbum, prepareArtist, prepareTrack } from './api/normalizers';
 import {
 	getAlbum,
@@ -71,6 +72,7 @@ import type {
 	Lyrics,
 	TrackInfo,
 	TrackLookup,
+	ReplayGainInfo,
 	ArtistDetails,
 	ArtistRecommendations,
 	TrackRecommendationsResponse
@@ -132,6 +134,7 @@ export interface DashManifestWithMetadata {
 		sampleRate: number | null;
 		bitDepth: number | null;
 		replayGain: number | null;
+		normalization: ReplayGainInfo | null;
 	};
 }
 
@@ -1240,7 +1243,8 @@ class LosslessAPI {
 				const trackInfo = {
 					sampleRate: lookup.info?.sampleRate ?? null,
 					bitDepth: lookup.info?.bitDepth ?? null,
-					replayGain: lookup.info?.trackReplayGain ?? null
+					replayGain: lookup.info?.trackReplayGain ?? null,
+					normalization: readReplayGainInfo(lookup.info)
 				};
 				return { result, trackInfo };
 			} catch (error) {
@@ -1429,6 +1433,7 @@ class LosslessAPI {
 	): Promise<{
 		url: string;
 		replayGain: number | null;
+		normalization: ReplayGainInfo | null;
 		sampleRate: number | null;
 		bitDepth: number | null;
 	}> {
@@ -1436,6 +1441,7 @@ class LosslessAPI {
 			return this.fetchAppJson<{
 				url: string;
 				replayGain: number | null;
+				normalization: ReplayGainInfo | null;
 				sampleRate: number | null;
 				bitDepth: number | null;
 			}>(`/api/playback/track/${trackId}/stream?${new URLSearchParams({ quality }).toString()}`);
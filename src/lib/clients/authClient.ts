@@ -0,0 +1,166 @@
+type FetchLike = typeof fetch;
+
+export type AuthRole = 'listener' | 'downloader' | 'admin';
+
+export interface AuthUser {
+	name: string;
+	role: AuthRole;
+	source: 'open' | 'account' | 'token' | 'proxy' | 'anonymous' | 'api-token';
+}
+
+export interface AuthSession {
+	enabled: boolean;
+	user: AuthUser | null;
+}
+
+export interface AuthAccount {
+	username: string;
+	role: AuthRole;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export type ApiTokenScope = 'queue:read' | 'queue:write' | 'library:maintain';
+
+export interface ApiToken {
+	id: string;
+	name: string;
+	owner: string;
+	scopes: ApiTokenScope[];
+	createdAt: number;
+	lastUsedAt: number | null;
+}
+
+export type AuthCredentials = { username: string; password: string } | { token: string };
+
+type AuthEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+const ROLE_ORDER: AuthRole[] = ['listener', 'downloader', 'admin'];
+
+export function hasAuthRole(user: AuthUser | null | undefined, required: AuthRole): boolean {
+	return user ? ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(required) : false;
+}
+
+export const authClient = {
+	async getSession(fetchImpl?: FetchLike): Promise<AuthSession> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/session');
+		const payload = await readPayload<AuthEnvelope<AuthSession>>(response);
+		requireSuccess(response, payload, `Failed to fetch session (${response.status})`);
+		return { enabled: payload.enabled, user: payload.user };
+	},
+
+	async login(credentials: AuthCredentials, fetchImpl?: FetchLike): Promise<AuthUser> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/login', jsonInit('POST', credentials));
+		const payload = await readPayload<AuthEnvelope<{ user: AuthUser }>>(response);
+		requireSuccess(response, payload, `Failed to sign in (${response.status})`);
+		return payload.user;
+	},
+
+	async logout(fetchImpl?: FetchLike): Promise<void> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/logout', { method: 'POST' });
+		const payload = await readPayload<AuthEnvelope<object>>(response);
+		requireSuccess(response, payload, `Failed to sign out (${response.status})`);
+	},
+
+	async listAccounts(fetchImpl?: FetchLike): Promise<AuthAccount[]> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/users');
+		const payload = await readPayload<AuthEnvelope<{ accounts: AuthAccount[] }>>(response);
+		requireSuccess(response, payload, `Failed to fetch accounts (${response.status})`);
+		return payload.accounts;
+	},
+
+	async createAccount(
+		input: { username: string; password: string; role: AuthRole },
+		fetchImpl?: FetchLike
+	): Promise<AuthAccount> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/users', jsonInit('POST', input));
+		const payload = await readPayload<AuthEnvelope<{ account: AuthAccount }>>(response);
+		requireSuccess(response, payload, `Failed to create account (${response.status})`);
+		return payload.account;
+	},
+
+	async updateAccount(
+		username: string,
+		update: { role?: AuthRole; password?: string },
+		fetchImpl?: FetchLike
+	): Promise<AuthAccount> {
+		const response = await (fetchImpl ?? fetch)(
+			`/api/auth/users/${encodeURIComponent(username)}`,
+			jsonInit('PATCH', update)
+		);
+		const payload = await readPayload<AuthEnvelope<{ account: AuthAccount }>>(response);
+		requireSuccess(response, payload, `Failed to update account (${response.status})`);
+		return payload.account;
+	},
+
+	async deleteAccount(username: string, fetchImpl?: FetchLike): Promise<void> {
+		const response = await (fetchImpl ?? fetch)(`/api/auth/users/${encodeURIComponent(username)}`, {
+			method: 'DELETE'
+		});
+		const payload = await readPayload<AuthEnvelope<object>>(response);
+		requireSuccess(response, payload, `Failed to delete account (${response.status})`);
+	},
+
+	async listApiTokens(fetchImpl?: FetchLike): Promise<ApiToken[]> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/tokens');
+		const payload = await readPayload<AuthEnvelope<{ tokens: ApiToken[] }>>(response);
+		requireSuccess(response, payload, `Failed to fetch API tokens (${response.status})`);
+		return payload.tokens;
+	},
+
+	/** The returned secret is only shown once; the server keeps a hash of it. */
+	async createApiToken(
+		input: { name: string; scopes: ApiTokenScope[]; owner?: string },
+		fetchImpl?: FetchLike
+	): Promise<{ token: ApiToken; secret: string }> {
+		const response = await (fetchImpl ?? fetch)('/api/auth/tokens', jsonInit('POST', input));
+		const payload = await readPayload<AuthEnvelope<{ token: ApiToken; secret: string }>>(response);
+		requireSuccess(response, payload, `Failed to create API token (${response.status})`);
+		return { token: payload.token, secret: payload.secret };
+	},
+
+	async revokeApiToken(id: string, fetchImpl?: FetchLike): Promise<void> {
+		const response = await (fetchImpl ?? fetch)(`/api/auth/tokens/${encodeURIComponent(id)}`, {
+			method: 'DELETE'
+		});
+		const payload = await readPayload<AuthEnvelope<object>>(response);
+		requireSuccess(response, payload, `Failed to revoke API token (${response.status})`);
+	}
+};
@@ -0,0 +1,178 @@
+import type { AudioQuality } from '$lib/types';
+import type { DiscographySection } from '$lib/utils/discography';
+
+type FetchLike = typeof fetch;
+
+export interface ArtistFollowRules {
+	autoDownload: boolean;
+	quality: AudioQuality;
+	releaseTypes: DiscographySection[];
+}
+
+export interface ArtistFollow {
+	artistId: number;
+	artistName: string;
+	picture?: string;
+	followedAt: number;
+	rules: ArtistFollowRules;
+	knownAlbumIds: number[] | null;
+	lastCheckedAt?: number;
+	lastError?: string;
+}
+
+export interface ArtistNewRelease {
+	id: string;
+	artistId: number;
+	artistName: string;
+	albumId: number;
+	albumTitle: string;
+	releaseType: DiscographySection;
+	releaseDate?: string;
+	cover?: string;
+	trackCount?: number;
+	detectedAt: number;
+	inLibrary: boolean;
+	queuedJobId?: string;
+	queueError?: string;
+}
+
+export interface ArtistFollowCheckSummary {
+	newReleases: number;
+	queued: number;
+	errors: number;
+}
+
+type FollowsEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+async function requestFollowsJson<T>(
+	path: string,
+	init?: RequestInit,
+	fetchImpl: FetchLike = fetch
+): Promise<{ response: Response; payload: T | null }> {
+	const response = await fetchImpl(path, init);
+	const payload = await readPayload<T>(response);
+	return { response, payload };
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+export const followsClient = {
+	async listFollows(fetchImpl?: FetchLike): Promise<ArtistFollow[]> {
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{ follows?: ArtistFollow[] }>
+		>('/api/follows', undefined, fetchImpl);
+		requireSuccess(response, payload, `Failed to fetch follows (${response.status})`);
+		return Array.isArray(payload.follows) ? payload.follows : [];
+	},
+
+	async getFollow(artistId: number, fetchImpl?: FetchLike): Promise<ArtistFollow | null> {
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{ follow?: ArtistFollow }>
+		>(`/api/follows/${artistId}`, undefined, fetchImpl);
+		if (response.status === 404) {
+			return null;
+		}
+		requireSuccess(response, payload, `Failed to fetch follow (${response.status})`);
+		return payload.follow ?? null;
+	},
+
+	async follow(
+		input: {
+			artistId: number;
+			artistName: string;
+			picture?: string;
+			rules?: Partial<ArtistFollowRules>;
+		},
+		fetchImpl?: FetchLike
+	): Promise<ArtistFollow> {
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{ follow: ArtistFollow }>
+		>('/api/follows', jsonInit('POST', input), fetchImpl);
+		requireSuccess(response, payload, `Failed to follow artist (${response.status})`);
+		return payload.follow;
+	},
+
+	async updateRules(
+		artistId: number,
+		rules: Partial<ArtistFollowRules>,
+		fetchImpl?: FetchLike
+	): Promise<ArtistFollow> {
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{ follow: ArtistFollow }>
+		>(`/api/follows/${artistId}`, jsonInit('PATCH', { rules }), fetchImpl);
+		requireSuccess(response, payload, `Failed to update follow rules (${response.status})`);
+		return payload.follow;
+	},
+
+	async unfollow(artistId: number, fetchImpl?: FetchLike): Promise<void> {
+		const { response, payload } = await requestFollowsJson<FollowsEnvelope<object>>(
+			`/api/follows/${artistId}`,
+			{ method: 'DELETE' },
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to unfollow artist (${response.status})`);
+	},
+
+	async listReleases(options?: {
+		limit?: number;
+		fetchImpl?: FetchLike;
+	}): Promise<ArtistNewRelease[]> {
+		const suffix = options?.limit ? `?limit=${options.limit}` : '';
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{ releases?: ArtistNewRelease[] }>
+		>(`/api/follows/releases${suffix}`, undefined, options?.fetchImpl);
+		requireSuccess(response, payload, `Failed to fetch new releases (${response.status})`);
+		return Array.isArray(payload.releases) ? payload.releases : [];
+	},
+
+	async checkNow(artistId?: number, fetchImpl?: FetchLike): Promise<ArtistFollowCheckSummary> {
+		const { response, payload } = await requestFollowsJson<
+			FollowsEnvelope<{
+				newReleases?: number;
+				queued?: number;
+				results?: Array<{ error?: string }>;
+			}>
+		>('/api/follows/check', jsonInit('POST', artistId ? { artistId } : {}), fetchImpl);
+		requireSuccess(response, payload, `Failed to check followed artists (${response.status})`);
+		return {
+			newReleases: payload.newReleases ?? 0,
+			queued: payload.queued ?? 0,
+			errors: (payload.results ?? []).filter((result) => result.error).length
+		};
+	}
+};
@@ -0,0 +1,62 @@
+import type { ListeningEvent } from '$lib/utils/listeningStats';
+
+type FetchLike = typeof fetch;
+
+type ListeningHistoryEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+export const listeningHistoryClient = {
+	async listEvents(options?: { since?: number; fetchImpl?: FetchLike }): Promise<ListeningEvent[]> {
+		const suffix = options?.since ? `?since=${options.since}` : '';
+		const response = await (options?.fetchImpl ?? fetch)(`/api/listening-history${suffix}`);
+		const payload =
+			await readPayload<ListeningHistoryEnvelope<{ events?: ListeningEvent[] }>>(response);
+		requireSuccess(response, payload, `Failed to fetch listening history (${response.status})`);
+		return Array.isArray(payload.events) ? payload.events : [];
+	},
+
+	async appendEvents(events: ListeningEvent[], fetchImpl?: FetchLike): Promise<number> {
+		const response = await (fetchImpl ?? fetch)('/api/listening-history', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ events })
+		});
+		const payload = await readPayload<ListeningHistoryEnvelope<{ added?: number }>>(response);
+		requireSuccess(response, payload, `Failed to sync listening history (${response.status})`);
+		return payload.added ?? 0;
+	},
+
+	async clear(fetchImpl?: FetchLike): Promise<void> {
+		const response = await (fetchImpl ?? fetch)('/api/listening-history', { method: 'DELETE' });
+		const payload = await readPayload<ListeningHistoryEnvelope<object>>(response);
+		requireSuccess(response, payload, `Failed to clear listening history (${response.status})`);
+	}
+};
@@ -0,0 +1,181 @@
+import type { AudioQuality, Track } from '$lib/types';
+
+type FetchLike = typeof fetch;
+
+export interface LocalPlaylistEntry {
+	entryId: string;
+	addedAt: number;
+	track: Track;
+}
+
+export interface LocalPlaylist {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	entries: LocalPlaylistEntry[];
+}
+
+export interface LocalPlaylistSummary {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	trackCount: number;
+	durationSeconds: number;
+	cover: string | null;
+}
+
+export interface LocalPlaylistDownloadSummary {
+	batchId?: string;
+	queued: number;
+	skipped: number;
+}
+
+type PlaylistsEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+async function requestPlaylistsJson<T>(
+	path: string,
+	init?: RequestInit,
+	fetchImpl: FetchLike = fetch
+): Promise<{ response: Response; payload: T | null }> {
+	const response = await fetchImpl(path, init);
+	const payload = await readPayload<T>(response);
+	return { response, payload };
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+const playlistPath = (id: string): string => `/api/local-playlists/${encodeURIComponent(id)}`;
+
+export const localPlaylistsClient = {
+	async listPlaylists(fetchImpl?: FetchLike): Promise<LocalPlaylistSummary[]> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlists?: LocalPlaylistSummary[] }>
+		>('/api/local-playlists', undefined, fetchImpl);
+		requireSuccess(response, payload, `Failed to fetch playlists (${response.status})`);
+		return Array.isArray(payload.playlists) ? payload.playlists : [];
+	},
+
+	async getPlaylist(id: string, fetchImpl?: FetchLike): Promise<LocalPlaylist | null> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlist?: LocalPlaylist }>
+		>(playlistPath(id), undefined, fetchImpl);
+		if (response.status === 404) {
+			return null;
+		}
+		requireSuccess(response, payload, `Failed to fetch playlist (${response.status})`);
+		return payload.playlist ?? null;
+	},
+
+	async createPlaylist(
+		input: { name: string; tracks?: Track[] },
+		fetchImpl?: FetchLike
+	): Promise<LocalPlaylist> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlist: LocalPlaylist }>
+		>('/api/local-playlists', jsonInit('POST', input), fetchImpl);
+		requireSuccess(response, payload, `Failed to create playlist (${response.status})`);
+		return payload.playlist;
+	},
+
+	async updatePlaylist(
+		id: string,
+		update: { name?: string; order?: string[] },
+		fetchImpl?: FetchLike
+	): Promise<LocalPlaylist> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlist: LocalPlaylist }>
+		>(playlistPath(id), jsonInit('PATCH', update), fetchImpl);
+		requireSuccess(response, payload, `Failed to update playlist (${response.status})`);
+		return payload.playlist;
+	},
+
+	async deletePlaylist(id: string, fetchImpl?: FetchLike): Promise<void> {
+		const { response, payload } = await requestPlaylistsJson<PlaylistsEnvelope<object>>(
+			playlistPath(id),
+			{ method: 'DELETE' },
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to delete playlist (${response.status})`);
+	},
+
+	async addTracks(
+		id: string,
+		tracks: Track[],
+		options?: { position?: number; fetchImpl?: FetchLike }
+	): Promise<LocalPlaylist> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlist: LocalPlaylist }>
+		>(
+			`${playlistPath(id)}/tracks`,
+			jsonInit('POST', { tracks, position: options?.position }),
+			options?.fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to add tracks (${response.status})`);
+		return payload.playlist;
+	},
+
+	async removeEntries(
+		id: string,
+		entryIds: string[],
+		fetchImpl?: FetchLike
+	): Promise<LocalPlaylist> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<{ playlist: LocalPlaylist }>
+		>(`${playlistPath(id)}/tracks`, jsonInit('DELETE', { entryIds }), fetchImpl);
+		requireSuccess(response, payload, `Failed to remove tracks (${response.status})`);
+		return payload.playlist;
+	},
+
+	async downloadPlaylist(
+		id: string,
+		quality: AudioQuality,
+		fetchImpl?: FetchLike
+	): Promise<LocalPlaylistDownloadSummary> {
+		const { response, payload } = await requestPlaylistsJson<
+			PlaylistsEnvelope<Partial<LocalPlaylistDownloadSummary>>
+		>(`${playlistPath(id)}/download`, jsonInit('POST', { quality }), fetchImpl);
+		requireSuccess(response, payload, `Failed to queue playlist download (${response.status})`);
+		return {
+			batchId: payload.batchId,
+			queued: payload.queued ?? 0,
+			skipped: payload.skipped ?? 0
+		};
+	}
+};
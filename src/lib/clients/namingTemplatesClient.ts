@@ -0,0 +1,102 @@
+type FetchLike = typeof fetch;
+
+export interface NamingTemplateConfig {
+	folderTemplate: string | null;
+	fileTemplate: string | null;
+}
+
+export interface NamingTemplateTokenInfo {
+	token: string;
+	scope: 'album' | 'track';
+	description: string;
+}
+
+export interface NamingTemplateState {
+	naming: NamingTemplateConfig;
+	tokens: NamingTemplateTokenInfo[];
+	preview: string[];
+}
+
+type NamingEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+async function requestNamingJson<T>(
+	path: string,
+	init?: RequestInit,
+	fetchImpl: FetchLike = fetch
+): Promise<{ response: Response; payload: T | null }> {
+	const response = await fetchImpl(path, init);
+	const payload = await readPayload<T>(response);
+	return { response, payload };
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+export const namingTemplatesClient = {
+	async getTemplates(fetchImpl?: FetchLike): Promise<NamingTemplateState> {
+		const { response, payload } = await requestNamingJson<
+			NamingEnvelope<Partial<NamingTemplateState>>
+		>('/api/naming-templates', undefined, fetchImpl);
+		requireSuccess(response, payload, `Failed to fetch naming templates (${response.status})`);
+		return {
+			naming: payload.naming ?? { folderTemplate: null, fileTemplate: null },
+			tokens: Array.isArray(payload.tokens) ? payload.tokens : [],
+			preview: Array.isArray(payload.preview) ? payload.preview : []
+		};
+	},
+
+	async saveTemplates(
+		naming: NamingTemplateConfig,
+		fetchImpl?: FetchLike
+	): Promise<{ naming: NamingTemplateConfig; preview: string[] }> {
+		const { response, payload } = await requestNamingJson<
+			NamingEnvelope<{ naming: NamingTemplateConfig; preview?: string[] }>
+		>('/api/naming-templates', jsonInit('PUT', naming), fetchImpl);
+		requireSuccess(response, payload, `Failed to save naming templates (${response.status})`);
+		return { naming: payload.naming, preview: payload.preview ?? [] };
+	},
+
+	async previewTemplates(naming: NamingTemplateConfig, fetchImpl?: FetchLike): Promise<string[]> {
+		const { response, payload } = await requestNamingJson<NamingEnvelope<{ preview?: string[] }>>(
+			'/api/naming-templates/preview',
+			jsonInit('POST', naming),
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Invalid naming templates (${response.status})`);
+		return payload.preview ?? [];
+	}
+};
@@ -0,0 +1,107 @@
+import type { LibraryBrowseTrack } from '$lib/utils/mediaLibraryClient';
+import type { PlaylistFileEntry, PlaylistFileFormat } from '$lib/utils/playlistFormats';
+import type { Track } from '$lib/types';
+
+type FetchLike = typeof fetch;
+
+export type PlaylistImportResolution =
+	| {
+			kind: 'library';
+			entry: PlaylistFileEntry;
+			album: { artistName: string; albumTitle: string; tidalAlbumId?: number };
+			track: LibraryBrowseTrack;
+	  }
+	| { kind: 'tidal'; entry: PlaylistFileEntry; trackId: number }
+	| { kind: 'isrc'; entry: PlaylistFileEntry; isrc: string }
+	| { kind: 'unresolved'; entry: PlaylistFileEntry };
+
+type PlaylistFilesEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(body: unknown): RequestInit {
+	return {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+export const playlistFilesClient = {
+	async exportPlaylist(
+		input: { format: Exclude<PlaylistFileFormat, 'csv'>; name: string; tracks: Track[] },
+		fetchImpl: FetchLike = fetch
+	): Promise<{ blob: Blob; matched: number }> {
+		const response = await fetchImpl('/api/playlist-files/export', jsonInit(input));
+		if (!response.ok) {
+			const payload = await readPayload<PlaylistFilesEnvelope<object>>(response);
+			throw new Error(payload?.error ?? `Failed to export playlist (${response.status})`);
+		}
+		return {
+			blob: await response.blob(),
+			matched: Number(response.headers.get('X-Library-Matches')) || 0
+		};
+	},
+
+	async importPlaylist(
+		input: { content: string; filename?: string },
+		fetchImpl: FetchLike = fetch
+	): Promise<{ format: PlaylistFileFormat; resolutions: PlaylistImportResolution[] }> {
+		const response = await fetchImpl('/api/playlist-files/import', jsonInit(input));
+		const payload = await readPayload<
+			PlaylistFilesEnvelope<{
+				format?: PlaylistFileFormat;
+				resolutions?: PlaylistImportResolution[];
+			}>
+		>(response);
+		requireSuccess(response, payload, `Failed to import playlist (${response.status})`);
+		return {
+			format: payload.format ?? 'm3u8',
+			resolutions: Array.isArray(payload.resolutions) ? payload.resolutions : []
+		};
+	},
+
+	async writeToLibrary(
+		input: { name: string; tracks: Track[] },
+		fetchImpl: FetchLike = fetch
+	): Promise<{ path: string; matched: number; total: number }> {
+		const response = await fetchImpl('/api/playlist-files/write', jsonInit(input));
+		const payload =
+			await readPayload<PlaylistFilesEnvelope<{ path?: string; matched?: number; total?: number }>>(
+				response
+			);
+		requireSuccess(response, payload, `Failed to write playlist file (${response.status})`);
+		return {
+			path: payload.path ?? '',
+			matched: payload.matched ?? 0,
+			total: payload.total ?? 0
+		};
+	}
+};
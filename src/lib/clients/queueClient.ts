@@ -18,6 +18,14 @@ export type QueueJobAction =
 	| 'resume'
 	| 'retry'
 	| 'set_musicbrainz_release';
+export type QueueBatchSource =
+	| 'discography'
+	| 'repair-all'
+	| 'quality-upgrade'
+	| 'playlist'
+	| 'manual';
+export type QueueBatchAction = 'pause' | 'resume' | 'cancel' | 'retry';
+export type QueueBatchStatus = 'empty' | QueueJobStatus;
 
 export interface QueueStats {
 	queued: number;
@@ -49,6 +57,82 @@ export interface QueueWorkerStatus {
 	maxConcurrent: number;
 }
 
+export interface QueueScheduleWindow {
+	days?: number[];
+	start: string;
+	end: string;
+}
+
+export interface QueueScheduleConfig {
+	enabled: boolean;
+	windows: QueueScheduleWindow[];
+	bandwidthBudgetBytesPerSecond: number | null;
+}
+
+export interface QueueScheduleStatus {
+	enabled: boolean;
+	withinWindow: boolean;
+	nextWindowOpensAt: number | null;
+	bandwidthBudgetBytesPerSecond: number | null;
+	observedBytesPerSecond: number;
+	throttled: boolean;
+	effectiveMaxConcurrent: number;
+}
+
+export interface QueueBatch {
+	id: string;
+	label: string;
+	source: QueueBatchSource;
+	createdByRoute?: string;
+	createdAt: number;
+}
+
+export interface QueueBatchSummary {
+	batch: QueueBatch;
+	status: QueueBatchStatus;
+	jobIds: string[];
+	counts: Record<QueueJobStatus, number>;
+	total: number;
+	progress: number;
+}
+
+export type DownloadHistoryStatus = 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadHistoryEntry {
+	id: string;
+	jobId: string;
+	recordedAt: number;
+	status: DownloadHistoryStatus;
+	type: 'track' | 'album';
+	trackId?: number;
+	albumId?: number;
+	artistName?: string;
+	albumTitle?: string;
+	trackTitle?: string;
+	requestedQuality: AudioQuality;
+	quality: AudioQuality;
+	fallbackHistory: AudioQuality[];
+	outputPath?: string;
+	fileSize?: number;
+	trackCount?: number;
+	completedTracks?: number;
+	downloadTimeMs?: number;
+	retryCount: number;
+	error?: string;
+	failureCode?: string;
+	batchId?: string;
+	createdAt: number;
+	startedAt?: number;
+	completedAt?: number;
+}
+
+export interface DownloadHistoryPage {
+	entries: DownloadHistoryEntry[];
+	total: number;
+	limit: number;
+	offset: number;
+}
+
 export interface QueueJobRecord extends QueueJob {
 	priority?: QueueJobPriority;
 	maxRetries?: number;
@@ -68,6 +152,9 @@ export interface QueueJobRecord extends QueueJob {
 	downloadTimeMs?: number;
 	fileSize?: number;
 	fallbackHistory?: AudioQuality[];
+	outputPath?: string;
+	batchId?: string;
+	dependsOn?: string[];
 }
 
 export type QueueTrackJobInput = {
@@ -109,6 +196,8 @@ export interface QueueDashboardPayload {
 	queue: QueueStats;
 	metrics: QueueMetrics;
 	worker: QueueWorkerStatus;
+	schedule?: QueueScheduleStatus;
+	batches?: QueueBatchSummary[];
 	queueSource?: QueueSource;
 	warning?: string;
 	localMode?: boolean;
@@ -120,6 +209,10 @@ export interface QueueDashboardPayload {
 export interface QueueSubmitResult {
 	success: boolean;
 	jobId?: string;
+	// Anything but 'created' means an existing job was returned
+	outcome?: 'created' | 'in_library' | 'duplicate' | 'requeued';
+	// Set when dependsOn was given but the returned job already existed
+	dependsOnIgnored?: boolean;
 	message?: string;
 	warning?: string;
 	error?: string;
@@ -219,6 +312,8 @@ export const queueClient = {
 			maxRetries?: number;
 			checkDuplicate?: boolean;
 			forceOverwrite?: boolean;
+			batchId?: string;
+			dependsOn?: string[];
 		},
 		fetchImpl?: FetchLike
 	): Promise<QueueSubmitResult> {
@@ -271,6 +366,133 @@ export const queueClient = {
 		}
 	},
 
+	async createBatch(
+		input: { label: string; source?: QueueBatchSource; createdByRoute?: string },
+		fetchImpl?: FetchLike
+	): Promise<QueueBatch> {
+		const { response, payload } = await requestQueueJson<QueueEnvelope<{ batch: QueueBatch }>>(
+			'/api/download-queue/batch',
+			{
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(input)
+			},
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to create queue batch (${response.status})`);
+		return payload.batch;
+	},
+
+	async getBatch(batchId: string, fetchImpl?: FetchLike): Promise<QueueBatchSummary | null> {
+		const { response, payload } = await requestQueueJson<QueueEnvelope<QueueBatchSummary>>(
+			`/api/download-queue/batch/${encodeURIComponent(batchId)}`,
+			undefined,
+			fetchImpl
+		);
+		if (response.status === 404) {
+			return null;
+		}
+		requireSuccess(response, payload, `Failed to fetch queue batch (${response.status})`);
+		const { batch, status, jobIds, counts, total, progress } = payload;
+		return { batch, status, jobIds, counts, total, progress };
+	},
+
+	async requestBatchAction(
+		batchId: string,
+		action: QueueBatchAction,
+		fetchImpl?: FetchLike
+	): Promise<QueueActionResult> {
+		try {
+			const { response, payload } = await requestQueueJson<QueueActionResult>(
+				`/api/download-queue/batch/${encodeURIComponent(batchId)}`,
+				{
+					method: 'PATCH',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ action })
+				},
+				fetchImpl
+			);
+			if (!response.ok || !payload?.success) {
+				return {
+					success: false,
+					error: payload?.error ?? `Failed to ${action} queue batch`
+				};
+			}
+			return { success: true };
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : `Failed to ${action} queue batch`
+			};
+		}
+	},
+
+	async listHistory(
+		filters?: {
+			status?: DownloadHistoryStatus;
+			type?: 'track' | 'album';
+			quality?: AudioQuality;
+			search?: string;
+			since?: number;
+			until?: number;
+			limit?: number;
+			offset?: number;
+		},
+		fetchImpl?: FetchLike
+	): Promise<DownloadHistoryPage> {
+		const params = new URLSearchParams();
+		if (filters?.status) params.set('status', filters.status);
+		if (filters?.type) params.set('type', filters.type);
+		if (filters?.quality) params.set('quality', filters.quality);
+		if (filters?.search) params.set('q', filters.search);
+		if (filters?.since !== undefined) params.set('since', String(filters.since));
+		if (filters?.until !== undefined) params.set('until', String(filters.until));
+		if (filters?.limit !== undefined) params.set('limit', String(filters.limit));
+		if (filters?.offset !== undefined) params.set('offset', String(filters.offset));
+		const suffix = params.size > 0 ? `?${params.toString()}` : '';
+		const { response, payload } = await requestQueueJson<QueueEnvelope<DownloadHistoryPage>>(
+			`/api/download-history${suffix}`,
+			undefined,
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to fetch download history (${response.status})`);
+		return {
+			entries: Array.isArray(payload.entries) ? payload.entries : [],
+			total: payload.total ?? 0,
+			limit: payload.limit,
+			offset: payload.offset
+		};
+	},
+
+	async getSchedule(
+		fetchImpl?: FetchLike
+	): Promise<{ schedule: QueueScheduleConfig; status: QueueScheduleStatus }> {
+		const { response, payload } = await requestQueueJson<
+			QueueEnvelope<{ schedule: QueueScheduleConfig; status: QueueScheduleStatus }>
+		>('/api/download-queue/schedule', undefined, fetchImpl);
+		requireSuccess(response, payload, `Failed to fetch queue schedule (${response.status})`);
+		return { schedule: payload.schedule, status: payload.status };
+	},
+
+	async updateSchedule(
+		schedule: QueueScheduleConfig,
+		fetchImpl?: FetchLike
+	): Promise<{ schedule: QueueScheduleConfig; status: QueueScheduleStatus }> {
+		const { response, payload } = await requestQueueJson<
+			QueueEnvelope<{ schedule: QueueScheduleConfig; status: QueueScheduleStatus }>
+		>(
+			'/api/download-queue/schedule',
+			{
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(schedule)
+			},
+			fetchImpl
+		);
+		requireSuccess(response, payload, `Failed to update queue schedule (${response.status})`);
+		return { schedule: payload.schedule, status: payload.status };
+	},
+
 	async deleteJob(jobId: string, fetchImpl?: FetchLike): Promise<QueueActionResult> {
 		try {
 			const { response, payload } = await requestQueueJson<QueueActionResult>(
@@ -293,3 +515,91 @@ export const queueClient = {
 		}
 	}
 };
+
+export type QueueEventType = 'created' | 'updated' | 'progress' | 'terminal' | 'removed';
+
+export interface QueueEvent {
+	id: string;
+	type: QueueEventType;
+	jobId: string;
+	job?: QueueJobRecord;
+	at: number;
+}
+
+export type QueueEventStreamHandlers = {
+	onEvent: (event: QueueEvent) => void;
+	// The server couldn't replay what was missed; reload the whole queue
+	onReset: () => void;
+	onOpen?: () => void;
+	// `closed` is false while EventSource is reconnecting on its own
+	onError?: (closed: boolean) => void;
+};
+
+export type QueueEventStream = {
+	close: () => void;
+	lastEventId: () => string | null;
+};
+
+const QUEUE_EVENT_TYPES: QueueEventType[] = ['created', 'updated', 'progress', 'terminal', 'removed'];
+
+/**
+ * Open the `/api/download-queue/events` stream. EventSource resumes with `Last-Event-ID` when it
+ * reconnects by itself; pass `lastEventId` to resume a stream that was closed. Returns null
+ * where EventSource is unavailable.
+ */
+export function openQueueEventStream(
+	handlers: QueueEventStreamHandlers,
+	lastEventId?: string | null
+): QueueEventStream | null {
+	if (typeof EventSource === 'undefined') {
+		return null;
+	}
+	const url = lastEventId
+		? `/api/download-queue/events?lastEventId=${encodeURIComponent(lastEventId)}`
+		: '/api/download-queue/events';
+	const source = new EventSource(url);
+	let latestId = lastEventId ?? null;
+
+	const track = (message: MessageEvent<string>) => {
+		if (message.lastEventId) {
+			latestId = message.lastEventId;
+		}
+	};
+	const handleJobEvent = (message: MessageEvent<string>) => {
+		track(message);
+		try {
+			handlers.onEvent(JSON.parse(message.data) as QueueEvent);
+		} catch {
+			// ignore malformed payloads
+		}
+	};
+	const handleReady = (message: MessageEvent<string>) => track(message);
+	const handleReset = (message: MessageEvent<string>) => {
+		track(message);
+		handlers.onReset();
+	};
+	const handleOpen = () => handlers.onOpen?.();
+	const handleError = () => handlers.onError?.(source.readyState === EventSource.CLOSED);
+
+	for (const type of QUEUE_EVENT_TYPES) {
+		source.addEventListener(`job-${type}`, handleJobEvent as EventListener);
+	}
+	source.addEventListener('ready', handleReady as EventListener);
+	source.addEventListener('reset', handleReset as EventListener);
+	source.addEventListener('open', handleOpen);
+	source.addEventListener('error', handleError);
+
+	return {
+		close: () => {
+			for (const type of QUEUE_EVENT_TYPES) {
+				source.removeEventListener(`job-${type}`, handleJobEvent as EventListener);
+			}
+			source.removeEventListener('ready', handleReady as EventListener);
+			source.removeEventListener('reset', handleReset as EventListener);
+			source.removeEventListener('open', handleOpen);
+			source.removeEventListener('error', handleError);
+			source.close();
+		},
+		lastEventId: () => latestId
+	};
+}
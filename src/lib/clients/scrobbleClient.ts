@@ -0,0 +1,131 @@
+import { isSonglinkTrack, type PlayableTrack } from '$lib/types';
+
+type FetchLike = typeof fetch;
+
+export interface ScrobbleStatus {
+	enabled: boolean;
+	apiUrl: string;
+	hasToken: boolean;
+	userName: string | null;
+	pending: number;
+	lastSubmittedAt: number | null;
+	lastError: string | null;
+	nextRetryAt: number | null;
+}
+
+export interface ScrobbleConfigUpdate {
+	enabled: boolean;
+	apiUrl: string;
+	// Omit to keep the stored token; an empty string removes it
+	token?: string;
+}
+
+export interface ScrobbleTrackPayload {
+	title: string;
+	artistName: string;
+	albumTitle: string | null;
+	durationSeconds: number | null;
+	trackNumber: number | null;
+	isrc: string | null;
+	recordingMbid: string | null;
+}
+
+type ScrobbleEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+export function buildScrobbleTrack(track: PlayableTrack): ScrobbleTrackPayload {
+	if (isSonglinkTrack(track)) {
+		return {
+			title: track.title,
+			artistName: track.artistName,
+			albumTitle: null,
+			durationSeconds: null,
+			trackNumber: null,
+			isrc: null,
+			recordingMbid: null
+		};
+	}
+	return {
+		title: track.title,
+		artistName: track.artists?.[0]?.name ?? track.artist?.name ?? '',
+		albumTitle: track.album?.title ?? null,
+		durationSeconds: track.duration || null,
+		trackNumber: track.trackNumber || null,
+		isrc: track.isrc ?? null,
+		recordingMbid: null
+	};
+}
+
+export const scrobbleClient = {
+	async getStatus(fetchImpl?: FetchLike): Promise<ScrobbleStatus> {
+		const response = await (fetchImpl ?? fetch)('/api/scrobble');
+		const payload = await readPayload<ScrobbleEnvelope<{ status: ScrobbleStatus }>>(response);
+		requireSuccess(response, payload, `Failed to fetch scrobbling status (${response.status})`);
+		return payload.status;
+	},
+
+	async saveConfig(update: ScrobbleConfigUpdate, fetchImpl?: FetchLike): Promise<ScrobbleStatus> {
+		const response = await (fetchImpl ?? fetch)('/api/scrobble', jsonInit('PUT', update));
+		const payload = await readPayload<ScrobbleEnvelope<{ status: ScrobbleStatus }>>(response);
+		requireSuccess(response, payload, `Failed to save scrobbling settings (${response.status})`);
+		return payload.status;
+	},
+
+	async submit(
+		kind: 'playing_now' | 'listen',
+		track: ScrobbleTrackPayload,
+		listenedAt?: number,
+		fetchImpl?: FetchLike
+	): Promise<ScrobbleStatus> {
+		const response = await (fetchImpl ?? fetch)(
+			'/api/scrobble',
+			jsonInit('POST', { kind, track, listenedAt })
+		);
+		const payload = await readPayload<ScrobbleEnvelope<{ status: ScrobbleStatus }>>(response);
+		requireSuccess(response, payload, `Failed to scrobble track (${response.status})`);
+		return payload.status;
+	},
+
+	async flush(fetchImpl?: FetchLike): Promise<ScrobbleStatus> {
+		const response = await (fetchImpl ?? fetch)('/api/scrobble/flush', { method: 'POST' });
+		const payload = await readPayload<ScrobbleEnvelope<{ status: ScrobbleStatus }>>(response);
+		requireSuccess(response, payload, `Failed to retry scrobbles (${response.status})`);
+		return payload.status;
+	}
+};
@@ -0,0 +1,128 @@
+type FetchLike = typeof fetch;
+
+export type WebhookEvent =
+	| 'job.completed'
+	| 'job.failed'
+	| 'job.cancelled'
+	| 'maintenance.report'
+	| 'test';
+
+export interface Webhook {
+	id: string;
+	name: string;
+	url: string;
+	events: WebhookEvent[];
+	enabled: boolean;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	webhookId: string;
+	event: WebhookEvent;
+	status: 'pending' | 'delivered' | 'failed';
+	attempts: number;
+	createdAt: number;
+	lastAttemptAt: number | null;
+	nextAttemptAt: number | null;
+	responseStatus: number | null;
+	error: string | null;
+	body: string;
+}
+
+export interface WebhookInput {
+	name: string;
+	url: string;
+	events: WebhookEvent[];
+	enabled?: boolean;
+	// Omit to have the server generate one
+	secret?: string;
+}
+
+type WebhookEnvelope<T> = {
+	success?: boolean;
+	error?: string;
+} & T;
+
+async function readPayload<T>(response: Response): Promise<T | null> {
+	try {
+		const raw = await response.text();
+		if (!raw) {
+			return null;
+		}
+		try {
+			return JSON.parse(raw) as T;
+		} catch {
+			return { error: raw.trim() || raw } as T;
+		}
+	} catch {
+		return null;
+	}
+}
+
+function requireSuccess<T extends { success?: boolean; error?: string }>(
+	response: Response,
+	payload: T | null,
+	fallbackMessage: string
+): asserts payload is T & { success: true } {
+	if (!response.ok || !payload?.success) {
+		throw new Error(payload?.error ?? fallbackMessage);
+	}
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+	return {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	};
+}
+
+const webhookPath = (id: string) => `/api/webhooks/${encodeURIComponent(id)}`;
+
+export const webhooksClient = {
+	async list(
+		fetchImpl?: FetchLike
+	): Promise<{ webhooks: Webhook[]; deliveries: WebhookDelivery[] }> {
+		const response = await (fetchImpl ?? fetch)('/api/webhooks');
+		const payload =
+			await readPayload<WebhookEnvelope<{ webhooks: Webhook[]; deliveries: WebhookDelivery[] }>>(
+				response
+			);
+		requireSuccess(response, payload, `Failed to fetch webhooks (${response.status})`);
+		return { webhooks: payload.webhooks, deliveries: payload.deliveries };
+	},
+
+	/** The returned secret is only shown once. */
+	async create(
+		input: WebhookInput,
+		fetchImpl?: FetchLike
+	): Promise<{ webhook: Webhook; secret: string }> {
+		const response = await (fetchImpl ?? fetch)('/api/webhooks', jsonInit('POST', input));
+		const payload =
+			await readPayload<WebhookEnvelope<{ webhook: Webhook; secret: string }>>(response);
+		requireSuccess(response, payload, `Failed to add webhook (${response.status})`);
+		return { webhook: payload.webhook, secret: payload.secret };
+	},
+
+	async update(id: string, update: Partial<WebhookInput>, fetchImpl?: FetchLike): Promise<Webhook> {
+		const response = await (fetchImpl ?? fetch)(webhookPath(id), jsonInit('PATCH', update));
+		const payload = await readPayload<WebhookEnvelope<{ webhook: Webhook }>>(response);
+		requireSuccess(response, payload, `Failed to update webhook (${response.status})`);
+		return payload.webhook;
+	},
+
+	async remove(id: string, fetchImpl?: FetchLike): Promise<void> {
+		const response = await (fetchImpl ?? fetch)(webhookPath(id), { method: 'DELETE' });
+		const payload = await readPayload<WebhookEnvelope<object>>(response);
+		requireSuccess(response, payload, `Failed to remove webhook (${response.status})`);
+	},
+
+	async sendTest(id: string, fetchImpl?: FetchLike): Promise<WebhookDelivery> {
+		const response = await (fetchImpl ?? fetch)(`${webhookPath(id)}/test`, { method: 'POST' });
+		const payload = await readPayload<WebhookEnvelope<{ delivery: WebhookDelivery }>>(response);
+		requireSuccess(response, payload, `Failed to send test event (${response.status})`);
+		return payload.delivery;
+	}
+};
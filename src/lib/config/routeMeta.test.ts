@@ -6,7 +6,10 @@ describe('routeMeta', () => {
 		const criticalPaths = [
 			'/',
 			'/history',
+			'/library',
 			'/library-suggestions',
+			'/follows',
+			'/playlists',
 			'/settings',
 			'/download-center',
 			'/download-log',
@@ -21,12 +21,21 @@ const ROUTES: AppRouteMeta[] = [
 	{
 		path: '/history',
 		title: 'History',
-		subtitle: 'Recently visited artists and albums',
+		subtitle: 'Recently played tracks, listening stats and visited pages',
 		navLabel: 'History',
 		navGroup: 'navigation',
 		archetype: 'collection',
 		sectionPriority: ['page-header', 'filters-actions', 'results', 'state-feedback']
 	},
+	{
+		path: '/library',
+		title: 'Library',
+		subtitle: 'Browse downloaded artists, albums and tracks',
+		navLabel: 'Library',
+		navGroup: 'navigation',
+		archetype: 'collection',
+		sectionPriority: ['page-header', 'filters-actions', 'results', 'state-feedback']
+	},
 	{
 		path: '/library-suggestions',
 		title: 'Library Suggestions',
@@ -36,6 +45,24 @@ const ROUTES: AppRouteMeta[] = [
 		archetype: 'collection',
 		sectionPriority: ['page-header', 'filters-actions', 'results', 'state-feedback']
 	},
+	{
+		path: '/follows',
+		title: 'Follows',
+		subtitle: 'New releases from followed artists',
+		navLabel: 'Follows',
+		navGroup: 'navigation',
+		archetype: 'collection',
+		sectionPriority: ['page-header', 'filters-actions', 'results', 'state-feedback']
+	},
+	{
+		path: '/playlists',
+		title: 'Playlists',
+		subtitle: 'Playlists saved on this server',
+		navLabel: 'Playlists',
+		navGroup: 'navigation',
+		archetype: 'collection',
+		sectionPriority: ['page-header', 'filters-actions', 'results', 'state-feedback']
+	},
 	{
 		path: '/settings',
 		title: 'Settings',
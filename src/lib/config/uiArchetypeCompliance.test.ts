@@ -26,6 +26,16 @@ const ROUTE_COMPLIANCE_SPECS: RouteComplianceSpec[] = [
 		files: ['src/routes/history/+page.svelte'],
 		requiredBlocks: ['page-header', 'filters-actions', 'results']
 	},
+	{
+		route: '/playlists',
+		archetype: 'collection',
+		files: [
+			'src/routes/playlists/+page.svelte',
+			'src/lib/screens/playlists/PlaylistsScreenContainer.svelte',
+			'src/lib/screens/playlists/sections/LocalPlaylistsListSection.svelte'
+		],
+		requiredBlocks: ['page-header', 'filters-actions', 'results']
+	},
 	{
 		route: '/library-suggestions',
 		archetype: 'collection',
@@ -36,6 +46,29 @@ const ROUTE_COMPLIANCE_SPECS: RouteComplianceSpec[] = [
 		],
 		requiredBlocks: ['page-header', 'filters-actions', 'results']
 	},
+	{
+		route: '/library',
+		archetype: 'collection',
+		files: [
+			'src/routes/library/+page.svelte',
+			'src/lib/screens/library/LibraryScreenContainer.svelte',
+			'src/lib/screens/library/sections/LibraryArtistsSection.svelte',
+			'src/lib/screens/library/sections/LibraryAlbumsSection.svelte',
+			'src/lib/screens/library/sections/LibraryAlbumTracksSection.svelte'
+		],
+		requiredBlocks: ['page-header', 'filters-actions', 'results']
+	},
+	{
+		route: '/follows',
+		archetype: 'collection',
+		files: [
+			'src/routes/follows/+page.svelte',
+			'src/lib/screens/follows/FollowsScreenContainer.svelte',
+			'src/lib/screens/follows/sections/FollowsReleasesSection.svelte',
+			'src/lib/screens/follows/sections/FollowedArtistsSection.svelte'
+		],
+		requiredBlocks: ['page-header', 'filters-actions', 'results']
+	},
 	{
 		route: '/settings',
 		archetype: 'tool',
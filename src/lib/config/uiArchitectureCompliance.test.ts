@@ -48,7 +48,9 @@ const MAIN_ROUTE_FILES = [
 	'src/routes/track/[id]/+page.svelte',
 	'src/routes/playlist/[id]/+page.svelte',
 	'src/routes/download-center/+page.svelte',
+	'src/routes/library/+page.svelte',
 	'src/routes/library-suggestions/+page.svelte',
+	'src/routes/follows/+page.svelte',
 	'src/routes/settings/+page.svelte',
 	'src/routes/status/+page.svelte'
 ];
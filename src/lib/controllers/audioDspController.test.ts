@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createDefaultDspSettings, type DspSettings } from '$lib/utils/equalizer';
+import { createAudioDspController } from './audioDspController';
+
+const createParam = (value = 0) => ({
+	value,
+	setTargetAtTime(target: number) {
+		this.value = target;
+	}
+});
+
+const createNode = <T extends object>(extra: T) => ({ connect: vi.fn(), ...extra });
+
+const createFakeContext = () => {
+	const filters: Array<ReturnType<typeof createFilter>> = [];
+	const gains: Array<ReturnType<typeof createGain>> = [];
+	const sources: Array<ReturnType<typeof createNode>> = [];
+	const createFilter = () =>
+		createNode({ type: '', frequency: createParam(), Q: createParam(), gain: createParam() });
+	const createGain = () =>
+		createNode({
+			gain: createParam(1),
+			channelCount: 2,
+			channelCountMode: 'max',
+			channelInterpretation: 'speakers'
+		});
+	const context = {
+		currentTime: 0,
+		state: 'suspended',
+		destination: {},
+		resume: vi.fn(async () => undefined),
+		close: vi.fn(async () => undefined),
+		createGain: vi.fn(() => {
+			const gain = createGain();
+			gains.push(gain);
+			return gain;
+		}),
+		createBiquadFilter: vi.fn(() => {
+			const filter = createFilter();
+			filters.push(filter);
+			return filter;
+		}),
+		createStereoPanner: vi.fn(() => createNode({ pan: createParam() })),
+		createMediaElementSource: vi.fn(() => {
+			const source = createNode({});
+			sources.push(source);
+			return source;
+		})
+	};
+	return { context, filters, gains, sources };
+};
+
+const createSettings = (patch: Partial<DspSettings> = {}): DspSettings => ({
+	...createDefaultDspSettings(),
+	bands: createDefaultDspSettings().bands.map((band) => ({ ...band, gain: 4 })),
+	...patch
+});
+
+const createElement = () => ({}) as HTMLAudioElement;
+
+describe('audioDspController', () => {
+	it('builds the graph lazily the first time DSP is enabled', () => {
+		const fake = createFakeContext();
+		const createContext = vi.fn(() => fake.context as unknown as AudioContext);
+		const controller = createAudioDspController({ createContext });
+		const { apply } = controller;
+		const element = createElement();
+
+		controller.attach(element);
+		apply(null, { reduced: false });
+		expect(createContext).not.toHaveBeenCalled();
+
+		apply(createSettings({ preampDb: 6 }), { reduced: false });
+		expect(createContext).toHaveBeenCalledTimes(1);
+		expect(fake.filters.map((filter) => filter.type)).toEqual([
+			'lowshelf',
+			...Array(8).fill('peaking'),
+			'highshelf'
+		]);
+		expect(fake.context.createMediaElementSource).toHaveBeenCalledWith(element);
+		expect(fake.gains[0].gain.value).toBeCloseTo(Math.pow(10, 6 / 20));
+		expect(fake.filters.every((filter) => filter.gain.value === 4)).toBe(true);
+
+		apply(createSettings(), { reduced: false });
+		controller.attach(element);
+		expect(createContext).toHaveBeenCalledTimes(1);
+		expect(fake.context.createMediaElementSource).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps the graph at unity when DSP is disabled afterwards', () => {
+		const fake = createFakeContext();
+		const controller = createAudioDspController({
+			createContext: () => fake.context as unknown as AudioContext
+		});
+		const { apply } = controller;
+		controller.attach(createElement());
+		apply(createSettings({ preampDb: -3, mono: true, balance: 0.5 }), {
+			reduced: false
+		});
+		const [preamp, mono] = fake.gains;
+		expect(mono.channelCount).toBe(1);
+
+		apply(null, { reduced: false });
+		expect(preamp.gain.value).toBe(1);
+		expect(fake.filters.every((filter) => filter.gain.value === 0)).toBe(true);
+		expect(mono.channelCount).toBe(2);
+		expect(mono.channelCountMode).toBe('max');
+		expect(fake.sources[0].connect).toHaveBeenCalledTimes(1);
+	});
+
+	it('flattens the EQ filters in reduced performance mode', () => {
+		const fake = createFakeContext();
+		const controller = createAudioDspController({
+			createContext: () => fake.context as unknown as AudioContext
+		});
+		const { apply } = controller;
+		apply(createSettings({ preampDb: 3 }), { reduced: true });
+
+		expect(fake.filters.every((filter) => filter.gain.value === 0)).toBe(true);
+		expect(fake.filters[3].frequency.value).toBe(250);
+		expect(fake.gains[0].gain.value).toBeCloseTo(Math.pow(10, 3 / 20));
+	});
+
+	it('falls back to plain playback without an AudioContext', () => {
+		const createContext = vi.fn(() => null);
+		const controller = createAudioDspController({ createContext });
+		const { apply } = controller;
+		controller.attach(createElement());
+
+		expect(() => apply(createSettings(), { reduced: false })).not.toThrow();
+		apply(createSettings(), { reduced: false });
+		controller.resume();
+		controller.destroy();
+		expect(createContext).toHaveBeenCalledTimes(1);
+	});
+
+	it('resumes a suspended context and closes it on destroy', () => {
+		const fake = createFakeContext();
+		const controller = createAudioDspController({
+			createContext: () => fake.context as unknown as AudioContext
+		});
+		const { apply } = controller;
+		apply(createSettings(), { reduced: false });
+
+		controller.resume();
+		expect(fake.context.resume).toHaveBeenCalledTimes(1);
+		controller.destroy();
+		expect(fake.context.close).toHaveBeenCalledTimes(1);
+	});
+});
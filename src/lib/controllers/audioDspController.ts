@@ -0,0 +1,151 @@
+import type { DspSettings } from '$lib/utils/equalizer';
+
+/**
+ * Web Audio chain between the player's audio elements and the output:
+ * pre-amp → 10 biquad filters → mono downmix → stereo balance.
+ *
+ * The graph is built the first time DSP is enabled. A media element can only be routed
+ * through one AudioContext for its lifetime, so disabling DSP afterwards sets every stage
+ * to unity instead of tearing the graph down. Browsers without Web Audio keep playing
+ * through the plain elements.
+ */
+
+type AudioDspGraph = {
+	context: AudioContext;
+	preamp: GainNode;
+	filters: BiquadFilterNode[];
+	mono: GainNode;
+	balance: StereoPannerNode;
+};
+
+type AudioDspControllerOptions = {
+	createContext?: () => AudioContext | null;
+};
+
+export type AudioDspController = {
+	attach: (element: HTMLAudioElement) => void;
+	apply: (settings: DspSettings | null, options: { reduced: boolean }) => void;
+	resume: () => void;
+	destroy: () => void;
+};
+
+// Short smoothing so slider moves don't click
+const PARAM_TIME_CONSTANT = 0.015;
+
+const createBrowserAudioContext = (): AudioContext | null => {
+	if (typeof window === 'undefined' || typeof window.AudioContext !== 'function') {
+		return null;
+	}
+	return new window.AudioContext();
+};
+
+export const createAudioDspController = (
+	options: AudioDspControllerOptions = {}
+): AudioDspController => {
+	const elements = new Set<HTMLAudioElement>();
+	const connected = new WeakSet<HTMLAudioElement>();
+	let graph: AudioDspGraph | null = null;
+	let unavailable = false;
+
+	const connect = (element: HTMLAudioElement) => {
+		if (!graph || connected.has(element)) {
+			return;
+		}
+		try {
+			graph.context.createMediaElementSource(element).connect(graph.preamp);
+			connected.add(element);
+		} catch (error) {
+			console.warn('[AudioDsp] Unable to route audio element through DSP chain', error);
+		}
+	};
+
+	const ensureGraph = (bandCount: number): AudioDspGraph | null => {
+		if (graph || unavailable) {
+			return graph;
+		}
+		let context: AudioContext | null = null;
+		try {
+			context = (options.createContext ?? createBrowserAudioContext)();
+		} catch (error) {
+			console.warn('[AudioDsp] AudioContext unavailable', error);
+		}
+		if (!context) {
+			unavailable = true;
+			return null;
+		}
+		const preamp = context.createGain();
+		const filters = Array.from({ length: bandCount }, (_, index) => {
+			const filter = context.createBiquadFilter();
+			filter.type = index === 0 ? 'lowshelf' : index === bandCount - 1 ? 'highshelf' : 'peaking';
+			return filter;
+		});
+		const mono = context.createGain();
+		mono.channelInterpretation = 'speakers';
+		const balance = context.createStereoPanner();
+
+		let previous: AudioNode = preamp;
+		for (const filter of filters) {
+			previous.connect(filter);
+			previous = filter;
+		}
+		previous.connect(mono);
+		mono.connect(balance);
+		balance.connect(context.destination);
+
+		graph = { context, preamp, filters, mono, balance };
+		elements.forEach(connect);
+		return graph;
+	};
+
+	const setParam = (param: AudioParam, value: number, context: AudioContext) => {
+		param.setTargetAtTime(value, context.currentTime, PARAM_TIME_CONSTANT);
+	};
+
+	const apply = (settings: DspSettings | null, applyOptions: { reduced: boolean }) => {
+		const active = settings ? ensureGraph(settings.bands.length) : graph;
+		if (!active) {
+			return;
+		}
+		const { context } = active;
+		const preampDb = settings?.preampDb ?? 0;
+		setParam(active.preamp.gain, Math.pow(10, preampDb / 20), context);
+		active.filters.forEach((filter, index) => {
+			const band = settings?.bands[index];
+			if (band) {
+				setParam(filter.frequency, band.frequency, context);
+				setParam(filter.Q, band.q, context);
+			}
+			setParam(filter.gain, band && !applyOptions.reduced ? band.gain : 0, context);
+		});
+		const mono = settings?.mono === true;
+		active.mono.channelCount = mono ? 1 : 2;
+		active.mono.channelCountMode = mono ? 'explicit' : 'max';
+		setParam(active.balance.pan, settings?.balance ?? 0, context);
+	};
+
+	const resume = () => {
+		if (graph?.context.state === 'suspended') {
+			void graph.context.resume().catch((error) => {
+				console.debug('[AudioDsp] Resume failed', error);
+			});
+		}
+	};
+
+	const destroy = () => {
+		elements.clear();
+		if (graph) {
+			void graph.context.close().catch(() => {});
+			graph = null;
+		}
+	};
+
+	return {
+		attach(element) {
+			elements.add(element);
+			connect(element);
+		},
+		apply,
+		resume,
+		destroy
+	};
+};
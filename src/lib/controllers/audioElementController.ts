@@ -25,7 +25,6 @@ type ControllerOptions = {
 	getAudioElement: () => HTMLMediaElement | null;
 	onSetCurrentTime: (time: number) => void;
 	onSetDuration: (duration: number) => void;
-	onNextTrack: () => void;
 	onBufferedPercentChange: (value: number) => void;
 	onMaybePreloadNextTrack: (remainingSeconds: number) => void;
 	mediaSessionController: MediaSessionController;
@@ -98,8 +97,8 @@ export const createAudioElementController = (options: ControllerOptions): AudioE
 		updateBufferedPercent();
 	};
 
+	// Advancing (or repeating) is decided by the playback machine on TRACK_END.
 	const handleEnded = () => {
-		options.onNextTrack();
 		options.mediaSessionController.updatePositionState();
 	};
 
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Track } from '$lib/types';
+import { createListeningTracker } from './listeningTracker';
+
+const createTrack = (id: number, duration = 100): Track =>
+	({ id, title: `Track ${id}`, duration }) as Track;
+
+describe('listeningTracker', () => {
+	it('records a play once the threshold of actual playback is crossed', () => {
+		const onListened = vi.fn();
+		const tracker = createListeningTracker({ onListened, now: () => 5_000 });
+		const track = createTrack(1);
+		for (let time = 0; time <= 60; time += 1) {
+			tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: time, duration: 100 });
+		}
+		expect(onListened).toHaveBeenCalledTimes(1);
+		expect(onListened).toHaveBeenCalledWith(track, {
+			playedAt: 5_000,
+			listenedSeconds: 50,
+			durationSeconds: 100
+		});
+	});
+
+	it('ignores seeks and paused time', () => {
+		const onListened = vi.fn();
+		const tracker = createListeningTracker({ onListened });
+		const track = createTrack(1);
+		tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: 0, duration: 100 });
+		tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: 90, duration: 100 });
+		tracker.update({ track, attemptId: 'a', isPlaying: false, currentTime: 91, duration: 100 });
+		tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: 92, duration: 100 });
+		expect(onListened).not.toHaveBeenCalled();
+	});
+
+	it('starts a new play on a new attempt or a repeat restart', () => {
+		const onListened = vi.fn();
+		const tracker = createListeningTracker({ onListened });
+		const track = createTrack(1, 4);
+		const playThrough = (attemptId: string) => {
+			for (let time = 0; time <= 4; time += 1) {
+				tracker.update({ track, attemptId, isPlaying: true, currentTime: time, duration: 4 });
+			}
+		};
+		playThrough('a');
+		playThrough('a');
+		playThrough('b');
+		expect(onListened).toHaveBeenCalledTimes(3);
+	});
+
+	it('reports the start of each play once it actually plays', () => {
+		const onStarted = vi.fn();
+		const tracker = createListeningTracker({ onListened: vi.fn(), onStarted });
+		const track = createTrack(1);
+		tracker.update({ track, attemptId: 'a', isPlaying: false, currentTime: 0, duration: 100 });
+		expect(onStarted).not.toHaveBeenCalled();
+		tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: 0, duration: 100 });
+		tracker.update({ track, attemptId: 'a', isPlaying: true, currentTime: 1, duration: 100 });
+		expect(onStarted).toHaveBeenCalledTimes(1);
+		expect(onStarted).toHaveBeenCalledWith(track);
+	});
+});
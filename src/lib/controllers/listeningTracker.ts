@@ -0,0 +1,111 @@
+import type { PlayableTrack } from '$lib/types';
+import { listenThresholdSeconds } from '$lib/utils/listeningStats';
+
+/**
+ * Turns playback snapshots into play events. Only time that actually elapsed while playing
+ * counts, so seeking to the end of a track doesn't register a listen. Each load of a track
+ * is reported at most once, when it crosses the listened threshold; a repeat-one restart
+ * starts a new play. `onStarted` fires once per play, when it first actually plays.
+ */
+
+type PlaybackSnapshot = {
+	track: PlayableTrack | null;
+	attemptId: string;
+	isPlaying: boolean;
+	currentTime: number;
+	duration: number;
+};
+
+type ListeningTrackerOptions = {
+	onListened: (
+		track: PlayableTrack,
+		listen: { playedAt: number; listenedSeconds: number; durationSeconds: number }
+	) => void;
+	onStarted?: (track: PlayableTrack) => void;
+	now?: () => number;
+};
+
+type ListeningSession = {
+	track: PlayableTrack;
+	attemptId: string;
+	playedAt: number;
+	listenedSeconds: number;
+	lastPosition: number;
+	started: boolean;
+	recorded: boolean;
+};
+
+export type ListeningTracker = {
+	update: (snapshot: PlaybackSnapshot) => void;
+	reset: () => void;
+};
+
+// Larger position jumps between snapshots are seeks, not playback.
+const MAX_PLAYBACK_STEP_SECONDS = 2;
+const RESTART_POSITION_SECONDS = 1;
+
+export const createListeningTracker = (options: ListeningTrackerOptions): ListeningTracker => {
+	const now = options.now ?? Date.now;
+	let session: ListeningSession | null = null;
+
+	const startSession = (snapshot: PlaybackSnapshot & { track: PlayableTrack }) => {
+		session = {
+			track: snapshot.track,
+			attemptId: snapshot.attemptId,
+			playedAt: now(),
+			listenedSeconds: 0,
+			lastPosition: snapshot.currentTime,
+			started: false,
+			recorded: false
+		};
+	};
+
+	const update = (snapshot: PlaybackSnapshot) => {
+		if (!snapshot.track) {
+			session = null;
+			return;
+		}
+		const restarted =
+			session !== null &&
+			session.recorded &&
+			snapshot.currentTime < RESTART_POSITION_SECONDS &&
+			session.lastPosition > snapshot.currentTime + MAX_PLAYBACK_STEP_SECONDS;
+		if (
+			!session ||
+			session.track !== snapshot.track ||
+			session.attemptId !== snapshot.attemptId ||
+			restarted
+		) {
+			startSession({ ...snapshot, track: snapshot.track });
+		}
+		if (!session) {
+			return;
+		}
+		if (snapshot.isPlaying && !session.started) {
+			session.started = true;
+			options.onStarted?.(session.track);
+		}
+		const step = snapshot.currentTime - session.lastPosition;
+		session.lastPosition = snapshot.currentTime;
+		if (!snapshot.isPlaying || step <= 0 || step > MAX_PLAYBACK_STEP_SECONDS) {
+			return;
+		}
+		session.listenedSeconds += step;
+		const duration = snapshot.duration || session.track.duration || 0;
+		if (!session.recorded && session.listenedSeconds >= listenThresholdSeconds(duration)) {
+			session.recorded = true;
+			options.onListened(session.track, {
+				playedAt: session.playedAt,
+				listenedSeconds: session.listenedSeconds,
+				durationSeconds: duration
+			});
+		}
+	};
+
+	return {
+		update,
+		reset() {
+			session = null;
+		}
+	};
+};
@@ -7,7 +7,10 @@ const playbackActions = vi.hoisted(() => ({
 	play: vi.fn(),
 	pause: vi.fn(),
 	seek: vi.fn(),
-	setQueue: vi.fn()
+	setQueue: vi.fn(),
+	setRepeatMode: vi.fn(),
+	setSleepTimer: vi.fn(),
+	cancelSleepTimer: vi.fn()
 }));
 
 const playbackMachineMock = vi.hoisted(() => ({
@@ -15,7 +18,9 @@ const playbackMachineMock = vi.hoisted(() => ({
 	context: {
 		currentTrack: null as PlayableTrack | null,
 		queue: [] as PlayableTrack[],
-		queueIndex: -1
+		queueIndex: -1,
+		repeatMode: 'off' as 'off' | 'one' | 'all',
+		shuffleEnabled: false
 	},
 	isPlaying: false
 }));
@@ -28,7 +33,8 @@ const queueCoordinator = vi.hoisted(() => ({
 	enqueueNext: vi.fn(),
 	removeFromQueue: vi.fn(),
 	clearQueue: vi.fn(),
-	shuffleQueue: vi.fn()
+	shuffleQueue: vi.fn(),
+	unshuffleQueue: vi.fn()
 }));
 
 vi.mock('$lib/stores/playbackMachine.svelte', () => ({
@@ -50,7 +56,13 @@ const makeTrack = (id: number): PlayableTrack =>
 
 describe('playbackFacade', () => {
 	beforeEach(() => {
-		playbackMachineMock.context = { currentTrack: null, queue: [], queueIndex: -1 };
+		playbackMachineMock.context = {
+			currentTrack: null,
+			queue: [],
+			queueIndex: -1,
+			repeatMode: 'off',
+			shuffleEnabled: false
+		};
 		playbackMachineMock.isPlaying = false;
 		vi.clearAllMocks();
 	});
@@ -88,9 +100,8 @@ describe('playbackFacade', () => {
 
 	it('routes play and pause through machine', () => {
 		playbackMachineMock.context = {
-			currentTrack: makeTrack(3),
-			queue: [],
-			queueIndex: -1
+			...playbackMachineMock.context,
+			currentTrack: makeTrack(3)
 		};
 
 		playbackFacade.play();
@@ -144,7 +155,13 @@ describe('playbackFacade', () => {
 
 	it('syncs queue mutations', () => {
 		const tracks = [makeTrack(31), makeTrack(32)];
-		playbackMachineMock.context = { currentTrack: null, queue: [], queueIndex: -1 };
+		playbackMachineMock.context = {
+			currentTrack: null,
+			queue: [],
+			queueIndex: -1,
+			repeatMode: 'off',
+			shuffleEnabled: false
+		};
 
 		const extra = makeTrack(33);
 		queueCoordinator.enqueue.mockReturnValue({
@@ -179,4 +196,49 @@ describe('playbackFacade', () => {
 		expect(queueCoordinator.shuffleQueue).toHaveBeenCalled();
 		expect(playbackActions.loadTrack).toHaveBeenCalledWith(shuffledQueue[0]);
 	});
+
+	it('keeps the pinned current track playing when shuffling', () => {
+		const current = makeTrack(51);
+		playbackMachineMock.context = { ...playbackMachineMock.context, currentTrack: current };
+		queueCoordinator.shuffleQueue.mockReturnValue({
+			queue: [current, makeTrack(52)],
+			queueIndex: 0,
+			currentTrack: current
+		});
+
+		playbackFacade.toggleShuffle();
+		expect(queueCoordinator.shuffleQueue).toHaveBeenCalled();
+		expect(playbackActions.loadTrack).not.toHaveBeenCalled();
+
+		playbackMachineMock.context = { ...playbackMachineMock.context, shuffleEnabled: true };
+		playbackFacade.toggleShuffle();
+		expect(queueCoordinator.unshuffleQueue).toHaveBeenCalled();
+	});
+
+	it('cycles repeat mode off → all → one → off', () => {
+		for (const [from, to] of [
+			['off', 'all'],
+			['all', 'one'],
+			['one', 'off']
+		] as const) {
+			playbackMachineMock.context = { ...playbackMachineMock.context, repeatMode: from };
+			playbackFacade.cycleRepeatMode();
+			expect(playbackActions.setRepeatMode).toHaveBeenLastCalledWith(to);
+		}
+	});
+
+	it('turns sleep timer minutes into a deadline', () => {
+		vi.spyOn(Date, 'now').mockReturnValue(1_000);
+		playbackFacade.setSleepTimer(30);
+		expect(playbackActions.setSleepTimer).toHaveBeenLastCalledWith({
+			mode: 'duration',
+			endsAt: 1_000 + 30 * 60_000
+		});
+		vi.restoreAllMocks();
+
+		playbackFacade.setSleepTimer('end-of-album');
+		expect(playbackActions.setSleepTimer).toHaveBeenLastCalledWith({ mode: 'end-of-album' });
+		playbackFacade.cancelSleepTimer();
+		expect(playbackActions.cancelSleepTimer).toHaveBeenCalled();
+	});
 });
@@ -1,4 +1,5 @@
 import type { PlayableTrack } from '$lib/types';
+import type { RepeatMode } from '$lib/machines/playbackMachine';
 import { playbackMachine } from '$lib/stores/playbackMachine.svelte';
 import { playbackQueueCoordinator } from '$lib/controllers/playbackQueueCoordinator';
 import { areTestHooksEnabled } from '$lib/utils/testHooks';
@@ -20,6 +21,20 @@ type PlaybackFacade = {
 	removeFromQueue: (index: number) => void;
 	clearQueue: () => void;
 	shuffleQueue: () => void;
+	toggleShuffle: () => void;
+	setRepeatMode: (mode: RepeatMode) => void;
+	cycleRepeatMode: () => void;
+	setSleepTimer: (choice: SleepTimerChoice) => void;
+	cancelSleepTimer: () => void;
+};
+
+// Minutes from now, or stop at the end of the current track/album
+export type SleepTimerChoice = number | 'end-of-track' | 'end-of-album';
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+	off: 'all',
+	all: 'one',
+	one: 'off'
 };
 
 const loadQueue = (tracks: PlayableTrack[], startIndex = 0, options?: { autoPlay?: boolean }) => {
@@ -111,13 +126,46 @@ const clearQueue = () => {
 };
 
 const shuffleQueue = () => {
+	const previousTrack = playbackMachine.context.currentTrack;
 	const snapshot = playbackQueueCoordinator.shuffleQueue();
 	const nextTrack = snapshot.currentTrack;
-	if (nextTrack) {
+	// The current track is pinned to the front, so only reload when there was none playing.
+	if (nextTrack && nextTrack !== previousTrack) {
 		playbackMachine.actions.loadTrack(nextTrack);
 	}
 };
 
+const toggleShuffle = () => {
+	if (playbackMachine.context.shuffleEnabled) {
+		playbackQueueCoordinator.unshuffleQueue();
+		return;
+	}
+	shuffleQueue();
+};
+
+const setRepeatMode = (mode: RepeatMode) => {
+	playbackMachine.actions.setRepeatMode(mode);
+};
+
+const cycleRepeatMode = () => {
+	setRepeatMode(NEXT_REPEAT_MODE[playbackMachine.context.repeatMode]);
+};
+
+const setSleepTimer = (choice: SleepTimerChoice) => {
+	if (typeof choice === 'number') {
+		playbackMachine.actions.setSleepTimer({
+			mode: 'duration',
+			endsAt: Date.now() + choice * 60_000
+		});
+		return;
+	}
+	playbackMachine.actions.setSleepTimer({ mode: choice });
+};
+
+const cancelSleepTimer = () => {
+	playbackMachine.actions.cancelSleepTimer();
+};
+
 export const playbackFacade: PlaybackFacade = {
 	loadQueue,
 	play,
@@ -130,7 +178,12 @@ export const playbackFacade: PlaybackFacade = {
 	enqueueNext,
 	removeFromQueue,
 	clearQueue,
-	shuffleQueue
+	shuffleQueue,
+	toggleShuffle,
+	setRepeatMode,
+	cycleRepeatMode,
+	setSleepTimer,
+	cancelSleepTimer
 };
 
 const testHooksEnabled = areTestHooksEnabled();
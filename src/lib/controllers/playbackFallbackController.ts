@@ -1,4 +1,5 @@
 import type { AudioQuality, PlayableTrack, Track } from '$lib/types';
+import { isLocalTrack } from '$lib/types';
 import { getCurrentPlaybackOperation, playbackLogger } from '$lib/core/playbackObservability';
 
 type ControllerOptions = {
@@ -195,7 +196,8 @@ export const createPlaybackFallbackController = (
 		const mediaError = element?.error ?? null;
 		const code = mediaError?.code;
 		const track = options.getCurrentTrack();
-		if (!track) {
+		// Library-only tracks have no network stream to fall back to
+		if (!track || isLocalTrack(track)) {
 			return null;
 		}
 
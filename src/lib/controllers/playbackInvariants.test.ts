@@ -5,16 +5,24 @@
  * 1. Fallback guards prevent duplicate fallback attempts
  * 2. AbortErrors from play() interruption are properly detected
  * 3. State machine transitions are idempotent for duplicate events
+ * 4. Gapless/crossfade transitions never overlap too much or skip queue entries
  *
  * CRITICAL BUGS PREVENTED:
  * - Duplicate FALLBACK_REQUESTED events causing state machine corruption
  * - AbortErrors being treated as real playback errors
  * - Race conditions when rapidly switching tracks
+ * - Crossfades eating most of a short track, or hand-offs landing on a stale queue entry
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createPlaybackFallbackController } from './playbackFallbackController';
+import { planTrackTransition } from './playbackTransitions';
+import { createInitialState, transition } from '$lib/machines/playbackMachine';
 import type { AudioQuality, PlayableTrack } from '$lib/types';
 
+// playbackTransitions pulls in the rune-backed playback store; the planner itself is pure.
+vi.mock('$lib/stores/playbackMachine.svelte', () => ({ playbackMachine: { actions: {} } }));
+vi.mock('$lib/controllers/playbackFacade', () => ({ playbackFacade: {} }));
+
 /**
  * Exact copy of production isPlayAbortError from playbackMachineEffects.ts
  * This must stay in sync with the production implementation.
@@ -342,4 +350,55 @@ describe('Playback System Invariants', () => {
 			expect(options.loadStandardTrack).toHaveBeenCalledTimes(1);
 		});
 	});
+
+	describe('Track Transition Invariants', () => {
+		const withDuration = (id: number, duration: number): PlayableTrack =>
+			({ ...createMockTrack(id), duration }) as PlayableTrack;
+
+		/**
+		 * INVARIANT: A crossfade never covers more than half of either track.
+		 */
+		it('INVARIANT: crossfade is capped at half of each track', () => {
+			for (const [a, b] of [
+				[180, 180],
+				[180, 5],
+				[3, 240],
+				[1, 1]
+			]) {
+				const plan = planTrackTransition(withDuration(1, a), withDuration(2, b), {
+					gaplessPlayback: true,
+					crossfadeSeconds: 12
+				});
+				expect(plan.crossfadeSeconds).toBeLessThanOrEqual(a / 2);
+				expect(plan.crossfadeSeconds).toBeLessThanOrEqual(b / 2);
+			}
+		});
+
+		/**
+		 * INVARIANT: A hand-off only ever lands on the entry directly after the current one.
+		 * Anything else is ignored so TRACK_END takes the normal load path.
+		 */
+		it('INVARIANT: hand-off never skips a queue entry', () => {
+			const queue = [1, 2, 3, 4].map(createMockTrack);
+			const queued = transition(createInitialState(), { type: 'SET_QUEUE', queue, queueIndex: 0 });
+			const loading = transition(queued, { type: 'LOAD_TRACK', track: queue[0], autoPlay: true });
+			const playing = transition(loading, {
+				type: 'LOAD_COMPLETE',
+				streamUrl: 'https://example.com/1.flac',
+				quality: 'LOSSLESS'
+			});
+			const stream = {
+				url: 'https://example.com/next.flac',
+				quality: 'LOSSLESS' as const,
+				replayGain: { mode: 'track' as const, gain: null, peak: null },
+				sampleRate: null,
+				bitDepth: null
+			};
+
+			queue.forEach((track, queueIndex) => {
+				const next = transition(playing, { type: 'TRACK_HANDOFF', queueIndex, track, stream });
+				expect(next.context.queueIndex).toBe(queueIndex === 1 ? 1 : 0);
+			});
+		});
+	});
 });
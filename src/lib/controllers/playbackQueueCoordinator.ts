@@ -1,4 +1,5 @@
 import type { PlayableTrack } from '$lib/types';
+import { resolveAdjacentQueueIndex } from '$lib/machines/playbackMachine';
 import { playbackMachine } from '$lib/stores/playbackMachine.svelte';
 
 type QueueSnapshot = {
@@ -116,20 +117,28 @@ export const playbackQueueCoordinator = {
 			queue.unshift(pinnedTrack);
 		}
 
+		// The machine keeps the pre-shuffle order so unshuffleQueue can restore it.
 		const nextQueueIndex = queue.length > 0 ? 0 : -1;
-		return commitQueue(queue, nextQueueIndex);
+		playbackMachine.actions.shuffleQueue(queue, nextQueueIndex);
+		return getSnapshot();
+	},
+	unshuffleQueue() {
+		playbackMachine.actions.unshuffleQueue();
+		return getSnapshot();
 	},
 	next() {
 		const { queue, queueIndex } = getSnapshot();
-		if (queueIndex < queue.length - 1) {
-			return commitQueue(queue, queueIndex + 1);
+		const nextIndex = resolveAdjacentQueueIndex(playbackMachine.context, 1);
+		if (nextIndex >= 0) {
+			return commitQueue(queue, nextIndex);
 		}
 		return { queue, queueIndex, currentTrack: playbackMachine.context.currentTrack };
 	},
 	previous() {
 		const { queue, queueIndex } = getSnapshot();
-		if (queueIndex > 0) {
-			return commitQueue(queue, queueIndex - 1);
+		const previousIndex = resolveAdjacentQueueIndex(playbackMachine.context, -1);
+		if (previousIndex >= 0) {
+			return commitQueue(queue, previousIndex);
 		}
 		return { queue, queueIndex, currentTrack: playbackMachine.context.currentTrack };
 	}
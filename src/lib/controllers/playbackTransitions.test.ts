@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { writable } from 'svelte/store';
 import type { PlayableTrack } from '../types';
-import { createPlaybackTransitions } from './playbackTransitions';
+import { createPlaybackTransitions, planTrackTransition } from './playbackTransitions';
 
 const playbackMachineActions = vi.hoisted(() => ({
 	updateTime: vi.fn(),
@@ -138,3 +138,52 @@ describe('playbackTransitions', () => {
 		expect(playbackFacadeMock.previous).toHaveBeenCalled();
 	});
 });
+
+describe('planTrackTransition', () => {
+	const albumTrack = (id: number, trackNumber: number, volumeNumber = 1): PlayableTrack =>
+		({
+			id,
+			title: `Track ${id}`,
+			duration: 200,
+			trackNumber,
+			volumeNumber,
+			album: { id: 77, title: 'Album' }
+		}) as PlayableTrack;
+	const settings = { gaplessPlayback: true, crossfadeSeconds: 6 };
+
+	it('plays consecutive album tracks gapless, across disc boundaries too', () => {
+		expect(planTrackTransition(albumTrack(1, 3), albumTrack(2, 4), settings)).toEqual({
+			mode: 'gapless',
+			crossfadeSeconds: 0
+		});
+		expect(planTrackTransition(albumTrack(1, 12), albumTrack(2, 1, 2), settings).mode).toBe(
+			'gapless'
+		);
+		expect(
+			planTrackTransition(albumTrack(1, 3), albumTrack(2, 4), {
+				...settings,
+				gaplessPlayback: false
+			}).mode
+		).toBe('cut');
+	});
+
+	it('crossfades other transitions, capped at half of the shorter track', () => {
+		const short = { ...albumTrack(2, 9), duration: 8 } as PlayableTrack;
+		expect(planTrackTransition(albumTrack(1, 3), albumTrack(2, 9), settings)).toEqual({
+			mode: 'crossfade',
+			crossfadeSeconds: 6
+		});
+		expect(planTrackTransition(albumTrack(1, 3), short, settings)).toEqual({
+			mode: 'crossfade',
+			crossfadeSeconds: 4
+		});
+		expect(
+			planTrackTransition(albumTrack(1, 3), albumTrack(2, 9), { ...settings, crossfadeSeconds: 0 })
+				.mode
+		).toBe('cut');
+	});
+
+	it('cuts when there is no next track', () => {
+		expect(planTrackTransition(albumTrack(1, 3), null, settings).mode).toBe('cut');
+	});
+});
@@ -1,9 +1,11 @@
 import { get } from 'svelte/store';
 import type { Readable } from 'svelte/store';
 import type { PlayableTrack } from '$lib/types';
+import { isSonglinkTrack } from '$lib/types';
 import { assertInvariant } from '$lib/core/invariants';
 import { playbackFacade } from '$lib/controllers/playbackFacade';
 import { playerUiProjection } from '$lib/controllers/playerUiProjection';
+import { resolveAlbumKey } from '$lib/machines/playbackMachine';
 
 type PlaybackState = {
 	currentTrack: PlayableTrack | null;
@@ -17,6 +19,25 @@ type PlaybackState = {
 
 type PlaybackStore = Readable<PlaybackState>;
 
+/**
+ * How playback moves from the current track to the next queue entry when the current
+ * one ends: `cut` reloads the audio element, `gapless` starts a pre-buffered element the
+ * moment the previous one ends, `crossfade` overlaps the two for `crossfadeSeconds`.
+ */
+export type TrackTransitionMode = 'cut' | 'gapless' | 'crossfade';
+
+export type TrackTransitionPlan = {
+	mode: TrackTransitionMode;
+	crossfadeSeconds: number;
+};
+
+export type TrackTransitionSettings = {
+	gaplessPlayback: boolean;
+	crossfadeSeconds: number;
+};
+
+const CUT_TRANSITION: TrackTransitionPlan = { mode: 'cut', crossfadeSeconds: 0 };
+
 type PlaybackTransitions = {
 	play: () => void;
 	pause: () => void;
@@ -32,6 +53,53 @@ type PlaybackTransitions = {
 	clearQueue: () => void;
 };
 
+export const isConsecutiveAlbumTrack = (current: PlayableTrack, next: PlayableTrack): boolean => {
+	if (isSonglinkTrack(current) || isSonglinkTrack(next)) {
+		return false;
+	}
+	const key = resolveAlbumKey(current);
+	if (!key || key !== resolveAlbumKey(next)) {
+		return false;
+	}
+	const currentDisc = current.volumeNumber || 1;
+	const nextDisc = next.volumeNumber || 1;
+	if (nextDisc === currentDisc) {
+		return next.trackNumber === current.trackNumber + 1;
+	}
+	return nextDisc === currentDisc + 1 && next.trackNumber === 1;
+};
+
+/**
+ * Decide how to move from `current` to `next`. Consecutive album tracks play gapless so
+ * live albums and classical movements run on; everything else crossfades when a duration
+ * is configured. A crossfade never covers more than half of either track.
+ */
+export const planTrackTransition = (
+	current: PlayableTrack,
+	next: PlayableTrack | null,
+	settings: TrackTransitionSettings
+): TrackTransitionPlan => {
+	if (!next || isSonglinkTrack(current) || isSonglinkTrack(next)) {
+		return CUT_TRANSITION;
+	}
+	if (isConsecutiveAlbumTrack(current, next)) {
+		return settings.gaplessPlayback ? { mode: 'gapless', crossfadeSeconds: 0 } : CUT_TRANSITION;
+	}
+	const halfDurations = [current.duration, next.duration]
+		.filter((duration) => Number.isFinite(duration) && duration > 0)
+		.map((duration) => duration / 2);
+	const crossfadeSeconds = Math.min(settings.crossfadeSeconds, ...halfDurations);
+	if (!(crossfadeSeconds > 0)) {
+		return CUT_TRANSITION;
+	}
+	assertInvariant(
+		halfDurations.every((half) => crossfadeSeconds <= half),
+		'Crossfade must not exceed half of either track',
+		{ crossfadeSeconds, currentId: current.id, nextId: next.id }
+	);
+	return { mode: 'crossfade', crossfadeSeconds };
+};
+
 export const createPlaybackTransitions = (playbackState: PlaybackStore): PlaybackTransitions => {
 	const getState = () => get(playbackState);
 
@@ -23,13 +23,17 @@ describe('playerUiProjection', () => {
 		playerUiProjection.setVolume(0.5);
 		playerUiProjection.setSampleRate(48000);
 		playerUiProjection.setBitDepth(24);
-		playerUiProjection.setReplayGain(-6);
+		playerUiProjection.setReplayGain({ mode: 'album', gain: -6, peak: 0.95 });
 
 		expect(playbackMachineActions.updateDuration).toHaveBeenCalledWith(180);
 		expect(playbackMachineActions.updateTime).toHaveBeenCalledWith(12);
 		expect(playbackMachineActions.updateVolume).toHaveBeenCalledWith(0.5);
 		expect(playbackMachineActions.updateSampleRate).toHaveBeenCalledWith(48000);
 		expect(playbackMachineActions.updateBitDepth).toHaveBeenCalledWith(24);
-		expect(playbackMachineActions.updateReplayGain).toHaveBeenCalledWith(-6);
+		expect(playbackMachineActions.updateReplayGain).toHaveBeenCalledWith({
+			mode: 'album',
+			gain: -6,
+			peak: 0.95
+		});
 	});
 });
@@ -1,4 +1,5 @@
 import { playbackMachine } from '$lib/stores/playbackMachine.svelte';
+import type { AppliedReplayGain } from '$lib/types';
 
 export const playerUiProjection = {
 	setDuration(duration: number) {
@@ -16,7 +17,7 @@ export const playerUiProjection = {
 	setBitDepth(bitDepth: number | null) {
 		playbackMachine.actions.updateBitDepth(bitDepth);
 	},
-	setReplayGain(replayGain: number | null) {
+	setReplayGain(replayGain: AppliedReplayGain) {
 		playbackMachine.actions.updateReplayGain(replayGain);
 	}
 };
@@ -0,0 +1,51 @@
+import type { PlayableTrack } from '$lib/types';
+import { buildScrobbleTrack, scrobbleClient } from '$lib/clients/scrobbleClient';
+
+/**
+ * Forwards playback to the server's ListenBrainz scrobbler. The server decides whether
+ * scrobbling is on; once a response says it is off, further reports are skipped until
+ * the settings screen turns it back on.
+ */
+
+type ScrobbleControllerOptions = {
+	client?: Pick<typeof scrobbleClient, 'submit'>;
+};
+
+export const createScrobbleController = (options: ScrobbleControllerOptions = {}) => {
+	const client = options.client ?? scrobbleClient;
+	// Unknown until the first response
+	let enabled: boolean | null = null;
+
+	const submit = async (
+		kind: 'playing_now' | 'listen',
+		track: PlayableTrack,
+		listenedAt?: number
+	) => {
+		if (enabled === false) {
+			return;
+		}
+		const payload = buildScrobbleTrack(track);
+		if (!payload.artistName) {
+			return;
+		}
+		try {
+			enabled = (await client.submit(kind, payload, listenedAt)).enabled;
+		} catch (error) {
+			console.warn('[Scrobble] Failed to report playback:', error);
+		}
+	};
+
+	return {
+		playingNow(track: PlayableTrack): Promise<void> {
+			return submit('playing_now', track);
+		},
+		listened(track: PlayableTrack, playedAt: number): Promise<void> {
+			return submit('listen', track, playedAt);
+		},
+		setEnabled(value: boolean): void {
+			enabled = value;
+		}
+	};
+};
+
+export const scrobbleController = createScrobbleController();
@@ -0,0 +1,81 @@
+import {
+	resolveSleepTimerRemaining,
+	type PlaybackContext,
+	type SleepTimer
+} from '$lib/machines/playbackMachine';
+
+/**
+ * Drives an active sleep timer outside of any component: publishes the countdown, which
+ * also sets the fade-out volume, and expires duration timers. Track and album timers stop
+ * through TRACK_END in the machine, so they only need the countdown here.
+ */
+
+type SleepTimerControllerOptions = {
+	getContext: () => PlaybackContext;
+	onRemainingChange: (remainingSeconds: number | null) => void;
+	onExpire: () => void;
+	now?: () => number;
+};
+
+export type SleepTimerController = {
+	sync: () => void;
+	stop: () => void;
+};
+
+export const SLEEP_TIMER_DURATIONS_MINUTES = [15, 30, 45, 60, 90];
+// Volume ramps down linearly over the last seconds before the stop
+export const SLEEP_TIMER_FADE_SECONDS = 20;
+
+const TICK_MS = 250;
+
+export const sleepTimerFadeFactor = (remainingSeconds: number | null): number =>
+	remainingSeconds === null
+		? 1
+		: Math.min(1, Math.max(0, remainingSeconds / SLEEP_TIMER_FADE_SECONDS));
+
+export const createSleepTimerController = (
+	options: SleepTimerControllerOptions
+): SleepTimerController => {
+	const now = options.now ?? Date.now;
+	let interval: ReturnType<typeof setInterval> | null = null;
+	let activeTimer: SleepTimer | null = null;
+
+	const tick = () => {
+		const context = options.getContext();
+		const remaining = resolveSleepTimerRemaining(context, now());
+		options.onRemainingChange(remaining);
+		if (context.sleepTimer?.mode === 'duration' && remaining !== null && remaining <= 0) {
+			options.onExpire();
+		}
+	};
+
+	const stop = () => {
+		if (interval !== null) {
+			clearInterval(interval);
+			interval = null;
+		}
+		if (activeTimer) {
+			activeTimer = null;
+			options.onRemainingChange(null);
+		}
+	};
+
+	// Call after every transition that may have set, replaced or cleared the timer.
+	const sync = () => {
+		const timer = options.getContext().sleepTimer;
+		if (!timer) {
+			stop();
+			return;
+		}
+		if (timer === activeTimer) {
+			return;
+		}
+		activeTimer = timer;
+		if (interval === null) {
+			interval = setInterval(tick, TICK_MS);
+		}
+		tick();
+	};
+
+	return { sync, stop };
+};
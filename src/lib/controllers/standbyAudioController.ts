@@ -0,0 +1,195 @@
+import type { HandoffStream } from '$lib/machines/playbackMachine';
+import type { AppliedReplayGain, PlayableTrack } from '$lib/types';
+import type { TrackTransitionPlan } from '$lib/controllers/playbackTransitions';
+
+/**
+ * Buffers the next queue entry on a second audio element so track changes don't wait for
+ * a reload. Gapless hand-offs start the standby element when the active one ends;
+ * crossfades start it early and ramp both volumes. Swapping which element is active is
+ * left to the playback effects once the machine accepts the hand-off.
+ */
+
+type UpcomingTransition = {
+	queueIndex: number;
+	track: PlayableTrack;
+	plan: TrackTransitionPlan;
+};
+
+type PreparedStandby = {
+	queueIndex: number;
+	track: PlayableTrack;
+	plan: TrackTransitionPlan;
+	stream: HandoffStream | null;
+};
+
+export type PreparedHandoff = {
+	queueIndex: number;
+	track: PlayableTrack;
+	stream: HandoffStream;
+};
+
+type StandbyAudioControllerOptions = {
+	getActiveElement: () => HTMLAudioElement | null;
+	getStandbyElement: () => HTMLAudioElement | null;
+	getUpcoming: () => UpcomingTransition | null;
+	resolveStream: (track: PlayableTrack) => Promise<HandoffStream | null>;
+	getOutputVolume: (replayGain: AppliedReplayGain) => number;
+	preloadThresholdSeconds: number;
+};
+
+export type StandbyAudioController = {
+	update: (remainingSeconds: number) => void;
+	takeHandoff: () => PreparedHandoff | null;
+	cancelFade: () => void;
+	reset: () => void;
+};
+
+const FADE_STEP_MS = 50;
+// HTMLMediaElement.HAVE_CURRENT_DATA; the constant isn't available outside the browser.
+const HAVE_CURRENT_DATA = 2;
+
+export const createStandbyAudioController = (
+	options: StandbyAudioControllerOptions
+): StandbyAudioController => {
+	let prepared: PreparedStandby | null = null;
+	let prepareToken = 0;
+	let fadeTimer: ReturnType<typeof setInterval> | null = null;
+	let fadeStartVolume = 1;
+
+	const isSameEntry = (upcoming: UpcomingTransition, entry: PreparedStandby) =>
+		upcoming.queueIndex === entry.queueIndex && upcoming.track === entry.track;
+
+	const stopFadeTimer = () => {
+		if (fadeTimer !== null) {
+			clearInterval(fadeTimer);
+			fadeTimer = null;
+		}
+	};
+
+	const cancelFade = () => {
+		if (fadeTimer === null) {
+			return;
+		}
+		stopFadeTimer();
+		const standby = options.getStandbyElement();
+		if (standby) {
+			standby.pause();
+			standby.currentTime = 0;
+		}
+		const active = options.getActiveElement();
+		if (active) {
+			active.volume = fadeStartVolume;
+		}
+	};
+
+	const reset = () => {
+		cancelFade();
+		prepareToken += 1;
+		prepared = null;
+		const standby = options.getStandbyElement();
+		if (standby?.getAttribute('src')) {
+			standby.pause();
+			standby.removeAttribute('src');
+			standby.load();
+		}
+	};
+
+	const prepare = async (upcoming: UpcomingTransition) => {
+		const token = ++prepareToken;
+		prepared = { ...upcoming, stream: null };
+		const stream = await options.resolveStream(upcoming.track);
+		const standby = options.getStandbyElement();
+		if (token !== prepareToken || !prepared || !stream || !standby) {
+			return;
+		}
+		prepared.stream = stream;
+		standby.crossOrigin = 'anonymous';
+		standby.preload = 'auto';
+		standby.volume = options.getOutputVolume(stream.replayGain);
+		standby.src = stream.url;
+		standby.load();
+	};
+
+	const startFade = (entry: PreparedStandby, remainingSeconds: number) => {
+		const active = options.getActiveElement();
+		const standby = options.getStandbyElement();
+		if (!active || !standby || !entry.stream) {
+			return;
+		}
+		const target = options.getOutputVolume(entry.stream.replayGain);
+		const durationMs = Math.max(FADE_STEP_MS, remainingSeconds * 1000);
+		const startedAt = Date.now();
+		fadeStartVolume = active.volume;
+		standby.volume = 0;
+		void standby.play().catch((error) => {
+			console.debug('[StandbyAudio] Crossfade start failed', error);
+			cancelFade();
+		});
+		fadeTimer = setInterval(() => {
+			const progress = Math.min(1, (Date.now() - startedAt) / durationMs);
+			active.volume = fadeStartVolume * (1 - progress);
+			standby.volume = target * progress;
+			if (progress >= 1) {
+				stopFadeTimer();
+			}
+		}, FADE_STEP_MS);
+	};
+
+	const update = (remainingSeconds: number) => {
+		if (!Number.isFinite(remainingSeconds)) {
+			return;
+		}
+		const upcoming = options.getUpcoming();
+		if (!upcoming || upcoming.plan.mode === 'cut') {
+			if (prepared) {
+				reset();
+			}
+			return;
+		}
+		// Crossfades need the next track buffered before the fade starts, not just before the end.
+		if (remainingSeconds > options.preloadThresholdSeconds + upcoming.plan.crossfadeSeconds) {
+			return;
+		}
+		if (!prepared || !isSameEntry(upcoming, prepared)) {
+			reset();
+			void prepare(upcoming);
+			return;
+		}
+		prepared.plan = upcoming.plan;
+		if (
+			upcoming.plan.mode === 'crossfade' &&
+			fadeTimer === null &&
+			options.getStandbyElement()?.paused !== false &&
+			remainingSeconds > 0 &&
+			remainingSeconds <= upcoming.plan.crossfadeSeconds
+		) {
+			startFade(prepared, remainingSeconds);
+		}
+	};
+
+	const takeHandoff = (): PreparedHandoff | null => {
+		const entry = prepared;
+		const standby = options.getStandbyElement();
+		if (!entry?.stream || !standby || standby.readyState < HAVE_CURRENT_DATA) {
+			reset();
+			return null;
+		}
+		stopFadeTimer();
+		prepareToken += 1;
+		prepared = null;
+		standby.volume = options.getOutputVolume(entry.stream.replayGain);
+		if (standby.paused) {
+			void standby.play().catch((error) => {
+				console.debug('[StandbyAudio] Gapless start failed', error);
+			});
+		}
+		return { queueIndex: entry.queueIndex, track: entry.track, stream: entry.stream };
+	};
+
+	return {
+		update,
+		takeHandoff,
+		cancelFade,
+		reset
+	};
+};
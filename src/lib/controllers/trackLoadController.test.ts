@@ -288,4 +288,50 @@ describe('trackLoadController', () => {
 		expect(onFallbackRequested).toHaveBeenCalledWith('HIGH', 'lossless-unsupported');
 		expect(setStreamUrl).toHaveBeenCalledWith('https://example.com/stream');
 	});
+
+	it('plays a library copy from disk instead of the network', async () => {
+		mockGetStreamData.mockClear();
+		const store = writable({
+			currentTrack: null,
+			queue: [],
+			queueIndex: -1,
+			quality: 'LOSSLESS' as AudioQuality
+		});
+
+		const setStreamUrl = vi.fn();
+		const setCurrentPlaybackQuality = vi.fn();
+		const resolveLocalFile = vi.fn().mockResolvedValue({
+			fileId: 'abc123',
+			format: 'FLAC',
+			quality: 'LOSSLESS',
+			sampleRate: 44_100,
+			bitDepth: 16
+		});
+
+		const controller = createTrackLoadController({
+			getPlaybackState: () => get(store),
+			getAudioElement: () => null,
+			getCurrentTrackId: () => null,
+			getSupportsLosslessPlayback: () => true,
+			setStreamUrl,
+			setBufferedPercent: vi.fn(),
+			setCurrentPlaybackQuality,
+			setDashPlaybackActive: vi.fn(),
+			setLoading: vi.fn(),
+			setSampleRate: vi.fn(),
+			setBitDepth: vi.fn(),
+			setReplayGain: vi.fn(),
+			resolveLocalFile,
+			isAttemptCurrent: () => true,
+			isHiResQuality: () => false,
+			preloadThresholdSeconds: 5
+		});
+
+		await controller.loadTrack(makeTrack(5), 'attempt-local');
+
+		expect(resolveLocalFile).toHaveBeenCalledWith(expect.objectContaining({ id: 5 }));
+		expect(mockGetStreamData).not.toHaveBeenCalled();
+		expect(setStreamUrl).toHaveBeenCalledWith('/api/media-library/stream/abc123');
+		expect(setCurrentPlaybackQuality).toHaveBeenLastCalledWith('LOSSLESS');
+	});
 });
@@ -6,8 +6,19 @@ import {
 	DASH_MANIFEST_UNAVAILABLE_CODE
 } from '$lib/api';
 import { deriveTrackQuality } from '$lib/utils/audioQuality';
-import type { AudioQuality, PlayableTrack, Track } from '$lib/types';
-import { isSonglinkTrack } from '$lib/types';
+import { getLocalStreamUrl } from '$lib/utils/localTracks';
+import { selectReplayGain } from '$lib/utils/replayGain';
+import type { HandoffStream } from '$lib/machines/playbackMachine';
+import type {
+	AppliedReplayGain,
+	AudioQuality,
+	LocalTrackFile,
+	LoudnessNormalizationMode,
+	PlayableTrack,
+	ReplayGainInfo,
+	Track
+} from '$lib/types';
+import { isLocalTrack, isSonglinkTrack } from '$lib/types';
 
 type PlayerState = {
 	currentTrack: PlayableTrack | null;
@@ -28,9 +39,13 @@ type TrackLoadControllerOptions = {
 	setLoading: (value: boolean) => void;
 	setSampleRate: (value: number | null) => void;
 	setBitDepth: (value: number | null) => void;
-	setReplayGain: (value: number | null) => void;
+	setReplayGain: (value: AppliedReplayGain) => void;
+	getNormalizationMode?: () => LoudnessNormalizationMode;
 	getPlaybackQuality?: () => AudioQuality;
 	getStreamingFallbackQuality?: () => AudioQuality;
+	// Looks up a copy of a catalog track in the local media library; found files are
+	// played from disk instead of the network
+	resolveLocalFile?: (track: Track) => Promise<LocalTrackFile | null>;
 	isAttemptCurrent: (attemptId: string) => boolean;
 	isHiResQuality: (quality: AudioQuality | undefined) => boolean;
 	preloadThresholdSeconds: number;
@@ -40,6 +55,14 @@ type TrackLoadControllerOptions = {
 	onFallbackRequested?: (quality: AudioQuality, reason: string) => void;
 };
 
+type ResolvedStream = {
+	url: string;
+	replayGain: number | null;
+	normalization: ReplayGainInfo | null;
+	sampleRate: number | null;
+	bitDepth: number | null;
+};
+
 type ShakaPlayerInstance = {
 	load: (uri: string) => Promise<void>;
 	unload: () => Promise<void>;
@@ -69,6 +92,7 @@ const SHAKA_CDN_URL =
 export type TrackLoadController = {
 	loadTrack: (track: PlayableTrack, attemptId: string) => Promise<void>;
 	loadStandardTrack: (track: Track, quality: AudioQuality, attemptId: string) => Promise<void>;
+	resolveStandbyStream: (track: PlayableTrack) => Promise<HandoffStream | null>;
 	maybePreloadNextTrack: (remainingSeconds: number) => void;
 	destroy: () => Promise<void>;
 };
@@ -76,10 +100,7 @@ export type TrackLoadController = {
 export const createTrackLoadController = (
 	options: TrackLoadControllerOptions
 ): TrackLoadController => {
-	const streamCache = new Map<
-		string,
-		{ url: string; replayGain: number | null; sampleRate: number | null; bitDepth: number | null }
-	>();
+	const streamCache = new Map<string, ResolvedStream>();
 	let preloadingCacheKey: string | null = null;
 	const dashManifestCache = new Map<string, DashManifestWithMetadata>();
 	let hiResObjectUrl: string | null = null;
@@ -89,6 +110,17 @@ export const createTrackLoadController = (
 	let shakaNetworkingConfigured = false;
 
 	const getCacheKey = (trackId: number, quality: AudioQuality) => `${trackId}:${quality}`;
+	// Payloads without the full ReplayGain set still carry the track gain.
+	const applyNormalization = (
+		normalization: ReplayGainInfo | null | undefined,
+		trackGain: number | null,
+		trackPeak: number | null
+	): AppliedReplayGain =>
+		selectReplayGain(
+			normalization ??
+				(trackGain === null ? null : { trackGain, trackPeak, albumGain: null, albumPeak: null }),
+			options.getNormalizationMode?.() ?? 'track'
+		);
 	const resolvePlaybackUrl = (url: string): string =>
 		typeof losslessAPI.resolvePlaybackUrl === 'function'
 			? losslessAPI.resolvePlaybackUrl(url)
@@ -225,6 +257,7 @@ export const createTrackLoadController = (
 		streamCache.set(getCacheKey(trackId, 'LOSSLESS'), {
 			url: resolvePlaybackUrl(fallbackUrl),
 			replayGain: trackInfo?.replayGain ?? null,
+			normalization: trackInfo?.normalization ?? null,
 			sampleRate: trackInfo?.sampleRate ?? null,
 			bitDepth: trackInfo?.bitDepth ?? null
 		});
@@ -233,12 +266,7 @@ export const createTrackLoadController = (
 	const resolveStream = async (
 		track: Track,
 		overrideQuality?: AudioQuality
-	): Promise<{
-		url: string;
-		replayGain: number | null;
-		sampleRate: number | null;
-		bitDepth: number | null;
-	}> => {
+	): Promise<ResolvedStream> => {
 		const baseQuality = options.getPlaybackQuality?.() ?? options.getPlaybackState().quality;
 		const quality = overrideQuality ?? baseQuality;
 		if (options.isHiResQuality(quality)) {
@@ -254,6 +282,7 @@ export const createTrackLoadController = (
 		const entry = {
 			url: resolvePlaybackUrl(data.url),
 			replayGain: data.replayGain,
+			normalization: data.normalization ?? null,
 			sampleRate: data.sampleRate,
 			bitDepth: data.bitDepth
 		};
@@ -325,7 +354,7 @@ export const createTrackLoadController = (
 		}
 		const { queue, queueIndex } = options.getPlaybackState();
 		const nextTrack = queue[queueIndex + 1];
-		if (!nextTrack || isSonglinkTrack(nextTrack)) {
+		if (!nextTrack || isSonglinkTrack(nextTrack) || isLocalTrack(nextTrack)) {
 			return;
 		}
 		const dashKey = getCacheKey(nextTrack.id, 'HI_RES_LOSSLESS');
@@ -342,13 +371,16 @@ export const createTrackLoadController = (
 		try {
 			await destroy();
 			options.setDashPlaybackActive(false);
-			const { url, replayGain, sampleRate, bitDepth } = await resolveStream(track, quality);
+			const { url, replayGain, normalization, sampleRate, bitDepth } = await resolveStream(
+				track,
+				quality
+			);
 
 			// Use attempt guard to prevent partial state updates from stale operations
 			const updated = withAttemptGuard(attemptId, () => {
 				options.setStreamUrl(url);
 				options.setCurrentPlaybackQuality(quality);
-				options.setReplayGain(replayGain);
+				options.setReplayGain(applyNormalization(normalization, replayGain, track.peak ?? null));
 				options.setSampleRate(sampleRate);
 				options.setBitDepth(bitDepth);
 				options.onLoadComplete?.(url, quality);
@@ -385,6 +417,119 @@ export const createTrackLoadController = (
 		}
 	};
 
+	const loadLocalTrack = async (track: Track, file: LocalTrackFile, attemptId: string) => {
+		if (!isAttemptCurrent(attemptId)) {
+			return;
+		}
+		await destroy();
+		const url = getLocalStreamUrl(file.fileId);
+		const quality = file.quality ?? 'LOSSLESS';
+		const updated = withAttemptGuard(attemptId, () => {
+			options.setStreamUrl(url);
+			options.setCurrentPlaybackQuality(quality);
+			options.setReplayGain(
+				applyNormalization(file.replayGain, track.replayGain ?? null, track.peak ?? null)
+			);
+			options.setSampleRate(file.sampleRate ?? null);
+			options.setBitDepth(file.bitDepth ?? null);
+			options.onLoadComplete?.(url, quality);
+			return true;
+		});
+		if (!updated) {
+			return;
+		}
+		const audioElement = options.getAudioElement();
+		if (audioElement && !options.onLoadComplete) {
+			await tick();
+			if (audioElement.src !== url) {
+				audioElement.src = url;
+			}
+			audioElement.load();
+		}
+	};
+
+	/**
+	 * Library copy of a catalog track, or null when it should stream from TIDAL. Lossless
+	 * files are skipped on browsers that can't decode them.
+	 */
+	const findLocalFile = async (
+		track: Track,
+		supportsLosslessPlayback: boolean
+	): Promise<LocalTrackFile | null> => {
+		if (!options.resolveLocalFile) {
+			return null;
+		}
+		try {
+			const file = await options.resolveLocalFile(track);
+			if (!file) {
+				return null;
+			}
+			const lossless =
+				file.quality === null ||
+				file.quality === 'LOSSLESS' ||
+				options.isHiResQuality(file.quality);
+			return lossless && !supportsLosslessPlayback ? null : file;
+		} catch (error) {
+			console.debug('[TrackLoadController] Local library lookup failed', error);
+			return null;
+		}
+	};
+
+	/**
+	 * Progressive stream for the standby audio element. DASH-only tracks need Shaka on the
+	 * active element and resolve to null, as does anything that fails to resolve.
+	 */
+	const resolveStandbyStream = async (track: PlayableTrack): Promise<HandoffStream | null> => {
+		if (isSonglinkTrack(track)) {
+			return null;
+		}
+		const supportsLosslessPlayback = options.getSupportsLosslessPlayback();
+		const localFile = isLocalTrack(track)
+			? track.localFile
+			: await findLocalFile(track, supportsLosslessPlayback);
+		if (localFile) {
+			return {
+				url: getLocalStreamUrl(localFile.fileId),
+				quality: localFile.quality ?? 'LOSSLESS',
+				replayGain: applyNormalization(
+					localFile.replayGain,
+					track.replayGain ?? null,
+					track.peak ?? null
+				),
+				sampleRate: localFile.sampleRate ?? null,
+				bitDepth: localFile.bitDepth ?? null
+			};
+		}
+		try {
+			let quality = options.getPlaybackQuality?.() ?? options.getPlaybackState().quality;
+			if (options.isHiResQuality(quality) && supportsLosslessPlayback) {
+				await preloadDashManifest(track);
+				const manifest = dashManifestCache.get(getCacheKey(track.id, 'HI_RES_LOSSLESS'));
+				if (manifest?.result.kind !== 'flac') {
+					return null;
+				}
+				quality = 'LOSSLESS';
+			}
+			if (!supportsLosslessPlayback && (quality === 'LOSSLESS' || options.isHiResQuality(quality))) {
+				quality = options.getStreamingFallbackQuality?.() ?? 'HIGH';
+			}
+			const { url, replayGain, normalization, sampleRate, bitDepth } = await resolveStream(
+				track,
+				quality
+			);
+			return {
+				url,
+				quality,
+				replayGain: applyNormalization(normalization, replayGain, track.peak ?? null),
+				sampleRate,
+				bitDepth
+			};
+		} catch (error) {
+			console.debug('[TrackLoadController] Standby stream unavailable', error);
+			return null;
+		}
+	};
+
 	const loadDashTrack = async (
 		track: Track,
 		quality: AudioQuality,
@@ -434,8 +579,10 @@ export const createTrackLoadController = (
 			if (options.getCurrentTrackId() === track.id) {
 				options.setSampleRate(trackInfo.sampleRate);
 				options.setBitDepth(trackInfo.bitDepth);
-				if (trackInfo.replayGain !== null) {
-					options.setReplayGain(trackInfo.replayGain);
+				if (trackInfo.normalization || trackInfo.replayGain !== null) {
+					options.setReplayGain(
+						applyNormalization(trackInfo.normalization, trackInfo.replayGain, track.peak ?? null)
+					);
 				}
 			}
 		});
@@ -455,6 +602,26 @@ export const createTrackLoadController = (
 			return;
 		}
 
+		if (isLocalTrack(track)) {
+			if (!isAttemptCurrent(attemptId)) {
+				return;
+			}
+			options.setBufferedPercent(0);
+			options.setCurrentPlaybackQuality(null);
+			options.setLoading(true);
+			try {
+				await loadLocalTrack(track, track.localFile, attemptId);
+			} catch (error) {
+				console.error('[AudioPlayer] Failed to load local track:', error);
+				options.onLoadError?.(error instanceof Error ? error : new Error('Failed to load track'));
+			} finally {
+				if (isAttemptCurrent(attemptId)) {
+					options.setLoading(false);
+				}
+			}
+			return;
+		}
+
 		const tidalTrack = track as Track;
 		if (!tidalTrack || typeof tidalTrack !== 'object') {
 			console.error('Invalid track object:', tidalTrack);
@@ -479,6 +646,23 @@ export const createTrackLoadController = (
 		options.setCurrentPlaybackQuality(null);
 		options.setLoading(true);
 		const supportsLosslessPlayback = options.getSupportsLosslessPlayback();
+		const localFile = options.resolveLocalFile
+			? await findLocalFile(tidalTrack, supportsLosslessPlayback)
+			: null;
+		if (localFile) {
+			try {
+				await loadLocalTrack(tidalTrack, localFile, attemptId);
+				if (isAttemptCurrent(attemptId)) {
+					options.setLoading(false);
+				}
+				return;
+			} catch (error) {
+				console.warn('Local library playback failed, streaming from TIDAL instead.', error);
+			}
+		}
+		if (!isAttemptCurrent(attemptId)) {
+			return;
+		}
 		const streamingFallbackQuality = options.getStreamingFallbackQuality?.() ?? 'HIGH';
 		let requestedQuality = options.getPlaybackQuality?.() ?? options.getPlaybackState().quality;
 		const originalRequestedQuality = requestedQuality;
@@ -572,6 +756,7 @@ export const createTrackLoadController = (
 	return {
 		loadTrack,
 		loadStandardTrack,
+		resolveStandbyStream,
 		maybePreloadNextTrack,
 		destroy
 	};
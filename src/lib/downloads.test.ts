@@ -341,6 +341,7 @@ describe('Downloads Utils', () => {
 			{
 				id: 1,
 				title: 'Test Track 1',
+				isrc: 'USRC17607839',
 				duration: 180,
 				artists: [{ id: 1, name: 'Test Artist 1', type: 'artist' }],
 				album: { id: 1, title: 'Test Album 1' }
@@ -371,12 +372,12 @@ describe('Downloads Utils', () => {
 			const result = await buildTrackLinksCsv(mockTracks as any, 'LOSSLESS');
 
 			const lines = result.split('\n');
-			expect(lines[0]).toBe('Index,Title,Artist,Album,Duration,FLAC URL');
+			expect(lines[0]).toBe('Index,Title,Artist,Album,Duration,FLAC URL,TIDAL ID,ISRC');
 			expect(lines[1]).toBe(
-				'1,Test Track 1,Test Artist 1,Test Album 1,3:00,https://example.com/track1.flac'
+				'1,Test Track 1,Test Artist 1,Test Album 1,3:00,https://example.com/track1.flac,1,USRC17607839'
 			);
 			expect(lines[2]).toBe(
-				'2,Test Track 2,Test Artist 2,Test Album 2,4:00,https://example.com/track2.flac'
+				'2,Test Track 2,Test Artist 2,Test Album 2,4:00,https://example.com/track2.flac,2,'
 			);
 		});
 
@@ -399,7 +400,7 @@ describe('Downloads Utils', () => {
 			const result = await buildTrackLinksCsv(trackWithMissingData as any, 'LOSSLESS');
 
 			const lines = result.split('\n');
-			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac');
+			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac,1,');
 		});
 
 		it('escapes CSV values with commas and quotes', async () => {
@@ -422,7 +423,7 @@ describe('Downloads Utils', () => {
 
 			const lines = result.split('\n');
 			expect(lines[1]).toBe(
-				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac'
+				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac,1,'
 			);
 		});
 
@@ -445,7 +446,7 @@ describe('Downloads Utils', () => {
 			const result = await buildTrackLinksCsv(trackWithMissingData as any, 'LOSSLESS');
 
 			const lines = result.split('\n');
-			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac');
+			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac,1,');
 		});
 
 		it('escapes CSV values with commas and quotes', async () => {
@@ -468,7 +469,7 @@ describe('Downloads Utils', () => {
 
 			const lines = result.split('\n');
 			expect(lines[1]).toBe(
-				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac'
+				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac,1,'
 			);
 		});
 
@@ -491,7 +492,7 @@ describe('Downloads Utils', () => {
 			const result = await buildTrackLinksCsv(trackWithMissingData as any, 'LOSSLESS');
 
 			const lines = result.split('\n');
-			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac');
+			expect(lines[1]).toBe('1,,Unknown Artist,,0:00,https://example.com/track.flac,1,');
 		});
 
 		it('escapes CSV values with commas and quotes', async () => {
@@ -514,7 +515,7 @@ describe('Downloads Utils', () => {
 
 			const lines = result.split('\n');
 			expect(lines[1]).toBe(
-				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac'
+				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac,1,'
 			);
 		});
 
@@ -538,7 +539,7 @@ describe('Downloads Utils', () => {
 
 			const lines = result.split('\n');
 			expect(lines[1]).toBe(
-				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac'
+				'1,"Track ""With"" Quotes, and Comma","Artist, Name","Album ""Title""",2:00,https://example.com/track.flac,1,'
 			);
 		});
 	});
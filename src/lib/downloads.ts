@@ -307,7 +307,8 @@ function escapeCsvValue(value: string): string {
 }
 
 export async function buildTrackLinksCsv(tracks: Track[], quality: AudioQuality): Promise<string> {
-	const header = ['Index', 'Title', 'Artist', 'Album', 'Duration', 'FLAC URL'];
+	// TIDAL ID and ISRC let the file be imported back into a queue
+	const header = ['Index', 'Title', 'Artist', 'Album', 'Duration', 'FLAC URL', 'TIDAL ID', 'ISRC'];
 	const rows: string[][] = [];
 
 	for (const [index, track] of tracks.entries()) {
@@ -318,7 +319,9 @@ export async function buildTrackLinksCsv(tracks: Track[], quality: AudioQuality)
 			formatArtists(track.artists),
 			track.album?.title ?? '',
 			losslessAPI.formatDuration(track.duration ?? 0),
-			streamUrl
+			streamUrl,
+			`${track.id}`,
+			track.isrc ?? ''
 		]);
 	}
 
@@ -608,6 +611,7 @@ export async function downloadAlbum(
 		musicBrainzReleaseIdPromise?: Promise<string | undefined>;
 		storage?: DownloadStorage;
 		forceOverwrite?: boolean;
+		batchId?: string;
 	}
 ): Promise<AlbumDownloadResult> {
 	const storage = options?.storage ?? 'server';
@@ -654,7 +658,8 @@ export async function downloadAlbum(
 				musicBrainzReleaseId: resolvedQueueMusicBrainzReleaseId,
 				forceOverwrite: options?.forceOverwrite === true
 			},
-			forceOverwrite: options?.forceOverwrite === true
+			forceOverwrite: options?.forceOverwrite === true,
+			batchId: options?.batchId
 		});
 		if (!payload.success || !payload.jobId) {
 			throw new Error('Failed to queue album: missing job id');
@@ -342,4 +342,46 @@ describe('artistAlbumDownloadController', () => {
 			expect.objectContaining({ musicBrainzReleaseId: 'release-2' })
 		);
 	});
+
+	it('groups server discography downloads into a single queue batch', async () => {
+		const downloadAlbumFn = vi.fn().mockResolvedValue({
+			storage: 'server' as const,
+			totalTracks: 1,
+			completedTracks: 0,
+			failedTracks: 0,
+			jobId: 'job-1'
+		});
+		const createQueueBatch = vi.fn().mockResolvedValue('batch-7');
+
+		const controller = createArtistAlbumDownloadController({
+			getAlbumDownloadState: () => createDefaultArtistAlbumDownloadState(),
+			patchAlbumDownloadState: () => undefined,
+			isAlbumQueueDownloadCancellable: () => false,
+			requestQueueCancel: async () => ({ success: true }),
+			requestQueueResume: async () => ({ success: true }),
+			startQueuePolling: () => undefined,
+			isDiscographyDownloading: () => false,
+			setDiscographyDownloading: () => undefined,
+			setDiscographyProgress: () => undefined,
+			setDiscographyError: () => undefined,
+			resolveAlbumInLibrary: () => false,
+			confirmServerOverwrite: () => true,
+			confirmClientRedownload: () => true,
+			getDownloadPreferences: () => createPreferences(),
+			resolveArtistName: () => 'Artist',
+			createQueueBatch,
+			downloadAlbumFn
+		});
+
+		await controller.handleDownloadDiscography([
+			createAlbum(1, 'Part 1', 1),
+			createAlbum(2, 'Part 2', 1)
+		]);
+
+		expect(createQueueBatch).toHaveBeenCalledTimes(1);
+		expect(createQueueBatch).toHaveBeenCalledWith('Discography: Artist');
+		for (const call of downloadAlbumFn.mock.calls) {
+			expect(call[4]).toEqual(expect.objectContaining({ batchId: 'batch-7' }));
+		}
+	});
 });
@@ -40,6 +40,7 @@ type ArtistAlbumDownloadControllerOptions = {
 	resolveArtistName: () => string | undefined;
 	resolveMusicBrainzReleaseId?: (albumId: number) => string | undefined;
 	ensureMusicBrainzReleaseId?: (album: Album) => Promise<string | undefined>;
+	createQueueBatch?: (label: string) => Promise<string | undefined>;
 	downloadAlbumFn?: typeof downloadAlbum;
 };
 
@@ -230,6 +231,18 @@ export function createArtistAlbumDownloadController(options: ArtistAlbumDownload
 		let total = estimatedTotal;
 		options.setDiscographyProgress({ completed, total });
 		const preferences = options.getDownloadPreferences();
+		let batchId: string | undefined;
+		if (preferences.storage === 'server' && options.createQueueBatch) {
+			const artistName = options.resolveArtistName();
+			try {
+				batchId = await options.createQueueBatch(
+					artistName ? `Discography: ${artistName}` : 'Discography download'
+				);
+			} catch (error) {
+				// Grouping is best-effort; the albums still queue individually.
+				console.warn('[Discography] Failed to create queue batch:', error);
+			}
+		}
 
 		for (const album of albums) {
 			let albumEstimate = album.numberOfTracks ?? 0;
@@ -276,7 +289,8 @@ export function createArtistAlbumDownloadController(options: ArtistAlbumDownload
 						musicBrainzReleaseIdPromise: preferences.experimentalMusicBrainzTagging
 							? deferredMusicBrainzReleaseIdPromise
 							: undefined,
-						storage: preferences.storage
+						storage: preferences.storage,
+						batchId
 					}
 				);
 				if (albumFailedCount > 0) {
@@ -78,3 +78,6 @@ export const resumeActionKey = (jobId: string): string => jobActionKey(jobId, 'r
 export const retryActionKey = (jobId: string): string => jobActionKey(jobId, 'retry');
 export const deleteActionKey = (jobId: string): string => jobActionKey(jobId, 'delete');
 export const reportActionKey = (jobId: string): string => jobActionKey(jobId, 'report');
+
+export const batchActionKey = (batchId: string, action: string): string =>
+	`batch:${batchId}:${action}`;
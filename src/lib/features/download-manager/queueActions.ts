@@ -1,4 +1,8 @@
-import { queueClient } from '$lib/clients/queueClient';
+import {
+	queueClient,
+	type DownloadHistoryPage,
+	type DownloadHistoryStatus
+} from '$lib/clients/queueClient';
 
 export type QueueActionResult = {
 	success: boolean;
@@ -12,6 +16,22 @@ export async function runQueueJobAction(
 	return queueClient.requestJobAction(jobId, action);
 }
 
+export async function runQueueBatchAction(
+	batchId: string,
+	action: 'cancel' | 'pause' | 'resume' | 'retry'
+): Promise<QueueActionResult> {
+	return queueClient.requestBatchAction(batchId, action);
+}
+
 export async function removeQueueJob(jobId: string): Promise<QueueActionResult> {
 	return queueClient.deleteJob(jobId);
 }
+
+export async function loadDownloadHistory(filters: {
+	status?: DownloadHistoryStatus;
+	search?: string;
+	limit: number;
+	offset: number;
+}): Promise<DownloadHistoryPage> {
+	return queueClient.listHistory(filters);
+}
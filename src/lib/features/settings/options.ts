@@ -1,4 +1,4 @@
-import type { AudioQuality } from '$lib/types';
+import type { AudioQuality, LoudnessNormalizationMode } from '$lib/types';
 
 export type SettingsQualityOption = {
 	value: AudioQuality;
@@ -49,3 +49,36 @@ export const SETTINGS_PERFORMANCE_OPTIONS: SettingsPerformanceOption[] = [
 		description: 'Minimal effects for better performance'
 	}
 ];
+
+export type SettingsCrossfadeOption = {
+	value: number;
+	label: string;
+	description: string;
+};
+
+export const SETTINGS_CROSSFADE_OPTIONS: SettingsCrossfadeOption[] = [
+	{ value: 0, label: 'Off', description: 'Tracks change without overlap' },
+	{ value: 3, label: '3 s', description: 'Short blend between tracks' },
+	{ value: 6, label: '6 s', description: 'Radio-style blend' },
+	{ value: 12, label: '12 s', description: 'Long, DJ-style blend' }
+];
+
+export type SettingsNormalizationOption = {
+	value: LoudnessNormalizationMode;
+	label: string;
+	description: string;
+};
+
+export const SETTINGS_NORMALIZATION_OPTIONS: SettingsNormalizationOption[] = [
+	{ value: 'off', label: 'Off', description: 'Play every track at its mastered level' },
+	{ value: 'track', label: 'Track', description: 'Level each track on its own' },
+	{ value: 'album', label: 'Album', description: 'Keep loudness differences within an album' }
+];
+
+export const SETTINGS_PREAMP_OPTIONS: Array<{ value: number; label: string }> = [
+	{ value: -6, label: '-6 dB' },
+	{ value: -3, label: '-3 dB' },
+	{ value: 0, label: '0 dB' },
+	{ value: 3, label: '+3 dB' },
+	{ value: 6, label: '+6 dB' }
+];
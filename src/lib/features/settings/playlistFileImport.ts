@@ -0,0 +1,48 @@
+import { losslessAPI } from '$lib/api';
+import type { PlaylistImportResolution } from '$lib/clients/playlistFilesClient';
+import type { PlayableTrack } from '$lib/types';
+import { createLocalTrack } from '$lib/utils/localTracks';
+import { normalizeIsrc } from '$lib/utils/playlistFormats';
+
+/**
+ * Turn resolved playlist file entries into queue tracks: library files play locally, TIDAL
+ * ids are looked up, and ISRC-only entries are matched against a catalog search for their
+ * artist and title. Entries that can't be resolved are counted and dropped.
+ */
+export async function resolveImportedTracks(
+	resolutions: PlaylistImportResolution[]
+): Promise<{ tracks: PlayableTrack[]; unresolved: number }> {
+	const tracks: PlayableTrack[] = [];
+	let unresolved = 0;
+	for (const resolution of resolutions) {
+		try {
+			const track = await resolveTrack(resolution);
+			if (track) {
+				tracks.push(track);
+			} else {
+				unresolved += 1;
+			}
+		} catch (error) {
+			console.warn('[PlaylistImport] Failed to resolve entry', resolution.entry, error);
+			unresolved += 1;
+		}
+	}
+	return { tracks, unresolved };
+}
+
+async function resolveTrack(resolution: PlaylistImportResolution): Promise<PlayableTrack | null> {
+	switch (resolution.kind) {
+		case 'library':
+			return createLocalTrack(resolution.album, resolution.track);
+		case 'tidal':
+			return (await losslessAPI.getTrack(resolution.trackId)).track;
+		case 'isrc': {
+			const { artist, title } = resolution.entry;
+			const query = [artist, title].filter(Boolean).join(' ') || resolution.isrc;
+			const results = await losslessAPI.searchTracks(query);
+			return results.items.find((track) => normalizeIsrc(track.isrc) === resolution.isrc) ?? null;
+		}
+		case 'unresolved':
+			return null;
+	}
+}
@@ -1,4 +1,12 @@
-import { deduplicateLibraryInLibrary, repairFullLibraryInLibrary, sweepTemporaryLibraryArtifacts, correctAndDeduplicateLibrary } from '$lib/utils/mediaLibraryClient';
+import {
+	deduplicateLibraryInLibrary,
+	repairFullLibraryInLibrary,
+	sweepTemporaryLibraryArtifacts,
+	correctAndDeduplicateLibrary,
+	scanLibraryQualityUpgrades,
+	queueLibraryQualityUpgrades,
+	reorganizeLibrary
+} from '$lib/utils/mediaLibraryClient';
 import { toasts } from '$lib/stores/toasts';
 import type { AudioQuality } from '$lib/types';
 
@@ -7,6 +15,10 @@ export const settingsMaintenancePrompts = {
 		'Scan your full local library and queue automatic repairs for corrupt tracks only? This can queue many downloads.',
 	LIBRARY_TRANSIENT_SWEEP: 'Remove stale temporary publish/backup album folders left from interrupted jobs?',
 	LIBRARY_CORRECTION_DEDUP: 'Run correction sweep first and then deduplicate the library in one run?',
+	QUALITY_UPGRADE_SCAN:
+		'Compare every album with an embedded TIDAL album ID against the quality the catalog offers now? This asks the catalog once per album.',
+	LIBRARY_REORGANIZE:
+		'Compute canonical folder and file names for every track from its embedded tags? Nothing is moved until you confirm the preview.',
 	LIBRARY_DEDUP:
 		'Merge duplicate album folders and remove duplicate tracks by track number? Duplicates are moved to a backup folder first.'
 } as const;
@@ -45,6 +57,12 @@ type SettingsMaintenanceControllerOptions = {
 	setLibraryDeduplicateProgress: (value: string | null) => void;
 	startLibraryDeduplicatePolling: () => void;
 	stopLibraryDeduplicatePolling: () => void;
+	isQualityUpgradeScanning: () => boolean;
+	setQualityUpgradeScanning: (value: boolean) => void;
+	setQualityUpgradeSummary: (value: string | null) => void;
+	isLibraryReorganizing: () => boolean;
+	setLibraryReorganizing: (value: boolean) => void;
+	setLibraryReorganizeSummary: (value: string | null) => void;
 	resetMaintenanceLogScope: (scope: string) => void;
 	logMaintenanceMessage: (
 		scope: string,
@@ -430,10 +448,171 @@ export function createSettingsMaintenanceController(options: SettingsMaintenance
 		}
 	}
 
+	async function handleQualityUpgradeScan(): Promise<void> {
+		if (options.isQualityUpgradeScanning()) return;
+		if (
+			!(
+				await options.confirm({
+					title: 'Check for quality upgrades',
+					body: settingsMaintenancePrompts.QUALITY_UPGRADE_SCAN,
+					confirmLabel: 'Run scan',
+					cancelLabel: 'Cancel',
+					tone: 'default'
+				})
+			)
+		)
+			return;
+
+		options.setQualityUpgradeScanning(true);
+		options.setQualityUpgradeSummary(null);
+		options.resetMaintenanceLogScope('Quality Upgrades');
+		options.logMaintenanceMessage('Quality Upgrades', 'Scanning library for quality upgrades...', 'info', false);
+
+		try {
+			const scan = await scanLibraryQualityUpgrades({ forceRescan: true });
+			if (!scan.success) throw new Error(scan.error || 'Failed to scan for quality upgrades');
+			const candidates = scan.candidates ?? [];
+			const scanSummary =
+				`Scanned ${scan.albumsScanned ?? 0} album(s): ${candidates.length} upgradable, ` +
+				`${scan.albumsUpToDate ?? 0} up to date, ${scan.albumsSkipped ?? 0} without album ID, ` +
+				`${scan.albumsErrored ?? 0} failed.`;
+			options.logMaintenanceMessage('Quality Upgrades', scanSummary, 'info', false);
+			if (scan.reportPath) {
+				options.logMaintenanceMessage('Quality Upgrades', `Report saved to ${scan.reportPath}`, 'info', false);
+			}
+			for (const candidate of candidates.slice(0, 20)) {
+				options.logMaintenanceMessage(
+					'Quality Upgrades',
+					`${candidate.artistName} - ${candidate.albumTitle}: ${candidate.localQuality} → ${candidate.offeredQuality}`,
+					'info',
+					false
+				);
+			}
+
+			if (candidates.length === 0) {
+				options.setQualityUpgradeSummary(`${scanSummary} Nothing to upgrade.`);
+				toasts.success('No quality upgrades available.');
+				return;
+			}
+
+			if (
+				!(
+					await options.confirm({
+						title: 'Queue quality upgrades',
+						body: `${scanSummary}\n\nRe-download ${candidates.length} album(s) at the better quality? Existing files will be overwritten.`,
+						confirmLabel: 'Queue upgrades',
+						cancelLabel: 'Keep report only',
+						tone: 'warning'
+					})
+				)
+			) {
+				options.setQualityUpgradeSummary(`${scanSummary} Upgrades not queued.`);
+				return;
+			}
+
+			const queued = await queueLibraryQualityUpgrades();
+			if (!queued.success) throw new Error(queued.error || 'Failed to queue quality upgrades');
+			const summary = `${scanSummary} Queued ${queued.queued ?? 0} album upgrade(s).`;
+			options.setQualityUpgradeSummary(summary);
+			toasts.success(summary);
+			options.logMaintenanceMessage('Quality Upgrades', summary, 'success');
+		} catch (error) {
+			const message =
+				error instanceof Error && error.message ? error.message : 'Failed to check for quality upgrades';
+			options.setQualityUpgradeSummary(null);
+			toasts.error(message);
+			options.logMaintenanceMessage('Quality Upgrades', message, 'error', false);
+		} finally {
+			options.setQualityUpgradeScanning(false);
+		}
+	}
+
+	async function handleLibraryReorganize(): Promise<void> {
+		if (options.isLibraryReorganizing()) return;
+		if (
+			!(
+				await options.confirm({
+					title: 'Reorganize library',
+					body: settingsMaintenancePrompts.LIBRARY_REORGANIZE,
+					confirmLabel: 'Preview moves',
+					cancelLabel: 'Cancel',
+					tone: 'default'
+				})
+			)
+		)
+			return;
+
+		options.setLibraryReorganizing(true);
+		options.setLibraryReorganizeSummary(null);
+		options.resetMaintenanceLogScope('Library Reorganize');
+		options.logMaintenanceMessage('Library Reorganize', 'Planning library reorganize...', 'info', false);
+
+		try {
+			const preview = await reorganizeLibrary({ dryRun: true, forceRescan: true });
+			if (!preview.success) throw new Error(preview.error || 'Failed to plan library reorganize');
+			const previewSummary =
+				`Scanned ${preview.filesScanned ?? 0} file(s): ${preview.movesPlanned ?? 0} to move, ` +
+				`${preview.unchanged ?? 0} already in place, ${preview.conflictCount ?? 0} conflict(s).`;
+			options.logMaintenanceMessage('Library Reorganize', previewSummary, 'info', false);
+			for (const move of (preview.moves ?? []).slice(0, 20)) {
+				options.logMaintenanceMessage('Library Reorganize', `${move.from} → ${move.to}`, 'info', false);
+			}
+			for (const conflict of (preview.conflicts ?? []).slice(0, 20)) {
+				options.logMaintenanceMessage(
+					'Library Reorganize',
+					`Skipped ${conflict.from} (${conflict.reason}${conflict.to ? `: ${conflict.to}` : ''})`,
+					'warning',
+					false
+				);
+			}
+
+			if ((preview.movesPlanned ?? 0) === 0) {
+				options.setLibraryReorganizeSummary(`${previewSummary} Nothing to move.`);
+				toasts.success('Library layout is already canonical.');
+				return;
+			}
+
+			if (
+				!(
+					await options.confirm({
+						title: 'Apply library reorganize',
+						body: `${previewSummary}\n\nMove ${preview.movesPlanned} file(s) now? Moves are journaled and can be rolled back.`,
+						confirmLabel: 'Move files',
+						cancelLabel: 'Keep preview only',
+						tone: 'warning'
+					})
+				)
+			) {
+				options.setLibraryReorganizeSummary(`${previewSummary} No files moved.`);
+				return;
+			}
+
+			const applied = await reorganizeLibrary({ dryRun: false, planHash: preview.planHash });
+			if (!applied.success) {
+				const reason = applied.error || 'Failed to reorganize library';
+				throw new Error(applied.rolledBack ? `${reason} All moves were rolled back.` : reason);
+			}
+			const summary = `Moved ${applied.movesApplied ?? 0} file(s). Rollback run ID: ${applied.runId}.`;
+			options.setLibraryReorganizeSummary(summary);
+			toasts.success(summary);
+			options.logMaintenanceMessage('Library Reorganize', summary, 'success');
+		} catch (error) {
+			const message =
+				error instanceof Error && error.message ? error.message : 'Failed to reorganize library';
+			options.setLibraryReorganizeSummary(null);
+			toasts.error(message);
+			options.logMaintenanceMessage('Library Reorganize', message, 'error', false);
+		} finally {
+			options.setLibraryReorganizing(false);
+		}
+	}
+
 	return {
 		handleFullLibraryRepair,
 		handleSweepTransientArtifacts,
 		handleCorrectionSweepThenDedupe,
-		handleLibraryDeduplicate
+		handleLibraryDeduplicate,
+		handleQualityUpgradeScan,
+		handleLibraryReorganize
 	};
 }
@@ -7,6 +7,9 @@ import {
 	sanitizeForFilename,
 	type ServerDownloadProgress
 } from '$lib/downloads';
+import { playlistFilesClient } from '$lib/clients/playlistFilesClient';
+import { playbackFacade } from '$lib/controllers/playbackFacade';
+import { resolveImportedTracks } from '$lib/features/settings/playlistFileImport';
 import { downloadPreferencesStore, type DownloadMode, type DownloadStorage } from '$lib/stores/downloadPreferences';
 import { downloadUiStore } from '$lib/stores/downloadUi';
 import { machineCurrentTrack, machineQueue } from '$lib/stores/playerDerived';
@@ -28,6 +31,7 @@ export type SettingsQueueExportControllerOptions = {
 	setZipDownloading: (downloading: boolean) => void;
 	setCsvExporting: (exporting: boolean) => void;
 	setLegacyQueueDownloading: (downloading: boolean) => void;
+	setPlaylistFileBusy: (busy: boolean) => void;
 };
 
 type QueueState = {
@@ -189,6 +193,61 @@ export function createSettingsQueueExportController(options: SettingsQueueExport
 		await exportQueueAsCsv(tracks, quality);
 	}
 
+	async function handleExportQueuePlaylist(format: 'm3u8' | 'xspf'): Promise<void> {
+		const { tracks } = collectQueueState();
+		if (tracks.length === 0) {
+			toasts.warning('Add tracks to the queue before exporting.');
+			return;
+		}
+		const exportableTracks = filterExportableQueueTracks(tracks);
+		if (exportableTracks.length === 0) {
+			toasts.warning('No exportable TIDAL tracks in the queue.');
+			return;
+		}
+		options.setPlaylistFileBusy(true);
+		try {
+			const { blob, matched } = await playlistFilesClient.exportPlaylist({
+				format,
+				name: 'Queue',
+				tracks: exportableTracks
+			});
+			triggerFileDownload(blob, timestampedFilename(format));
+			toasts.info(
+				`${matched} of ${exportableTracks.length} tracks point at library files; the rest link to TIDAL.`
+			);
+		} catch (error) {
+			console.error(`Failed to export queue as ${format}`, error);
+			toasts.error(error instanceof Error ? error.message : 'Unable to export playlist.');
+		} finally {
+			options.setPlaylistFileBusy(false);
+		}
+	}
+
+	async function handleImportPlaylistFile(file: File): Promise<void> {
+		options.setPlaylistFileBusy(true);
+		try {
+			const { resolutions } = await playlistFilesClient.importPlaylist({
+				content: await file.text(),
+				filename: file.name
+			});
+			const { tracks, unresolved } = await resolveImportedTracks(resolutions);
+			if (tracks.length === 0) {
+				toasts.warning(`No tracks in ${file.name} matched the library or TIDAL.`);
+				return;
+			}
+			playbackFacade.loadQueue(tracks, 0, { autoPlay: false });
+			toasts.success(
+				`Loaded ${tracks.length} track${tracks.length === 1 ? '' : 's'} into the queue` +
+					(unresolved > 0 ? ` (${unresolved} not found)` : '')
+			);
+		} catch (error) {
+			console.error('Failed to import playlist file', error);
+			toasts.error(error instanceof Error ? error.message : 'Unable to import playlist.');
+		} finally {
+			options.setPlaylistFileBusy(false);
+		}
+	}
+
 	async function downloadQueueIndividually(
 		tracks: PlayableTrack[],
 		quality: AudioQuality
@@ -330,6 +389,8 @@ export function createSettingsQueueExportController(options: SettingsQueueExport
 
 	return {
 		handleExportQueueCsv,
+		handleExportQueuePlaylist,
+		handleImportPlaylistFile,
 		handleQueueDownload
 	};
 }
@@ -3,6 +3,9 @@ import {
 	transition,
 	createInitialState,
 	deriveSideEffects,
+	resolveAdjacentQueueIndex,
+	resolveAlbumKey,
+	resolveSleepTimerRemaining,
 	type PlaybackMachineState,
 	type PlaybackEvent
 } from './playbackMachine';
@@ -407,6 +410,22 @@ describe('playbackMachine', () => {
 			expect(next.context.currentTime).toBe(45.5);
 			expect(next.state).toBe('idle'); // State doesn't change
 		});
+
+		it('records the replay gain with its peak and normalization mode', () => {
+			const initial = createInitialState();
+			const event: PlaybackEvent = {
+				type: 'REPLAY_GAIN_UPDATE',
+				replayGain: -7.2,
+				peak: 0.97,
+				mode: 'album'
+			};
+			const next = transition(initial, event);
+
+			expect(next.context.replayGain).toBe(-7.2);
+			expect(next.context.replayGainPeak).toBe(0.97);
+			expect(next.context.replayGainMode).toBe('album');
+			expect(transition(next, event)).toBe(next);
+		});
 	});
 
 	describe('deriveSideEffects', () => {
@@ -725,4 +744,307 @@ describe('playbackMachine', () => {
 			expect(playing.context.isRecovering).toBe(false);
 		});
 	});
+
+	describe('repeat and shuffle', () => {
+		const trackA: Track = { ...mockTidalTrack, id: 1, title: 'A' };
+		const trackB: Track = { ...mockTidalTrack, id: 2, title: 'B' };
+		const trackC: Track = { ...mockTidalTrack, id: 3, title: 'C' };
+
+		const playingQueue = (queueIndex: number): PlaybackMachineState => {
+			const queued = transition(createInitialState(), {
+				type: 'SET_QUEUE',
+				queue: [trackA, trackB, trackC],
+				queueIndex
+			});
+			const loading = transition(queued, {
+				type: 'LOAD_TRACK',
+				track: queued.context.currentTrack!,
+				autoPlay: true
+			});
+			return transition(loading, {
+				type: 'LOAD_COMPLETE',
+				streamUrl: 'https://example.com/stream.m4a',
+				quality: 'HIGH'
+			});
+		};
+
+		it('advances to the next queued track on track end', () => {
+			const playing = playingQueue(0);
+			const next = transition(playing, { type: 'TRACK_END' });
+
+			expect(next.state).toBe('loading');
+			expect(next.context.queueIndex).toBe(1);
+			expect(next.context.currentTrack).toBe(trackB);
+			expect(next.context.autoPlay).toBe(true);
+			expect(deriveSideEffects(playing, next, { type: 'TRACK_END' })).toContainEqual(
+				expect.objectContaining({ type: 'LOAD_STREAM', track: trackB })
+			);
+		});
+
+		it('wraps to the start with repeat all and stops at the end with repeat off', () => {
+			const atEnd = playingQueue(2);
+			expect(transition(atEnd, { type: 'TRACK_END' }).state).toBe('idle');
+
+			const repeatAll = transition(atEnd, { type: 'SET_REPEAT_MODE', mode: 'all' });
+			const wrapped = transition(repeatAll, { type: 'TRACK_END' });
+			expect(wrapped.state).toBe('loading');
+			expect(wrapped.context.queueIndex).toBe(0);
+			expect(wrapped.context.currentTrack).toBe(trackA);
+		});
+
+		it('rewinds the current stream with repeat one', () => {
+			const playing = transition(playingQueue(0), { type: 'SET_REPEAT_MODE', mode: 'one' });
+			const next = transition(
+				{ ...playing, context: { ...playing.context, currentTime: 179 } },
+				{ type: 'TRACK_END' }
+			);
+
+			expect(next.state).toBe('playing');
+			expect(next.context.queueIndex).toBe(0);
+			expect(next.context.currentTime).toBe(0);
+			expect(next.context.loadRequestId).toBe(playing.context.loadRequestId);
+			expect(deriveSideEffects(playing, next, { type: 'TRACK_END' })).toEqual([
+				{ type: 'SEEK_AUDIO', position: 0 },
+				{ type: 'PLAY_AUDIO' }
+			]);
+		});
+
+		it('resolves adjacent indexes with wrap-around only for repeat all', () => {
+			const queue = [trackA, trackB, trackC];
+			expect(resolveAdjacentQueueIndex({ queue, queueIndex: 2, repeatMode: 'off' }, 1)).toBe(-1);
+			expect(resolveAdjacentQueueIndex({ queue, queueIndex: 2, repeatMode: 'all' }, 1)).toBe(0);
+			expect(resolveAdjacentQueueIndex({ queue, queueIndex: 0, repeatMode: 'all' }, -1)).toBe(2);
+			expect(resolveAdjacentQueueIndex({ queue, queueIndex: 0, repeatMode: 'one' }, -1)).toBe(-1);
+			expect(
+				resolveAdjacentQueueIndex({ queue: [trackA], queueIndex: 0, repeatMode: 'all' }, 1)
+			).toBe(-1);
+		});
+
+		it('restores the original order when unshuffling', () => {
+			const playing = playingQueue(1);
+			const shuffled = transition(playing, {
+				type: 'SHUFFLE_QUEUE',
+				queue: [trackB, trackC, trackA],
+				queueIndex: 0
+			});
+
+			expect(shuffled.state).toBe('playing');
+			expect(shuffled.context.shuffleEnabled).toBe(true);
+			expect(shuffled.context.unshuffledQueue).toEqual([trackA, trackB, trackC]);
+			expect(shuffled.context.currentTrack).toBe(trackB);
+
+			const advanced = transition(shuffled, {
+				type: 'SET_QUEUE',
+				queue: shuffled.context.queue,
+				queueIndex: 1
+			});
+			const unshuffled = transition(advanced, { type: 'UNSHUFFLE_QUEUE' });
+
+			expect(unshuffled.context.shuffleEnabled).toBe(false);
+			expect(unshuffled.context.queue).toEqual([trackA, trackB, trackC]);
+			expect(unshuffled.context.queueIndex).toBe(2);
+			expect(unshuffled.context.unshuffledQueue).toEqual([]);
+		});
+
+		it('mirrors queue edits onto the original order while shuffled', () => {
+			const trackD: Track = { ...mockTidalTrack, id: 4, title: 'D' };
+			const shuffled = transition(playingQueue(0), {
+				type: 'SHUFFLE_QUEUE',
+				queue: [trackA, trackC, trackB],
+				queueIndex: 0
+			});
+			const edited = transition(shuffled, {
+				type: 'SET_QUEUE',
+				queue: [trackA, trackB, trackD],
+				queueIndex: 0
+			});
+
+			expect(edited.context.shuffleEnabled).toBe(true);
+			expect(edited.context.unshuffledQueue).toEqual([trackA, trackB, trackD]);
+
+			const replaced = transition(edited, {
+				type: 'SET_QUEUE',
+				queue: [{ ...mockTidalTrack, id: 9 }],
+				queueIndex: 0
+			});
+			expect(replaced.context.shuffleEnabled).toBe(false);
+			expect(replaced.context.unshuffledQueue).toEqual([]);
+		});
+	});
+
+	describe('gapless hand-off', () => {
+		const trackA: Track = { ...mockTidalTrack, id: 1, title: 'A' };
+		const trackB: Track = { ...mockTidalTrack, id: 2, title: 'B' };
+		const trackC: Track = { ...mockTidalTrack, id: 3, title: 'C' };
+		const stream = {
+			url: 'https://example.com/b.flac',
+			quality: 'LOSSLESS' as const,
+			replayGain: { mode: 'album' as const, gain: -4, peak: 0.9 },
+			sampleRate: 44100,
+			bitDepth: 16
+		};
+
+		const playingFirst = (): PlaybackMachineState => {
+			const queued = transition(createInitialState(), {
+				type: 'SET_QUEUE',
+				queue: [trackA, trackB, trackC],
+				queueIndex: 0
+			});
+			const loading = transition(queued, { type: 'LOAD_TRACK', track: trackA, autoPlay: true });
+			return transition(loading, {
+				type: 'LOAD_COMPLETE',
+				streamUrl: 'https://example.com/a.flac',
+				quality: 'LOSSLESS'
+			});
+		};
+
+		it('advances to the prepared entry without reloading the stream', () => {
+			const playing = playingFirst();
+			const event: PlaybackEvent = { type: 'TRACK_HANDOFF', queueIndex: 1, track: trackB, stream };
+			const next = transition(playing, event);
+
+			expect(next.state).toBe('playing');
+			expect(next.context.queueIndex).toBe(1);
+			expect(next.context.currentTrack).toBe(trackB);
+			expect(next.context.streamUrl).toBe(stream.url);
+			expect(next.context.replayGain).toBe(-4);
+			expect(next.context.replayGainPeak).toBe(0.9);
+			expect(next.context.replayGainMode).toBe('album');
+			expect(next.context.loadRequestId).toBe(playing.context.loadRequestId + 1);
+
+			const effects = deriveSideEffects(playing, next, event);
+			expect(effects).toContainEqual({
+				type: 'SWAP_AUDIO_ELEMENT',
+				track: trackB,
+				stream,
+				attemptId: next.context.attemptId
+			});
+			expect(effects).not.toContainEqual(expect.objectContaining({ type: 'LOAD_STREAM' }));
+		});
+
+		it('ignores hand-offs for an entry that is no longer next', () => {
+			const playing = playingFirst();
+			expect(
+				transition(playing, { type: 'TRACK_HANDOFF', queueIndex: 2, track: trackC, stream })
+			).toBe(playing);
+			expect(
+				transition(playing, { type: 'TRACK_HANDOFF', queueIndex: 1, track: trackC, stream })
+			).toBe(playing);
+
+			const repeatOne = transition(playing, { type: 'SET_REPEAT_MODE', mode: 'one' });
+			expect(
+				transition(repeatOne, { type: 'TRACK_HANDOFF', queueIndex: 1, track: trackB, stream })
+			).toBe(repeatOne);
+		});
+	});
+
+	describe('sleep timer', () => {
+		const otherAlbum = { ...mockTidalTrack.album, id: 2, title: 'Other Album' };
+		const trackA: Track = { ...mockTidalTrack, id: 1, title: 'A', duration: 100 };
+		const trackB: Track = { ...mockTidalTrack, id: 2, title: 'B', duration: 120 };
+		const trackC: Track = { ...mockTidalTrack, id: 3, title: 'C', album: otherAlbum };
+
+		const playingFirst = (): PlaybackMachineState => {
+			const queued = transition(createInitialState(), {
+				type: 'SET_QUEUE',
+				queue: [trackA, trackB, trackC],
+				queueIndex: 0
+			});
+			const loading = transition(queued, { type: 'LOAD_TRACK', track: trackA, autoPlay: true });
+			return transition(loading, {
+				type: 'LOAD_COMPLETE',
+				streamUrl: 'https://example.com/a.flac',
+				quality: 'LOSSLESS'
+			});
+		};
+
+		it('pauses when a duration timer expires', () => {
+			const timed = transition(playingFirst(), {
+				type: 'SET_SLEEP_TIMER',
+				timer: { mode: 'duration', endsAt: 60_000 }
+			});
+			expect(resolveSleepTimerRemaining(timed.context, 30_000)).toBe(30);
+
+			const expired = transition(timed, { type: 'SLEEP_TIMER_EXPIRED' });
+			expect(expired.state).toBe('paused');
+			expect(expired.context.sleepTimer).toBeNull();
+			expect(deriveSideEffects(timed, expired, { type: 'SLEEP_TIMER_EXPIRED' })).toContainEqual({
+				type: 'PAUSE_AUDIO'
+			});
+		});
+
+		it('is cancelled by a manual pause', () => {
+			const timed = transition(playingFirst(), {
+				type: 'SET_SLEEP_TIMER',
+				timer: { mode: 'end-of-track' }
+			});
+			const paused = transition(timed, { type: 'PAUSE' });
+			expect(paused.context.sleepTimer).toBeNull();
+			expect(transition(paused, { type: 'SLEEP_TIMER_EXPIRED' })).toBe(paused);
+		});
+
+		it('stops at the end of the track and cues up the next entry', () => {
+			const timed = transition(playingFirst(), {
+				type: 'SET_SLEEP_TIMER',
+				timer: { mode: 'end-of-track' }
+			});
+			const stopped = transition(timed, { type: 'TRACK_END' });
+			expect(stopped.state).toBe('loading');
+			expect(stopped.context.queueIndex).toBe(1);
+			expect(stopped.context.autoPlay).toBe(false);
+			expect(stopped.context.sleepTimer).toBeNull();
+		});
+
+		it('keeps playing through the album and stops before the next one', () => {
+			const timed = transition(playingFirst(), {
+				type: 'SET_SLEEP_TIMER',
+				timer: { mode: 'end-of-album' }
+			});
+			expect(timed.context.sleepTimer).toEqual({ mode: 'end-of-album', albumKey: 'id:1' });
+			expect(resolveSleepTimerRemaining({ ...timed.context, currentTime: 40 }, 0)).toBe(180);
+
+			const secondTrack = transition(
+				transition(timed, { type: 'TRACK_END' }),
+				{ type: 'LOAD_COMPLETE', streamUrl: 'https://example.com/b.flac', quality: 'LOSSLESS' }
+			);
+			expect(secondTrack.state).toBe('playing');
+			expect(secondTrack.context.sleepTimer).not.toBeNull();
+
+			const handoff = {
+				type: 'TRACK_HANDOFF' as const,
+				queueIndex: 2,
+				track: trackC,
+				stream: {
+					url: 'https://example.com/c.flac',
+					quality: 'LOSSLESS' as const,
+					replayGain: { mode: 'track' as const, gain: null, peak: null },
+					sampleRate: null,
+					bitDepth: null
+				}
+			};
+			expect(transition(secondTrack, handoff)).toBe(secondTrack);
+
+			const stopped = transition(secondTrack, { type: 'TRACK_END' });
+			expect(stopped.context.currentTrack).toBe(trackC);
+			expect(stopped.context.autoPlay).toBe(false);
+			expect(stopped.context.sleepTimer).toBeNull();
+		});
+
+		it('tells same-named library albums apart by artist', () => {
+			const libraryTrack = (artistName: string, title: string) =>
+				({
+					...mockTidalTrack,
+					artist: { id: 0, name: artistName, type: 'MAIN' },
+					album: { id: 0, title, cover: '', videoCover: null }
+				}) as Track;
+
+			expect(resolveAlbumKey(libraryTrack('Artist A', ' Greatest Hits '))).toBe(
+				'title:artist a:greatest hits'
+			);
+			expect(resolveAlbumKey(libraryTrack('Artist A', 'Greatest Hits'))).not.toBe(
+				resolveAlbumKey(libraryTrack('Artist B', 'Greatest Hits'))
+			);
+			expect(resolveAlbumKey(libraryTrack('Artist A', ''))).toBeNull();
+		});
+	});
 });
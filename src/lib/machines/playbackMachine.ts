@@ -19,12 +19,22 @@
  * - PLAY: User requests playback
  * - PAUSE: User requests pause
  * - AUDIO_ERROR: Audio element error
- * - TRACK_END: Playback reached end
+ * - TRACK_END: Playback reached end (repeats, advances or stops depending on repeat mode)
  * - CHANGE_QUALITY: User changes quality setting
+ * - SET_REPEAT_MODE: User cycles repeat off / one / all
+ * - SHUFFLE_QUEUE / UNSHUFFLE_QUEUE: Enter or leave shuffle, keeping the original order
+ * - SET_SLEEP_TIMER / CANCEL_SLEEP_TIMER / SLEEP_TIMER_EXPIRED: Stop after a duration or at
+ *   the end of the current track/album; a manual PAUSE cancels the timer
  */
 
-import type { Track, AudioQuality, PlayableTrack } from '$lib/types';
-import { isSonglinkTrack } from '$lib/types';
+import type {
+	Track,
+	AudioQuality,
+	AppliedReplayGain,
+	LoudnessNormalizationMode,
+	PlayableTrack
+} from '$lib/types';
+import { isLocalTrack, isSonglinkTrack } from '$lib/types';
 
 export type PlaybackState =
 	| 'idle'
@@ -36,9 +46,43 @@ export type PlaybackState =
 	| 'buffering' // Playing but waiting for data
 	| 'error';
 
+export type RepeatMode = 'off' | 'one' | 'all';
+
+/**
+ * Pending automatic stop. Duration timers carry a wall-clock deadline; the other modes stop
+ * at a track boundary, with end-of-album keyed to the album that was playing when it was set.
+ */
+export type SleepTimer =
+	| { mode: 'duration'; endsAt: number }
+	| { mode: 'end-of-track' }
+	| { mode: 'end-of-album'; albumKey: string };
+
+export type SleepTimerRequest =
+	| { mode: 'duration'; endsAt: number }
+	| { mode: 'end-of-track' }
+	| { mode: 'end-of-album' };
+
+/**
+ * Stream already buffered on the standby audio element, handed over when the current
+ * track ends so the next one starts without a reload.
+ */
+export type HandoffStream = {
+	url: string;
+	quality: AudioQuality;
+	replayGain: AppliedReplayGain;
+	sampleRate: number | null;
+	bitDepth: number | null;
+};
+
 export type PlaybackEvent =
 	| { type: 'LOAD_TRACK'; track: PlayableTrack; autoPlay?: boolean }
 	| { type: 'SET_QUEUE'; queue: PlayableTrack[]; queueIndex: number }
+	| { type: 'SHUFFLE_QUEUE'; queue: PlayableTrack[]; queueIndex: number }
+	| { type: 'UNSHUFFLE_QUEUE' }
+	| { type: 'SET_REPEAT_MODE'; mode: RepeatMode }
+	| { type: 'SET_SLEEP_TIMER'; timer: SleepTimerRequest }
+	| { type: 'CANCEL_SLEEP_TIMER' }
+	| { type: 'SLEEP_TIMER_EXPIRED' }
 	| { type: 'CONVERSION_COMPLETE'; track: Track }
 	| { type: 'CONVERSION_ERROR'; error: Error }
 	| { type: 'LOAD_COMPLETE'; streamUrl: string | null; quality: AudioQuality }
@@ -51,6 +95,7 @@ export type PlaybackEvent =
 	| { type: 'AUDIO_WAITING' }
 	| { type: 'AUDIO_ERROR'; error: Event; attemptId?: string }
 	| { type: 'TRACK_END' }
+	| { type: 'TRACK_HANDOFF'; queueIndex: number; track: PlayableTrack; stream: HandoffStream }
 	| { type: 'CHANGE_QUALITY'; quality: AudioQuality }
 	| { type: 'FALLBACK_REQUESTED'; quality: AudioQuality; reason: string }
 	| { type: 'SEEK'; position: number }
@@ -60,7 +105,12 @@ export type PlaybackEvent =
 	| { type: 'MUTE_UPDATE'; isMuted: boolean }
 	| { type: 'SAMPLE_RATE_UPDATE'; sampleRate: number | null }
 	| { type: 'BIT_DEPTH_UPDATE'; bitDepth: number | null }
-	| { type: 'REPLAY_GAIN_UPDATE'; replayGain: number | null }
+	| {
+			type: 'REPLAY_GAIN_UPDATE';
+			replayGain: number | null;
+			peak: number | null;
+			mode: LoudnessNormalizationMode;
+	  }
 	| { type: 'RESET' };
 
 /**
@@ -92,7 +142,10 @@ export interface PlaybackContext {
 	isMuted: boolean;
 	sampleRate: number | null;
 	bitDepth: number | null;
+	// Gain in dB picked for `replayGainMode`, and the matching peak for clipping prevention
 	replayGain: number | null;
+	replayGainPeak: number | null;
+	replayGainMode: LoudnessNormalizationMode;
 	error: Error | null;
 	loadRequestId: number; // Request token for loads
 	/**
@@ -107,6 +160,18 @@ export interface PlaybackContext {
 	 * Used by UI sync to avoid showing "playing" during error recovery.
 	 */
 	isRecovering: boolean;
+	repeatMode: RepeatMode;
+	/**
+	 * True while `queue` is a shuffled order of `unshuffledQueue`.
+	 * Replacing the queue wholesale (e.g. playing a new album) leaves shuffle.
+	 */
+	shuffleEnabled: boolean;
+	/**
+	 * Queue order from before shuffle was enabled, kept in sync with queue edits
+	 * so unshuffling restores it. Empty while shuffle is off.
+	 */
+	unshuffledQueue: PlayableTrack[];
+	sleepTimer: SleepTimer | null;
 }
 
 export interface PlaybackMachineState {
@@ -114,6 +179,192 @@ export interface PlaybackMachineState {
 	context: PlaybackContext;
 }
 
+const queueEntryKey = (track: PlayableTrack): string => {
+	if (isLocalTrack(track)) return `local:${track.localFile.fileId}`;
+	return `${isSonglinkTrack(track) ? 'songlink' : 'tidal'}:${track.id}`;
+};
+
+/**
+ * Identity of the album a queue entry belongs to, shared by the end-of-album sleep timer and
+ * gapless transitions. Library tracks without an embedded TIDAL album id fall back to the
+ * album artist and title, so same-named albums by different artists stay apart.
+ */
+export function resolveAlbumKey(track: PlayableTrack | null | undefined): string | null {
+	if (!track || isSonglinkTrack(track) || !track.album) return null;
+	if (track.album.id) return `id:${track.album.id}`;
+	const title = track.album.title?.trim().toLowerCase();
+	if (!title) return null;
+	const artist = track.album.artist?.name ?? track.artist?.name ?? '';
+	return `title:${artist.trim().toLowerCase()}:${title}`;
+}
+
+/**
+ * Index of the neighbouring queue entry for next/previous, wrapping around the queue
+ * when repeat-all is on. Returns -1 when there is no other track to move to.
+ */
+export function resolveAdjacentQueueIndex(
+	context: Pick<PlaybackContext, 'queue' | 'queueIndex' | 'repeatMode'>,
+	direction: 1 | -1
+): number {
+	const { queue, queueIndex, repeatMode } = context;
+	if (queue.length === 0) return -1;
+	const candidate = queueIndex + direction;
+	if (candidate >= 0 && candidate < queue.length) return candidate;
+	if (repeatMode !== 'all' || queue.length === 1) return -1;
+	return direction > 0 ? 0 : queue.length - 1;
+}
+
+/**
+ * Whether the sleep timer ends playback when the current track finishes, instead of moving
+ * on to the next queue entry.
+ */
+export function sleepTimerStopsAfterCurrentTrack(
+	context: Pick<PlaybackContext, 'sleepTimer' | 'queue' | 'queueIndex' | 'repeatMode'>
+): boolean {
+	const timer = context.sleepTimer;
+	if (!timer || timer.mode === 'duration') return false;
+	if (timer.mode === 'end-of-track' || context.repeatMode === 'one') return true;
+	const nextIndex = resolveAdjacentQueueIndex(context, 1);
+	return nextIndex < 0 || resolveAlbumKey(context.queue[nextIndex]) !== timer.albumKey;
+}
+
+/**
+ * Seconds until the sleep timer stops playback, or null without a timer. Track and album
+ * timers count down the rest of the current track plus any following tracks of the album.
+ */
+export function resolveSleepTimerRemaining(
+	context: Pick<
+		PlaybackContext,
+		'sleepTimer' | 'queue' | 'queueIndex' | 'repeatMode' | 'currentTime' | 'duration'
+	>,
+	now: number
+): number | null {
+	const timer = context.sleepTimer;
+	if (!timer) return null;
+	if (timer.mode === 'duration') {
+		return Math.max(0, (timer.endsAt - now) / 1000);
+	}
+	let remaining = Math.max(0, context.duration - context.currentTime);
+	if (timer.mode === 'end-of-album' && context.repeatMode !== 'one') {
+		for (let index = context.queueIndex + 1; index < context.queue.length; index += 1) {
+			const track = context.queue[index];
+			if (resolveAlbumKey(track) !== timer.albumKey) break;
+			remaining += track.duration ?? 0;
+		}
+	}
+	return remaining;
+}
+
+/**
+ * Mirror a queue edit made while shuffled onto the original order: entries that left the
+ * queue are dropped and new entries are appended. Returns null when nothing of the old
+ * queue survived, i.e. the queue was replaced rather than edited.
+ */
+function reconcileUnshuffledQueue(
+	previous: PlayableTrack[],
+	next: PlayableTrack[],
+	unshuffled: PlayableTrack[]
+): PlayableTrack[] | null {
+	const remaining = new Map<string, number>();
+	for (const track of previous) {
+		const key = queueEntryKey(track);
+		remaining.set(key, (remaining.get(key) ?? 0) + 1);
+	}
+	const added: PlayableTrack[] = [];
+	let kept = 0;
+	for (const track of next) {
+		const key = queueEntryKey(track);
+		const count = remaining.get(key) ?? 0;
+		if (count > 0) {
+			remaining.set(key, count - 1);
+			kept += 1;
+		} else {
+			added.push(track);
+		}
+	}
+	if (kept === 0) {
+		return null;
+	}
+	// Whatever is left in `remaining` was removed from the queue.
+	const reconciled: PlayableTrack[] = [];
+	for (const track of unshuffled) {
+		const key = queueEntryKey(track);
+		const removed = remaining.get(key) ?? 0;
+		if (removed > 0) {
+			remaining.set(key, removed - 1);
+			continue;
+		}
+		reconciled.push(track);
+	}
+	return [...reconciled, ...added];
+}
+
+function applyQueue(
+	current: PlaybackMachineState,
+	queue: PlayableTrack[],
+	queueIndex: number
+): PlaybackMachineState {
+	const { state, context } = current;
+	const nextTrack =
+		queueIndex >= 0 && queueIndex < queue.length ? queue[queueIndex] ?? null : null;
+	const trackChanged = (() => {
+		if (!nextTrack && !context.currentTrack) return false;
+		if (!nextTrack || !context.currentTrack) return true;
+		return queueEntryKey(nextTrack) !== queueEntryKey(context.currentTrack);
+	})();
+	return {
+		state,
+		context: {
+			...context,
+			queue,
+			queueIndex,
+			currentTrack: nextTrack ?? null,
+			currentTime: trackChanged ? 0 : context.currentTime,
+			duration: trackChanged ? nextTrack?.duration ?? 0 : context.duration,
+			sampleRate: trackChanged ? null : context.sampleRate,
+			bitDepth: trackChanged ? null : context.bitDepth,
+			replayGain: trackChanged ? null : context.replayGain,
+			replayGainPeak: trackChanged ? null : context.replayGainPeak
+		}
+	};
+}
+
+function loadTrack(
+	current: PlaybackMachineState,
+	track: PlayableTrack,
+	autoPlay?: boolean
+): PlaybackMachineState {
+	const { state, context } = current;
+	// Generate new attemptId to invalidate any in-flight async operations from previous track
+	const newAttemptId = generateAttemptId();
+	const nextAutoPlay =
+		typeof autoPlay === 'boolean'
+			? autoPlay
+			: context.autoPlay || state === 'playing' || state === 'buffering';
+	return {
+		state: isSonglinkTrack(track) ? 'converting' : 'loading',
+		context: {
+			...context,
+			currentTrack: track,
+			currentTime: 0,
+			duration: track.duration ?? 0,
+			streamUrl: null,
+			// Reset effectiveQuality until new stream loads
+			effectiveQuality: null,
+			sampleRate: null,
+			bitDepth: null,
+			replayGain: null,
+			replayGainPeak: null,
+			error: null,
+			loadRequestId: context.loadRequestId + 1,
+			attemptId: newAttemptId,
+			autoPlay: nextAutoPlay,
+			// Clear recovery flag on new track load
+			isRecovering: false
+		}
+	};
+}
+
 /**
  * State transition function
  * Pure function that returns new state based on current state and event
@@ -127,58 +378,115 @@ export function transition(
 	switch (event.type) {
 		case 'LOAD_TRACK': {
 			// Always allow loading a new track
-			// Generate new attemptId to invalidate any in-flight async operations from previous track
-			const newAttemptId = generateAttemptId();
-			const nextAutoPlay =
-				typeof event.autoPlay === 'boolean'
-					? event.autoPlay
-					: context.autoPlay || state === 'playing' || state === 'buffering';
+			return loadTrack(current, event.track, event.autoPlay);
+		}
+
+		case 'SET_QUEUE': {
+			const next = applyQueue(current, event.queue, event.queueIndex);
+			if (!context.shuffleEnabled || event.queue === context.queue) {
+				return next;
+			}
+			const unshuffledQueue = reconcileUnshuffledQueue(
+				context.queue,
+				event.queue,
+				context.unshuffledQueue
+			);
+			return {
+				state: next.state,
+				context: {
+					...next.context,
+					shuffleEnabled: unshuffledQueue !== null,
+					unshuffledQueue: unshuffledQueue ?? []
+				}
+			};
+		}
+
+		case 'SHUFFLE_QUEUE': {
+			const next = applyQueue(current, event.queue, event.queueIndex);
+			return {
+				state: next.state,
+				context: {
+					...next.context,
+					shuffleEnabled: true,
+					// Reshuffling keeps the order from before the first shuffle.
+					unshuffledQueue: context.shuffleEnabled ? context.unshuffledQueue : context.queue
+				}
+			};
+		}
+
+		case 'UNSHUFFLE_QUEUE': {
+			if (!context.shuffleEnabled) return current;
+			const queue = context.unshuffledQueue;
+			const currentKey = context.currentTrack ? queueEntryKey(context.currentTrack) : null;
+			const locatedIndex = currentKey
+				? queue.findIndex((track) => queueEntryKey(track) === currentKey)
+				: -1;
+			const queueIndex =
+				locatedIndex >= 0 ? locatedIndex : Math.min(context.queueIndex, queue.length - 1);
+			const next = applyQueue(current, queue, queueIndex);
 			return {
-				state: isSonglinkTrack(event.track) ? 'converting' : 'loading',
+				state: next.state,
+				context: {
+					...next.context,
+					shuffleEnabled: false,
+					unshuffledQueue: []
+				}
+			};
+		}
+
+		case 'SET_REPEAT_MODE': {
+			if (context.repeatMode === event.mode) return current;
+			return {
+				state,
 				context: {
 					...context,
-					currentTrack: event.track,
-					currentTime: 0,
-					duration: event.track.duration ?? 0,
-					streamUrl: null,
-					// Reset effectiveQuality until new stream loads
-					effectiveQuality: null,
-					sampleRate: null,
-					bitDepth: null,
-					replayGain: null,
-					error: null,
-					loadRequestId: context.loadRequestId + 1,
-					attemptId: newAttemptId,
-					autoPlay: nextAutoPlay,
-					// Clear recovery flag on new track load
-					isRecovering: false
+					repeatMode: event.mode
 				}
 			};
 		}
 
-		case 'SET_QUEUE': {
-			const nextTrack =
-				event.queueIndex >= 0 && event.queueIndex < event.queue.length
-					? event.queue[event.queueIndex] ?? null
-					: null;
-			const trackChanged = (() => {
-				if (!nextTrack && !context.currentTrack) return false;
-				if (!nextTrack || !context.currentTrack) return true;
-				if (nextTrack.id !== context.currentTrack.id) return true;
-				return isSonglinkTrack(nextTrack) !== isSonglinkTrack(context.currentTrack);
-			})();
+		case 'SET_SLEEP_TIMER': {
+			let sleepTimer: SleepTimer;
+			if (event.timer.mode === 'end-of-album') {
+				const key = resolveAlbumKey(context.currentTrack);
+				// Without album info, the album ends with the current track.
+				sleepTimer = key ? { mode: 'end-of-album', albumKey: key } : { mode: 'end-of-track' };
+			} else {
+				sleepTimer = event.timer;
+			}
 			return {
 				state,
 				context: {
 					...context,
-					queue: event.queue,
-					queueIndex: event.queueIndex,
-					currentTrack: nextTrack ?? null,
-					currentTime: trackChanged ? 0 : context.currentTime,
-					duration: trackChanged ? nextTrack?.duration ?? 0 : context.duration,
-					sampleRate: trackChanged ? null : context.sampleRate,
-					bitDepth: trackChanged ? null : context.bitDepth,
-					replayGain: trackChanged ? null : context.replayGain
+					sleepTimer
+				}
+			};
+		}
+
+		case 'CANCEL_SLEEP_TIMER': {
+			if (!context.sleepTimer) {
+				return current;
+			}
+			return {
+				state,
+				context: {
+					...context,
+					sleepTimer: null
+				}
+			};
+		}
+
+		case 'SLEEP_TIMER_EXPIRED': {
+			if (!context.sleepTimer) {
+				return current;
+			}
+			const stopping = state === 'playing' || state === 'buffering';
+			return {
+				state: stopping ? 'paused' : state,
+				context: {
+					...context,
+					autoPlay: stopping ? false : context.autoPlay,
+					sleepTimer: null
 				}
 			};
 		}
@@ -270,6 +578,7 @@ export function transition(
 						sampleRate: null,
 						bitDepth: null,
 						replayGain: null,
+						replayGainPeak: null,
 						error: null,
 						loadRequestId: context.loadRequestId + 1,
 						attemptId,
@@ -310,12 +619,14 @@ export function transition(
 		}
 
 		case 'PAUSE': {
+			// A manual pause also cancels any pending sleep timer.
 			if (state === 'playing' || state === 'buffering') {
 				return {
 					state: 'paused',
 					context: {
 						...context,
-						autoPlay: false
+						autoPlay: false,
+						sleepTimer: null
 					}
 				};
 			}
@@ -324,7 +635,8 @@ export function transition(
 					state,
 					context: {
 						...context,
-						autoPlay: false
+						autoPlay: false,
+						sleepTimer: null
 					}
 				};
 			}
@@ -339,6 +651,9 @@ export function transition(
 					currentTrack: null,
 					queue: [],
 					queueIndex: -1,
+					shuffleEnabled: false,
+					unshuffledQueue: [],
+					sleepTimer: null,
 					streamUrl: null,
 					effectiveQuality: null,
 					currentTime: 0,
@@ -346,6 +661,7 @@ export function transition(
 					sampleRate: null,
 					bitDepth: null,
 					replayGain: null,
+					replayGainPeak: null,
 					error: null,
 					loadRequestId: context.loadRequestId + 1,
 					attemptId: generateAttemptId(),
@@ -407,17 +723,98 @@ export function transition(
 		}
 
 		case 'TRACK_END': {
-			if (state === 'playing') {
+			if (state !== 'playing' && state !== 'buffering') {
+				return current;
+			}
+			const nextIndex =
+				context.repeatMode === 'one' ? -1 : resolveAdjacentQueueIndex(context, 1);
+			const nextTrack = nextIndex >= 0 ? context.queue[nextIndex] : undefined;
+			if (sleepTimerStopsAfterCurrentTrack(context)) {
+				const stopped = { ...context, sleepTimer: null };
+				// Cue up the next entry without playing it, so resuming continues the queue.
+				if (nextTrack && nextIndex !== context.queueIndex) {
+					return loadTrack(
+						{ state, context: { ...stopped, queueIndex: nextIndex } },
+						nextTrack,
+						false
+					);
+				}
 				return {
 					state: 'idle',
 					context: {
-						...context,
+						...stopped,
 						currentTime: 0,
 						autoPlay: false
 					}
 				};
 			}
-			return current;
+			if (nextTrack) {
+				return loadTrack(
+					{ state, context: { ...context, queueIndex: nextIndex } },
+					nextTrack,
+					true
+				);
+			}
+			const restart =
+				context.currentTrack !== null &&
+				(context.repeatMode === 'one' ||
+					(context.repeatMode === 'all' && context.queue.length <= 1));
+			if (restart) {
+				// Same track again: rewind the loaded stream instead of fetching it anew.
+				return {
+					state: 'playing',
+					context: {
+						...context,
+						currentTime: 0
+					}
+				};
+			}
+			return {
+				state: 'idle',
+				context: {
+					...context,
+					currentTime: 0,
+					autoPlay: false
+				}
+			};
+		}
+
+		case 'TRACK_HANDOFF': {
+			if (
+				state !== 'playing' ||
+				context.repeatMode === 'one' ||
+				sleepTimerStopsAfterCurrentTrack(context)
+			) {
+				return current;
+			}
+			// The standby element was prepared for one specific entry; if the queue moved on
+			// since, TRACK_END loads whatever comes next instead.
+			const expected = context.queue[event.queueIndex];
+			if (
+				!expected ||
+				event.queueIndex !== resolveAdjacentQueueIndex(context, 1) ||
+				queueEntryKey(expected) !== queueEntryKey(event.track)
+			) {
+				return current;
+			}
+			const next = loadTrack(
+				{ state, context: { ...context, queueIndex: event.queueIndex } },
+				expected,
+				true
+			);
+			return {
+				state: 'playing',
+				context: {
+					...next.context,
+					streamUrl: event.stream.url,
+					effectiveQuality: event.stream.quality,
+					replayGain: event.stream.replayGain.gain,
+					replayGainPeak: event.stream.replayGain.peak,
+					replayGainMode: event.stream.replayGain.mode,
+					sampleRate: event.stream.sampleRate,
+					bitDepth: event.stream.bitDepth
+				}
+			};
 		}
 
 		case 'CHANGE_QUALITY': {
@@ -564,14 +961,20 @@ export function transition(
 		}
 
 		case 'REPLAY_GAIN_UPDATE': {
-			if (context.replayGain === event.replayGain) {
+			if (
+				context.replayGain === event.replayGain &&
+				context.replayGainPeak === event.peak &&
+				context.replayGainMode === event.mode
+			) {
 				return current;
 			}
 			return {
 				state,
 				context: {
 					...context,
-					replayGain: event.replayGain
+					replayGain: event.replayGain,
+					replayGainPeak: event.peak,
+					replayGainMode: event.mode
 				}
 			};
 		}
@@ -601,11 +1004,17 @@ export function createInitialState(quality: AudioQuality = 'HIGH'): PlaybackMach
 			sampleRate: null,
 			bitDepth: null,
 			replayGain: null,
+			replayGainPeak: null,
+			replayGainMode: 'track',
 			error: null,
 			loadRequestId: 0,
 			attemptId: generateAttemptId(),
 			autoPlay: false,
-			isRecovering: false
+			isRecovering: false,
+			repeatMode: 'off',
+			shuffleEnabled: false,
+			unshuffledQueue: [],
+			sleepTimer: null
 		}
 	};
 }
@@ -618,6 +1027,7 @@ export type SideEffect =
 	| { type: 'CONVERT_SONGLINK'; track: PlayableTrack; attemptId: string }
 	| { type: 'LOAD_STREAM'; track: Track; quality: AudioQuality; requestId: number; attemptId: string }
 	| { type: 'SET_AUDIO_SRC'; url: string; attemptId: string }
+	| { type: 'SWAP_AUDIO_ELEMENT'; track: Track; stream: HandoffStream; attemptId: string }
 	| { type: 'PLAY_AUDIO' }
 	| { type: 'PAUSE_AUDIO' }
 	| { type: 'RESET_AUDIO' }
@@ -708,6 +1118,30 @@ export function deriveSideEffects(
 	if (event.type === 'SEEK') {
 		effects.push({ type: 'SEEK_AUDIO', position: event.position });
 	}
+	if (
+		event.type === 'TRACK_END' &&
+		next.state === 'playing' &&
+		next.context.loadRequestId === prev.context.loadRequestId
+	) {
+		// Repeat restarted the current stream.
+		effects.push({ type: 'SEEK_AUDIO', position: 0 });
+		if (prev.state === 'playing') {
+			effects.push({ type: 'PLAY_AUDIO' });
+		}
+	}
+	if (
+		event.type === 'TRACK_HANDOFF' &&
+		next.context.loadRequestId !== prev.context.loadRequestId &&
+		next.context.currentTrack &&
+		!isSonglinkTrack(next.context.currentTrack)
+	) {
+		effects.push({
+			type: 'SWAP_AUDIO_ELEMENT',
+			track: next.context.currentTrack,
+			stream: event.stream,
+			attemptId: next.context.attemptId
+		});
+	}
 	if (event.type === 'AUDIO_ERROR') {
 		const attemptId = event.attemptId ?? next.context.attemptId;
 		effects.push({
@@ -34,6 +34,35 @@ export type DownloadCenterJob = {
 	completedTracks?: number;
 };
 
+export type DownloadCenterBatch = {
+	id: string;
+	label: string;
+	sourceLabel: string;
+	status: 'empty' | DownloadCenterJob['status'];
+	progressPercent: number;
+	meta: string;
+	canPause: boolean;
+	canResume: boolean;
+	canCancel: boolean;
+	canRetry: boolean;
+};
+
+export type DownloadCenterHistoryRow = {
+	id: string;
+	title: string;
+	status: 'completed' | 'failed' | 'cancelled';
+	statusLabel: string;
+	meta: string;
+	downgraded: boolean;
+	outputPath: string | null;
+	error: string | null;
+	recordedAtLabel: string;
+};
+
+export type DownloadCenterHistoryStatusFilter = 'all' | DownloadCenterHistoryRow['status'];
+
+export type DownloadCenterBatchAction = 'pause' | 'resume' | 'cancel' | 'retry';
+
 export type DownloadCenterActionKeys = {
 	refresh: string;
 	bulkPause: string;
@@ -1,6 +1,9 @@
 import { describe, expect, it } from 'vitest';
 import type { QueueJob } from '$lib/features/download-manager/model';
 import {
+	buildDownloadCenterBatchRows,
+	buildDownloadCenterHistoryRows,
+	buildDownloadCenterScheduleNotice,
 	buildDownloadCenterSectionNavItems,
 	buildDownloadCenterStatusHeadline,
 	sortDownloadCenterJobs
@@ -30,8 +33,11 @@ describe('downloadCenterViewModel', () => {
 	});
 
 	it('adds the timeline tab only when details are visible', () => {
-		expect(buildDownloadCenterSectionNavItems(false)).toHaveLength(2);
-		expect(buildDownloadCenterSectionNavItems(true)).toHaveLength(3);
+		expect(buildDownloadCenterSectionNavItems(false)).toHaveLength(3);
+		expect(buildDownloadCenterSectionNavItems(true)).toHaveLength(4);
+		expect(buildDownloadCenterSectionNavItems(false, true).map((item) => item.label)).toContain(
+			'Batches'
+		);
 	});
 
 	it('builds a status headline from queue activity', () => {
@@ -46,4 +52,83 @@ describe('downloadCenterViewModel', () => {
 			})
 		).toContain('2 active downloads');
 	});
+
+	it('describes when the next download window opens', () => {
+		const notice = buildDownloadCenterScheduleNotice({
+			enabled: true,
+			withinWindow: false,
+			nextWindowOpensAt: new Date(2026, 0, 5, 22, 0).getTime(),
+			bandwidthBudgetBytesPerSecond: null,
+			observedBytesPerSecond: 0,
+			throttled: false,
+			effectiveMaxConcurrent: 4
+		});
+		expect(notice).toContain('next window opens at');
+		expect(buildDownloadCenterScheduleNotice(undefined)).toBeNull();
+	});
+
+	it('summarizes batches and exposes only applicable bulk actions', () => {
+		const rows = buildDownloadCenterBatchRows([
+			{
+				batch: {
+					id: 'batch-1',
+					label: 'Discography: Artist',
+					source: 'discography',
+					createdAt: 1
+				},
+				status: 'paused',
+				jobIds: ['a', 'b', 'c'],
+				counts: { queued: 0, processing: 0, paused: 1, completed: 1, failed: 1, cancelled: 0 },
+				total: 3,
+				progress: 0.4
+			},
+			{
+				batch: { id: 'batch-2', label: 'Empty', source: 'manual', createdAt: 2 },
+				status: 'empty',
+				jobIds: [],
+				counts: { queued: 0, processing: 0, paused: 0, completed: 0, failed: 0, cancelled: 0 },
+				total: 0,
+				progress: 0
+			}
+		]);
+
+		expect(rows).toHaveLength(1);
+		expect(rows[0]).toMatchObject({
+			sourceLabel: 'Discography',
+			progressPercent: 40,
+			meta: '1/3 done · 1 paused · 1 failed',
+			canPause: false,
+			canResume: true,
+			canCancel: true,
+			canRetry: true
+		});
+	});
+
+	it('flags history entries that fell back from the requested quality', () => {
+		const [row] = buildDownloadCenterHistoryRows([
+			{
+				id: 'job-1:2',
+				jobId: 'job-1',
+				recordedAt: 2,
+				status: 'completed',
+				type: 'album',
+				albumId: 10,
+				artistName: 'Artist',
+				albumTitle: 'Album',
+				requestedQuality: 'HI_RES_LOSSLESS',
+				quality: 'LOSSLESS',
+				fallbackHistory: ['HI_RES_LOSSLESS'],
+				outputPath: '/music/Artist/Album',
+				retryCount: 0,
+				createdAt: 1
+			}
+		]);
+		expect(row).toMatchObject({
+			title: 'Album',
+			statusLabel: 'Downloaded',
+			downgraded: true,
+			outputPath: '/music/Artist/Album'
+		});
+		expect(row?.meta).toContain('requested HI_RES_LOSSLESS');
+	});
 });
@@ -1,4 +1,24 @@
 import type { QueueJob } from '$lib/features/download-manager/model';
+import type {
+	DownloadHistoryEntry,
+	QueueBatchSummary,
+	QueueScheduleStatus
+} from '$lib/clients/queueClient';
+import type {
+	DownloadCenterBatch,
+	DownloadCenterHistoryRow
+} from '$lib/screens/download-center/downloadCenterSectionTypes';
+import { formatFileSize } from '$lib/utils/formatters';
+
+const BATCH_ROW_LIMIT = 8;
+
+const batchSourceLabels: Record<QueueBatchSummary['batch']['source'], string> = {
+	discography: 'Discography',
+	'repair-all': 'Library repair',
+	'quality-upgrade': 'Quality upgrade',
+	playlist: 'Playlist',
+	manual: 'Manual'
+};
 
 export type DownloadCenterStatsVM = {
 	running: number;
@@ -31,7 +51,10 @@ export function sortDownloadCenterJobs(jobs: QueueJob[]): QueueJob[] {
 	});
 }
 
-export function buildDownloadCenterSectionNavItems(showDetailedSections: boolean) {
+export function buildDownloadCenterSectionNavItems(
+	showDetailedSections: boolean,
+	hasBatches = false
+) {
 	const items: Array<{
 		id: string;
 		label: string;
@@ -40,6 +63,10 @@ export function buildDownloadCenterSectionNavItems(showDetailedSections: boolean
 		{ id: 'download-center-summary', label: 'Summary', tone: 'secondary' as const },
 		{ id: 'download-center-priority', label: 'Priority', tone: 'secondary' as const }
 	];
+	if (hasBatches) {
+		items.push({ id: 'download-center-batches', label: 'Batches', tone: 'secondary' as const });
+	}
+	items.push({ id: 'download-center-history', label: 'History', tone: 'secondary' as const });
 	if (showDetailedSections) {
 		items.push({ id: 'download-center-details', label: 'Timeline', tone: 'tertiary' as const });
 	}
@@ -78,12 +105,112 @@ export function buildDownloadCenterPollStatusLabel(options: {
 	pollingError: string | null;
 	nextPollAt: number;
 	pollCountdownSeconds: number;
+	liveUpdates?: boolean;
 }): string {
 	if (options.pollingError) {
 		return `Retry in ${options.pollCountdownSeconds}s`;
 	}
+	if (options.liveUpdates) {
+		return 'Live updates';
+	}
 	if (options.nextPollAt > 0) {
 		return `Next poll in ${options.pollCountdownSeconds}s`;
 	}
 	return 'Polling paused';
 }
+
+export function buildDownloadCenterScheduleNotice(
+	schedule: QueueScheduleStatus | null | undefined
+): string | null {
+	if (!schedule?.enabled) {
+		return null;
+	}
+	if (!schedule.withinWindow) {
+		if (!schedule.nextWindowOpensAt) {
+			return 'Outside the download window; queued jobs are on hold.';
+		}
+		const opensAt = new Date(schedule.nextWindowOpensAt);
+		return `Outside the download window; next window opens at ${opensAt.toLocaleString([], {
+			weekday: 'short',
+			hour: '2-digit',
+			minute: '2-digit'
+		})}.`;
+	}
+	if (schedule.throttled && schedule.bandwidthBudgetBytesPerSecond) {
+		return `Bandwidth budget reached (${formatFileSize(schedule.observedBytesPerSecond)}/s of ${formatFileSize(schedule.bandwidthBudgetBytesPerSecond)}/s); concurrency limited to ${schedule.effectiveMaxConcurrent}.`;
+	}
+	return null;
+}
+
+export function buildDownloadCenterBatchRows(
+	batches: QueueBatchSummary[] | null | undefined
+): DownloadCenterBatch[] {
+	if (!batches) {
+		return [];
+	}
+	return batches
+		.filter((summary) => summary.total > 0)
+		.slice(0, BATCH_ROW_LIMIT)
+		.map((summary) => {
+			const { counts } = summary;
+			const parts = [`${counts.completed}/${summary.total} done`];
+			if (counts.processing + counts.queued > 0) {
+				parts.push(`${counts.processing + counts.queued} pending`);
+			}
+			if (counts.paused > 0) parts.push(`${counts.paused} paused`);
+			if (counts.failed > 0) parts.push(`${counts.failed} failed`);
+			if (counts.cancelled > 0) parts.push(`${counts.cancelled} cancelled`);
+			return {
+				id: summary.batch.id,
+				label: summary.batch.label,
+				sourceLabel: batchSourceLabels[summary.batch.source] ?? summary.batch.source,
+				status: summary.status,
+				progressPercent: Math.round(summary.progress * 100),
+				meta: parts.join(' · '),
+				canPause: counts.processing + counts.queued > 0,
+				canResume: counts.paused > 0,
+				canCancel: counts.processing + counts.queued + counts.paused > 0,
+				canRetry: counts.failed + counts.cancelled > 0
+			};
+		});
+}
+
+const historyStatusLabels: Record<DownloadHistoryEntry['status'], string> = {
+	completed: 'Downloaded',
+	failed: 'Failed',
+	cancelled: 'Cancelled'
+};
+
+export function buildDownloadCenterHistoryRows(
+	entries: DownloadHistoryEntry[]
+): DownloadCenterHistoryRow[] {
+	return entries.map((entry) => {
+		const title =
+			entry.type === 'track'
+				? entry.trackTitle || entry.albumTitle || `Track ${entry.trackId ?? ''}`.trim()
+				: entry.albumTitle || `Album ${entry.albumId ?? ''}`.trim();
+		const qualityLabel =
+			entry.requestedQuality !== entry.quality
+				? `${entry.quality} (requested ${entry.requestedQuality}, fell back via ${entry.fallbackHistory.join(' → ')})`
+				: entry.quality;
+		const meta = [
+			entry.artistName || 'Unknown Artist',
+			entry.type === 'album' ? 'Album' : 'Track',
+			qualityLabel
+		];
+		if (typeof entry.fileSize === 'number' && entry.fileSize > 0) {
+			meta.push(formatFileSize(entry.fileSize));
+		}
+		return {
+			id: entry.id,
+			title,
+			status: entry.status,
+			statusLabel: historyStatusLabels[entry.status],
+			meta: meta.join(' • '),
+			downgraded: entry.requestedQuality !== entry.quality,
+			outputPath: entry.outputPath ?? null,
+			error: entry.error ?? null,
+			recordedAtLabel: new Date(entry.recordedAt).toLocaleString()
+		};
+	});
+}
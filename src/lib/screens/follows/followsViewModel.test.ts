@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { ArtistFollow, ArtistNewRelease } from '$lib/clients/followsClient';
+import {
+	buildFollowReleaseRows,
+	buildFollowedArtistRows,
+	toggleFollowReleaseType
+} from './followsViewModel';
+
+describe('followsViewModel', () => {
+	it('labels releases by type and queue state', () => {
+		const release: ArtistNewRelease = {
+			id: '7:2',
+			artistId: 7,
+			artistName: 'Artist',
+			albumId: 2,
+			albumTitle: 'Second',
+			releaseType: 'ep',
+			releaseDate: '2026-10-01',
+			trackCount: 5,
+			detectedAt: 1,
+			inLibrary: false,
+			queuedJobId: 'job-1'
+		};
+
+		const [row] = buildFollowReleaseRows([release]);
+
+		expect(row).toMatchObject({
+			href: '/album/2',
+			meta: 'EP • 2026-10-01 • 5 tracks',
+			statusLabel: 'Queued',
+			imageSrc: null
+		});
+		expect(
+			buildFollowReleaseRows([{ ...release, queuedJobId: undefined, inLibrary: true }])[0]
+		).toMatchObject({ statusLabel: 'In library' });
+	});
+
+	it('describes follows that have not been checked yet', () => {
+		const follow: ArtistFollow = {
+			artistId: 7,
+			artistName: 'Artist',
+			followedAt: 1,
+			rules: { autoDownload: true, quality: 'LOSSLESS', releaseTypes: ['album'] },
+			knownAlbumIds: null
+		};
+
+		expect(buildFollowedArtistRows([follow])[0]).toMatchObject({
+			href: '/artist/7',
+			meta: 'Waiting for first check',
+			autoDownload: true,
+			error: null
+		});
+	});
+
+	it('keeps at least one release type selected', () => {
+		expect(toggleFollowReleaseType(['album'], 'album')).toEqual(['album']);
+		expect(toggleFollowReleaseType(['single'], 'album')).toEqual(['album', 'single']);
+		expect(toggleFollowReleaseType(['album', 'ep'], 'album')).toEqual(['ep']);
+	});
+});
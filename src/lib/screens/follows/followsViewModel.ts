@@ -0,0 +1,116 @@
+import type { ArtistFollow, ArtistNewRelease } from '$lib/clients/followsClient';
+import {
+	resolveAlbumCoverUrl,
+	resolveArtistPictureUrl
+} from '$lib/presentation/catalogPresentation';
+import type { AudioQuality } from '$lib/types';
+import type { DiscographySection } from '$lib/utils/discography';
+
+export type FollowReleaseRow = {
+	id: string;
+	href: string;
+	title: string;
+	subtitle: string;
+	meta: string;
+	statusLabel: string;
+	imageSrc: string | null;
+};
+
+export type FollowedArtistRow = {
+	artistId: number;
+	href: string;
+	name: string;
+	meta: string;
+	imageSrc: string | null;
+	autoDownload: boolean;
+	quality: AudioQuality;
+	releaseTypes: DiscographySection[];
+	error: string | null;
+};
+
+export const FOLLOW_RELEASE_TYPE_OPTIONS: Array<{ value: DiscographySection; label: string }> = [
+	{ value: 'album', label: 'Albums' },
+	{ value: 'ep', label: 'EPs' },
+	{ value: 'single', label: 'Singles' }
+];
+
+export const FOLLOW_QUALITY_OPTIONS: Array<{ value: AudioQuality; label: string }> = [
+	{ value: 'HI_RES_LOSSLESS', label: 'Hi-Res' },
+	{ value: 'LOSSLESS', label: 'CD' },
+	{ value: 'HIGH', label: '320k' },
+	{ value: 'LOW', label: '96k' }
+];
+
+const RELEASE_TYPE_LABELS: Record<DiscographySection, string> = {
+	album: 'Album',
+	ep: 'EP',
+	single: 'Single'
+};
+
+function formatTimestamp(value: number | undefined): string {
+	if (!value || !Number.isFinite(value)) return 'Never';
+	return new Date(value).toLocaleString();
+}
+
+function resolveImage(
+	value: string | undefined,
+	resolve: (value: string) => string | null
+): string | null {
+	return typeof value === 'string' && value.trim().length > 0 ? resolve(value) : null;
+}
+
+export function buildFollowReleaseRows(releases: ArtistNewRelease[]): FollowReleaseRow[] {
+	return releases.map((release) => ({
+		id: release.id,
+		href: `/album/${release.albumId}`,
+		title: release.albumTitle,
+		subtitle: release.artistName,
+		meta: [
+			RELEASE_TYPE_LABELS[release.releaseType],
+			release.releaseDate ?? null,
+			release.trackCount ? `${release.trackCount} tracks` : null
+		]
+			.filter(Boolean)
+			.join(' • '),
+		statusLabel: release.queuedJobId
+			? 'Queued'
+			: release.queueError
+				? 'Queue failed'
+				: release.inLibrary
+					? 'In library'
+					: `Detected ${formatTimestamp(release.detectedAt)}`,
+		imageSrc: resolveImage(release.cover, (cover) => resolveAlbumCoverUrl(cover, '320'))
+	}));
+}
+
+export function buildFollowedArtistRows(follows: ArtistFollow[]): FollowedArtistRow[] {
+	return follows.map((follow) => ({
+		artistId: follow.artistId,
+		href: `/artist/${follow.artistId}`,
+		name: follow.artistName,
+		meta:
+			follow.knownAlbumIds === null
+				? 'Waiting for first check'
+				: `${follow.knownAlbumIds.length} releases known • checked ${formatTimestamp(follow.lastCheckedAt)}`,
+		imageSrc: resolveImage(follow.picture, (picture) => resolveArtistPictureUrl(picture)),
+		autoDownload: follow.rules.autoDownload,
+		quality: follow.rules.quality,
+		releaseTypes: follow.rules.releaseTypes,
+		error: follow.lastError ?? null
+	}));
+}
+
+/**
+ * Toggle a release type in a follow's rules, keeping at least one type selected.
+ */
+export function toggleFollowReleaseType(
+	current: DiscographySection[],
+	type: DiscographySection
+): DiscographySection[] {
+	if (current.includes(type)) {
+		return current.length > 1 ? current.filter((entry) => entry !== type) : current;
+	}
+	return FOLLOW_RELEASE_TYPE_OPTIONS.map((option) => option.value).filter(
+		(value) => value === type || current.includes(value)
+	);
+}
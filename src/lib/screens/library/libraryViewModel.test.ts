@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { LibraryBrowseAlbum } from '$lib/utils/mediaLibraryClient';
+import {
+	DEFAULT_LIBRARY_FILTERS,
+	buildLibraryAlbumRows,
+	buildLibraryArtistRows,
+	buildLibraryIntegrityView,
+	buildLibraryTrackRows,
+	filterLibraryAlbums,
+	sortLibraryAlbums
+} from './libraryViewModel';
+
+function album(overrides: Partial<LibraryBrowseAlbum>): LibraryBrowseAlbum {
+	return {
+		artistDir: 'Artist',
+		albumDir: 'Album',
+		artistName: 'Artist',
+		albumTitle: 'Album',
+		formats: ['FLAC'],
+		quality: 'LOSSLESS',
+		trackCount: 10,
+		sizeBytes: 1024,
+		modifiedAt: 1,
+		...overrides
+	};
+}
+
+describe('libraryViewModel', () => {
+	const albums = [
+		album({ albumDir: 'Old', albumTitle: 'Old', year: 1999, modifiedAt: 5 }),
+		album({
+			artistDir: 'Band',
+			artistName: 'Band',
+			albumTitle: 'Loud',
+			year: 2020,
+			formats: ['MP3'],
+			quality: 'HIGH',
+			trackCount: 3,
+			tidalAlbumId: 42
+		}),
+		album({ albumDir: 'Raw', albumTitle: 'Raw', quality: null, modifiedAt: 9 })
+	];
+
+	it('filters by quality, format, year and text', () => {
+		const filter = (patch: Partial<typeof DEFAULT_LIBRARY_FILTERS>) =>
+			filterLibraryAlbums(albums, { ...DEFAULT_LIBRARY_FILTERS, ...patch }).map(
+				(entry) => entry.albumTitle
+			);
+
+		expect(filter({ quality: 'HIGH' })).toEqual(['Loud']);
+		expect(filter({ quality: 'unknown' })).toEqual(['Raw']);
+		expect(filter({ format: 'FLAC', year: '1999' })).toEqual(['Old']);
+		expect(filter({ query: 'band' })).toEqual(['Loud']);
+	});
+
+	it('sorts albums and groups artists', () => {
+		expect(sortLibraryAlbums(albums, 'year').map((entry) => entry.albumTitle)).toEqual([
+			'Loud',
+			'Old',
+			'Raw'
+		]);
+		expect(sortLibraryAlbums(albums, 'added')[0].albumTitle).toBe('Raw');
+		expect(buildLibraryArtistRows(albums)).toEqual([
+			{ artistDir: 'Artist', name: 'Artist', meta: '2 albums • 20 tracks' },
+			{ artistDir: 'Band', name: 'Band', meta: '1 album • 3 tracks' }
+		]);
+	});
+
+	it('links albums to TIDAL and numbers multi-disc tracks', () => {
+		const [row] = buildLibraryAlbumRows([albums[1]]);
+		expect(row).toMatchObject({
+			key: 'Band/Album',
+			meta: '2020 • MP3 • 3 tracks • 1.0 KB',
+			qualityLabel: 'Lossy',
+			tidalHref: '/album/42'
+		});
+
+		const tracks = buildLibraryTrackRows([
+			{
+				fileId: 'file-a',
+				relativePath: 'a',
+				filename: 'a.flac',
+				title: 'A',
+				trackNo: 1,
+				discNo: 1,
+				format: 'FLAC',
+				quality: 'HI_RES_LOSSLESS',
+				bitsPerSample: 24,
+				sampleRate: 96_000,
+				sizeBytes: 2048
+			},
+			{
+				fileId: 'file-b',
+				relativePath: 'b',
+				filename: 'b.flac',
+				title: 'B',
+				trackNo: 1,
+				discNo: 2,
+				format: 'FLAC',
+				quality: null,
+				sizeBytes: 2048
+			}
+		]);
+		expect(tracks.map((track) => track.position)).toEqual(['1-01', '2-01']);
+		expect(tracks[0].meta).toBe('FLAC • 24-bit / 96 kHz • 2.0 KB');
+	});
+
+	it('summarizes integrity results', () => {
+		const view = buildLibraryIntegrityView({
+			success: true,
+			summary: { expected: 2, healthy: 1, missing: 1, corrupt: 0 },
+			tracks: [
+				{ trackId: 1, trackTitle: 'A', trackNumber: 1, status: 'healthy' },
+				{ trackId: 2, trackTitle: 'B', trackNumber: 2, status: 'missing', reason: 'No file' }
+			]
+		});
+		expect(view).toEqual({
+			status: 'problems',
+			label: '1/2 healthy • 1 missing • 0 corrupt',
+			problems: ['02 B: missing (No file)']
+		});
+		expect(buildLibraryIntegrityView({ success: false, error: 'nope' }).status).toBe('error');
+	});
+});
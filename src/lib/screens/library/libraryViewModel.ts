@@ -0,0 +1,233 @@
+import type {
+	LibraryAlbumIntegrityResult,
+	LibraryBrowseAlbum,
+	LibraryBrowseQuality,
+	LibraryBrowseTrack
+} from '$lib/utils/mediaLibraryClient';
+import { formatFileSize } from '$lib/utils/formatters';
+
+export type LibraryQualityFilter = LibraryBrowseQuality | 'all' | 'unknown';
+
+export type LibraryFilters = {
+	query: string;
+	quality: LibraryQualityFilter;
+	format: string;
+	year: string;
+};
+
+export type LibrarySort = 'artist' | 'album' | 'year' | 'added' | 'tracks';
+
+export type LibraryArtistRow = {
+	artistDir: string;
+	name: string;
+	meta: string;
+};
+
+export type LibraryAlbumRow = {
+	key: string;
+	artistDir: string;
+	albumDir: string;
+	title: string;
+	subtitle: string;
+	meta: string;
+	qualityLabel: string | null;
+	tidalHref: string | null;
+};
+
+export type LibraryTrackRow = {
+	key: string;
+	position: string;
+	title: string;
+	meta: string;
+};
+
+export type LibraryIntegrityView = {
+	status: 'healthy' | 'problems' | 'error';
+	label: string;
+	problems: string[];
+};
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+	query: '',
+	quality: 'all',
+	format: 'all',
+	year: 'all'
+};
+
+// Local lossy files are all classified as HIGH; the container can't tell 320k from 96k.
+export const LIBRARY_QUALITY_OPTIONS: Array<{ value: LibraryQualityFilter; label: string }> = [
+	{ value: 'all', label: 'Any quality' },
+	{ value: 'HI_RES_LOSSLESS', label: 'Hi-Res' },
+	{ value: 'LOSSLESS', label: 'CD' },
+	{ value: 'HIGH', label: 'Lossy' },
+	{ value: 'unknown', label: 'Untagged' }
+];
+
+export const LIBRARY_SORT_OPTIONS: Array<{ value: LibrarySort; label: string }> = [
+	{ value: 'artist', label: 'Artist' },
+	{ value: 'album', label: 'Album' },
+	{ value: 'year', label: 'Year' },
+	{ value: 'added', label: 'Recently added' },
+	{ value: 'tracks', label: 'Track count' }
+];
+
+const QUALITY_LABELS: Record<LibraryBrowseQuality, string> = {
+	HI_RES_LOSSLESS: 'Hi-Res',
+	LOSSLESS: 'CD',
+	HIGH: 'Lossy',
+	LOW: 'Lossy'
+};
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+export function filterLibraryAlbums(
+	albums: LibraryBrowseAlbum[],
+	filters: LibraryFilters
+): LibraryBrowseAlbum[] {
+	const query = filters.query.trim().toLowerCase();
+	return albums.filter((album) => {
+		if (filters.quality === 'unknown') {
+			if (album.quality !== null) return false;
+		} else if (filters.quality !== 'all' && album.quality !== filters.quality) {
+			return false;
+		}
+		if (filters.format !== 'all' && !album.formats.includes(filters.format)) return false;
+		if (filters.year !== 'all' && String(album.year ?? '') !== filters.year) return false;
+		if (query) {
+			const haystack = `${album.artistName} ${album.albumTitle}`.toLowerCase();
+			if (!haystack.includes(query)) return false;
+		}
+		return true;
+	});
+}
+
+export function sortLibraryAlbums(
+	albums: LibraryBrowseAlbum[],
+	sort: LibrarySort
+): LibraryBrowseAlbum[] {
+	const byArtist = (a: LibraryBrowseAlbum, b: LibraryBrowseAlbum) =>
+		a.artistName.localeCompare(b.artistName) || a.albumTitle.localeCompare(b.albumTitle);
+	return [...albums].sort((a, b) => {
+		switch (sort) {
+			case 'album':
+				return a.albumTitle.localeCompare(b.albumTitle) || byArtist(a, b);
+			case 'year':
+				return (b.year ?? 0) - (a.year ?? 0) || byArtist(a, b);
+			case 'added':
+				return b.modifiedAt - a.modifiedAt || byArtist(a, b);
+			case 'tracks':
+				return b.trackCount - a.trackCount || byArtist(a, b);
+			default:
+				return byArtist(a, b);
+		}
+	});
+}
+
+export function collectLibraryFilterOptions(albums: LibraryBrowseAlbum[]): {
+	formats: string[];
+	years: number[];
+} {
+	const formats = new Set<string>();
+	const years = new Set<number>();
+	for (const album of albums) {
+		album.formats.forEach((format) => formats.add(format));
+		if (album.year) years.add(album.year);
+	}
+	return {
+		formats: Array.from(formats).sort(),
+		years: Array.from(years).sort((a, b) => b - a)
+	};
+}
+
+export function buildLibraryArtistRows(albums: LibraryBrowseAlbum[]): LibraryArtistRow[] {
+	const byArtist = new Map<string, { name: string; albums: number; tracks: number }>();
+	for (const album of albums) {
+		const entry = byArtist.get(album.artistDir);
+		if (entry) {
+			entry.albums += 1;
+			entry.tracks += album.trackCount;
+			continue;
+		}
+		byArtist.set(album.artistDir, {
+			name: album.artistName,
+			albums: 1,
+			tracks: album.trackCount
+		});
+	}
+	return Array.from(byArtist.entries())
+		.map(([artistDir, entry]) => ({
+			artistDir,
+			name: entry.name,
+			meta: `${plural(entry.albums, 'album')} • ${plural(entry.tracks, 'track')}`
+		}))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function buildLibraryAlbumRows(albums: LibraryBrowseAlbum[]): LibraryAlbumRow[] {
+	return albums.map((album) => ({
+		key: `${album.artistDir}/${album.albumDir}`,
+		artistDir: album.artistDir,
+		albumDir: album.albumDir,
+		title: album.albumTitle,
+		subtitle: album.artistName,
+		meta: [
+			album.year ? String(album.year) : null,
+			album.formats.join('/'),
+			plural(album.trackCount, 'track'),
+			formatFileSize(album.sizeBytes)
+		]
+			.filter(Boolean)
+			.join(' • '),
+		qualityLabel: album.quality ? QUALITY_LABELS[album.quality] : null,
+		tidalHref: album.tidalAlbumId ? `/album/${album.tidalAlbumId}` : null
+	}));
+}
+
+function formatStreamProps(track: LibraryBrowseTrack): string | null {
+	if (!track.bitsPerSample && !track.sampleRate) return null;
+	const bits = track.bitsPerSample ? `${track.bitsPerSample}-bit` : null;
+	const rate = track.sampleRate ? `${track.sampleRate / 1000} kHz` : null;
+	return [bits, rate].filter(Boolean).join(' / ');
+}
+
+export function buildLibraryTrackRows(tracks: LibraryBrowseTrack[]): LibraryTrackRow[] {
+	const multiDisc = new Set(tracks.map((track) => track.discNo ?? 1)).size > 1;
+	return tracks.map((track) => {
+		const number = track.trackNo ? String(track.trackNo).padStart(2, '0') : '–';
+		return {
+			key: track.relativePath,
+			position: multiDisc ? `${track.discNo ?? 1}-${number}` : number,
+			title: track.title,
+			meta: [track.format, formatStreamProps(track), formatFileSize(track.sizeBytes)]
+				.filter(Boolean)
+				.join(' • ')
+		};
+	});
+}
+
+export function buildLibraryIntegrityView(
+	result: LibraryAlbumIntegrityResult
+): LibraryIntegrityView {
+	if (!result.success || !result.summary) {
+		return {
+			status: 'error',
+			label: result.error || 'Integrity check failed',
+			problems: []
+		};
+	}
+	const { expected, healthy, missing, corrupt } = result.summary;
+	const problems = (result.tracks ?? [])
+		.filter((track) => track.status !== 'healthy')
+		.map((track) => {
+			const number = track.trackNumber ? `${String(track.trackNumber).padStart(2, '0')} ` : '';
+			const reason = track.reason ? ` (${track.reason})` : '';
+			return `${number}${track.trackTitle ?? `Track ${track.trackId}`}: ${track.status}${reason}`;
+		});
+	return {
+		status: missing + corrupt === 0 ? 'healthy' : 'problems',
+		label: `${healthy}/${expected} healthy • ${missing} missing • ${corrupt} corrupt`,
+		problems
+	};
+}
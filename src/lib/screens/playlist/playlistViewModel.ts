@@ -57,7 +57,9 @@ export function buildPlaylistHeroViewModel(playlist: Playlist): DetailHeroVM {
 	};
 }
 
-export function buildPlaylistActionButtons(): ActionButtonVM[] {
+export function buildPlaylistActionButtons(options?: {
+	writingPlaylistFile?: boolean;
+}): ActionButtonVM[] {
 	return [
 		buildDetailButton({
 			id: 'play',
@@ -65,6 +67,14 @@ export function buildPlaylistActionButtons(): ActionButtonVM[] {
 			ariaLabel: 'Play playlist',
 			icon: 'play',
 			tone: 'primary'
+		}),
+		buildDetailButton({
+			id: 'write-m3u8',
+			label: options?.writingPlaylistFile ? 'Writing .m3u8…' : 'Write .m3u8',
+			ariaLabel: 'Write an .m3u8 playlist next to the downloaded files',
+			title: 'Write an .m3u8 next to the downloaded files so other players can use it',
+			disabled: options?.writingPlaylistFile,
+			busy: options?.writingPlaylistFile
 		})
 	];
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('$lib/api', () => ({
+	losslessAPI: {
+		getCoverUrl: (cover: string, size: string) => `https://covers.test/${cover}/${size}.jpg`
+	}
+}));
+
+import type { LocalPlaylistSummary } from '$lib/clients/localPlaylistsClient';
+import {
+	buildLocalPlaylistRows,
+	formatLocalPlaylistMeta,
+	moveLocalPlaylistEntry
+} from './playlistsViewModel';
+
+describe('playlistsViewModel', () => {
+	it('builds rows with track counts, duration and cover', () => {
+		const playlist: LocalPlaylistSummary = {
+			id: 'playlist-1',
+			name: 'Road trip',
+			createdAt: 1,
+			updatedAt: 2,
+			trackCount: 12,
+			durationSeconds: 3_900,
+			cover: 'abc-def'
+		};
+
+		const [row] = buildLocalPlaylistRows([playlist]);
+
+		expect(row).toMatchObject({
+			href: '/playlists/playlist-1',
+			name: 'Road trip',
+			imageSrc: 'https://covers.test/abc-def/320.jpg'
+		});
+		expect(row.meta).toMatch(/^12 tracks • 1 hr 5 min • Updated /);
+		expect(formatLocalPlaylistMeta(0, 0)).toBe('0 tracks');
+		expect(formatLocalPlaylistMeta(1, 200)).toBe('1 track • 3 min');
+	});
+
+	it('moves entries within bounds only', () => {
+		expect(moveLocalPlaylistEntry(['a', 'b', 'c'], 2, -1)).toEqual(['a', 'c', 'b']);
+		expect(moveLocalPlaylistEntry(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c']);
+		expect(moveLocalPlaylistEntry(['a', 'b', 'c'], 0, -1)).toEqual(['a', 'b', 'c']);
+		expect(moveLocalPlaylistEntry(['a', 'b', 'c'], 2, 1)).toEqual(['a', 'b', 'c']);
+	});
+});
@@ -0,0 +1,48 @@
+import type { LocalPlaylistSummary } from '$lib/clients/localPlaylistsClient';
+import {
+	formatPlaylistDurationLabel,
+	resolveAlbumCoverUrl
+} from '$lib/presentation/catalogPresentation';
+
+export type LocalPlaylistRow = {
+	id: string;
+	href: string;
+	name: string;
+	meta: string;
+	imageSrc: string | null;
+};
+
+export function localPlaylistHref(id: string): string {
+	return `/playlists/${encodeURIComponent(id)}`;
+}
+
+export function formatLocalPlaylistMeta(trackCount: number, durationSeconds: number): string {
+	const tracks = `${trackCount} track${trackCount === 1 ? '' : 's'}`;
+	return trackCount > 0 ? `${tracks} • ${formatPlaylistDurationLabel(durationSeconds)}` : tracks;
+}
+
+export function buildLocalPlaylistRows(playlists: LocalPlaylistSummary[]): LocalPlaylistRow[] {
+	return playlists.map((playlist) => ({
+		id: playlist.id,
+		href: localPlaylistHref(playlist.id),
+		name: playlist.name,
+		meta: `${formatLocalPlaylistMeta(playlist.trackCount, playlist.durationSeconds)} • Updated ${new Date(playlist.updatedAt).toLocaleDateString()}`,
+		imageSrc: playlist.cover ? resolveAlbumCoverUrl(playlist.cover, '320') : null
+	}));
+}
+
+/** Entry ids after moving the entry at `index` by `offset`; unchanged when out of range. */
+export function moveLocalPlaylistEntry(
+	entryIds: string[],
+	index: number,
+	offset: number
+): string[] {
+	const target = index + offset;
+	if (index < 0 || index >= entryIds.length || target < 0 || target >= entryIds.length) {
+		return entryIds;
+	}
+	const next = [...entryIds];
+	const [moved] = next.splice(index, 1);
+	next.splice(target, 0, moved);
+	return next;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { QueuedJob } from './downloadQueueTypes';
+import { buildOpenApiDocument, readApiV1Body, toApiV1Job } from './apiV1';
+import { ApiV1EnqueueRequestSchema } from '$lib/utils/schemas';
+
+const jsonRequest = (body: unknown) =>
+	new Request('http://localhost/api/v1/jobs', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	});
+
+describe('apiV1', () => {
+	it('maps queue records to the public job shape', () => {
+		const queued: QueuedJob = {
+			id: 'job-1',
+			job: {
+				type: 'track',
+				trackId: 42,
+				quality: 'LOSSLESS',
+				trackTitle: 'One',
+				targetFolders: { artistDir: 'Mix', albumDir: 'Mix' }
+			},
+			status: 'processing',
+			progress: 0.5,
+			createdAt: 1,
+			retryCount: 2,
+			priority: 'high'
+		};
+
+		expect(toApiV1Job(queued)).toEqual({
+			id: 'job-1',
+			status: 'processing',
+			progress: 0.5,
+			job: { type: 'track', trackId: 42, quality: 'LOSSLESS', trackTitle: 'One' },
+			createdAt: 1
+		});
+	});
+
+	it('validates request bodies with the shared schemas', async () => {
+		const valid = await readApiV1Body(
+			jsonRequest({ job: { type: 'album', albumId: 7, quality: 'HI_RES_LOSSLESS' } }),
+			ApiV1EnqueueRequestSchema
+		);
+		expect(valid).toEqual({
+			ok: true,
+			data: { job: { type: 'album', albumId: 7, quality: 'HI_RES_LOSSLESS' } }
+		});
+
+		const invalid = await readApiV1Body(
+			jsonRequest({ job: { type: 'track', trackId: 'x', quality: 'BEST' } }),
+			ApiV1EnqueueRequestSchema
+		);
+		expect(invalid.ok).toBe(false);
+		expect(!invalid.ok && invalid.error).toMatch(/job\.trackId/);
+	});
+
+	it('generates the OpenAPI document from the schemas', () => {
+		const document = buildOpenApiDocument('https://music.example') as {
+			servers: Array<{ url: string }>;
+			paths: Record<string, Record<string, { description: string }>>;
+			components: { schemas: Record<string, Record<string, unknown>> };
+		};
+
+		expect(document.servers).toEqual([{ url: 'https://music.example/api/v1' }]);
+		expect(Object.keys(document.paths)).toEqual([
+			'/jobs',
+			'/jobs/{jobId}',
+			'/jobs/{jobId}/cancel',
+			'/library/status',
+			'/library/scan'
+		]);
+		expect(document.paths['/jobs'].post.description).toContain('queue:write');
+
+		const { schemas } = document.components;
+		expect(schemas.TrackJob).toMatchObject({
+			type: 'object',
+			required: expect.arrayContaining(['type', 'trackId', 'quality'])
+		});
+		expect(schemas.TrackJob).not.toHaveProperty('$schema');
+		expect(JSON.stringify(schemas.EnqueueRequest)).toContain('#/components/schemas/TrackJob');
+	});
+});
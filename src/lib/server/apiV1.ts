@@ -0,0 +1,229 @@
+/**
+ * Versioned API for scripts (cron jobs, Home Assistant and the like).
+ *
+ * Request and response bodies are the `ApiV1*` zod schemas in `$lib/utils/schemas`, which
+ * also generate the OpenAPI document served at `/api/v1/openapi.json`. Jobs are mapped to
+ * a fixed public shape so internal queue fields can change without breaking callers.
+ */
+
+import { z } from 'zod';
+import {
+	ApiV1AlbumJobSchema,
+	ApiV1DownloadJobSchema,
+	ApiV1EnqueueRequestSchema,
+	ApiV1ErrorSchema,
+	ApiV1JobListResponseSchema,
+	ApiV1JobResponseSchema,
+	ApiV1JobSchema,
+	ApiV1LibraryScanResponseSchema,
+	ApiV1LibraryStatusRequestSchema,
+	ApiV1LibraryStatusResponseSchema,
+	ApiV1TrackJobSchema,
+	type ApiV1Job
+} from '$lib/utils/schemas';
+import { API_TOKEN_SCOPE_ROLES, type ApiTokenScope } from './auth';
+import type { QueuedJob } from './downloadQueueTypes';
+
+export const API_V1_BASE_PATH = '/api/v1';
+const MAX_REPORTED_ISSUES = 3;
+
+export function toApiV1Job(queued: QueuedJob): ApiV1Job {
+	// Parsing drops internal fields such as target folders
+	const parsed = ApiV1DownloadJobSchema.safeParse(queued.job);
+	const job = parsed.success
+		? parsed.data
+		: queued.job.type === 'track'
+			? { type: 'track' as const, trackId: queued.job.trackId, quality: queued.job.quality }
+			: { type: 'album' as const, albumId: queued.job.albumId, quality: queued.job.quality };
+	return {
+		id: queued.id,
+		status: queued.status,
+		progress: Math.min(1, Math.max(0, queued.progress || 0)),
+		job,
+		error: queued.error,
+		createdAt: queued.createdAt,
+		startedAt: queued.startedAt,
+		completedAt: queued.completedAt,
+		trackCount: queued.trackCount,
+		completedTracks: queued.completedTracks,
+		outputPath: queued.outputPath
+	};
+}
+
+/** Parse a JSON body against a schema, with a short message naming the bad fields. */
+export async function readApiV1Body<T>(
+	request: Request,
+	schema: z.ZodType<T>
+): Promise<{ ok: true; data: T } | { ok: false; error: string }> {
+	const body: unknown = await request.json().catch(() => undefined);
+	const result = schema.safeParse(body);
+	if (result.success) {
+		return { ok: true, data: result.data };
+	}
+	const error = result.error.issues
+		.slice(0, MAX_REPORTED_ISSUES)
+		.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+		.join('; ');
+	return { ok: false, error };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAPI
+// ---------------------------------------------------------------------------
+
+const COMPONENT_SCHEMAS: Record<string, z.ZodType> = {
+	TrackJob: ApiV1TrackJobSchema,
+	AlbumJob: ApiV1AlbumJobSchema,
+	EnqueueRequest: ApiV1EnqueueRequestSchema,
+	Job: ApiV1JobSchema,
+	JobResponse: ApiV1JobResponseSchema,
+	JobListResponse: ApiV1JobListResponseSchema,
+	LibraryStatusRequest: ApiV1LibraryStatusRequestSchema,
+	LibraryStatusResponse: ApiV1LibraryStatusResponseSchema,
+	LibraryScanResponse: ApiV1LibraryScanResponseSchema,
+	Error: ApiV1ErrorSchema
+};
+
+type OpenApiOperation = {
+	summary: string;
+	scope: ApiTokenScope;
+	requestBody?: string;
+	response: string;
+	parameters?: Array<Record<string, unknown>>;
+	notFound?: string;
+};
+
+function stripDocumentKeys(schema: object): Record<string, unknown> {
+	const rest: Record<string, unknown> = { ...schema };
+	delete rest.$schema;
+	delete rest.$id;
+	return rest;
+}
+
+let componentsCache: Record<string, unknown> | null = null;
+
+function buildComponentSchemas(): Record<string, unknown> {
+	if (componentsCache) {
+		return componentsCache;
+	}
+	const registry = z.registry<{ id: string }>();
+	for (const [id, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+		registry.add(schema, { id });
+	}
+	const { schemas } = z.toJSONSchema(registry, {
+		io: 'input',
+		uri: (id) => `#/components/schemas/${id}`
+	});
+	// OpenAPI components are plain schemas, without the standalone document keys
+	componentsCache = Object.fromEntries(
+		Object.entries(schemas).map(([id, schema]) => [id, stripDocumentKeys(schema)])
+	);
+	return componentsCache;
+}
+
+const schemaRef = (id: string) => ({
+	'application/json': { schema: { $ref: `#/components/schemas/${id}` } }
+});
+
+const errorResponse = (description: string) => ({ description, content: schemaRef('Error') });
+
+function operation(input: OpenApiOperation): Record<string, unknown> {
+	return {
+		summary: input.summary,
+		description: `API tokens need the \`${input.scope}\` scope, owned by a ${API_TOKEN_SCOPE_ROLES[input.scope]} or above.`,
+		...(input.parameters ? { parameters: input.parameters } : {}),
+		...(input.requestBody
+			? { requestBody: { required: true, content: schemaRef(input.requestBody) } }
+			: {}),
+		responses: {
+			200: { description: 'OK', content: schemaRef(input.response) },
+			400: errorResponse('Invalid request'),
+			401: errorResponse('Missing or invalid token'),
+			403: errorResponse('Missing role or scope'),
+			...(input.notFound ? { 404: errorResponse(input.notFound) } : {})
+		}
+	};
+}
+
+const jobIdParameter = {
+	name: 'jobId',
+	in: 'path',
+	required: true,
+	schema: { type: 'string' }
+};
+
+/** The OpenAPI 3.1 document for the v1 routes, served from `origin`. */
+export function buildOpenApiDocument(origin: string): Record<string, unknown> {
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'TIDAL UI download API',
+			version: '1.0.0',
+			description:
+				'Queue downloads and check the local library from scripts. Create an API token in ' +
+				'Settings and send it as a bearer token.'
+		},
+		servers: [{ url: `${origin}${API_V1_BASE_PATH}` }],
+		security: [{ bearerAuth: [] }],
+		components: {
+			securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+			schemas: buildComponentSchemas()
+		},
+		paths: {
+			'/jobs': {
+				get: operation({
+					summary: 'List queued, running and finished jobs',
+					scope: 'queue:read',
+					response: 'JobListResponse',
+					parameters: [
+						{
+							name: 'status',
+							in: 'query',
+							required: false,
+							schema: stripDocumentKeys(z.toJSONSchema(ApiV1JobSchema.shape.status))
+						}
+					]
+				}),
+				post: operation({
+					summary: 'Queue a track or album download',
+					scope: 'queue:write',
+					requestBody: 'EnqueueRequest',
+					response: 'JobResponse'
+				})
+			},
+			'/jobs/{jobId}': {
+				get: operation({
+					summary: 'Read one job',
+					scope: 'queue:read',
+					response: 'JobResponse',
+					parameters: [jobIdParameter],
+					notFound: 'Job not found'
+				})
+			},
+			'/jobs/{jobId}/cancel': {
+				post: operation({
+					summary: 'Cancel a queued or running job',
+					scope: 'queue:write',
+					response: 'JobResponse',
+					parameters: [jobIdParameter],
+					notFound: 'Job not found'
+				})
+			},
+			'/library/status': {
+				post: operation({
+					summary: 'Check which albums are already in the local library',
+					scope: 'queue:read',
+					requestBody: 'LibraryStatusRequest',
+					response: 'LibraryStatusResponse'
+				})
+			},
+			'/library/scan': {
+				post: operation({
+					summary: 'Rescan the local library',
+					scope: 'library:maintain',
+					response: 'LibraryScanResponse'
+				})
+			}
+		}
+	};
+}
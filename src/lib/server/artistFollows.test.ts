@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Album } from '$lib/types';
+
+const mocks = vi.hoisted(() => ({
+	checkAlbumInLibrary: vi.fn(),
+	enqueueJob: vi.fn()
+}));
+
+vi.mock('node:fs/promises', () => ({
+	readFile: vi.fn(async () => {
+		throw new Error('ENOENT');
+	}),
+	writeFile: vi.fn(async () => undefined),
+	mkdir: vi.fn(async () => undefined)
+}));
+vi.mock('./mediaLibraryLookup', () => ({
+	checkAlbumInLibrary: mocks.checkAlbumInLibrary
+}));
+vi.mock('./downloadQueueManager', () => ({
+	enqueueJob: mocks.enqueueJob
+}));
+vi.mock('./catalogBoundary', () => ({
+	fetchCatalogArtist: vi.fn()
+}));
+vi.mock('./tidalOfficialCatalog', () => ({
+	fetchOfficialArtistAlbums: vi.fn(),
+	isTidalOfficialApiConfigured: () => false
+}));
+
+import {
+	__test,
+	checkFollowedArtists,
+	followArtist,
+	getArtistFollow,
+	listArtistNewReleases,
+	normalizeFollowRules,
+	unfollowArtist,
+	updateArtistFollowRules
+} from './artistFollows';
+
+function createAlbum(id: number, title: string, type = 'ALBUM'): Album {
+	return {
+		id,
+		title,
+		cover: '',
+		videoCover: null,
+		type,
+		numberOfTracks: type === 'SINGLE' ? 1 : 10,
+		artist: { id: 7, name: 'Artist', type: 'MAIN' }
+	} as Album;
+}
+
+describe('artistFollows', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		__test.resetState();
+		mocks.checkAlbumInLibrary.mockResolvedValue({
+			exists: false,
+			matchedTracks: 0,
+			samplePaths: []
+		});
+		mocks.enqueueJob.mockResolvedValue('job-1');
+	});
+
+	it('validates rule patches on top of the existing rules', () => {
+		const base = {
+			autoDownload: false,
+			quality: 'LOSSLESS' as const,
+			releaseTypes: ['album' as const]
+		};
+		expect(normalizeFollowRules({ autoDownload: true }, base)).toEqual({
+			ok: true,
+			rules: { autoDownload: true, quality: 'LOSSLESS', releaseTypes: ['album'] }
+		});
+		expect(normalizeFollowRules({ releaseTypes: ['single', 'album'] }, base)).toMatchObject({
+			ok: true,
+			rules: { releaseTypes: ['album', 'single'] }
+		});
+		expect(normalizeFollowRules({ quality: 'ULTRA' }, base).ok).toBe(false);
+		expect(normalizeFollowRules({ releaseTypes: [] }, base).ok).toBe(false);
+	});
+
+	it('seeds the snapshot on the first check and reports later releases', async () => {
+		await followArtist({ artistId: 7, artistName: 'Artist' });
+		const fetchDiscography = vi
+			.fn()
+			.mockResolvedValueOnce([createAlbum(1, 'Debut')])
+			.mockResolvedValueOnce([
+				createAlbum(1, 'Debut'),
+				createAlbum(2, 'Second'),
+				createAlbum(3, 'Radio Edit', 'SINGLE')
+			]);
+
+		const [first] = await checkFollowedArtists({ fetchDiscography });
+		expect(first.newReleases).toEqual([]);
+
+		const [second] = await checkFollowedArtists({ fetchDiscography });
+		expect(second.newReleases).toEqual([
+			expect.objectContaining({ albumId: 2, releaseType: 'album', inLibrary: false })
+		]);
+		expect(second.queued).toBe(0);
+		expect(mocks.enqueueJob).not.toHaveBeenCalled();
+		expect(await listArtistNewReleases()).toHaveLength(1);
+	});
+
+	it('auto-enqueues new releases that are missing from the library', async () => {
+		await followArtist({
+			artistId: 7,
+			artistName: 'Artist',
+			rules: { autoDownload: true, quality: 'HI_RES_LOSSLESS', releaseTypes: ['album', 'single'] }
+		});
+		mocks.checkAlbumInLibrary.mockImplementation(async ({ albumTitle }) => ({
+			exists: albumTitle === 'Owned',
+			matchedTracks: 0,
+			samplePaths: []
+		}));
+		const fetchDiscography = vi
+			.fn()
+			.mockResolvedValueOnce([])
+			.mockResolvedValueOnce([createAlbum(2, 'Owned'), createAlbum(3, 'Fresh', 'SINGLE')]);
+
+		await checkFollowedArtists({ fetchDiscography });
+		const [result] = await checkFollowedArtists({ fetchDiscography });
+
+		expect(result.queued).toBe(1);
+		expect(mocks.enqueueJob).toHaveBeenCalledWith(
+			expect.objectContaining({ type: 'album', albumId: 3, quality: 'HI_RES_LOSSLESS' }),
+			expect.objectContaining({ checkDuplicate: true })
+		);
+		expect(result.newReleases).toEqual([
+			expect.objectContaining({ albumId: 2, inLibrary: true }),
+			expect.objectContaining({ albumId: 3, inLibrary: false, queuedJobId: 'job-1' })
+		]);
+
+		expect(await unfollowArtist(7)).toBe(true);
+		expect(await listArtistNewReleases()).toEqual([]);
+	});
+
+	it('records queue failures on the follow and retries them on the next check', async () => {
+		await followArtist({
+			artistId: 7,
+			artistName: 'Artist',
+			rules: { autoDownload: true, quality: 'LOSSLESS', releaseTypes: ['album'] }
+		});
+		mocks.enqueueJob.mockRejectedValueOnce(new Error('queue unavailable'));
+		const fetchDiscography = vi
+			.fn()
+			.mockResolvedValueOnce([])
+			.mockResolvedValue([createAlbum(2, 'Second'), createAlbum(3, 'Third')]);
+
+		await checkFollowedArtists({ fetchDiscography });
+		const [failed] = await checkFollowedArtists({ fetchDiscography });
+		expect(failed.queued).toBe(1);
+		expect(failed.error).toMatch(/Could not queue 1 new release\(s\): queue unavailable/);
+		expect(failed.newReleases[0]).toMatchObject({ albumId: 2, queueError: 'queue unavailable' });
+
+		const [retried] = await checkFollowedArtists({ fetchDiscography });
+		expect(retried.error).toBeUndefined();
+		expect(retried.newReleases).toEqual([
+			expect.objectContaining({ albumId: 2, queuedJobId: 'job-1' })
+		]);
+	});
+
+	it('runs a manual check after the one already in progress', async () => {
+		await followArtist({ artistId: 7, artistName: 'Artist' });
+		let releaseFirst: () => void = () => undefined;
+		const order: string[] = [];
+		const fetchDiscography = vi
+			.fn()
+			.mockImplementationOnce(async () => {
+				order.push('first:start');
+				await new Promise<void>((resolve) => (releaseFirst = resolve));
+				order.push('first:end');
+				return [];
+			})
+			.mockImplementationOnce(async () => {
+				order.push('second');
+				return [];
+			});
+
+		const first = checkFollowedArtists({ fetchDiscography });
+		const second = checkFollowedArtists({ fetchDiscography });
+		await vi.waitFor(() => expect(order).toEqual(['first:start']));
+		releaseFirst();
+		await Promise.all([first, second]);
+
+		expect(order).toEqual(['first:start', 'first:end', 'second']);
+	});
+
+	it('keeps rule changes made while a check is running', async () => {
+		await followArtist({ artistId: 7, artistName: 'Artist' });
+		let releaseFetch: () => void = () => undefined;
+		const fetchDiscography = vi.fn().mockImplementationOnce(async () => {
+			await new Promise<void>((resolve) => (releaseFetch = resolve));
+			return [createAlbum(1, 'Debut')];
+		});
+
+		const check = checkFollowedArtists({ fetchDiscography });
+		await vi.waitFor(() => expect(fetchDiscography).toHaveBeenCalled());
+		const rules = {
+			autoDownload: true,
+			quality: 'HI_RES_LOSSLESS' as const,
+			releaseTypes: ['album' as const]
+		};
+		await updateArtistFollowRules(7, rules);
+		releaseFetch();
+		await check;
+
+		expect(await getArtistFollow(7)).toMatchObject({ rules, knownAlbumIds: [1] });
+	});
+});
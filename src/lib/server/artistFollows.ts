@@ -0,0 +1,543 @@
+/**
+ * Followed artists and new-release detection.
+ *
+ * Each follow keeps a snapshot of the album IDs seen on its last check. The poller
+ * diffs the current discography against that snapshot, records unseen releases in
+ * a feed, and optionally enqueues them according to the follow's rules. The first
+ * check of a new follow only seeds the snapshot so the back catalog is not reported.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Album, AudioQuality } from '$lib/types';
+import { getDiscographyTraits, type DiscographySection } from '$lib/utils/discography';
+import { fetchCatalogArtist } from './catalogBoundary';
+import { enqueueJob } from './downloadQueueManager';
+import { checkAlbumInLibrary } from './mediaLibraryLookup';
+import { getConnectedRedis } from './redis';
+import { fetchOfficialArtistAlbums, isTidalOfficialApiConfigured } from './tidalOfficialCatalog';
+
+export type ArtistFollowRules = {
+	autoDownload: boolean;
+	quality: AudioQuality;
+	releaseTypes: DiscographySection[];
+};
+
+export type ArtistFollow = {
+	artistId: number;
+	artistName: string;
+	picture?: string;
+	followedAt: number;
+	rules: ArtistFollowRules;
+	/** Album IDs seen on the last successful check; null until the first check. */
+	knownAlbumIds: number[] | null;
+	lastCheckedAt?: number;
+	lastError?: string;
+};
+
+export type ArtistNewRelease = {
+	id: string;
+	artistId: number;
+	artistName: string;
+	albumId: number;
+	albumTitle: string;
+	releaseType: DiscographySection;
+	releaseDate?: string;
+	cover?: string;
+	trackCount?: number;
+	detectedAt: number;
+	inLibrary: boolean;
+	queuedJobId?: string;
+	/** Why auto-download couldn't queue the release; the next check tries again. */
+	queueError?: string;
+};
+
+export type ArtistFollowCheckResult = {
+	artistId: number;
+	checkedAt: number;
+	newReleases: ArtistNewRelease[];
+	queued: number;
+	error?: string;
+};
+
+type FollowState = {
+	follows: ArtistFollow[];
+	releases: ArtistNewRelease[];
+};
+
+type DiscographyFetcher = (artistId: number) => Promise<Album[]>;
+
+const FOLLOWS_KEY = 'tidal:artistFollows';
+const FOLLOWS_STATE_FILE = path.join(process.cwd(), 'data', 'artist-follows.v1.json');
+const RELEASE_FEED_LIMIT = Math.max(
+	20,
+	Number(process.env.ARTIST_FOLLOW_RELEASE_FEED_LIMIT || 200)
+);
+const POLL_INTERVAL_MS = Math.max(
+	0,
+	Number(process.env.ARTIST_FOLLOW_POLL_INTERVAL_MS || 6 * 60 * 60 * 1000)
+);
+const ALLOWED_QUALITIES: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+const ALLOWED_RELEASE_TYPES: DiscographySection[] = ['album', 'ep', 'single'];
+const DEFAULT_RULES: ArtistFollowRules = {
+	autoDownload: false,
+	quality: 'LOSSLESS',
+	releaseTypes: ['album', 'ep']
+};
+const logPrefix = '[Artist Follows]';
+
+let cachedState: FollowState | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+// The running check, scheduled or manual; checks never overlap
+let activePoll: Promise<ArtistFollowCheckResult[]> | null = null;
+
+/**
+ * Validate an untrusted rules patch (API body or persisted state) on top of `base`.
+ */
+export function normalizeFollowRules(
+	input: unknown,
+	base: ArtistFollowRules = DEFAULT_RULES
+): { ok: true; rules: ArtistFollowRules } | { ok: false; error: string } {
+	if (input === undefined || input === null) {
+		return { ok: true, rules: { ...base, releaseTypes: [...base.releaseTypes] } };
+	}
+	if (typeof input !== 'object') {
+		return { ok: false, error: 'rules must be an object' };
+	}
+	const candidate = input as Record<string, unknown>;
+	if (candidate.autoDownload !== undefined && typeof candidate.autoDownload !== 'boolean') {
+		return { ok: false, error: 'rules.autoDownload must be a boolean' };
+	}
+	if (
+		candidate.quality !== undefined &&
+		!ALLOWED_QUALITIES.includes(candidate.quality as AudioQuality)
+	) {
+		return { ok: false, error: `rules.quality must be one of: ${ALLOWED_QUALITIES.join(', ')}` };
+	}
+	if (candidate.releaseTypes !== undefined) {
+		if (
+			!Array.isArray(candidate.releaseTypes) ||
+			candidate.releaseTypes.length === 0 ||
+			candidate.releaseTypes.some(
+				(type) => !ALLOWED_RELEASE_TYPES.includes(type as DiscographySection)
+			)
+		) {
+			return {
+				ok: false,
+				error: `rules.releaseTypes must be a non-empty subset of: ${ALLOWED_RELEASE_TYPES.join(', ')}`
+			};
+		}
+	}
+	return {
+		ok: true,
+		rules: {
+			autoDownload: (candidate.autoDownload as boolean | undefined) ?? base.autoDownload,
+			quality: (candidate.quality as AudioQuality | undefined) ?? base.quality,
+			releaseTypes: candidate.releaseTypes
+				? ALLOWED_RELEASE_TYPES.filter((type) =>
+						(candidate.releaseTypes as string[]).includes(type)
+					)
+				: [...base.releaseTypes]
+		}
+	};
+}
+
+function parseState(payload: unknown): FollowState | null {
+	if (!payload || typeof payload !== 'object') return null;
+	const candidate = payload as Partial<FollowState>;
+	return {
+		follows: Array.isArray(candidate.follows) ? candidate.follows : [],
+		releases: Array.isArray(candidate.releases) ? candidate.releases : []
+	};
+}
+
+async function readState(): Promise<FollowState> {
+	if (cachedState) {
+		return cachedState;
+	}
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const raw = await client.get(FOLLOWS_KEY);
+			const parsed = raw ? parseState(JSON.parse(raw)) : null;
+			if (parsed) {
+				cachedState = parsed;
+				return parsed;
+			}
+		} catch (error) {
+			console.warn(`${logPrefix} Redis read failed:`, error);
+		}
+	}
+
+	try {
+		const raw = await fs.readFile(FOLLOWS_STATE_FILE, 'utf8');
+		const payload = JSON.parse(raw) as { version?: number } & Partial<FollowState>;
+		cachedState = (payload?.version === 1 ? parseState(payload) : null) ?? {
+			follows: [],
+			releases: []
+		};
+	} catch {
+		// No persisted follows yet.
+		cachedState = { follows: [], releases: [] };
+	}
+	return cachedState;
+}
+
+async function writeState(state: FollowState): Promise<void> {
+	cachedState = state;
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			await client.set(FOLLOWS_KEY, JSON.stringify(state));
+		} catch (error) {
+			console.warn(`${logPrefix} Redis write failed, using local state:`, error);
+		}
+	}
+	try {
+		await fs.mkdir(path.dirname(FOLLOWS_STATE_FILE), { recursive: true });
+		await fs.writeFile(
+			FOLLOWS_STATE_FILE,
+			JSON.stringify({ version: 1, savedAt: Date.now(), ...state }, null, 2)
+		);
+	} catch (error) {
+		console.warn(`${logPrefix} Failed to persist follow state:`, error);
+	}
+}
+
+export async function listArtistFollows(): Promise<ArtistFollow[]> {
+	const state = await readState();
+	return [...state.follows].sort((a, b) => a.artistName.localeCompare(b.artistName));
+}
+
+export async function getArtistFollow(artistId: number): Promise<ArtistFollow | null> {
+	const state = await readState();
+	return state.follows.find((follow) => follow.artistId === artistId) ?? null;
+}
+
+/**
+ * Follow an artist, or update the name/picture/rules of an existing follow.
+ */
+export async function followArtist(input: {
+	artistId: number;
+	artistName: string;
+	picture?: string;
+	rules?: ArtistFollowRules;
+}): Promise<ArtistFollow> {
+	const state = await readState();
+	const existing = state.follows.find((follow) => follow.artistId === input.artistId);
+	const follow: ArtistFollow = existing
+		? {
+				...existing,
+				artistName: input.artistName,
+				picture: input.picture ?? existing.picture,
+				rules: input.rules ?? existing.rules
+			}
+		: {
+				artistId: input.artistId,
+				artistName: input.artistName,
+				picture: input.picture,
+				followedAt: Date.now(),
+				rules: input.rules ?? { ...DEFAULT_RULES, releaseTypes: [...DEFAULT_RULES.releaseTypes] },
+				knownAlbumIds: null
+			};
+	await writeState({
+		...state,
+		follows: [...state.follows.filter((entry) => entry.artistId !== input.artistId), follow]
+	});
+	return follow;
+}
+
+export async function updateArtistFollowRules(
+	artistId: number,
+	rules: ArtistFollowRules
+): Promise<ArtistFollow | null> {
+	const state = await readState();
+	const existing = state.follows.find((follow) => follow.artistId === artistId);
+	if (!existing) {
+		return null;
+	}
+	const updated = { ...existing, rules };
+	await writeState({
+		...state,
+		follows: state.follows.map((follow) => (follow.artistId === artistId ? updated : follow))
+	});
+	return updated;
+}
+
+export async function unfollowArtist(artistId: number): Promise<boolean> {
+	const state = await readState();
+	if (!state.follows.some((follow) => follow.artistId === artistId)) {
+		return false;
+	}
+	await writeState({
+		follows: state.follows.filter((follow) => follow.artistId !== artistId),
+		releases: state.releases.filter((release) => release.artistId !== artistId)
+	});
+	return true;
+}
+
+export async function listArtistNewReleases(options?: {
+	artistId?: number;
+	limit?: number;
+}): Promise<ArtistNewRelease[]> {
+	const state = await readState();
+	const releases =
+		options?.artistId !== undefined
+			? state.releases.filter((release) => release.artistId === options.artistId)
+			: state.releases;
+	return releases.slice(0, options?.limit ?? RELEASE_FEED_LIMIT);
+}
+
+/**
+ * Merge the proxy catalog discography with the official one when credentials exist.
+ * The official endpoint skips singles, so the catalog stays the primary source.
+ */
+async function fetchFollowedArtistDiscography(artistId: number): Promise<Album[]> {
+	const [catalog, official] = await Promise.allSettled([
+		fetchCatalogArtist(artistId).then((artist) => artist.albums),
+		isTidalOfficialApiConfigured() ? fetchOfficialArtistAlbums(artistId) : Promise.resolve([])
+	]);
+	if (catalog.status === 'rejected' && official.status === 'rejected') {
+		throw catalog.reason;
+	}
+	const merged = new Map<number, Album>();
+	for (const album of [
+		...(catalog.status === 'fulfilled' ? catalog.value : []),
+		...(official.status === 'fulfilled' ? official.value : [])
+	]) {
+		if (Number.isFinite(album.id) && album.id > 0 && !merged.has(album.id)) {
+			merged.set(album.id, album);
+		}
+	}
+	if (merged.size === 0 && catalog.status === 'rejected') {
+		throw catalog.reason;
+	}
+	return Array.from(merged.values());
+}
+
+async function checkFollow(
+	follow: ArtistFollow,
+	fetchDiscography: DiscographyFetcher
+): Promise<{ follow: ArtistFollow; result: ArtistFollowCheckResult }> {
+	const checkedAt = Date.now();
+	let albums: Album[];
+	try {
+		albums = await fetchDiscography(follow.artistId);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return {
+			follow: { ...follow, lastCheckedAt: checkedAt, lastError: message },
+			result: { artistId: follow.artistId, checkedAt, newReleases: [], queued: 0, error: message }
+		};
+	}
+
+	const albumIds = albums.map((album) => album.id);
+	if (follow.knownAlbumIds === null) {
+		return {
+			follow: {
+				...follow,
+				knownAlbumIds: albumIds,
+				lastCheckedAt: checkedAt,
+				lastError: undefined
+			},
+			result: { artistId: follow.artistId, checkedAt, newReleases: [], queued: 0 }
+		};
+	}
+
+	const known = new Set(follow.knownAlbumIds);
+	const newReleases: ArtistNewRelease[] = [];
+	// Releases that couldn't be queued stay out of the snapshot so the next check retries them
+	const unqueuedAlbumIds = new Set<number>();
+	let queued = 0;
+	for (const album of albums) {
+		if (known.has(album.id)) continue;
+		const releaseType = getDiscographyTraits(album).releaseType;
+		if (!follow.rules.releaseTypes.includes(releaseType)) continue;
+
+		const library = await checkAlbumInLibrary({
+			tidalAlbumId: album.id,
+			artistName: album.artist?.name ?? follow.artistName,
+			albumTitle: album.title,
+			expectedTrackCount: album.numberOfTracks
+		}).catch(() => ({ exists: false }));
+		const release: ArtistNewRelease = {
+			id: `${follow.artistId}:${album.id}`,
+			artistId: follow.artistId,
+			artistName: album.artist?.name ?? follow.artistName,
+			albumId: album.id,
+			albumTitle: album.title,
+			releaseType,
+			releaseDate: album.releaseDate,
+			cover: album.cover,
+			trackCount: album.numberOfTracks,
+			detectedAt: checkedAt,
+			inLibrary: library.exists
+		};
+		if (follow.rules.autoDownload && !library.exists) {
+			try {
+				release.queuedJobId = await enqueueJob(
+					{
+						type: 'album',
+						albumId: album.id,
+						quality: follow.rules.quality,
+						albumTitle: album.title,
+						artistName: release.artistName,
+						trackCount: album.numberOfTracks
+					},
+					{ checkDuplicate: true }
+				);
+				queued += 1;
+			} catch (error) {
+				release.queueError = error instanceof Error ? error.message : String(error);
+				unqueuedAlbumIds.add(album.id);
+				console.warn(
+					`${logPrefix} Failed to queue ${follow.artistId}:${album.id}:`,
+					release.queueError
+				);
+			}
+		}
+		newReleases.push(release);
+	}
+
+	const queueError =
+		unqueuedAlbumIds.size > 0
+			? `Could not queue ${unqueuedAlbumIds.size} new release(s): ${
+					newReleases.find((release) => release.queueError)?.queueError
+				}`
+			: undefined;
+	return {
+		follow: {
+			...follow,
+			knownAlbumIds: Array.from(
+				new Set([...follow.knownAlbumIds, ...albumIds.filter((id) => !unqueuedAlbumIds.has(id))])
+			),
+			lastCheckedAt: checkedAt,
+			lastError: queueError
+		},
+		result: {
+			artistId: follow.artistId,
+			checkedAt,
+			newReleases,
+			queued,
+			...(queueError ? { error: queueError } : {})
+		}
+	};
+}
+
+/**
+ * Check followed artists (all, or one) and persist snapshots and the release feed.
+ * Waits for a check that is already running, scheduled or manual, so two checks never
+ * diff the same snapshots and queue the same releases twice.
+ */
+export async function checkFollowedArtists(options?: {
+	artistId?: number;
+	fetchDiscography?: DiscographyFetcher;
+}): Promise<ArtistFollowCheckResult[]> {
+	while (activePoll) {
+		await activePoll.catch(() => undefined);
+	}
+	const run = runFollowCheck(options);
+	activePoll = run;
+	try {
+		return await run;
+	} finally {
+		if (activePoll === run) {
+			activePoll = null;
+		}
+	}
+}
+
+async function runFollowCheck(options?: {
+	artistId?: number;
+	fetchDiscography?: DiscographyFetcher;
+}): Promise<ArtistFollowCheckResult[]> {
+	const fetchDiscography = options?.fetchDiscography ?? fetchFollowedArtistDiscography;
+	const state = await readState();
+	const targets =
+		options?.artistId !== undefined
+			? state.follows.filter((follow) => follow.artistId === options.artistId)
+			: state.follows;
+
+	const results: ArtistFollowCheckResult[] = [];
+	const checkedFollows = new Map<number, ArtistFollow>();
+	for (const follow of targets) {
+		const checked = await checkFollow(follow, fetchDiscography);
+		checkedFollows.set(follow.artistId, checked.follow);
+		results.push(checked.result);
+	}
+
+	// Re-read and merge only the fields the check owns, so follows added or removed and
+	// name/rule edits made while the check ran are not clobbered.
+	const latest = await readState();
+	const detected = results.flatMap((result) => result.newReleases);
+	const detectedIds = new Set(detected.map((release) => release.id));
+	await writeState({
+		follows: latest.follows.map((follow) => {
+			const checked = checkedFollows.get(follow.artistId);
+			return checked
+				? {
+						...follow,
+						knownAlbumIds: checked.knownAlbumIds,
+						lastCheckedAt: checked.lastCheckedAt,
+						lastError: checked.lastError
+					}
+				: follow;
+		}),
+		releases: [
+			...detected.filter((release) =>
+				latest.follows.some((follow) => follow.artistId === release.artistId)
+			),
+			...latest.releases.filter((release) => !detectedIds.has(release.id))
+		].slice(0, RELEASE_FEED_LIMIT)
+	});
+
+	const releaseCount = detected.length;
+	if (targets.length > 0) {
+		console.log(
+			`${logPrefix} Checked ${targets.length} artist(s)`,
+			JSON.stringify({
+				newReleases: releaseCount,
+				queued: results.reduce((sum, result) => sum + result.queued, 0),
+				errors: results.filter((result) => result.error).length
+			})
+		);
+	}
+	return results;
+}
+
+async function runScheduledPoll(): Promise<void> {
+	// A check is already running; the next interval picks up anything it misses
+	if (activePoll) return;
+	try {
+		await checkFollowedArtists();
+	} catch (error) {
+		console.warn(`${logPrefix} Scheduled poll failed:`, error);
+	}
+}
+
+/**
+ * Start the new-release poller. Set ARTIST_FOLLOW_POLL_INTERVAL_MS=0 to disable.
+ */
+export function startArtistFollowPoller(): boolean {
+	if (pollTimer || POLL_INTERVAL_MS <= 0) {
+		return false;
+	}
+	pollTimer = setInterval(() => {
+		void runScheduledPoll();
+	}, POLL_INTERVAL_MS);
+	pollTimer.unref?.();
+	return true;
+}
+
+export function stopArtistFollowPoller(): void {
+	if (pollTimer) {
+		clearInterval(pollTimer);
+		pollTimer = null;
+	}
+}
+
+export const __test = {
+	resetState: () => {
+		cachedState = { follows: [], releases: [] };
+	}
+};
@@ -0,0 +1,229 @@
+// @vitest-environment node
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	__test,
+	apiTokenScopeError,
+	authenticateRequest,
+	createAccount,
+	createApiToken,
+	deleteAccount,
+	hasRole,
+	listApiTokens,
+	login,
+	requiredRoleFor,
+	revokeApiToken,
+	updateAccount
+} from './auth';
+
+const request = (
+	headers: Record<string, string> = {},
+	sessionToken?: string,
+	clientAddress = '10.0.0.5'
+) => authenticateRequest({ headers: new Headers(headers), sessionToken, clientAddress });
+
+describe('auth', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		__test.reset();
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-auth-'));
+		vi.stubEnv('AUTH_STATE_FILE', path.join(tempDir, 'auth.json'));
+		vi.stubEnv('AUTH_ADMIN_TOKEN', '');
+		vi.stubEnv('AUTH_PROXY_USER_HEADER', '');
+		vi.stubEnv('AUTH_ANONYMOUS_ROLE', '');
+		vi.stubEnv('AUTH_SESSION_SECRET', '');
+	});
+
+	afterEach(async () => {
+		__test.reset();
+		vi.unstubAllEnvs();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('leaves everything open until auth is configured', async () => {
+		expect(await request()).toEqual({
+			enabled: false,
+			user: { name: 'local', role: 'admin', source: 'open' }
+		});
+	});
+
+	it('fails closed when the accounts file is damaged', async () => {
+		const stateFile = path.join(tempDir, 'auth.json');
+		await fs.writeFile(stateFile, '{"version":1,"secret":"abc","accounts":[', 'utf8');
+
+		await expect(request()).rejects.toMatchObject({ status: 503 });
+		await expect(
+			createAccount({ username: 'root', password: 'password1', role: 'admin' })
+		).rejects.toMatchObject({ status: 503 });
+		expect(await fs.readFile(stateFile, 'utf8')).toBe('{"version":1,"secret":"abc","accounts":[');
+	});
+
+	it('requires the first account to be an admin', async () => {
+		await expect(
+			createAccount({ username: 'kim', password: 'password1', role: 'listener' })
+		).rejects.toMatchObject({ status: 409 });
+		await createAccount({ username: 'root', password: 'password1', role: 'admin' });
+
+		expect(await request()).toEqual({ enabled: true, user: null });
+	});
+
+	it('signs accounts in with a session that survives a restart', async () => {
+		await createAccount({ username: 'root', password: 'password1', role: 'admin' });
+		await createAccount({ username: 'kim', password: 'password2', role: 'listener' });
+
+		await expect(login({ username: 'kim', password: 'wrong-pass' })).rejects.toMatchObject({
+			status: 401
+		});
+		const { sessionToken } = await login({ username: 'KIM', password: 'password2' });
+
+		__test.reset();
+		expect((await request({}, sessionToken)).user).toEqual({
+			name: 'kim',
+			role: 'listener',
+			source: 'account'
+		});
+		expect((await request({}, `${sessionToken}x`)).user).toBeNull();
+
+		// Role changes apply to existing sessions; a password reset ends them
+		await updateAccount('kim', { role: 'downloader' });
+		expect((await request({}, sessionToken)).user?.role).toBe('downloader');
+		await updateAccount('kim', { password: 'password3' });
+		expect((await request({}, sessionToken)).user).toBeNull();
+	});
+
+	it('keeps at least one admin account', async () => {
+		await createAccount({ username: 'root', password: 'password1', role: 'admin' });
+		await createAccount({ username: 'kim', password: 'password2', role: 'listener' });
+
+		await expect(updateAccount('root', { role: 'listener' })).rejects.toMatchObject({
+			status: 409
+		});
+		await expect(deleteAccount('root')).rejects.toMatchObject({ status: 409 });
+		await deleteAccount('kim');
+		await expect(deleteAccount('kim')).rejects.toMatchObject({ status: 404 });
+	});
+
+	it('accepts the admin token as a bearer token or a login', async () => {
+		vi.stubEnv('AUTH_ADMIN_TOKEN', 'admin-secret');
+
+		expect((await request({ authorization: 'Bearer admin-secret' })).user?.role).toBe('admin');
+		expect((await request({ authorization: 'Bearer nope' })).user).toBeNull();
+
+		const { sessionToken } = await login({ token: 'admin-secret' });
+		expect((await request({}, sessionToken)).user?.source).toBe('token');
+		vi.stubEnv('AUTH_ADMIN_TOKEN', 'rotated-secret');
+		expect((await request({}, sessionToken)).user).toBeNull();
+	});
+
+	it('trusts proxy headers only from trusted addresses', async () => {
+		vi.stubEnv('AUTH_PROXY_USER_HEADER', 'Remote-User');
+		vi.stubEnv('AUTH_PROXY_ROLE_HEADER', 'Remote-Groups');
+		vi.stubEnv('AUTH_TRUSTED_PROXIES', '10.0.0.1');
+		const headers = { 'remote-user': 'alex', 'remote-groups': 'family,downloader' };
+
+		expect((await request(headers, undefined, '10.0.0.1')).user).toEqual({
+			name: 'alex',
+			role: 'downloader',
+			source: 'proxy'
+		});
+		expect((await request(headers, undefined, '10.0.0.9')).user).toBeNull();
+	});
+
+	it('throttles repeated failed logins', async () => {
+		const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+		await createAccount({ username: 'root', password: 'password1', role: 'admin' });
+		for (let attempt = 0; attempt < 10; attempt += 1) {
+			await expect(login({ username: 'root', password: 'nope' }, '10.0.0.7')).rejects.toMatchObject(
+				{ status: 401 }
+			);
+		}
+		await expect(
+			login({ username: 'root', password: 'password1' }, '10.0.0.7')
+		).rejects.toMatchObject({ status: 429 });
+		await expect(
+			login({ username: 'root', password: 'password1' }, '10.0.0.8')
+		).resolves.toBeTruthy();
+		warnSpy.mockRestore();
+	});
+
+	it('issues scoped API tokens that act as their owner', async () => {
+		await createAccount({ username: 'root', password: 'password1', role: 'admin' });
+		await createAccount({ username: 'kim', password: 'password2', role: 'downloader' });
+		const kim = { name: 'kim', role: 'downloader' as const, source: 'account' as const };
+
+		await expect(
+			createApiToken(kim, { name: 'cron', scopes: ['queue:read'], owner: 'root' })
+		).rejects.toMatchObject({ status: 403 });
+		// A token can't do more than its owner's role allows
+		await expect(
+			createApiToken(kim, { name: 'cron', scopes: ['queue:read', 'library:maintain'] })
+		).rejects.toMatchObject({ status: 403 });
+		const { token, secret } = await createApiToken(kim, {
+			name: 'Home Assistant',
+			scopes: ['queue:read', 'queue:write']
+		});
+		// Only a hash of the secret is stored
+		expect(await fs.readFile(path.join(tempDir, 'auth.json'), 'utf8')).not.toContain(
+			secret.slice(-48)
+		);
+
+		__test.reset();
+		const user = (await request({ authorization: `Bearer ${secret}` })).user;
+		expect(user).toEqual({
+			name: 'kim',
+			role: 'downloader',
+			source: 'api-token',
+			scopes: ['queue:read', 'queue:write']
+		});
+		expect(apiTokenScopeError(user, '/api/v1/jobs', 'POST')).toBeNull();
+		expect(apiTokenScopeError(user, '/api/v1/library/scan', 'POST')).toMatch(/library:maintain/);
+		expect(apiTokenScopeError(user, '/api/download-queue', 'POST')).toMatch(/only call/);
+		expect(apiTokenScopeError(kim, '/api/download-queue', 'POST')).toBeNull();
+		expect((await listApiTokens(user!))[0]?.lastUsedAt).toEqual(expect.any(Number));
+
+		// Admins see and revoke everyone's tokens
+		const root = { name: 'root', role: 'admin' as const, source: 'account' as const };
+		expect((await listApiTokens(root)).map((entry) => entry.id)).toEqual([token.id]);
+		await revokeApiToken(root, token.id);
+		expect((await request({ authorization: `Bearer ${secret}` })).user).toBeNull();
+
+		// Deleting an account takes its tokens with it
+		const second = await createApiToken(kim, { name: 'cron', scopes: ['queue:read'] });
+		await deleteAccount('kim');
+		expect((await request({ authorization: `Bearer ${second.secret}` })).user).toBeNull();
+		expect(await listApiTokens(root)).toEqual([]);
+	});
+
+	it('maps routes to the roles they need', () => {
+		expect(requiredRoleFor('/login', 'GET')).toBeNull();
+		expect(requiredRoleFor('/api/auth/login', 'POST')).toBeNull();
+		expect(requiredRoleFor('/library', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/media-library/browse', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/download-queue', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/download-queue', 'POST')).toBe('downloader');
+		expect(requiredRoleFor('/api/download-queue/job-1', 'PATCH')).toBe('downloader');
+		expect(requiredRoleFor('/api/download-queue/job-1', 'DELETE')).toBe('admin');
+		expect(requiredRoleFor('/api/cache/clear', 'POST')).toBe('admin');
+		expect(requiredRoleFor('/api/follows', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/follows', 'POST')).toBe('downloader');
+		expect(requiredRoleFor('/api/follows/123', 'PATCH')).toBe('downloader');
+		expect(requiredRoleFor('/api/follows/check', 'POST')).toBe('downloader');
+		expect(requiredRoleFor('/api/media-library/repair-all', 'POST')).toBe('admin');
+		expect(requiredRoleFor('/api/media-library/repair-all', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/media-library/deduplicate', 'POST')).toBe('admin');
+		expect(requiredRoleFor('/api/media-library/sweep-temporary', 'POST')).toBe('admin');
+		expect(requiredRoleFor('/api/auth/users', 'GET')).toBe('admin');
+		expect(requiredRoleFor('/api/auth/tokens', 'POST')).toBe('listener');
+		expect(requiredRoleFor('/api/v1/openapi.json', 'GET')).toBeNull();
+		expect(requiredRoleFor('/api/v1/jobs', 'GET')).toBe('listener');
+		expect(requiredRoleFor('/api/v1/jobs/job-1/cancel', 'POST')).toBe('downloader');
+		expect(requiredRoleFor('/api/v1/library/scan', 'POST')).toBe('admin');
+
+		expect(hasRole({ name: 'a', role: 'downloader', source: 'account' }, 'listener')).toBe(true);
+		expect(hasRole({ name: 'a', role: 'downloader', source: 'account' }, 'admin')).toBe(false);
+		expect(hasRole(null, 'listener')).toBe(false);
+	});
+});
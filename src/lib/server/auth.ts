@@ -0,0 +1,861 @@
+/**
+ * Access control for the server.
+ *
+ * Requests are signed in through local accounts (session cookie), a shared admin token
+ * (`Authorization: Bearer` or the login screen) or a username header set by a trusted
+ * reverse proxy. Every account has one of three roles: listeners stream and manage
+ * their own listening data, downloaders may also queue downloads, admins run library
+ * maintenance and manage accounts.
+ *
+ * Auth stays off until an admin token, a proxy header or the first account is
+ * configured, so existing single-user setups keep working unchanged.
+ *
+ * Scripts use personal API tokens instead: each belongs to an account, acts with that
+ * account's role and is limited to the `/api/v1` routes its scopes cover.
+ */
+
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+
+export type AuthRole = 'listener' | 'downloader' | 'admin';
+export type AuthSource = 'open' | 'account' | 'token' | 'proxy' | 'anonymous' | 'api-token';
+export type ApiTokenScope = 'queue:read' | 'queue:write' | 'library:maintain';
+
+export type AuthUser = {
+	name: string;
+	role: AuthRole;
+	source: AuthSource;
+	// Only set for API tokens; everyone else is limited by role alone
+	scopes?: ApiTokenScope[];
+};
+
+export type AuthContext = {
+	enabled: boolean;
+	user: AuthUser | null;
+};
+
+export type AuthAccountSummary = {
+	username: string;
+	role: AuthRole;
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type ApiTokenSummary = {
+	id: string;
+	name: string;
+	owner: string;
+	scopes: ApiTokenScope[];
+	createdAt: number;
+	lastUsedAt: number | null;
+};
+
+type StoredAccount = AuthAccountSummary & {
+	passwordHash: string;
+	// Bumped on password change or removal so existing sessions stop working
+	sessionVersion: number;
+};
+
+type StoredApiToken = ApiTokenSummary & {
+	secretHash: string;
+};
+
+type AuthState = {
+	secret: string;
+	accounts: StoredAccount[];
+	apiTokens: StoredApiToken[];
+};
+
+type SessionPayload = {
+	sub: string;
+	src: 'account' | 'token';
+	ver: number | string;
+	exp: number;
+};
+
+export class AuthError extends Error {
+	status: 400 | 401 | 403 | 404 | 409 | 429 | 503;
+
+	constructor(message: string, status: 400 | 401 | 403 | 404 | 409 | 429 | 503) {
+		super(message);
+		this.name = 'AuthError';
+		this.status = status;
+	}
+}
+
+export const AUTH_ROLES: AuthRole[] = ['listener', 'downloader', 'admin'];
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['queue:read', 'queue:write', 'library:maintain'];
+// The role a token's owner needs for each scope, matching the routes the scope opens
+export const API_TOKEN_SCOPE_ROLES: Record<ApiTokenScope, AuthRole> = {
+	'queue:read': 'listener',
+	'queue:write': 'downloader',
+	'library:maintain': 'admin'
+};
+export const SESSION_COOKIE_NAME = 'tidal_ui_session';
+const STATE_FILE_NAME = 'auth.v1.json';
+const ADMIN_TOKEN_USER = 'admin';
+const DEFAULT_SESSION_TTL_HOURS = 24 * 30;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_USERNAME_LENGTH = 64;
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+const LOGIN_FAILURE_WINDOW_MS = 15 * 60_000;
+const MAX_LOGIN_FAILURES = 10;
+const DEFAULT_TRUSTED_PROXIES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+const API_TOKEN_PATTERN = /^tui_([0-9a-f]{12})_([0-9a-f]{48})$/;
+const MAX_API_TOKEN_NAME_LENGTH = 64;
+// Last-used times are only written back this often, not on every request
+const API_TOKEN_LAST_USED_RESOLUTION_MS = 5 * 60_000;
+const logPrefix = '[Auth]';
+
+const scryptAsync = promisify(scrypt) as (
+	password: string,
+	salt: Buffer,
+	keyLength: number
+) => Promise<Buffer>;
+
+let state: AuthState | null = null;
+// A freshly generated secret is only written once a session is signed with it
+let stateOnDisk = false;
+let writeChain: Promise<void> = Promise.resolve();
+const loginFailures = new Map<string, { count: number; firstAt: number }>();
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+function readEnv(name: string): string | null {
+	return process.env[name]?.trim() || null;
+}
+
+function resolveStateFile(): string {
+	return readEnv('AUTH_STATE_FILE') ?? path.join(process.cwd(), 'data', STATE_FILE_NAME);
+}
+
+export function parseAuthRole(value: unknown): AuthRole | null {
+	return typeof value === 'string' && AUTH_ROLES.includes(value.trim().toLowerCase() as AuthRole)
+		? (value.trim().toLowerCase() as AuthRole)
+		: null;
+}
+
+function getAnonymousRole(): AuthRole | null {
+	return parseAuthRole(readEnv('AUTH_ANONYMOUS_ROLE'));
+}
+
+function getSessionTtlMs(): number {
+	const hours = Number(readEnv('AUTH_SESSION_TTL_HOURS'));
+	return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 3_600_000;
+}
+
+function getTrustedProxies(): string[] {
+	const configured = readEnv('AUTH_TRUSTED_PROXIES');
+	return configured
+		? configured
+				.split(',')
+				.map((entry) => entry.trim())
+				.filter(Boolean)
+		: DEFAULT_TRUSTED_PROXIES;
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the accounts file once. Only a missing file means "no accounts yet"; an unreadable or
+ * damaged one fails closed, so auth never silently turns off and the file is never written
+ * over. Nothing is cached then, so the next request tries again.
+ */
+async function loadState(): Promise<AuthState> {
+	if (state) {
+		return state;
+	}
+	const stateFile = resolveStateFile();
+	let loaded: AuthState | null = null;
+	let content: string | null = null;
+	try {
+		content = await fs.readFile(stateFile, 'utf8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+			console.error(`${logPrefix} Failed to read ${stateFile}:`, error);
+			throw new AuthError('Account storage is unavailable', 503);
+		}
+	}
+	if (content !== null) {
+		let raw: ({ version?: number } & Partial<AuthState>) | null = null;
+		try {
+			raw = JSON.parse(content) as { version?: number } & Partial<AuthState>;
+		} catch {
+			// reported below
+		}
+		if (raw?.version !== 1 || typeof raw.secret !== 'string' || !raw.secret) {
+			console.error(`${logPrefix} ${stateFile} is damaged; refusing requests until it is fixed`);
+			throw new AuthError('Account storage is unavailable', 503);
+		}
+		loaded = {
+			secret: raw.secret,
+			accounts: Array.isArray(raw.accounts)
+				? raw.accounts.filter(
+						(account) =>
+							typeof account?.username === 'string' &&
+							typeof account.passwordHash === 'string' &&
+							parseAuthRole(account.role) !== null
+					)
+				: [],
+			apiTokens: Array.isArray(raw.apiTokens)
+				? raw.apiTokens.filter(
+						(token) =>
+							typeof token?.id === 'string' &&
+							typeof token.secretHash === 'string' &&
+							typeof token.owner === 'string' &&
+							Array.isArray(token.scopes)
+					)
+				: []
+		};
+	}
+	if (!state) {
+		stateOnDisk = loaded !== null;
+		state = loaded ?? { secret: randomBytes(32).toString('hex'), accounts: [], apiTokens: [] };
+	}
+	return state;
+}
+
+function persistState(): Promise<void> {
+	const snapshot = state;
+	const stateFile = resolveStateFile();
+	stateOnDisk = true;
+	const write = writeChain.then(async () => {
+		if (!snapshot) return;
+		await fs.mkdir(path.dirname(stateFile), { recursive: true });
+		await fs.writeFile(stateFile, JSON.stringify({ version: 1, ...snapshot }, null, 2), {
+			encoding: 'utf8',
+			mode: 0o600
+		});
+	});
+	writeChain = write.catch((error) => {
+		console.warn(`${logPrefix} Failed to persist accounts:`, error);
+	});
+	return writeChain;
+}
+
+export async function isAuthEnabled(): Promise<boolean> {
+	if (readEnv('AUTH_ADMIN_TOKEN') || readEnv('AUTH_PROXY_USER_HEADER')) {
+		return true;
+	}
+	return (await loadState()).accounts.length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Secrets
+// ---------------------------------------------------------------------------
+
+function safeEqual(a: string, b: string): boolean {
+	const digestA = createHash('sha256').update(a).digest();
+	const digestB = createHash('sha256').update(b).digest();
+	return timingSafeEqual(digestA, digestB);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16);
+	const hash = await scryptAsync(password, salt, 64);
+	return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+	const [scheme, salt, hash] = stored.split('$');
+	if (scheme !== 'scrypt' || !salt || !hash) {
+		return false;
+	}
+	const expected = Buffer.from(hash, 'base64url');
+	const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Sessions signed with the admin token stop working when the token changes
+const adminTokenVersion = (token: string): string =>
+	createHash('sha256').update(token).digest('hex').slice(0, 16);
+
+async function signSession(payload: SessionPayload): Promise<string> {
+	const current = await loadState();
+	const secret = readEnv('AUTH_SESSION_SECRET') ?? current.secret;
+	if (!stateOnDisk) {
+		await persistState();
+	}
+	const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+	const signature = createHmac('sha256', secret).update(body).digest('base64url');
+	return `${body}.${signature}`;
+}
+
+async function readSession(token: string): Promise<SessionPayload | null> {
+	const [body, signature] = token.split('.');
+	if (!body || !signature) {
+		return null;
+	}
+	const secret = readEnv('AUTH_SESSION_SECRET') ?? (await loadState()).secret;
+	const expected = createHmac('sha256', secret).update(body).digest('base64url');
+	if (!safeEqual(signature, expected)) {
+		return null;
+	}
+	try {
+		const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as SessionPayload;
+		return typeof payload?.exp === 'number' && payload.exp > Date.now() ? payload : null;
+	} catch {
+		return null;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Request authentication
+// ---------------------------------------------------------------------------
+
+async function userFromSession(token: string): Promise<AuthUser | null> {
+	const session = await readSession(token);
+	if (!session) {
+		return null;
+	}
+	if (session.src === 'token') {
+		const adminToken = readEnv('AUTH_ADMIN_TOKEN');
+		return adminToken && session.ver === adminTokenVersion(adminToken)
+			? { name: ADMIN_TOKEN_USER, role: 'admin', source: 'token' }
+			: null;
+	}
+	const account = (await loadState()).accounts.find(
+		(candidate) => candidate.username === session.sub
+	);
+	return account && account.sessionVersion === session.ver
+		? { name: account.username, role: account.role, source: 'account' }
+		: null;
+}
+
+async function userFromProxy(
+	headers: Headers,
+	clientAddress: string | null
+): Promise<AuthUser | null> {
+	const userHeader = readEnv('AUTH_PROXY_USER_HEADER');
+	if (!userHeader || !clientAddress || !getTrustedProxies().includes(clientAddress)) {
+		return null;
+	}
+	const name = headers.get(userHeader)?.trim();
+	if (!name) {
+		return null;
+	}
+	// A local account with the same name decides the role; otherwise the groups header does
+	const account = (await loadState()).accounts.find(
+		(candidate) => candidate.username.toLowerCase() === name.toLowerCase()
+	);
+	if (account) {
+		return { name: account.username, role: account.role, source: 'proxy' };
+	}
+	const roleHeader = readEnv('AUTH_PROXY_ROLE_HEADER');
+	const groups = (roleHeader ? (headers.get(roleHeader) ?? '') : '')
+		.split(/[,;|\s]+/)
+		.map(parseAuthRole)
+		.filter((role): role is AuthRole => role !== null);
+	const role =
+		groups.sort((a, b) => AUTH_ROLES.indexOf(b) - AUTH_ROLES.indexOf(a))[0] ??
+		parseAuthRole(readEnv('AUTH_PROXY_DEFAULT_ROLE')) ??
+		'listener';
+	return { name, role, source: 'proxy' };
+}
+
+const hashApiTokenSecret = (secret: string): string =>
+	createHash('sha256').update(secret).digest('hex');
+
+async function userFromApiToken(bearer: string): Promise<AuthUser | null> {
+	const match = bearer.match(API_TOKEN_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const current = await loadState();
+	const token = current.apiTokens.find((candidate) => candidate.id === match[1]);
+	if (!token || !safeEqual(hashApiTokenSecret(match[2]), token.secretHash)) {
+		return null;
+	}
+	// Tokens act with their owner's current role
+	const account = current.accounts.find((candidate) => candidate.username === token.owner);
+	if (!account) {
+		return null;
+	}
+	const now = Date.now();
+	if (!token.lastUsedAt || now - token.lastUsedAt > API_TOKEN_LAST_USED_RESOLUTION_MS) {
+		token.lastUsedAt = now;
+		void persistState();
+	}
+	return {
+		name: account.username,
+		role: account.role,
+		source: 'api-token',
+		scopes: [...token.scopes]
+	};
+}
+
+/**
+ * Work out who is calling. Bearer tokens (the admin token or an API token) win over proxy
+ * headers, which win over the session cookie; requests with none of them get the
+ * anonymous role, if one is set.
+ */
+export async function authenticateRequest(input: {
+	headers: Headers;
+	sessionToken?: string | null;
+	clientAddress?: string | null;
+}): Promise<AuthContext> {
+	if (!(await isAuthEnabled())) {
+		return { enabled: false, user: { name: 'local', role: 'admin', source: 'open' } };
+	}
+
+	const authorization = input.headers.get('authorization') ?? '';
+	const bearer = authorization.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+	if (bearer) {
+		const adminToken = readEnv('AUTH_ADMIN_TOKEN');
+		const user: AuthUser | null =
+			adminToken && safeEqual(bearer, adminToken)
+				? { name: ADMIN_TOKEN_USER, role: 'admin', source: 'token' }
+				: await userFromApiToken(bearer);
+		return { enabled: true, user };
+	}
+
+	const proxyUser = await userFromProxy(input.headers, input.clientAddress ?? null);
+	if (proxyUser) {
+		return { enabled: true, user: proxyUser };
+	}
+
+	const sessionUser = input.sessionToken ? await userFromSession(input.sessionToken) : null;
+	if (sessionUser) {
+		return { enabled: true, user: sessionUser };
+	}
+
+	const anonymousRole = getAnonymousRole();
+	return {
+		enabled: true,
+		user: anonymousRole ? { name: 'guest', role: anonymousRole, source: 'anonymous' } : null
+	};
+}
+
+export function hasRole(user: AuthUser | null, required: AuthRole): boolean {
+	return user !== null && AUTH_ROLES.indexOf(user.role) >= AUTH_ROLES.indexOf(required);
+}
+
+// ---------------------------------------------------------------------------
+// Route policy
+// ---------------------------------------------------------------------------
+
+type RouteRule = {
+	pattern: RegExp;
+	// Omitted: every method
+	methods?: string[];
+	role: AuthRole | null;
+};
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// First match wins; anything unmatched needs a listener.
+const ROUTE_RULES: RouteRule[] = [
+	{ pattern: /^\/login\/?$/, role: null },
+	{ pattern: /^\/api\/auth\/(?:login|logout|session)\/?$/, role: null },
+	{ pattern: /^\/api\/health\/?$/, role: null },
+	{ pattern: /^\/api\/v1\/openapi\.json$/, role: null },
+	// Everyone manages their own API tokens; the routes check ownership
+	{ pattern: /^\/api\/auth\/tokens(?:\/[^/]+)?\/?$/, role: 'listener' },
+	{ pattern: /^\/api\/auth\//, role: 'admin' },
+	{ pattern: /^\/api\/cache\/clear\/?$/, role: 'admin' },
+	{ pattern: /^\/api\/webhooks(?:\/|$)/, role: 'admin' },
+	{
+		pattern:
+			/^\/api\/media-library\/(?:deduplicate|correct-and-deduplicate|repair-all|sweep-temporary|reorganize(?:\/rollback)?)\/?$/,
+		methods: WRITE_METHODS,
+		role: 'admin'
+	},
+	{ pattern: /^\/api\/download-queue\/schedule\/?$/, methods: WRITE_METHODS, role: 'admin' },
+	{ pattern: /^\/api\/download-queue\/[^/]+\/?$/, methods: ['DELETE'], role: 'admin' },
+	{ pattern: /^\/api\/download-track\/health\/?$/, methods: WRITE_METHODS, role: 'admin' },
+	{ pattern: /^\/api\/naming-templates\/?$/, methods: WRITE_METHODS, role: 'admin' },
+	{ pattern: /^\/api\/scrobble\/?$/, methods: ['PUT'], role: 'admin' },
+	{ pattern: /^\/api\/download-queue(?:\/|$)/, methods: WRITE_METHODS, role: 'downloader' },
+	{ pattern: /^\/api\/download-track(?:\/|$)/, methods: WRITE_METHODS, role: 'downloader' },
+	// Follows can auto-download new releases, and checks run those downloads
+	{ pattern: /^\/api\/follows(?:\/|$)/, methods: WRITE_METHODS, role: 'downloader' },
+	{ pattern: /^\/api\/v1\/library\/scan\/?$/, methods: WRITE_METHODS, role: 'admin' },
+	{ pattern: /^\/api\/v1\/jobs(?:\/|$)/, methods: WRITE_METHODS, role: 'downloader' },
+	{
+		pattern: /^\/api\/media-library\/(?:repair|quality-upgrades(?:\/queue)?)\/?$/,
+		methods: WRITE_METHODS,
+		role: 'downloader'
+	},
+	{ pattern: /^\/api\/local-playlists\/[^/]+\/download\/?$/, role: 'downloader' },
+	{ pattern: /^\/api\/playlist-files\/write\/?$/, role: 'downloader' }
+];
+
+/** The role a request needs, or null for routes open to everyone. */
+export function requiredRoleFor(pathname: string, method: string): AuthRole | null {
+	const upperMethod = method.toUpperCase();
+	const rule = ROUTE_RULES.find(
+		(candidate) =>
+			candidate.pattern.test(pathname) &&
+			(!candidate.methods || candidate.methods.includes(upperMethod))
+	);
+	return rule ? rule.role : 'listener';
+}
+
+type ScopeRule = {
+	pattern: RegExp;
+	methods: string[];
+	scope: ApiTokenScope;
+};
+
+// API tokens can only call these routes, whatever their owner's role allows
+const API_SCOPE_RULES: ScopeRule[] = [
+	{ pattern: /^\/api\/v1\/jobs(?:\/[^/]+)?\/?$/, methods: ['GET'], scope: 'queue:read' },
+	{ pattern: /^\/api\/v1\/library\/status\/?$/, methods: ['POST'], scope: 'queue:read' },
+	{
+		pattern: /^\/api\/v1\/jobs(?:\/[^/]+\/cancel)?\/?$/,
+		methods: ['POST'],
+		scope: 'queue:write'
+	},
+	{ pattern: /^\/api\/v1\/library\/scan\/?$/, methods: ['POST'], scope: 'library:maintain' }
+];
+
+/** The scope an API token needs for a request, or null when tokens can't call the route. */
+export function requiredScopeFor(pathname: string, method: string): ApiTokenScope | null {
+	const upperMethod = method.toUpperCase();
+	const rule = API_SCOPE_RULES.find(
+		(candidate) => candidate.pattern.test(pathname) && candidate.methods.includes(upperMethod)
+	);
+	return rule ? rule.scope : null;
+}
+
+/** Why an API token may not make a request, or null if it may. Other callers are never limited. */
+export function apiTokenScopeError(
+	user: AuthUser | null,
+	pathname: string,
+	method: string
+): string | null {
+	if (!user?.scopes) {
+		return null;
+	}
+	const scope = requiredScopeFor(pathname, method);
+	if (!scope) {
+		return 'API tokens can only call the /api/v1 routes';
+	}
+	return user.scopes.includes(scope) ? null : `This API token needs the ${scope} scope`;
+}
+
+// ---------------------------------------------------------------------------
+// Login
+// ---------------------------------------------------------------------------
+
+function checkLoginThrottle(key: string): void {
+	const entry = loginFailures.get(key);
+	if (!entry) return;
+	if (Date.now() - entry.firstAt > LOGIN_FAILURE_WINDOW_MS) {
+		loginFailures.delete(key);
+		return;
+	}
+	if (entry.count >= MAX_LOGIN_FAILURES) {
+		throw new AuthError('Too many failed sign-in attempts; try again later', 429);
+	}
+}
+
+function recordLoginFailure(key: string): void {
+	const entry = loginFailures.get(key);
+	if (entry && Date.now() - entry.firstAt <= LOGIN_FAILURE_WINDOW_MS) {
+		entry.count += 1;
+	} else {
+		loginFailures.set(key, { count: 1, firstAt: Date.now() });
+	}
+}
+
+/**
+ * Sign in with an account or the admin token. Returns the session cookie value;
+ * failures are throttled per client address.
+ */
+export async function login(
+	credentials: { username?: string; password?: string; token?: string },
+	clientAddress = 'unknown'
+): Promise<{ user: AuthUser; sessionToken: string; expiresAt: number }> {
+	checkLoginThrottle(clientAddress);
+	const expiresAt = Date.now() + getSessionTtlMs();
+
+	if (credentials.token) {
+		const adminToken = readEnv('AUTH_ADMIN_TOKEN');
+		if (adminToken && safeEqual(credentials.token, adminToken)) {
+			loginFailures.delete(clientAddress);
+			return {
+				user: { name: ADMIN_TOKEN_USER, role: 'admin', source: 'token' },
+				sessionToken: await signSession({
+					sub: ADMIN_TOKEN_USER,
+					src: 'token',
+					ver: adminTokenVersion(adminToken),
+					exp: expiresAt
+				}),
+				expiresAt
+			};
+		}
+	} else if (credentials.username && credentials.password) {
+		const account = (await loadState()).accounts.find(
+			(candidate) => candidate.username.toLowerCase() === credentials.username?.toLowerCase()
+		);
+		if (account && (await verifyPassword(credentials.password, account.passwordHash))) {
+			loginFailures.delete(clientAddress);
+			return {
+				user: { name: account.username, role: account.role, source: 'account' },
+				sessionToken: await signSession({
+					sub: account.username,
+					src: 'account',
+					ver: account.sessionVersion,
+					exp: expiresAt
+				}),
+				expiresAt
+			};
+		}
+	}
+
+	recordLoginFailure(clientAddress);
+	console.warn(`${logPrefix} Failed sign-in`, JSON.stringify({ clientAddress }));
+	throw new AuthError('Invalid username, password or token', 401);
+}
+
+// ---------------------------------------------------------------------------
+// Accounts
+// ---------------------------------------------------------------------------
+
+const toSummary = (account: StoredAccount): AuthAccountSummary => ({
+	username: account.username,
+	role: account.role,
+	createdAt: account.createdAt,
+	updatedAt: account.updatedAt
+});
+
+export async function listAccounts(): Promise<AuthAccountSummary[]> {
+	return (await loadState()).accounts
+		.map(toSummary)
+		.sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export function normalizeUsername(
+	input: unknown
+): { ok: true; username: string } | { ok: false; error: string } {
+	const username = typeof input === 'string' ? input.trim() : '';
+	if (!username || username.length > MAX_USERNAME_LENGTH || !USERNAME_PATTERN.test(username)) {
+		return {
+			ok: false,
+			error: `username must be 1-${MAX_USERNAME_LENGTH} letters, digits, dots, dashes or underscores`
+		};
+	}
+	return { ok: true, username };
+}
+
+export function normalizePassword(
+	input: unknown
+): { ok: true; password: string } | { ok: false; error: string } {
+	if (typeof input !== 'string' || input.length < MIN_PASSWORD_LENGTH) {
+		return { ok: false, error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+	}
+	return { ok: true, password: input };
+}
+
+// Without an admin token, losing the last admin account would either lock everyone out
+// or, with no accounts left, quietly switch auth off again
+function assertAdminRemains(accounts: StoredAccount[]): void {
+	if (readEnv('AUTH_ADMIN_TOKEN')) return;
+	if (!accounts.some((account) => account.role === 'admin')) {
+		throw new AuthError('At least one admin account must remain', 409);
+	}
+}
+
+/**
+ * Create an account. The first account must be an admin: creating it switches auth on.
+ */
+export async function createAccount(input: {
+	username: string;
+	password: string;
+	role: AuthRole;
+}): Promise<AuthAccountSummary> {
+	const current = await loadState();
+	if (
+		current.accounts.some(
+			(account) => account.username.toLowerCase() === input.username.toLowerCase()
+		)
+	) {
+		throw new AuthError(`Account "${input.username}" already exists`, 409);
+	}
+	const now = Date.now();
+	const account: StoredAccount = {
+		username: input.username,
+		role: input.role,
+		passwordHash: await hashPassword(input.password),
+		sessionVersion: 1,
+		createdAt: now,
+		updatedAt: now
+	};
+	const accounts = [...current.accounts, account];
+	assertAdminRemains(accounts);
+	state = { ...current, accounts };
+	await persistState();
+	console.log(
+		`${logPrefix} Created account`,
+		JSON.stringify({ username: account.username, role: account.role })
+	);
+	return toSummary(account);
+}
+
+export async function updateAccount(
+	username: string,
+	update: { role?: AuthRole; password?: string }
+): Promise<AuthAccountSummary> {
+	const current = await loadState();
+	const existing = current.accounts.find((account) => account.username === username);
+	if (!existing) {
+		throw new AuthError(`Account "${username}" not found`, 404);
+	}
+	const updated: StoredAccount = {
+		...existing,
+		role: update.role ?? existing.role,
+		passwordHash: update.password ? await hashPassword(update.password) : existing.passwordHash,
+		sessionVersion: update.password ? existing.sessionVersion + 1 : existing.sessionVersion,
+		updatedAt: Date.now()
+	};
+	const accounts = current.accounts.map((account) =>
+		account.username === username ? updated : account
+	);
+	assertAdminRemains(accounts);
+	state = { ...current, accounts };
+	await persistState();
+	return toSummary(updated);
+}
+
+export async function deleteAccount(username: string): Promise<void> {
+	const current = await loadState();
+	if (!current.accounts.some((account) => account.username === username)) {
+		throw new AuthError(`Account "${username}" not found`, 404);
+	}
+	const accounts = current.accounts.filter((account) => account.username !== username);
+	assertAdminRemains(accounts);
+	state = {
+		...current,
+		accounts,
+		apiTokens: current.apiTokens.filter((token) => token.owner !== username)
+	};
+	await persistState();
+	console.log(`${logPrefix} Deleted account`, JSON.stringify({ username }));
+}
+
+// ---------------------------------------------------------------------------
+// API tokens
+// ---------------------------------------------------------------------------
+
+const toTokenSummary = (token: StoredApiToken): ApiTokenSummary => ({
+	id: token.id,
+	name: token.name,
+	owner: token.owner,
+	scopes: token.scopes,
+	createdAt: token.createdAt,
+	lastUsedAt: token.lastUsedAt
+});
+
+const canSeeToken = (actor: AuthUser, token: StoredApiToken): boolean =>
+	actor.role === 'admin' || token.owner.toLowerCase() === actor.name.toLowerCase();
+
+export function normalizeApiTokenName(
+	input: unknown
+): { ok: true; name: string } | { ok: false; error: string } {
+	const name = typeof input === 'string' ? input.trim() : '';
+	if (!name || name.length > MAX_API_TOKEN_NAME_LENGTH) {
+		return { ok: false, error: `name must be 1-${MAX_API_TOKEN_NAME_LENGTH} characters` };
+	}
+	return { ok: true, name };
+}
+
+export function parseApiTokenScopes(input: unknown): ApiTokenScope[] | null {
+	if (!Array.isArray(input) || input.length === 0) {
+		return null;
+	}
+	const scopes = new Set<ApiTokenScope>();
+	for (const entry of input) {
+		if (!API_TOKEN_SCOPES.includes(entry as ApiTokenScope)) {
+			return null;
+		}
+		scopes.add(entry as ApiTokenScope);
+	}
+	return API_TOKEN_SCOPES.filter((scope) => scopes.has(scope));
+}
+
+/** Tokens the caller may see: their own, or all of them for admins. Newest first. */
+export async function listApiTokens(actor: AuthUser): Promise<ApiTokenSummary[]> {
+	return (await loadState()).apiTokens
+		.filter((token) => canSeeToken(actor, token))
+		.map(toTokenSummary)
+		.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Create a token owned by the caller's account; admins may pick another account. Scopes
+ * must be within the owner's role. The secret is only returned here, the server keeps a
+ * hash of it.
+ */
+export async function createApiToken(
+	actor: AuthUser,
+	input: { name: string; scopes: ApiTokenScope[]; owner?: string }
+): Promise<{ token: ApiTokenSummary; secret: string }> {
+	const ownerName = input.owner?.trim() || actor.name;
+	if (ownerName.toLowerCase() !== actor.name.toLowerCase() && actor.role !== 'admin') {
+		throw new AuthError('Only admins can create tokens for other accounts', 403);
+	}
+	const current = await loadState();
+	const account = current.accounts.find(
+		(candidate) => candidate.username.toLowerCase() === ownerName.toLowerCase()
+	);
+	if (!account) {
+		throw new AuthError(`API tokens need an account, and "${ownerName}" has none`, 404);
+	}
+	const beyondRole = input.scopes.filter(
+		(scope) => AUTH_ROLES.indexOf(account.role) < AUTH_ROLES.indexOf(API_TOKEN_SCOPE_ROLES[scope])
+	);
+	if (beyondRole.length > 0) {
+		throw new AuthError(
+			`"${account.username}" is a ${account.role} and can't grant ${beyondRole.join(', ')}`,
+			403
+		);
+	}
+	const id = randomBytes(6).toString('hex');
+	const secret = randomBytes(24).toString('hex');
+	const token: StoredApiToken = {
+		id,
+		name: input.name,
+		owner: account.username,
+		scopes: input.scopes,
+		createdAt: Date.now(),
+		lastUsedAt: null,
+		secretHash: hashApiTokenSecret(secret)
+	};
+	state = { ...current, apiTokens: [...current.apiTokens, token] };
+	await persistState();
+	console.log(
+		`${logPrefix} Created API token`,
+		JSON.stringify({ id, owner: token.owner, scopes: token.scopes })
+	);
+	return { token: toTokenSummary(token), secret: `tui_${id}_${secret}` };
+}
+
+export async function revokeApiToken(actor: AuthUser, id: string): Promise<void> {
+	const current = await loadState();
+	const token = current.apiTokens.find((candidate) => candidate.id === id);
+	if (!token || !canSeeToken(actor, token)) {
+		throw new AuthError(`API token "${id}" not found`, 404);
+	}
+	state = {
+		...current,
+		apiTokens: current.apiTokens.filter((candidate) => candidate.id !== id)
+	};
+	await persistState();
+	console.log(`${logPrefix} Revoked API token`, JSON.stringify({ id, owner: token.owner }));
+}
+
+export const __test = {
+	reset: () => {
+		state = null;
+		stateOnDisk = false;
+		writeChain = Promise.resolve();
+		loginFailures.clear();
+	}
+};
@@ -9,8 +9,6 @@ import {
 } from '$lib/server/metadataEmbedder';
 import { validateAudioFileIntegrity } from '$lib/server/download/audioIntegrity';
 import {
-	buildServerFilename,
-	sanitizeDirName,
 	ensureDir,
 	getDownloadDir,
 	getTempDir,
@@ -28,6 +26,13 @@ import {
 	type ConflictResolution,
 	type DownloadError
 } from '$lib/server/download/shared';
+import {
+	buildNamingTemplateValues,
+	getNamingTemplateConfig,
+	renderAlbumFolders,
+	renderTrackFilename,
+	type AlbumFolders
+} from '$lib/server/download/namingTemplates';
 
 export interface FinalizeTrackParams {
 	trackId: number;
@@ -36,6 +41,8 @@ export interface FinalizeTrackParams {
 	artistName?: string;
 	targetArtistDir?: string;
 	targetAlbumDir?: string;
+	/** Album folders rendered once per album job so every track lands in the same directory. */
+	albumFolders?: AlbumFolders;
 	targetFilenameHint?: string;
 	requireExistingTargetDir?: boolean;
 	trackTitle?: string;
@@ -332,6 +339,7 @@ export async function finalizeTrack(params: FinalizeTrackParams): Promise<Finali
 		artistName,
 		targetArtistDir,
 		targetAlbumDir,
+		albumFolders,
 		targetFilenameHint,
 		requireExistingTargetDir = false,
 		trackTitle,
@@ -373,13 +381,20 @@ export async function finalizeTrack(params: FinalizeTrackParams): Promise<Finali
 	}
 
 	const ext = getServerExtension(quality, detectedFormat, detectedMimeType);
-	const filename = buildServerFilename(
+	const namingConfig = await getNamingTemplateConfig();
+	const namingValues = buildNamingTemplateValues({
 		artistName,
+		albumTitle,
 		trackTitle,
 		trackId,
-		ext,
-		trackLookup,
-		trackNumber
+		trackNumber,
+		quality,
+		trackMetadata: trackLookup
+	});
+	const filename = renderTrackFilename(
+		namingConfig,
+		{ artistName, trackTitle, trackId, trackNumber, trackMetadata: trackLookup, ext },
+		namingValues
 	);
 
 	const baseDir = outputBaseDir ?? getDownloadDir();
@@ -405,8 +420,14 @@ export async function finalizeTrack(params: FinalizeTrackParams): Promise<Finali
 			status: 400
 		};
 	}
-	const artistDir = overrideArtistDir ?? sanitizeDirName(artistName || 'Unknown Artist');
-	const albumDir = overrideAlbumDir ?? sanitizeDirName(albumTitle || 'Unknown Album');
+	const threadedArtistDir = sanitizeOverrideDirComponent(albumFolders?.artistDir);
+	const threadedAlbumDir = sanitizeOverrideDirComponent(albumFolders?.albumDir);
+	const renderedFolders =
+		threadedArtistDir && threadedAlbumDir
+			? { artistDir: threadedArtistDir, albumDir: threadedAlbumDir }
+			: renderAlbumFolders(namingConfig, namingValues);
+	const artistDir = overrideArtistDir ?? renderedFolders.artistDir;
+	const albumDir = overrideAlbumDir ?? renderedFolders.albumDir;
 	const targetDir = path.join(baseDir, artistDir, albumDir);
 	if (requireExistingTargetDir) {
 		if (!overrideArtistDir || !overrideAlbumDir) {
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+	buildNamingTemplateValues,
+	createLibraryNamingLayout,
+	normalizeNamingTemplateConfig,
+	parseNamingTemplate,
+	renderAlbumFolders,
+	renderTrackFilename
+} from './namingTemplates';
+
+const trackMetadata = {
+	track: {
+		id: 42,
+		title: 'Song',
+		version: 'Remastered',
+		trackNumber: 7,
+		volumeNumber: 2,
+		artist: { name: 'Guest' },
+		album: {
+			id: 9,
+			title: 'Album',
+			releaseDate: '2001-05-14',
+			numberOfVolumes: 2,
+			artist: { name: 'Band' }
+		}
+	}
+};
+
+describe('server/download/namingTemplates', () => {
+	it('rejects templates that could escape the album layout', () => {
+		expect(parseNamingTemplate('{albumartist}/{year} - {album}', 'folder').ok).toBe(true);
+		expect(parseNamingTemplate('{album}', 'folder').ok).toBe(false);
+		expect(parseNamingTemplate('{artist}/../{album}', 'folder').ok).toBe(false);
+		expect(parseNamingTemplate('{artist}/{album}/{title}', 'folder').ok).toBe(false);
+		expect(parseNamingTemplate('{artist}/{album} {track}', 'folder').ok).toBe(false);
+		expect(parseNamingTemplate('{artist}\\x/{album}', 'folder').ok).toBe(false);
+		expect(parseNamingTemplate('{track} {title', 'file').ok).toBe(false);
+		expect(parseNamingTemplate('{track} {genre}', 'file').ok).toBe(false);
+		expect(parseNamingTemplate('{title}', 'file').ok).toBe(false);
+		expect(normalizeNamingTemplateConfig({ folderTemplate: '', fileTemplate: null })).toEqual({
+			ok: true,
+			config: { folderTemplate: null, fileTemplate: null }
+		});
+	});
+
+	it('renders sanitized folders and filenames from metadata', () => {
+		const config = {
+			folderTemplate: '{albumartist}/{year} - {album} [{quality}]',
+			fileTemplate: '{disc}-{track} {artist} - {title}'
+		};
+		const input = {
+			artistName: '../Band',
+			albumTitle: 'Album',
+			trackId: 42,
+			quality: 'LOSSLESS' as const,
+			trackMetadata,
+			ext: 'flac'
+		};
+		const values = buildNamingTemplateValues(input);
+
+		expect(renderAlbumFolders(config, values)).toEqual({
+			artistDir: 'Band',
+			albumDir: '2001 - Album [Lossless]'
+		});
+		expect(renderTrackFilename(config, input, values)).toBe('2-07 Guest - Song (Remastered).flac');
+
+		const sparse = buildNamingTemplateValues({ artistName: 'Band', albumTitle: 'Album' });
+		expect(renderAlbumFolders(config, sparse).albumDir).toBe('Album');
+		expect(renderAlbumFolders({ folderTemplate: null, fileTemplate: null }, values)).toEqual({
+			artistDir: '__Band',
+			albumDir: 'Album'
+		});
+	});
+
+	it('shortens rendered filenames that would exceed the filename length limit', () => {
+		const config = {
+			folderTemplate: null,
+			fileTemplate: '{albumartist} - {album} - {track} {title}'
+		};
+		const title = 'Symphonie Nr. 9 d-Moll op. 125 „Choral“: IV. Presto – Allegro assai '.repeat(6);
+		const filename = renderTrackFilename(config, {
+			artistName: 'Wiener Philharmoniker',
+			albumTitle: 'Beethoven: Sämtliche Symphonien',
+			trackTitle: title,
+			trackNumber: 4,
+			trackId: 42,
+			ext: 'flac'
+		});
+
+		expect(Buffer.byteLength(filename)).toBeLessThanOrEqual(255);
+		expect(filename).toMatch(/^Wiener Philharmoniker - Beethoven.+~[0-9a-f]{6}\.flac$/);
+	});
+
+	it('recovers artist and album names from templated folders', () => {
+		const layout = createLibraryNamingLayout({
+			folderTemplate: '{albumartist}/{year} - {album} [{quality}]',
+			fileTemplate: null
+		});
+		expect(layout.albumTitleFromDir('2001 - Album - Deluxe [Hi-Res]')).toBe('Album - Deluxe');
+		expect(layout.albumTitleFromDir('Legacy Folder')).toBe('Legacy Folder');
+		// Quality alone doesn't make another release; the year does
+		expect(layout.albumReleaseKeyFromDir('1971 - Album [Lossless]')).toBe(
+			layout.albumReleaseKeyFromDir('1971 - Album [Hi-Res]')
+		);
+		expect(layout.albumReleaseKeyFromDir('1971 - Album [Lossless]')).not.toBe(
+			layout.albumReleaseKeyFromDir('2011 - Album [Lossless]')
+		);
+		expect(layout.albumReleaseKeyFromDir('Legacy Folder')).toBe('Legacy Folder');
+		expect(layout.artistNameFromDir('Band')).toBe('Band');
+
+		const legacy = createLibraryNamingLayout({ folderTemplate: null, fileTemplate: null });
+		expect(legacy.folderTemplate).toBeNull();
+		expect(legacy.expectedFolders('AC/DC', 'Back in Black')).toEqual({
+			artistDir: 'AC_DC',
+			albumDir: 'Back in Black'
+		});
+	});
+});
@@ -0,0 +1,616 @@
+/**
+ * Folder and filename templates for server downloads.
+ *
+ * Templates use `{token}` placeholders, e.g. `{albumartist}/{year} - {album} [{quality}]`
+ * for folders and `{disc}-{track} {title}` for files. Token values are sanitized before
+ * they are spliced in, so metadata can never introduce path separators or `..` segments.
+ * The folder template always has exactly two levels (artist folder / album folder)
+ * because the library index, dedupe and repair tools address albums that way.
+ * A `null` template keeps the built-in `Artist/Album/NN - Title.ext` layout.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Album, AudioQuality } from '$lib/types';
+import { getConnectedRedis } from '$lib/server/redis';
+import {
+	buildServerFilename,
+	sanitizeDirName,
+	sanitizePath,
+	truncatePathComponent
+} from '$lib/server/download/shared';
+
+export type NamingTemplateConfig = {
+	folderTemplate: string | null;
+	fileTemplate: string | null;
+};
+
+export type NamingTemplateToken =
+	| 'albumartist'
+	| 'artist'
+	| 'album'
+	| 'year'
+	| 'date'
+	| 'quality'
+	| 'albumid'
+	| 'upc'
+	| 'disccount'
+	| 'tracktotal'
+	| 'title'
+	| 'track'
+	| 'disc'
+	| 'isrc'
+	| 'trackid';
+
+export type NamingTemplateValues = Partial<Record<NamingTemplateToken, string>>;
+
+export type NamingTemplateTokenInfo = {
+	token: NamingTemplateToken;
+	scope: 'album' | 'track';
+	description: string;
+};
+
+/** Structural subset of `TrackLookup` so callers can pass untrusted request metadata. */
+export type NamingTrackMetadata = {
+	track?: {
+		id?: number;
+		title?: string;
+		version?: string | null;
+		trackNumber?: number;
+		volumeNumber?: number;
+		isrc?: string;
+		artist?: { name?: string };
+		album?: Partial<
+			Pick<Album, 'id' | 'title' | 'releaseDate' | 'upc' | 'numberOfTracks' | 'numberOfVolumes'>
+		> & {
+			artist?: { name?: string };
+		};
+	};
+};
+
+export type NamingTemplateInput = {
+	artistName?: string;
+	albumTitle?: string;
+	trackTitle?: string;
+	trackId?: number;
+	trackNumber?: number;
+	quality?: AudioQuality;
+	trackMetadata?: NamingTrackMetadata;
+	album?: Partial<Album>;
+};
+
+export type AlbumFolders = {
+	artistDir: string;
+	albumDir: string;
+};
+
+type TemplatePart =
+	| { kind: 'literal'; value: string }
+	| { kind: 'token'; token: NamingTemplateToken };
+
+type ParsedTemplate = TemplatePart[][];
+
+export const NAMING_TEMPLATE_TOKENS: NamingTemplateTokenInfo[] = [
+	{ token: 'albumartist', scope: 'album', description: 'Album artist' },
+	{ token: 'artist', scope: 'album', description: 'Track artist (album artist in folders)' },
+	{ token: 'album', scope: 'album', description: 'Album title' },
+	{ token: 'year', scope: 'album', description: 'Release year' },
+	{ token: 'date', scope: 'album', description: 'Release date (YYYY-MM-DD)' },
+	{
+		token: 'quality',
+		scope: 'album',
+		description: 'Requested quality (Hi-Res, Lossless, AAC 320, AAC 96)'
+	},
+	{ token: 'albumid', scope: 'album', description: 'TIDAL album ID' },
+	{ token: 'upc', scope: 'album', description: 'Album UPC' },
+	{ token: 'disccount', scope: 'album', description: 'Number of discs' },
+	{ token: 'tracktotal', scope: 'album', description: 'Number of tracks on the album' },
+	{ token: 'title', scope: 'track', description: 'Track title including version' },
+	{ token: 'track', scope: 'track', description: 'Track number, two digits' },
+	{ token: 'disc', scope: 'track', description: 'Disc number' },
+	{ token: 'isrc', scope: 'track', description: 'Track ISRC' },
+	{ token: 'trackid', scope: 'track', description: 'TIDAL track ID' }
+];
+
+const TOKEN_SCOPE = new Map(NAMING_TEMPLATE_TOKENS.map((info) => [info.token, info.scope]));
+const QUALITY_LABELS: Record<AudioQuality, string> = {
+	HI_RES_LOSSLESS: 'Hi-Res',
+	LOSSLESS: 'Lossless',
+	HIGH: 'AAC 320',
+	LOW: 'AAC 96'
+};
+const TEMPLATE_MAX_LENGTH = 240;
+// eslint-disable-next-line no-control-regex
+const FORBIDDEN_LITERAL_PATTERN = /[<>:"|?*\\\x00-\x1F]/;
+const NAMING_KEY = 'tidal:downloadNaming';
+const NAMING_STATE_FILE = path.join(process.cwd(), 'data', 'download-naming.v1.json');
+const NAMING_REFRESH_MS = 10_000;
+
+let cachedConfig: NamingTemplateConfig | null = null;
+let cachedAt = 0;
+
+function parseSegment(
+	segment: string
+): { ok: true; parts: TemplatePart[] } | { ok: false; error: string } {
+	const parts: TemplatePart[] = [];
+	let index = 0;
+	while (index < segment.length) {
+		const open = segment.indexOf('{', index);
+		const literal = segment.slice(index, open === -1 ? undefined : open);
+		if (literal.includes('}')) {
+			return { ok: false, error: 'Unmatched "}" in template' };
+		}
+		if (FORBIDDEN_LITERAL_PATTERN.test(literal)) {
+			return {
+				ok: false,
+				error: `Template text "${literal}" contains characters not allowed in paths`
+			};
+		}
+		if (literal) parts.push({ kind: 'literal', value: literal });
+		if (open === -1) break;
+
+		const close = segment.indexOf('}', open);
+		if (close === -1) {
+			return { ok: false, error: 'Unclosed "{" in template' };
+		}
+		const token = segment
+			.slice(open + 1, close)
+			.trim()
+			.toLowerCase();
+		if (!TOKEN_SCOPE.has(token as NamingTemplateToken)) {
+			return { ok: false, error: `Unknown token {${token}}` };
+		}
+		parts.push({ kind: 'token', token: token as NamingTemplateToken });
+		index = close + 1;
+	}
+	return { ok: true, parts };
+}
+
+function hasToken(parts: TemplatePart[], ...tokens: NamingTemplateToken[]): boolean {
+	return parts.some((part) => part.kind === 'token' && tokens.includes(part.token));
+}
+
+/**
+ * Parse and validate a template. Folder templates must be `artist/album` shaped and may
+ * only use album-level tokens; file templates must identify the track uniquely.
+ */
+export function parseNamingTemplate(
+	template: string,
+	kind: 'folder' | 'file'
+): { ok: true; template: ParsedTemplate } | { ok: false; error: string } {
+	const trimmed = template.trim();
+	if (!trimmed) {
+		return { ok: false, error: `${kind} template is empty` };
+	}
+	if (trimmed.length > TEMPLATE_MAX_LENGTH) {
+		return { ok: false, error: `${kind} template exceeds ${TEMPLATE_MAX_LENGTH} characters` };
+	}
+
+	const rawSegments = trimmed.split('/');
+	if (kind === 'file' && rawSegments.length !== 1) {
+		return { ok: false, error: 'file template cannot contain "/"' };
+	}
+	if (kind === 'folder' && rawSegments.length !== 2) {
+		return {
+			ok: false,
+			error: 'folder template must have exactly two levels: artist folder / album folder'
+		};
+	}
+
+	const segments: ParsedTemplate = [];
+	for (const rawSegment of rawSegments) {
+		const segment = rawSegment.trim();
+		if (!segment || /^\.+$/.test(segment)) {
+			return { ok: false, error: `${kind} template contains an empty or relative path segment` };
+		}
+		const parsed = parseSegment(segment);
+		if (!parsed.ok) return parsed;
+		if (kind === 'folder') {
+			const trackToken = parsed.parts.find(
+				(part) => part.kind === 'token' && TOKEN_SCOPE.get(part.token) === 'track'
+			);
+			if (trackToken && trackToken.kind === 'token') {
+				return {
+					ok: false,
+					error: `{${trackToken.token}} is a track token and cannot be used in folder names`
+				};
+			}
+		}
+		segments.push(parsed.parts);
+	}
+
+	if (kind === 'folder') {
+		if (!hasToken(segments[0], 'albumartist', 'artist')) {
+			return { ok: false, error: 'artist folder must contain {albumartist} or {artist}' };
+		}
+		if (!hasToken(segments[1], 'album')) {
+			return { ok: false, error: 'album folder must contain {album}' };
+		}
+	} else if (!hasToken(segments[0], 'title') || !hasToken(segments[0], 'track', 'trackid')) {
+		return { ok: false, error: 'file template must contain {title} and {track} or {trackid}' };
+	}
+	return { ok: true, template: segments };
+}
+
+function normalizeTemplateField(
+	value: unknown,
+	kind: 'folder' | 'file'
+): { ok: true; template: string | null } | { ok: false; error: string } {
+	if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+		return { ok: true, template: null };
+	}
+	if (typeof value !== 'string') {
+		return { ok: false, error: `${kind}Template must be a string or null` };
+	}
+	const parsed = parseNamingTemplate(value, kind);
+	if (!parsed.ok) return parsed;
+	return {
+		ok: true,
+		template: value
+			.trim()
+			.split('/')
+			.map((segment) => segment.trim())
+			.join('/')
+	};
+}
+
+/**
+ * Validate an untrusted config payload. Empty or null templates fall back to the built-in layout.
+ */
+export function normalizeNamingTemplateConfig(
+	input: unknown
+): { ok: true; config: NamingTemplateConfig } | { ok: false; error: string } {
+	if (!input || typeof input !== 'object') {
+		return { ok: false, error: 'Naming config must be an object' };
+	}
+	const candidate = input as Record<string, unknown>;
+	const folder = normalizeTemplateField(candidate.folderTemplate, 'folder');
+	if (!folder.ok) return folder;
+	const file = normalizeTemplateField(candidate.fileTemplate, 'file');
+	if (!file.ok) return file;
+	return { ok: true, config: { folderTemplate: folder.template, fileTemplate: file.template } };
+}
+
+function toPositiveInt(value: unknown): number | undefined {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? Math.trunc(parsed) : undefined;
+}
+
+export function buildNamingTemplateValues(input: NamingTemplateInput): NamingTemplateValues {
+	const track = input.trackMetadata?.track;
+	const album = { ...track?.album, ...input.album };
+	const albumArtist =
+		input.artistName || album.artist?.name || track?.artist?.name || 'Unknown Artist';
+	const releaseDate = typeof album.releaseDate === 'string' ? album.releaseDate.slice(0, 10) : '';
+	const title =
+		input.trackTitle ||
+		(track?.title ? (track.version ? `${track.title} (${track.version})` : track.title) : '');
+	const trackNumber = input.trackNumber ?? toPositiveInt(track?.trackNumber);
+	const discNumber = toPositiveInt(track?.volumeNumber);
+	const trackId = input.trackId ?? toPositiveInt(track?.id);
+
+	return {
+		albumartist: albumArtist,
+		artist: track?.artist?.name || albumArtist,
+		album: input.albumTitle || album.title || 'Unknown Album',
+		year: /^\d{4}/.test(releaseDate) ? releaseDate.slice(0, 4) : '',
+		date: releaseDate,
+		quality: input.quality ? QUALITY_LABELS[input.quality] : '',
+		albumid: toPositiveInt(album.id)?.toString() ?? '',
+		upc: album.upc ?? '',
+		disccount: toPositiveInt(album.numberOfVolumes)?.toString() ?? '',
+		tracktotal: toPositiveInt(album.numberOfTracks)?.toString() ?? '',
+		title,
+		track: trackNumber ? `${trackNumber}`.padStart(2, '0') : '',
+		disc: discNumber?.toString() ?? '',
+		isrc: track?.isrc ?? '',
+		trackid: trackId?.toString() ?? ''
+	};
+}
+
+/**
+ * Collapse what is left around empty tokens, e.g. `2020 - Album []` or ` - Title`.
+ */
+function tidyRenderedSegment(value: string): string {
+	return value
+		.replace(/\(\s*\)|\[\s*\]/g, '')
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s\-_]+|[\s\-_]+$/g, '')
+		.trim();
+}
+
+function renderParts(parts: TemplatePart[], values: NamingTemplateValues): string {
+	return tidyRenderedSegment(
+		parts
+			.map((part) => {
+				if (part.kind === 'literal') return part.value;
+				const value = values[part.token];
+				return value ? sanitizePath(value) : '';
+			})
+			.join('')
+	);
+}
+
+function parseOrNull(template: string | null, kind: 'folder' | 'file'): ParsedTemplate | null {
+	if (!template) return null;
+	const parsed = parseNamingTemplate(template, kind);
+	return parsed.ok ? parsed.template : null;
+}
+
+export function renderAlbumFolders(
+	config: NamingTemplateConfig,
+	values: NamingTemplateValues
+): AlbumFolders {
+	const folder = parseOrNull(config.folderTemplate, 'folder');
+	if (!folder) {
+		return {
+			artistDir: sanitizeDirName(values.albumartist || 'Unknown Artist'),
+			albumDir: sanitizeDirName(values.album || 'Unknown Album')
+		};
+	}
+	return {
+		artistDir: sanitizeDirName(renderParts(folder[0], values) || 'Unknown Artist'),
+		albumDir: sanitizeDirName(renderParts(folder[1], values) || 'Unknown Album')
+	};
+}
+
+export function renderTrackFilename(
+	config: NamingTemplateConfig,
+	input: NamingTemplateInput & { trackId: number; ext: string },
+	values: NamingTemplateValues = buildNamingTemplateValues(input)
+): string {
+	const file = parseOrNull(config.fileTemplate, 'file');
+	if (!file) {
+		return buildServerFilename(
+			input.artistName,
+			input.trackTitle,
+			input.trackId,
+			input.ext,
+			input.trackMetadata,
+			input.trackNumber
+		);
+	}
+	const rendered = renderParts(file[0], values);
+	const stem = rendered ? sanitizePath(rendered) : `track-${input.trackId}`;
+	return `${truncateFileStem(stem, input.ext)}.${input.ext}`;
+}
+
+// Most filesystems cap a single filename at 255 bytes
+const FILENAME_MAX_BYTES = 255;
+
+/** Shorten a rendered filename stem so `<stem>.<ext>` fits in one filename, in UTF-8 bytes. */
+function truncateFileStem(stem: string, ext: string): string {
+	const maxBytes = FILENAME_MAX_BYTES - Buffer.byteLength(`.${ext}`);
+	let maxLength = maxBytes;
+	let truncated = truncatePathComponent(stem, maxLength);
+	while (Buffer.byteLength(truncated) > maxBytes && maxLength > 16) {
+		maxLength = Math.max(16, maxLength - (Buffer.byteLength(truncated) - maxBytes));
+		truncated = truncatePathComponent(stem, maxLength);
+	}
+	return truncated;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Recover one token's value from a folder name rendered with `parts`. Returns null when
+ * the name does not follow the template (legacy folders, empty-token cleanup, truncation).
+ */
+function extractTokenValue(
+	parts: TemplatePart[],
+	dirName: string,
+	token: NamingTemplateToken
+): string | null {
+	let captured = false;
+	const pattern = parts
+		.map((part) => {
+			if (part.kind === 'literal') return escapeRegExp(part.value);
+			if (part.token === token && !captured) {
+				captured = true;
+				return '(.+?)';
+			}
+			return '.*?';
+		})
+		.join('');
+	const match = new RegExp(`^${pattern}$`).exec(dirName);
+	return match?.[1]?.trim() || null;
+}
+
+/**
+ * How the library on disk is laid out, for lookup and dedupe.
+ */
+export type LibraryNamingLayout = {
+	/** `null` when folders use the built-in `Artist/Album` layout. */
+	folderTemplate: string | null;
+	expectedFolders(artistName: string | undefined, albumTitle: string | undefined): AlbumFolders;
+	artistNameFromDir(dirName: string): string;
+	albumTitleFromDir(dirName: string): string;
+	/**
+	 * The album title plus every other templated detail except quality (year, date, IDs), so
+	 * folders with the same key hold the same release. Untemplated folders key on their name.
+	 */
+	albumReleaseKeyFromDir(dirName: string): string;
+};
+
+export function createLibraryNamingLayout(config: NamingTemplateConfig): LibraryNamingLayout {
+	const folder = parseOrNull(config.folderTemplate, 'folder');
+	const artistToken: NamingTemplateToken =
+		folder && hasToken(folder[0], 'albumartist') ? 'albumartist' : 'artist';
+	// Quality is the one folder detail that differs between copies of the same release
+	const releaseTokens = folder
+		? [
+				...new Set(
+					folder[1].flatMap((part) =>
+						part.kind === 'token' && part.token !== 'album' && part.token !== 'quality'
+							? [part.token]
+							: []
+					)
+				)
+			]
+		: [];
+	return {
+		folderTemplate: folder ? config.folderTemplate : null,
+		expectedFolders: (artistName, albumTitle) =>
+			renderAlbumFolders(
+				config,
+				buildNamingTemplateValues({ artistName, albumTitle: albumTitle || undefined })
+			),
+		artistNameFromDir: (dirName) =>
+			folder ? (extractTokenValue(folder[0], dirName, artistToken) ?? dirName) : dirName,
+		albumTitleFromDir: (dirName) =>
+			folder ? (extractTokenValue(folder[1], dirName, 'album') ?? dirName) : dirName,
+		albumReleaseKeyFromDir: (dirName) => {
+			const title = folder ? extractTokenValue(folder[1], dirName, 'album') : null;
+			if (!folder || title === null) {
+				return dirName;
+			}
+			const details = releaseTokens.map(
+				(token) => extractTokenValue(folder[1], dirName, token) ?? ''
+			);
+			return [title, ...details].join('\u0000');
+		}
+	};
+}
+
+async function readPersistedConfig(): Promise<NamingTemplateConfig | null> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const raw = await client.get(NAMING_KEY);
+			if (raw) {
+				const normalized = normalizeNamingTemplateConfig(JSON.parse(raw));
+				if (normalized.ok) return normalized.config;
+			}
+		} catch (error) {
+			console.warn('[Download Naming] Redis read failed:', error);
+		}
+	}
+
+	try {
+		const raw = await fs.readFile(NAMING_STATE_FILE, 'utf8');
+		const payload = JSON.parse(raw) as { version?: number; naming?: unknown };
+		if (payload?.version !== 1) return null;
+		const normalized = normalizeNamingTemplateConfig(payload.naming);
+		return normalized.ok ? normalized.config : null;
+	} catch {
+		// No persisted naming config yet.
+		return null;
+	}
+}
+
+export function getDefaultNamingTemplateConfig(): NamingTemplateConfig {
+	const fallback = normalizeNamingTemplateConfig({
+		folderTemplate: process.env.DOWNLOAD_FOLDER_TEMPLATE,
+		fileTemplate: process.env.DOWNLOAD_FILE_TEMPLATE
+	});
+	if (!fallback.ok) {
+		console.warn(`[Download Naming] Ignoring invalid template from environment: ${fallback.error}`);
+		return { folderTemplate: null, fileTemplate: null };
+	}
+	return fallback.config;
+}
+
+export async function getNamingTemplateConfig(
+	options: { forceRefresh?: boolean } = {}
+): Promise<NamingTemplateConfig> {
+	const now = Date.now();
+	if (cachedConfig && !options.forceRefresh && now - cachedAt < NAMING_REFRESH_MS) {
+		return cachedConfig;
+	}
+	cachedConfig = (await readPersistedConfig()) ?? getDefaultNamingTemplateConfig();
+	cachedAt = now;
+	return cachedConfig;
+}
+
+export async function saveNamingTemplateConfig(config: NamingTemplateConfig): Promise<void> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			await client.set(NAMING_KEY, JSON.stringify(config));
+		} catch (error) {
+			console.warn('[Download Naming] Redis write failed, using local state:', error);
+		}
+	}
+	try {
+		await fs.mkdir(path.dirname(NAMING_STATE_FILE), { recursive: true });
+		await fs.writeFile(
+			NAMING_STATE_FILE,
+			JSON.stringify({ version: 1, savedAt: Date.now(), naming: config }, null, 2)
+		);
+	} catch (error) {
+		console.warn('[Download Naming] Failed to persist naming config:', error);
+	}
+	cachedConfig = config;
+	cachedAt = Date.now();
+}
+
+export async function getLibraryNamingLayout(): Promise<LibraryNamingLayout> {
+	return createLibraryNamingLayout(await getNamingTemplateConfig());
+}
+
+const PREVIEW_SAMPLES: Array<NamingTemplateInput & { trackId: number; ext: string }> = [
+	{
+		trackId: 77610757,
+		ext: 'flac',
+		quality: 'HI_RES_LOSSLESS',
+		trackMetadata: {
+			track: {
+				title: 'Teardrop',
+				trackNumber: 3,
+				volumeNumber: 1,
+				isrc: 'GBAAA9800189',
+				artist: { name: 'Massive Attack' },
+				album: {
+					id: 77610754,
+					title: 'Mezzanine',
+					releaseDate: '1998-04-20',
+					numberOfTracks: 11,
+					numberOfVolumes: 1,
+					artist: { name: 'Massive Attack' }
+				}
+			}
+		}
+	},
+	{
+		trackId: 1566052,
+		ext: 'm4a',
+		quality: 'HIGH',
+		trackMetadata: {
+			track: {
+				title: 'Everything In Its Right Place',
+				version: 'Live',
+				trackNumber: 1,
+				volumeNumber: 2,
+				artist: { name: 'Radiohead' },
+				album: {
+					title: 'I Might Be Wrong',
+					numberOfTracks: 8,
+					numberOfVolumes: 2,
+					artist: { name: 'Radiohead' }
+				}
+			}
+		}
+	}
+];
+
+/**
+ * Render sample tracks through a config so the settings UI can show the resulting paths.
+ */
+export function previewNamingTemplates(config: NamingTemplateConfig): string[] {
+	return PREVIEW_SAMPLES.map((sample) => {
+		const values = buildNamingTemplateValues(sample);
+		const folders = renderAlbumFolders(config, values);
+		return [folders.artistDir, folders.albumDir, renderTrackFilename(config, sample, values)].join(
+			'/'
+		);
+	});
+}
+
+export const __test = {
+	resetCachedConfig: () => {
+		cachedConfig = null;
+		cachedAt = 0;
+	}
+};
@@ -522,6 +522,11 @@ export const getDownloadDir = (): string => {
 	return process.env.DOWNLOAD_DIR || '/tmp/tidal-ui-downloads';
 };
 
+// Path of a saved file relative to the download directory, for user-facing messages
+export const toDownloadRelativePath = (filepath: string): string => {
+	return path.relative(getDownloadDir(), filepath).split(path.sep).join('/');
+};
+
 const DEFAULT_DIR_COMPONENT_MAX_LENGTH = 80;
 const DIR_COMPONENT_MAX_LENGTH = (() => {
 	const raw =
@@ -551,7 +556,7 @@ export const sanitizePath = (input: string | null | undefined): string => {
 	);
 };
 
-const truncatePathComponent = (value: string, maxLength: number): string => {
+export const truncatePathComponent = (value: string, maxLength: number): string => {
 	if (value.length <= maxLength) return value;
 	const hash = createHash(CHECKSUM_ALGORITHM).update(value).digest('hex').slice(0, 6);
 	const suffix = `~${hash}`;
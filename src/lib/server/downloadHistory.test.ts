@@ -0,0 +1,103 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	appendDownloadHistoryEntry,
+	buildDownloadHistoryEntry,
+	parseDownloadHistoryQuery,
+	queryDownloadHistory,
+	recordDownloadHistory
+} from './downloadHistory';
+import type { QueuedJob } from './downloadQueueTypes';
+
+function createJob(overrides: Partial<QueuedJob> = {}): QueuedJob {
+	return {
+		id: 'job-1',
+		job: {
+			type: 'album',
+			albumId: 77,
+			quality: 'LOSSLESS',
+			artistName: 'Artist',
+			albumTitle: 'Album'
+		},
+		status: 'completed',
+		progress: 1,
+		createdAt: 1_000,
+		completedAt: 2_000,
+		...overrides
+	};
+}
+
+describe('downloadHistory', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'download-history-'));
+		vi.stubEnv('DOWNLOAD_HISTORY_FILE', path.join(tempDir, 'history.jsonl'));
+	});
+
+	afterEach(async () => {
+		vi.unstubAllEnvs();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('keeps the requested quality and fallback chain for downgraded jobs', () => {
+		const entry = buildDownloadHistoryEntry(
+			createJob({ fallbackHistory: ['HI_RES_LOSSLESS'], outputPath: '/music/Artist/Album' })
+		);
+		expect(entry).toMatchObject({
+			jobId: 'job-1',
+			requestedQuality: 'HI_RES_LOSSLESS',
+			quality: 'LOSSLESS',
+			fallbackHistory: ['HI_RES_LOSSLESS'],
+			outputPath: '/music/Artist/Album'
+		});
+		expect(buildDownloadHistoryEntry(createJob({ status: 'processing' }))).toBeNull();
+	});
+
+	it('appends entries and pages through them newest first with filters', async () => {
+		for (let index = 0; index < 5; index += 1) {
+			const entry = buildDownloadHistoryEntry(
+				createJob({
+					id: `job-${index}`,
+					status: index === 2 ? 'failed' : 'completed',
+					error: index === 2 ? 'HTTP 404' : undefined
+				}),
+				10_000 + index
+			);
+			await appendDownloadHistoryEntry(entry!);
+		}
+
+		const firstPage = await queryDownloadHistory({ limit: 2, offset: 0 });
+		expect(firstPage.total).toBe(5);
+		expect(firstPage.entries.map((entry) => entry.jobId)).toEqual(['job-4', 'job-3']);
+
+		const failed = await queryDownloadHistory({ status: 'failed', limit: 10, offset: 0 });
+		expect(failed.entries).toHaveLength(1);
+		expect(failed.entries[0]?.error).toBe('HTTP 404');
+
+		const bySearch = await queryDownloadHistory({ search: '77', limit: 10, offset: 0 });
+		expect(bySearch.total).toBe(5);
+	});
+
+	it('skips torn lines and tolerates a missing ledger', async () => {
+		expect((await queryDownloadHistory({ limit: 10, offset: 0 })).total).toBe(0);
+		await recordDownloadHistory(createJob());
+		await fs.appendFile(process.env.DOWNLOAD_HISTORY_FILE!, '{"jobId":"torn', 'utf8');
+		expect((await queryDownloadHistory({ limit: 10, offset: 0 })).total).toBe(1);
+	});
+
+	it('validates and clamps query parameters', () => {
+		const parsed = parseDownloadHistoryQuery(
+			new URLSearchParams('status=completed&limit=5000&offset=-3&since=2026-01-01')
+		);
+		expect(parsed).toMatchObject({
+			ok: true,
+			query: { status: 'completed', limit: 200, offset: 0, since: Date.parse('2026-01-01') }
+		});
+		expect(parseDownloadHistoryQuery(new URLSearchParams('status=queued')).ok).toBe(false);
+		expect(parseDownloadHistoryQuery(new URLSearchParams('quality=ULTRA')).ok).toBe(false);
+		expect(parseDownloadHistoryQuery(new URLSearchParams('until=yesterday')).ok).toBe(false);
+	});
+});
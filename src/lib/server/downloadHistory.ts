@@ -0,0 +1,249 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { AudioQuality } from '$lib/types';
+import { getDownloadDir } from './download/shared';
+import type { JobStatus, JobType, QueuedJob } from './downloadQueueTypes';
+
+/**
+ * Append-only ledger of jobs that reached a terminal state.
+ *
+ * Queue retention deletes finished jobs after a while; this ledger keeps the
+ * record of what was fetched, at which quality, through which fallbacks and to
+ * which path. It is a JSONL file next to the downloads so it travels with the
+ * library rather than with the queue backend.
+ */
+
+export type DownloadHistoryStatus = Extract<JobStatus, 'completed' | 'failed' | 'cancelled'>;
+
+export interface DownloadHistoryEntry {
+	id: string;
+	jobId: string;
+	recordedAt: number;
+	status: DownloadHistoryStatus;
+	type: JobType;
+	trackId?: number;
+	albumId?: number;
+	artistName?: string;
+	albumTitle?: string;
+	trackTitle?: string;
+	requestedQuality: AudioQuality;
+	quality: AudioQuality;
+	fallbackHistory: AudioQuality[];
+	outputPath?: string;
+	fileSize?: number;
+	trackCount?: number;
+	completedTracks?: number;
+	downloadTimeMs?: number;
+	retryCount: number;
+	error?: string;
+	failureCode?: string;
+	batchId?: string;
+	createdAt: number;
+	startedAt?: number;
+	completedAt?: number;
+}
+
+export interface DownloadHistoryQuery {
+	status?: DownloadHistoryStatus;
+	type?: JobType;
+	quality?: AudioQuality;
+	search?: string;
+	since?: number;
+	until?: number;
+	limit: number;
+	offset: number;
+}
+
+export interface DownloadHistoryPage {
+	entries: DownloadHistoryEntry[];
+	total: number;
+	limit: number;
+	offset: number;
+}
+
+const HISTORY_FILE_NAME = '.download-history.v1.jsonl';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const TERMINAL_STATUSES = new Set<JobStatus>(['completed', 'failed', 'cancelled']);
+const HISTORY_STATUSES: DownloadHistoryStatus[] = ['completed', 'failed', 'cancelled'];
+const HISTORY_QUALITIES: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+
+let appendChain: Promise<void> = Promise.resolve();
+
+function resolveHistoryFile(): string {
+	return process.env.DOWNLOAD_HISTORY_FILE?.trim() || path.join(getDownloadDir(), HISTORY_FILE_NAME);
+}
+
+export function isTerminalJobStatus(status: JobStatus | undefined): status is DownloadHistoryStatus {
+	return status !== undefined && TERMINAL_STATUSES.has(status);
+}
+
+export function buildDownloadHistoryEntry(
+	job: QueuedJob,
+	recordedAt: number = Date.now()
+): DownloadHistoryEntry | null {
+	if (!isTerminalJobStatus(job.status)) {
+		return null;
+	}
+	const fallbackHistory = Array.isArray(job.fallbackHistory) ? [...job.fallbackHistory] : [];
+	return {
+		id: `${job.id}:${job.completedAt ?? recordedAt}`,
+		jobId: job.id,
+		recordedAt,
+		status: job.status,
+		type: job.job.type,
+		trackId: job.job.type === 'track' ? job.job.trackId : undefined,
+		albumId: job.job.type === 'album' ? job.job.albumId : undefined,
+		artistName: job.job.artistName,
+		albumTitle: job.job.albumTitle,
+		trackTitle: job.job.type === 'track' ? job.job.trackTitle : undefined,
+		requestedQuality: fallbackHistory[0] ?? job.job.quality,
+		quality: job.job.quality,
+		fallbackHistory,
+		outputPath: job.outputPath,
+		fileSize: job.fileSize,
+		trackCount: job.trackCount,
+		completedTracks: job.completedTracks,
+		downloadTimeMs: job.downloadTimeMs,
+		retryCount: job.retryCount ?? 0,
+		error: job.status === 'completed' ? undefined : (job.error ?? job.lastError),
+		failureCode: job.failureCode,
+		batchId: job.batchId,
+		createdAt: job.createdAt,
+		startedAt: job.startedAt,
+		completedAt: job.completedAt
+	};
+}
+
+/**
+ * Append one entry. Writes are chained so concurrent workers never interleave lines.
+ */
+export async function appendDownloadHistoryEntry(entry: DownloadHistoryEntry): Promise<void> {
+	const historyFile = resolveHistoryFile();
+	const write = appendChain.then(async () => {
+		await fs.mkdir(path.dirname(historyFile), { recursive: true });
+		await fs.appendFile(historyFile, `${JSON.stringify(entry)}\n`, 'utf8');
+	});
+	appendChain = write.catch(() => undefined);
+	await write;
+}
+
+/**
+ * Record a job that just reached a terminal state. Failures are logged, never thrown,
+ * so a full disk cannot wedge the worker.
+ */
+export async function recordDownloadHistory(job: QueuedJob): Promise<void> {
+	const entry = buildDownloadHistoryEntry(job);
+	if (!entry) {
+		return;
+	}
+	try {
+		await appendDownloadHistoryEntry(entry);
+	} catch (error) {
+		console.warn('[Queue] Failed to append download history entry:', error);
+	}
+}
+
+async function readDownloadHistoryEntries(): Promise<DownloadHistoryEntry[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(resolveHistoryFile(), 'utf8');
+	} catch {
+		return [];
+	}
+	const entries: DownloadHistoryEntry[] = [];
+	for (const line of raw.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const parsed = JSON.parse(line) as DownloadHistoryEntry;
+			if (parsed && typeof parsed.jobId === 'string' && typeof parsed.recordedAt === 'number') {
+				entries.push(parsed);
+			}
+		} catch {
+			// Skip a torn trailing line from an interrupted append.
+		}
+	}
+	return entries;
+}
+
+function matchesHistoryQuery(entry: DownloadHistoryEntry, query: DownloadHistoryQuery): boolean {
+	if (query.status && entry.status !== query.status) return false;
+	if (query.type && entry.type !== query.type) return false;
+	if (query.quality && entry.quality !== query.quality) return false;
+	if (query.since !== undefined && entry.recordedAt < query.since) return false;
+	if (query.until !== undefined && entry.recordedAt > query.until) return false;
+	if (query.search) {
+		const haystack = [entry.artistName, entry.albumTitle, entry.trackTitle, entry.outputPath]
+			.filter(Boolean)
+			.join('\n')
+			.toLowerCase();
+		const idMatch =
+			String(entry.albumId ?? '') === query.search || String(entry.trackId ?? '') === query.search;
+		if (!idMatch && !haystack.includes(query.search.toLowerCase())) return false;
+	}
+	return true;
+}
+
+export async function queryDownloadHistory(query: DownloadHistoryQuery): Promise<DownloadHistoryPage> {
+	const entries = await readDownloadHistoryEntries();
+	const matching = entries
+		.filter((entry) => matchesHistoryQuery(entry, query))
+		.sort((left, right) => right.recordedAt - left.recordedAt);
+	return {
+		entries: matching.slice(query.offset, query.offset + query.limit),
+		total: matching.length,
+		limit: query.limit,
+		offset: query.offset
+	};
+}
+
+function parseTimestampParam(value: string | null): number | undefined | null {
+	if (value === null || value.trim() === '') return undefined;
+	const numeric = Number(value);
+	if (Number.isFinite(numeric)) return numeric;
+	const parsed = Date.parse(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseDownloadHistoryQuery(
+	params: URLSearchParams
+): { ok: true; query: DownloadHistoryQuery } | { ok: false; error: string } {
+	const status = params.get('status') || undefined;
+	if (status && !HISTORY_STATUSES.includes(status as DownloadHistoryStatus)) {
+		return { ok: false, error: `status must be one of: ${HISTORY_STATUSES.join(', ')}` };
+	}
+	const type = params.get('type') || undefined;
+	if (type && type !== 'track' && type !== 'album') {
+		return { ok: false, error: 'type must be track or album' };
+	}
+	const quality = params.get('quality') || undefined;
+	if (quality && !HISTORY_QUALITIES.includes(quality as AudioQuality)) {
+		return { ok: false, error: `quality must be one of: ${HISTORY_QUALITIES.join(', ')}` };
+	}
+	const since = parseTimestampParam(params.get('since'));
+	const until = parseTimestampParam(params.get('until'));
+	if (since === null || until === null) {
+		return { ok: false, error: 'since/until must be epoch milliseconds or ISO dates' };
+	}
+
+	const rawLimit = Number(params.get('limit') ?? DEFAULT_PAGE_SIZE);
+	const rawOffset = Number(params.get('offset') ?? 0);
+	const limit = Number.isFinite(rawLimit)
+		? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(rawLimit)))
+		: DEFAULT_PAGE_SIZE;
+	const offset = Number.isFinite(rawOffset) ? Math.max(0, Math.floor(rawOffset)) : 0;
+
+	return {
+		ok: true,
+		query: {
+			status: status as DownloadHistoryStatus | undefined,
+			type: type as JobType | undefined,
+			quality: quality as AudioQuality | undefined,
+			search: params.get('q')?.trim() || undefined,
+			since,
+			until,
+			limit,
+			offset
+		}
+	};
+}
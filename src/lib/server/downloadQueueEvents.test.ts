@@ -0,0 +1,97 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./redis', () => ({
+	getConnectedRedis: vi.fn(async () => null)
+}));
+
+import {
+	__test,
+	getLatestDownloadQueueEventId,
+	publishDownloadQueueEvent,
+	readDownloadQueueEventsSince,
+	subscribeDownloadQueueEvents,
+	type QueueEvent
+} from './downloadQueueEvents';
+import type { QueuedJob } from './downloadQueueTypes';
+
+const job = (id: string, progress = 0): QueuedJob => ({
+	id,
+	job: { type: 'track', trackId: 1, quality: 'LOSSLESS' },
+	status: 'processing',
+	progress,
+	createdAt: 1
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('downloadQueueEvents (memory stream)', () => {
+	beforeEach(() => {
+		__test.reset();
+	});
+
+	afterEach(() => {
+		__test.reset();
+	});
+
+	it('delivers events live with increasing ids', async () => {
+		const received: QueueEvent[] = [];
+		const unsubscribe = subscribeDownloadQueueEvents((event) => received.push(event));
+
+		await publishDownloadQueueEvent('created', 'job-1', job('job-1'));
+		await publishDownloadQueueEvent('progress', 'job-1', job('job-1', 0.5));
+		await publishDownloadQueueEvent('removed', 'job-1', job('job-1'));
+		unsubscribe();
+		await publishDownloadQueueEvent('created', 'job-2', job('job-2'));
+
+		expect(received.map((event) => event.type)).toEqual(['created', 'progress', 'removed']);
+		expect(received[1]?.job?.progress).toBe(0.5);
+		expect(received[2]?.job).toBeUndefined();
+		const sequences = received.map((event) => Number(event.id.split(':').pop()));
+		expect(sequences).toEqual([1, 2, 3]);
+	});
+
+	it('replays missed events after Last-Event-ID before live ones', async () => {
+		await publishDownloadQueueEvent('created', 'job-1', job('job-1'));
+		const cursor = await getLatestDownloadQueueEventId();
+		await publishDownloadQueueEvent('progress', 'job-1', job('job-1', 0.25));
+		await publishDownloadQueueEvent('terminal', 'job-1', job('job-1', 1));
+
+		const received: QueueEvent[] = [];
+		const onReset = vi.fn();
+		const unsubscribe = subscribeDownloadQueueEvents((event) => received.push(event), {
+			lastEventId: cursor,
+			onReset
+		});
+		// Published while the replay is still being read
+		await publishDownloadQueueEvent('created', 'job-2', job('job-2'));
+		await flush();
+		unsubscribe();
+
+		expect(onReset).not.toHaveBeenCalled();
+		expect(received.map((event) => `${event.type}:${event.jobId}`)).toEqual([
+			'progress:job-1',
+			'terminal:job-1',
+			'created:job-2'
+		]);
+	});
+
+	it('asks for a reset when the id is from another stream or older than the backlog', async () => {
+		await publishDownloadQueueEvent('created', 'job-1', job('job-1'));
+		const staleStreamId = await getLatestDownloadQueueEventId();
+
+		__test.reset();
+		await publishDownloadQueueEvent('created', 'job-2', job('job-2'));
+		const latestId = await getLatestDownloadQueueEventId();
+		expect(await readDownloadQueueEventsSince(staleStreamId)).toEqual({ reset: true, latestId });
+		expect(await readDownloadQueueEventsSince('garbage')).toEqual({ reset: true, latestId });
+
+		const stream = latestId.slice(0, latestId.lastIndexOf(':'));
+		for (let index = 0; index <= __test.BACKLOG_LIMIT; index += 1) {
+			await publishDownloadQueueEvent('progress', 'job-2', job('job-2', index / 1000));
+		}
+		expect(await readDownloadQueueEventsSince(`${stream}:1`)).toMatchObject({ reset: true });
+		const recent = await readDownloadQueueEventsSince(`${stream}:${__test.BACKLOG_LIMIT}`);
+		expect(recent.reset ? [] : recent.events).toHaveLength(2);
+	});
+});
@@ -0,0 +1,276 @@
+/**
+ * Download queue change events, streamed to browsers by `/api/download-queue/events`.
+ *
+ * Event ids look like `<stream>:<sequence>`. With Redis the sequence, a short backlog and a
+ * pub/sub channel live in Redis, so a worker in another process reaches every stream and a
+ * browser can resume against any server. The in-memory queue keeps its backlog here and names
+ * its stream after this process, so ids from before a restart ask the client to reload instead
+ * of replaying a different history.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type Redis from 'ioredis';
+import { getConnectedRedis } from './redis';
+import type { QueuedJob } from './downloadQueueTypes';
+
+export type QueueEventType = 'created' | 'updated' | 'progress' | 'terminal' | 'removed';
+
+export type QueueEvent = {
+	id: string;
+	type: QueueEventType;
+	jobId: string;
+	// Absent for `removed`
+	job?: QueuedJob;
+	at: number;
+};
+
+export type QueueEventListener = (event: QueueEvent) => void;
+
+const EVENTS_KEY = 'tidal:downloadQueue:events';
+const SEQUENCE_KEY = 'tidal:downloadQueue:events:seq';
+const EVENTS_CHANNEL = 'tidal:downloadQueue:events';
+const BACKLOG_LIMIT = 500;
+const REDIS_STREAM = 'redis';
+const logPrefix = '[Queue Events]';
+
+const processId = randomUUID().slice(0, 8);
+const listeners = new Set<QueueEventListener>();
+let memoryStream = `memory-${processId}`;
+let memorySequence = 0;
+let memoryBacklog: QueueEvent[] = [];
+let subscriber: Redis | null = null;
+let subscriberPromise: Promise<void> | null = null;
+
+type RedisEnvelope = { origin: string; event: QueueEvent };
+
+function parseEventId(id: string | null | undefined): { stream: string; sequence: number } | null {
+	const separator = id?.lastIndexOf(':') ?? -1;
+	if (!id || separator <= 0) {
+		return null;
+	}
+	const sequence = Number(id.slice(separator + 1));
+	if (!Number.isSafeInteger(sequence) || sequence < 0) {
+		return null;
+	}
+	return { stream: id.slice(0, separator), sequence };
+}
+
+function sequenceOf(event: QueueEvent): number {
+	return parseEventId(event.id)?.sequence ?? 0;
+}
+
+function notify(event: QueueEvent): void {
+	for (const listener of listeners) {
+		try {
+			listener(event);
+		} catch (error) {
+			console.warn(`${logPrefix} Listener failed:`, error);
+		}
+	}
+}
+
+/** Subscribe once per process to events published by other processes sharing Redis. */
+async function ensureRedisSubscriber(): Promise<void> {
+	if (subscriber) {
+		return;
+	}
+	if (subscriberPromise) {
+		return subscriberPromise;
+	}
+	subscriberPromise = (async () => {
+		const client = await getConnectedRedis();
+		if (!client) {
+			return;
+		}
+		const connection = client.duplicate();
+		connection.on('error', (error) => {
+			console.warn(`${logPrefix} Redis subscriber error:`, error);
+		});
+		connection.on('message', (_channel: string, message: string) => {
+			try {
+				const envelope = JSON.parse(message) as RedisEnvelope;
+				// Events from this process were already delivered directly
+				if (envelope.origin !== processId) {
+					notify(envelope.event);
+				}
+			} catch {
+				// ignore malformed messages
+			}
+		});
+		try {
+			await connection.subscribe(EVENTS_CHANNEL);
+			subscriber = connection;
+		} catch (error) {
+			console.warn(`${logPrefix} Redis subscribe failed:`, error);
+			connection.disconnect();
+		}
+	})().finally(() => {
+		subscriberPromise = null;
+	});
+	return subscriberPromise;
+}
+
+async function publishToRedis(event: Omit<QueueEvent, 'id'>): Promise<QueueEvent | null> {
+	const client = await getConnectedRedis();
+	if (!client) {
+		return null;
+	}
+	try {
+		const sequence = await client.incr(SEQUENCE_KEY);
+		const published: QueueEvent = { id: `${REDIS_STREAM}:${sequence}`, ...event };
+		const envelope: RedisEnvelope = { origin: processId, event: published };
+		await client
+			.multi()
+			.rpush(EVENTS_KEY, JSON.stringify(published))
+			.ltrim(EVENTS_KEY, -BACKLOG_LIMIT, -1)
+			.publish(EVENTS_CHANNEL, JSON.stringify(envelope))
+			.exec();
+		return published;
+	} catch (error) {
+		console.warn(`${logPrefix} Redis publish failed, keeping the event in memory:`, error);
+		return null;
+	}
+}
+
+function publishToMemory(event: Omit<QueueEvent, 'id'>): QueueEvent {
+	memorySequence += 1;
+	const published: QueueEvent = { id: `${memoryStream}:${memorySequence}`, ...event };
+	memoryBacklog.push(published);
+	if (memoryBacklog.length > BACKLOG_LIMIT) {
+		memoryBacklog = memoryBacklog.slice(-BACKLOG_LIMIT);
+	}
+	return published;
+}
+
+/**
+ * Record a queue change and deliver it to every open stream. Never throws; a lost event only
+ * means clients pick the change up on their next full refresh.
+ */
+export async function publishDownloadQueueEvent(
+	type: QueueEventType,
+	jobId: string,
+	job?: QueuedJob
+): Promise<void> {
+	try {
+		const event = { type, jobId, ...(job && type !== 'removed' ? { job } : {}), at: Date.now() };
+		const published = (await publishToRedis(event)) ?? publishToMemory(event);
+		notify(published);
+	} catch (error) {
+		console.warn(`${logPrefix} Failed to publish ${type} for ${jobId}:`, error);
+	}
+}
+
+async function readBacklog(): Promise<{ stream: string; events: QueueEvent[] }> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const entries = await client.lrange(EVENTS_KEY, 0, -1);
+			return {
+				stream: REDIS_STREAM,
+				events: entries.map((entry) => JSON.parse(entry) as QueueEvent)
+			};
+		} catch (error) {
+			console.warn(`${logPrefix} Redis backlog read failed:`, error);
+		}
+	}
+	return { stream: memoryStream, events: [...memoryBacklog] };
+}
+
+function newestEventId(backlog: { stream: string; events: QueueEvent[] }): string {
+	const newest = backlog.events.reduce((max, event) => Math.max(max, sequenceOf(event)), 0);
+	return `${backlog.stream}:${newest}`;
+}
+
+/** The id a fresh stream starts from, so its first reconnect can resume. */
+export async function getLatestDownloadQueueEventId(): Promise<string> {
+	return newestEventId(await readBacklog());
+}
+
+/**
+ * Events after `lastEventId`, or `reset` when they can't be replayed: the id belongs to another
+ * stream (a restart, or a switch between Redis and memory) or is older than the backlog.
+ */
+export async function readDownloadQueueEventsSince(
+	lastEventId: string
+): Promise<{ reset: false; events: QueueEvent[] } | { reset: true; latestId: string }> {
+	const cursor = parseEventId(lastEventId);
+	const backlog = await readBacklog();
+	if (!cursor || cursor.stream !== backlog.stream) {
+		return { reset: true, latestId: newestEventId(backlog) };
+	}
+	const sorted = backlog.events.sort((a, b) => sequenceOf(a) - sequenceOf(b));
+	const oldest = sorted.length > 0 ? sequenceOf(sorted[0]) : null;
+	const newest = sorted.length > 0 ? sequenceOf(sorted[sorted.length - 1]) : 0;
+	if ((oldest !== null && oldest > cursor.sequence + 1) || cursor.sequence > newest) {
+		return { reset: true, latestId: newestEventId(backlog) };
+	}
+	return { reset: false, events: sorted.filter((event) => sequenceOf(event) > cursor.sequence) };
+}
+
+/**
+ * Listen for queue events. With `lastEventId`, missed events are replayed first, or `onReset`
+ * gets the id to continue from when they can't be; events arriving during the replay are
+ * delivered after it, once.
+ */
+export function subscribeDownloadQueueEvents(
+	listener: QueueEventListener,
+	options: { lastEventId?: string | null; onReset?: (latestId: string | null) => void } = {}
+): () => void {
+	let active = true;
+	let pending: QueueEvent[] | null = options.lastEventId ? [] : null;
+	const deliver: QueueEventListener = (event) => {
+		if (!active) return;
+		if (pending) {
+			pending.push(event);
+			return;
+		}
+		listener(event);
+	};
+	listeners.add(deliver);
+	void ensureRedisSubscriber();
+
+	if (options.lastEventId) {
+		void readDownloadQueueEventsSince(options.lastEventId)
+			.then((result) => {
+				if (!active) return;
+				const replayed = new Set<string>();
+				if (result.reset) {
+					options.onReset?.(result.latestId);
+				} else {
+					for (const event of result.events) {
+						replayed.add(event.id);
+						listener(event);
+					}
+				}
+				const buffered = pending ?? [];
+				pending = null;
+				for (const event of buffered) {
+					if (!replayed.has(event.id)) {
+						listener(event);
+					}
+				}
+			})
+			.catch((error) => {
+				console.warn(`${logPrefix} Replay failed:`, error);
+				pending = null;
+				options.onReset?.(null);
+			});
+	}
+
+	return () => {
+		active = false;
+		listeners.delete(deliver);
+	};
+}
+
+export const __test = {
+	BACKLOG_LIMIT,
+	reset(): void {
+		listeners.clear();
+		memoryStream = `memory-${randomUUID().slice(0, 8)}`;
+		memorySequence = 0;
+		memoryBacklog = [];
+		subscriber?.disconnect();
+		subscriber = null;
+	}
+};
@@ -14,8 +14,28 @@ vi.mock('./mediaLibrary', () => ({
 	checkTrackInLibrary: mediaLibraryMocks.checkTrackInLibrary
 }));
 
+const downloadHistoryMocks = vi.hoisted(() => ({
+	recordDownloadHistory: vi.fn()
+}));
+
+vi.mock('./downloadHistory', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./downloadHistory')>()),
+	recordDownloadHistory: downloadHistoryMocks.recordDownloadHistory
+}));
+
+const webhookMocks = vi.hoisted(() => ({
+	emitWebhookEvent: vi.fn()
+}));
+
+vi.mock('./webhooks', () => ({
+	emitWebhookEvent: webhookMocks.emitWebhookEvent
+}));
+
 import {
 	enqueueJob,
+	enqueueJobWithOutcome,
+	validateJobDependencies,
+	requestCancellation,
 	dequeueJob,
 	updateJobStatus,
 	getJob,
@@ -24,10 +44,14 @@ import {
 	cleanupOldJobs,
 	requestRetry,
 	deleteJob,
+	createQueueBatch,
+	getQueueBatchSummary,
+	requestBatchAction,
 	type QueuedJob,
 	type TrackJob,
 	type AlbumJob
 } from './downloadQueueManager';
+import { subscribeDownloadQueueEvents } from './downloadQueueEvents';
 
 describe('Download Queue Manager', () => {
 	beforeEach(async () => {
@@ -35,6 +59,8 @@ describe('Download Queue Manager', () => {
 		vi.stubEnv('REDIS_DISABLED', 'true');
 		mediaLibraryMocks.checkAlbumInLibrary.mockReset();
 		mediaLibraryMocks.checkTrackInLibrary.mockReset();
+		downloadHistoryMocks.recordDownloadHistory.mockReset();
+		webhookMocks.emitWebhookEvent.mockReset();
 		mediaLibraryMocks.checkAlbumInLibrary.mockResolvedValue({
 			exists: false,
 			matchedTracks: 0,
@@ -249,6 +275,28 @@ describe('Download Queue Manager', () => {
 			expect(updated?.progress).toBe(0.3);
 			expect(updated?.completedTracks).toBe(3);
 		});
+
+		it('should publish queue events for each change', async () => {
+			const events: string[] = [];
+			const unsubscribe = subscribeDownloadQueueEvents((event) => {
+				events.push(`${event.type}:${event.job?.status ?? '-'}`);
+			});
+
+			const jobId = await enqueueJob({ type: 'track', trackId: 24680, quality: 'LOSSLESS' });
+			await updateJobStatus(jobId, { status: 'processing', startedAt: Date.now() });
+			await updateJobStatus(jobId, { progress: 0.5 });
+			await updateJobStatus(jobId, { status: 'completed', progress: 1 });
+			await deleteJob(jobId);
+			unsubscribe();
+
+			expect(events).toEqual([
+				'created:queued',
+				'updated:processing',
+				'progress:processing',
+				'terminal:completed',
+				'removed:-'
+			]);
+		});
 	});
 
 	describe('dequeueJob', () => {
@@ -461,10 +509,177 @@ describe('Download Queue Manager', () => {
 		});
 	});
 
+	describe('download history', () => {
+		it('records jobs in the ledger once they reach a terminal state', async () => {
+			const jobId = await enqueueJob({ type: 'track', trackId: 4242, quality: 'LOSSLESS' });
+			await updateJobStatus(jobId, { status: 'processing', progress: 0.5 });
+			expect(downloadHistoryMocks.recordDownloadHistory).not.toHaveBeenCalled();
+
+			await updateJobStatus(jobId, {
+				status: 'completed',
+				progress: 1,
+				completedAt: Date.now(),
+				outputPath: '/music/Artist/Album/01 Song.flac'
+			});
+			expect(downloadHistoryMocks.recordDownloadHistory).toHaveBeenCalledTimes(1);
+			expect(downloadHistoryMocks.recordDownloadHistory.mock.calls[0]?.[0]).toMatchObject({
+				id: jobId,
+				status: 'completed',
+				outputPath: '/music/Artist/Album/01 Song.flac'
+			});
+		});
+	});
+
+	describe('webhooks', () => {
+		it('sends an event for every terminal status, including cancels', async () => {
+			const completedId = await enqueueJob({ type: 'track', trackId: 5151, quality: 'LOSSLESS' });
+			const cancelledId = await enqueueJob({ type: 'track', trackId: 5152, quality: 'LOSSLESS' });
+			await updateJobStatus(completedId, { status: 'processing' });
+			expect(webhookMocks.emitWebhookEvent).not.toHaveBeenCalled();
+
+			await updateJobStatus(completedId, { status: 'completed', completedAt: Date.now() });
+			await requestCancellation(cancelledId);
+
+			expect(webhookMocks.emitWebhookEvent.mock.calls).toEqual([
+				['job.completed', { job: expect.objectContaining({ id: completedId, status: 'completed' }) }],
+				['job.cancelled', { job: expect.objectContaining({ id: cancelledId, status: 'cancelled' }) }]
+			]);
+		});
+	});
+
 	describe('cleanupOldJobs', () => {
 		it('should not fail when cleaning empty queue', async () => {
 			const result = await cleanupOldJobs();
 			expect(typeof result).toBe('number');
 		});
 	});
+
+	describe('batches', () => {
+		it('aggregates member jobs into a batch summary', async () => {
+			const batch = await createQueueBatch({
+				label: 'Discography: Example',
+				source: 'discography',
+				createdByRoute: '/artist/1'
+			});
+			const first = await enqueueJob(
+				{ type: 'album', albumId: 501, quality: 'LOSSLESS' },
+				{ batchId: batch.id }
+			);
+			await enqueueJob({ type: 'album', albumId: 502, quality: 'LOSSLESS' }, { batchId: batch.id });
+			await enqueueJob({ type: 'album', albumId: 503, quality: 'LOSSLESS' });
+			await updateJobStatus(first, { status: 'completed', progress: 1, completedAt: Date.now() });
+
+			const summary = await getQueueBatchSummary(batch.id);
+			expect(summary?.batch.label).toBe('Discography: Example');
+			expect(summary?.total).toBe(2);
+			expect(summary?.counts.completed).toBe(1);
+			expect(summary?.counts.queued).toBe(1);
+			expect(summary?.status).toBe('queued');
+			expect(summary?.progress).toBeCloseTo(0.5);
+		});
+
+		it('applies bulk pause, resume and cancel to every job in the batch', async () => {
+			const batch = await createQueueBatch({ label: 'Repair run', source: 'repair-all' });
+			const first = await enqueueJob(
+				{ type: 'track', trackId: 901, quality: 'LOSSLESS' },
+				{ batchId: batch.id }
+			);
+			const second = await enqueueJob(
+				{ type: 'track', trackId: 902, quality: 'LOSSLESS' },
+				{ batchId: batch.id }
+			);
+
+			expect(await requestBatchAction(batch.id, 'pause')).toEqual({
+				matched: 2,
+				applied: 2,
+				skipped: 0
+			});
+			expect((await getJob(first))?.status).toBe('paused');
+			expect((await getQueueBatchSummary(batch.id))?.status).toBe('paused');
+
+			await requestBatchAction(batch.id, 'resume');
+			expect((await getJob(second))?.status).toBe('queued');
+
+			await requestBatchAction(batch.id, 'cancel');
+			expect((await getQueueBatchSummary(batch.id))?.status).toBe('cancelled');
+
+			const retried = await requestBatchAction(batch.id, 'retry');
+			expect(retried?.applied).toBe(2);
+			expect((await getJob(first))?.status).toBe('queued');
+		});
+
+		it('returns null for unknown batches', async () => {
+			expect(await getQueueBatchSummary('batch-missing')).toBeNull();
+			expect(await requestBatchAction('batch-missing', 'pause')).toBeNull();
+		});
+
+		it('holds dependent jobs until their dependencies complete', async () => {
+			const parent = await enqueueJob({ type: 'album', albumId: 701, quality: 'LOSSLESS' });
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			const child = await enqueueJob(
+				{ type: 'track', trackId: 702, quality: 'LOSSLESS' },
+				{ priority: 'high', dependsOn: [parent] }
+			);
+
+			const first = await dequeueJob();
+			expect(first?.id).toBe(parent);
+
+			await updateJobStatus(parent, { status: 'completed', progress: 1, completedAt: Date.now() });
+			const second = await dequeueJob();
+			expect(second?.id).toBe(child);
+		});
+
+		it('fails dependents with their dependency and brings them back on retry', async () => {
+			const parent = await enqueueJob({ type: 'album', albumId: 711, quality: 'LOSSLESS' });
+			const child = await enqueueJob(
+				{ type: 'track', trackId: 712, quality: 'LOSSLESS' },
+				{ dependsOn: [parent] }
+			);
+			const grandchild = await enqueueJob(
+				{ type: 'track', trackId: 713, quality: 'LOSSLESS' },
+				{ dependsOn: [child] }
+			);
+
+			await updateJobStatus(parent, { status: 'failed', error: 'boom', completedAt: Date.now() });
+			expect(await getJob(child)).toMatchObject({
+				status: 'failed',
+				error: `Blocked by ${parent}, which failed`
+			});
+			expect((await getJob(grandchild))?.status).toBe('failed');
+			expect(await requestRetry(child)).toBe(false);
+
+			expect(await requestRetry(parent)).toBe(true);
+			expect((await getJob(child))?.status).toBe('queued');
+			expect((await getJob(grandchild))?.status).toBe('queued');
+
+			await requestCancellation(parent);
+			expect((await getJob(grandchild))?.status).toBe('cancelled');
+		});
+
+		it('rejects unknown, failed or cyclic dependencies', async () => {
+			const first = await enqueueJob({ type: 'track', trackId: 721, quality: 'LOSSLESS' });
+			const second = await enqueueJob(
+				{ type: 'track', trackId: 722, quality: 'LOSSLESS' },
+				{ dependsOn: [first] }
+			);
+			expect(await validateJobDependencies([first, second])).toBeNull();
+			expect(await validateJobDependencies(['job-missing'])).toMatch(/job-missing/);
+
+			await updateJobStatus(first, { dependsOn: [second] });
+			expect(await validateJobDependencies([second])).toBe(
+				`Dependencies form a cycle: ${second} -> ${first} -> ${second}`
+			);
+
+			await updateJobStatus(first, { dependsOn: undefined, status: 'cancelled' });
+			expect(await validateJobDependencies([first])).toBe(`Dependency ${first} is cancelled`);
+		});
+
+		it('reports when an existing job is returned instead of a new one', async () => {
+			const job: TrackJob = { type: 'track', trackId: 731, quality: 'LOSSLESS' };
+			expect((await enqueueJobWithOutcome(job)).outcome).toBe('created');
+			const again = await enqueueJobWithOutcome(job, { dependsOn: ['job-other'] });
+			expect(again.outcome).toBe('duplicate');
+			expect((await getJob(again.jobId))?.dependsOn).toBeUndefined();
+		});
+	});
 });
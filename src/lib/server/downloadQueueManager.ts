@@ -1,10 +1,21 @@
 import { checkAlbumInLibrary, checkTrackInLibrary } from './mediaLibrary';
+import {
+	isTerminalJobStatus,
+	recordDownloadHistory,
+	type DownloadHistoryStatus
+} from './downloadHistory';
+import { publishDownloadQueueEvent, type QueueEventType } from './downloadQueueEvents';
+import { toApiV1Job } from './apiV1';
+import { emitWebhookEvent, type WebhookEvent } from './webhooks';
 import {
 	buildQueueMetrics,
+	findBlockingDependency,
+	findDependencyCycle,
 	isDuplicateJobMatch,
 	resetTrackProgressForRetry,
 	selectNextQueuedJob,
 	shouldCleanupJob,
+	summarizeQueueBatch,
 	summarizeQueueStats
 } from './downloadQueuePolicy';
 import {
@@ -12,17 +23,26 @@ import {
 	getLocalRetentionConfig,
 	getProcessingJobsSnapshot,
 	getQueueSnapshotFromRepository,
+	listQueueBatches,
 	markQueueJobProcessing,
 	patchQueueJob,
+	readQueueBatch,
 	readQueueJob,
 	recoverQueueStorage,
+	removeQueueBatches,
 	removeQueueJob,
 	removeQueueJobs,
+	writeQueueBatch,
 	writeQueueJob
 } from './downloadQueueRepository';
 import type {
 	DownloadJob,
+	EnqueueOutcome,
 	JobPriority,
+	QueueBatch,
+	QueueBatchAction,
+	QueueBatchSource,
+	QueueBatchSummary,
 	QueuedJob,
 	QueueSource,
 } from './downloadQueueTypes';
@@ -31,10 +51,16 @@ export type {
 	AlbumJob,
 	CategorizedError,
 	DownloadJob,
+	EnqueueOutcome,
 	ErrorCategory,
 	JobPriority,
 	JobStatus,
 	JobType,
+	QueueBatch,
+	QueueBatchAction,
+	QueueBatchSource,
+	QueueBatchStatus,
+	QueueBatchSummary,
 	QueueSource,
 	QueuedJob,
 	TrackJob
@@ -61,6 +87,7 @@ async function isJobAlreadyInLocalLibrary(job: DownloadJob): Promise<{
 	try {
 		if (job.type === 'album') {
 			const result = await checkAlbumInLibrary({
+				tidalAlbumId: job.albumId,
 				artistName: job.artistName,
 				albumTitle: job.albumTitle,
 				expectedTrackCount: job.trackCount
@@ -72,6 +99,7 @@ async function isJobAlreadyInLocalLibrary(job: DownloadJob): Promise<{
 			};
 		}
 		const result = await checkTrackInLibrary({
+			tidalTrackId: job.trackId,
 			artistName: job.artistName,
 			albumTitle: job.albumTitle,
 			trackTitle: job.trackTitle
@@ -97,19 +125,52 @@ export async function getQueueSnapshot(): Promise<{
 	return getQueueSnapshotFromRepository();
 }
 
+type EnqueueOptions = {
+	priority?: JobPriority;
+	maxRetries?: number;
+	checkDuplicate?: boolean;
+	forceOverwrite?: boolean;
+	batchId?: string;
+	dependsOn?: string[];
+};
+
 /**
  * Add a job to the queue with duplicate detection
  */
-export async function enqueueJob(
-	job: DownloadJob,
-	options?: {
-		priority?: JobPriority;
-		maxRetries?: number;
-		checkDuplicate?: boolean;
-		forceOverwrite?: boolean;
+export async function enqueueJob(job: DownloadJob, options?: EnqueueOptions): Promise<string> {
+	return (await enqueueJobWithOutcome(job, options)).jobId;
+}
+
+/**
+ * Why a new job can't depend on these jobs, or null if it can: every dependency must exist,
+ * must not have failed or been cancelled, and must not wait on a dependency cycle.
+ */
+export async function validateJobDependencies(dependsOn: string[]): Promise<string | null> {
+	const jobsById = new Map((await getAllJobs()).map((entry) => [entry.id, entry]));
+	const missing = dependsOn.filter((dependencyId) => !jobsById.has(dependencyId));
+	if (missing.length > 0) {
+		return `Unknown dependency job(s): ${missing.join(', ')}`;
+	}
+	const blocking = findBlockingDependency({ dependsOn }, jobsById);
+	if (blocking) {
+		return `Dependency ${blocking.id} is ${blocking.status}`;
 	}
-): Promise<string> {
+	const cycle = findDependencyCycle(dependsOn, jobsById);
+	return cycle ? `Dependencies form a cycle: ${cycle.join(' -> ')}` : null;
+}
+
+/**
+ * Like `enqueueJob`, also telling whether a new job was created. Reused jobs keep their own
+ * priority and dependencies.
+ */
+export async function enqueueJobWithOutcome(
+	job: DownloadJob,
+	options?: EnqueueOptions
+): Promise<{ jobId: string; outcome: EnqueueOutcome }> {
 	const now = Date.now();
+	const batchId = options?.batchId?.trim() || undefined;
+	const dependsOn =
+		options?.dependsOn && options.dependsOn.length > 0 ? [...new Set(options.dependsOn)] : undefined;
 	const forceOverwrite =
 		options?.forceOverwrite === true ||
 		(job.type === 'album' && job.forceOverwrite === true) ||
@@ -130,7 +191,7 @@ export async function enqueueJob(
 				return false;
 			});
 			if (existingLibraryJob) {
-				return existingLibraryJob.id;
+				return { jobId: existingLibraryJob.id, outcome: 'in_library' };
 			}
 
 			const libraryJobId = `job-${now}-${Math.random().toString(36).slice(2, 11)}`;
@@ -148,16 +209,18 @@ export async function enqueueJob(
 				retryCount: 0,
 				trackCount: job.type === 'album' ? job.trackCount : undefined,
 				completedTracks:
-					job.type === 'album' ? (library.matchedTracks ?? job.trackCount) : undefined
+					job.type === 'album' ? (library.matchedTracks ?? job.trackCount) : undefined,
+				batchId
 			};
 
 			const source = await writeQueueJob(completedLibraryJob);
+			await publishDownloadQueueEvent('created', libraryJobId, completedLibraryJob);
 			console.log(
 				source === 'redis'
 					? `[Queue] Skipped ${job.type} job; already in local library (${libraryJobId})`
 					: `[Queue] Skipped ${job.type} job in memory; already in local library (${libraryJobId})`
 			);
-			return libraryJobId;
+			return { jobId: libraryJobId, outcome: 'in_library' };
 		}
 	}
 
@@ -172,7 +235,13 @@ export async function enqueueJob(
 				duplicate.status === 'processing' ||
 				duplicate.status === 'paused'
 			) {
-				return duplicate.id;
+				if (batchId && !duplicate.batchId) {
+					const patched = await patchQueueJob(duplicate.id, { batchId });
+					if (patched) {
+						await publishDownloadQueueEvent('updated', duplicate.id, patched.job);
+					}
+				}
+				return { jobId: duplicate.id, outcome: 'duplicate' };
 			}
 			// If duplicate failed and is retryable, requeue it
 			if (
@@ -188,10 +257,11 @@ export async function enqueueJob(
 					retryCount: (duplicate.retryCount || 0) + 1,
 					nextRetryAt: undefined,
 					cancellationRequested: false,
-					pauseRequested: false
+					pauseRequested: false,
+					batchId: batchId ?? duplicate.batchId
 				});
 				console.log(`[Queue] Requeued failed job: ${duplicate.id}`);
-				return duplicate.id;
+				return { jobId: duplicate.id, outcome: 'requeued' };
 			}
 		}
 	}
@@ -207,16 +277,19 @@ export async function enqueueJob(
 		priority: options?.priority || 'normal',
 		maxRetries: options?.maxRetries ?? 3,
 		retryCount: 0,
-		trackCount: job.type === 'album' ? job.trackCount : undefined
+		trackCount: job.type === 'album' ? job.trackCount : undefined,
+		batchId,
+		dependsOn
 	};
 
 	const source = await writeQueueJob(queuedJob);
+	await publishDownloadQueueEvent('created', jobId, queuedJob);
 	console.log(
 		source === 'redis'
 			? `[Queue] Job ${jobId} enqueued (${job.type})`
 			: `[Queue] Job ${jobId} enqueued in memory (${job.type})`
 	);
-	return jobId;
+	return { jobId, outcome: 'created' };
 }
 
 /**
@@ -248,6 +321,27 @@ export async function dequeueJob(): Promise<QueuedJob | null> {
 	return null;
 }
 
+const DEPENDENCY_FAILURE_CODE = 'DEPENDENCY_BLOCKED';
+
+const JOB_WEBHOOK_EVENTS: Record<DownloadHistoryStatus, Exclude<WebhookEvent, 'test'>> = {
+	completed: 'job.completed',
+	failed: 'job.failed',
+	cancelled: 'job.cancelled'
+};
+
+const PROGRESS_UPDATE_FIELDS = new Set<string>(['progress', 'completedTracks', 'trackProgress']);
+
+/** Progress ticks are frequent and only move counters, so clients can apply them in place. */
+function queueEventTypeForUpdate(updates: Partial<QueuedJob>): QueueEventType {
+	if (isTerminalJobStatus(updates.status)) {
+		return 'terminal';
+	}
+	const fields = Object.keys(updates);
+	return fields.length > 0 && fields.every((field) => PROGRESS_UPDATE_FIELDS.has(field))
+		? 'progress'
+		: 'updated';
+}
+
 /**
  * Update job status
  */
@@ -256,6 +350,41 @@ export async function updateJobStatus(jobId: string, updates: Partial<QueuedJob>
 	if (result?.job.status !== 'processing') {
 		clearQueueJobProcessing(jobId);
 	}
+	if (result && isTerminalJobStatus(updates.status)) {
+		await recordDownloadHistory(result.job);
+		// Every terminal status passes through here, including cancels and worker crashes
+		await emitWebhookEvent(JOB_WEBHOOK_EVENTS[updates.status], { job: toApiV1Job(result.job) });
+	}
+	if (result) {
+		await publishDownloadQueueEvent(queueEventTypeForUpdate(updates), jobId, result.job);
+	}
+	if (result && (updates.status === 'failed' || updates.status === 'cancelled')) {
+		await settleBlockedDependents(result.job);
+	}
+}
+
+/**
+ * Fail or cancel the waiting jobs that depend on a job that just failed or was cancelled,
+ * so they don't sit in the queue forever. Their dependents follow through the same path.
+ */
+async function settleBlockedDependents(dependency: QueuedJob): Promise<void> {
+	const dependents = (await getAllJobs()).filter(
+		(entry) =>
+			(entry.status === 'queued' || entry.status === 'paused') &&
+			entry.dependsOn?.includes(dependency.id)
+	);
+	for (const dependent of dependents) {
+		const reason = dependency.status === 'failed' ? 'failed' : 'was cancelled';
+		await updateJobStatus(dependent.id, {
+			status: dependency.status,
+			error: `Blocked by ${dependency.id}, which ${reason}`,
+			failureCode: DEPENDENCY_FAILURE_CODE,
+			completedAt: Date.now()
+		});
+		console.log(
+			`[Queue] Job ${dependent.id} ${dependency.status} with dependency ${dependency.id}`
+		);
+	}
 }
 
 /**
@@ -295,6 +424,9 @@ export async function setAlbumJobMusicBrainzReleaseId(
 			musicBrainzReleaseId: normalizedReleaseId
 		}
 	});
+	if (updated) {
+		await publishDownloadQueueEvent('updated', jobId, updated.job);
+	}
 	return updated !== null;
 }
 
@@ -374,13 +506,117 @@ export async function cleanupOldJobs(olderThanMs: number = 24 * 60 * 60 * 1000):
 	const cleaned = await removeQueueJobs(jobIdsToDelete);
 
 	if (cleaned > 0) {
+		for (const jobId of jobIdsToDelete) {
+			await publishDownloadQueueEvent('removed', jobId);
+		}
 		console.log(
 			`[Queue] Cleaned up ${cleaned} old jobs (older than ${Math.round(olderThanMs / 1000)}s)`
 		);
 	}
+
+	// Batches outlive their jobs only until the last member has been cleaned up.
+	const deletedJobIds = new Set(jobIdsToDelete);
+	const referencedBatchIds = new Set(
+		jobs
+			.filter((job) => !deletedJobIds.has(job.id) && job.batchId)
+			.map((job) => job.batchId as string)
+	);
+	const orphanBatchIds = (await listQueueBatches())
+		.filter(
+			(batch) =>
+				!referencedBatchIds.has(batch.id) && now - batch.createdAt > completedRetention
+		)
+		.map((batch) => batch.id);
+	await removeQueueBatches(orphanBatchIds);
+
 	return cleaned;
 }
 
+/**
+ * Create a batch record that groups jobs enqueued by a single user action
+ * (discography download, repair-all run, ...).
+ */
+export async function createQueueBatch(input: {
+	label: string;
+	source: QueueBatchSource;
+	createdByRoute?: string;
+}): Promise<QueueBatch> {
+	const batch: QueueBatch = {
+		id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+		label: input.label,
+		source: input.source,
+		createdByRoute: input.createdByRoute,
+		createdAt: Date.now()
+	};
+	await writeQueueBatch(batch);
+	console.log(`[Queue] Batch ${batch.id} created (${batch.source}: ${batch.label})`);
+	return batch;
+}
+
+export async function getQueueBatch(batchId: string): Promise<QueueBatch | null> {
+	return readQueueBatch(batchId);
+}
+
+/**
+ * Aggregate status for a single batch, or null when the batch is unknown.
+ */
+export async function getQueueBatchSummary(batchId: string): Promise<QueueBatchSummary | null> {
+	const batch = await readQueueBatch(batchId);
+	if (!batch) {
+		return null;
+	}
+	return summarizeQueueBatch(batch, await getAllJobs());
+}
+
+/**
+ * Aggregate status for every known batch, newest first.
+ */
+export async function listQueueBatchSummaries(): Promise<QueueBatchSummary[]> {
+	const [batches, jobs] = await Promise.all([listQueueBatches(), getAllJobs()]);
+	return batches
+		.sort((left, right) => right.createdAt - left.createdAt)
+		.map((batch) => summarizeQueueBatch(batch, jobs));
+}
+
+/**
+ * Apply pause/resume/cancel/retry to every job in a batch.
+ * Jobs whose status does not allow the action are counted as skipped.
+ */
+export async function requestBatchAction(
+	batchId: string,
+	action: QueueBatchAction
+): Promise<{ matched: number; applied: number; skipped: number } | null> {
+	const summary = await getQueueBatchSummary(batchId);
+	if (!summary) {
+		return null;
+	}
+
+	const handler =
+		action === 'pause'
+			? requestPause
+			: action === 'resume'
+				? requestResume
+				: action === 'cancel'
+					? requestCancellation
+					: requestRetry;
+
+	let applied = 0;
+	for (const jobId of summary.jobIds) {
+		if (await handler(jobId)) {
+			applied += 1;
+		}
+	}
+
+	console.log(
+		`[Queue] Batch ${batchId} ${action}: ${applied}/${summary.jobIds.length} job(s) updated`
+	);
+	return {
+		matched: summary.jobIds.length,
+		applied,
+		skipped: summary.jobIds.length - applied
+	};
+}
+
 /**
  * Delete a job from the queue (permanent removal, for failed jobs marked for deletion)
  */
@@ -389,6 +625,7 @@ export async function deleteJob(jobId: string): Promise<boolean> {
 	if (!result.deleted) {
 		return false;
 	}
+	await publishDownloadQueueEvent('removed', jobId);
 	console.log(
 		result.source === 'redis'
 			? `[Queue] Job ${jobId} permanently deleted`
@@ -478,7 +715,9 @@ export async function requestResume(jobId: string): Promise<boolean> {
 
 /**
  * Request a manual retry for a failed/cancelled job.
- * This re-queues the same job payload and clears failure state.
+ * This re-queues the same job payload and clears failure state, along with the jobs
+ * that failed because they depended on it. A job blocked by a dependency can't be retried
+ * on its own.
  */
 export async function requestRetry(jobId: string): Promise<boolean> {
 	const job = await getJob(jobId);
@@ -489,6 +728,12 @@ export async function requestRetry(jobId: string): Promise<boolean> {
 	if (job.status !== 'failed' && job.status !== 'cancelled' && job.status !== 'paused') {
 		return false;
 	}
+	const jobs = await getAllJobs();
+	const jobsById = new Map(jobs.map((entry) => [entry.id, entry]));
+	if (findBlockingDependency(job, jobsById)) {
+		// Retrying the dependency brings this job back too
+		return false;
+	}
 
 	await updateJobStatus(jobId, {
 		status: 'queued',
@@ -512,6 +757,15 @@ export async function requestRetry(jobId: string): Promise<boolean> {
 
 	clearQueueJobProcessing(jobId);
 	console.log(`[Queue] Job ${jobId} manually re-queued`);
+
+	for (const dependent of jobs) {
+		if (
+			dependent.failureCode === DEPENDENCY_FAILURE_CODE &&
+			dependent.dependsOn?.includes(jobId)
+		) {
+			await requestRetry(dependent.id);
+		}
+	}
 	return true;
 }
 
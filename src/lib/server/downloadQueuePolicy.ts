@@ -2,6 +2,10 @@ import type {
 	CategorizedError,
 	DownloadJob,
 	JobPriority,
+	JobStatus,
+	QueueBatch,
+	QueueBatchStatus,
+	QueueBatchSummary,
 	QueueMetrics,
 	QueuedJob,
 	QueueStats
@@ -170,17 +174,82 @@ export function isDuplicateJobMatch(
 	return false;
 }
 
+/**
+ * A job waits until every job it depends on has completed. A dependency that fails or is
+ * cancelled takes its dependents with it (see `findBlockingDependency`), so one that is no
+ * longer in the queue was cleaned up after finishing and counts as satisfied.
+ */
+export function areJobDependenciesSatisfied(
+	job: QueuedJob,
+	jobsById: ReadonlyMap<string, QueuedJob>
+): boolean {
+	if (!job.dependsOn || job.dependsOn.length === 0) {
+		return true;
+	}
+	return job.dependsOn.every((dependencyId) => {
+		const dependency = jobsById.get(dependencyId);
+		return !dependency || dependency.status === 'completed';
+	});
+}
+
+/** The failed or cancelled dependency that stops a job from ever running, if any. */
+export function findBlockingDependency(
+	job: Pick<QueuedJob, 'dependsOn'>,
+	jobsById: ReadonlyMap<string, QueuedJob>
+): QueuedJob | null {
+	for (const dependencyId of job.dependsOn ?? []) {
+		const dependency = jobsById.get(dependencyId);
+		if (dependency && (dependency.status === 'failed' || dependency.status === 'cancelled')) {
+			return dependency;
+		}
+	}
+	return null;
+}
+
+/**
+ * A dependency chain reachable from `dependsOn` that loops back on itself, as job IDs from
+ * the first repeated job, or null. A job waiting on such a chain would never run.
+ */
+export function findDependencyCycle(
+	dependsOn: readonly string[],
+	jobsById: ReadonlyMap<string, QueuedJob>
+): string[] | null {
+	const finished = new Set<string>();
+	const visit = (jobId: string, path: string[]): string[] | null => {
+		const repeatedAt = path.indexOf(jobId);
+		if (repeatedAt !== -1) {
+			return [...path.slice(repeatedAt), jobId];
+		}
+		if (finished.has(jobId)) {
+			return null;
+		}
+		for (const dependencyId of jobsById.get(jobId)?.dependsOn ?? []) {
+			const cycle = visit(dependencyId, [...path, jobId]);
+			if (cycle) return cycle;
+		}
+		finished.add(jobId);
+		return null;
+	};
+	for (const dependencyId of dependsOn) {
+		const cycle = visit(dependencyId, []);
+		if (cycle) return cycle;
+	}
+	return null;
+}
+
 export function selectNextQueuedJob(
 	jobs: QueuedJob[],
 	processingJobs: ReadonlySet<string>,
 	now: number = Date.now()
 ): QueuedJob | null {
+	const jobsById = new Map(jobs.map((job) => [job.id, job]));
 	const next = jobs
 		.filter((job) => {
 			if (processingJobs.has(job.id)) return false;
 			if (job.cancellationRequested) return false;
 			if (job.status !== 'queued') return false;
 			if (job.nextRetryAt && job.nextRetryAt > now) return false;
+			if (!areJobDependenciesSatisfied(job, jobsById)) return false;
 			return true;
 		})
 		.sort((left, right) => {
@@ -232,6 +301,44 @@ export function summarizeQueueStats(jobs: QueuedJob[]): QueueStats {
 	};
 }
 
+function resolveQueueBatchStatus(counts: Record<JobStatus, number>, total: number): QueueBatchStatus {
+	if (total === 0) return 'empty';
+	if (counts.processing > 0) return 'processing';
+	if (counts.queued > 0) return 'queued';
+	if (counts.paused > 0) return 'paused';
+	if (counts.failed > 0) return 'failed';
+	if (counts.completed > 0) return 'completed';
+	return 'cancelled';
+}
+
+export function summarizeQueueBatch(batch: QueueBatch, jobs: QueuedJob[]): QueueBatchSummary {
+	const members = jobs
+		.filter((job) => job.batchId === batch.id)
+		.sort((left, right) => left.createdAt - right.createdAt);
+	const counts: Record<JobStatus, number> = {
+		queued: 0,
+		processing: 0,
+		paused: 0,
+		completed: 0,
+		failed: 0,
+		cancelled: 0
+	};
+	let progressSum = 0;
+	for (const job of members) {
+		counts[job.status] += 1;
+		progressSum += job.status === 'completed' ? 1 : Math.min(1, Math.max(0, job.progress || 0));
+	}
+
+	return {
+		batch,
+		status: resolveQueueBatchStatus(counts, members.length),
+		jobIds: members.map((job) => job.id),
+		counts,
+		total: members.length,
+		progress: members.length > 0 ? progressSum / members.length : 0
+	};
+}
+
 export function buildQueueMetrics(jobs: QueuedJob[]): QueueMetrics {
 	const completed = jobs.filter((job) => job.status === 'completed');
 	const failed = jobs.filter((job) => job.status === 'failed');
@@ -1,12 +1,14 @@
 import { getConnectedRedis } from './redis';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import type { QueueSource, QueuedJob } from './downloadQueueTypes';
+import type { QueueBatch, QueueSource, QueuedJob } from './downloadQueueTypes';
 
 const memoryQueue = new Map<string, QueuedJob>();
+const memoryBatches = new Map<string, QueueBatch>();
 const processingJobs = new Set<string>();
 
 const QUEUE_KEY = 'tidal:downloadQueue';
+const BATCHES_KEY = 'tidal:downloadQueue:batches';
 const QUEUE_STATE_FILE = path.join(process.cwd(), 'data', 'download-queue-state.v1.json');
 const LOCAL_MODE_ENABLED = process.env.LOCAL_MODE !== 'false';
 const LOCAL_MODE_HIDE_MULTI_PROCESS_WARNING = LOCAL_MODE_ENABLED;
@@ -33,13 +35,17 @@ async function saveMemoryQueueToDisk(): Promise<void> {
 	try {
 		await fs.mkdir(path.dirname(QUEUE_STATE_FILE), { recursive: true });
 		const entries = Array.from(memoryQueue.values()).sort((left, right) => left.createdAt - right.createdAt);
+		const batches = Array.from(memoryBatches.values()).sort(
+			(left, right) => left.createdAt - right.createdAt
+		);
 		await fs.writeFile(
 			QUEUE_STATE_FILE,
 			JSON.stringify(
 				{
 					version: 1,
 					savedAt: Date.now(),
-					jobs: entries
+					jobs: entries,
+					batches
 				},
 				null,
 				2
@@ -57,11 +63,21 @@ async function loadMemoryQueueFromDisk(): Promise<void> {
 	memoryStateLoaded = true;
 	try {
 		const raw = await fs.readFile(QUEUE_STATE_FILE, 'utf8');
-		const payload = JSON.parse(raw) as { version?: number; jobs?: QueuedJob[] };
+		const payload = JSON.parse(raw) as {
+			version?: number;
+			jobs?: QueuedJob[];
+			batches?: QueueBatch[];
+		};
 		if (!payload || payload.version !== 1 || !Array.isArray(payload.jobs)) {
 			return;
 		}
 
+		for (const batch of Array.isArray(payload.batches) ? payload.batches : []) {
+			if (batch && typeof batch === 'object' && typeof batch.id === 'string') {
+				memoryBatches.set(batch.id, batch);
+			}
+		}
+
 		const now = Date.now();
 		for (const job of payload.jobs) {
 			if (!job || typeof job !== 'object' || typeof job.id !== 'string') {
@@ -310,6 +326,89 @@ export async function removeQueueJobs(jobIds: string[]): Promise<number> {
 	return deleted;
 }
 
+export async function listQueueBatches(): Promise<QueueBatch[]> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const batches = await client.hgetall(BATCHES_KEY);
+			return Object.values(batches).map((value) => JSON.parse(value) as QueueBatch);
+		} catch (error) {
+			console.warn('[Queue] Redis batch list failed:', error);
+		}
+	}
+
+	await loadMemoryQueueFromDisk();
+	return Array.from(memoryBatches.values());
+}
+
+export async function readQueueBatch(batchId: string): Promise<QueueBatch | null> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const data = await client.hget(BATCHES_KEY, batchId);
+			if (data) {
+				return JSON.parse(data) as QueueBatch;
+			}
+		} catch (error) {
+			console.warn('[Queue] Redis batch get failed:', error);
+		}
+	}
+
+	await loadMemoryQueueFromDisk();
+	return memoryBatches.get(batchId) || null;
+}
+
+export async function writeQueueBatch(batch: QueueBatch): Promise<QueueSource> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			await client.hset(BATCHES_KEY, batch.id, JSON.stringify(batch));
+			return 'redis';
+		} catch (error) {
+			console.warn('[Queue] Redis batch write failed, using memory:', error);
+		}
+	}
+
+	await loadMemoryQueueFromDisk();
+	memoryBatches.set(batch.id, batch);
+	await persistMemoryQueue();
+	return 'memory';
+}
+
+export async function removeQueueBatches(batchIds: string[]): Promise<number> {
+	if (batchIds.length === 0) {
+		return 0;
+	}
+
+	const client = await getConnectedRedis();
+	if (client) {
+		let deleted = 0;
+		for (const batchId of batchIds) {
+			try {
+				const result = await client.hdel(BATCHES_KEY, batchId);
+				if (result > 0) {
+					deleted += 1;
+				}
+			} catch (error) {
+				console.warn('[Queue] Redis batch cleanup failed:', error);
+			}
+		}
+		return deleted;
+	}
+
+	await loadMemoryQueueFromDisk();
+	let deleted = 0;
+	for (const batchId of batchIds) {
+		if (memoryBatches.delete(batchId)) {
+			deleted += 1;
+		}
+	}
+	if (deleted > 0) {
+		await persistMemoryQueue();
+	}
+	return deleted;
+}
+
 export function getProcessingJobsSnapshot(): Set<string> {
 	return new Set(processingJobs);
 }
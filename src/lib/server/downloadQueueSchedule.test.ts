@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	__test,
+	findNextWindowOpenAt,
+	getObservedBytesPerSecond,
+	isWithinScheduleWindow,
+	normalizeScheduleConfig,
+	recordDownloadedBytes,
+	resolveScheduledConcurrency,
+	type DownloadScheduleConfig
+} from './downloadQueueSchedule';
+
+const nightly: DownloadScheduleConfig = {
+	enabled: true,
+	windows: [{ start: '22:00', end: '07:00' }],
+	bandwidthBudgetBytesPerSecond: null
+};
+
+describe('downloadQueueSchedule', () => {
+	beforeEach(() => {
+		__test.resetBandwidthSamples();
+	});
+
+	it('treats overnight windows as spanning midnight', () => {
+		expect(isWithinScheduleWindow(nightly, new Date(2026, 0, 5, 23, 30))).toBe(true);
+		expect(isWithinScheduleWindow(nightly, new Date(2026, 0, 6, 6, 59))).toBe(true);
+		expect(isWithinScheduleWindow(nightly, new Date(2026, 0, 6, 12, 0))).toBe(false);
+	});
+
+	it('respects day-of-week restrictions, including the overnight tail', () => {
+		// 2026-01-10 is a Saturday
+		const weekend: DownloadScheduleConfig = {
+			...nightly,
+			windows: [{ start: '23:00', end: '02:00', days: [6] }]
+		};
+		expect(isWithinScheduleWindow(weekend, new Date(2026, 0, 10, 23, 15))).toBe(true);
+		expect(isWithinScheduleWindow(weekend, new Date(2026, 0, 11, 1, 0))).toBe(true);
+		expect(isWithinScheduleWindow(weekend, new Date(2026, 0, 11, 23, 15))).toBe(false);
+	});
+
+	it('is always open when disabled or without windows', () => {
+		const at = new Date(2026, 0, 6, 12, 0);
+		expect(isWithinScheduleWindow({ ...nightly, enabled: false }, at)).toBe(true);
+		expect(isWithinScheduleWindow({ ...nightly, windows: [] }, at)).toBe(true);
+	});
+
+	it('finds the next window opening time', () => {
+		const now = new Date(2026, 0, 6, 12, 0);
+		expect(findNextWindowOpenAt(nightly, now)).toBe(new Date(2026, 0, 6, 22, 0).getTime());
+		expect(findNextWindowOpenAt(nightly, new Date(2026, 0, 6, 23, 0))).toBeNull();
+	});
+
+	it('throttles concurrency proportionally once the budget is exceeded', () => {
+		const budgeted = { ...nightly, bandwidthBudgetBytesPerSecond: 1_000_000 };
+		expect(resolveScheduledConcurrency(4, budgeted, 500_000)).toBe(4);
+		expect(resolveScheduledConcurrency(4, budgeted, 2_000_000)).toBe(2);
+		expect(resolveScheduledConcurrency(4, budgeted, 50_000_000)).toBe(1);
+		expect(resolveScheduledConcurrency(4, { ...budgeted, enabled: false }, 50_000_000)).toBe(4);
+	});
+
+	it('averages recorded bytes over the sample window', () => {
+		const now = Date.now();
+		recordDownloadedBytes(30_000_000, now);
+		expect(getObservedBytesPerSecond(now)).toBe(1_000_000);
+		expect(getObservedBytesPerSecond(now + 60_000)).toBe(0);
+	});
+
+	it('rejects malformed schedule payloads', () => {
+		expect(normalizeScheduleConfig({ windows: [{ start: '25:00', end: '07:00' }] }).ok).toBe(false);
+		expect(
+			normalizeScheduleConfig({ windows: [{ start: '22:00', end: '07:00', days: [7] }] }).ok
+		).toBe(false);
+		expect(normalizeScheduleConfig({ windows: [], bandwidthBudgetBytesPerSecond: -1 }).ok).toBe(
+			false
+		);
+		const valid = normalizeScheduleConfig({
+			windows: [{ start: '22:00', end: '24:00', days: [5, 6, 5] }],
+			bandwidthBudgetBytesPerSecond: 2_500_000.7
+		});
+		expect(valid).toEqual({
+			ok: true,
+			config: {
+				enabled: true,
+				windows: [{ start: '22:00', end: '24:00', days: [5, 6] }],
+				bandwidthBudgetBytesPerSecond: 2_500_000
+			}
+		});
+	});
+});
@@ -0,0 +1,367 @@
+/**
+ * Download windows and bandwidth budget for the server queue worker.
+ * Jobs stay queued outside the configured windows, and worker concurrency is
+ * throttled once the observed throughput exceeds the configured budget.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { getConnectedRedis } from './redis';
+
+export type DownloadScheduleWindow = {
+	/** Days of week (0 = Sunday). Omitted or empty means every day. */
+	days?: number[];
+	/** Local start time, `HH:MM`. */
+	start: string;
+	/** Local end time, `HH:MM` (`24:00` allowed). Earlier than start wraps past midnight. */
+	end: string;
+};
+
+export type DownloadScheduleConfig = {
+	enabled: boolean;
+	windows: DownloadScheduleWindow[];
+	bandwidthBudgetBytesPerSecond: number | null;
+};
+
+export type DownloadScheduleStatus = {
+	enabled: boolean;
+	withinWindow: boolean;
+	nextWindowOpensAt: number | null;
+	bandwidthBudgetBytesPerSecond: number | null;
+	observedBytesPerSecond: number;
+	throttled: boolean;
+	effectiveMaxConcurrent: number;
+};
+
+const SCHEDULE_KEY = 'tidal:downloadQueue:schedule';
+const SCHEDULE_STATE_FILE = path.join(process.cwd(), 'data', 'download-queue-schedule.v1.json');
+const SCHEDULE_REFRESH_MS = 10_000;
+const BANDWIDTH_SAMPLE_WINDOW_MS = Math.max(
+	5_000,
+	Number(process.env.DOWNLOAD_BANDWIDTH_SAMPLE_WINDOW_MS || 30_000)
+);
+const MINUTES_PER_DAY = 24 * 60;
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+let cachedConfig: DownloadScheduleConfig | null = null;
+let cachedAt = 0;
+const bandwidthSamples: Array<{ at: number; bytes: number }> = [];
+
+export function parseClockMinutes(value: string): number | null {
+	const match = CLOCK_PATTERN.exec(value.trim());
+	if (!match) return null;
+	const hours = Number(match[1]);
+	const minutes = Number(match[2]);
+	if (minutes > 59) return null;
+	if (hours === 24 && minutes === 0) return MINUTES_PER_DAY;
+	if (hours > 23) return null;
+	return hours * 60 + minutes;
+}
+
+function parseWindowsFromEnv(raw: string | undefined): DownloadScheduleWindow[] {
+	if (!raw) return [];
+	return raw
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.map((entry) => {
+			const [start = '', end = ''] = entry.split('-').map((part) => part.trim());
+			return { start, end };
+		})
+		.filter(
+			(window) => parseClockMinutes(window.start) !== null && parseClockMinutes(window.end) !== null
+		);
+}
+
+function parseBudgetFromEnv(raw: string | undefined): number | null {
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? Math.trunc(parsed) : null;
+}
+
+export function getDefaultScheduleConfig(): DownloadScheduleConfig {
+	const windows = parseWindowsFromEnv(process.env.DOWNLOAD_SCHEDULE_WINDOWS);
+	const bandwidthBudgetBytesPerSecond = parseBudgetFromEnv(
+		process.env.DOWNLOAD_BANDWIDTH_BUDGET_BPS
+	);
+	return {
+		enabled: windows.length > 0 || bandwidthBudgetBytesPerSecond !== null,
+		windows,
+		bandwidthBudgetBytesPerSecond
+	};
+}
+
+/**
+ * Validate an untrusted schedule payload (API body or persisted state).
+ */
+export function normalizeScheduleConfig(
+	input: unknown
+): { ok: true; config: DownloadScheduleConfig } | { ok: false; error: string } {
+	if (!input || typeof input !== 'object') {
+		return { ok: false, error: 'Schedule must be an object' };
+	}
+	const candidate = input as Record<string, unknown>;
+	if (candidate.enabled !== undefined && typeof candidate.enabled !== 'boolean') {
+		return { ok: false, error: 'enabled must be a boolean' };
+	}
+	const rawWindows = candidate.windows ?? [];
+	if (!Array.isArray(rawWindows)) {
+		return { ok: false, error: 'windows must be an array' };
+	}
+
+	const windows: DownloadScheduleWindow[] = [];
+	for (const [index, rawWindow] of rawWindows.entries()) {
+		if (!rawWindow || typeof rawWindow !== 'object') {
+			return { ok: false, error: `windows[${index}] must be an object` };
+		}
+		const { start, end, days } = rawWindow as Record<string, unknown>;
+		if (typeof start !== 'string' || parseClockMinutes(start) === null) {
+			return { ok: false, error: `windows[${index}].start must be HH:MM` };
+		}
+		if (typeof end !== 'string' || parseClockMinutes(end) === null) {
+			return { ok: false, error: `windows[${index}].end must be HH:MM` };
+		}
+		if (days !== undefined) {
+			if (
+				!Array.isArray(days) ||
+				days.some((day) => typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6)
+			) {
+				return { ok: false, error: `windows[${index}].days must contain integers 0-6` };
+			}
+		}
+		windows.push({
+			start: start.trim(),
+			end: end.trim(),
+			...(Array.isArray(days) && days.length > 0
+				? { days: Array.from(new Set(days as number[])).sort((a, b) => a - b) }
+				: {})
+		});
+	}
+
+	const rawBudget = candidate.bandwidthBudgetBytesPerSecond;
+	let bandwidthBudgetBytesPerSecond: number | null = null;
+	if (rawBudget !== undefined && rawBudget !== null) {
+		if (typeof rawBudget !== 'number' || !Number.isFinite(rawBudget) || rawBudget <= 0) {
+			return {
+				ok: false,
+				error: 'bandwidthBudgetBytesPerSecond must be a positive number or null'
+			};
+		}
+		bandwidthBudgetBytesPerSecond = Math.trunc(rawBudget);
+	}
+
+	return {
+		ok: true,
+		config: {
+			enabled: candidate.enabled !== false,
+			windows,
+			bandwidthBudgetBytesPerSecond
+		}
+	};
+}
+
+function windowAppliesToDay(window: DownloadScheduleWindow, day: number): boolean {
+	return !window.days || window.days.length === 0 || window.days.includes(day);
+}
+
+function previousDay(day: number): number {
+	return (day + 6) % 7;
+}
+
+/**
+ * Whether `at` falls inside any configured window (server local time).
+ * A disabled schedule or one without windows is always open.
+ */
+export function isWithinScheduleWindow(config: DownloadScheduleConfig, at: Date): boolean {
+	if (!config.enabled || config.windows.length === 0) {
+		return true;
+	}
+	const day = at.getDay();
+	const minutes = at.getHours() * 60 + at.getMinutes();
+
+	return config.windows.some((window) => {
+		const start = parseClockMinutes(window.start);
+		const end = parseClockMinutes(window.end);
+		if (start === null || end === null) return false;
+		if (start === end) {
+			return windowAppliesToDay(window, day);
+		}
+		if (start < end) {
+			return windowAppliesToDay(window, day) && minutes >= start && minutes < end;
+		}
+		// Overnight window: the tail after midnight belongs to the previous day's window.
+		return (
+			(windowAppliesToDay(window, day) && minutes >= start) ||
+			(windowAppliesToDay(window, previousDay(day)) && minutes < end)
+		);
+	});
+}
+
+/**
+ * Timestamp of the next window start after `now`, or null when the schedule is open
+ * right now or has no usable windows.
+ */
+export function findNextWindowOpenAt(config: DownloadScheduleConfig, now: Date): number | null {
+	if (isWithinScheduleWindow(config, now)) {
+		return null;
+	}
+	let next: number | null = null;
+	for (let offset = 0; offset <= 7; offset += 1) {
+		const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+		const day = dayStart.getDay();
+		for (const window of config.windows) {
+			const start = parseClockMinutes(window.start);
+			if (start === null || start >= MINUTES_PER_DAY || !windowAppliesToDay(window, day)) {
+				continue;
+			}
+			const candidate = new Date(dayStart);
+			candidate.setHours(Math.floor(start / 60), start % 60, 0, 0);
+			const candidateMs = candidate.getTime();
+			if (candidateMs > now.getTime() && (next === null || candidateMs < next)) {
+				next = candidateMs;
+			}
+		}
+		if (next !== null) break;
+	}
+	return next;
+}
+
+/**
+ * Record bytes transferred by the worker so the bandwidth budget can be enforced.
+ */
+export function recordDownloadedBytes(bytes: number, now: number = Date.now()): void {
+	if (!Number.isFinite(bytes) || bytes <= 0) return;
+	bandwidthSamples.push({ at: now, bytes });
+	pruneBandwidthSamples(now);
+}
+
+function pruneBandwidthSamples(now: number): void {
+	const cutoff = now - BANDWIDTH_SAMPLE_WINDOW_MS;
+	while (bandwidthSamples.length > 0 && bandwidthSamples[0].at < cutoff) {
+		bandwidthSamples.shift();
+	}
+}
+
+export function getObservedBytesPerSecond(now: number = Date.now()): number {
+	pruneBandwidthSamples(now);
+	const total = bandwidthSamples.reduce((sum, sample) => sum + sample.bytes, 0);
+	return Math.round(total / (BANDWIDTH_SAMPLE_WINDOW_MS / 1000));
+}
+
+/**
+ * Scale worker concurrency down proportionally once observed throughput reaches the budget.
+ */
+export function resolveScheduledConcurrency(
+	maxConcurrent: number,
+	config: DownloadScheduleConfig,
+	observedBytesPerSecond: number
+): number {
+	const budget = config.enabled ? config.bandwidthBudgetBytesPerSecond : null;
+	if (!budget || observedBytesPerSecond < budget) {
+		return maxConcurrent;
+	}
+	return Math.max(
+		1,
+		Math.min(maxConcurrent, Math.floor((maxConcurrent * budget) / observedBytesPerSecond))
+	);
+}
+
+async function readPersistedConfig(): Promise<DownloadScheduleConfig | null> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const raw = await client.get(SCHEDULE_KEY);
+			if (raw) {
+				const normalized = normalizeScheduleConfig(JSON.parse(raw));
+				if (normalized.ok) return normalized.config;
+			}
+		} catch (error) {
+			console.warn('[Queue Schedule] Redis read failed:', error);
+		}
+	}
+
+	try {
+		const raw = await fs.readFile(SCHEDULE_STATE_FILE, 'utf8');
+		const payload = JSON.parse(raw) as { version?: number; schedule?: unknown };
+		if (payload?.version !== 1) return null;
+		const normalized = normalizeScheduleConfig(payload.schedule);
+		return normalized.ok ? normalized.config : null;
+	} catch {
+		// No persisted schedule yet.
+		return null;
+	}
+}
+
+export async function getDownloadScheduleConfig(
+	options: { forceRefresh?: boolean } = {}
+): Promise<DownloadScheduleConfig> {
+	const now = Date.now();
+	if (cachedConfig && !options.forceRefresh && now - cachedAt < SCHEDULE_REFRESH_MS) {
+		return cachedConfig;
+	}
+	cachedConfig = (await readPersistedConfig()) ?? getDefaultScheduleConfig();
+	cachedAt = now;
+	return cachedConfig;
+}
+
+export async function saveDownloadScheduleConfig(config: DownloadScheduleConfig): Promise<void> {
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			await client.set(SCHEDULE_KEY, JSON.stringify(config));
+		} catch (error) {
+			console.warn('[Queue Schedule] Redis write failed, using local state:', error);
+		}
+	}
+	try {
+		await fs.mkdir(path.dirname(SCHEDULE_STATE_FILE), { recursive: true });
+		await fs.writeFile(
+			SCHEDULE_STATE_FILE,
+			JSON.stringify({ version: 1, savedAt: Date.now(), schedule: config }, null, 2)
+		);
+	} catch (error) {
+		console.warn('[Queue Schedule] Failed to persist schedule state:', error);
+	}
+	cachedConfig = config;
+	cachedAt = Date.now();
+}
+
+export async function getDownloadScheduleStatus(
+	maxConcurrent: number,
+	now: number = Date.now()
+): Promise<DownloadScheduleStatus> {
+	const config = await getDownloadScheduleConfig();
+	return buildDownloadScheduleStatus(config, maxConcurrent, getObservedBytesPerSecond(now), now);
+}
+
+export function buildDownloadScheduleStatus(
+	config: DownloadScheduleConfig,
+	maxConcurrent: number,
+	observedBytesPerSecond: number,
+	now: number
+): DownloadScheduleStatus {
+	const at = new Date(now);
+	const effectiveMaxConcurrent = resolveScheduledConcurrency(
+		maxConcurrent,
+		config,
+		observedBytesPerSecond
+	);
+	return {
+		enabled: config.enabled,
+		withinWindow: isWithinScheduleWindow(config, at),
+		nextWindowOpensAt: findNextWindowOpenAt(config, at),
+		bandwidthBudgetBytesPerSecond: config.enabled ? config.bandwidthBudgetBytesPerSecond : null,
+		observedBytesPerSecond,
+		throttled: effectiveMaxConcurrent < maxConcurrent,
+		effectiveMaxConcurrent
+	};
+}
+
+export const __test = {
+	resetBandwidthSamples: () => {
+		bandwidthSamples.length = 0;
+	},
+	resetCachedConfig: () => {
+		cachedConfig = null;
+		cachedAt = 0;
+	}
+};
@@ -12,6 +12,13 @@ export type ErrorCategory =
 	| 'server_error'
 	| 'unknown';
 export type QueueSource = 'redis' | 'memory';
+export type QueueBatchSource =
+	| 'discography'
+	| 'repair-all'
+	| 'quality-upgrade'
+	| 'playlist'
+	| 'manual';
+export type QueueBatchAction = 'pause' | 'resume' | 'cancel' | 'retry';
 
 export interface CategorizedError {
 	category: ErrorCategory;
@@ -35,6 +42,8 @@ export interface TrackJob {
 	targetArtistDir?: string;
 	targetAlbumDir?: string;
 	targetFilenameHint?: string;
+	// Shared folder for tracks grouped outside their album (playlist downloads)
+	targetFolders?: { artistDir: string; albumDir: string };
 	forceOverwrite?: boolean;
 }
 
@@ -83,6 +92,38 @@ export interface QueuedJob {
 	downloadTimeMs?: number;
 	fileSize?: number;
 	fallbackHistory?: AudioQuality[];
+	outputPath?: string;
+	batchId?: string;
+	dependsOn?: string[];
+}
+
+// How enqueueing resolved: a new job, or an existing one that was reused
+export type EnqueueOutcome = 'created' | 'in_library' | 'duplicate' | 'requeued';
+
+export interface QueueBatch {
+	id: string;
+	label: string;
+	source: QueueBatchSource;
+	createdByRoute?: string;
+	createdAt: number;
+}
+
+export type QueueBatchStatus =
+	| 'empty'
+	| 'queued'
+	| 'processing'
+	| 'paused'
+	| 'completed'
+	| 'failed'
+	| 'cancelled';
+
+export interface QueueBatchSummary {
+	batch: QueueBatch;
+	status: QueueBatchStatus;
+	jobIds: string[];
+	counts: Record<JobStatus, number>;
+	total: number;
+	progress: number;
 }
 
 export type QueueStats = {
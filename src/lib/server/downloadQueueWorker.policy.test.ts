@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import { __test } from './downloadQueueWorker';
+import { buildDownloadHistoryEntry } from './downloadHistory';
+import type { QueuedJob } from './downloadQueueTypes';
 import {
 	isDefinitiveExternalTrackFailure,
-	shouldAttemptQualityFallback
+	shouldAttemptQualityFallback,
+	summarizeAlbumQualityOutcome
 } from './downloadQueueWorkerPolicy';
 
 describe('downloadQueueWorker policy helpers', () => {
@@ -114,4 +117,42 @@ describe('downloadQueueWorker policy helpers', () => {
 			).toBe(false);
 		});
 	});
+
+	it('records album quality fallbacks at the lowest delivered quality', () => {
+		expect(
+			summarizeAlbumQualityOutcome([
+				{ success: true, finalQuality: 'HI_RES_LOSSLESS', fallbackHistory: [] },
+				{ success: true, finalQuality: 'HI_RES_LOSSLESS', fallbackHistory: [] }
+			])
+		).toBeNull();
+
+		const outcome = summarizeAlbumQualityOutcome([
+			{ success: true, finalQuality: 'HI_RES_LOSSLESS', fallbackHistory: [] },
+			{ success: true, finalQuality: 'LOSSLESS', fallbackHistory: ['HI_RES_LOSSLESS'] },
+			{
+				success: false,
+				finalQuality: 'LOW',
+				fallbackHistory: ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH']
+			}
+		]);
+		expect(outcome).toEqual({
+			quality: 'LOSSLESS',
+			fallbackHistory: ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH']
+		});
+
+		const entry = buildDownloadHistoryEntry({
+			id: 'job-1',
+			status: 'completed',
+			progress: 1,
+			createdAt: 1,
+			completedAt: 2,
+			job: { type: 'album', albumId: 9, quality: outcome!.quality! },
+			fallbackHistory: outcome!.fallbackHistory
+		} as QueuedJob);
+		expect(entry).toMatchObject({
+			requestedQuality: 'HI_RES_LOSSLESS',
+			quality: 'LOSSLESS',
+			fallbackHistory: ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH']
+		});
+	});
 });
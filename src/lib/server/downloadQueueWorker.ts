@@ -23,6 +23,7 @@ import {
 	isAlbumCategoryRetryable,
 	isDefinitiveExternalTrackFailure,
 	resetTrackProgressForAlbumRetry,
+	summarizeAlbumQualityOutcome,
 	type ExpectedAlbumTrack
 } from './downloadQueueWorkerPolicy';
 import { assertAlbumTrackListComplete } from './downloadQueueWorkerAlbumResponse';
@@ -41,11 +42,17 @@ import {
 import { processTrackJob, downloadAlbumTrackWithPolicy } from './downloadQueueWorkerTrack';
 import { shouldStopJob } from './downloadQueueWorkerControl';
 import {
-	downloadCoverToDir,
-	ensureDir,
-	getDownloadDir,
-	sanitizeDirName
-} from '$lib/server/download/shared';
+	getDownloadScheduleConfig,
+	getObservedBytesPerSecond,
+	isWithinScheduleWindow,
+	resolveScheduledConcurrency
+} from './downloadQueueSchedule';
+import { downloadCoverToDir, ensureDir, getDownloadDir } from '$lib/server/download/shared';
+import {
+	buildNamingTemplateValues,
+	getNamingTemplateConfig,
+	renderAlbumFolders
+} from '$lib/server/download/namingTemplates';
 
 let isRunning = false;
 let stopRequested = false;
@@ -157,6 +164,8 @@ async function failOrRequeueAlbumJob(params: {
 	completedTracks?: number;
 	totalTracks?: number;
 	trackProgress?: QueuedJob['trackProgress'];
+	/** Quality fallbacks to record when the album fails for good (a retry starts over). */
+	qualityOutcome?: Pick<QueuedJob, 'job' | 'fallbackHistory'>;
 }): Promise<'requeued' | 'failed'> {
 	const retryCount = params.job.retryCount ?? 0;
 	const maxRetries = Math.max(0, params.job.maxRetries ?? 3);
@@ -211,7 +220,8 @@ async function failOrRequeueAlbumJob(params: {
 		progress,
 		lastError: params.errorMessage,
 		retryCount,
-		trackProgress: params.trackProgress
+		trackProgress: params.trackProgress,
+		...params.qualityOutcome
 	});
 	return 'failed';
 }
@@ -222,6 +232,21 @@ async function failOrRequeueAlbumJob(params: {
 async function processAlbumJob(job: QueuedJob): Promise<void> {
 	const albumJob = job.job as AlbumJob;
 	let stagingRoot: string | undefined;
+	let namedAlbumJob: AlbumJob = albumJob;
+	const trackQualities: Array<{
+		success: boolean;
+		finalQuality: AudioQuality;
+		fallbackHistory: AudioQuality[];
+	}> = [];
+	// Record the quality the album actually arrived in, so the history can explain it
+	const qualityOutcome = (): Pick<QueuedJob, 'job' | 'fallbackHistory'> | undefined => {
+		const outcome = summarizeAlbumQualityOutcome(trackQualities);
+		if (!outcome) return undefined;
+		return {
+			job: { ...namedAlbumJob, quality: outcome.quality ?? namedAlbumJob.quality },
+			fallbackHistory: outcome.fallbackHistory
+		};
+	};
 
 	await updateJobStatus(job.id, {
 		status: 'processing',
@@ -267,15 +292,21 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 
 		const albumTitle =
 			(typeof album.title === 'string' ? album.title : undefined) || 'Unknown Album';
-		const artistDirName = sanitizeDirName(artistName);
-		const albumDirName = sanitizeDirName(albumTitle);
+		// Render folders once: quality fallback must not split an album across directories.
+		const albumFolders = renderAlbumFolders(
+			await getNamingTemplateConfig({ forceRefresh: true }),
+			buildNamingTemplateValues({ artistName, albumTitle, quality: albumJob.quality, album })
+		);
+		const artistDirName = albumFolders.artistDir;
+		const albumDirName = albumFolders.albumDir;
 		stagingRoot = buildAlbumStagingRoot(job.id);
 		const stagingAlbumDir = path.join(stagingRoot, artistDirName, albumDirName);
 		await ensureDir(stagingAlbumDir);
 		console.log(`[Worker] Album ${albumJob.albumId}: staging download in ${stagingAlbumDir}`);
 
+		namedAlbumJob = { ...albumJob, albumTitle, artistName };
 		await updateJobStatus(job.id, {
-			job: { ...job.job, albumTitle, artistName },
+			job: namedAlbumJob,
 			trackCount: totalTracks,
 			completedTracks: 0
 		});
@@ -420,6 +451,7 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 					retries: number;
 					attempts: number;
 					finalQuality: AudioQuality;
+					fallbackHistory: AudioQuality[];
 					terminalExternal: boolean;
 					filepath?: string;
 				};
@@ -433,6 +465,7 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 						trackNumber,
 						coverUrl,
 						outputBaseDir: stagingRoot,
+						albumFolders,
 						experimentalMusicBrainzTagging: albumJob.experimentalMusicBrainzTagging !== false,
 						strictMusicBrainzMatching: albumJob.strictMusicBrainzMatching === true,
 						musicBrainzReleaseId: preferredMusicBrainzReleaseId,
@@ -445,6 +478,7 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 					);
 				}
 
+				trackQualities.push(result);
 				if (result.success) {
 					completedTracks++;
 					trackProgress[i].status = 'completed';
@@ -532,7 +566,8 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 				downloadTimeMs: duration,
 				completedTracks,
 				totalTracks,
-				trackProgress
+				trackProgress,
+				qualityOutcome: qualityOutcome()
 			});
 			return;
 		}
@@ -551,7 +586,8 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 				downloadTimeMs: duration,
 				completedTracks,
 				totalTracks,
-				trackProgress
+				trackProgress,
+				qualityOutcome: qualityOutcome()
 			});
 			return;
 		} else {
@@ -598,7 +634,8 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 						downloadTimeMs: duration,
 						completedTracks,
 						totalTracks,
-						trackProgress
+						trackProgress,
+						qualityOutcome: qualityOutcome()
 					});
 					return;
 				}
@@ -610,7 +647,9 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 					progress: 1,
 					error: undefined,
 					errorCategory: undefined,
-					failureCode: undefined
+					failureCode: undefined,
+					outputPath: finalAlbumDir,
+					...qualityOutcome()
 				});
 			} finally {
 				await publishLock.release();
@@ -643,7 +682,8 @@ async function processAlbumJob(job: QueuedJob): Promise<void> {
 			job,
 			errorMessage: errorMsg,
 			errorCategory: categorized.category,
-			retryAfterMs: categorized.retryAfterMs
+			retryAfterMs: categorized.retryAfterMs,
+			qualityOutcome: qualityOutcome()
 		});
 	} finally {
 		await cleanupAlbumStaging(stagingRoot);
@@ -699,8 +739,29 @@ async function workerLoop(): Promise<void> {
 				}
 			}
 
+			// Periodic cleanup (every 100 iterations ≈ 200 seconds); runs ahead of the
+			// schedule gate so retention still applies outside the download windows
+			if (Math.random() < 0.01) {
+				const cleaned = await cleanupOldJobs();
+				if (cleaned > 0) {
+					console.log(`[Worker] Periodic cleanup removed ${cleaned} old jobs`);
+				}
+			}
+
+			// Hold queued jobs outside the configured download windows
+			const schedule = await getDownloadScheduleConfig();
+			if (!isWithinScheduleWindow(schedule, new Date())) {
+				await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+				continue;
+			}
+			const concurrencyLimit = resolveScheduledConcurrency(
+				MAX_CONCURRENT,
+				schedule,
+				getObservedBytesPerSecond()
+			);
+
 			// Check if we can process more jobs
-			if (activeSemaphore.size < MAX_CONCURRENT) {
+			if (activeSemaphore.size < concurrencyLimit) {
 				const job = await dequeueJob();
 
 				if (job) {
@@ -729,7 +790,7 @@ async function workerLoop(): Promise<void> {
 
 					activeSemaphore.set(job.id, jobPromise);
 					console.log(
-						`[Worker] Started job ${job.id}, active: ${activeSemaphore.size}/${MAX_CONCURRENT}`
+						`[Worker] Started job ${job.id}, active: ${activeSemaphore.size}/${concurrencyLimit}`
 					);
 				} else {
 					// No jobs, wait before polling again
@@ -739,14 +800,6 @@ async function workerLoop(): Promise<void> {
 				// Max concurrent reached, wait a bit
 				await new Promise((resolve) => setTimeout(resolve, 500));
 			}
-
-			// Periodic cleanup (every 100 iterations ≈ 200 seconds)
-			if (Math.random() < 0.01) {
-				const cleaned = await cleanupOldJobs();
-				if (cleaned > 0) {
-					console.log(`[Worker] Periodic cleanup removed ${cleaned} old jobs`);
-				}
-			}
 		} catch (error) {
 			console.error('[Worker] Loop error:', error);
 			await new Promise((resolve) => setTimeout(resolve, 5000));
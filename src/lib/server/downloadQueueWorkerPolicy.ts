@@ -21,6 +21,34 @@ const QUALITY_FALLBACK_CHAIN: Record<AudioQuality, AudioQuality[]> = {
 	LOW: []
 };
 
+// Best first; an album is only as good as its worst track
+const QUALITY_ORDER: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+
+/**
+ * Quality an album actually arrived in: the lowest quality any delivered track ended up
+ * at, plus every quality given up on for some track (best first, so the requested quality
+ * leads, matching a track job's `fallbackHistory`). Null when no track fell back.
+ */
+export function summarizeAlbumQualityOutcome(
+	tracks: Array<{ success: boolean; finalQuality: AudioQuality; fallbackHistory: AudioQuality[] }>
+): { quality: AudioQuality | null; fallbackHistory: AudioQuality[] } | null {
+	const abandoned = new Set(tracks.flatMap((track) => track.fallbackHistory));
+	if (abandoned.size === 0) return null;
+	let quality: AudioQuality | null = null;
+	for (const track of tracks) {
+		if (
+			track.success &&
+			(!quality || QUALITY_ORDER.indexOf(track.finalQuality) > QUALITY_ORDER.indexOf(quality))
+		) {
+			quality = track.finalQuality;
+		}
+	}
+	return {
+		quality,
+		fallbackHistory: QUALITY_ORDER.filter((candidate) => abandoned.has(candidate))
+	};
+}
+
 export function formatMegabytes(bytes: number | undefined): string {
 	if (!Number.isFinite(bytes) || !bytes) return '0 MB';
 	const mb = (bytes as number) / (1024 * 1024);
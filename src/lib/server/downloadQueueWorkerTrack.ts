@@ -1,6 +1,7 @@
 import { API_CONFIG } from '$lib/config';
 import { losslessAPI } from '$lib/api';
 import { finalizeTrack } from '$lib/server/download/finalizeTrack';
+import type { AlbumFolders } from '$lib/server/download/namingTemplates';
 import type { AudioQuality } from '$lib/types';
 import {
 	categorizeError,
@@ -11,6 +12,7 @@ import {
 } from './downloadQueueManager';
 import { downloadTrackServerSide } from './download/serverDownloadAdapter';
 import * as rateLimiter from './rateLimiter';
+import { recordDownloadedBytes } from './downloadQueueSchedule';
 import { shouldStopJob, waitWithJitter } from './downloadQueueWorkerControl';
 import {
 	deriveFailureCode,
@@ -64,6 +66,7 @@ async function downloadTrack(
 		forceOverwrite?: boolean;
 		targetArtistDir?: string;
 		targetAlbumDir?: string;
+		albumFolders?: AlbumFolders;
 		targetFilenameHint?: string;
 		requireMetadata?: boolean;
 		experimentalMusicBrainzTagging?: boolean;
@@ -74,6 +77,7 @@ async function downloadTrack(
 	success: boolean;
 	error?: string;
 	filepath?: string;
+	fileSize?: number;
 	retryable?: boolean;
 	errorCategory?: ErrorCategory;
 	retryAfterMs?: number;
@@ -146,6 +150,7 @@ async function downloadTrack(
 			console.warn(`[Worker] Track ${trackId} warning: ${result.warning}`);
 		}
 		const downloadDurationMs = Date.now() - downloadStart;
+		recordDownloadedBytes(result.receivedBytes ?? result.buffer.byteLength);
 		console.log(
 			`[Worker] Track ${trackId} download completed in ${downloadDurationMs}ms (${formatMegabytes(result.receivedBytes)})`
 		);
@@ -171,6 +176,7 @@ async function downloadTrack(
 			artistName: resolvedArtist,
 			targetArtistDir: options?.targetArtistDir,
 			targetAlbumDir: options?.targetAlbumDir,
+			albumFolders: options?.albumFolders,
 			targetFilenameHint: options?.targetFilenameHint,
 			requireExistingTargetDir: Boolean(options?.targetArtistDir && options?.targetAlbumDir),
 			trackTitle: resolvedTitle,
@@ -202,7 +208,8 @@ async function downloadTrack(
 		console.log(`[Worker] Completed: ${finalizeResult.filename || trackId}`);
 		return {
 			success: true,
-			filepath: finalizeResult.filepath
+			filepath: finalizeResult.filepath,
+			fileSize: result.buffer.byteLength
 		};
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
@@ -266,7 +273,9 @@ export async function processTrackJob(job: QueuedJob): Promise<void> {
 				forceOverwrite: trackJob.forceOverwrite === true,
 				targetArtistDir: trackJob.targetArtistDir,
 				targetAlbumDir: trackJob.targetAlbumDir,
+				albumFolders: trackJob.targetFolders,
 				targetFilenameHint: trackJob.targetFilenameHint,
+				downloadCover: trackJob.targetFolders ? false : undefined,
 				experimentalMusicBrainzTagging: trackJob.experimentalMusicBrainzTagging !== false,
 				strictMusicBrainzMatching: trackJob.strictMusicBrainzMatching === true,
 				musicBrainzReleaseId: trackJob.musicBrainzReleaseId,
@@ -288,7 +297,9 @@ export async function processTrackJob(job: QueuedJob): Promise<void> {
 				failureCode: undefined,
 				retryCount,
 				job: { ...trackJob, quality: currentQuality },
-				fallbackHistory
+				fallbackHistory,
+				outputPath: result.filepath,
+				fileSize: result.fileSize
 			});
 			return;
 		}
@@ -355,6 +366,7 @@ export async function downloadAlbumTrackWithPolicy(options: {
 	trackNumber: number;
 	coverUrl?: string;
 	outputBaseDir?: string;
+	albumFolders?: AlbumFolders;
 	forceOverwrite?: boolean;
 	experimentalMusicBrainzTagging?: boolean;
 	strictMusicBrainzMatching?: boolean;
@@ -366,6 +378,8 @@ export async function downloadAlbumTrackWithPolicy(options: {
 	retries: number;
 	attempts: number;
 	finalQuality: AudioQuality;
+	/** Qualities given up on for this track, in the order they were tried. */
+	fallbackHistory: AudioQuality[];
 	terminalExternal: boolean;
 	filepath?: string;
 }> {
@@ -387,6 +401,7 @@ export async function downloadAlbumTrackWithPolicy(options: {
 			{
 				downloadCover: false,
 				outputBaseDir: options.outputBaseDir,
+				albumFolders: options.albumFolders,
 				forceOverwrite: options.forceOverwrite === true,
 				experimentalMusicBrainzTagging: options.experimentalMusicBrainzTagging !== false,
 				strictMusicBrainzMatching: options.strictMusicBrainzMatching === true,
@@ -400,6 +415,7 @@ export async function downloadAlbumTrackWithPolicy(options: {
 				retries,
 				attempts,
 				finalQuality: currentQuality,
+				fallbackHistory,
 				terminalExternal: false,
 				filepath: result.filepath
 			};
@@ -435,6 +451,7 @@ export async function downloadAlbumTrackWithPolicy(options: {
 				retries,
 				attempts,
 				finalQuality: currentQuality,
+				fallbackHistory,
 				terminalExternal: true
 			};
 		}
@@ -450,6 +467,7 @@ export async function downloadAlbumTrackWithPolicy(options: {
 				retries,
 				attempts,
 				finalQuality: currentQuality,
+				fallbackHistory,
 				terminalExternal: true
 			};
 		}
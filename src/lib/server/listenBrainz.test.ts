@@ -0,0 +1,259 @@
+// @vitest-environment node
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./musicBrainzLookup', () => ({
+	lookupMusicBrainzTagsForTrack: vi.fn(async () => ({
+		MUSICBRAINZ_TRACKID: '11111111-1111-1111-1111-111111111111',
+		MUSICBRAINZ_ALBUMID: '22222222-2222-2222-2222-222222222222',
+		MUSICBRAINZ_ARTISTID:
+			'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa;bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'
+	}))
+}));
+
+import { lookupMusicBrainzTagsForTrack } from './musicBrainzLookup';
+import {
+	__test,
+	flushPendingListens,
+	getListenBrainzStatus,
+	normalizeListenBrainzConfigUpdate,
+	parseScrobbleBody,
+	saveListenBrainzConfig,
+	scrobble,
+	type ScrobbleTrack
+} from './listenBrainz';
+
+type RecordedRequest = { method: string; url: string; authorization: string; body: unknown };
+
+// Minimal stand-in for a ListenBrainz server
+function startStubServer() {
+	const requests: RecordedRequest[] = [];
+	let submitStatus = 200;
+	const server = http.createServer((req, res) => {
+		let raw = '';
+		req.on('data', (chunk) => (raw += chunk));
+		req.on('end', () => {
+			requests.push({
+				method: req.method ?? '',
+				url: req.url ?? '',
+				authorization: req.headers.authorization ?? '',
+				body: raw ? JSON.parse(raw) : null
+			});
+			res.setHeader('Content-Type', 'application/json');
+			if (req.url === '/1/validate-token') {
+				const valid = req.headers.authorization === 'Token good-token';
+				res.end(JSON.stringify({ valid, user_name: valid ? 'listener' : undefined }));
+				return;
+			}
+			res.statusCode = submitStatus;
+			res.end(JSON.stringify(submitStatus === 200 ? { status: 'ok' } : { error: 'Unavailable' }));
+		});
+	});
+	return new Promise<{
+		url: string;
+		requests: RecordedRequest[];
+		setSubmitStatus: (status: number) => void;
+		close: () => Promise<void>;
+	}>((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				url: `http://127.0.0.1:${port}`,
+				requests,
+				setSubmitStatus: (status) => (submitStatus = status),
+				close: () => new Promise((done) => server.close(() => done()))
+			});
+		});
+	});
+}
+
+const track: ScrobbleTrack = {
+	title: 'Teardrop',
+	artistName: 'Massive Attack',
+	albumTitle: 'Mezzanine',
+	durationSeconds: 330,
+	trackNumber: 3,
+	isrc: 'GBAAA9800189',
+	recordingMbid: null
+};
+
+describe('listenBrainz', () => {
+	let tempDir: string;
+	let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+	beforeEach(async () => {
+		__test.reset();
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'listenbrainz-'));
+		vi.stubEnv('LISTENBRAINZ_STATE_FILE', path.join(tempDir, 'state.json'));
+		vi.stubEnv('LISTENBRAINZ_TOKEN', '');
+		stub = await startStubServer();
+	});
+
+	afterEach(async () => {
+		__test.reset();
+		vi.unstubAllEnvs();
+		await stub.close();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('skips scrobbles until enabled', async () => {
+		expect(await scrobble('listen', track, 1_700_000_000_000)).toBe(false);
+		expect(stub.requests).toHaveLength(0);
+	});
+
+	it('validates the token and reports who listens are submitted as', async () => {
+		const status = await saveListenBrainzConfig({
+			enabled: true,
+			apiUrl: stub.url,
+			token: 'good-token'
+		});
+		expect(status).toMatchObject({ enabled: true, hasToken: true, userName: 'listener' });
+		expect(status).not.toHaveProperty('token');
+
+		const rejected = await saveListenBrainzConfig({
+			enabled: true,
+			apiUrl: stub.url,
+			token: 'bad-token'
+		});
+		expect(rejected.userName).toBeNull();
+		expect(rejected.lastError).toMatch(/rejected/i);
+	});
+
+	it('submits playing now and listens with MusicBrainz IDs', async () => {
+		await saveListenBrainzConfig({ enabled: true, apiUrl: stub.url, token: 'good-token' });
+
+		await scrobble('playing_now', track);
+		await scrobble('listen', track, 1_700_000_000_500);
+
+		const submits = stub.requests.filter((request) => request.url === '/1/submit-listens');
+		expect(submits.map((request) => (request.body as { listen_type: string }).listen_type)).toEqual(
+			['playing_now', 'single']
+		);
+		expect(submits[1].authorization).toBe('Token good-token');
+		expect((submits[1].body as { payload: unknown[] }).payload[0]).toEqual({
+			listened_at: 1_700_000_000,
+			track_metadata: {
+				artist_name: 'Massive Attack',
+				track_name: 'Teardrop',
+				release_name: 'Mezzanine',
+				additional_info: expect.objectContaining({
+					isrc: 'GBAAA9800189',
+					recording_mbid: '11111111-1111-1111-1111-111111111111',
+					release_mbid: '22222222-2222-2222-2222-222222222222',
+					artist_mbids: [
+						'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+						'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'
+					],
+					duration_ms: 330_000,
+					tracknumber: 3
+				})
+			}
+		});
+		expect((await getListenBrainzStatus()).lastSubmittedAt).not.toBeNull();
+	});
+
+	it('uses a known recording id without a lookup', async () => {
+		await saveListenBrainzConfig({ enabled: true, apiUrl: stub.url, token: 'good-token' });
+		vi.mocked(lookupMusicBrainzTagsForTrack).mockClear();
+
+		await scrobble('listen', {
+			...track,
+			recordingMbid: '33333333-3333-3333-3333-333333333333'
+		});
+
+		expect(lookupMusicBrainzTagsForTrack).not.toHaveBeenCalled();
+		const submit = stub.requests.find((request) => request.url === '/1/submit-listens');
+		expect(JSON.stringify(submit?.body)).toContain('33333333-3333-3333-3333-333333333333');
+	});
+
+	it('buffers listens while the server is unavailable and imports them later', async () => {
+		await saveListenBrainzConfig({ enabled: true, apiUrl: stub.url, token: 'good-token' });
+		stub.setSubmitStatus(503);
+
+		await scrobble('listen', track, 1_700_000_000_000);
+		await flushPendingListens();
+		await scrobble('listen', { ...track, title: 'Angel' }, 1_700_000_100_000);
+
+		const unavailable = await getListenBrainzStatus();
+		expect(unavailable.pending).toBe(2);
+		expect(unavailable.lastError).toBe('Unavailable');
+		expect(unavailable.nextRetryAt).not.toBeNull();
+
+		// The buffer survives a restart.
+		__test.reset();
+		expect((await getListenBrainzStatus()).pending).toBe(2);
+
+		stub.setSubmitStatus(200);
+		await flushPendingListens();
+
+		const recovered = await getListenBrainzStatus();
+		expect(recovered).toMatchObject({ pending: 0, lastError: null, nextRetryAt: null });
+		const lastSubmit = stub.requests
+			.filter((request) => request.url === '/1/submit-listens')
+			.at(-1);
+		expect(lastSubmit?.body).toMatchObject({
+			listen_type: 'import',
+			payload: [
+				{ track_metadata: { track_name: 'Teardrop' } },
+				{ track_metadata: { track_name: 'Angel' } }
+			]
+		});
+	});
+
+	it('drops listens the server refuses as invalid', async () => {
+		await saveListenBrainzConfig({ enabled: true, apiUrl: stub.url, token: 'good-token' });
+		stub.setSubmitStatus(400);
+		const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+		await scrobble('listen', track);
+
+		expect((await getListenBrainzStatus()).pending).toBe(0);
+		expect(warnSpy).toHaveBeenCalled();
+		warnSpy.mockRestore();
+	});
+
+	it('writes the state file privately and leaves a damaged one untouched', async () => {
+		const stateFile = path.join(tempDir, 'state.json');
+		await saveListenBrainzConfig({ enabled: false, apiUrl: stub.url, token: 'good-token' });
+		expect((await fs.stat(stateFile)).mode & 0o777).toBe(0o600);
+
+		__test.reset();
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		await fs.writeFile(stateFile, '{"version":1,"pending":[', 'utf8');
+		await expect(scrobble('listen', track)).rejects.toThrow('Scrobbling storage is unavailable');
+		await expect(
+			saveListenBrainzConfig({ enabled: false, apiUrl: stub.url, token: null })
+		).rejects.toThrow('Scrobbling storage is unavailable');
+		expect(await fs.readFile(stateFile, 'utf8')).toBe('{"version":1,"pending":[');
+	});
+
+	it('validates settings updates and scrobble bodies', () => {
+		expect(normalizeListenBrainzConfigUpdate({ enabled: 'yes' })).toMatchObject({ ok: false });
+		expect(
+			normalizeListenBrainzConfigUpdate({ enabled: true, apiUrl: 'ftp://example.com' })
+		).toMatchObject({ ok: false });
+		expect(
+			normalizeListenBrainzConfigUpdate({ enabled: true, apiUrl: 'http://lb.local:8100/' })
+		).toEqual({ ok: true, update: { enabled: true, apiUrl: 'http://lb.local:8100' } });
+		expect(normalizeListenBrainzConfigUpdate({ enabled: false, token: ' ' })).toEqual({
+			ok: true,
+			update: { enabled: false, apiUrl: 'https://api.listenbrainz.org', token: null }
+		});
+
+		expect(parseScrobbleBody({ kind: 'scrobble', track })).toMatchObject({ ok: false });
+		expect(parseScrobbleBody({ kind: 'listen', track: { title: 'T' } })).toMatchObject({
+			ok: false
+		});
+		expect(
+			parseScrobbleBody({
+				kind: 'listen',
+				track: { ...track, recordingMbid: 'not-an-mbid' },
+				listenedAt: 5
+			})
+		).toEqual({ ok: true, kind: 'listen', track, listenedAt: 5 });
+	});
+});
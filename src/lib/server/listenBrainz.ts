@@ -0,0 +1,561 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { lookupMusicBrainzTagsForTrack } from './musicBrainzLookup';
+
+/**
+ * Scrobbling to a ListenBrainz-compatible server.
+ *
+ * The endpoint and user token live on this server so self-hosted ListenBrainz instances
+ * work and the token never reaches the browser. Clients report "playing now" and finished
+ * listens; listens are enriched with MusicBrainz IDs and kept in a persisted buffer until
+ * the endpoint accepts them, so plays made while the endpoint is unreachable are
+ * submitted later. "Playing now" is ephemeral and is not retried.
+ */
+
+export interface ListenBrainzConfig {
+	enabled: boolean;
+	apiUrl: string;
+	token: string | null;
+}
+
+export interface ScrobbleTrack {
+	title: string;
+	artistName: string;
+	albumTitle: string | null;
+	durationSeconds: number | null;
+	trackNumber: number | null;
+	isrc: string | null;
+	// Known MusicBrainz IDs skip the lookup
+	recordingMbid: string | null;
+}
+
+export type ScrobbleKind = 'playing_now' | 'listen';
+
+export interface ListenBrainzStatus {
+	enabled: boolean;
+	apiUrl: string;
+	hasToken: boolean;
+	userName: string | null;
+	pending: number;
+	lastSubmittedAt: number | null;
+	lastError: string | null;
+	nextRetryAt: number | null;
+}
+
+type ListenAdditionalInfo = {
+	isrc?: string;
+	recording_mbid?: string;
+	release_mbid?: string;
+	artist_mbids?: string[];
+	release_group_mbid?: string;
+	duration_ms?: number;
+	tracknumber?: number;
+	media_player: string;
+	submission_client: string;
+	music_service_name?: string;
+};
+
+export interface ListenBrainzListen {
+	listened_at?: number;
+	track_metadata: {
+		artist_name: string;
+		track_name: string;
+		release_name?: string;
+		additional_info: ListenAdditionalInfo;
+	};
+}
+
+type ListenBrainzState = {
+	config: ListenBrainzConfig | null;
+	pending: ListenBrainzListen[];
+	userName: string | null;
+	lastSubmittedAt: number | null;
+	lastError: string | null;
+};
+
+export class ListenBrainzHttpError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = 'ListenBrainzHttpError';
+		this.status = status;
+	}
+}
+
+export const DEFAULT_LISTENBRAINZ_API_URL = 'https://api.listenbrainz.org';
+const STATE_FILE_NAME = 'listenbrainz.v1.json';
+const SUBMISSION_CLIENT = 'tidal-ui';
+const REQUEST_TIMEOUT_MS = 10_000;
+// ListenBrainz rejects import batches above this size
+const MAX_LISTENS_PER_REQUEST = 100;
+const MAX_PENDING_LISTENS = 5_000;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 15 * 60_000;
+const MBID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let state: ListenBrainzState | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let flushInFlight: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let nextRetryAt: number | null = null;
+let retryAttempt = 0;
+
+function resolveStateFile(): string {
+	return (
+		process.env.LISTENBRAINZ_STATE_FILE?.trim() || path.join(process.cwd(), 'data', STATE_FILE_NAME)
+	);
+}
+
+function getDefaultConfig(): ListenBrainzConfig {
+	const token = process.env.LISTENBRAINZ_TOKEN?.trim() || null;
+	return {
+		enabled: Boolean(token),
+		apiUrl: normalizeApiUrl(process.env.LISTENBRAINZ_API_URL) ?? DEFAULT_LISTENBRAINZ_API_URL,
+		token
+	};
+}
+
+function normalizeApiUrl(value: unknown): string | null {
+	if (typeof value !== 'string' || !value.trim()) {
+		return null;
+	}
+	try {
+		const url = new URL(value.trim());
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+			return null;
+		}
+		return url.toString().replace(/\/+$/, '');
+	} catch {
+		return null;
+	}
+}
+
+async function loadState(): Promise<ListenBrainzState> {
+	if (state) {
+		return state;
+	}
+	let loaded: ListenBrainzState = {
+		config: null,
+		pending: [],
+		userName: null,
+		lastSubmittedAt: null,
+		lastError: null
+	};
+	const stateFile = resolveStateFile();
+	let content: string | null = null;
+	try {
+		content = await fs.readFile(stateFile, 'utf8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+			console.error(`[ListenBrainz] Failed to read ${stateFile}:`, error);
+			throw new Error('Scrobbling storage is unavailable');
+		}
+	}
+	if (content !== null) {
+		let raw: ({ version?: number } & Partial<ListenBrainzState>) | null = null;
+		try {
+			raw = JSON.parse(content) as { version?: number } & Partial<ListenBrainzState>;
+		} catch {
+			// reported below
+		}
+		// Starting empty here would drop the buffered listens with the next save
+		if (raw?.version !== 1) {
+			console.error(`[ListenBrainz] ${stateFile} is damaged; leaving it untouched`);
+			throw new Error('Scrobbling storage is unavailable');
+		}
+		const config = raw.config;
+		loaded = {
+			config:
+				config && typeof config === 'object'
+					? {
+							enabled: config.enabled === true,
+							apiUrl: normalizeApiUrl(config.apiUrl) ?? DEFAULT_LISTENBRAINZ_API_URL,
+							token: typeof config.token === 'string' && config.token ? config.token : null
+						}
+					: null,
+			pending: Array.isArray(raw.pending) ? raw.pending : [],
+			userName: typeof raw.userName === 'string' ? raw.userName : null,
+			lastSubmittedAt: typeof raw.lastSubmittedAt === 'number' ? raw.lastSubmittedAt : null,
+			lastError: typeof raw.lastError === 'string' ? raw.lastError : null
+		};
+	}
+	state ??= loaded;
+	return state;
+}
+
+function persistState(): Promise<void> {
+	const snapshot = state;
+	const stateFile = resolveStateFile();
+	const write = writeChain.then(async () => {
+		if (!snapshot) return;
+		await fs.mkdir(path.dirname(stateFile), { recursive: true });
+		// Holds the user token
+		await fs.writeFile(stateFile, JSON.stringify({ version: 1, ...snapshot }, null, 2), {
+			encoding: 'utf8',
+			mode: 0o600
+		});
+	});
+	writeChain = write.catch((error) => {
+		console.warn('[ListenBrainz] Failed to persist scrobbling state:', error);
+	});
+	return writeChain;
+}
+
+async function getConfig(): Promise<ListenBrainzConfig> {
+	return (await loadState()).config ?? getDefaultConfig();
+}
+
+export async function getListenBrainzStatus(): Promise<ListenBrainzStatus> {
+	const current = await loadState();
+	const config = current.config ?? getDefaultConfig();
+	return {
+		enabled: config.enabled,
+		apiUrl: config.apiUrl,
+		hasToken: Boolean(config.token),
+		userName: current.userName,
+		pending: current.pending.length,
+		lastSubmittedAt: current.lastSubmittedAt,
+		lastError: current.lastError,
+		nextRetryAt
+	};
+}
+
+async function requestListenBrainz<T>(
+	config: ListenBrainzConfig,
+	endpoint: string,
+	init: RequestInit,
+	fetchImpl: typeof fetch = fetch
+): Promise<T> {
+	const response = await fetchImpl(`${config.apiUrl}/1/${endpoint}`, {
+		...init,
+		headers: {
+			...(init.body ? { 'Content-Type': 'application/json' } : {}),
+			Authorization: `Token ${config.token ?? ''}`
+		},
+		signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+	});
+	const payload = (await response.json().catch(() => null)) as
+		| (T & { error?: string; message?: string })
+		| null;
+	if (!response.ok) {
+		throw new ListenBrainzHttpError(
+			response.status,
+			payload?.error ?? payload?.message ?? `ListenBrainz HTTP ${response.status}`
+		);
+	}
+	return payload as T;
+}
+
+/**
+ * POST listens to `/1/submit-listens`. Throws ListenBrainzHttpError on a rejected request.
+ */
+export async function submitListens(
+	config: ListenBrainzConfig,
+	listenType: 'single' | 'import' | 'playing_now',
+	listens: ListenBrainzListen[],
+	fetchImpl?: typeof fetch
+): Promise<void> {
+	await requestListenBrainz(
+		config,
+		'submit-listens',
+		{ method: 'POST', body: JSON.stringify({ listen_type: listenType, payload: listens }) },
+		fetchImpl
+	);
+}
+
+async function validateToken(config: ListenBrainzConfig): Promise<string> {
+	const result = await requestListenBrainz<{ valid?: boolean; user_name?: string }>(
+		config,
+		'validate-token',
+		{ method: 'GET' }
+	);
+	if (!result?.valid || !result.user_name) {
+		throw new ListenBrainzHttpError(401, 'Token rejected by the ListenBrainz server');
+	}
+	return result.user_name;
+}
+
+// Network failures, rate limits, server errors and auth errors are worth retrying;
+// anything else means the payload itself was refused.
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof ListenBrainzHttpError) {
+		return (
+			error.status === 401 || error.status === 408 || error.status === 429 || error.status >= 500
+		);
+	}
+	return true;
+}
+
+function describeError(error: unknown): string {
+	if (error instanceof DOMException && error.name === 'TimeoutError') {
+		return 'ListenBrainz server did not respond';
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+function clearRetryTimer(): void {
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+	nextRetryAt = null;
+}
+
+function scheduleRetry(): void {
+	clearRetryTimer();
+	const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retryAttempt);
+	retryAttempt += 1;
+	nextRetryAt = Date.now() + delay;
+	retryTimer = setTimeout(() => {
+		retryTimer = null;
+		nextRetryAt = null;
+		void flushPendingListens();
+	}, delay);
+	retryTimer.unref?.();
+}
+
+/**
+ * Submit buffered listens oldest first. Stops at the first retryable failure and
+ * schedules another attempt with backoff.
+ */
+export function flushPendingListens(): Promise<void> {
+	if (flushInFlight) {
+		return flushInFlight;
+	}
+	flushInFlight = (async () => {
+		const current = await loadState();
+		const config = current.config ?? getDefaultConfig();
+		if (!config.enabled || !config.token || current.pending.length === 0) {
+			return;
+		}
+		clearRetryTimer();
+		while (current.pending.length > 0) {
+			const batch = current.pending.slice(0, MAX_LISTENS_PER_REQUEST);
+			try {
+				await submitListens(config, batch.length === 1 ? 'single' : 'import', batch);
+				current.lastSubmittedAt = Date.now();
+				current.lastError = null;
+				retryAttempt = 0;
+			} catch (error) {
+				current.lastError = describeError(error);
+				if (isRetryableError(error)) {
+					scheduleRetry();
+					break;
+				}
+				console.warn('[ListenBrainz] Dropping rejected listens:', current.lastError);
+			}
+			current.pending = current.pending.filter((listen) => !batch.includes(listen));
+		}
+		await persistState();
+	})().finally(() => {
+		flushInFlight = null;
+	});
+	return flushInFlight;
+}
+
+async function buildAdditionalInfo(track: ScrobbleTrack): Promise<ListenAdditionalInfo> {
+	const info: ListenAdditionalInfo = {
+		media_player: SUBMISSION_CLIENT,
+		submission_client: SUBMISSION_CLIENT
+	};
+	if (track.isrc) info.isrc = track.isrc;
+	if (track.durationSeconds) info.duration_ms = Math.round(track.durationSeconds * 1000);
+	if (track.trackNumber) info.tracknumber = track.trackNumber;
+	if (track.recordingMbid) {
+		info.recording_mbid = track.recordingMbid;
+		return info;
+	}
+	try {
+		const tags = await lookupMusicBrainzTagsForTrack({
+			title: track.title,
+			isrc: track.isrc ?? undefined,
+			artist: { name: track.artistName },
+			album: track.albumTitle ? { title: track.albumTitle } : undefined
+		});
+		if (tags.MUSICBRAINZ_TRACKID) info.recording_mbid = tags.MUSICBRAINZ_TRACKID;
+		if (tags.MUSICBRAINZ_ALBUMID) info.release_mbid = tags.MUSICBRAINZ_ALBUMID;
+		if (tags.MUSICBRAINZ_RELEASEGROUPID) {
+			info.release_group_mbid = tags.MUSICBRAINZ_RELEASEGROUPID;
+		}
+		if (tags.MUSICBRAINZ_ARTISTID) info.artist_mbids = tags.MUSICBRAINZ_ARTISTID.split(';');
+	} catch (error) {
+		// A listen without MusicBrainz IDs is still worth submitting.
+		console.warn('[ListenBrainz] MusicBrainz lookup failed:', describeError(error));
+	}
+	return info;
+}
+
+export async function buildListen(
+	track: ScrobbleTrack,
+	listenedAt?: number
+): Promise<ListenBrainzListen> {
+	return {
+		...(listenedAt !== undefined ? { listened_at: Math.floor(listenedAt / 1000) } : {}),
+		track_metadata: {
+			artist_name: track.artistName,
+			track_name: track.title,
+			...(track.albumTitle ? { release_name: track.albumTitle } : {}),
+			additional_info: await buildAdditionalInfo(track)
+		}
+	};
+}
+
+/**
+ * Report a track as playing now, or buffer and submit a finished listen. Returns false
+ * when scrobbling is off.
+ */
+export async function scrobble(
+	kind: ScrobbleKind,
+	track: ScrobbleTrack,
+	listenedAt: number = Date.now()
+): Promise<boolean> {
+	const config = await getConfig();
+	if (!config.enabled || !config.token) {
+		return false;
+	}
+	if (kind === 'playing_now') {
+		try {
+			await submitListens(config, 'playing_now', [await buildListen(track)]);
+		} catch (error) {
+			(await loadState()).lastError = describeError(error);
+		}
+		return true;
+	}
+	const current = await loadState();
+	current.pending.push(await buildListen(track, listenedAt));
+	if (current.pending.length > MAX_PENDING_LISTENS) {
+		current.pending.splice(0, current.pending.length - MAX_PENDING_LISTENS);
+	}
+	await persistState();
+	if (!retryTimer) {
+		await flushPendingListens();
+	}
+	return true;
+}
+
+/**
+ * Validate a settings update. A missing token keeps the stored one; an empty string
+ * removes it.
+ */
+export function normalizeListenBrainzConfigUpdate(
+	body: unknown
+):
+	| { ok: true; update: { enabled: boolean; apiUrl: string; token?: string | null } }
+	| { ok: false; error: string } {
+	const candidate = (body ?? {}) as Record<string, unknown>;
+	if (typeof candidate.enabled !== 'boolean') {
+		return { ok: false, error: 'enabled must be a boolean' };
+	}
+	const apiUrl =
+		candidate.apiUrl === undefined || candidate.apiUrl === null || candidate.apiUrl === ''
+			? DEFAULT_LISTENBRAINZ_API_URL
+			: normalizeApiUrl(candidate.apiUrl);
+	if (!apiUrl) {
+		return { ok: false, error: 'apiUrl must be an http(s) URL' };
+	}
+	if (candidate.token !== undefined && candidate.token !== null) {
+		if (typeof candidate.token !== 'string') {
+			return { ok: false, error: 'token must be a string' };
+		}
+		return {
+			ok: true,
+			update: { enabled: candidate.enabled, apiUrl, token: candidate.token.trim() || null }
+		};
+	}
+	return { ok: true, update: { enabled: candidate.enabled, apiUrl } };
+}
+
+/**
+ * Store new settings. Enabling checks the token against the endpoint so the settings
+ * screen can show who listens are submitted as.
+ */
+export async function saveListenBrainzConfig(update: {
+	enabled: boolean;
+	apiUrl: string;
+	token?: string | null;
+}): Promise<ListenBrainzStatus> {
+	const current = await loadState();
+	const previous = current.config ?? getDefaultConfig();
+	const config: ListenBrainzConfig = {
+		enabled: update.enabled,
+		apiUrl: update.apiUrl,
+		token: update.token === undefined ? previous.token : update.token
+	};
+	current.config = config;
+	current.lastError = null;
+	if (config.apiUrl !== previous.apiUrl || config.token !== previous.token) {
+		current.userName = null;
+	}
+	if (config.enabled) {
+		if (!config.token) {
+			current.lastError = 'A user token is required to submit listens';
+		} else {
+			try {
+				current.userName = await validateToken(config);
+			} catch (error) {
+				current.lastError = describeError(error);
+			}
+		}
+	}
+	await persistState();
+	retryAttempt = 0;
+	if (config.enabled && config.token && !current.lastError) {
+		await flushPendingListens();
+	} else {
+		clearRetryTimer();
+	}
+	return getListenBrainzStatus();
+}
+
+const asText = (value: unknown): string | null =>
+	typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const asPositive = (value: unknown): number | null =>
+	typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+/**
+ * Validate a POST body of `{ kind, track, listenedAt? }`.
+ */
+export function parseScrobbleBody(
+	body: unknown
+):
+	| { ok: true; kind: ScrobbleKind; track: ScrobbleTrack; listenedAt?: number }
+	| { ok: false; error: string } {
+	const candidate = (body ?? {}) as Record<string, unknown>;
+	if (candidate.kind !== 'playing_now' && candidate.kind !== 'listen') {
+		return { ok: false, error: 'kind must be "playing_now" or "listen"' };
+	}
+	const rawTrack = (candidate.track ?? {}) as Record<string, unknown>;
+	const title = asText(rawTrack.title);
+	const artistName = asText(rawTrack.artistName);
+	if (!title || !artistName) {
+		return { ok: false, error: 'track needs a title and artistName' };
+	}
+	const recordingMbid = asText(rawTrack.recordingMbid);
+	const listenedAt = asPositive(candidate.listenedAt);
+	return {
+		ok: true,
+		kind: candidate.kind,
+		track: {
+			title,
+			artistName,
+			albumTitle: asText(rawTrack.albumTitle),
+			durationSeconds: asPositive(rawTrack.durationSeconds),
+			trackNumber: asPositive(rawTrack.trackNumber),
+			isrc: asText(rawTrack.isrc),
+			recordingMbid: recordingMbid && MBID_PATTERN.test(recordingMbid) ? recordingMbid : null
+		},
+		...(listenedAt !== null ? { listenedAt } : {})
+	};
+}
+
+export const __test = {
+	reset: () => {
+		clearRetryTimer();
+		state = null;
+		flushInFlight = null;
+		retryAttempt = 0;
+		writeChain = Promise.resolve();
+	}
+};
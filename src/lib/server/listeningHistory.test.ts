@@ -0,0 +1,78 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	appendListeningEvents,
+	clearListeningHistory,
+	parseListeningEventsBody,
+	parseListeningHistoryQuery,
+	queryListeningEvents
+} from './listeningHistory';
+import type { ListeningEvent } from '$lib/utils/listeningStats';
+
+function createEvent(playedAt: number, trackKey = 'tidal:1'): ListeningEvent {
+	return {
+		id: `${trackKey}:${playedAt}`,
+		trackKey,
+		playedAt,
+		listenedSeconds: 120,
+		durationSeconds: 240,
+		title: 'Track',
+		artistName: 'Artist',
+		artistId: 2,
+		albumTitle: 'Album',
+		albumId: 3,
+		cover: null
+	};
+}
+
+describe('listeningHistory', () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'listening-history-'));
+		vi.stubEnv('LISTENING_HISTORY_FILE', path.join(tempDir, 'history.jsonl'));
+	});
+
+	afterEach(async () => {
+		vi.unstubAllEnvs();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('stores each event once and returns them newest first', async () => {
+		expect(await appendListeningEvents([createEvent(1_000), createEvent(2_000)])).toBe(2);
+		expect(await appendListeningEvents([createEvent(2_000), createEvent(3_000)])).toBe(1);
+
+		const page = await queryListeningEvents({ limit: 2 });
+		expect(page.total).toBe(3);
+		expect(page.events.map((event) => event.playedAt)).toEqual([3_000, 2_000]);
+
+		const since = await queryListeningEvents({ since: 2_000, limit: 10 });
+		expect(since.events.map((event) => event.playedAt)).toEqual([3_000, 2_000]);
+	});
+
+	it('clears the stored history', async () => {
+		await appendListeningEvents([createEvent(1_000)]);
+		await clearListeningHistory();
+		expect(await queryListeningEvents({ limit: 10 })).toEqual({ events: [], total: 0 });
+	});
+
+	it('validates query params and request bodies', () => {
+		expect(parseListeningHistoryQuery(new URLSearchParams('since=abc'))).toMatchObject({
+			ok: false
+		});
+		expect(parseListeningHistoryQuery(new URLSearchParams('limit=99999'))).toEqual({
+			ok: true,
+			query: { since: undefined, limit: 2000 }
+		});
+		expect(parseListeningEventsBody({ events: 'nope' })).toMatchObject({ ok: false });
+		expect(parseListeningEventsBody({ events: [{ trackKey: 'tidal:1' }] })).toMatchObject({
+			ok: false
+		});
+		expect(parseListeningEventsBody({ events: [createEvent(5)] })).toEqual({
+			ok: true,
+			events: [createEvent(5)]
+		});
+	});
+});
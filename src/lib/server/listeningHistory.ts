@@ -0,0 +1,151 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+	mergeListeningEvents,
+	normalizeListeningEvent,
+	type ListeningEvent
+} from '$lib/utils/listeningStats';
+
+/**
+ * Server copy of the listening history, for clients that opt into sync.
+ *
+ * Clients keep their own log in localStorage and push play events here so other
+ * devices can pull them. Events are identified by track and start time, which makes
+ * re-sending a batch after a failed request harmless. Stored as an append-only JSONL
+ * file; clearing truncates it.
+ */
+
+export interface ListeningHistoryQuery {
+	since?: number;
+	limit: number;
+}
+
+const HISTORY_FILE_NAME = 'listening-history.v1.jsonl';
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 2000;
+// Upper bound on events accepted per request
+export const MAX_LISTENING_EVENTS_PER_REQUEST = 500;
+
+let writeChain: Promise<void> = Promise.resolve();
+
+function resolveHistoryFile(): string {
+	return (
+		process.env.LISTENING_HISTORY_FILE?.trim() ||
+		path.join(process.cwd(), 'data', HISTORY_FILE_NAME)
+	);
+}
+
+async function readListeningEvents(): Promise<ListeningEvent[]> {
+	let raw: string;
+	try {
+		raw = await fs.readFile(resolveHistoryFile(), 'utf8');
+	} catch {
+		return [];
+	}
+	const events: ListeningEvent[] = [];
+	for (const line of raw.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const event = normalizeListeningEvent(JSON.parse(line));
+			if (event) {
+				events.push(event);
+			}
+		} catch {
+			// Skip a torn trailing line from an interrupted append.
+		}
+	}
+	return events;
+}
+
+/**
+ * Append events that aren't stored yet. Returns how many were new.
+ */
+export async function appendListeningEvents(events: ListeningEvent[]): Promise<number> {
+	const historyFile = resolveHistoryFile();
+	let added = 0;
+	const write = writeChain.then(async () => {
+		const known = new Set((await readListeningEvents()).map((event) => event.id));
+		const fresh = events.filter((event) => {
+			if (known.has(event.id)) return false;
+			known.add(event.id);
+			return true;
+		});
+		added = fresh.length;
+		if (fresh.length === 0) {
+			return;
+		}
+		await fs.mkdir(path.dirname(historyFile), { recursive: true });
+		await fs.appendFile(
+			historyFile,
+			fresh.map((event) => `${JSON.stringify(event)}\n`).join(''),
+			'utf8'
+		);
+	});
+	writeChain = write.catch(() => undefined);
+	await write;
+	return added;
+}
+
+export async function queryListeningEvents(
+	query: ListeningHistoryQuery
+): Promise<{ events: ListeningEvent[]; total: number }> {
+	const since = query.since;
+	const matching = mergeListeningEvents(await readListeningEvents()).filter(
+		(event) => since === undefined || event.playedAt >= since
+	);
+	return { events: matching.slice(0, query.limit), total: matching.length };
+}
+
+export async function clearListeningHistory(): Promise<void> {
+	const historyFile = resolveHistoryFile();
+	const write = writeChain.then(async () => {
+		await fs.rm(historyFile, { force: true });
+	});
+	writeChain = write.catch(() => undefined);
+	await write;
+}
+
+export function parseListeningHistoryQuery(
+	params: URLSearchParams
+): { ok: true; query: ListeningHistoryQuery } | { ok: false; error: string } {
+	const rawSince = params.get('since');
+	let since: number | undefined;
+	if (rawSince !== null && rawSince.trim() !== '') {
+		since = Number(rawSince);
+		if (!Number.isFinite(since)) {
+			return { ok: false, error: 'since must be epoch milliseconds' };
+		}
+	}
+	const rawLimit = Number(params.get('limit') ?? DEFAULT_PAGE_SIZE);
+	const limit = Number.isFinite(rawLimit)
+		? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(rawLimit)))
+		: DEFAULT_PAGE_SIZE;
+	return { ok: true, query: { since, limit } };
+}
+
+/**
+ * Validate a POST body of `{ events: ListeningEvent[] }`.
+ */
+export function parseListeningEventsBody(
+	body: unknown
+): { ok: true; events: ListeningEvent[] } | { ok: false; error: string } {
+	const rawEvents = (body as { events?: unknown } | null)?.events;
+	if (!Array.isArray(rawEvents)) {
+		return { ok: false, error: 'events must be an array' };
+	}
+	if (rawEvents.length > MAX_LISTENING_EVENTS_PER_REQUEST) {
+		return {
+			ok: false,
+			error: `At most ${MAX_LISTENING_EVENTS_PER_REQUEST} events per request`
+		};
+	}
+	const events: ListeningEvent[] = [];
+	for (const raw of rawEvents) {
+		const event = normalizeListeningEvent(raw);
+		if (!event) {
+			return { ok: false, error: 'Each event needs trackKey, playedAt and title' };
+		}
+		events.push(event);
+	}
+	return { ok: true, events };
+}
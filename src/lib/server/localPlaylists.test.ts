@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Track } from '$lib/types';
+
+const mocks = vi.hoisted(() => ({
+	createQueueBatch: vi.fn(),
+	enqueueJob: vi.fn()
+}));
+
+vi.mock('node:fs/promises', () => ({
+	readFile: vi.fn(async () => {
+		throw new Error('ENOENT');
+	}),
+	writeFile: vi.fn(async () => undefined),
+	mkdir: vi.fn(async () => undefined)
+}));
+vi.mock('./downloadQueueManager', () => ({
+	createQueueBatch: mocks.createQueueBatch,
+	enqueueJob: mocks.enqueueJob
+}));
+
+import {
+	__test,
+	addLocalPlaylistTracks,
+	createLocalPlaylist,
+	deleteLocalPlaylist,
+	getLocalPlaylist,
+	listLocalPlaylists,
+	normalizePlaylistName,
+	normalizePlaylistTracks,
+	queueLocalPlaylistDownload,
+	removeLocalPlaylistEntries,
+	renameLocalPlaylist,
+	reorderLocalPlaylist
+} from './localPlaylists';
+
+function createTrack(id: number, title: string): Track {
+	return {
+		id,
+		title,
+		duration: 200,
+		trackNumber: id,
+		artist: { id: 7, name: 'Artist', type: 'MAIN' },
+		artists: [{ id: 7, name: 'Artist', type: 'MAIN' }],
+		album: { id: 70, title: 'Album', cover: 'cover-id' }
+	} as Track;
+}
+
+describe('localPlaylists', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		__test.resetState();
+		mocks.createQueueBatch.mockResolvedValue({ id: 'batch-1' });
+		mocks.enqueueJob.mockImplementation(async (job: { trackId: number }) => `job-${job.trackId}`);
+	});
+
+	it('creates, renames and lists playlists with summaries', async () => {
+		const playlist = await createLocalPlaylist({
+			name: 'Road trip',
+			tracks: [createTrack(1, 'One'), createTrack(2, 'Two')]
+		});
+		await renameLocalPlaylist(playlist.id, 'Night drive');
+
+		const [summary] = await listLocalPlaylists();
+		expect(summary).toMatchObject({
+			id: playlist.id,
+			name: 'Night drive',
+			trackCount: 2,
+			durationSeconds: 400,
+			cover: 'cover-id'
+		});
+		expect(await renameLocalPlaylist('missing', 'Name')).toBeNull();
+	});
+
+	it('keeps duplicate tracks as separate entries that can be moved and removed', async () => {
+		const track = createTrack(1, 'One');
+		const playlist = await createLocalPlaylist({ name: 'Loop', tracks: [track, track] });
+		const [first, second] = playlist.entries;
+		expect(first.entryId).not.toBe(second.entryId);
+
+		await addLocalPlaylistTracks(playlist.id, [createTrack(3, 'Three')], 0);
+		let current = await getLocalPlaylist(playlist.id);
+		expect(current?.entries.map((entry) => entry.track.id)).toEqual([3, 1, 1]);
+
+		// Entries missing from the requested order keep their place at the end.
+		await reorderLocalPlaylist(playlist.id, [second.entryId, 'unknown']);
+		current = await getLocalPlaylist(playlist.id);
+		expect(current?.entries[0].entryId).toBe(second.entryId);
+		expect(current?.entries).toHaveLength(3);
+
+		await removeLocalPlaylistEntries(playlist.id, [first.entryId]);
+		current = await getLocalPlaylist(playlist.id);
+		expect(current?.entries.map((entry) => entry.entryId)).not.toContain(first.entryId);
+		expect(current?.entries).toHaveLength(2);
+
+		expect(await deleteLocalPlaylist(playlist.id)).toBe(true);
+		expect(await deleteLocalPlaylist(playlist.id)).toBe(false);
+		expect(await listLocalPlaylists()).toEqual([]);
+	});
+
+	it('queues one track job per catalog track into the shared playlist folder', async () => {
+		const local = { ...createTrack(9, 'Local'), isLocalTrack: true } as unknown as Track;
+		const playlist = await createLocalPlaylist({
+			name: 'Mix',
+			tracks: [createTrack(1, 'One'), createTrack(1, 'One'), local, createTrack(2, 'Two')]
+		});
+
+		const result = await queueLocalPlaylistDownload(playlist, {
+			quality: 'HI_RES_LOSSLESS',
+			createdByRoute: '/playlists/mix'
+		});
+
+		expect(result).toEqual({
+			batchId: 'batch-1',
+			queued: 2,
+			skipped: 2,
+			jobIds: ['job-1', 'job-2']
+		});
+		expect(mocks.createQueueBatch).toHaveBeenCalledWith({
+			label: 'Playlist: Mix',
+			source: 'playlist',
+			createdByRoute: '/playlists/mix'
+		});
+		expect(mocks.enqueueJob).toHaveBeenCalledWith(
+			expect.objectContaining({
+				type: 'track',
+				trackId: 1,
+				quality: 'HI_RES_LOSSLESS',
+				targetFolders: { artistDir: 'Playlists', albumDir: 'Mix' }
+			}),
+			{ batchId: 'batch-1' }
+		);
+	});
+
+	it('skips the batch when nothing can be downloaded', async () => {
+		const playlist = await createLocalPlaylist({ name: 'Empty' });
+
+		expect(await queueLocalPlaylistDownload(playlist, { quality: 'LOSSLESS' })).toEqual({
+			queued: 0,
+			skipped: 0,
+			jobIds: []
+		});
+		expect(mocks.createQueueBatch).not.toHaveBeenCalled();
+	});
+
+	it('validates names and track snapshots', () => {
+		expect(normalizePlaylistName('  Late   night ')).toEqual({ ok: true, name: 'Late night' });
+		expect(normalizePlaylistName('')).toMatchObject({ ok: false });
+		expect(normalizePlaylistName('x'.repeat(121))).toMatchObject({ ok: false });
+
+		expect(normalizePlaylistTracks([createTrack(1, 'One')])).toMatchObject({ ok: true });
+		expect(normalizePlaylistTracks('tracks')).toMatchObject({ ok: false });
+		expect(normalizePlaylistTracks([{ id: 'abc', title: 'Songlink' }])).toMatchObject({
+			ok: false
+		});
+		expect(
+			normalizePlaylistTracks([{ ...createTrack(1, 'One'), isSonglinkTrack: true }])
+		).toMatchObject({ ok: false });
+	});
+});
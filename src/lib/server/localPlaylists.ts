@@ -0,0 +1,359 @@
+/**
+ * Named playlists stored on this server.
+ *
+ * Entries keep a snapshot of the track so a playlist renders and plays without catalog
+ * lookups, and carry their own id so duplicates of a track can be moved or removed
+ * individually. Downloading a playlist queues one track job per TIDAL entry into a
+ * shared "Playlists/<name>" folder; tracks already in the library are skipped by the
+ * queue's usual duplicate check.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { AudioQuality, Track } from '$lib/types';
+import { createQueueBatch, enqueueJob } from './downloadQueueManager';
+import { getConnectedRedis } from './redis';
+
+export type LocalPlaylistEntry = {
+	entryId: string;
+	addedAt: number;
+	track: Track;
+};
+
+export type LocalPlaylist = {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	entries: LocalPlaylistEntry[];
+};
+
+export type LocalPlaylistSummary = {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	trackCount: number;
+	durationSeconds: number;
+	cover: string | null;
+};
+
+export type LocalPlaylistDownloadResult = {
+	batchId?: string;
+	queued: number;
+	skipped: number;
+	jobIds: string[];
+};
+
+type PlaylistState = {
+	playlists: LocalPlaylist[];
+};
+
+const PLAYLISTS_KEY = 'tidal:localPlaylists';
+const PLAYLISTS_STATE_FILE = path.join(process.cwd(), 'data', 'local-playlists.v1.json');
+export const MAX_PLAYLIST_NAME_LENGTH = 120;
+export const MAX_PLAYLIST_TRACKS = 5_000;
+export const PLAYLIST_DOWNLOAD_FOLDER = 'Playlists';
+const ALLOWED_QUALITIES: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+const logPrefix = '[Local Playlists]';
+
+let cachedState: PlaylistState | null = null;
+
+const createId = (prefix: string): string =>
+	`${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+function parseState(payload: unknown): PlaylistState | null {
+	if (!payload || typeof payload !== 'object') return null;
+	const candidate = payload as Partial<PlaylistState>;
+	return { playlists: Array.isArray(candidate.playlists) ? candidate.playlists : [] };
+}
+
+async function readState(): Promise<PlaylistState> {
+	if (cachedState) {
+		return cachedState;
+	}
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			const raw = await client.get(PLAYLISTS_KEY);
+			const parsed = raw ? parseState(JSON.parse(raw)) : null;
+			if (parsed) {
+				cachedState = parsed;
+				return parsed;
+			}
+		} catch (error) {
+			console.warn(`${logPrefix} Redis read failed:`, error);
+		}
+	}
+
+	try {
+		const raw = await fs.readFile(PLAYLISTS_STATE_FILE, 'utf8');
+		const payload = JSON.parse(raw) as { version?: number } & Partial<PlaylistState>;
+		cachedState = (payload?.version === 1 ? parseState(payload) : null) ?? { playlists: [] };
+	} catch {
+		// No saved playlists yet.
+		cachedState = { playlists: [] };
+	}
+	return cachedState;
+}
+
+async function writeState(state: PlaylistState): Promise<void> {
+	cachedState = state;
+	const client = await getConnectedRedis();
+	if (client) {
+		try {
+			await client.set(PLAYLISTS_KEY, JSON.stringify(state));
+		} catch (error) {
+			console.warn(`${logPrefix} Redis write failed, using local state:`, error);
+		}
+	}
+	try {
+		await fs.mkdir(path.dirname(PLAYLISTS_STATE_FILE), { recursive: true });
+		await fs.writeFile(
+			PLAYLISTS_STATE_FILE,
+			JSON.stringify({ version: 1, savedAt: Date.now(), ...state }, null, 2)
+		);
+	} catch (error) {
+		console.warn(`${logPrefix} Failed to persist playlists:`, error);
+	}
+}
+
+async function updatePlaylist(
+	id: string,
+	change: (playlist: LocalPlaylist) => LocalPlaylist
+): Promise<LocalPlaylist | null> {
+	const state = await readState();
+	const existing = state.playlists.find((playlist) => playlist.id === id);
+	if (!existing) {
+		return null;
+	}
+	const updated = { ...change(existing), updatedAt: Date.now() };
+	await writeState({
+		playlists: state.playlists.map((playlist) => (playlist.id === id ? updated : playlist))
+	});
+	return updated;
+}
+
+function toEntries(tracks: Track[], now = Date.now()): LocalPlaylistEntry[] {
+	return tracks.map((track) => ({ entryId: createId('entry'), addedAt: now, track }));
+}
+
+export function summarizeLocalPlaylist(playlist: LocalPlaylist): LocalPlaylistSummary {
+	return {
+		id: playlist.id,
+		name: playlist.name,
+		createdAt: playlist.createdAt,
+		updatedAt: playlist.updatedAt,
+		trackCount: playlist.entries.length,
+		durationSeconds: playlist.entries.reduce(
+			(total, entry) => total + (entry.track.duration || 0),
+			0
+		),
+		cover: playlist.entries.find((entry) => entry.track.album?.cover)?.track.album.cover ?? null
+	};
+}
+
+export async function listLocalPlaylists(): Promise<LocalPlaylistSummary[]> {
+	const state = await readState();
+	return state.playlists
+		.map((playlist) => summarizeLocalPlaylist(playlist))
+		.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getLocalPlaylist(id: string): Promise<LocalPlaylist | null> {
+	const state = await readState();
+	return state.playlists.find((playlist) => playlist.id === id) ?? null;
+}
+
+export async function createLocalPlaylist(input: {
+	name: string;
+	tracks?: Track[];
+}): Promise<LocalPlaylist> {
+	const state = await readState();
+	const now = Date.now();
+	const playlist: LocalPlaylist = {
+		id: createId('playlist'),
+		name: input.name,
+		createdAt: now,
+		updatedAt: now,
+		entries: toEntries(input.tracks ?? [], now)
+	};
+	await writeState({ playlists: [...state.playlists, playlist] });
+	return playlist;
+}
+
+export async function renameLocalPlaylist(id: string, name: string): Promise<LocalPlaylist | null> {
+	return updatePlaylist(id, (playlist) => ({ ...playlist, name }));
+}
+
+/**
+ * Put entries in the given order. Unknown ids are ignored and entries missing from
+ * `entryIds` keep their relative order at the end, so a reorder based on a stale view
+ * never drops tracks added meanwhile.
+ */
+export async function reorderLocalPlaylist(
+	id: string,
+	entryIds: string[]
+): Promise<LocalPlaylist | null> {
+	return updatePlaylist(id, (playlist) => {
+		const byId = new Map(playlist.entries.map((entry) => [entry.entryId, entry]));
+		const ordered: LocalPlaylistEntry[] = [];
+		for (const entryId of entryIds) {
+			const entry = byId.get(entryId);
+			if (entry) {
+				ordered.push(entry);
+				byId.delete(entryId);
+			}
+		}
+		return { ...playlist, entries: [...ordered, ...byId.values()] };
+	});
+}
+
+/**
+ * Add tracks at `position` (default: the end). Returns null when the playlist is
+ * missing; the caller checks the size limit first.
+ */
+export async function addLocalPlaylistTracks(
+	id: string,
+	tracks: Track[],
+	position?: number
+): Promise<LocalPlaylist | null> {
+	return updatePlaylist(id, (playlist) => {
+		const entries = [...playlist.entries];
+		const index =
+			position === undefined ? entries.length : Math.max(0, Math.min(entries.length, position));
+		entries.splice(index, 0, ...toEntries(tracks));
+		return { ...playlist, entries };
+	});
+}
+
+export async function removeLocalPlaylistEntries(
+	id: string,
+	entryIds: string[]
+): Promise<LocalPlaylist | null> {
+	const removed = new Set(entryIds);
+	return updatePlaylist(id, (playlist) => ({
+		...playlist,
+		entries: playlist.entries.filter((entry) => !removed.has(entry.entryId))
+	}));
+}
+
+export async function deleteLocalPlaylist(id: string): Promise<boolean> {
+	const state = await readState();
+	if (!state.playlists.some((playlist) => playlist.id === id)) {
+		return false;
+	}
+	await writeState({ playlists: state.playlists.filter((playlist) => playlist.id !== id) });
+	return true;
+}
+
+/**
+ * Queue every TIDAL track of a playlist into its shared folder, grouped into one batch.
+ * Local library entries are skipped since their files are already on disk.
+ */
+export async function queueLocalPlaylistDownload(
+	playlist: LocalPlaylist,
+	options: { quality: AudioQuality; createdByRoute?: string }
+): Promise<LocalPlaylistDownloadResult> {
+	const seen = new Set<number>();
+	const tracks = playlist.entries
+		.map((entry) => entry.track)
+		.filter((track) => {
+			const trackId = Number(track.id);
+			if ('isLocalTrack' in track || !Number.isInteger(trackId) || trackId <= 0) return false;
+			if (seen.has(trackId)) return false;
+			seen.add(trackId);
+			return true;
+		});
+	const skipped = playlist.entries.length - tracks.length;
+	if (tracks.length === 0) {
+		return { queued: 0, skipped, jobIds: [] };
+	}
+	const batch = await createQueueBatch({
+		label: `Playlist: ${playlist.name}`,
+		source: 'playlist',
+		createdByRoute: options.createdByRoute
+	});
+	const jobIds: string[] = [];
+	for (const track of tracks) {
+		jobIds.push(
+			await enqueueJob(
+				{
+					type: 'track',
+					trackId: Number(track.id),
+					quality: options.quality,
+					albumTitle: track.album?.title,
+					artistName: track.artists?.[0]?.name ?? track.artist?.name,
+					trackTitle: track.version ? `${track.title} (${track.version})` : track.title,
+					trackNumber: track.trackNumber,
+					targetFolders: { artistDir: PLAYLIST_DOWNLOAD_FOLDER, albumDir: playlist.name }
+				},
+				{ batchId: batch.id }
+			)
+		);
+	}
+	console.log(
+		`${logPrefix} Queued playlist download`,
+		JSON.stringify({ playlistId: playlist.id, batchId: batch.id, queued: jobIds.length })
+	);
+	return { batchId: batch.id, queued: jobIds.length, skipped, jobIds };
+}
+
+export function normalizePlaylistName(
+	input: unknown
+): { ok: true; name: string } | { ok: false; error: string } {
+	const name = typeof input === 'string' ? input.trim().replace(/\s+/g, ' ') : '';
+	if (!name) {
+		return { ok: false, error: 'name must be a non-empty string' };
+	}
+	if (name.length > MAX_PLAYLIST_NAME_LENGTH) {
+		return { ok: false, error: `name must be at most ${MAX_PLAYLIST_NAME_LENGTH} characters` };
+	}
+	return { ok: true, name };
+}
+
+/**
+ * Validate track snapshots from a request body. Songlink placeholders are refused
+ * because they can't be replayed or downloaded without conversion.
+ */
+export function normalizePlaylistTracks(
+	input: unknown
+): { ok: true; tracks: Track[] } | { ok: false; error: string } {
+	if (!Array.isArray(input)) {
+		return { ok: false, error: 'tracks must be an array' };
+	}
+	if (input.length > MAX_PLAYLIST_TRACKS) {
+		return { ok: false, error: `A playlist holds at most ${MAX_PLAYLIST_TRACKS} tracks` };
+	}
+	for (const candidate of input) {
+		const track = candidate as Partial<Track> & { isSonglinkTrack?: boolean };
+		if (
+			!track ||
+			typeof track !== 'object' ||
+			track.isSonglinkTrack === true ||
+			typeof track.id !== 'number' ||
+			typeof track.title !== 'string'
+		) {
+			return { ok: false, error: 'Each track needs a numeric id and a title' };
+		}
+	}
+	return { ok: true, tracks: input as Track[] };
+}
+
+export function normalizePlaylistDownloadQuality(
+	input: unknown
+): { ok: true; quality: AudioQuality } | { ok: false; error: string } {
+	if (input === undefined || input === null) {
+		return { ok: true, quality: 'LOSSLESS' };
+	}
+	if (!ALLOWED_QUALITIES.includes(input as AudioQuality)) {
+		return { ok: false, error: `quality must be one of: ${ALLOWED_QUALITIES.join(', ')}` };
+	}
+	return { ok: true, quality: input as AudioQuality };
+}
+
+export const __test = {
+	resetState: () => {
+		cachedState = null;
+	}
+};
@@ -18,8 +18,12 @@ import {
 	clearMediaLibraryScanCache,
 	deduplicateMediaLibrary,
 	getMediaLibrarySuggestions,
+	scanLocalMediaLibrary,
 	sweepTransientAlbumArtifacts
 } from './mediaLibrary';
+import { writeIndexedTags } from './mediaLibraryDb';
+import { __test as scanTest } from './mediaLibraryScan';
+import type { EmbeddedTags } from './mediaLibraryShared';
 import { sanitizeDirName } from '$lib/server/download/shared';
 
 describe('mediaLibrary', () => {
@@ -37,6 +41,58 @@ describe('mediaLibrary', () => {
 		await fs.writeFile(path.join(targetDir, filename), Buffer.from([0x49, 0x44, 0x33, 0x00]));
 	}
 
+	/** Minimal FLAC: STREAMINFO plus a Vorbis comment block, enough for the tag reader. */
+	async function writeTaggedFlac(relativePath: string, comments: string[]): Promise<void> {
+		const metadataBlock = (type: number, last: boolean, data: Buffer) => {
+			const header = Buffer.alloc(4);
+			header[0] = (last ? 0x80 : 0) | type;
+			header.writeUIntBE(data.length, 1, 3);
+			return Buffer.concat([header, data]);
+		};
+		const lengthPrefixed = (value: string) => {
+			const bytes = Buffer.from(value);
+			const length = Buffer.alloc(4);
+			length.writeUInt32LE(bytes.length);
+			return Buffer.concat([length, bytes]);
+		};
+		const streamInfo = Buffer.alloc(34);
+		streamInfo.writeUInt16BE(4096, 0);
+		streamInfo.writeUInt16BE(4096, 2);
+		// 44.1 kHz, stereo, 16 bit
+		streamInfo.set([0x0a, 0xc4, 0x42, 0xf0], 10);
+		const commentCount = Buffer.alloc(4);
+		commentCount.writeUInt32LE(comments.length);
+		const vorbisComment = Buffer.concat([
+			lengthPrefixed('tidal-ui test'),
+			commentCount,
+			...comments.map(lengthPrefixed)
+		]);
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(
+			filePath,
+			Buffer.concat([
+				Buffer.from('fLaC'),
+				metadataBlock(0, false, streamInfo),
+				metadataBlock(4, true, vorbisComment)
+			])
+		);
+	}
+
+	async function indexTags(filename: string, tags: Partial<EmbeddedTags>): Promise<void> {
+		const snapshot = await scanLocalMediaLibrary({ force: true });
+		const file = snapshot.files.find((entry) => entry.filename === filename);
+		expect(
+			writeIndexedTags(file!, {
+				artistKey: '',
+				albumArtistKey: '',
+				albumKey: '',
+				titleKey: '',
+				...tags
+			})
+		).toBe(true);
+	}
+
 	beforeEach(async () => {
 		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-media-library-'));
 		originalDownloadDir = process.env.DOWNLOAD_DIR;
@@ -207,6 +263,103 @@ describe('mediaLibrary', () => {
 		expect(status.matches).toEqual([]);
 	});
 
+	it('matches embedded TIDAL IDs and ISRCs before folder and file names', async () => {
+		await writeTrack('Renamed Artist', 'Renamed Folder', '01 - Renamed.flac');
+		await indexTags('01 - Renamed.flac', {
+			tidalAlbumId: 555,
+			tidalTrackId: 777,
+			isrc: 'USRC17607839'
+		});
+
+		const album = await checkAlbumInLibrary({
+			tidalAlbumId: 555,
+			artistName: 'Original Artist',
+			albumTitle: 'Original Title',
+			expectedTrackCount: 1
+		});
+		expect(album).toMatchObject({ exists: true, matchedTracks: 1 });
+		const statuses = await batchAlbumLibraryStatus([{ id: 555, albumTitle: 'Original Title' }]);
+		expect(statuses[555]).toEqual({ exists: true, matchedTracks: 1 });
+
+		const byTrackId = await checkTrackInLibrary({ tidalTrackId: 777, trackTitle: 'Original' });
+		expect(byTrackId.matches.map((file) => file.filename)).toEqual(['01 - Renamed.flac']);
+		const byIsrc = await checkTrackInLibrary({ isrc: 'US-RC1-76-07839', trackTitle: 'Original' });
+		expect(byIsrc.exists).toBe(true);
+	});
+
+	it('indexes embedded IDs during scans so lookups find renamed files by ID', async () => {
+		await writeTaggedFlac('Somewhere Else/Not The Album/track.flac', [
+			'TITLE=Original',
+			'ARTIST=Original Artist',
+			'TIDAL_TRACK_ID=4242'
+		]);
+
+		await scanLocalMediaLibrary({ force: true });
+		await scanTest.waitForTagIndexPass();
+
+		const status = await checkTrackInLibrary({
+			tidalTrackId: 4242,
+			artistName: 'Original Artist',
+			albumTitle: 'Original Album',
+			trackTitle: 'Original'
+		});
+		expect(status.matches.map((file) => file.relativePath)).toEqual([
+			'Somewhere Else/Not The Album/track.flac'
+		]);
+	});
+
+	it('moves tag passes past files that cannot be read', async () => {
+		vi.resetModules();
+		vi.stubEnv('MEDIA_LIBRARY_TAG_INDEX_FILES_PER_PASS', '2');
+		vi.doMock('./mediaLibraryTags', async (importOriginal) => {
+			const actual = await importOriginal<typeof import('./mediaLibraryTags')>();
+			return {
+				parseEmbeddedTags: async (filePath: string) => {
+					if (filePath.includes(`${path.sep}Broken${path.sep}`)) {
+						throw new Error('unreadable');
+					}
+					return actual.parseEmbeddedTags(filePath);
+				}
+			};
+		});
+		try {
+			const db = await import('./mediaLibraryDb');
+			const scan = await import('./mediaLibraryScan');
+			for (const name of ['a1', 'a2', 'a3']) {
+				await fs.mkdir(path.join(downloadDir, 'A', 'Broken'), { recursive: true });
+				await fs.writeFile(path.join(downloadDir, 'A', 'Broken', `${name}.flac`), 'audio');
+			}
+			await writeTaggedFlac('Z/Album/track.flac', ['TITLE=Late', 'TIDAL_TRACK_ID=99']);
+
+			for (let pass = 0; pass < 2; pass += 1) {
+				await scan.scanLocalMediaLibrary({ force: true });
+				await scan.__test.waitForTagIndexPass();
+			}
+
+			expect(db.findIndexedPathsByTagId(downloadDir, 'tidalTrackId', 99)).toEqual([
+				path.join(downloadDir, 'Z', 'Album', 'track.flac')
+			]);
+			db.__test.close();
+		} finally {
+			vi.doUnmock('./mediaLibraryTags');
+			vi.unstubAllEnvs();
+		}
+	});
+
+	it('skips name matches whose embedded IDs belong to another release', async () => {
+		await writeTrack('Pink Floyd', 'The Wall', '01 - In the Flesh.flac');
+		await indexTags('01 - In the Flesh.flac', { tidalAlbumId: 1, tidalTrackId: 10 });
+		const byName = { artistName: 'Pink Floyd', albumTitle: 'The Wall' };
+
+		expect((await checkAlbumInLibrary(byName)).exists).toBe(true);
+		expect((await checkAlbumInLibrary({ ...byName, tidalAlbumId: 1 })).exists).toBe(true);
+		expect((await checkAlbumInLibrary({ ...byName, tidalAlbumId: 2 })).exists).toBe(false);
+		expect(
+			(await checkTrackInLibrary({ ...byName, trackTitle: 'In the Flesh', tidalTrackId: 20 }))
+				.exists
+		).toBe(false);
+	});
+
 	it('matches Picard-style dot-prefixed filenames in track lookups', async () => {
 		await writeTrack('Sade', 'Love Deluxe', '1. No Ordinary Love.flac');
 
@@ -6,9 +6,16 @@ export type {
 	LocalMediaFile,
 	LocalMediaSnapshot,
 	MediaLibraryAlbumSuggestion,
+	MediaLibraryBrowseAlbum,
+	MediaLibraryBrowseTrack,
 	MediaLibraryArtistSuggestion,
 	MediaLibraryDedupeProgress,
 	MediaLibraryDedupeSummary,
+	MediaLibraryReorganizeConflict,
+	MediaLibraryReorganizeMove,
+	MediaLibraryReorganizeProgress,
+	MediaLibraryReorganizeRollbackSummary,
+	MediaLibraryReorganizeSummary,
 	MediaLibraryTransientSweepSummary
 } from './mediaLibraryShared';
 
@@ -22,6 +29,22 @@ export {
 export { inspectAlbumIntegrity } from './mediaLibraryIntegrity';
 export { sweepTransientAlbumArtifacts } from './mediaLibraryTransient';
 export { deduplicateMediaLibrary } from './mediaLibraryDedupe';
+export {
+	reorganizeMediaLibrary,
+	rollbackMediaLibraryReorganize
+} from './mediaLibraryReorganize';
+export {
+	MediaLibraryBrowseError,
+	getLibraryBrowseAlbum,
+	inspectLibraryBrowseAlbumIntegrity,
+	listLibraryBrowseAlbums
+} from './mediaLibraryBrowse';
+export {
+	getLocalAudioContentType,
+	parseByteRange,
+	resolveLocalMediaFile,
+	resolveLocalStreamForTrack
+} from './mediaLibraryStream';
 export { clearMediaLibraryScanCache } from './mediaLibraryCache';
 export {
 	isTransientAlbumArtifactDirName,
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+const mocks = vi.hoisted(() => ({
+	tagsByFilename: new Map<string, Partial<EmbeddedTags>>(),
+	fetchCatalogAlbum: vi.fn()
+}));
+
+vi.mock('./mediaLibraryIndex', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./mediaLibraryIndex')>()),
+	getEmbeddedTags: vi.fn(async (file: LocalMediaFile) => {
+		const tags = mocks.tagsByFilename.get(file.filename);
+		return tags
+			? ({ artistKey: '', albumArtistKey: '', albumKey: '', titleKey: '', ...tags } as EmbeddedTags)
+			: null;
+	})
+}));
+
+vi.mock('./catalogBoundary', () => ({
+	fetchCatalogAlbum: mocks.fetchCatalogAlbum
+}));
+
+import {
+	MediaLibraryBrowseError,
+	getLibraryBrowseAlbum,
+	inspectLibraryBrowseAlbumIntegrity,
+	listLibraryBrowseAlbums
+} from './mediaLibraryBrowse';
+import { clearMediaLibraryScanCache } from './mediaLibraryCache';
+
+describe('mediaLibraryBrowse', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	async function writeFile(relativePath: string, tags?: Partial<EmbeddedTags>): Promise<void> {
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, relativePath);
+		if (tags) mocks.tagsByFilename.set(path.basename(relativePath), tags);
+	}
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-browse-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		mocks.tagsByFilename.clear();
+		mocks.fetchCatalogAlbum.mockReset();
+		clearMediaLibraryScanCache();
+	});
+
+	afterEach(async () => {
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		clearMediaLibraryScanCache();
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('summarizes album folders from embedded tags', async () => {
+		await writeFile('Band/Album/02 - Two.flac', {
+			albumArtist: 'The Band',
+			album: 'The Album',
+			title: 'Two',
+			trackNo: 2,
+			year: 2001,
+			tidalAlbumId: 77,
+			lossless: true,
+			bitsPerSample: 24,
+			sampleRate: 96_000
+		});
+		await writeFile('Band/Album/01 - One.mp3', {
+			albumArtist: 'The Band',
+			album: 'The Album',
+			title: 'One',
+			trackNo: 1,
+			lossless: false
+		});
+		await writeFile('Loose_Artist/Untagged/track.flac');
+
+		const { albums } = await listLibraryBrowseAlbums();
+		const tagged = albums.find((album) => album.albumDir === 'Album');
+		expect(tagged).toMatchObject({
+			artistName: 'The Band',
+			albumTitle: 'The Album',
+			year: 2001,
+			formats: ['FLAC', 'MP3'],
+			quality: 'HIGH',
+			tidalAlbumId: 77,
+			trackCount: 2
+		});
+		expect(albums.find((album) => album.albumDir === 'Untagged')).toMatchObject({
+			artistName: 'Loose Artist',
+			albumTitle: 'Untagged',
+			quality: null
+		});
+
+		const { tracks } = await getLibraryBrowseAlbum({ artistDir: 'Band', albumDir: 'Album' });
+		expect(tracks.map((track) => track.title)).toEqual(['One', 'Two']);
+		await expect(
+			getLibraryBrowseAlbum({ artistDir: 'Band', albumDir: 'Missing' })
+		).rejects.toBeInstanceOf(MediaLibraryBrowseError);
+	});
+
+	it('requires an embedded TIDAL album id for integrity checks', async () => {
+		await writeFile('Band/Album/01 - One.flac', { title: 'One', trackNo: 1 });
+
+		await expect(
+			inspectLibraryBrowseAlbumIntegrity({ artistDir: 'Band', albumDir: 'Album' })
+		).rejects.toMatchObject({ status: 409 });
+		expect(mocks.fetchCatalogAlbum).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,213 @@
+import type { AudioQuality } from '$lib/types';
+import { getLibraryNamingLayout } from '$lib/server/download/namingTemplates';
+import { fetchCatalogAlbum } from './catalogBoundary';
+import { getEmbeddedTags, getLibraryAlbumLookupIndex } from './mediaLibraryIndex';
+import { inspectAlbumIntegrity } from './mediaLibraryIntegrity';
+import { toLocalFileId } from './mediaLibraryStream';
+import {
+	formatSuggestionLabel,
+	makeAlbumGroupKey,
+	stripExtension,
+	type AlbumIntegrityReport,
+	type AlbumLookupGroup,
+	type EmbeddedTags,
+	type LocalMediaFile,
+	type MediaLibraryBrowseAlbum,
+	type MediaLibraryBrowseTrack
+} from './mediaLibraryShared';
+import { classifyLocalQuality } from './mediaLibraryUpgrades';
+
+/**
+ * Read model for the /library page: album folders summarised from the scan plus their
+ * embedded tags. Tags come from the persistent index, so only new or changed files are
+ * parsed when the summary is rebuilt.
+ */
+
+const QUALITY_ORDER: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+
+let browseCache: {
+	scannedAt: number;
+	baseDir: string;
+	folderTemplate: string | null;
+	albums: MediaLibraryBrowseAlbum[];
+} | null = null;
+
+export class MediaLibraryBrowseError extends Error {
+	status: 404 | 409;
+
+	constructor(message: string, status: 404 | 409) {
+		super(message);
+		this.name = 'MediaLibraryBrowseError';
+		this.status = status;
+	}
+}
+
+function mostCommon<T>(values: Array<T | undefined>): T | undefined {
+	const counts = new Map<T, number>();
+	let best: T | undefined;
+	let bestCount = 0;
+	for (const value of values) {
+		if (value === undefined) continue;
+		const count = (counts.get(value) ?? 0) + 1;
+		counts.set(value, count);
+		if (count > bestCount) {
+			best = value;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+function lowestQuality(values: Array<AudioQuality | null>): AudioQuality | null {
+	let lowest: AudioQuality | null = null;
+	for (const value of values) {
+		if (!value) continue;
+		if (!lowest || QUALITY_ORDER.indexOf(value) > QUALITY_ORDER.indexOf(lowest)) {
+			lowest = value;
+		}
+	}
+	return lowest;
+}
+
+function toFormat(file: LocalMediaFile): string {
+	return file.extension.replace(/^\./, '').toUpperCase();
+}
+
+async function readGroupTags(
+	group: AlbumLookupGroup
+): Promise<Array<{ file: LocalMediaFile; tags: EmbeddedTags | null }>> {
+	const entries: Array<{ file: LocalMediaFile; tags: EmbeddedTags | null }> = [];
+	for (const file of group.files) {
+		entries.push({ file, tags: await getEmbeddedTags(file) });
+	}
+	return entries;
+}
+
+function summarizeAlbum(
+	group: AlbumLookupGroup,
+	entries: Array<{ file: LocalMediaFile; tags: EmbeddedTags | null }>,
+	layout: Awaited<ReturnType<typeof getLibraryNamingLayout>>
+): MediaLibraryBrowseAlbum {
+	const tags = entries.map((entry) => entry.tags);
+	const artistName =
+		mostCommon(tags.map((tag) => tag?.albumArtist ?? tag?.artist)) ??
+		formatSuggestionLabel(layout.artistNameFromDir(group.artistDir), 'Unknown Artist');
+	const albumTitle =
+		mostCommon(tags.map((tag) => tag?.album)) ??
+		formatSuggestionLabel(layout.albumTitleFromDir(group.albumDir), 'Unknown Album');
+	return {
+		artistDir: group.artistDir,
+		albumDir: group.albumDir,
+		artistName,
+		albumTitle,
+		year: mostCommon(tags.map((tag) => tag?.year)),
+		formats: Array.from(new Set(group.files.map(toFormat))).sort(),
+		quality: lowestQuality(tags.map((tag) => classifyLocalQuality(tag))),
+		tidalAlbumId: mostCommon(tags.map((tag) => tag?.tidalAlbumId)),
+		trackCount: group.files.length,
+		sizeBytes: group.files.reduce((total, file) => total + file.size, 0),
+		modifiedAt: Math.max(...group.files.map((file) => file.mtimeMs))
+	};
+}
+
+export async function listLibraryBrowseAlbums(options?: {
+	force?: boolean;
+}): Promise<{ scannedAt: number; albums: MediaLibraryBrowseAlbum[] }> {
+	const index = await getLibraryAlbumLookupIndex({ force: options?.force });
+	const layout = await getLibraryNamingLayout();
+	if (
+		!options?.force &&
+		browseCache &&
+		browseCache.scannedAt === index.scannedAt &&
+		browseCache.baseDir === index.baseDir &&
+		browseCache.folderTemplate === layout.folderTemplate
+	) {
+		return { scannedAt: browseCache.scannedAt, albums: browseCache.albums };
+	}
+
+	const albums: MediaLibraryBrowseAlbum[] = [];
+	for (const group of index.groupsByPath.values()) {
+		albums.push(summarizeAlbum(group, await readGroupTags(group), layout));
+	}
+	browseCache = {
+		scannedAt: index.scannedAt,
+		baseDir: index.baseDir,
+		folderTemplate: layout.folderTemplate,
+		albums
+	};
+	return { scannedAt: index.scannedAt, albums };
+}
+
+async function resolveGroup(artistDir: string, albumDir: string): Promise<AlbumLookupGroup> {
+	const index = await getLibraryAlbumLookupIndex();
+	const group = index.groupsByPath.get(makeAlbumGroupKey(artistDir, albumDir));
+	if (!group) {
+		throw new MediaLibraryBrowseError(`Album folder not found: ${artistDir}/${albumDir}`, 404);
+	}
+	return group;
+}
+
+export function toLibraryBrowseTrack(
+	file: LocalMediaFile,
+	tags: EmbeddedTags | null
+): MediaLibraryBrowseTrack {
+	return {
+		fileId: toLocalFileId(file.relativePath),
+		relativePath: file.relativePath,
+		filename: file.filename,
+		title: tags?.title ?? stripExtension(file.filename),
+		trackNo: tags?.trackNo,
+		discNo: tags?.discNo,
+		format: toFormat(file),
+		quality: classifyLocalQuality(tags),
+		bitsPerSample: tags?.bitsPerSample,
+		sampleRate: tags?.sampleRate,
+		sizeBytes: file.size
+	};
+}
+
+export async function getLibraryBrowseAlbum(input: {
+	artistDir: string;
+	albumDir: string;
+}): Promise<{ album: MediaLibraryBrowseAlbum; tracks: MediaLibraryBrowseTrack[] }> {
+	const group = await resolveGroup(input.artistDir, input.albumDir);
+	const entries = await readGroupTags(group);
+	const layout = await getLibraryNamingLayout();
+	const tracks = entries
+		.map(({ file, tags }) => toLibraryBrowseTrack(file, tags))
+		.sort(
+			(a, b) =>
+				(a.discNo ?? 1) - (b.discNo ?? 1) ||
+				(a.trackNo ?? Number.MAX_SAFE_INTEGER) - (b.trackNo ?? Number.MAX_SAFE_INTEGER) ||
+				a.filename.localeCompare(b.filename)
+		);
+	return { album: summarizeAlbum(group, entries, layout), tracks };
+}
+
+/**
+ * Run the integrity check for a local album against its TIDAL tracklist, which is found
+ * through the embedded TIDAL_ALBUM_ID.
+ */
+export async function inspectLibraryBrowseAlbumIntegrity(input: {
+	artistDir: string;
+	albumDir: string;
+}): Promise<{ albumId: number; report: AlbumIntegrityReport }> {
+	const group = await resolveGroup(input.artistDir, input.albumDir);
+	const entries = await readGroupTags(group);
+	const albumId = mostCommon(entries.map((entry) => entry.tags?.tidalAlbumId));
+	if (!albumId) {
+		throw new MediaLibraryBrowseError('Album has no embedded TIDAL_ALBUM_ID to check against', 409);
+	}
+	const { tracks } = await fetchCatalogAlbum(albumId);
+	const report = await inspectAlbumIntegrity({
+		targetArtistDir: group.artistDir,
+		targetAlbumDir: group.albumDir,
+		tracks: tracks.map((track) => ({
+			trackId: track.id,
+			trackTitle: track.title,
+			trackNumber: track.trackNumber,
+			expectedDurationSeconds: track.duration
+		}))
+	});
+	return { albumId, report };
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+	listIndexedFiles,
+	readIndexedFileStates,
+	readIndexedTags,
+	writeIndexedTags
+} from './mediaLibraryDb';
+import { clearMediaLibraryScanCache, scanLocalMediaLibrary } from './mediaLibraryCache';
+import { __test as scanTest } from './mediaLibraryScan';
+import type { EmbeddedTags } from './mediaLibraryShared';
+
+describe('mediaLibraryDb', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	async function writeTrack(relativePath: string, contents = 'audio'): Promise<string> {
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, contents);
+		return filePath;
+	}
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-media-index-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		clearMediaLibraryScanCache();
+	});
+
+	afterEach(async () => {
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		clearMediaLibraryScanCache();
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('tracks added, changed and removed files across incremental rescans', async () => {
+		const kept = await writeTrack('Artist/Album/01 - Kept.flac');
+		const removed = await writeTrack('Artist/Album/02 - Removed.flac');
+		await scanLocalMediaLibrary({ force: true });
+
+		const tags: EmbeddedTags = {
+			artistKey: 'artist',
+			albumArtistKey: '',
+			albumKey: 'album',
+			titleKey: 'kept',
+			title: 'Kept'
+		};
+		const [keptFile] = listIndexedFiles(downloadDir)!.filter((file) => file.path === kept);
+		expect(writeIndexedTags(keptFile, tags)).toBe(true);
+
+		await fs.rm(removed);
+		await writeTrack('Artist/Other/01 - Added.flac');
+		const snapshot = await scanLocalMediaLibrary({ force: true });
+
+		expect(snapshot.files.map((file) => file.relativePath).sort()).toEqual([
+			'Artist/Album/01 - Kept.flac',
+			'Artist/Other/01 - Added.flac'
+		]);
+		expect(Array.from(readIndexedFileStates(downloadDir)!.keys()).sort()).toEqual(
+			snapshot.files.map((file) => file.path).sort()
+		);
+		expect(readIndexedTags(keptFile)).toEqual(tags);
+
+		await fs.writeFile(kept, 'retagged audio');
+		const [changedFile] = (await scanLocalMediaLibrary({ force: true })).files.filter(
+			(file) => file.path === kept
+		);
+		expect(readIndexedTags(changedFile)).toBeUndefined();
+	});
+
+	it('serves the first read after a restart from the index while rescanning', async () => {
+		await writeTrack('Artist/Album/01 - Indexed.flac');
+		await scanLocalMediaLibrary({ force: true });
+		await writeTrack('Artist/Album/02 - New.flac');
+
+		scanTest.simulateRestart();
+		const coldStart = await scanLocalMediaLibrary();
+		expect(coldStart.files.map((file) => file.filename)).toEqual(['01 - Indexed.flac']);
+
+		const refreshed = await scanLocalMediaLibrary({ force: true });
+		expect(refreshed.files.map((file) => file.filename).sort()).toEqual([
+			'01 - Indexed.flac',
+			'02 - New.flac'
+		]);
+	});
+});
@@ -0,0 +1,343 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+/**
+ * Persistent media-library index. Rows are keyed by absolute path and carry the size and
+ * mtime they were read at, so rescans only hash new/changed files and embedded tags
+ * survive restarts. `:memory:` keeps the index per process (used by tests).
+ */
+const SCHEMA_VERSION = 3;
+
+type IndexedFileRow = {
+	path: string;
+	relative_path: string;
+	artist_dir: string;
+	album_dir: string;
+	filename: string;
+	extension: string;
+	size: number;
+	mtime_ms: number;
+	sample_hash: string;
+	sample_bytes: number;
+};
+
+type IndexedTagsRow = {
+	size: number;
+	mtime_ms: number;
+	tags_json: string | null;
+	tags_indexed: number;
+};
+
+/** Embedded IDs library lookups can match on; each has an expression index. */
+export type IndexedTagIdField = 'tidalTrackId' | 'tidalAlbumId' | 'isrc';
+
+export type IndexedFileState = {
+	size: number;
+	mtimeMs: number;
+	sampleHash: string;
+	sampleBytes: number;
+};
+
+let db: Database.Database | null = null;
+let dbUnavailable = false;
+
+function resolveIndexDbPath(): string {
+	const configured = process.env.MEDIA_LIBRARY_INDEX_DB?.trim();
+	if (configured) {
+		return configured;
+	}
+	return path.join(process.cwd(), 'data', 'media-library-index.v1.sqlite');
+}
+
+function migrate(database: Database.Database): void {
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS media_files (
+			path TEXT PRIMARY KEY,
+			base_dir TEXT NOT NULL,
+			relative_path TEXT NOT NULL,
+			artist_dir TEXT NOT NULL,
+			album_dir TEXT NOT NULL,
+			filename TEXT NOT NULL,
+			extension TEXT NOT NULL,
+			size INTEGER NOT NULL,
+			mtime_ms REAL NOT NULL,
+			sample_hash TEXT NOT NULL,
+			sample_bytes INTEGER NOT NULL,
+			tags_json TEXT,
+			tags_indexed INTEGER NOT NULL DEFAULT 0
+		);
+		CREATE INDEX IF NOT EXISTS media_files_base_dir
+			ON media_files (base_dir, artist_dir, album_dir);
+		CREATE INDEX IF NOT EXISTS media_files_tidal_track_id
+			ON media_files (json_extract(tags_json, '$.tidalTrackId'));
+		CREATE INDEX IF NOT EXISTS media_files_tidal_album_id
+			ON media_files (json_extract(tags_json, '$.tidalAlbumId'));
+		CREATE INDEX IF NOT EXISTS media_files_isrc
+			ON media_files (json_extract(tags_json, '$.isrc'));
+	`);
+	const version = Number(database.pragma('user_version', { simple: true }) ?? 0);
+	if (version > 0 && version < 3) {
+		// v2 reads REPLAYGAIN_* tags, v3 embedded IDs and stream properties; re-parse files
+		// indexed before that.
+		database.exec('UPDATE media_files SET tags_json = NULL, tags_indexed = 0');
+	}
+	database.pragma(`user_version = ${SCHEMA_VERSION}`);
+}
+
+/**
+ * Open the index lazily. Failures (read-only data dir, broken native build) are logged once
+ * and callers fall back to their in-memory behaviour.
+ */
+function getIndexDb(): Database.Database | null {
+	if (db) return db;
+	if (dbUnavailable) return null;
+	const dbPath = resolveIndexDbPath();
+	try {
+		if (dbPath !== ':memory:') {
+			fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+		}
+		const database = new Database(dbPath);
+		if (dbPath !== ':memory:') {
+			database.pragma('journal_mode = WAL');
+		}
+		database.pragma('synchronous = NORMAL');
+		migrate(database);
+		db = database;
+		return db;
+	} catch (error) {
+		dbUnavailable = true;
+		console.warn(
+			`[MediaLibraryIndex] Persistent index unavailable at ${dbPath}, using in-memory scans:`,
+			error instanceof Error ? error.message : error
+		);
+		return null;
+	}
+}
+
+function toLocalMediaFile(row: IndexedFileRow): LocalMediaFile {
+	return {
+		path: row.path,
+		relativePath: row.relative_path,
+		artistDir: row.artist_dir,
+		albumDir: row.album_dir,
+		filename: row.filename,
+		extension: row.extension,
+		size: row.size,
+		mtimeMs: row.mtime_ms,
+		sampleHash: row.sample_hash
+	};
+}
+
+export function isMediaLibraryIndexAvailable(): boolean {
+	return getIndexDb() !== null;
+}
+
+export function readIndexedFileStates(baseDir: string): Map<string, IndexedFileState> | null {
+	const database = getIndexDb();
+	if (!database) return null;
+	const rows = database
+		.prepare(
+			'SELECT path, size, mtime_ms, sample_hash, sample_bytes FROM media_files WHERE base_dir = ?'
+		)
+		.all(baseDir) as Array<
+		Pick<IndexedFileRow, 'path' | 'size' | 'mtime_ms' | 'sample_hash' | 'sample_bytes'>
+	>;
+	const states = new Map<string, IndexedFileState>();
+	for (const row of rows) {
+		states.set(row.path, {
+			size: row.size,
+			mtimeMs: row.mtime_ms,
+			sampleHash: row.sample_hash,
+			sampleBytes: row.sample_bytes
+		});
+	}
+	return states;
+}
+
+/**
+ * Persist one scan of `baseDir`: upsert new/changed files and drop rows for files that are
+ * gone. Cached tags are only kept when size and mtime are unchanged.
+ */
+export function commitIndexedScan(
+	baseDir: string,
+	input: {
+		changed: LocalMediaFile[];
+		removed: string[];
+		sampleBytes: number;
+	}
+): void {
+	const database = getIndexDb();
+	if (!database) return;
+	if (input.changed.length === 0 && input.removed.length === 0) return;
+
+	const upsert = database.prepare(`
+		INSERT INTO media_files (
+			path, base_dir, relative_path, artist_dir, album_dir, filename, extension,
+			size, mtime_ms, sample_hash, sample_bytes
+		) VALUES (
+			@path, @baseDir, @relativePath, @artistDir, @albumDir, @filename, @extension,
+			@size, @mtimeMs, @sampleHash, @sampleBytes
+		)
+		ON CONFLICT (path) DO UPDATE SET
+			base_dir = excluded.base_dir,
+			relative_path = excluded.relative_path,
+			artist_dir = excluded.artist_dir,
+			album_dir = excluded.album_dir,
+			filename = excluded.filename,
+			extension = excluded.extension,
+			sample_hash = excluded.sample_hash,
+			sample_bytes = excluded.sample_bytes,
+			tags_indexed = CASE
+				WHEN media_files.size = excluded.size AND media_files.mtime_ms = excluded.mtime_ms
+				THEN media_files.tags_indexed ELSE 0 END,
+			tags_json = CASE
+				WHEN media_files.size = excluded.size AND media_files.mtime_ms = excluded.mtime_ms
+				THEN media_files.tags_json ELSE NULL END,
+			size = excluded.size,
+			mtime_ms = excluded.mtime_ms
+	`);
+	const remove = database.prepare('DELETE FROM media_files WHERE path = ?');
+
+	database.transaction(() => {
+		for (const file of input.changed) {
+			upsert.run({
+				path: file.path,
+				baseDir,
+				relativePath: file.relativePath,
+				artistDir: file.artistDir,
+				albumDir: file.albumDir,
+				filename: file.filename,
+				extension: file.extension,
+				size: file.size,
+				mtimeMs: file.mtimeMs,
+				sampleHash: file.sampleHash,
+				sampleBytes: input.sampleBytes
+			});
+		}
+		for (const filePath of input.removed) {
+			remove.run(filePath);
+		}
+	})();
+}
+
+export function listIndexedFiles(baseDir: string): LocalMediaFile[] | null {
+	const database = getIndexDb();
+	if (!database) return null;
+	const rows = database
+		.prepare(
+			`SELECT path, relative_path, artist_dir, album_dir, filename, extension, size, mtime_ms,
+				sample_hash, sample_bytes
+			FROM media_files WHERE base_dir = ? ORDER BY relative_path`
+		)
+		.all(baseDir) as IndexedFileRow[];
+	return rows.map(toLocalMediaFile);
+}
+
+/**
+ * Cached tags for `file`, or `undefined` when the index has none for this size/mtime
+ * (`null` means the file was read and carries no usable tags).
+ */
+export function readIndexedTags(file: LocalMediaFile): EmbeddedTags | null | undefined {
+	const database = getIndexDb();
+	if (!database) return undefined;
+	const row = database
+		.prepare('SELECT size, mtime_ms, tags_json, tags_indexed FROM media_files WHERE path = ?')
+		.get(file.path) as IndexedTagsRow | undefined;
+	if (!row || row.tags_indexed !== 1 || row.size !== file.size || row.mtime_ms !== file.mtimeMs) {
+		return undefined;
+	}
+	if (!row.tags_json) return null;
+	try {
+		return JSON.parse(row.tags_json) as EmbeddedTags;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Store the tags read from `file` if its row still has the same size and mtime. With
+ * `onlyIfPending`, tags another reader stored in the meantime are left alone.
+ */
+export function writeIndexedTags(
+	file: LocalMediaFile,
+	tags: EmbeddedTags | null,
+	options?: { onlyIfPending?: boolean }
+): boolean {
+	const database = getIndexDb();
+	if (!database) return false;
+	const result = database
+		.prepare(
+			`UPDATE media_files SET tags_json = ?, tags_indexed = 1
+			WHERE path = ? AND size = ? AND mtime_ms = ?${options?.onlyIfPending ? ' AND tags_indexed = 0' : ''}`
+		)
+		.run(tags ? JSON.stringify(tags) : null, file.path, file.size, file.mtimeMs);
+	return result.changes > 0;
+}
+
+/**
+ * Up to `limit` files under `baseDir` whose tags haven't been read yet, ordered by relative
+ * path and starting after `afterRelativePath`, or null without an index.
+ */
+export function listPendingTagFiles(
+	baseDir: string,
+	limit: number,
+	afterRelativePath = ''
+): LocalMediaFile[] | null {
+	const database = getIndexDb();
+	if (!database) return null;
+	const rows = database
+		.prepare(
+			`SELECT path, relative_path, artist_dir, album_dir, filename, extension, size, mtime_ms,
+				sample_hash, sample_bytes
+			FROM media_files WHERE base_dir = ? AND tags_indexed = 0 AND relative_path > ?
+			ORDER BY relative_path LIMIT ?`
+		)
+		.all(baseDir, afterRelativePath, limit) as IndexedFileRow[];
+	return rows.map(toLocalMediaFile);
+}
+
+const TAG_ID_EXPRESSIONS: Record<IndexedTagIdField, string> = {
+	tidalTrackId: "json_extract(tags_json, '$.tidalTrackId')",
+	tidalAlbumId: "json_extract(tags_json, '$.tidalAlbumId')",
+	isrc: "json_extract(tags_json, '$.isrc')"
+};
+
+/**
+ * Paths under `baseDir` whose indexed tags carry `value` for `field`, or null without an
+ * index. Files still waiting for the post-scan tag pass are not found.
+ */
+export function findIndexedPathsByTagId(
+	baseDir: string,
+	field: IndexedTagIdField,
+	value: string | number
+): string[] | null {
+	const database = getIndexDb();
+	if (!database) return null;
+	const rows = database
+		.prepare(
+			`SELECT path FROM media_files
+			WHERE ${TAG_ID_EXPRESSIONS[field]} = ? AND base_dir = ? AND tags_indexed = 1`
+		)
+		.all(value, baseDir) as Array<Pick<IndexedFileRow, 'path'>>;
+	return rows.map((row) => row.path);
+}
+
+export function clearMediaLibraryIndexDb(baseDir?: string): void {
+	const database = getIndexDb();
+	if (!database) return;
+	if (baseDir) {
+		database.prepare('DELETE FROM media_files WHERE base_dir = ?').run(baseDir);
+		return;
+	}
+	database.prepare('DELETE FROM media_files').run();
+}
+
+export const __test = {
+	close(): void {
+		db?.close();
+		db = null;
+		dbUnavailable = false;
+	}
+};
@@ -3,6 +3,7 @@ import type { Dirent } from 'node:fs';
 import * as path from 'node:path';
 import { parseFile } from 'music-metadata';
 import { getTempDir, moveFile } from '$lib/server/download/shared';
+import { getLibraryNamingLayout } from '$lib/server/download/namingTemplates';
 import { validateAudioFileIntegrity } from './download/audioIntegrity';
 import { clearMediaLibraryScanCache } from './mediaLibraryCache';
 import { scanLocalMediaLibrary } from './mediaLibraryScan';
@@ -335,9 +336,14 @@ export async function deduplicateMediaLibrary(options?: {
 		summary.albumsScanned
 	);
 
+	// Group on the release recovered from the naming template: folders that only differ in
+	// quality are duplicates, while a different year, date or ID is a different release
+	// (an original and its remaster) and must never be merged.
+	const namingLayout = await getLibraryNamingLayout();
 	const duplicateAlbumGroups = new Map<string, AlbumDirGroup[]>();
 	for (const album of albumGroups) {
-		const key = `${album.artistDir}::${normalizeDirComparable(album.albumDir)}`;
+		const releaseKey = namingLayout.albumReleaseKeyFromDir(album.albumDir);
+		const key = `${album.artistDir}::${normalizeDirComparable(releaseKey)}`;
 		const existing = duplicateAlbumGroups.get(key);
 		if (existing) {
 			existing.push(album);
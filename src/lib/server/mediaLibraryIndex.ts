@@ -1,4 +1,9 @@
-import { parseFile } from 'music-metadata';
+import {
+	getLibraryNamingLayout,
+	type LibraryNamingLayout
+} from '$lib/server/download/namingTemplates';
+import { readIndexedTags, writeIndexedTags } from './mediaLibraryDb';
+import { parseEmbeddedTags } from './mediaLibraryTags';
 import { getMediaLibraryScanCacheState, scanLocalMediaLibrary } from './mediaLibraryScan';
 import {
 	type AlbumLookupGroup,
@@ -12,9 +17,7 @@ import {
 	type MediaLibraryAlbumSuggestion,
 	type MediaLibraryArtistSuggestion,
 	makeAlbumGroupKey,
-	normalizeDirComparable,
-	normalizeKey,
-	toPositiveInt
+	normalizeDirComparable
 } from './mediaLibraryShared';
 
 const LIBRARY_SCAN_CACHE_TTL_MS = Math.max(
@@ -30,6 +33,7 @@ let albumLookupCache: {
 	expiresAt: number;
 	scannedAt: number;
 	baseDir: string;
+	namingLayout: LibraryNamingLayout;
 	index: LibraryAlbumLookupIndex;
 } | null = null;
 
@@ -43,7 +47,10 @@ const embeddedTagCache = new Map<
 	}
 >();
 
-function buildLibraryAlbumLookupIndex(snapshot: LocalMediaSnapshot): LibraryAlbumLookupIndex {
+function buildLibraryAlbumLookupIndex(
+	snapshot: LocalMediaSnapshot,
+	namingLayout: LibraryNamingLayout
+): LibraryAlbumLookupIndex {
 	const groupsByPath = new Map<string, AlbumLookupGroup>();
 	for (const file of snapshot.files) {
 		const artistDir = file.artistDir || 'Unknown Artist';
@@ -58,7 +65,7 @@ function buildLibraryAlbumLookupIndex(snapshot: LocalMediaSnapshot): LibraryAlbu
 			artistDir,
 			albumDir,
 			files: [file],
-			albumComparable: normalizeDirComparable(albumDir)
+			albumComparable: normalizeDirComparable(namingLayout.albumTitleFromDir(albumDir))
 		});
 	}
 
@@ -143,12 +150,36 @@ function buildLibraryAlbumLookupIndex(snapshot: LocalMediaSnapshot): LibraryAlbu
 	};
 }
 
+function rememberEmbeddedTags(
+	file: LocalMediaFile,
+	tags: EmbeddedTags | null,
+	options: { persist: boolean }
+): EmbeddedTags | null {
+	if (options.persist && writeIndexedTags(file, tags)) {
+		return tags;
+	}
+	embeddedTagCache.set(file.path, {
+		expiresAt: Date.now() + EMBEDDED_TAG_CACHE_TTL_MS,
+		mtimeMs: file.mtimeMs,
+		size: file.size,
+		tags
+	});
+	return tags;
+}
+
+/**
+ * Tags are served from the persistent index while the file's size and mtime are unchanged;
+ * files the index doesn't know about yet fall back to a short-lived in-memory cache.
+ */
 export async function getEmbeddedTags(file: LocalMediaFile): Promise<EmbeddedTags | null> {
-	const now = Date.now();
+	const indexed = readIndexedTags(file);
+	if (indexed !== undefined) {
+		return indexed;
+	}
 	const cached = embeddedTagCache.get(file.path);
 	if (
 		cached &&
-		cached.expiresAt > now &&
+		cached.expiresAt > Date.now() &&
 		cached.mtimeMs === file.mtimeMs &&
 		cached.size === file.size
 	) {
@@ -156,37 +187,11 @@ export async function getEmbeddedTags(file: LocalMediaFile): Promise<EmbeddedTag
 	}
 
 	try {
-		const metadata = await parseFile(file.path, { duration: false, skipCovers: true });
-		const common = metadata.common ?? {};
-		const tags: EmbeddedTags = {
-			artistKey: normalizeKey(common.artist ?? common.artists?.[0]),
-			albumArtistKey: normalizeKey(common.albumartist),
-			albumKey: normalizeKey(common.album),
-			titleKey: normalizeKey(common.title),
-			trackNo: toPositiveInt(common.track?.no),
-			discNo: toPositiveInt(common.disk?.no)
-		};
-		const hasAnyTag =
-			tags.artistKey.length > 0 ||
-			tags.albumArtistKey.length > 0 ||
-			tags.albumKey.length > 0 ||
-			tags.titleKey.length > 0;
-		const result = hasAnyTag ? tags : null;
-		embeddedTagCache.set(file.path, {
-			expiresAt: now + EMBEDDED_TAG_CACHE_TTL_MS,
-			mtimeMs: file.mtimeMs,
-			size: file.size,
-			tags: result
-		});
-		return result;
+		const tags = await parseEmbeddedTags(file.path);
+		return rememberEmbeddedTags(file, tags, { persist: true });
 	} catch {
-		embeddedTagCache.set(file.path, {
-			expiresAt: now + EMBEDDED_TAG_CACHE_TTL_MS,
-			mtimeMs: file.mtimeMs,
-			size: file.size,
-			tags: null
-		});
-		return null;
+		// Read failures may be transient (file still being written), so keep them out of the index.
+		return rememberEmbeddedTags(file, null, { persist: false });
 	}
 }
 
@@ -194,6 +199,7 @@ export async function getLibraryAlbumLookupIndex(options?: {
 	force?: boolean;
 }): Promise<LibraryAlbumLookupIndex> {
 	const snapshot = await scanLocalMediaLibrary({ force: options?.force });
+	const namingLayout = await getLibraryNamingLayout();
 	const now = Date.now();
 
 	if (
@@ -201,18 +207,20 @@ export async function getLibraryAlbumLookupIndex(options?: {
 		albumLookupCache &&
 		albumLookupCache.expiresAt > now &&
 		albumLookupCache.scannedAt === snapshot.scannedAt &&
-		albumLookupCache.baseDir === snapshot.baseDir
+		albumLookupCache.baseDir === snapshot.baseDir &&
+		albumLookupCache.namingLayout.folderTemplate === namingLayout.folderTemplate
 	) {
 		return albumLookupCache.index;
 	}
 
-	const index = buildLibraryAlbumLookupIndex(snapshot);
+	const index = buildLibraryAlbumLookupIndex(snapshot, namingLayout);
 	const expiresAt =
 		getMediaLibraryScanCacheState()?.expiresAt ?? now + LIBRARY_SCAN_CACHE_TTL_MS;
 	albumLookupCache = {
 		expiresAt,
 		scannedAt: snapshot.scannedAt,
 		baseDir: snapshot.baseDir,
+		namingLayout,
 		index
 	};
 	return index;
@@ -1,7 +1,12 @@
-import { sanitizeDirName } from '$lib/server/download/shared';
+import {
+	getLibraryNamingLayout,
+	type LibraryNamingLayout
+} from '$lib/server/download/namingTemplates';
+import { findIndexedPathsByTagId, type IndexedTagIdField } from './mediaLibraryDb';
 import { getEmbeddedTags, getLibraryAlbumLookupIndex } from './mediaLibraryIndex';
 import { scanLocalMediaLibrary } from './mediaLibraryScan';
 import {
+	type EmbeddedTags,
 	type LibraryAlbumLookupIndex,
 	type LocalMediaFile,
 	type MediaLibraryAlbumSuggestion,
@@ -10,6 +15,7 @@ import {
 	VARIOUS_ARTISTS_KEY,
 	makeAlbumGroupKey,
 	normalizeDirComparable,
+	normalizeIsrc,
 	normalizeKey,
 	normalizeTrackFilename,
 	stripExtension
@@ -36,6 +42,54 @@ function selectLargestAlbumGroup(files: LocalMediaFile[]): LocalMediaFile[] {
 	return best.length > 0 ? best : files;
 }
 
+/** Library files whose indexed tags carry this ID, in scan order. */
+function filesWithTagId(
+	baseDir: string,
+	files: LocalMediaFile[],
+	field: IndexedTagIdField,
+	value: string | number
+): LocalMediaFile[] {
+	const paths = findIndexedPathsByTagId(baseDir, field, value);
+	if (!paths || paths.length === 0) return [];
+	const matched = new Set(paths);
+	return files.filter((file) => matched.has(file.path));
+}
+
+/** Drop name matches whose embedded IDs say they are a different release or recording. */
+async function withoutConflictingIds(
+	files: LocalMediaFile[],
+	conflicts: (tags: EmbeddedTags) => boolean
+): Promise<LocalMediaFile[]> {
+	const kept: LocalMediaFile[] = [];
+	for (const file of files) {
+		const tags = await getEmbeddedTags(file);
+		if (!tags || !conflicts(tags)) {
+			kept.push(file);
+		}
+	}
+	return kept;
+}
+
+/**
+ * Exact folder match, or, with a custom folder template, a match on the artist/album name
+ * recovered from the folder (templated extras such as year or quality are unknown here).
+ */
+function matchesTemplatedDir(
+	dirName: string,
+	expectedDir: string,
+	expectedName: string | undefined,
+	namingLayout: LibraryNamingLayout,
+	level: 'artist' | 'album'
+): boolean {
+	if (dirName === expectedDir) return true;
+	if (!namingLayout.folderTemplate || !expectedName) return false;
+	const recovered =
+		level === 'artist'
+			? namingLayout.artistNameFromDir(dirName)
+			: namingLayout.albumTitleFromDir(dirName);
+	return normalizeDirComparable(recovered) === normalizeDirComparable(expectedName);
+}
+
 export async function resolveAlbumMatches(
 	files: LocalMediaFile[],
 	input: {
@@ -54,8 +108,10 @@ export async function resolveAlbumMatches(
 		typeof input.targetAlbumDir === 'string' && input.targetAlbumDir.trim().length > 0
 			? input.targetAlbumDir.trim()
 			: undefined;
-	const expectedArtistDir = overrideArtistDir ?? sanitizeDirName(input.artistName || 'Unknown Artist');
-	const expectedAlbumDir = overrideAlbumDir ?? sanitizeDirName(input.albumTitle || 'Unknown Album');
+	const namingLayout = await getLibraryNamingLayout();
+	const expectedFolders = namingLayout.expectedFolders(input.artistName, input.albumTitle);
+	const expectedArtistDir = overrideArtistDir ?? expectedFolders.artistDir;
+	const expectedAlbumDir = overrideAlbumDir ?? expectedFolders.albumDir;
 	const expectedArtistKey = normalizeKey(input.artistName);
 	const expectedAlbumKey = normalizeKey(input.albumTitle);
 	const expectedArtistComparable = normalizeDirComparable(overrideArtistDir ?? input.artistName);
@@ -85,12 +141,15 @@ export async function resolveAlbumMatches(
 			: files;
 		const normalizedDirMatches = comparableCandidates.filter((file) => {
 			if (!index) {
-				const albumMatches = normalizeDirComparable(file.albumDir) === expectedAlbumComparable;
+				const albumMatches =
+					normalizeDirComparable(namingLayout.albumTitleFromDir(file.albumDir)) ===
+					expectedAlbumComparable;
 				if (!albumMatches) return false;
 			}
 			if (!expectedArtistComparable) return true;
 			return (
-				normalizeDirComparable(file.artistDir) === expectedArtistComparable ||
+				normalizeDirComparable(namingLayout.artistNameFromDir(file.artistDir)) ===
+					expectedArtistComparable ||
 				file.artistDir === VARIOUS_ARTISTS_DIR
 			);
 		});
@@ -119,7 +178,8 @@ export async function resolveAlbumMatches(
 				(file) =>
 					file.albumDir === expectedAlbumDir ||
 					(expectedAlbumComparable.length > 0 &&
-						normalizeDirComparable(file.albumDir) === expectedAlbumComparable)
+						normalizeDirComparable(namingLayout.albumTitleFromDir(file.albumDir)) ===
+							expectedAlbumComparable)
 			);
 	if (albumDirCandidates.length === 0) {
 		return [];
@@ -146,13 +206,25 @@ export async function resolveAlbumMatches(
 	return selectLargestAlbumGroup(metadataMatches);
 }
 
-export async function checkAlbumInLibrary(input: {
-	artistName?: string;
-	albumTitle?: string;
-	expectedTrackCount?: number;
-	force?: boolean;
-}): Promise<{ exists: boolean; matchedTracks: number; samplePaths: string[] }> {
-	const index = await getLibraryAlbumLookupIndex({ force: input.force });
+/**
+ * Files tagged with the TIDAL album ID win; name matching only runs when none are, and skips
+ * files tagged with a different album ID (another edition of the same title).
+ */
+async function resolveAlbumMatchesById(
+	index: LibraryAlbumLookupIndex,
+	input: {
+		tidalAlbumId?: number;
+		artistName?: string;
+		albumTitle?: string;
+	}
+): Promise<LocalMediaFile[]> {
+	const { tidalAlbumId } = input;
+	if (tidalAlbumId) {
+		const byId = filesWithTagId(index.baseDir, index.files, 'tidalAlbumId', tidalAlbumId);
+		if (byId.length > 0) {
+			return selectLargestAlbumGroup(byId);
+		}
+	}
 	const matches = await resolveAlbumMatches(
 		index.files,
 		{
@@ -161,6 +233,24 @@ export async function checkAlbumInLibrary(input: {
 		},
 		index
 	);
+	if (!tidalAlbumId) {
+		return matches;
+	}
+	return withoutConflictingIds(
+		matches,
+		(tags) => tags.tidalAlbumId !== undefined && tags.tidalAlbumId !== tidalAlbumId
+	);
+}
+
+export async function checkAlbumInLibrary(input: {
+	tidalAlbumId?: number;
+	artistName?: string;
+	albumTitle?: string;
+	expectedTrackCount?: number;
+	force?: boolean;
+}): Promise<{ exists: boolean; matchedTracks: number; samplePaths: string[] }> {
+	const index = await getLibraryAlbumLookupIndex({ force: input.force });
+	const matches = await resolveAlbumMatchesById(index, input);
 	const matchedTracks = matches.length;
 	const expectedTrackCount =
 		typeof input.expectedTrackCount === 'number' && input.expectedTrackCount > 0
@@ -174,29 +264,78 @@ export async function checkAlbumInLibrary(input: {
 	};
 }
 
+/**
+ * Files tagged with the TIDAL track ID, then the ISRC, win; otherwise name matching runs and
+ * skips files tagged as a different track.
+ */
 export async function checkTrackInLibrary(input: {
+	tidalTrackId?: number;
+	isrc?: string;
 	artistName?: string;
 	albumTitle?: string;
 	trackTitle?: string;
 	force?: boolean;
 }): Promise<{ exists: boolean; matches: LocalMediaFile[] }> {
 	const snapshot = await scanLocalMediaLibrary({ force: input.force });
+	const { tidalTrackId } = input;
+	const isrc = normalizeIsrc(input.isrc);
+	if (tidalTrackId) {
+		const byId = filesWithTagId(snapshot.baseDir, snapshot.files, 'tidalTrackId', tidalTrackId);
+		if (byId.length > 0) {
+			return { exists: true, matches: byId };
+		}
+	}
+	if (isrc) {
+		const byIsrc = filesWithTagId(snapshot.baseDir, snapshot.files, 'isrc', isrc);
+		if (byIsrc.length > 0) {
+			return { exists: true, matches: byIsrc };
+		}
+	}
+	const byName = await checkTrackInLibraryByName(snapshot.files, input);
+	if (!tidalTrackId && !isrc) {
+		return byName;
+	}
+	// Another edition of the same recording keeps its ISRC, so either ID matching is enough
+	const matches = await withoutConflictingIds(byName.matches, (tags) => {
+		const comparableTrackId = tidalTrackId !== undefined && tags.tidalTrackId !== undefined;
+		const comparableIsrc = isrc !== undefined && tags.isrc !== undefined;
+		const matchesAnyId =
+			(comparableTrackId && tags.tidalTrackId === tidalTrackId) ||
+			(comparableIsrc && tags.isrc === isrc);
+		return (comparableTrackId || comparableIsrc) && !matchesAnyId;
+	});
+	return { exists: matches.length > 0, matches };
+}
+
+async function checkTrackInLibraryByName(
+	files: LocalMediaFile[],
+	input: {
+		artistName?: string;
+		albumTitle?: string;
+		trackTitle?: string;
+	}
+): Promise<{ exists: boolean; matches: LocalMediaFile[] }> {
 	const titleKey = normalizeKey(input.trackTitle);
-	const expectedArtistDir = input.artistName ? sanitizeDirName(input.artistName) : '';
-	const expectedAlbumDir = input.albumTitle ? sanitizeDirName(input.albumTitle) : '';
+	const namingLayout = await getLibraryNamingLayout();
+	const expectedFolders = namingLayout.expectedFolders(input.artistName, input.albumTitle);
+	const expectedArtistDir = input.artistName ? expectedFolders.artistDir : '';
+	const expectedAlbumDir = input.albumTitle ? expectedFolders.albumDir : '';
 	const expectedArtistKey = normalizeKey(input.artistName);
 	const expectedAlbumKey = normalizeKey(input.albumTitle);
+	const matchesArtistDir = (artistDir: string) =>
+		matchesTemplatedDir(artistDir, expectedArtistDir, input.artistName, namingLayout, 'artist');
+	const matchesAlbumDir = (albumDir: string) =>
+		matchesTemplatedDir(albumDir, expectedAlbumDir, input.albumTitle, namingLayout, 'album');
 
-	const strictCandidates = snapshot.files.filter((file) => {
-		if (expectedArtistDir && file.artistDir !== expectedArtistDir) return false;
-		if (expectedAlbumDir && file.albumDir !== expectedAlbumDir) return false;
+	const strictCandidates = files.filter((file) => {
+		if (expectedArtistDir && !matchesArtistDir(file.artistDir)) return false;
+		if (expectedAlbumDir && !matchesAlbumDir(file.albumDir)) return false;
 		return true;
 	});
 	const compilationCandidates =
 		strictCandidates.length === 0 && expectedAlbumDir
-			? snapshot.files.filter(
-					(file) =>
-						file.artistDir === VARIOUS_ARTISTS_DIR && file.albumDir === expectedAlbumDir
+			? files.filter(
+					(file) => file.artistDir === VARIOUS_ARTISTS_DIR && matchesAlbumDir(file.albumDir)
 				)
 			: [];
 	const candidates =
@@ -204,7 +343,7 @@ export async function checkTrackInLibrary(input: {
 			? strictCandidates
 			: compilationCandidates.length > 0
 				? compilationCandidates
-				: snapshot.files;
+				: files;
 
 	const filenameMatches = candidates.filter((file) => {
 		if (!titleKey) return false;
@@ -277,14 +416,11 @@ export async function batchAlbumLibraryStatus(
 	const response: Record<number, { exists: boolean; matchedTracks: number }> = {};
 
 	for (const album of albums) {
-		const matches = await resolveAlbumMatches(
-			index.files,
-			{
-				artistName: album.artistName,
-				albumTitle: album.albumTitle
-			},
-			index
-		);
+		const matches = await resolveAlbumMatchesById(index, {
+			tidalAlbumId: album.id,
+			artistName: album.artistName,
+			albumTitle: album.albumTitle
+		});
 		const matchedTracks = matches.length;
 		const expectedTrackCount =
 			typeof album.expectedTrackCount === 'number' && album.expectedTrackCount > 0
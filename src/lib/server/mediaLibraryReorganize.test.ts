@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+const mocks = vi.hoisted(() => {
+	process.env.MEDIA_LIBRARY_REORGANIZE_JOURNAL_DIR = `${process.env.TMPDIR || '/tmp'}/tidal-ui-reorganize-journals`;
+	return { tagsByFilename: new Map<string, Partial<EmbeddedTags>>() };
+});
+
+vi.mock('./mediaLibraryIndex', () => ({
+	getEmbeddedTags: vi.fn(async (file: LocalMediaFile) => {
+		const tags = mocks.tagsByFilename.get(file.filename);
+		return tags
+			? ({ artistKey: '', albumArtistKey: '', albumKey: '', titleKey: '', ...tags } as EmbeddedTags)
+			: null;
+	}),
+	getLibraryAlbumLookupIndex: vi.fn(),
+	clearMediaLibraryIndexCache: vi.fn()
+}));
+
+import { reorganizeMediaLibrary, rollbackMediaLibraryReorganize } from './mediaLibraryReorganize';
+import { clearMediaLibraryScanCache } from './mediaLibraryCache';
+
+const legacyNaming = { folderTemplate: null, fileTemplate: null };
+
+describe('mediaLibraryReorganize', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	async function writeFile(relativePath: string, tags?: Partial<EmbeddedTags>): Promise<void> {
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, relativePath);
+		if (tags) mocks.tagsByFilename.set(path.basename(relativePath), tags);
+	}
+
+	async function listFiles(dir = downloadDir, prefix = ''): Promise<string[]> {
+		const entries = await fs.readdir(dir, { withFileTypes: true });
+		const nested = await Promise.all(
+			entries.map((entry) =>
+				entry.isDirectory()
+					? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+					: Promise.resolve([`${prefix}${entry.name}`])
+			)
+		);
+		return nested.flat().sort();
+	}
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-reorganize-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		mocks.tagsByFilename.clear();
+		clearMediaLibraryScanCache();
+	});
+
+	afterEach(async () => {
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('plans canonical moves and reports conflicts without touching files on dry run', async () => {
+		await writeFile('Artist - Album/1 song.flac', {
+			albumArtist: 'Artist',
+			album: 'Album',
+			title: 'Song',
+			trackNo: 1
+		});
+		await writeFile('loose.mp3', { artist: 'Artist', album: 'Album', title: 'Other', trackNo: 2 });
+		await writeFile('Artist/Album/02 - Other.mp3', {
+			artist: 'Artist',
+			album: 'Album',
+			title: 'Other',
+			trackNo: 2
+		});
+		await writeFile('untagged.flac');
+		const before = await listFiles();
+
+		const summary = await reorganizeMediaLibrary({ naming: legacyNaming, runId: 'reorganize-dry' });
+
+		expect(summary.dryRun).toBe(true);
+		expect(summary.unchanged).toBe(1);
+		expect(summary.moves).toEqual([
+			{ kind: 'audio', from: 'Artist - Album/1 song.flac', to: 'Artist/Album/01 - Song.flac' }
+		]);
+		expect(summary.conflicts).toEqual(
+			expect.arrayContaining([
+				{ from: 'untagged.flac', reason: 'missing-tags' },
+				{ from: 'loose.mp3', to: 'Artist/Album/02 - Other.mp3', reason: 'target-exists' }
+			])
+		);
+		expect(await listFiles()).toEqual(before);
+	});
+
+	it('applies moves with the cover and rolls them back from the journal', async () => {
+		await writeFile('Artist - Album/a.flac', {
+			albumArtist: 'Artist',
+			album: 'Album',
+			title: 'A',
+			trackNo: 1
+		});
+		await writeFile('Artist - Album/b.flac', {
+			albumArtist: 'Artist',
+			album: 'Album',
+			title: 'B',
+			trackNo: 2
+		});
+		await writeFile('Artist - Album/cover.jpg');
+		await writeFile('Artist - Album/a.lrc');
+		await writeFile('Artist - Album/album.cue');
+		const before = await listFiles();
+
+		const preview = await reorganizeMediaLibrary({
+			naming: legacyNaming,
+			runId: 'reorganize-plan'
+		});
+		const summary = await reorganizeMediaLibrary({
+			naming: legacyNaming,
+			dryRun: false,
+			planHash: preview.planHash,
+			runId: 'reorganize-apply'
+		});
+
+		expect(summary.movesApplied).toBe(5);
+		expect(await listFiles()).toEqual([
+			'Artist/Album/01 - A.flac',
+			'Artist/Album/01 - A.lrc',
+			'Artist/Album/02 - B.flac',
+			'Artist/Album/album.cue',
+			'Artist/Album/cover.jpg'
+		]);
+
+		const rollback = await rollbackMediaLibraryReorganize('reorganize-apply');
+		expect(rollback).toMatchObject({ restored: 5, errors: 0 });
+		expect(await listFiles()).toEqual(before);
+	});
+
+	it('refuses to apply a plan that changed since the preview', async () => {
+		const tags = { albumArtist: 'Artist', album: 'Album', title: 'A', trackNo: 1 };
+		await writeFile('Artist - Album/a.flac', { ...tags, tidalTrackId: 501 });
+		const naming = { folderTemplate: null, fileTemplate: '{track} - {title} [{trackid}]' };
+
+		const preview = await reorganizeMediaLibrary({ naming, runId: 'reorganize-preview' });
+		expect(preview.moves).toEqual([
+			{ kind: 'audio', from: 'Artist - Album/a.flac', to: 'Artist/Album/01 - A [501].flac' }
+		]);
+
+		await writeFile('Artist - Album/b.flac', { ...tags, title: 'B', trackNo: 2 });
+		const before = await listFiles();
+		const summary = await reorganizeMediaLibrary({
+			naming,
+			dryRun: false,
+			planHash: preview.planHash,
+			runId: 'reorganize-stale'
+		});
+
+		expect(summary).toMatchObject({ planChanged: true, movesApplied: 0 });
+		expect(summary.moves).toContainEqual({
+			kind: 'audio',
+			from: 'Artist - Album/b.flac',
+			to: 'Artist/Album/02 - B.flac'
+		});
+		expect(await listFiles()).toEqual(before);
+	});
+});
@@ -0,0 +1,489 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { ensureDir, moveFile } from '$lib/server/download/shared';
+import {
+	buildNamingTemplateValues,
+	renderAlbumFolders,
+	renderTrackFilename,
+	type NamingTemplateConfig
+} from '$lib/server/download/namingTemplates';
+import { clearMediaLibraryScanCache } from './mediaLibraryCache';
+import { getEmbeddedTags } from './mediaLibraryIndex';
+import { scanLocalMediaLibrary } from './mediaLibraryScan';
+import type {
+	LocalMediaFile,
+	MediaLibraryReorganizeConflict,
+	MediaLibraryReorganizeMove,
+	MediaLibraryReorganizeProgress,
+	MediaLibraryReorganizeRollbackSummary,
+	MediaLibraryReorganizeSummary
+} from './mediaLibraryShared';
+
+const JOURNAL_ROOT =
+	process.env.MEDIA_LIBRARY_REORGANIZE_JOURNAL_DIR?.trim() ||
+	path.join(process.cwd(), 'data', 'media-maintenance', 'reorganize-journals');
+const REORGANIZE_DIFF_LIMIT = Math.max(
+	10,
+	Number(process.env.MEDIA_LIBRARY_REORGANIZE_DIFF_LIMIT || 500)
+);
+const COVER_FILENAME = 'cover.jpg';
+const STAGING_DIR_PREFIX = '.reorganize-';
+
+type JournalEntry = {
+	from: string;
+	to: string;
+	staged: string;
+};
+
+type ReorganizeJournal = {
+	version: 1;
+	runId: string;
+	baseDir: string;
+	createdAt: number;
+	updatedAt: number;
+	status: 'applying' | 'applied' | 'failed' | 'rolled-back';
+	entries: JournalEntry[];
+};
+
+type PlannedMove = MediaLibraryReorganizeMove & { sourcePath: string; targetPath: string };
+
+function journalPathFor(runId: string): string {
+	return path.join(JOURNAL_ROOT, `${runId}.json`);
+}
+
+async function writeJournal(journal: ReorganizeJournal): Promise<string> {
+	await fs.mkdir(JOURNAL_ROOT, { recursive: true });
+	const journalPath = journalPathFor(journal.runId);
+	journal.updatedAt = Date.now();
+	await fs.writeFile(journalPath, JSON.stringify(journal, null, 2), 'utf8');
+	return journalPath;
+}
+
+async function readJournal(runId: string): Promise<ReorganizeJournal | null> {
+	try {
+		const raw = await fs.readFile(journalPathFor(runId), 'utf8');
+		const parsed = JSON.parse(raw) as ReorganizeJournal;
+		return parsed?.version === 1 && Array.isArray(parsed.entries) ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+async function pathExists(targetPath: string): Promise<boolean> {
+	return fs
+		.access(targetPath)
+		.then(() => true)
+		.catch(() => false);
+}
+
+/**
+ * Canonical path for one file, derived from its embedded tags. Files without an album,
+ * artist or title tag cannot be placed and are reported instead of moved.
+ */
+async function computeTargetRelativePath(
+	file: LocalMediaFile,
+	naming: NamingTemplateConfig
+): Promise<string | null> {
+	const tags = await getEmbeddedTags(file);
+	const artistName = tags?.albumArtist || tags?.artist;
+	if (!tags?.album || !artistName || !tags.title) {
+		return null;
+	}
+	const input = {
+		artistName,
+		albumTitle: tags.album,
+		trackTitle: tags.title,
+		trackId: tags.tidalTrackId,
+		trackNumber: tags.trackNo,
+		trackMetadata: {
+			track: {
+				title: tags.title,
+				volumeNumber: tags.discNo,
+				isrc: tags.isrc,
+				artist: { name: tags.artist || artistName },
+				album: {
+					title: tags.album,
+					releaseDate: tags.year ? String(tags.year) : undefined,
+					numberOfVolumes: tags.discTotal,
+					id: tags.tidalAlbumId,
+					upc: tags.barcode
+				}
+			}
+		},
+		ext: file.extension.replace(/^\./, '')
+	};
+	// Files without an embedded track ID leave `{trackid}` empty rather than rendering "0"
+	const values = buildNamingTemplateValues(input);
+	const folders = renderAlbumFolders(naming, values);
+	const filename = renderTrackFilename(naming, { ...input, trackId: input.trackId ?? 0 }, values);
+	return [folders.artistDir, folders.albumDir, filename].join('/');
+}
+
+/**
+ * Fingerprint of the full plan (not just the listed sample), so an apply can check it is
+ * about to make exactly the moves that were previewed.
+ */
+function hashReorganizePlan(naming: NamingTemplateConfig, moves: PlannedMove[]): string {
+	const hash = createHash('sha256');
+	hash.update(JSON.stringify([naming.folderTemplate, naming.fileTemplate]));
+	for (const move of moves) {
+		hash.update(`\n${move.kind}\u0000${move.from}\u0000${move.to}`);
+	}
+	return hash.digest('hex');
+}
+
+async function planReorganize(
+	files: LocalMediaFile[],
+	baseDir: string,
+	naming: NamingTemplateConfig,
+	summary: MediaLibraryReorganizeSummary,
+	onPlanned: (processed: number) => void
+): Promise<PlannedMove[]> {
+	const sorted = [...files].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+	const movingSources = new Set<string>();
+	const candidates: PlannedMove[] = [];
+	const conflicts: MediaLibraryReorganizeConflict[] = [];
+
+	for (const [index, file] of sorted.entries()) {
+		onPlanned(index + 1);
+		const target = await computeTargetRelativePath(file, naming);
+		if (!target) {
+			summary.skippedMissingTags += 1;
+			conflicts.push({ from: file.relativePath, reason: 'missing-tags' });
+			continue;
+		}
+		if (target === file.relativePath) {
+			summary.unchanged += 1;
+			continue;
+		}
+		movingSources.add(file.relativePath);
+		candidates.push({
+			kind: 'audio',
+			from: file.relativePath,
+			to: target,
+			sourcePath: file.path,
+			targetPath: path.join(baseDir, ...target.split('/'))
+		});
+	}
+
+	const claimedTargets = new Set<string>();
+	let moves: PlannedMove[] = [];
+	for (const move of candidates) {
+		if (claimedTargets.has(move.to)) {
+			conflicts.push({ from: move.from, to: move.to, reason: 'duplicate-target' });
+			continue;
+		}
+		if (!movingSources.has(move.to) && (await pathExists(move.targetPath))) {
+			conflicts.push({ from: move.from, to: move.to, reason: 'target-exists' });
+			continue;
+		}
+		claimedTargets.add(move.to);
+		moves.push(move);
+	}
+	// A target held by another file is only free if that file really moves away.
+	while (true) {
+		const moving = new Set(moves.map((move) => move.from));
+		const blocked = moves.filter((move) => movingSources.has(move.to) && !moving.has(move.to));
+		if (blocked.length === 0) break;
+		for (const move of blocked) {
+			conflicts.push({ from: move.from, to: move.to, reason: 'target-exists' });
+		}
+		moves = moves.filter((move) => !blocked.includes(move));
+	}
+
+	const audioPaths = new Set(sorted.map((file) => file.relativePath));
+	const sidecarsByDir = new Map<string, string[]>();
+	const listSidecars = async (relativeDir: string): Promise<string[]> => {
+		const cached = sidecarsByDir.get(relativeDir);
+		if (cached) return cached;
+		const entries = await fs
+			.readdir(path.join(baseDir, ...relativeDir.split('/')), { withFileTypes: true })
+			.catch(() => []);
+		const sidecars = entries
+			.filter((entry) => entry.isFile())
+			.map((entry) => path.posix.join(relativeDir, entry.name))
+			.filter((relativePath) => !audioPaths.has(relativePath));
+		sidecarsByDir.set(relativeDir, sidecars);
+		return sidecars;
+	};
+	const movedSidecars = new Set<string>();
+	const sidecarMoves: PlannedMove[] = [];
+	const addSidecarMove = async (from: string, to: string): Promise<void> => {
+		const sourcePath = path.join(baseDir, ...from.split('/'));
+		const targetPath = path.join(baseDir, ...to.split('/'));
+		if (movedSidecars.has(from) || claimedTargets.has(to) || (await pathExists(targetPath))) {
+			return;
+		}
+		movedSidecars.add(from);
+		claimedTargets.add(to);
+		const kind = path.posix.basename(from) === COVER_FILENAME ? 'cover' : 'sidecar';
+		sidecarMoves.push({ kind, from, to, sourcePath, targetPath });
+	};
+
+	// Per-track files named after a moving track (lyrics, cue sheets) follow it to its new name.
+	for (const move of moves) {
+		const sourceStem = path.posix.basename(move.from, path.posix.extname(move.from));
+		const targetStem = move.to.slice(0, move.to.length - path.posix.extname(move.to).length);
+		for (const sidecar of await listSidecars(path.posix.dirname(move.from))) {
+			const name = path.posix.basename(sidecar);
+			if (name.startsWith(`${sourceStem}.`)) {
+				await addSidecarMove(sidecar, `${targetStem}${name.slice(sourceStem.length)}`);
+			}
+		}
+	}
+
+	// Carry the remaining folder files (cover, booklet, logs) along when every track leaves a
+	// folder for the same new folder.
+	const remainingAudioBySourceDir = new Map<string, number>();
+	for (const file of sorted) {
+		const dir = path.posix.dirname(file.relativePath);
+		remainingAudioBySourceDir.set(dir, (remainingAudioBySourceDir.get(dir) ?? 0) + 1);
+	}
+	const targetDirsBySourceDir = new Map<string, Set<string>>();
+	for (const move of moves) {
+		const sourceDir = path.posix.dirname(move.from);
+		remainingAudioBySourceDir.set(sourceDir, (remainingAudioBySourceDir.get(sourceDir) ?? 1) - 1);
+		const targets = targetDirsBySourceDir.get(sourceDir) ?? new Set<string>();
+		targets.add(path.posix.dirname(move.to));
+		targetDirsBySourceDir.set(sourceDir, targets);
+	}
+	for (const [sourceDir, targetDirs] of targetDirsBySourceDir) {
+		if ((remainingAudioBySourceDir.get(sourceDir) ?? 0) > 0 || targetDirs.size !== 1) continue;
+		const [targetDir] = targetDirs;
+		for (const sidecar of await listSidecars(sourceDir)) {
+			await addSidecarMove(sidecar, path.posix.join(targetDir, path.posix.basename(sidecar)));
+		}
+	}
+	moves.push(...sidecarMoves);
+
+	summary.movesPlanned = moves.length;
+	summary.planHash = hashReorganizePlan(naming, moves);
+	summary.conflictCount = conflicts.length;
+	summary.moves = moves
+		.slice(0, REORGANIZE_DIFF_LIMIT)
+		.map(({ kind, from, to }) => ({ kind, from, to }));
+	summary.conflicts = conflicts.slice(0, REORGANIZE_DIFF_LIMIT);
+	summary.truncated =
+		moves.length > REORGANIZE_DIFF_LIMIT || conflicts.length > REORGANIZE_DIFF_LIMIT;
+	return moves;
+}
+
+/**
+ * Move every entry back to its original location, wherever it currently is. Works for
+ * partially applied runs because each entry is looked up at its target and staged paths.
+ */
+async function restoreJournalEntries(
+	journal: ReorganizeJournal
+): Promise<MediaLibraryReorganizeRollbackSummary> {
+	const result: MediaLibraryReorganizeRollbackSummary = {
+		runId: journal.runId,
+		restored: 0,
+		missing: 0,
+		errors: 0,
+		failedSamples: []
+	};
+	for (const entry of [...journal.entries].reverse()) {
+		const originalPath = path.join(journal.baseDir, ...entry.from.split('/'));
+		const candidates = [entry.to, entry.staged].map((relative) =>
+			path.join(journal.baseDir, ...relative.split('/'))
+		);
+		let currentPath: string | null = null;
+		for (const candidate of candidates) {
+			if (await pathExists(candidate)) {
+				currentPath = candidate;
+				break;
+			}
+		}
+		if (!currentPath) {
+			if (!(await pathExists(originalPath))) {
+				result.missing += 1;
+			}
+			continue;
+		}
+		if (await pathExists(originalPath)) {
+			result.errors += 1;
+			result.failedSamples.push(`${entry.from}: original path is occupied`);
+			continue;
+		}
+		try {
+			await ensureDir(path.dirname(originalPath));
+			await moveFile(currentPath, originalPath);
+			result.restored += 1;
+		} catch (error) {
+			result.errors += 1;
+			result.failedSamples.push(
+				`${entry.from}: ${error instanceof Error ? error.message : String(error)}`
+			);
+		}
+	}
+	await fs.rm(path.join(journal.baseDir, `${STAGING_DIR_PREFIX}${journal.runId}`), {
+		recursive: true,
+		force: true
+	});
+	return result;
+}
+
+async function pruneEmptyDirs(baseDir: string, relativeDirs: Iterable<string>): Promise<void> {
+	const resolvedBase = path.resolve(baseDir);
+	for (const relativeDir of relativeDirs) {
+		let current = path.resolve(baseDir, ...relativeDir.split('/'));
+		while (current.startsWith(`${resolvedBase}${path.sep}`)) {
+			try {
+				await fs.rmdir(current);
+			} catch {
+				break;
+			}
+			current = path.dirname(current);
+		}
+	}
+}
+
+/**
+ * Plan (and unless `dryRun`, apply) moves that bring every file to the layout produced
+ * by `naming`. An apply with `planHash` only runs when the new plan matches the preview
+ * it came from. Applied runs go through a staging folder so swaps and chains cannot
+ * collide, and any failure restores the original layout from the journal.
+ */
+export async function reorganizeMediaLibrary(options: {
+	naming: NamingTemplateConfig;
+	dryRun?: boolean;
+	planHash?: string;
+	forceRescan?: boolean;
+	runId: string;
+	onProgress?: (progress: MediaLibraryReorganizeProgress) => void;
+}): Promise<MediaLibraryReorganizeSummary> {
+	const dryRun = options.dryRun !== false;
+	const snapshot = await scanLocalMediaLibrary({ force: options.forceRescan === true || !dryRun });
+	const summary: MediaLibraryReorganizeSummary = {
+		runId: options.runId,
+		scannedAt: snapshot.scannedAt,
+		dryRun,
+		naming: options.naming,
+		filesScanned: snapshot.files.length,
+		unchanged: 0,
+		skippedMissingTags: 0,
+		movesPlanned: 0,
+		movesApplied: 0,
+		conflictCount: 0,
+		moves: [],
+		conflicts: [],
+		truncated: false,
+		rolledBack: false
+	};
+	const emitProgress = (
+		phase: MediaLibraryReorganizeProgress['phase'],
+		processed: number,
+		total: number
+	): void => {
+		try {
+			options.onProgress?.({ phase, processed, total, summary: { ...summary } });
+		} catch {
+			// Never fail a reorganize run due to progress observers.
+		}
+	};
+
+	const moves = await planReorganize(
+		snapshot.files,
+		snapshot.baseDir,
+		options.naming,
+		summary,
+		(processed) => {
+			if (processed % 50 === 0) emitProgress('plan', processed, snapshot.files.length);
+		}
+	);
+	if (!dryRun && options.planHash && options.planHash !== summary.planHash) {
+		summary.error = 'The library changed since the preview; preview the reorganize again';
+		summary.planChanged = true;
+		emitProgress('complete', 0, moves.length);
+		return summary;
+	}
+	if (dryRun || moves.length === 0) {
+		emitProgress('complete', moves.length, moves.length);
+		return summary;
+	}
+
+	const stagingRoot = `${STAGING_DIR_PREFIX}${options.runId}`;
+	const journal: ReorganizeJournal = {
+		version: 1,
+		runId: options.runId,
+		baseDir: snapshot.baseDir,
+		createdAt: Date.now(),
+		updatedAt: Date.now(),
+		status: 'applying',
+		entries: moves.map((move, index) => ({
+			from: move.from,
+			to: move.to,
+			staged: `${stagingRoot}/${index}${path.extname(move.from)}`
+		}))
+	};
+	summary.journalPath = await writeJournal(journal);
+
+	try {
+		// Phase 1: move everything aside so no target is still occupied by a pending source.
+		for (const [index, entry] of journal.entries.entries()) {
+			const stagedPath = path.join(snapshot.baseDir, ...entry.staged.split('/'));
+			await ensureDir(path.dirname(stagedPath));
+			await moveFile(moves[index].sourcePath, stagedPath);
+			emitProgress('stage', index + 1, moves.length);
+		}
+		// Phase 2: place files at their canonical paths.
+		for (const [index, entry] of journal.entries.entries()) {
+			const stagedPath = path.join(snapshot.baseDir, ...entry.staged.split('/'));
+			if (await pathExists(moves[index].targetPath)) {
+				throw new Error(`Target appeared during reorganize: ${entry.to}`);
+			}
+			await ensureDir(path.dirname(moves[index].targetPath));
+			await moveFile(stagedPath, moves[index].targetPath);
+			summary.movesApplied += 1;
+			emitProgress('move', index + 1, moves.length);
+		}
+		await fs.rm(path.join(snapshot.baseDir, stagingRoot), { recursive: true, force: true });
+		await pruneEmptyDirs(
+			snapshot.baseDir,
+			new Set(moves.map((move) => path.posix.dirname(move.from)))
+		);
+		journal.status = 'applied';
+		await writeJournal(journal);
+	} catch (error) {
+		summary.error = error instanceof Error ? error.message : String(error);
+		console.error(
+			'[Media Library Reorganize] Move failed, rolling back',
+			JSON.stringify({ runId: options.runId, error: summary.error })
+		);
+		const rollback = await restoreJournalEntries(journal);
+		summary.rolledBack = rollback.errors === 0;
+		summary.movesApplied = 0;
+		journal.status = summary.rolledBack ? 'rolled-back' : 'failed';
+		await writeJournal(journal).catch(() => undefined);
+	} finally {
+		clearMediaLibraryScanCache();
+	}
+
+	emitProgress('complete', summary.movesApplied, moves.length);
+	return summary;
+}
+
+/**
+ * Undo an applied reorganize run using its journal.
+ */
+export async function rollbackMediaLibraryReorganize(
+	runId: string
+): Promise<MediaLibraryReorganizeRollbackSummary | null> {
+	const journal = await readJournal(runId);
+	if (!journal) return null;
+	try {
+		const result = await restoreJournalEntries(journal);
+		await pruneEmptyDirs(
+			journal.baseDir,
+			new Set(journal.entries.map((entry) => path.posix.dirname(entry.to)))
+		);
+		if (result.errors === 0) {
+			journal.status = 'rolled-back';
+			await writeJournal(journal);
+		}
+		return result;
+	} finally {
+		clearMediaLibraryScanCache();
+	}
+}
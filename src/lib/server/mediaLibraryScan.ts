@@ -3,12 +3,22 @@ import type { Dirent } from 'node:fs';
 import * as path from 'node:path';
 import { createHash } from 'node:crypto';
 import { getDownloadDir } from '$lib/server/download/shared';
+import {
+	commitIndexedScan,
+	listIndexedFiles,
+	listPendingTagFiles,
+	readIndexedFileStates,
+	writeIndexedTags,
+	type IndexedFileState
+} from './mediaLibraryDb';
 import {
 	AUDIO_EXTENSIONS,
+	type EmbeddedTags,
 	type LocalMediaFile,
 	type LocalMediaSnapshot,
 	isTransientAlbumArtifactDirName
 } from './mediaLibraryShared';
+import { parseEmbeddedTags } from './mediaLibraryTags';
 
 const LIBRARY_SCAN_CACHE_TTL_MS = Math.max(
 	5_000,
@@ -18,8 +28,18 @@ const HASH_SAMPLE_BYTES = Math.max(
 	0,
 	Number(process.env.MEDIA_LIBRARY_HASH_SAMPLE_BYTES || 0)
 );
+const TAG_INDEX_FILES_PER_PASS = Math.max(
+	1,
+	Number(process.env.MEDIA_LIBRARY_TAG_INDEX_FILES_PER_PASS || 2_000)
+);
 
 let scanCache: { expiresAt: number; snapshot: LocalMediaSnapshot } | null = null;
+let inflightScan: Promise<LocalMediaSnapshot> | null = null;
+// The first read after a restart is served from the persistent index while a rescan runs.
+let coldStartPending = true;
+let tagIndexPass: Promise<void> | null = null;
+// Where the next tag pass resumes per library, so unreadable files can't pin every pass
+const tagIndexCursors = new Map<string, string>();
 
 async function hashSample(filePath: string): Promise<string> {
 	if (HASH_SAMPLE_BYTES <= 0) {
@@ -40,8 +60,16 @@ async function hashSample(filePath: string): Promise<string> {
 	}
 }
 
-async function collectAudioFiles(baseDir: string): Promise<LocalMediaFile[]> {
+/**
+ * Walk the library and stat every audio file. Files whose size and mtime match the index
+ * reuse their stored hash sample; `changed` lists the ones that need to be (re)indexed.
+ */
+async function collectAudioFiles(
+	baseDir: string,
+	known: Map<string, IndexedFileState>
+): Promise<{ files: LocalMediaFile[]; changed: LocalMediaFile[] }> {
 	const results: LocalMediaFile[] = [];
+	const changed: LocalMediaFile[] = [];
 
 	async function walk(currentDir: string, relativeSegments: string[]): Promise<void> {
 		let entries: Dirent[];
@@ -77,7 +105,13 @@ async function collectAudioFiles(baseDir: string): Promise<LocalMediaFile[]> {
 			const relativePath = nextSegments.join('/');
 			const artistDir = relativeSegments[0] ?? '';
 			const albumDir = relativeSegments[1] ?? '';
-			results.push({
+			const indexed = known.get(nextPath);
+			const unchanged =
+				indexed !== undefined &&
+				indexed.size === stats.size &&
+				indexed.mtimeMs === stats.mtimeMs &&
+				indexed.sampleBytes === HASH_SAMPLE_BYTES;
+			const file: LocalMediaFile = {
 				path: nextPath,
 				relativePath,
 				artistDir,
@@ -86,13 +120,108 @@ async function collectAudioFiles(baseDir: string): Promise<LocalMediaFile[]> {
 				extension,
 				size: stats.size,
 				mtimeMs: stats.mtimeMs,
-				sampleHash: await hashSample(nextPath)
-			});
+				sampleHash: unchanged ? indexed.sampleHash : await hashSample(nextPath)
+			};
+			results.push(file);
+			if (!unchanged) {
+				changed.push(file);
+			}
 		}
 	}
 
 	await walk(baseDir, []);
-	return results;
+	return { files: results, changed };
+}
+
+function persistScan(
+	baseDir: string,
+	known: Map<string, IndexedFileState>,
+	files: LocalMediaFile[],
+	changed: LocalMediaFile[]
+): void {
+	const seen = new Set(files.map((file) => file.path));
+	const removed = Array.from(known.keys()).filter((filePath) => !seen.has(filePath));
+	try {
+		commitIndexedScan(baseDir, { changed, removed, sampleBytes: HASH_SAMPLE_BYTES });
+	} catch (error) {
+		console.warn(
+			'[MediaLibraryIndex] Failed to persist library scan:',
+			error instanceof Error ? error.message : error
+		);
+	}
+}
+
+/**
+ * Read embedded tags for indexed files that don't have them yet, so ID lookups work
+ * without a prior per-file read. Bounded per pass and resumed after the last file seen;
+ * once the end is reached the next pass starts over, retrying files that couldn't be
+ * read (e.g. still being written).
+ */
+async function indexPendingTags(baseDir: string): Promise<void> {
+	const after = tagIndexCursors.get(baseDir) ?? '';
+	const pending = listPendingTagFiles(baseDir, TAG_INDEX_FILES_PER_PASS, after) ?? [];
+	for (const file of pending) {
+		let tags: EmbeddedTags | null;
+		try {
+			tags = await parseEmbeddedTags(file.path);
+		} catch {
+			continue;
+		}
+		writeIndexedTags(file, tags, { onlyIfPending: true });
+	}
+	if (pending.length < TAG_INDEX_FILES_PER_PASS) {
+		tagIndexCursors.delete(baseDir);
+	} else {
+		tagIndexCursors.set(baseDir, pending[pending.length - 1].relativePath);
+	}
+}
+
+function startTagIndexPass(baseDir: string): void {
+	if (tagIndexPass) return;
+	tagIndexPass = indexPendingTags(baseDir)
+		.catch((error) => {
+			console.warn(
+				'[MediaLibraryIndex] Tag indexing pass failed:',
+				error instanceof Error ? error.message : error
+			);
+		})
+		.finally(() => {
+			tagIndexPass = null;
+		});
+}
+
+function cacheSnapshot(snapshot: LocalMediaSnapshot): LocalMediaSnapshot {
+	scanCache = {
+		expiresAt: Date.now() + LIBRARY_SCAN_CACHE_TTL_MS,
+		snapshot
+	};
+	return snapshot;
+}
+
+function startScan(baseDir: string): Promise<LocalMediaSnapshot> {
+	const promise = (async () => {
+		await fs.mkdir(baseDir, { recursive: true });
+		const known = readIndexedFileStates(baseDir) ?? new Map<string, IndexedFileState>();
+		const { files, changed } = await collectAudioFiles(baseDir, known);
+		persistScan(baseDir, known, files, changed);
+		startTagIndexPass(baseDir);
+		return cacheSnapshot({ scannedAt: Date.now(), baseDir, files });
+	})().finally(() => {
+		if (inflightScan === promise) {
+			inflightScan = null;
+		}
+	});
+	inflightScan = promise;
+	return promise;
+}
+
+function readColdStartSnapshot(baseDir: string): LocalMediaSnapshot | null {
+	coldStartPending = false;
+	const files = listIndexedFiles(baseDir);
+	if (!files || files.length === 0) {
+		return null;
+	}
+	return { scannedAt: Date.now(), baseDir, files };
 }
 
 export function getMediaLibraryScanCacheState(): {
@@ -104,6 +233,7 @@ export function getMediaLibraryScanCacheState(): {
 
 export function clearMediaLibrarySnapshotCache(): void {
 	scanCache = null;
+	coldStartPending = false;
 }
 
 export async function scanLocalMediaLibrary(options?: {
@@ -113,17 +243,37 @@ export async function scanLocalMediaLibrary(options?: {
 		return scanCache.snapshot;
 	}
 
+	if (inflightScan) {
+		const pending = await inflightScan.catch(() => null);
+		if (pending && !options?.force) {
+			return pending;
+		}
+	}
+
 	const baseDir = getDownloadDir();
-	await fs.mkdir(baseDir, { recursive: true });
-	const files = await collectAudioFiles(baseDir);
-	const snapshot: LocalMediaSnapshot = {
-		scannedAt: Date.now(),
-		baseDir,
-		files
-	};
-	scanCache = {
-		expiresAt: Date.now() + LIBRARY_SCAN_CACHE_TTL_MS,
-		snapshot
-	};
-	return snapshot;
+	if (coldStartPending && !options?.force) {
+		const indexed = readColdStartSnapshot(baseDir);
+		if (indexed) {
+			startScan(baseDir).catch((error) => {
+				console.warn(
+					'[MediaLibraryIndex] Background rescan failed:',
+					error instanceof Error ? error.message : error
+				);
+			});
+			return cacheSnapshot(indexed);
+		}
+	}
+	coldStartPending = false;
+	return startScan(baseDir);
 }
+
+export const __test = {
+	async waitForTagIndexPass(): Promise<void> {
+		await tagIndexPass;
+	},
+	simulateRestart(): void {
+		scanCache = null;
+		inflightScan = null;
+		coldStartPending = true;
+	}
+};
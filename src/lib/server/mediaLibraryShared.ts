@@ -1,6 +1,7 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { sanitizeDirName } from '$lib/server/download/shared';
+import type { AudioQuality } from '$lib/types';
 
 export const AUDIO_EXTENSIONS = new Set([
 	'.flac',
@@ -134,13 +135,120 @@ export interface MediaLibraryTransientSweepSummary {
 	samplePaths: string[];
 }
 
+export interface MediaLibraryReorganizeMove {
+	kind: 'audio' | 'cover' | 'sidecar';
+	from: string;
+	to: string;
+}
+
+export interface MediaLibraryReorganizeConflict {
+	from: string;
+	to?: string;
+	reason: 'missing-tags' | 'duplicate-target' | 'target-exists';
+}
+
+export interface MediaLibraryReorganizeSummary {
+	runId: string;
+	scannedAt: number;
+	dryRun: boolean;
+	naming: { folderTemplate: string | null; fileTemplate: string | null };
+	filesScanned: number;
+	unchanged: number;
+	skippedMissingTags: number;
+	movesPlanned: number;
+	movesApplied: number;
+	conflictCount: number;
+	moves: MediaLibraryReorganizeMove[];
+	conflicts: MediaLibraryReorganizeConflict[];
+	truncated: boolean;
+	rolledBack: boolean;
+	/** Identifies the full plan; pass it back to apply exactly what was previewed. */
+	planHash?: string;
+	/** Set when an apply was refused because the plan no longer matches its `planHash`. */
+	planChanged?: boolean;
+	journalPath?: string;
+	error?: string;
+}
+
+export interface MediaLibraryReorganizeProgress {
+	phase: 'plan' | 'stage' | 'move' | 'complete';
+	processed: number;
+	total: number;
+	summary: MediaLibraryReorganizeSummary;
+}
+
+export interface MediaLibraryReorganizeRollbackSummary {
+	runId: string;
+	restored: number;
+	missing: number;
+	errors: number;
+	failedSamples: string[];
+}
+
+export interface MediaLibraryBrowseAlbum {
+	artistDir: string;
+	albumDir: string;
+	artistName: string;
+	albumTitle: string;
+	year?: number;
+	/** Upper-case container formats present in the folder, e.g. `FLAC`. */
+	formats: string[];
+	/** Lowest stream quality across the album's tracks, when stream properties are tagged. */
+	quality: AudioQuality | null;
+	tidalAlbumId?: number;
+	trackCount: number;
+	sizeBytes: number;
+	modifiedAt: number;
+}
+
+export interface MediaLibraryBrowseTrack {
+	/** Id for /api/media-library/stream/[fileId]. */
+	fileId: string;
+	relativePath: string;
+	filename: string;
+	title: string;
+	trackNo?: number;
+	discNo?: number;
+	format: string;
+	quality: AudioQuality | null;
+	bitsPerSample?: number;
+	sampleRate?: number;
+	sizeBytes: number;
+}
+
 export type EmbeddedTags = {
 	artistKey: string;
 	albumArtistKey: string;
 	albumKey: string;
 	titleKey: string;
+	artist?: string;
+	albumArtist?: string;
+	album?: string;
+	title?: string;
+	year?: number;
 	trackNo?: number;
 	discNo?: number;
+	discTotal?: number;
+	/** IDs the metadata embedder writes (TIDAL_*, ISRC, BARCODE, MUSICBRAINZ_*). */
+	tidalTrackId?: number;
+	tidalAlbumId?: number;
+	isrc?: string;
+	barcode?: string;
+	musicBrainzRecordingId?: string;
+	musicBrainzAlbumId?: string;
+	musicBrainzReleaseGroupId?: string;
+	codec?: string;
+	lossless?: boolean;
+	bitsPerSample?: number;
+	sampleRate?: number;
+	durationSeconds?: number;
+	/** Average bitrate in bits per second. */
+	bitrate?: number;
+	/** REPLAYGAIN_* tags: gains in dB, peaks as linear amplitude. */
+	replayGainTrackGain?: number;
+	replayGainTrackPeak?: number;
+	replayGainAlbumGain?: number;
+	replayGainAlbumPeak?: number;
 };
 
 export type AlbumLookupGroup = {
@@ -347,6 +455,16 @@ export function toPositiveInt(value: unknown): number | undefined {
 	return undefined;
 }
 
+export function toFiniteNumber(value: unknown): number | undefined {
+	return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/** ISRCs are compared without the optional dashes and spaces, in upper case. */
+export function normalizeIsrc(value: string | undefined): string | undefined {
+	const normalized = value?.replace(/[\s-]/g, '').toUpperCase();
+	return normalized && /^[A-Z0-9]{12}$/.test(normalized) ? normalized : undefined;
+}
+
 export async function pathExists(targetPath: string): Promise<boolean> {
 	try {
 		await fs.access(targetPath);
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+const mocks = vi.hoisted(() => ({
+	tagsByFilename: new Map<string, Partial<EmbeddedTags>>()
+}));
+
+vi.mock('./mediaLibraryIndex', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./mediaLibraryIndex')>()),
+	getEmbeddedTags: vi.fn(async (file: LocalMediaFile) => {
+		const tags = mocks.tagsByFilename.get(file.filename);
+		return tags
+			? ({ artistKey: '', albumArtistKey: '', albumKey: '', titleKey: '', ...tags } as EmbeddedTags)
+			: null;
+	})
+}));
+
+import { clearMediaLibraryScanCache } from './mediaLibraryCache';
+import {
+	__test,
+	parseByteRange,
+	resolveLocalMediaFile,
+	resolveLocalStreamForTrack,
+	toLocalFileId
+} from './mediaLibraryStream';
+
+describe('parseByteRange', () => {
+	it('parses open, closed and suffix ranges', () => {
+		expect(parseByteRange('bytes=0-', 100)).toEqual({ start: 0, end: 99 });
+		expect(parseByteRange('bytes=10-19', 100)).toEqual({ start: 10, end: 19 });
+		expect(parseByteRange('bytes=90-500', 100)).toEqual({ start: 90, end: 99 });
+		expect(parseByteRange('bytes=-20', 100)).toEqual({ start: 80, end: 99 });
+	});
+
+	it('serves the whole file for absent, malformed or multi-range headers', () => {
+		expect(parseByteRange(null, 100)).toBeNull();
+		expect(parseByteRange('items=0-1', 100)).toBeNull();
+		expect(parseByteRange('bytes=0-1,5-6', 100)).toBeNull();
+		expect(parseByteRange('bytes=20-10', 100)).toBeNull();
+	});
+
+	it('rejects ranges past the end of the file', () => {
+		expect(parseByteRange('bytes=100-', 100)).toBe('unsatisfiable');
+		expect(parseByteRange('bytes=-0', 100)).toBe('unsatisfiable');
+	});
+});
+
+describe('mediaLibraryStream', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	async function writeFile(relativePath: string, tags?: Partial<EmbeddedTags>): Promise<void> {
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, relativePath);
+		if (tags) mocks.tagsByFilename.set(path.basename(relativePath), tags);
+	}
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-stream-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		mocks.tagsByFilename.clear();
+		clearMediaLibraryScanCache();
+		__test.reset();
+	});
+
+	afterEach(async () => {
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		clearMediaLibraryScanCache();
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('resolves only file ids from the scan snapshot', async () => {
+		await writeFile('Band/Album/01 - One.flac');
+
+		const file = await resolveLocalMediaFile(toLocalFileId('Band/Album/01 - One.flac'));
+		expect(file?.relativePath).toBe('Band/Album/01 - One.flac');
+		expect(await resolveLocalMediaFile(toLocalFileId('../etc/passwd'))).toBeNull();
+	});
+
+	it('narrows duplicate title matches by track and disc number', async () => {
+		await writeFile('Band/Album/1-01 - Intro.flac', {
+			title: 'Intro',
+			trackNo: 1,
+			discNo: 1,
+			lossless: true,
+			bitsPerSample: 16,
+			sampleRate: 44_100,
+			replayGainTrackGain: -7.5,
+			replayGainAlbumGain: -8.1,
+			replayGainAlbumPeak: 0.98
+		});
+		await writeFile('Band/Album/2-01 - Intro.flac', { title: 'Intro', trackNo: 1, discNo: 2 });
+
+		const firstDisc = await resolveLocalStreamForTrack({
+			artistName: 'Band',
+			albumTitle: 'Album',
+			trackTitle: 'Intro',
+			trackNumber: 1,
+			volumeNumber: 1
+		});
+		expect(firstDisc).toMatchObject({
+			fileId: toLocalFileId('Band/Album/1-01 - Intro.flac'),
+			format: 'FLAC',
+			quality: 'LOSSLESS',
+			sampleRate: 44_100,
+			bitDepth: 16,
+			replayGain: { trackGain: -7.5, trackPeak: null, albumGain: -8.1, albumPeak: 0.98 }
+		});
+		expect(
+			await resolveLocalStreamForTrack({
+				artistName: 'Band',
+				albumTitle: 'Album',
+				trackTitle: 'Intro'
+			})
+		).toBeNull();
+	});
+});
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import type { LocalTrackFile, ReplayGainInfo } from '$lib/types';
+import { getEmbeddedTags, scanLocalMediaLibrary } from './mediaLibraryCache';
+import { checkTrackInLibrary } from './mediaLibraryLookup';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+import { classifyLocalQuality } from './mediaLibraryUpgrades';
+
+/**
+ * Local playback: opaque ids for scanned library files and the HTTP Range handling used by
+ * /api/media-library/stream/[fileId]. Only files present in the scan snapshot can be
+ * streamed, so ids never resolve to arbitrary paths.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+	'.flac': 'audio/flac',
+	'.mp3': 'audio/mpeg',
+	'.m4a': 'audio/mp4',
+	'.alac': 'audio/mp4',
+	'.aac': 'audio/aac',
+	'.ogg': 'audio/ogg',
+	'.opus': 'audio/ogg',
+	'.wav': 'audio/wav'
+};
+
+let fileIdCache: {
+	scannedAt: number;
+	baseDir: string;
+	filesById: Map<string, LocalMediaFile>;
+} | null = null;
+
+export type ByteRange = { start: number; end: number };
+
+export function toLocalFileId(relativePath: string): string {
+	return createHash('sha1').update(relativePath).digest('hex').slice(0, 24);
+}
+
+export function getLocalAudioContentType(extension: string): string {
+	return CONTENT_TYPES[extension.toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Parse a single-range `Range` header. Returns null when the header is absent, malformed or
+ * asks for several ranges (the full file is served then), and 'unsatisfiable' when the range
+ * starts past the end of the file.
+ */
+export function parseByteRange(
+	header: string | null,
+	size: number
+): ByteRange | 'unsatisfiable' | null {
+	const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+	if (!match) return null;
+	const [, rawStart, rawEnd] = match;
+	if (!rawStart && !rawEnd) return null;
+	if (!rawStart) {
+		const suffix = Number(rawEnd);
+		if (suffix === 0) return 'unsatisfiable';
+		return { start: Math.max(0, size - suffix), end: size - 1 };
+	}
+	const start = Number(rawStart);
+	const end = rawEnd ? Math.min(Number(rawEnd), size - 1) : size - 1;
+	if (start >= size) return 'unsatisfiable';
+	if (end < start) return null;
+	return { start, end };
+}
+
+export async function resolveLocalMediaFile(fileId: string): Promise<LocalMediaFile | null> {
+	const snapshot = await scanLocalMediaLibrary();
+	if (
+		!fileIdCache ||
+		fileIdCache.scannedAt !== snapshot.scannedAt ||
+		fileIdCache.baseDir !== snapshot.baseDir
+	) {
+		fileIdCache = {
+			scannedAt: snapshot.scannedAt,
+			baseDir: snapshot.baseDir,
+			filesById: new Map(snapshot.files.map((file) => [toLocalFileId(file.relativePath), file]))
+		};
+	}
+	return fileIdCache.filesById.get(fileId) ?? null;
+}
+
+function readReplayGainTags(tags: EmbeddedTags | null): ReplayGainInfo | undefined {
+	if (tags?.replayGainTrackGain === undefined && tags?.replayGainAlbumGain === undefined) {
+		return undefined;
+	}
+	return {
+		trackGain: tags.replayGainTrackGain ?? null,
+		trackPeak: tags.replayGainTrackPeak ?? null,
+		albumGain: tags.replayGainAlbumGain ?? null,
+		albumPeak: tags.replayGainAlbumPeak ?? null
+	};
+}
+
+export async function describeLocalTrackFile(file: LocalMediaFile): Promise<LocalTrackFile> {
+	const tags = await getEmbeddedTags(file);
+	return {
+		fileId: toLocalFileId(file.relativePath),
+		format: file.extension.replace(/^\./, '').toUpperCase(),
+		quality: classifyLocalQuality(tags),
+		sampleRate: tags?.sampleRate,
+		bitDepth: tags?.bitsPerSample,
+		replayGain: readReplayGainTags(tags)
+	};
+}
+
+/**
+ * Find the library file for a TIDAL track, by embedded track ID or ISRC when the files carry
+ * them. Multiple matches are narrowed by the embedded track and disc numbers; ambiguous
+ * matches resolve to null.
+ */
+export async function findLibraryFileForTrack(input: {
+	trackId?: number;
+	isrc?: string;
+	artistName?: string;
+	albumTitle?: string;
+	trackTitle?: string;
+	trackNumber?: number;
+	volumeNumber?: number;
+}): Promise<LocalMediaFile | null> {
+	if (!input.trackTitle) return null;
+	const { exists, matches } = await checkTrackInLibrary({
+		tidalTrackId: input.trackId,
+		isrc: input.isrc,
+		artistName: input.artistName,
+		albumTitle: input.albumTitle,
+		trackTitle: input.trackTitle
+	});
+	if (!exists || matches.length === 0) return null;
+	if (matches.length === 1) return matches[0];
+	if (!input.trackNumber) return null;
+
+	const numbered: LocalMediaFile[] = [];
+	for (const file of matches) {
+		const tags = await getEmbeddedTags(file);
+		if (tags?.trackNo === input.trackNumber && (tags.discNo ?? 1) === (input.volumeNumber ?? 1)) {
+			numbered.push(file);
+		}
+	}
+	return numbered.length === 1 ? numbered[0] : null;
+}
+
+/**
+ * Find the library file for a TIDAL track so albums already on disk play locally. When no
+ * single file matches, the player keeps streaming from TIDAL.
+ */
+export async function resolveLocalStreamForTrack(
+	input: Parameters<typeof findLibraryFileForTrack>[0]
+): Promise<LocalTrackFile | null> {
+	const file = await findLibraryFileForTrack(input);
+	return file ? describeLocalTrackFile(file) : null;
+}
+
+export const __test = {
+	reset(): void {
+		fileIdCache = null;
+	}
+};
@@ -0,0 +1,83 @@
+import { parseFile, type IAudioMetadata } from 'music-metadata';
+import {
+	type EmbeddedTags,
+	normalizeIsrc,
+	normalizeKey,
+	toFiniteNumber,
+	toPositiveInt
+} from './mediaLibraryShared';
+
+/**
+ * Read a custom tag written by the metadata embedder. Vorbis comments expose it as-is,
+ * ID3 as `TXXX:<KEY>` and MP4 as `----:com.apple.iTunes:<KEY>`.
+ */
+function readNativeTag(
+	native: IAudioMetadata['native'] | undefined,
+	key: string
+): string | undefined {
+	if (!native) return undefined;
+	for (const tags of Object.values(native)) {
+		for (const tag of tags) {
+			const id = tag.id.toUpperCase();
+			if (id !== key && !id.endsWith(`:${key}`)) continue;
+			if (typeof tag.value === 'string' || typeof tag.value === 'number') {
+				return String(tag.value);
+			}
+		}
+	}
+	return undefined;
+}
+
+const trimmed = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+/**
+ * Parse the embedded tags and stream properties of one audio file. Resolves to null when the
+ * file carries no usable tags and rejects when it can't be read.
+ */
+export async function parseEmbeddedTags(filePath: string): Promise<EmbeddedTags | null> {
+	// Duration comes from the stream header (FLAC STREAMINFO, MP4 mvhd); a full-file scan
+	// for headerless MP3s isn't worth it here.
+	const metadata = await parseFile(filePath, { duration: false, skipCovers: true });
+	const common = metadata.common ?? {};
+	const format = metadata.format ?? {};
+	const tags: EmbeddedTags = {
+		artistKey: normalizeKey(common.artist ?? common.artists?.[0]),
+		albumArtistKey: normalizeKey(common.albumartist),
+		albumKey: normalizeKey(common.album),
+		titleKey: normalizeKey(common.title),
+		artist: common.artist?.trim() || common.artists?.[0]?.trim() || undefined,
+		albumArtist: common.albumartist?.trim() || undefined,
+		album: common.album?.trim() || undefined,
+		title: common.title?.trim() || undefined,
+		year: toPositiveInt(common.year),
+		trackNo: toPositiveInt(common.track?.no),
+		discNo: toPositiveInt(common.disk?.no),
+		discTotal: toPositiveInt(common.disk?.of),
+		tidalTrackId: toPositiveInt(Number(readNativeTag(metadata.native, 'TIDAL_TRACK_ID'))),
+		tidalAlbumId: toPositiveInt(Number(readNativeTag(metadata.native, 'TIDAL_ALBUM_ID'))),
+		isrc: normalizeIsrc(common.isrc?.[0] ?? readNativeTag(metadata.native, 'ISRC')),
+		barcode: trimmed(common.barcode ?? readNativeTag(metadata.native, 'BARCODE')),
+		musicBrainzRecordingId: trimmed(common.musicbrainz_recordingid),
+		musicBrainzAlbumId: trimmed(common.musicbrainz_albumid),
+		musicBrainzReleaseGroupId: trimmed(common.musicbrainz_releasegroupid),
+		codec: trimmed(format.codec),
+		lossless: typeof format.lossless === 'boolean' ? format.lossless : undefined,
+		bitsPerSample: toPositiveInt(format.bitsPerSample),
+		sampleRate: toPositiveInt(format.sampleRate),
+		durationSeconds: toFiniteNumber(format.duration),
+		bitrate: toPositiveInt(Math.round(format.bitrate ?? 0)),
+		replayGainTrackGain: toFiniteNumber(common.replaygain_track_gain?.dB),
+		replayGainTrackPeak: toFiniteNumber(common.replaygain_track_peak?.ratio),
+		replayGainAlbumGain: toFiniteNumber(common.replaygain_album_gain?.dB),
+		replayGainAlbumPeak: toFiniteNumber(common.replaygain_album_peak?.ratio)
+	};
+	const hasAnyTag =
+		tags.artistKey.length > 0 ||
+		tags.albumArtistKey.length > 0 ||
+		tags.albumKey.length > 0 ||
+		tags.titleKey.length > 0 ||
+		tags.tidalTrackId !== undefined ||
+		tags.tidalAlbumId !== undefined ||
+		tags.isrc !== undefined;
+	return hasAnyTag ? tags : null;
+}
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Album } from '$lib/types';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+const mocks = vi.hoisted(() => ({
+	getEmbeddedTags: vi.fn(),
+	getLibraryAlbumLookupIndex: vi.fn(),
+	createQueueBatch: vi.fn(),
+	enqueueJob: vi.fn(),
+	writeMediaMaintenanceRunReport: vi.fn()
+}));
+
+vi.mock('./mediaLibraryIndex', () => ({
+	getEmbeddedTags: mocks.getEmbeddedTags,
+	getLibraryAlbumLookupIndex: mocks.getLibraryAlbumLookupIndex
+}));
+vi.mock('./downloadQueueManager', () => ({
+	createQueueBatch: mocks.createQueueBatch,
+	enqueueJob: mocks.enqueueJob
+}));
+vi.mock('./mediaMaintenanceReports', () => ({
+	writeMediaMaintenanceRunReport: mocks.writeMediaMaintenanceRunReport
+}));
+vi.mock('./catalogBoundary', () => ({
+	fetchCatalogAlbum: vi.fn()
+}));
+
+import {
+	classifyLocalQuality,
+	queueQualityUpgrades,
+	scanForQualityUpgrades
+} from './mediaLibraryUpgrades';
+
+function createFile(artistDir: string, albumDir: string, filename: string): LocalMediaFile {
+	return {
+		path: `/music/${artistDir}/${albumDir}/${filename}`,
+		relativePath: `${artistDir}/${albumDir}/${filename}`,
+		artistDir,
+		albumDir,
+		filename,
+		extension: '.flac',
+		size: 1000,
+		mtimeMs: 1,
+		sampleHash: ''
+	};
+}
+
+function createTags(overrides: Partial<EmbeddedTags>): EmbeddedTags {
+	return {
+		artistKey: 'artist',
+		albumArtistKey: '',
+		albumKey: 'album',
+		titleKey: 'title',
+		...overrides
+	};
+}
+
+function createGroup(artistDir: string, albumDir: string, files: LocalMediaFile[]) {
+	return { artistDir, albumDir, files, albumComparable: albumDir.toLowerCase() };
+}
+
+describe('mediaLibraryUpgrades', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.writeMediaMaintenanceRunReport.mockResolvedValue('/reports/run.json');
+	});
+
+	it('classifies local files from their stream properties', () => {
+		expect(classifyLocalQuality(null)).toBeNull();
+		expect(classifyLocalQuality(createTags({ lossless: false }))).toBe('HIGH');
+		expect(
+			classifyLocalQuality(createTags({ lossless: true, bitsPerSample: 16, sampleRate: 44_100 }))
+		).toBe('LOSSLESS');
+		expect(
+			classifyLocalQuality(createTags({ lossless: true, bitsPerSample: 24, sampleRate: 96_000 }))
+		).toBe('HI_RES_LOSSLESS');
+	});
+
+	it('lists albums whose catalog quality now beats the local files', async () => {
+		const cdFiles = [
+			createFile('Artist', 'CD Album', '01.flac'),
+			createFile('Artist', 'CD Album', '02.flac')
+		];
+		const hiResFiles = [createFile('Artist', 'Hi-Res Album', '01.flac')];
+		const untagged = [createFile('Other', 'Untagged', '01.flac')];
+		mocks.getLibraryAlbumLookupIndex.mockResolvedValue({
+			groupsByPath: new Map([
+				['a', createGroup('Artist', 'CD Album', cdFiles)],
+				['b', createGroup('Artist', 'Hi-Res Album', hiResFiles)],
+				['c', createGroup('Other', 'Untagged', untagged)]
+			])
+		});
+		mocks.getEmbeddedTags.mockImplementation(async (file: LocalMediaFile) => {
+			if (file.albumDir === 'CD Album') {
+				return createTags({
+					tidalAlbumId: 10,
+					lossless: true,
+					bitsPerSample: 16,
+					sampleRate: 44_100
+				});
+			}
+			if (file.albumDir === 'Hi-Res Album') {
+				return createTags({
+					tidalAlbumId: 20,
+					lossless: true,
+					bitsPerSample: 24,
+					sampleRate: 96_000
+				});
+			}
+			return createTags({ lossless: true, bitsPerSample: 16, sampleRate: 44_100 });
+		});
+		const fetchAlbum = vi.fn(async (albumId: number) => ({
+			album: {
+				id: albumId,
+				title: 'Album',
+				cover: '',
+				videoCover: null,
+				audioQuality: 'LOSSLESS',
+				mediaMetadata: { tags: ['LOSSLESS', 'HIRES_LOSSLESS'] }
+			} satisfies Album
+		}));
+
+		const result = await scanForQualityUpgrades({ fetchAlbum });
+
+		expect(fetchAlbum).toHaveBeenCalledTimes(2);
+		expect(result).toMatchObject({
+			albumsScanned: 3,
+			albumsSkipped: 1,
+			albumsUpToDate: 1,
+			albumsErrored: 0,
+			reportPath: '/reports/run.json'
+		});
+		expect(result.candidates).toEqual([
+			expect.objectContaining({
+				albumId: 10,
+				trackCount: 2,
+				localQuality: 'LOSSLESS',
+				localBitsPerSample: 16,
+				offeredQuality: 'HI_RES_LOSSLESS'
+			})
+		]);
+		expect(mocks.writeMediaMaintenanceRunReport).toHaveBeenCalledWith(
+			expect.objectContaining({ kind: 'quality-upgrades' })
+		);
+	});
+
+	it('queues force-overwrite album jobs in one batch', async () => {
+		mocks.createQueueBatch.mockResolvedValue({ id: 'batch-1' });
+		mocks.enqueueJob.mockResolvedValueOnce('job-1').mockResolvedValueOnce('job-2');
+
+		const result = await queueQualityUpgrades([
+			{
+				albumId: 10,
+				artistDir: 'Artist',
+				albumDir: 'CD Album',
+				artistName: 'Artist',
+				albumTitle: 'CD Album',
+				trackCount: 2,
+				localQuality: 'LOSSLESS',
+				offeredQuality: 'HI_RES_LOSSLESS'
+			},
+			{
+				albumId: 11,
+				artistDir: 'Artist',
+				albumDir: 'MP3 Album',
+				artistName: 'Artist',
+				albumTitle: 'MP3 Album',
+				trackCount: 9,
+				localQuality: 'HIGH',
+				offeredQuality: 'LOSSLESS'
+			}
+		]);
+
+		expect(result).toEqual({ batchId: 'batch-1', queued: 2, jobIds: ['job-1', 'job-2'] });
+		expect(mocks.createQueueBatch).toHaveBeenCalledWith(
+			expect.objectContaining({ source: 'quality-upgrade' })
+		);
+		expect(mocks.enqueueJob).toHaveBeenCalledWith(
+			expect.objectContaining({
+				type: 'album',
+				albumId: 10,
+				quality: 'HI_RES_LOSSLESS',
+				forceOverwrite: true
+			}),
+			expect.objectContaining({ forceOverwrite: true, batchId: 'batch-1' })
+		);
+		expect(await queueQualityUpgrades([])).toEqual({ queued: 0, jobIds: [] });
+	});
+});
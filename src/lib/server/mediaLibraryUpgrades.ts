@@ -0,0 +1,343 @@
+import type { Album, AudioQuality } from '$lib/types';
+import {
+	deriveQualityFromTags,
+	normalizeQualityToken,
+	pickBestQuality
+} from '$lib/utils/audioQuality';
+import { fetchCatalogAlbum } from './catalogBoundary';
+import { createQueueBatch, enqueueJob } from './downloadQueueManager';
+import { getEmbeddedTags, getLibraryAlbumLookupIndex } from './mediaLibraryIndex';
+import {
+	formatSuggestionLabel,
+	type AlbumLookupGroup,
+	type EmbeddedTags
+} from './mediaLibraryShared';
+import { writeMediaMaintenanceRunReport } from './mediaMaintenanceReports';
+
+/**
+ * Quality-upgrade watcher.
+ *
+ * Albums often land as LOSSLESS because HI_RES_LOSSLESS was not offered at download
+ * time. This walks the local library, reads the embedded TIDAL_ALBUM_ID plus the
+ * stream properties of each album, and compares them with what the catalog offers
+ * now. Scans only report; queueing the upgrade list is a separate, explicit step.
+ */
+
+export interface QualityUpgradeCandidate {
+	albumId: number;
+	artistDir: string;
+	albumDir: string;
+	artistName: string;
+	albumTitle: string;
+	trackCount: number;
+	localQuality: AudioQuality;
+	localBitsPerSample?: number;
+	localSampleRate?: number;
+	offeredQuality: AudioQuality;
+}
+
+export interface QualityUpgradeScanIssue {
+	artistDir: string;
+	albumDir: string;
+	albumId?: number;
+	reason: string;
+}
+
+export interface QualityUpgradeScanResult {
+	runId: string;
+	startedAt: number;
+	finishedAt: number;
+	durationMs: number;
+	albumsScanned: number;
+	/** Albums without an embedded TIDAL_ALBUM_ID or readable stream properties. */
+	albumsSkipped: number;
+	albumsUpToDate: number;
+	albumsErrored: number;
+	candidates: QualityUpgradeCandidate[];
+	errors: QualityUpgradeScanIssue[];
+	reportPath: string | null;
+}
+
+export interface QualityUpgradeQueueResult {
+	batchId?: string;
+	queued: number;
+	jobIds: string[];
+}
+
+export type QualityUpgradeWatchStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export interface QualityUpgradeWatchState {
+	status: QualityUpgradeWatchStatus;
+	intervalMs: number;
+	nextRunAt: number | null;
+	lastResult: QualityUpgradeScanResult | null;
+	error: string | null;
+}
+
+type FetchAlbumFn = (albumId: number) => Promise<{ album: Album }>;
+
+const WATCH_INTERVAL_MS = Math.max(0, Number(process.env.QUALITY_UPGRADE_WATCH_INTERVAL_MS || 0));
+const ERROR_PAYLOAD_LIMIT = 50;
+const QUALITY_RANK: AudioQuality[] = ['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'];
+const logPrefix = '[Media Library Upgrades]';
+
+let activeScan: Promise<QualityUpgradeScanResult> | null = null;
+let watchStatus: QualityUpgradeWatchStatus = 'idle';
+let lastResult: QualityUpgradeScanResult | null = null;
+let lastError: string | null = null;
+let watchTimer: ReturnType<typeof setInterval> | null = null;
+let nextRunAt: number | null = null;
+
+function qualityRank(quality: AudioQuality): number {
+	return QUALITY_RANK.indexOf(quality);
+}
+
+/**
+ * Classify a file from its stream properties. Lossy files are reported as HIGH since
+ * the container alone cannot tell HIGH from LOW apart; both upgrade to lossless.
+ */
+export function classifyLocalQuality(tags: EmbeddedTags | null): AudioQuality | null {
+	if (!tags || tags.lossless === undefined) return null;
+	if (!tags.lossless) return 'HIGH';
+	if ((tags.bitsPerSample ?? 0) > 16 || (tags.sampleRate ?? 0) > 48_000) {
+		return 'HI_RES_LOSSLESS';
+	}
+	return 'LOSSLESS';
+}
+
+export function resolveOfferedQuality(album: Album): AudioQuality | null {
+	return pickBestQuality([
+		deriveQualityFromTags(album.mediaMetadata?.tags),
+		normalizeQualityToken(album.audioQuality)
+	]);
+}
+
+async function inspectLocalAlbum(group: AlbumLookupGroup): Promise<{
+	albumId?: number;
+	quality: AudioQuality | null;
+	bitsPerSample?: number;
+	sampleRate?: number;
+}> {
+	const idVotes = new Map<number, number>();
+	let worst: { quality: AudioQuality; tags: EmbeddedTags } | null = null;
+	for (const file of group.files) {
+		const tags = await getEmbeddedTags(file);
+		if (tags?.tidalAlbumId) {
+			idVotes.set(tags.tidalAlbumId, (idVotes.get(tags.tidalAlbumId) ?? 0) + 1);
+		}
+		const quality = classifyLocalQuality(tags);
+		if (quality && tags && (!worst || qualityRank(quality) > qualityRank(worst.quality))) {
+			worst = { quality, tags };
+		}
+	}
+	const albumId = Array.from(idVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+	return {
+		albumId,
+		quality: worst?.quality ?? null,
+		bitsPerSample: worst?.tags.bitsPerSample,
+		sampleRate: worst?.tags.sampleRate
+	};
+}
+
+export async function scanForQualityUpgrades(options?: {
+	force?: boolean;
+	maxAlbums?: number;
+	fetchAlbum?: FetchAlbumFn;
+}): Promise<QualityUpgradeScanResult> {
+	const startedAt = Date.now();
+	const runId = `quality-upgrades-${startedAt}-${Math.random().toString(36).slice(2, 10)}`;
+	const fetchAlbum: FetchAlbumFn = options?.fetchAlbum ?? ((albumId) => fetchCatalogAlbum(albumId));
+	const index = await getLibraryAlbumLookupIndex({ force: options?.force });
+	const groups = Array.from(index.groupsByPath.values()).slice(
+		0,
+		options?.maxAlbums && options.maxAlbums > 0 ? options.maxAlbums : undefined
+	);
+
+	const candidates: QualityUpgradeCandidate[] = [];
+	const errors: QualityUpgradeScanIssue[] = [];
+	let albumsSkipped = 0;
+	let albumsUpToDate = 0;
+	let albumsErrored = 0;
+
+	for (const group of groups) {
+		const local = await inspectLocalAlbum(group);
+		if (!local.albumId || !local.quality) {
+			albumsSkipped += 1;
+			continue;
+		}
+
+		let offered: AudioQuality | null;
+		try {
+			const { album } = await fetchAlbum(local.albumId);
+			offered = resolveOfferedQuality(album);
+		} catch (error) {
+			albumsErrored += 1;
+			errors.push({
+				artistDir: group.artistDir,
+				albumDir: group.albumDir,
+				albumId: local.albumId,
+				reason: error instanceof Error ? error.message : String(error)
+			});
+			continue;
+		}
+
+		if (!offered || qualityRank(offered) >= qualityRank(local.quality)) {
+			albumsUpToDate += 1;
+			continue;
+		}
+
+		candidates.push({
+			albumId: local.albumId,
+			artistDir: group.artistDir,
+			albumDir: group.albumDir,
+			artistName: formatSuggestionLabel(group.artistDir, 'Unknown Artist'),
+			albumTitle: formatSuggestionLabel(group.albumDir, 'Unknown Album'),
+			trackCount: group.files.length,
+			localQuality: local.quality,
+			localBitsPerSample: local.bitsPerSample,
+			localSampleRate: local.sampleRate,
+			offeredQuality: offered
+		});
+	}
+
+	const finishedAt = Date.now();
+	const result: QualityUpgradeScanResult = {
+		runId,
+		startedAt,
+		finishedAt,
+		durationMs: finishedAt - startedAt,
+		albumsScanned: groups.length,
+		albumsSkipped,
+		albumsUpToDate,
+		albumsErrored,
+		candidates,
+		errors: errors.slice(0, ERROR_PAYLOAD_LIMIT),
+		reportPath: null
+	};
+	result.reportPath = await writeMediaMaintenanceRunReport({
+		runId,
+		kind: 'quality-upgrades',
+		payload: { ...result, errors }
+	});
+
+	console.log(
+		`${logPrefix} Scan complete`,
+		JSON.stringify({
+			runId,
+			albumsScanned: result.albumsScanned,
+			candidates: candidates.length,
+			albumsErrored
+		})
+	);
+	return result;
+}
+
+/**
+ * Run a scan unless one is already in flight, and remember the result for the status endpoint.
+ */
+export async function runQualityUpgradeScan(options?: {
+	force?: boolean;
+	maxAlbums?: number;
+}): Promise<QualityUpgradeScanResult> {
+	if (activeScan) {
+		return activeScan;
+	}
+	watchStatus = 'running';
+	lastError = null;
+	activeScan = scanForQualityUpgrades(options);
+	try {
+		lastResult = await activeScan;
+		watchStatus = 'completed';
+		return lastResult;
+	} catch (error) {
+		watchStatus = 'failed';
+		lastError = error instanceof Error ? error.message : String(error);
+		throw error;
+	} finally {
+		activeScan = null;
+	}
+}
+
+export function isQualityUpgradeScanRunning(): boolean {
+	return activeScan !== null;
+}
+
+export function getQualityUpgradeWatchState(): QualityUpgradeWatchState {
+	return {
+		status: watchStatus,
+		intervalMs: WATCH_INTERVAL_MS,
+		nextRunAt,
+		lastResult,
+		error: lastError
+	};
+}
+
+/**
+ * Queue force-overwrite album jobs at the offered quality, grouped into one batch.
+ */
+export async function queueQualityUpgrades(
+	candidates: QualityUpgradeCandidate[],
+	options?: { createdByRoute?: string }
+): Promise<QualityUpgradeQueueResult> {
+	if (candidates.length === 0) {
+		return { queued: 0, jobIds: [] };
+	}
+	const batch = await createQueueBatch({
+		label: `Quality upgrades ${new Date().toISOString()}`,
+		source: 'quality-upgrade',
+		createdByRoute: options?.createdByRoute
+	});
+	const jobIds: string[] = [];
+	for (const candidate of candidates) {
+		const jobId = await enqueueJob(
+			{
+				type: 'album',
+				albumId: candidate.albumId,
+				quality: candidate.offeredQuality,
+				albumTitle: candidate.albumTitle,
+				artistName: candidate.artistName,
+				trackCount: candidate.trackCount,
+				forceOverwrite: true
+			},
+			{
+				priority: 'low',
+				checkDuplicate: true,
+				forceOverwrite: true,
+				batchId: batch.id
+			}
+		);
+		jobIds.push(jobId);
+	}
+	console.log(
+		`${logPrefix} Queued upgrades`,
+		JSON.stringify({ batchId: batch.id, queued: jobIds.length })
+	);
+	return { batchId: batch.id, queued: jobIds.length, jobIds };
+}
+
+/**
+ * Start the periodic scan. Disabled unless QUALITY_UPGRADE_WATCH_INTERVAL_MS is set,
+ * since every scan asks the catalog about each tagged album.
+ */
+export function startQualityUpgradeWatcher(): boolean {
+	if (watchTimer || WATCH_INTERVAL_MS <= 0) {
+		return false;
+	}
+	nextRunAt = Date.now() + WATCH_INTERVAL_MS;
+	watchTimer = setInterval(() => {
+		nextRunAt = Date.now() + WATCH_INTERVAL_MS;
+		runQualityUpgradeScan({ force: true }).catch((error) => {
+			console.warn(`${logPrefix} Periodic scan failed:`, error);
+		});
+	}, WATCH_INTERVAL_MS);
+	watchTimer.unref?.();
+	return true;
+}
+
+export function stopQualityUpgradeWatcher(): void {
+	if (watchTimer) {
+		clearInterval(watchTimer);
+		watchTimer = null;
+	}
+	nextRunAt = null;
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { clearMediaLibraryScanCache, scanLocalMediaLibrary } from './mediaLibraryCache';
+import {
+	__test as watcherTest,
+	subscribeMediaLibraryChanges,
+	type MediaLibraryChangeEvent
+} from './mediaLibraryWatcher';
+
+describe('mediaLibraryWatcher', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-library-watch-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		clearMediaLibraryScanCache();
+		watcherTest.reset();
+	});
+
+	afterEach(async () => {
+		watcherTest.reset();
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		clearMediaLibraryScanCache();
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('coalesces a burst of changes into one rescan and library-changed event', async () => {
+		expect((await scanLocalMediaLibrary()).files).toHaveLength(0);
+
+		const albumDir = path.join(downloadDir, 'Artist', 'Album');
+		await fs.mkdir(albumDir, { recursive: true });
+		await fs.writeFile(path.join(albumDir, '01 - One.flac'), 'one');
+		await fs.writeFile(path.join(albumDir, '02 - Two.flac'), 'two');
+
+		const events: MediaLibraryChangeEvent[] = [];
+		subscribeMediaLibraryChanges((event) => events.push(event));
+		watcherTest.recordChange('Artist/Album/01 - One.flac');
+		watcherTest.recordChange('Artist/Album/02 - Two.flac');
+		watcherTest.recordChange('Artist/.reorganize-run/03 - Staged.flac');
+		watcherTest.recordChange('Artist/.Album.publishing-job-1-abc/01 - One.flac');
+		await watcherTest.flushChanges();
+
+		expect(events).toHaveLength(1);
+		expect(events[0]).toMatchObject({
+			type: 'library-changed',
+			totalFiles: 2,
+			albums: [{ artistDir: 'Artist', albumDir: 'Album' }],
+			truncated: false
+		});
+		expect((await scanLocalMediaLibrary()).files).toHaveLength(2);
+	});
+});
@@ -0,0 +1,220 @@
+import * as fs from 'node:fs';
+import { getDownloadDir } from '$lib/server/download/shared';
+import { clearMediaLibraryScanCache, scanLocalMediaLibrary } from './mediaLibraryCache';
+
+/**
+ * Library watcher.
+ *
+ * Files added or removed outside the app used to stay invisible until the scan cache
+ * expired. When MEDIA_LIBRARY_WATCH=true this watches the download dir recursively,
+ * coalesces bursts of change events, rescans (incrementally, via the persistent index)
+ * and notifies subscribers — the SSE route forwards that to open pages so their
+ * in-library badges refresh.
+ */
+
+const WATCH_ENABLED = process.env.MEDIA_LIBRARY_WATCH === 'true';
+const WATCH_DEBOUNCE_MS = Math.max(
+	100,
+	Number(process.env.MEDIA_LIBRARY_WATCH_DEBOUNCE_MS || 2_000)
+);
+const WATCH_RETRY_MS = Math.max(1_000, Number(process.env.MEDIA_LIBRARY_WATCH_RETRY_MS || 30_000));
+const MAX_EVENT_ALBUMS = 200;
+const logPrefix = '[MediaLibraryWatcher]';
+
+export interface MediaLibraryChangedAlbum {
+	artistDir: string;
+	albumDir: string;
+}
+
+export interface MediaLibraryChangeEvent {
+	type: 'library-changed';
+	changedAt: number;
+	scannedAt: number;
+	totalFiles: number;
+	/** Album folders touched by the burst; empty when only root-level paths changed. */
+	albums: MediaLibraryChangedAlbum[];
+	/** True when more albums changed than are listed. */
+	truncated: boolean;
+}
+
+type MediaLibraryChangeListener = (event: MediaLibraryChangeEvent) => void;
+
+const listeners = new Set<MediaLibraryChangeListener>();
+const pendingAlbums = new Map<string, MediaLibraryChangedAlbum>();
+let watcher: fs.FSWatcher | null = null;
+let watchedDir: string | null = null;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+export function subscribeMediaLibraryChanges(listener: MediaLibraryChangeListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function emit(event: MediaLibraryChangeEvent): void {
+	for (const listener of listeners) {
+		try {
+			listener(event);
+		} catch (error) {
+			console.warn(`${logPrefix} Listener failed:`, error);
+		}
+	}
+}
+
+/**
+ * Hidden entries (publish/backup folders, reorganize staging, partial files) are churn
+ * from our own writers, not library changes.
+ */
+function isIgnoredPath(segments: string[]): boolean {
+	return segments.some((segment) => segment.startsWith('.'));
+}
+
+function recordChange(filename: string | null): void {
+	if (filename) {
+		const segments = filename.split(/[\\/]+/).filter(Boolean);
+		if (segments.length === 0 || isIgnoredPath(segments)) {
+			return;
+		}
+		// Only a nested path names an album folder; "Artist" alone may still be an album rename.
+		if (segments.length >= 2) {
+			const album = { artistDir: segments[0], albumDir: segments[1] };
+			pendingAlbums.set(`${album.artistDir}/${album.albumDir}`, album);
+		}
+	}
+	scheduleFlush();
+}
+
+function scheduleFlush(): void {
+	if (debounceTimer) {
+		clearTimeout(debounceTimer);
+	}
+	debounceTimer = setTimeout(() => {
+		debounceTimer = null;
+		void flushChanges();
+	}, WATCH_DEBOUNCE_MS);
+	debounceTimer.unref?.();
+}
+
+async function flushChanges(): Promise<void> {
+	if (flushing) {
+		// A rescan is already running; pick up whatever arrives meanwhile on the next pass.
+		await flushing;
+		if (pendingAlbums.size > 0) {
+			scheduleFlush();
+		}
+		return;
+	}
+	const albums = Array.from(pendingAlbums.values());
+	pendingAlbums.clear();
+	flushing = (async () => {
+		try {
+			clearMediaLibraryScanCache();
+			const snapshot = await scanLocalMediaLibrary({ force: true });
+			emit({
+				type: 'library-changed',
+				changedAt: Date.now(),
+				scannedAt: snapshot.scannedAt,
+				totalFiles: snapshot.files.length,
+				albums: albums.slice(0, MAX_EVENT_ALBUMS),
+				truncated: albums.length > MAX_EVENT_ALBUMS
+			});
+		} catch (error) {
+			console.warn(`${logPrefix} Rescan after change failed:`, error);
+		}
+	})();
+	try {
+		await flushing;
+	} finally {
+		flushing = null;
+	}
+}
+
+function scheduleRetry(): void {
+	if (retryTimer) return;
+	retryTimer = setTimeout(() => {
+		retryTimer = null;
+		openWatcher();
+	}, WATCH_RETRY_MS);
+	retryTimer.unref?.();
+}
+
+function openWatcher(): boolean {
+	const baseDir = getDownloadDir();
+	try {
+		fs.mkdirSync(baseDir, { recursive: true });
+		const next = fs.watch(baseDir, { recursive: true, persistent: false }, (_event, filename) => {
+			recordChange(typeof filename === 'string' ? filename : null);
+		});
+		next.on('error', (error) => {
+			console.warn(`${logPrefix} Watch error on ${baseDir}, retrying:`, error.message);
+			next.close();
+			if (watcher === next) {
+				watcher = null;
+				watchedDir = null;
+				scheduleRetry();
+			}
+		});
+		watcher = next;
+		watchedDir = baseDir;
+		return true;
+	} catch (error) {
+		console.warn(
+			`${logPrefix} Unable to watch ${baseDir}:`,
+			error instanceof Error ? error.message : error
+		);
+		scheduleRetry();
+		return false;
+	}
+}
+
+/**
+ * Start watching the download dir. Off unless MEDIA_LIBRARY_WATCH=true because recursive
+ * watches hold one inotify watch per directory on Linux.
+ */
+export function startMediaLibraryWatcher(): boolean {
+	if (watcher || !WATCH_ENABLED) {
+		return false;
+	}
+	return openWatcher();
+}
+
+export function stopMediaLibraryWatcher(): void {
+	watcher?.close();
+	watcher = null;
+	watchedDir = null;
+	if (debounceTimer) {
+		clearTimeout(debounceTimer);
+		debounceTimer = null;
+	}
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+	pendingAlbums.clear();
+}
+
+export function getMediaLibraryWatcherStatus(): {
+	enabled: boolean;
+	running: boolean;
+	watchedDir: string | null;
+	subscribers: number;
+} {
+	return {
+		enabled: WATCH_ENABLED,
+		running: watcher !== null,
+		watchedDir,
+		subscribers: listeners.size
+	};
+}
+
+export const __test = {
+	recordChange,
+	flushChanges,
+	reset(): void {
+		stopMediaLibraryWatcher();
+		listeners.clear();
+	}
+};
@@ -1,5 +1,6 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import { emitWebhookEvent } from './webhooks';
 
 const REPORTS_ROOT =
 	process.env.MEDIA_MAINTENANCE_REPORTS_DIR?.trim() ||
@@ -49,7 +50,13 @@ async function enforceRetention(): Promise<void> {
 
 export async function writeMediaMaintenanceRunReport(options: {
 	runId: string;
-	kind: 'deduplicate' | 'correct-and-deduplicate' | 'sweep-temporary';
+	kind:
+		| 'deduplicate'
+		| 'correct-and-deduplicate'
+		| 'sweep-temporary'
+		| 'quality-upgrades'
+		| 'reorganize'
+		| 'reorganize-rollback';
 	payload: unknown;
 }): Promise<string | null> {
 	const runId = options.runId.trim();
@@ -66,6 +73,12 @@ export async function writeMediaMaintenanceRunReport(options: {
 	try {
 		await fs.writeFile(reportPath, JSON.stringify(envelope, null, 2), 'utf8');
 		await enforceRetention();
+		await emitWebhookEvent('maintenance.report', {
+			runId,
+			kind: options.kind,
+			savedAt: envelope.savedAt,
+			reportPath
+		});
 		return reportPath;
 	} catch (error) {
 		console.warn(
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Track } from '$lib/types';
+import type { EmbeddedTags, LocalMediaFile } from './mediaLibraryShared';
+
+const mocks = vi.hoisted(() => ({
+	tagsByFilename: new Map<string, Partial<EmbeddedTags>>()
+}));
+
+vi.mock('./mediaLibraryIndex', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./mediaLibraryIndex')>()),
+	getEmbeddedTags: vi.fn(async (file: LocalMediaFile) => {
+		const tags = mocks.tagsByFilename.get(file.filename);
+		return tags
+			? ({ artistKey: '', albumArtistKey: '', albumKey: '', titleKey: '', ...tags } as EmbeddedTags)
+			: null;
+	})
+}));
+
+import { clearMediaLibraryScanCache } from './mediaLibraryCache';
+import {
+	PlaylistFileError,
+	exportPlaylistFile,
+	importPlaylistFile,
+	writePlaylistNextToFiles
+} from './playlistFiles';
+
+const makeTrack = (id: number, title: string, trackNumber: number): Track =>
+	({
+		id,
+		title,
+		trackNumber,
+		volumeNumber: 1,
+		duration: 200,
+		isrc: `GBAAA98001${80 + trackNumber}`,
+		artist: { id: 1, name: 'Band', type: 'MAIN' },
+		artists: [{ id: 1, name: 'Band', type: 'MAIN' }],
+		album: { id: 10, title: 'Album', cover: '' }
+	}) as unknown as Track;
+
+describe('playlistFiles', () => {
+	let downloadDir: string;
+	let originalDownloadDir: string | undefined;
+
+	async function writeFile(relativePath: string, tags?: Partial<EmbeddedTags>): Promise<void> {
+		const filePath = path.join(downloadDir, relativePath);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, relativePath);
+		if (tags) mocks.tagsByFilename.set(path.basename(relativePath), tags);
+	}
+
+	beforeEach(async () => {
+		downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-playlist-files-'));
+		originalDownloadDir = process.env.DOWNLOAD_DIR;
+		process.env.DOWNLOAD_DIR = downloadDir;
+		mocks.tagsByFilename.clear();
+		clearMediaLibraryScanCache();
+		await writeFile('Band/Album/01 - One.flac', { title: 'One', trackNo: 1, discNo: 1 });
+	});
+
+	afterEach(async () => {
+		if (originalDownloadDir === undefined) {
+			delete process.env.DOWNLOAD_DIR;
+		} else {
+			process.env.DOWNLOAD_DIR = originalDownloadDir;
+		}
+		clearMediaLibraryScanCache();
+		await fs.rm(downloadDir, { recursive: true, force: true });
+	});
+
+	it('exports library paths and falls back to TIDAL URLs', async () => {
+		const { content, matched } = await exportPlaylistFile(
+			[makeTrack(101, 'One', 1), makeTrack(102, 'Two', 2)],
+			'm3u8',
+			'Mix'
+		);
+
+		expect(matched).toBe(1);
+		expect(content).toContain('\nBand/Album/01 - One.flac\n');
+		expect(content).toContain('\nhttps://tidal.com/browse/track/102\n');
+	});
+
+	it('writes the playlist next to the downloaded files', async () => {
+		const result = await writePlaylistNextToFiles('Mix: Live', [
+			makeTrack(101, 'One', 1),
+			makeTrack(102, 'Two', 2)
+		]);
+
+		expect(result).toEqual({ path: 'Band/Album/Mix_ Live.m3u8', matched: 1, total: 2 });
+		const written = await fs.readFile(path.join(downloadDir, result.path), 'utf8');
+		expect(written).toContain('\n01 - One.flac\n');
+
+		await expect(writePlaylistNextToFiles('Empty', [makeTrack(103, 'Three', 3)])).rejects.toThrow(
+			PlaylistFileError
+		);
+	});
+
+	it('resolves imported entries by path, TIDAL id and ISRC', async () => {
+		const { format, resolutions } = await importPlaylistFile({
+			filename: 'mix.m3u8',
+			content: [
+				'#EXTM3U',
+				'/mnt/other-machine/Music/Band/Album/01 - One.flac',
+				'https://tidal.com/browse/track/102',
+				'Unknown/Missing.flac'
+			].join('\n')
+		});
+
+		expect(format).toBe('m3u8');
+		expect(resolutions.map((resolution) => resolution.kind)).toEqual([
+			'library',
+			'tidal',
+			'unresolved'
+		]);
+		expect(resolutions[0]).toMatchObject({
+			album: { artistName: 'Band', albumTitle: 'Album' },
+			track: { relativePath: 'Band/Album/01 - One.flac', title: 'One', trackNo: 1 }
+		});
+
+		const csv = await importPlaylistFile({
+			filename: 'queue.csv',
+			content: 'Title,ISRC\nTwo,GBAAA9800182\n'
+		});
+		expect(csv.resolutions).toEqual([
+			expect.objectContaining({ kind: 'isrc', isrc: 'GBAAA9800182' })
+		]);
+
+		await expect(importPlaylistFile({ filename: 'notes.txt', content: 'x' })).rejects.toThrow(
+			/Unsupported playlist file/
+		);
+	});
+});
@@ -0,0 +1,234 @@
+/**
+ * M3U8/XSPF playlists tied to the local library.
+ *
+ * Exported entries point at library files (relative to the download directory, or to the
+ * playlist file when it is written into the library) and fall back to TIDAL track URLs for
+ * tracks that are not on disk. Imports resolve each entry by library path first, then by
+ * TIDAL id; entries that only carry an ISRC are handed back for a catalog search.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { isLocalTrack, type Track } from '$lib/types';
+import {
+	buildM3u8,
+	buildXspf,
+	detectPlaylistFileFormat,
+	isUrlLocation,
+	parsePlaylistFile,
+	tidalTrackUrl,
+	type PlaylistFileEntry,
+	type PlaylistFileFormat
+} from '$lib/utils/playlistFormats';
+import { formatArtists } from '$lib/utils/formatters';
+import { sanitizeDirName } from './download/shared';
+import { toLibraryBrowseTrack } from './mediaLibraryBrowse';
+import { getEmbeddedTags, scanLocalMediaLibrary } from './mediaLibraryCache';
+import type { LocalMediaFile, MediaLibraryBrowseTrack } from './mediaLibraryShared';
+import { findLibraryFileForTrack, resolveLocalMediaFile } from './mediaLibraryStream';
+
+export type PlaylistImportResolution =
+	| {
+			kind: 'library';
+			entry: PlaylistFileEntry;
+			album: { artistName: string; albumTitle: string; tidalAlbumId?: number };
+			track: MediaLibraryBrowseTrack;
+	  }
+	| { kind: 'tidal'; entry: PlaylistFileEntry; trackId: number }
+	| { kind: 'isrc'; entry: PlaylistFileEntry; isrc: string }
+	| { kind: 'unresolved'; entry: PlaylistFileEntry };
+
+export class PlaylistFileError extends Error {
+	status: 400 | 409;
+
+	constructor(message: string, status: 400 | 409) {
+		super(message);
+		this.name = 'PlaylistFileError';
+		this.status = status;
+	}
+}
+
+export const MAX_PLAYLIST_FILE_BYTES = 5 * 1024 * 1024;
+const logPrefix = '[Playlist Files]';
+
+const toPosixPath = (value: string): string => value.split(path.sep).join('/');
+
+async function findLibraryFile(track: Track): Promise<LocalMediaFile | null> {
+	if (isLocalTrack(track)) {
+		return resolveLocalMediaFile(track.localFile.fileId);
+	}
+	return findLibraryFileForTrack({
+		trackId: track.id,
+		isrc: track.isrc,
+		artistName: track.album?.artist?.name ?? track.artist?.name,
+		albumTitle: track.album?.title,
+		trackTitle: track.title,
+		trackNumber: track.trackNumber,
+		volumeNumber: track.volumeNumber
+	});
+}
+
+async function findLibraryFiles(tracks: Track[]): Promise<Array<LocalMediaFile | null>> {
+	const files: Array<LocalMediaFile | null> = [];
+	for (const track of tracks) {
+		files.push(await findLibraryFile(track));
+	}
+	return files;
+}
+
+function toEntries(
+	tracks: Track[],
+	files: Array<LocalMediaFile | null>,
+	relativeTo?: string
+): PlaylistFileEntry[] {
+	return tracks.map((track, index) => {
+		const file = files[index];
+		const tidalId = isLocalTrack(track) || track.id <= 0 ? undefined : track.id;
+		const location = file
+			? relativeTo
+				? toPosixPath(path.relative(relativeTo, file.path))
+				: toPosixPath(file.relativePath)
+			: tidalId
+				? tidalTrackUrl(tidalId)
+				: undefined;
+		return {
+			location,
+			tidalId,
+			isrc: track.isrc,
+			title: track.version ? `${track.title} (${track.version})` : track.title,
+			artist: formatArtists(track.artists),
+			album: track.album?.title,
+			durationSeconds: track.duration || undefined
+		};
+	});
+}
+
+/** Build an M3U8 or XSPF file for tracks, with paths relative to the download directory. */
+export async function exportPlaylistFile(
+	tracks: Track[],
+	format: Exclude<PlaylistFileFormat, 'csv'>,
+	name: string
+): Promise<{ content: string; matched: number }> {
+	const files = await findLibraryFiles(tracks);
+	const entries = toEntries(tracks, files);
+	const content = format === 'xspf' ? buildXspf(name, entries) : buildM3u8(name, entries);
+	return { content, matched: files.filter(Boolean).length };
+}
+
+/**
+ * Write `<name>.m3u8` into the deepest library folder holding every downloaded track of the
+ * playlist, so other players pick it up next to the files.
+ */
+export async function writePlaylistNextToFiles(
+	name: string,
+	tracks: Track[]
+): Promise<{ path: string; matched: number; total: number }> {
+	const snapshot = await scanLocalMediaLibrary();
+	const files = await findLibraryFiles(tracks);
+	const matchedFiles = files.filter((file): file is LocalMediaFile => file !== null);
+	if (matchedFiles.length === 0) {
+		throw new PlaylistFileError('None of the playlist tracks are in the library yet', 409);
+	}
+	let directory = path.dirname(matchedFiles[0].path);
+	for (const file of matchedFiles.slice(1)) {
+		while (path.relative(directory, file.path).startsWith('..')) {
+			directory = path.dirname(directory);
+		}
+	}
+	if (path.relative(snapshot.baseDir, directory).startsWith('..')) {
+		directory = snapshot.baseDir;
+	}
+	const entries = toEntries(tracks, files, directory);
+	const target = path.join(directory, `${sanitizeDirName(name)}.m3u8`);
+	await fs.writeFile(target, buildM3u8(name, entries), 'utf8');
+	const relativePath = toPosixPath(path.relative(snapshot.baseDir, target));
+	console.log(
+		`${logPrefix} Wrote playlist`,
+		JSON.stringify({ path: relativePath, matched: matchedFiles.length, total: tracks.length })
+	);
+	return { path: relativePath, matched: matchedFiles.length, total: tracks.length };
+}
+
+function toLibraryRelativePath(location: string, baseDir: string): string | null {
+	let filePath = location;
+	if (location.toLowerCase().startsWith('file:')) {
+		try {
+			filePath = fileURLToPath(location);
+		} catch {
+			return null;
+		}
+	} else if (isUrlLocation(location)) {
+		return null;
+	}
+	filePath = filePath.replace(/\\/g, '/');
+	const posixBase = toPosixPath(baseDir).replace(/\/+$/, '');
+	if (filePath.startsWith(`${posixBase}/`)) {
+		return filePath.slice(posixBase.length + 1);
+	}
+	// Paths relative to a playlist file elsewhere in the library: drop the leading ../ part
+	return filePath.replace(/^\/+/, '').replace(/^(?:\.{1,2}\/)+/, '');
+}
+
+/**
+ * Resolve parsed entries against the library. Paths that don't match from the library root
+ * are matched by suffix, as playlists written into album folders hold paths relative to
+ * themselves and playlists from other machines carry their own music root.
+ */
+export async function resolvePlaylistFileEntries(
+	entries: PlaylistFileEntry[]
+): Promise<PlaylistImportResolution[]> {
+	const snapshot = await scanLocalMediaLibrary();
+	const filesByPath = new Map(
+		snapshot.files.map((file) => [toPosixPath(file.relativePath), file] as const)
+	);
+	const findFile = (relativePath: string): LocalMediaFile | null => {
+		const exact = filesByPath.get(relativePath);
+		if (exact) return exact;
+		const suffixMatches = snapshot.files.filter((file) => {
+			const filePath = toPosixPath(file.relativePath);
+			return filePath.endsWith(`/${relativePath}`) || relativePath.endsWith(`/${filePath}`);
+		});
+		return suffixMatches.length === 1 ? suffixMatches[0] : null;
+	};
+
+	const resolutions: PlaylistImportResolution[] = [];
+	for (const entry of entries) {
+		const relativePath = entry.location
+			? toLibraryRelativePath(entry.location, snapshot.baseDir)
+			: null;
+		const file = relativePath ? findFile(relativePath) : null;
+		if (file) {
+			const tags = await getEmbeddedTags(file);
+			resolutions.push({
+				kind: 'library',
+				entry,
+				album: {
+					artistName: tags?.albumArtist ?? tags?.artist ?? entry.artist ?? file.artistDir,
+					albumTitle: tags?.album ?? entry.album ?? file.albumDir,
+					tidalAlbumId: tags?.tidalAlbumId
+				},
+				track: toLibraryBrowseTrack(file, tags)
+			});
+		} else if (entry.tidalId) {
+			resolutions.push({ kind: 'tidal', entry, trackId: entry.tidalId });
+		} else if (entry.isrc) {
+			resolutions.push({ kind: 'isrc', entry, isrc: entry.isrc });
+		} else {
+			resolutions.push({ kind: 'unresolved', entry });
+		}
+	}
+	return resolutions;
+}
+
+export async function importPlaylistFile(input: {
+	content: string;
+	filename?: string;
+}): Promise<{ format: PlaylistFileFormat; resolutions: PlaylistImportResolution[] }> {
+	const format = detectPlaylistFileFormat(input.filename, input.content);
+	if (!format) {
+		throw new PlaylistFileError('Unsupported playlist file; use .m3u8, .m3u, .xspf or .csv', 400);
+	}
+	const entries = parsePlaylistFile(format, input.content);
+	return { format, resolutions: await resolvePlaylistFileEntries(entries) };
+}
@@ -0,0 +1,173 @@
+// @vitest-environment node
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	__test,
+	createWebhook,
+	emitWebhookEvent,
+	listWebhookDeliveries,
+	normalizeWebhookInput,
+	processWebhookDeliveries,
+	sendTestWebhook,
+	signWebhookBody
+} from './webhooks';
+
+type ReceivedRequest = { headers: http.IncomingHttpHeaders; body: string };
+
+// Local receiver that answers with whatever status the test sets
+function startReceiver() {
+	const received: ReceivedRequest[] = [];
+	let status = 200;
+	const server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			received.push({ headers: req.headers, body });
+			res.statusCode = status;
+			res.end();
+		});
+	});
+	return new Promise<{
+		url: string;
+		received: ReceivedRequest[];
+		setStatus: (next: number) => void;
+		close: () => Promise<void>;
+	}>((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				url: `http://127.0.0.1:${port}/hook`,
+				received,
+				setStatus: (next) => (status = next),
+				close: () => new Promise((done) => server.close(() => done()))
+			});
+		});
+	});
+}
+
+describe('webhooks', () => {
+	let tempDir: string;
+	let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+	beforeEach(async () => {
+		__test.reset();
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tidal-ui-webhooks-'));
+		vi.stubEnv('WEBHOOKS_STATE_FILE', path.join(tempDir, 'webhooks.json'));
+		vi.spyOn(console, 'log').mockImplementation(() => undefined);
+		vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+		receiver = await startReceiver();
+	});
+
+	afterEach(async () => {
+		__test.reset();
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+		await receiver.close();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('signs deliveries for subscribed events only', async () => {
+		const { secret } = await createWebhook({
+			name: 'Jellyfin',
+			url: receiver.url,
+			events: ['job.completed']
+		});
+
+		await emitWebhookEvent('job.failed', { job: { id: 'job-0' } });
+		await emitWebhookEvent('job.completed', { job: { id: 'job-1' } });
+		await processWebhookDeliveries();
+
+		expect(receiver.received).toHaveLength(1);
+		const [{ headers, body }] = receiver.received;
+		expect(headers['x-tidal-ui-event']).toBe('job.completed');
+		expect(headers['x-tidal-ui-signature']).toBe(
+			signWebhookBody(secret, Number(headers['x-tidal-ui-timestamp']), body)
+		);
+		expect(JSON.parse(body)).toMatchObject({
+			event: 'job.completed',
+			data: { job: { id: 'job-1' } }
+		});
+	});
+
+	it('retries failed deliveries with backoff and keeps them across restarts', async () => {
+		await createWebhook({ name: 'Navidrome', url: receiver.url, events: ['maintenance.report'] });
+		receiver.setStatus(503);
+
+		await emitWebhookEvent('maintenance.report', { runId: 'run-1' });
+		await processWebhookDeliveries();
+		const [pending] = await listWebhookDeliveries();
+		expect(pending).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503 });
+		expect(pending.nextAttemptAt).toBeGreaterThan(Date.now());
+
+		// Not due yet
+		await processWebhookDeliveries();
+		expect(receiver.received).toHaveLength(1);
+
+		__test.reset();
+		receiver.setStatus(204);
+		vi.spyOn(Date, 'now').mockReturnValue(pending.nextAttemptAt! + 1);
+		await processWebhookDeliveries();
+
+		expect(receiver.received).toHaveLength(2);
+		expect((await listWebhookDeliveries())[0]).toMatchObject({
+			status: 'delivered',
+			attempts: 2,
+			responseStatus: 204
+		});
+	});
+
+	it('sends test events once and logs refused deliveries as failed', async () => {
+		const { webhook } = await createWebhook({
+			name: 'Receiver',
+			url: receiver.url,
+			events: ['job.failed']
+		});
+		receiver.setStatus(500);
+
+		const delivery = await sendTestWebhook(webhook.id);
+
+		expect(delivery).toMatchObject({ event: 'test', status: 'failed', attempts: 1 });
+		expect(await listWebhookDeliveries()).toEqual([delivery]);
+		await expect(sendTestWebhook('missing')).rejects.toMatchObject({ status: 404 });
+	});
+
+	it('leaves a damaged webhooks file untouched', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		const stateFile = path.join(tempDir, 'webhooks.json');
+		await fs.writeFile(stateFile, '{"version":1,"webhooks":[', 'utf8');
+
+		await expect(
+			createWebhook({ name: 'Receiver', url: receiver.url, events: ['job.completed'] })
+		).rejects.toMatchObject({ status: 503 });
+		await emitWebhookEvent('job.completed', { job: { id: 'job-1' } });
+		await processWebhookDeliveries();
+		expect(await fs.readFile(stateFile, 'utf8')).toBe('{"version":1,"webhooks":[');
+	});
+
+	it('validates webhook settings', () => {
+		expect(
+			normalizeWebhookInput(
+				{ name: 'x', url: 'ftp://nas', events: ['job.failed'] },
+				{
+					partial: false
+				}
+			)
+		).toEqual({ ok: false, error: 'url must be an http(s) URL' });
+		expect(
+			normalizeWebhookInput(
+				{ name: 'x', url: 'http://nas/hook', events: ['test'] },
+				{
+					partial: false
+				}
+			)
+		).toMatchObject({ ok: false });
+		expect(normalizeWebhookInput({ enabled: false }, { partial: true })).toEqual({
+			ok: true,
+			input: { enabled: false }
+		});
+	});
+});
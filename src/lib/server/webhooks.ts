@@ -0,0 +1,550 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+/**
+ * Outgoing webhooks for queue and library events.
+ *
+ * Each delivery is a JSON POST signed with the webhook's secret:
+ * `X-Tidal-UI-Signature: sha256=<hex HMAC of "<timestamp>.<body>">`, with the timestamp in
+ * `X-Tidal-UI-Timestamp`. Deliveries are persisted and retried with backoff until the
+ * receiver accepts them or the attempts run out; the latest ones are kept as a log for the
+ * settings screen. Emitting never throws, so callers don't need to guard it.
+ */
+
+export type WebhookEvent =
+	| 'job.completed'
+	| 'job.failed'
+	| 'job.cancelled'
+	| 'maintenance.report'
+	| 'test';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookSummary {
+	id: string;
+	name: string;
+	url: string;
+	events: WebhookEvent[];
+	enabled: boolean;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	webhookId: string;
+	event: WebhookEvent;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	createdAt: number;
+	lastAttemptAt: number | null;
+	nextAttemptAt: number | null;
+	responseStatus: number | null;
+	error: string | null;
+	body: string;
+}
+
+export type WebhookInput = {
+	name?: string;
+	url?: string;
+	events?: WebhookEvent[];
+	enabled?: boolean;
+	secret?: string;
+};
+
+type StoredWebhook = WebhookSummary & {
+	secret: string;
+};
+
+type WebhookState = {
+	webhooks: StoredWebhook[];
+	deliveries: WebhookDelivery[];
+};
+
+export class WebhookError extends Error {
+	status: 400 | 404 | 503;
+
+	constructor(message: string, status: 400 | 404 | 503) {
+		super(message);
+		this.name = 'WebhookError';
+		this.status = status;
+	}
+}
+
+// `test` is only sent on request, so it can't be subscribed to
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+	'job.completed',
+	'job.failed',
+	'job.cancelled',
+	'maintenance.report'
+];
+const STATE_FILE_NAME = 'webhooks.v1.json';
+const USER_AGENT = 'tidal-ui-webhooks';
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 60 * 60_000;
+const MAX_LOGGED_DELIVERIES = 200;
+const MAX_NAME_LENGTH = 64;
+const MIN_SECRET_LENGTH = 16;
+const logPrefix = '[Webhooks]';
+
+let state: WebhookState | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let processInFlight: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let dispatcherStarted = false;
+
+function resolveStateFile(): string {
+	return (
+		process.env.WEBHOOKS_STATE_FILE?.trim() || path.join(process.cwd(), 'data', STATE_FILE_NAME)
+	);
+}
+
+function normalizeUrl(value: unknown): string | null {
+	if (typeof value !== 'string' || !value.trim()) {
+		return null;
+	}
+	try {
+		const url = new URL(value.trim());
+		return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+	} catch {
+		return null;
+	}
+}
+
+function parseEvents(value: unknown): WebhookEvent[] | null {
+	if (!Array.isArray(value) || value.length === 0) {
+		return null;
+	}
+	if (value.some((event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+		return null;
+	}
+	return WEBHOOK_EVENTS.filter((event) => value.includes(event));
+}
+
+async function loadState(): Promise<WebhookState> {
+	if (state) {
+		return state;
+	}
+	const stateFile = resolveStateFile();
+	let loaded: WebhookState = { webhooks: [], deliveries: [] };
+	let content: string | null = null;
+	try {
+		content = await fs.readFile(stateFile, 'utf8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+			console.error(`${logPrefix} Failed to read ${stateFile}:`, error);
+			throw new WebhookError('Webhook storage is unavailable', 503);
+		}
+	}
+	if (content !== null) {
+		let raw: ({ version?: number } & Partial<WebhookState>) | null = null;
+		try {
+			raw = JSON.parse(content) as { version?: number } & Partial<WebhookState>;
+		} catch {
+			// reported below
+		}
+		// Starting empty here would overwrite the file with the next change
+		if (raw?.version !== 1) {
+			console.error(`${logPrefix} ${stateFile} is damaged; leaving it untouched`);
+			throw new WebhookError('Webhook storage is unavailable', 503);
+		}
+		loaded = {
+			webhooks: Array.isArray(raw.webhooks)
+				? raw.webhooks.filter(
+						(webhook) =>
+							typeof webhook?.id === 'string' &&
+							normalizeUrl(webhook.url) !== null &&
+							typeof webhook.secret === 'string'
+					)
+				: [],
+			deliveries: Array.isArray(raw.deliveries) ? raw.deliveries : []
+		};
+	}
+	state ??= loaded;
+	return state;
+}
+
+function persistState(): Promise<void> {
+	const snapshot = state;
+	const stateFile = resolveStateFile();
+	const write = writeChain.then(async () => {
+		if (!snapshot) return;
+		await fs.mkdir(path.dirname(stateFile), { recursive: true });
+		await fs.writeFile(stateFile, JSON.stringify({ version: 1, ...snapshot }, null, 2), {
+			encoding: 'utf8',
+			mode: 0o600
+		});
+	});
+	writeChain = write.catch((error) => {
+		console.warn(`${logPrefix} Failed to persist webhooks:`, error);
+	});
+	return writeChain;
+}
+
+const toSummary = (webhook: StoredWebhook): WebhookSummary => ({
+	id: webhook.id,
+	name: webhook.name,
+	url: webhook.url,
+	events: webhook.events,
+	enabled: webhook.enabled,
+	createdAt: webhook.createdAt,
+	updatedAt: webhook.updatedAt
+});
+
+/** The signature header value for a body sent at `timestamp` (Unix seconds). */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+	return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+class WebhookHttpError extends Error {
+	status: number;
+
+	constructor(status: number) {
+		super(`Receiver answered HTTP ${status}`);
+		this.name = 'WebhookHttpError';
+		this.status = status;
+	}
+}
+
+// Network failures, timeouts, rate limits and server errors are worth retrying; other
+// client errors mean the receiver refused the event.
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof WebhookHttpError) {
+		return error.status === 408 || error.status === 429 || error.status >= 500;
+	}
+	return true;
+}
+
+function describeError(error: unknown): string {
+	if (error instanceof DOMException && error.name === 'TimeoutError') {
+		return 'Receiver did not respond';
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+async function sendDelivery(webhook: StoredWebhook, delivery: WebhookDelivery): Promise<void> {
+	const timestamp = Math.floor(Date.now() / 1000);
+	delivery.attempts += 1;
+	delivery.lastAttemptAt = Date.now();
+	try {
+		const response = await fetch(webhook.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': USER_AGENT,
+				'X-Tidal-UI-Event': delivery.event,
+				'X-Tidal-UI-Delivery': delivery.id,
+				'X-Tidal-UI-Timestamp': String(timestamp),
+				'X-Tidal-UI-Signature': signWebhookBody(webhook.secret, timestamp, delivery.body)
+			},
+			body: delivery.body,
+			redirect: 'manual',
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+		});
+		delivery.responseStatus = response.status;
+		await response.body?.cancel().catch(() => undefined);
+		if (!response.ok) {
+			throw new WebhookHttpError(response.status);
+		}
+		delivery.status = 'delivered';
+		delivery.error = null;
+		delivery.nextAttemptAt = null;
+	} catch (error) {
+		delivery.error = describeError(error);
+		if (isRetryableError(error) && delivery.attempts < MAX_ATTEMPTS) {
+			const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (delivery.attempts - 1));
+			delivery.nextAttemptAt = Date.now() + delay;
+		} else {
+			delivery.status = 'failed';
+			delivery.nextAttemptAt = null;
+			console.warn(
+				`${logPrefix} Delivery failed`,
+				JSON.stringify({ id: delivery.id, url: webhook.url, error: delivery.error })
+			);
+		}
+	}
+}
+
+function scheduleNextAttempt(current: WebhookState): void {
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+	const next = current.deliveries
+		.filter((delivery) => delivery.status === 'pending' && delivery.nextAttemptAt !== null)
+		.reduce<
+			number | null
+		>((earliest, delivery) => (earliest === null ? delivery.nextAttemptAt : Math.min(earliest, delivery.nextAttemptAt!)), null);
+	if (next === null) {
+		return;
+	}
+	retryTimer = setTimeout(
+		() => {
+			retryTimer = null;
+			void processWebhookDeliveries();
+		},
+		Math.max(0, next - Date.now())
+	);
+	retryTimer.unref?.();
+}
+
+/**
+ * Send every pending delivery that is due, then schedule the next retry. Deliveries for
+ * removed or disabled webhooks are dropped as failed.
+ */
+export function processWebhookDeliveries(): Promise<void> {
+	if (processInFlight) {
+		return processInFlight;
+	}
+	processInFlight = (async () => {
+		const current = await loadState();
+		const now = Date.now();
+		for (const delivery of current.deliveries) {
+			if (delivery.status !== 'pending' || (delivery.nextAttemptAt ?? 0) > now) {
+				continue;
+			}
+			const webhook = current.webhooks.find((candidate) => candidate.id === delivery.webhookId);
+			if (!webhook || !webhook.enabled) {
+				delivery.status = 'failed';
+				delivery.nextAttemptAt = null;
+				delivery.error = webhook ? 'Webhook disabled' : 'Webhook removed';
+				continue;
+			}
+			await sendDelivery(webhook, delivery);
+		}
+		await persistState();
+		scheduleNextAttempt(current);
+	})()
+		.catch((error) => {
+			console.warn(`${logPrefix} Delivery run failed:`, error);
+		})
+		.finally(() => {
+			processInFlight = null;
+		});
+	return processInFlight;
+}
+
+function createDelivery(webhookId: string, event: WebhookEvent, data: unknown): WebhookDelivery {
+	const id = `whd-${Date.now()}-${randomBytes(4).toString('hex')}`;
+	const createdAt = Date.now();
+	return {
+		id,
+		webhookId,
+		event,
+		status: 'pending',
+		attempts: 0,
+		createdAt,
+		lastAttemptAt: null,
+		nextAttemptAt: createdAt,
+		responseStatus: null,
+		error: null,
+		body: JSON.stringify({ id, event, createdAt, data })
+	};
+}
+
+function appendDeliveries(current: WebhookState, deliveries: WebhookDelivery[]): void {
+	current.deliveries.push(...deliveries);
+	// Trim the oldest finished entries first so pending deliveries aren't lost
+	let excess = current.deliveries.length - MAX_LOGGED_DELIVERIES;
+	if (excess > 0) {
+		current.deliveries = current.deliveries.filter((delivery) => {
+			if (excess > 0 && delivery.status !== 'pending') {
+				excess -= 1;
+				return false;
+			}
+			return true;
+		});
+	}
+}
+
+/**
+ * Queue an event for every enabled webhook subscribed to it and start sending.
+ */
+export async function emitWebhookEvent(
+	event: Exclude<WebhookEvent, 'test'>,
+	data: unknown
+): Promise<void> {
+	try {
+		const current = await loadState();
+		const targets = current.webhooks.filter(
+			(webhook) => webhook.enabled && webhook.events.includes(event)
+		);
+		if (targets.length === 0) {
+			return;
+		}
+		appendDeliveries(
+			current,
+			targets.map((webhook) => createDelivery(webhook.id, event, data))
+		);
+		await persistState();
+		void processWebhookDeliveries();
+	} catch (error) {
+		console.warn(`${logPrefix} Failed to queue ${event}:`, error);
+	}
+}
+
+/**
+ * Send a test event right away, once, and return how it went.
+ */
+export async function sendTestWebhook(id: string): Promise<WebhookDelivery> {
+	const current = await loadState();
+	const webhook = current.webhooks.find((candidate) => candidate.id === id);
+	if (!webhook) {
+		throw new WebhookError(`Webhook "${id}" not found`, 404);
+	}
+	const delivery = createDelivery(webhook.id, 'test', {
+		message: 'Test event from TIDAL UI',
+		webhook: { id: webhook.id, name: webhook.name }
+	});
+	await sendDelivery(webhook, delivery);
+	if (delivery.status === 'pending') {
+		// Test events are not retried
+		delivery.status = 'failed';
+		delivery.nextAttemptAt = null;
+	}
+	appendDeliveries(current, [delivery]);
+	await persistState();
+	return delivery;
+}
+
+/**
+ * Resume deliveries left pending by the previous run.
+ */
+export function startWebhookDispatcher(): boolean {
+	if (dispatcherStarted) {
+		return false;
+	}
+	dispatcherStarted = true;
+	void processWebhookDeliveries();
+	return true;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export async function listWebhooks(): Promise<WebhookSummary[]> {
+	return (await loadState()).webhooks.map(toSummary);
+}
+
+/** The delivery log, newest first. */
+export async function listWebhookDeliveries(limit = 50): Promise<WebhookDelivery[]> {
+	return [...(await loadState()).deliveries].reverse().slice(0, limit);
+}
+
+/**
+ * Validate a create or update body. On update, omitted fields keep their value.
+ */
+export function normalizeWebhookInput(
+	body: unknown,
+	options: { partial: boolean }
+): { ok: true; input: WebhookInput } | { ok: false; error: string } {
+	const candidate = (body ?? {}) as Record<string, unknown>;
+	const input: WebhookInput = {};
+	if (candidate.name !== undefined || !options.partial) {
+		const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+		if (!name || name.length > MAX_NAME_LENGTH) {
+			return { ok: false, error: `name must be 1-${MAX_NAME_LENGTH} characters` };
+		}
+		input.name = name;
+	}
+	if (candidate.url !== undefined || !options.partial) {
+		const url = normalizeUrl(candidate.url);
+		if (!url) {
+			return { ok: false, error: 'url must be an http(s) URL' };
+		}
+		input.url = url;
+	}
+	if (candidate.events !== undefined || !options.partial) {
+		const events = parseEvents(candidate.events);
+		if (!events) {
+			return {
+				ok: false,
+				error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`
+			};
+		}
+		input.events = events;
+	}
+	if (candidate.enabled !== undefined) {
+		if (typeof candidate.enabled !== 'boolean') {
+			return { ok: false, error: 'enabled must be a boolean' };
+		}
+		input.enabled = candidate.enabled;
+	}
+	if (candidate.secret !== undefined && candidate.secret !== null && candidate.secret !== '') {
+		if (typeof candidate.secret !== 'string' || candidate.secret.length < MIN_SECRET_LENGTH) {
+			return { ok: false, error: `secret must be at least ${MIN_SECRET_LENGTH} characters` };
+		}
+		input.secret = candidate.secret;
+	}
+	return { ok: true, input };
+}
+
+/**
+ * Add a webhook. Without a secret one is generated; either way it is only returned here.
+ */
+export async function createWebhook(
+	input: WebhookInput & Required<Pick<WebhookInput, 'name' | 'url' | 'events'>>
+): Promise<{ webhook: WebhookSummary; secret: string }> {
+	const current = await loadState();
+	const now = Date.now();
+	const webhook: StoredWebhook = {
+		id: `wh-${randomBytes(6).toString('hex')}`,
+		name: input.name,
+		url: input.url,
+		events: input.events,
+		enabled: input.enabled ?? true,
+		secret: input.secret ?? randomBytes(24).toString('hex'),
+		createdAt: now,
+		updatedAt: now
+	};
+	current.webhooks = [...current.webhooks, webhook];
+	await persistState();
+	console.log(
+		`${logPrefix} Added webhook`,
+		JSON.stringify({ id: webhook.id, url: webhook.url, events: webhook.events })
+	);
+	return { webhook: toSummary(webhook), secret: webhook.secret };
+}
+
+export async function updateWebhook(id: string, update: WebhookInput): Promise<WebhookSummary> {
+	const current = await loadState();
+	const existing = current.webhooks.find((webhook) => webhook.id === id);
+	if (!existing) {
+		throw new WebhookError(`Webhook "${id}" not found`, 404);
+	}
+	const updated: StoredWebhook = { ...existing, ...update, updatedAt: Date.now() };
+	current.webhooks = current.webhooks.map((webhook) => (webhook.id === id ? updated : webhook));
+	await persistState();
+	return toSummary(updated);
+}
+
+export async function deleteWebhook(id: string): Promise<void> {
+	const current = await loadState();
+	if (!current.webhooks.some((webhook) => webhook.id === id)) {
+		throw new WebhookError(`Webhook "${id}" not found`, 404);
+	}
+	current.webhooks = current.webhooks.filter((webhook) => webhook.id !== id);
+	current.deliveries = current.deliveries.filter((delivery) => delivery.webhookId !== id);
+	await persistState();
+	console.log(`${logPrefix} Removed webhook`, JSON.stringify({ id }));
+}
+
+export const __test = {
+	reset: () => {
+		if (retryTimer) {
+			clearTimeout(retryTimer);
+			retryTimer = null;
+		}
+		state = null;
+		processInFlight = null;
+		dispatcherStarted = false;
+		writeChain = Promise.resolve();
+	}
+};
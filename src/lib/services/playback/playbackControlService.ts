@@ -38,6 +38,8 @@ export interface SeekOptions {
 export interface PreviousTrackOptions extends SeekOptions {
 	currentTime: number;
 	queueIndex: number;
+	/** With repeat-all, the first track steps back to the end of the queue. */
+	repeatAll?: boolean;
 	onPrevious?: () => void;
 }
 
@@ -93,7 +95,7 @@ export function handlePreviousTrack(audioElement: HTMLAudioElement, options: Pre
 	}
 
 	// If at start of queue, restart current track
-	if (options.queueIndex <= 0) {
+	if (options.queueIndex <= 0 && !options.repeatAll) {
 		resetToStart();
 		return;
 	}
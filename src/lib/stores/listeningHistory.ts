@@ -0,0 +1,190 @@
+import { browser } from '$app/environment';
+import { get, writable } from 'svelte/store';
+import type { PlayableTrack } from '$lib/types';
+import { listeningHistoryClient } from '$lib/clients/listeningHistoryClient';
+import { userPreferencesStore } from '$lib/stores/userPreferences';
+import {
+	buildListeningEvent,
+	mergeListeningEvents,
+	normalizeListeningEvent,
+	type ListeningEvent
+} from '$lib/utils/listeningStats';
+
+export interface ListeningHistoryState {
+	events: ListeningEvent[];
+	// Snapshot of each played track by trackKey, so "play again" needs no lookup
+	tracks: Record<string, PlayableTrack>;
+	// Event ids not yet pushed to the server
+	pendingSync: string[];
+	lastSyncedAt: number | null;
+	syncError: string | null;
+}
+
+type ListenInput = {
+	playedAt: number;
+	listenedSeconds: number;
+	durationSeconds: number;
+};
+
+const STORAGE_KEY = 'tidal-ui.listening-history';
+const MAX_EVENTS = 500;
+const SYNC_BATCH_SIZE = 500;
+
+const EMPTY_STATE: ListeningHistoryState = {
+	events: [],
+	tracks: {},
+	pendingSync: [],
+	lastSyncedAt: null,
+	syncError: null
+};
+
+// Drop track snapshots and pending ids that no retained event refers to.
+function pruneState(state: ListeningHistoryState): ListeningHistoryState {
+	const events = state.events.slice(0, MAX_EVENTS);
+	const keys = new Set(events.map((event) => event.trackKey));
+	const ids = new Set(events.map((event) => event.id));
+	const tracks: Record<string, PlayableTrack> = {};
+	for (const [key, track] of Object.entries(state.tracks)) {
+		if (keys.has(key)) {
+			tracks[key] = track;
+		}
+	}
+	return {
+		...state,
+		events,
+		tracks,
+		pendingSync: state.pendingSync.filter((id) => ids.has(id))
+	};
+}
+
+function readInitialState(): ListeningHistoryState {
+	if (!browser) {
+		return EMPTY_STATE;
+	}
+	try {
+		const raw = localStorage.getItem(STORAGE_KEY);
+		if (!raw) {
+			return EMPTY_STATE;
+		}
+		const parsed = JSON.parse(raw) as Partial<ListeningHistoryState> | null;
+		const events = Array.isArray(parsed?.events)
+			? mergeListeningEvents(
+					parsed.events
+						.map((entry) => normalizeListeningEvent(entry))
+						.filter((entry): entry is ListeningEvent => entry !== null)
+				)
+			: [];
+		return pruneState({
+			events,
+			tracks: parsed?.tracks && typeof parsed.tracks === 'object' ? parsed.tracks : {},
+			pendingSync: Array.isArray(parsed?.pendingSync)
+				? parsed.pendingSync.filter((id): id is string => typeof id === 'string')
+				: [],
+			lastSyncedAt: typeof parsed?.lastSyncedAt === 'number' ? parsed.lastSyncedAt : null,
+			syncError: null
+		});
+	} catch (error) {
+		console.warn('Failed to restore listening history from storage', error);
+		return EMPTY_STATE;
+	}
+}
+
+function createListeningHistoryStore() {
+	const store = writable<ListeningHistoryState>(readInitialState());
+	const { subscribe, update } = store;
+	let syncInFlight: Promise<void> | null = null;
+
+	if (browser) {
+		subscribe((state) => {
+			try {
+				localStorage.setItem(
+					STORAGE_KEY,
+					JSON.stringify({
+						events: state.events,
+						tracks: state.tracks,
+						pendingSync: state.pendingSync,
+						lastSyncedAt: state.lastSyncedAt
+					})
+				);
+			} catch (error) {
+				console.warn('Failed to persist listening history to storage', error);
+			}
+		});
+	}
+
+	async function pushPending(): Promise<void> {
+		const state = get(store);
+		const pending = new Set(state.pendingSync);
+		const events = state.events.filter((event) => pending.has(event.id));
+		for (let index = 0; index < events.length; index += SYNC_BATCH_SIZE) {
+			const batch = events.slice(index, index + SYNC_BATCH_SIZE);
+			await listeningHistoryClient.appendEvents(batch);
+			const sent = new Set(batch.map((event) => event.id));
+			update((current) => ({
+				...current,
+				pendingSync: current.pendingSync.filter((id) => !sent.has(id))
+			}));
+		}
+	}
+
+	/**
+	 * Push unsynced events, then merge in events recorded on other devices.
+	 */
+	function sync(): Promise<void> {
+		if (syncInFlight) {
+			return syncInFlight;
+		}
+		syncInFlight = (async () => {
+			try {
+				await pushPending();
+				const remote = await listeningHistoryClient.listEvents();
+				update((state) =>
+					pruneState({
+						...state,
+						events: mergeListeningEvents(state.events, remote),
+						lastSyncedAt: Date.now(),
+						syncError: null
+					})
+				);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : 'Sync failed';
+				update((state) => ({ ...state, syncError: message }));
+			} finally {
+				syncInFlight = null;
+			}
+		})();
+		return syncInFlight;
+	}
+
+	return {
+		subscribe,
+		record(track: PlayableTrack, input: ListenInput): ListeningEvent | null {
+			const event = buildListeningEvent(track, input);
+			if (!event) {
+				return null;
+			}
+			update((state) =>
+				pruneState({
+					...state,
+					events: mergeListeningEvents([event], state.events),
+					tracks: { ...state.tracks, [event.trackKey]: track },
+					pendingSync: [...state.pendingSync, event.id]
+				})
+			);
+			if (get(userPreferencesStore).syncListeningHistory) {
+				void sync();
+			}
+			return event;
+		},
+		getTrack(trackKey: string): PlayableTrack | null {
+			return get(store).tracks[trackKey] ?? null;
+		},
+		sync,
+		// Clears the local log only; the server copy is cleared separately.
+		clear(): void {
+			update((state) => ({ ...EMPTY_STATE, lastSyncedAt: state.lastSyncedAt }));
+		}
+	};
+}
+
+export const listeningHistoryStore = createListeningHistoryStore();
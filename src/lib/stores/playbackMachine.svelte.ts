@@ -8,11 +8,21 @@
 import {
 	type PlaybackMachineState,
 	type PlaybackEvent,
+	type RepeatMode,
+	type SleepTimerRequest,
 	transition,
 	createInitialState,
-	deriveSideEffects
+	deriveSideEffects,
+	sleepTimerStopsAfterCurrentTrack
 } from '$lib/machines/playbackMachine';
-import type { PlayableTrack, AudioQuality } from '$lib/types';
+import type {
+	AppliedReplayGain,
+	AudioQuality,
+	LoudnessNormalizationMode,
+	PlayableTrack
+} from '$lib/types';
+import type { TrackTransitionPlan } from '$lib/controllers/playbackTransitions';
+import { createSleepTimerController } from '$lib/controllers/sleepTimerController';
 import { get } from 'svelte/store';
 import { browser } from '$app/environment';
 import { userPreferencesStore } from '$lib/stores/userPreferences';
@@ -28,8 +38,13 @@ type PersistedPlaybackState = {
 	duration?: number;
 	volume?: number;
 	isMuted?: boolean;
+	repeatMode?: RepeatMode;
+	shuffleEnabled?: boolean;
+	unshuffledQueue?: PlayableTrack[];
 };
 
+const REPEAT_MODES: readonly RepeatMode[] = ['off', 'one', 'all'];
+
 const hydratePersistedPlaybackState = (
 	persisted: Partial<PersistedPlaybackState>
 ): {
@@ -40,6 +55,9 @@ const hydratePersistedPlaybackState = (
 	duration: number;
 	volume: number;
 	isMuted: boolean;
+	repeatMode: RepeatMode;
+	shuffleEnabled: boolean;
+	unshuffledQueue: PlayableTrack[];
 } => {
 	const queue = Array.isArray(persisted.queue) ? persisted.queue.filter(Boolean) : [];
 	const rawQueueIndex =
@@ -64,6 +82,15 @@ const hydratePersistedPlaybackState = (
 			? Math.min(Math.max(persisted.volume, 0), 1)
 			: 0.8;
 	const isMuted = typeof persisted.isMuted === 'boolean' ? persisted.isMuted : volume === 0;
+	const repeatMode =
+		persisted.repeatMode && REPEAT_MODES.includes(persisted.repeatMode)
+			? persisted.repeatMode
+			: 'off';
+	const unshuffledQueue = Array.isArray(persisted.unshuffledQueue)
+		? persisted.unshuffledQueue.filter(Boolean)
+		: [];
+	const shuffleEnabled =
+		persisted.shuffleEnabled === true && queue.length > 0 && unshuffledQueue.length > 0;
 
 	return {
 		currentTrack,
@@ -72,7 +99,10 @@ const hydratePersistedPlaybackState = (
 		currentTime,
 		duration,
 		volume,
-		isMuted
+		isMuted,
+		repeatMode,
+		shuffleEnabled,
+		unshuffledQueue: shuffleEnabled ? unshuffledQueue : []
 	};
 };
 
@@ -103,7 +133,21 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		getQueue: () => machineState.context.queue,
 		getQueueIndex: () => machineState.context.queueIndex,
 		getPlaybackQuality: () => machineState.context.quality,
-		getIsPlaying: () => machineState.state === 'playing' || machineState.state === 'buffering'
+		getIsPlaying: () => machineState.state === 'playing' || machineState.state === 'buffering',
+		getRepeatMode: () => machineState.context.repeatMode,
+		getStopsAfterCurrentTrack: () => sleepTimerStopsAfterCurrentTrack(machineState.context)
+	});
+	let sleepTimerRemaining = $state<number | null>(null);
+	const sleepTimerController = createSleepTimerController({
+		getContext: () => machineState.context,
+		onRemainingChange: (value) => {
+			sleepTimerRemaining = value;
+			// The countdown changes between transitions, so derived stores need a nudge.
+			for (const subscriber of subscribers) {
+				subscriber(machineState);
+			}
+		},
+		onExpire: () => dispatch({ type: 'SLEEP_TIMER_EXPIRED' })
 	});
 
 	/**
@@ -124,7 +168,9 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 			prevState.context.currentTime !== nextState.context.currentTime ||
 			prevState.context.duration !== nextState.context.duration ||
 			prevState.context.volume !== nextState.context.volume ||
-			prevState.context.isMuted !== nextState.context.isMuted
+			prevState.context.isMuted !== nextState.context.isMuted ||
+			prevState.context.repeatMode !== nextState.context.repeatMode ||
+			prevState.context.unshuffledQueue !== nextState.context.unshuffledQueue
 		) {
 			debouncedSave('player', {
 				currentTrack: nextState.context.currentTrack,
@@ -133,12 +179,18 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 				currentTime: nextState.context.currentTime,
 				duration: nextState.context.duration,
 				volume: nextState.context.volume,
-				isMuted: nextState.context.isMuted
+				isMuted: nextState.context.isMuted,
+				repeatMode: nextState.context.repeatMode,
+				shuffleEnabled: nextState.context.shuffleEnabled,
+				unshuffledQueue: nextState.context.unshuffledQueue
 			});
 		}
 		for (const subscriber of subscribers) {
 			subscriber(nextState);
 		}
+		if (prevState.context.sleepTimer !== nextState.context.sleepTimer) {
+			sleepTimerController.sync();
+		}
 
 		// Execute side effects
 		const effects = deriveSideEffects(prevState, nextState, event);
@@ -179,6 +231,13 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		effectHandler.setAudioElement(element);
 	}
 
+	/**
+	 * Second audio element used to buffer the next track for gapless and crossfade
+	 */
+	function setStandbyAudioElement(element: HTMLAudioElement | null) {
+		effectHandler.setStandbyAudioElement(element);
+	}
+
 	function setLoadUiCallbacks(callbacks: {
 		setStreamUrl?: (url: string) => void;
 		setBufferedPercent?: (value: number) => void;
@@ -186,12 +245,16 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		setDashPlaybackActive?: (value: boolean) => void;
 		setSampleRate?: (value: number | null) => void;
 		setBitDepth?: (value: number | null) => void;
-		setReplayGain?: (value: number | null) => void;
+		setReplayGain?: (value: AppliedReplayGain) => void;
+		getNormalizationMode?: () => LoudnessNormalizationMode;
 		getSupportsLosslessPlayback?: () => boolean;
 		getStreamingFallbackQuality?: () => AudioQuality;
 		isHiResQuality?: (quality: AudioQuality | undefined) => boolean;
 		isFirefox?: () => boolean;
 		preloadThresholdSeconds?: number;
+		setActiveAudioElement?: (element: HTMLAudioElement) => void;
+		getOutputVolume?: (replayGain: AppliedReplayGain) => number;
+		planTransition?: (current: PlayableTrack, next: PlayableTrack) => TrackTransitionPlan;
 	}) {
 		effectHandler.setLoadUiCallbacks(callbacks);
 	}
@@ -211,6 +274,21 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		setQueue(queue: PlayableTrack[], queueIndex: number) {
 			dispatch({ type: 'SET_QUEUE', queue, queueIndex });
 		},
+		shuffleQueue(queue: PlayableTrack[], queueIndex: number) {
+			dispatch({ type: 'SHUFFLE_QUEUE', queue, queueIndex });
+		},
+		unshuffleQueue() {
+			dispatch({ type: 'UNSHUFFLE_QUEUE' });
+		},
+		setRepeatMode(mode: RepeatMode) {
+			dispatch({ type: 'SET_REPEAT_MODE', mode });
+		},
+		setSleepTimer(timer: SleepTimerRequest) {
+			dispatch({ type: 'SET_SLEEP_TIMER', timer });
+		},
+		cancelSleepTimer() {
+			dispatch({ type: 'CANCEL_SLEEP_TIMER' });
+		},
 
 		play() {
 			dispatch({ type: 'PLAY' });
@@ -244,8 +322,13 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		updateBitDepth(bitDepth: number | null) {
 			dispatch({ type: 'BIT_DEPTH_UPDATE', bitDepth });
 		},
-		updateReplayGain(replayGain: number | null) {
-			dispatch({ type: 'REPLAY_GAIN_UPDATE', replayGain });
+		updateReplayGain(replayGain: AppliedReplayGain) {
+			dispatch({
+				type: 'REPLAY_GAIN_UPDATE',
+				replayGain: replayGain.gain,
+				peak: replayGain.peak,
+				mode: replayGain.mode
+			});
 		},
 
 		changeQuality(quality: AudioQuality) {
@@ -274,6 +357,15 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		},
 
 		onTrackEnd() {
+			const handoff = effectHandler.takePreparedHandoff();
+			if (handoff) {
+				const before = machineState;
+				dispatch({ type: 'TRACK_HANDOFF', ...handoff });
+				if (machineState !== before) {
+					return;
+				}
+				effectHandler.discardStandby();
+			}
 			dispatch({ type: 'TRACK_END' });
 		}
 	};
@@ -313,6 +405,9 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		get replayGain() {
 			return machineState.context.replayGain;
 		},
+		get replayGainPeak() {
+			return machineState.context.replayGainPeak;
+		},
 		/**
 		 * User's requested/preferred quality setting.
 		 */
@@ -327,6 +422,21 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 		get effectiveQuality() {
 			return machineState.context.effectiveQuality;
 		},
+		get repeatMode() {
+			return machineState.context.repeatMode;
+		},
+		get shuffleEnabled() {
+			return machineState.context.shuffleEnabled;
+		},
+		get sleepTimer() {
+			return machineState.context.sleepTimer;
+		},
+		/**
+		 * Seconds until the sleep timer stops playback; null without a timer.
+		 */
+		get sleepTimerRemaining() {
+			return sleepTimerRemaining;
+		},
 		get isPlaying() {
 			return machineState.state === 'playing';
 		},
@@ -352,6 +462,7 @@ export function createPlaybackMachineStore(initialQuality: AudioQuality = 'HIGH'
 			};
 		},
 		setAudioElement,
+		setStandbyAudioElement,
 		setLoadUiCallbacks,
 		maybePreloadNextTrack,
 		actions
@@ -397,12 +508,27 @@ const createPlaybackMachineStub = (initialQuality: AudioQuality = 'HIGH') => {
 		get replayGain() {
 			return context.replayGain;
 		},
+		get replayGainPeak() {
+			return context.replayGainPeak;
+		},
 		get quality() {
 			return context.quality;
 		},
 		get effectiveQuality() {
 			return context.effectiveQuality;
 		},
+		get repeatMode() {
+			return context.repeatMode;
+		},
+		get shuffleEnabled() {
+			return context.shuffleEnabled;
+		},
+		get sleepTimer() {
+			return context.sleepTimer;
+		},
+		get sleepTimerRemaining() {
+			return null;
+		},
 		get isPlaying() {
 			return false;
 		},
@@ -416,11 +542,17 @@ const createPlaybackMachineStub = (initialQuality: AudioQuality = 'HIGH') => {
 			return false;
 		},
 		setAudioElement: noop,
+		setStandbyAudioElement: noop,
 		setLoadUiCallbacks: noop,
 		maybePreloadNextTrack: noop,
 		actions: {
 			loadTrack: noop,
 			setQueue: noop,
+			shuffleQueue: noop,
+			unshuffleQueue: noop,
+			setRepeatMode: noop,
+			setSleepTimer: noop,
+			cancelSleepTimer: noop,
 			play: noop,
 			pause: noop,
 			reset: noop,
@@ -516,5 +648,6 @@ if (typeof window !== 'undefined' && testHooksEnabled) {
 		playbackMachine.actions.updateTime(hydrated.currentTime);
 		playbackMachine.actions.updateVolume(hydrated.volume);
 		playbackMachine.actions.updateMuted(hydrated.isMuted);
+		playbackMachine.actions.setRepeatMode(hydrated.repeatMode);
 	};
 }
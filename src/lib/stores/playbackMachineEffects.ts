@@ -1,10 +1,29 @@
 import { toasts } from '$lib/stores/toasts';
 import { convertSonglinkTrackToTidal } from '$lib/utils/trackConversion';
+import { resolveLocalTrackFile } from '$lib/utils/localTracks';
+import { NO_REPLAY_GAIN } from '$lib/utils/replayGain';
 import { isSonglinkTrack } from '$lib/types';
-import type { PlaybackEvent, SideEffect } from '$lib/machines/playbackMachine';
-import type { AudioQuality, Track, PlayableTrack } from '$lib/types';
+import {
+	resolveAdjacentQueueIndex,
+	type PlaybackEvent,
+	type RepeatMode,
+	type SideEffect
+} from '$lib/machines/playbackMachine';
+import type {
+	AppliedReplayGain,
+	AudioQuality,
+	LoudnessNormalizationMode,
+	Track,
+	PlayableTrack
+} from '$lib/types';
 import { trackError } from '$lib/core/errorTracker';
 import type { TrackLoadController } from '$lib/controllers/trackLoadController';
+import type { TrackTransitionPlan } from '$lib/controllers/playbackTransitions';
+import {
+	createStandbyAudioController,
+	type PreparedHandoff,
+	type StandbyAudioController
+} from '$lib/controllers/standbyAudioController';
 import {
 	createPlaybackFallbackController,
 	type PlaybackFallbackController
@@ -104,25 +123,33 @@ type PlaybackLoadUiCallbacks = {
 	setDashPlaybackActive?: (value: boolean) => void;
 	setSampleRate?: (value: number | null) => void;
 	setBitDepth?: (value: number | null) => void;
-	setReplayGain?: (value: number | null) => void;
+	setReplayGain?: (value: AppliedReplayGain) => void;
+	getNormalizationMode?: () => LoudnessNormalizationMode;
 	getSupportsLosslessPlayback?: () => boolean;
 	getStreamingFallbackQuality?: () => AudioQuality;
 	isHiResQuality?: (quality: AudioQuality | undefined) => boolean;
 	isFirefox?: () => boolean;
 	preloadThresholdSeconds?: number;
+	setActiveAudioElement?: (element: HTMLAudioElement) => void;
+	getOutputVolume?: (replayGain: AppliedReplayGain) => number;
+	planTransition?: (current: PlayableTrack, next: PlayableTrack) => TrackTransitionPlan;
 };
 
 export class PlaybackMachineSideEffectHandler {
 	private audioElement: HTMLAudioElement | null = null;
+	private standbyAudioElement: HTMLAudioElement | null = null;
 	private getCurrentTrack: (() => PlayableTrack | null) | null = null;
 	private getQueue: (() => PlayableTrack[]) | null = null;
 	private getQueueIndex: (() => number) | null = null;
 	private getPlaybackQuality: (() => AudioQuality) | null = null;
 	private getIsPlaying: (() => boolean) | null = null;
+	private getRepeatMode: (() => RepeatMode) | null = null;
+	private getStopsAfterCurrentTrack: (() => boolean) | null = null;
 	private loadUiCallbacks: PlaybackLoadUiCallbacks = {};
 	private trackLoadController: TrackLoadController | null = null;
 	private trackLoadControllerInit: Promise<void> | null = null;
 	private playbackFallbackController: PlaybackFallbackController | null = null;
+	private standbyAudioController: StandbyAudioController | null = null;
 	private dispatch: ((event: PlaybackEvent) => void) | null = null;
 	private currentTrackId: number | null = null;
 	private currentPlaybackQuality: AudioQuality | null = null;
@@ -147,12 +174,16 @@ export class PlaybackMachineSideEffectHandler {
 		getQueueIndex?: () => number;
 		getPlaybackQuality?: () => AudioQuality;
 		getIsPlaying?: () => boolean;
+		getRepeatMode?: () => RepeatMode;
+		getStopsAfterCurrentTrack?: () => boolean;
 	}) {
 		this.getCurrentTrack = options?.getCurrentTrack ?? null;
 		this.getQueue = options?.getQueue ?? null;
 		this.getQueueIndex = options?.getQueueIndex ?? null;
 		this.getPlaybackQuality = options?.getPlaybackQuality ?? null;
 		this.getIsPlaying = options?.getIsPlaying ?? null;
+		this.getRepeatMode = options?.getRepeatMode ?? null;
+		this.getStopsAfterCurrentTrack = options?.getStopsAfterCurrentTrack ?? null;
 	}
 
 	private getPlaybackStateSnapshot(): {
@@ -208,6 +239,8 @@ export class PlaybackMachineSideEffectHandler {
 			});
 			this.trackLoadController = null;
 			this.playbackFallbackController = null;
+			this.standbyAudioController?.reset();
+			this.standbyAudioController = null;
 		}
 		this.audioElement = element;
 		if (element && this.pendingLoad) {
@@ -241,12 +274,57 @@ export class PlaybackMachineSideEffectHandler {
 		}
 	}
 
+	setStandbyAudioElement(element: HTMLAudioElement | null) {
+		if (!element) {
+			this.standbyAudioController?.reset();
+		}
+		this.standbyAudioElement = element;
+	}
+
 	setLoadUiCallbacks(callbacks: PlaybackLoadUiCallbacks) {
 		this.loadUiCallbacks = callbacks;
 	}
 
 	maybePreloadNextTrack(remainingSeconds: number) {
 		this.trackLoadController?.maybePreloadNextTrack(remainingSeconds);
+		this.standbyAudioController?.update(remainingSeconds);
+	}
+
+	/**
+	 * Next track buffered on the standby element, ready to take over from the one that
+	 * just ended. Null when the transition should load the next track as usual.
+	 */
+	takePreparedHandoff(): PreparedHandoff | null {
+		return this.standbyAudioController?.takeHandoff() ?? null;
+	}
+
+	discardStandby() {
+		this.standbyAudioController?.reset();
+	}
+
+	private getUpcomingTransition() {
+		const current = this.getCurrentTrack?.() ?? null;
+		const planTransition = this.loadUiCallbacks.planTransition;
+		const repeatMode = this.getRepeatMode?.() ?? 'off';
+		// Nothing to buffer when a sleep timer ends playback with this track.
+		if (
+			!current ||
+			!planTransition ||
+			repeatMode === 'one' ||
+			this.getStopsAfterCurrentTrack?.()
+		) {
+			return null;
+		}
+		const queue = this.getQueue?.() ?? [];
+		const queueIndex = resolveAdjacentQueueIndex(
+			{ queue, queueIndex: this.getQueueIndex?.() ?? -1, repeatMode },
+			1
+		);
+		const track = queueIndex >= 0 ? queue[queueIndex] : undefined;
+		if (!track) {
+			return null;
+		}
+		return { queueIndex, track, plan: planTransition(current, track) };
 	}
 
 	private async ensureLoadControllers() {
@@ -297,6 +375,7 @@ export class PlaybackMachineSideEffectHandler {
 			setSampleRate: (value) => this.loadUiCallbacks.setSampleRate?.(value),
 			setBitDepth: (value) => this.loadUiCallbacks.setBitDepth?.(value),
 			setReplayGain: (value) => this.loadUiCallbacks.setReplayGain?.(value),
+			getNormalizationMode: () => this.loadUiCallbacks.getNormalizationMode?.() ?? 'track',
 			isAttemptCurrent: (attemptId: string) => !this.isStaleAttempt(attemptId),
 			isHiResQuality: hiResCheck,
 			preloadThresholdSeconds: preloadThreshold,
@@ -305,6 +384,7 @@ export class PlaybackMachineSideEffectHandler {
 			getStreamingFallbackQuality: () =>
 				this.loadUiCallbacks.getStreamingFallbackQuality?.() ??
 				(this.loadUiCallbacks.isFirefox?.() ? 'LOW' : 'HIGH'),
+			resolveLocalFile: resolveLocalTrackFile,
 			onLoadComplete: (url, quality) => {
 				const wasFallback = this.resumeAfterFallback;
 				if (this.resumeAfterFallback) {
@@ -341,6 +421,17 @@ export class PlaybackMachineSideEffectHandler {
 			}
 		});
 
+		this.standbyAudioController = createStandbyAudioController({
+			getActiveElement: () => this.audioElement,
+			getStandbyElement: () => this.standbyAudioElement,
+			getUpcoming: () => this.getUpcomingTransition(),
+			resolveStream: async (track) =>
+				(await this.trackLoadController?.resolveStandbyStream(track)) ?? null,
+			getOutputVolume: (replayGain) =>
+				this.loadUiCallbacks.getOutputVolume?.(replayGain) ?? this.audioElement?.volume ?? 1,
+			preloadThresholdSeconds: preloadThreshold
+		});
+
 		this.playbackFallbackController = createPlaybackFallbackController({
 			getCurrentTrack: () => this.getCurrentTrack?.() ?? null,
 			getPlayerQuality: () => this.getPlaybackQuality?.() ?? 'HIGH',
@@ -463,6 +554,7 @@ export class PlaybackMachineSideEffectHandler {
 			}
 
 			case 'LOAD_STREAM': {
+				this.standbyAudioController?.reset();
 				this.requestedQuality = effect.quality;
 				this.currentTrackId = effect.track.id;
 				this.currentPlaybackQuality = null;
@@ -547,6 +639,45 @@ export class PlaybackMachineSideEffectHandler {
 				break;
 			}
 
+			case 'SWAP_AUDIO_ELEMENT': {
+				const incoming = this.standbyAudioElement;
+				const outgoing = this.audioElement;
+				if (!incoming || !outgoing) {
+					break;
+				}
+				this.audioElement = incoming;
+				this.standbyAudioElement = outgoing;
+				outgoing.pause();
+				outgoing.removeAttribute('src');
+				outgoing.load();
+				delete outgoing.dataset.playbackAttemptId;
+				incoming.dataset.playbackAttemptId = effect.attemptId;
+				if (this.dashPlaybackActive) {
+					// Shaka stays attached to the element that just finished.
+					void this.trackLoadController?.destroy();
+				}
+
+				this.currentTrackId = effect.track.id;
+				this.currentPlaybackQuality = effect.stream.quality;
+				this.dashPlaybackActive = false;
+				this.pendingPlay = false;
+				this.playbackFallbackController?.resetForTrack(effect.track.id);
+				this.playbackOpLogger = startPlaybackOperation(effect.track.id, {
+					trackTitle: effect.track.title,
+					requestedQuality: this.requestedQuality ?? effect.stream.quality,
+					quality: effect.stream.quality,
+					attemptId: effect.attemptId
+				});
+				this.playbackOpLogger.loadComplete(effect.stream.quality, effect.stream.url);
+
+				this.loadUiCallbacks.setActiveAudioElement?.(incoming);
+				this.loadUiCallbacks.setDashPlaybackActive?.(false);
+				this.loadUiCallbacks.setStreamUrl?.(effect.stream.url);
+				this.loadUiCallbacks.setBufferedPercent?.(0);
+				this.loadUiCallbacks.setCurrentPlaybackQuality?.(effect.stream.quality);
+				break;
+			}
+
 			case 'PLAY_AUDIO': {
 				if (this.audioElement) {
 					if (!this.audioElement.src) {
@@ -562,6 +693,7 @@ export class PlaybackMachineSideEffectHandler {
 			}
 
 			case 'PAUSE_AUDIO': {
+				this.standbyAudioController?.cancelFade();
 				if (this.audioElement) {
 					this.playbackOpLogger?.paused();
 					this.audioElement.pause();
@@ -570,6 +702,7 @@ export class PlaybackMachineSideEffectHandler {
 			}
 
 			case 'RESET_AUDIO': {
+				this.standbyAudioController?.reset();
 				this.pendingPlay = false;
 				this.pendingLoad = null;
 				this.resumeAfterFallback = false;
@@ -587,7 +720,7 @@ export class PlaybackMachineSideEffectHandler {
 				this.loadUiCallbacks.setCurrentPlaybackQuality?.(null);
 				this.loadUiCallbacks.setSampleRate?.(null);
 				this.loadUiCallbacks.setBitDepth?.(null);
-				this.loadUiCallbacks.setReplayGain?.(null);
+				this.loadUiCallbacks.setReplayGain?.(NO_REPLAY_GAIN);
 				if (this.audioElement) {
 					this.audioElement.pause();
 					this.audioElement.removeAttribute('src');
@@ -598,6 +731,7 @@ export class PlaybackMachineSideEffectHandler {
 			}
 
 			case 'SEEK_AUDIO': {
+				this.standbyAudioController?.cancelFade();
 				if (this.audioElement) {
 					this.playbackOpLogger?.seeked(effect.position);
 					this.audioElement.currentTime = effect.position;
@@ -611,6 +745,7 @@ export class PlaybackMachineSideEffectHandler {
 			}
 
 			case 'HANDLE_AUDIO_ERROR': {
+				this.standbyAudioController?.reset();
 				// Validate attemptId before processing audio error
 				if (this.isStaleAttempt(effect.attemptId)) {
 					this.playbackOpLogger?.debug('Ignoring audio error from stale attempt', {
@@ -8,6 +8,7 @@
 import { derived, readable, type Readable } from 'svelte/store';
 import { playbackMachine } from './playbackMachine.svelte';
 import type { AudioQuality, PlayableTrack } from '$lib/types';
+import type { RepeatMode, SleepTimer } from '$lib/machines/playbackMachine';
 
 /**
  * Create a readable store that tracks a getter from playbackMachine.
@@ -137,6 +138,13 @@ export const machineReplayGain: Readable<number | null> = createMachineStore(
 	() => playbackMachine.replayGain
 );
 
+/**
+ * Peak amplitude matching the replay gain, used to prevent clipping
+ */
+export const machineReplayGainPeak: Readable<number | null> = createMachineStore(
+	() => playbackMachine.replayGainPeak
+);
+
 /**
  * Queue of tracks
  */
@@ -151,6 +159,34 @@ export const machineQueueIndex: Readable<number> = createMachineStore(
 	() => playbackMachine.context.queueIndex
 );
 
+/**
+ * Repeat mode (off / one / all)
+ */
+export const machineRepeatMode: Readable<RepeatMode> = createMachineStore(
+	() => playbackMachine.repeatMode
+);
+
+/**
+ * Whether the queue is currently shuffled
+ */
+export const machineShuffleEnabled: Readable<boolean> = createMachineStore(
+	() => playbackMachine.shuffleEnabled
+);
+
+/**
+ * Pending sleep timer, if any
+ */
+export const machineSleepTimer: Readable<SleepTimer | null> = createMachineStore(
+	() => playbackMachine.sleepTimer
+);
+
+/**
+ * Seconds left before the sleep timer stops playback
+ */
+export const machineSleepTimerRemaining: Readable<number | null> = createMachineStore(
+	() => playbackMachine.sleepTimerRemaining
+);
+
 /**
  * Full playback snapshot for controllers that need multiple fields.
  */
@@ -200,12 +236,15 @@ export const machinePlaybackInfo = derived(
  * Queue info for queue panel
  */
 export const machineQueueInfo = derived(
-	[machineQueue, machineQueueIndex, machineCurrentTrack],
-	([$queue, $index, $currentTrack]) => ({
-		queue: $queue,
-		queueIndex: $index,
-		currentTrack: $currentTrack,
-		hasNext: $index < $queue.length - 1,
-		hasPrevious: $index > 0
-	})
+	[machineQueue, machineQueueIndex, machineCurrentTrack, machineRepeatMode],
+	([$queue, $index, $currentTrack, $repeatMode]) => {
+		const wraps = $repeatMode === 'all' && $queue.length > 1;
+		return {
+			queue: $queue,
+			queueIndex: $index,
+			currentTrack: $currentTrack,
+			hasNext: wraps || $index < $queue.length - 1,
+			hasPrevious: wraps || $index > 0
+		};
+	}
 );
@@ -1,28 +1,41 @@
 /**
- * Server queue store - polls the queue dashboard projection for real-time queue status
+ * Server queue store - follows the queue event stream and refreshes the dashboard projection,
+ * falling back to polling while the stream is down
  */
 
 import { writable, derived } from 'svelte/store';
 import {
+	openQueueEventStream,
 	queueClient,
+	type QueueBatchSummary,
 	type QueueDashboardPayload,
+	type QueueEvent,
+	type QueueEventStream,
 	type QueueJobRecord,
 	type QueueMetrics,
+	type QueueScheduleStatus,
 	type QueueStats,
 	type QueueWorkerStatus
 } from '$lib/clients/queueClient';
-import { createAdaptivePollingController } from '$lib/utils/adaptivePolling';
+import {
+	createAdaptivePollingController,
+	type AdaptivePollingController
+} from '$lib/utils/adaptivePolling';
 
 export interface ServerQueueState {
 	jobs: QueueJobRecord[];
 	queue: QueueStats;
 	metrics: QueueMetrics;
 	worker: QueueWorkerStatus;
+	schedule?: QueueScheduleStatus;
+	batches?: QueueBatchSummary[];
 	queueSource?: 'redis' | 'memory';
 	lastUpdated: number;
 	lastAttemptAt: number;
 	nextPollAt: number;
 	pollIntervalMs: number;
+	// True while the event stream is connected and polling is only a slow safety refresh
+	liveUpdates: boolean;
 	pollingError?: string;
 	backendError?: string;
 	backendWarning?: string;
@@ -64,36 +77,156 @@ const initialState: ServerQueueState = {
 	lastUpdated: 0,
 	lastAttemptAt: 0,
 	nextPollAt: 0,
-	pollIntervalMs: 500
+	pollIntervalMs: 500,
+	liveUpdates: false
 };
 
+// While streaming, a full refresh still picks up metrics and anything an event missed
+const STREAM_REFRESH_INTERVAL_MS = 15_000;
+const STREAM_RETRY_MS = 30_000;
+// Bursts of job events (a batch being queued) coalesce into one dashboard refresh
+const EVENT_REFRESH_DELAY_MS = 750;
+
+function summarizeJobs(jobs: QueueJobRecord[]): QueueStats {
+	return {
+		queued: jobs.filter((job) => job.status === 'queued').length,
+		processing: jobs.filter((job) => job.status === 'processing').length,
+		paused: jobs.filter((job) => job.status === 'paused').length,
+		completed: jobs.filter((job) => job.status === 'completed').length,
+		failed: jobs.filter((job) => job.status === 'failed').length,
+		total: jobs.length
+	};
+}
+
+function applyQueueEvent(jobs: QueueJobRecord[], event: QueueEvent): QueueJobRecord[] {
+	if (event.type === 'removed') {
+		return jobs.filter((job) => job.id !== event.jobId);
+	}
+	const updated = event.job;
+	if (!updated) {
+		return jobs;
+	}
+	const index = jobs.findIndex((job) => job.id === event.jobId);
+	if (index === -1) {
+		return [...jobs, updated];
+	}
+	const next = [...jobs];
+	next[index] = updated;
+	return next;
+}
+
 // Create the store
 function createServerQueueStore() {
 	const { subscribe, update } = writable<ServerQueueState>(initialState);
 
 	let pollingIntervalMs = 500;
 	let pollInFlight = false;
-	let adaptivePoller = createAdaptivePollingController({
-		run: async () => {
-			await poll();
-		},
-		visibleIntervalMs: pollingIntervalMs,
-		hiddenIntervalMs: Math.max(5_000, pollingIntervalMs * 10),
-		pauseWhenHidden: false,
-		onSchedule: (nextPollAt, intervalMs) => {
-			update((state) => ({
-				...state,
-				nextPollAt,
-				pollIntervalMs: intervalMs
-			}));
-		},
-		onPaused: () => {
-			update((state) => ({
-				...state,
-				nextPollAt: 0
-			}));
+	let active = false;
+	let adaptivePoller: AdaptivePollingController | null = null;
+	let stream: QueueEventStream | null = null;
+	let streamLive = false;
+	let streamLastEventId: string | null = null;
+	let streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+	let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+	function restartPoller(intervalMs: number, immediate = true): void {
+		adaptivePoller?.stop();
+		adaptivePoller = createAdaptivePollingController({
+			run: async () => {
+				await poll();
+			},
+			visibleIntervalMs: intervalMs,
+			hiddenIntervalMs: Math.max(5_000, intervalMs * 10),
+			pauseWhenHidden: false,
+			immediate,
+			onSchedule: (nextPollAt, effectiveIntervalMs) => {
+				update((state) => ({
+					...state,
+					pollIntervalMs: effectiveIntervalMs,
+					nextPollAt
+				}));
+			},
+			onPaused: () => {
+				update((state) => ({
+					...state,
+					nextPollAt: 0
+				}));
+			}
+		});
+		adaptivePoller.start();
+	}
+
+	function scheduleRefresh(): void {
+		if (refreshTimer) {
+			return;
+		}
+		refreshTimer = setTimeout(() => {
+			refreshTimer = null;
+			void poll();
+		}, EVENT_REFRESH_DELAY_MS);
+	}
+
+	function currentIntervalMs(): number {
+		return streamLive ? STREAM_REFRESH_INTERVAL_MS : pollingIntervalMs;
+	}
+
+	function setStreamLive(live: boolean): void {
+		if (!active || streamLive === live) {
+			return;
+		}
+		streamLive = live;
+		update((state) => ({ ...state, liveUpdates: live }));
+		if (live) {
+			restartPoller(STREAM_REFRESH_INTERVAL_MS, false);
+		} else {
+			restartPoller(pollingIntervalMs);
+		}
+	}
+
+	function handleQueueEvent(event: QueueEvent): void {
+		update((state) => {
+			const jobs = applyQueueEvent(state.jobs, event);
+			return { ...state, jobs, queue: summarizeJobs(jobs), lastUpdated: Date.now() };
+		});
+		// Progress only moves counters; anything else can change metrics, batches and the worker
+		if (event.type !== 'progress') {
+			scheduleRefresh();
 		}
-	});
+	}
+
+	function closeStream(): void {
+		if (streamRetryTimer) {
+			clearTimeout(streamRetryTimer);
+			streamRetryTimer = null;
+		}
+		if (stream) {
+			streamLastEventId = stream.lastEventId();
+			stream.close();
+			stream = null;
+		}
+	}
+
+	function connectStream(): void {
+		closeStream();
+		stream = openQueueEventStream(
+			{
+				onOpen: () => setStreamLive(true),
+				onEvent: handleQueueEvent,
+				onReset: () => {
+					void poll();
+				},
+				onError: (closed) => {
+					setStreamLive(false);
+					// EventSource gives up on HTTP errors; try again later and poll meanwhile
+					if (closed && active) {
+						closeStream();
+						streamRetryTimer = setTimeout(connectStream, STREAM_RETRY_MS);
+					}
+				}
+			},
+			streamLastEventId
+		);
+	}
 
 	async function poll() {
 		if (pollInFlight) {
@@ -114,8 +247,9 @@ function createServerQueueStore() {
 					...data,
 					lastUpdated: Date.now(),
 					lastAttemptAt: attemptAt,
-					nextPollAt: Date.now() + pollingIntervalMs,
-					pollIntervalMs: pollingIntervalMs,
+					nextPollAt: Date.now() + currentIntervalMs(),
+					pollIntervalMs: currentIntervalMs(),
+					liveUpdates: streamLive,
 					pollingError: undefined,
 					backendError: undefined,
 					backendWarning: data.warning,
@@ -126,8 +260,8 @@ function createServerQueueStore() {
 				update((state) => ({
 					...state,
 					lastAttemptAt: attemptAt,
-					nextPollAt: Date.now() + pollingIntervalMs,
-					pollIntervalMs: pollingIntervalMs,
+					nextPollAt: Date.now() + currentIntervalMs(),
+					pollIntervalMs: currentIntervalMs(),
 					backendError: (data as QueueDashboardPayload).error || 'Queue polling failed',
 					pollingError: undefined,
 					backendWarning: (data as QueueDashboardPayload).warning,
@@ -140,8 +274,8 @@ function createServerQueueStore() {
 			update((state) => ({
 				...state,
 				lastAttemptAt: attemptAt,
-				nextPollAt: Date.now() + pollingIntervalMs,
-				pollIntervalMs: pollingIntervalMs,
+				nextPollAt: Date.now() + currentIntervalMs(),
+				pollIntervalMs: currentIntervalMs(),
 				pollingError: message,
 				backendError: undefined,
 				backendWarning: undefined,
@@ -157,40 +291,30 @@ function createServerQueueStore() {
 		subscribe,
 		startPolling: (intervalMs: number = 500) => {
 			pollingIntervalMs = intervalMs;
-			adaptivePoller.stop();
-			adaptivePoller = createAdaptivePollingController({
-				run: async () => {
-					await poll();
-				},
-				visibleIntervalMs: pollingIntervalMs,
-				hiddenIntervalMs: Math.max(5_000, pollingIntervalMs * 10),
-				pauseWhenHidden: false,
-				onSchedule: (nextPollAt, effectiveIntervalMs) => {
-					update((state) => ({
-						...state,
-						pollIntervalMs: effectiveIntervalMs,
-						nextPollAt
-					}));
-				},
-				onPaused: () => {
-					update((state) => ({
-						...state,
-						nextPollAt: 0
-					}));
-				}
-			});
+			active = true;
+			streamLive = false;
 			update((state) => ({
 				...state,
 				pollIntervalMs: intervalMs,
-				nextPollAt: Date.now() + intervalMs
+				nextPollAt: Date.now() + intervalMs,
+				liveUpdates: false
 			}));
-			adaptivePoller.start();
+			restartPoller(intervalMs);
+			connectStream();
 		},
 		stopPolling: () => {
-			adaptivePoller.stop();
+			active = false;
+			streamLive = false;
+			closeStream();
+			if (refreshTimer) {
+				clearTimeout(refreshTimer);
+				refreshTimer = null;
+			}
+			adaptivePoller?.stop();
 			update((state) => ({
 				...state,
-				nextPollAt: 0
+				nextPollAt: 0,
+				liveUpdates: false
 			}));
 		},
 		poll
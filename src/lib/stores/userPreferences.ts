@@ -1,13 +1,23 @@
 import { browser } from '$app/environment';
 import { writable } from 'svelte/store';
-import type { AudioQuality } from '../types';
+import type { AudioQuality, LoudnessNormalizationMode } from '../types';
 import { type PerformanceLevel } from '../utils/performance';
+import { clampPreampDb } from '../utils/replayGain';
+import {
+	createDefaultDspSettings,
+	normalizeDspSettings,
+	OUTPUT_PROFILES,
+	type DspSettings,
+	type OutputProfileId
+} from '../utils/equalizer';
 import { getSessionStorageKey } from '$lib/core/session';
 import { debouncedSave, loadFromStorage } from '../utils/persistence';
 import { areTestHooksEnabled } from '$lib/utils/testHooks';
 
 export type PerformanceMode = 'medium' | 'low';
 
+export const MAX_CROSSFADE_SECONDS = 12;
+
 export interface UserPreferencesState {
 	playbackQuality: AudioQuality;
 	convertAacToMp3: boolean;
@@ -15,6 +25,20 @@ export interface UserPreferencesState {
 	experimentalMusicBrainzTagging: boolean;
 	strictMusicBrainzMatching: boolean;
 	performanceMode: PerformanceMode;
+	// Seamless hand-off between consecutive tracks of the same album
+	gaplessPlayback: boolean;
+	// Overlap between unrelated tracks; 0 disables crossfade
+	crossfadeSeconds: number;
+	// Which ReplayGain value levels playback
+	normalizationMode: LoudnessNormalizationMode;
+	// Extra gain in dB on top of ReplayGain, limited by the track/album peak
+	replayGainPreampDb: number;
+	// Web Audio EQ/DSP chain, toggled from the player
+	dspEnabled: boolean;
+	outputProfile: OutputProfileId;
+	dspProfiles: Record<OutputProfileId, DspSettings>;
+	// Push play events to /api/listening-history and pull other devices' plays
+	syncListeningHistory: boolean;
 }
 
 const STORAGE_KEY = 'user-preferences';
@@ -24,13 +48,53 @@ const DEFAULT_STATE: UserPreferencesState = {
 	downloadCoversSeperately: false,
 	experimentalMusicBrainzTagging: true,
 	strictMusicBrainzMatching: false,
-	performanceMode: 'low'
+	performanceMode: 'low',
+	gaplessPlayback: true,
+	crossfadeSeconds: 0,
+	normalizationMode: 'track',
+	replayGainPreampDb: 0,
+	dspEnabled: false,
+	outputProfile: 'speakers',
+	dspProfiles: {
+		speakers: createDefaultDspSettings(),
+		headphones: createDefaultDspSettings()
+	},
+	syncListeningHistory: false
 };
 
 function normalizePerformanceMode(value: unknown): PerformanceMode {
 	return value === 'medium' ? 'medium' : 'low';
 }
 
+function normalizeCrossfadeSeconds(value: unknown): number {
+	if (typeof value !== 'number' || !Number.isFinite(value)) {
+		return DEFAULT_STATE.crossfadeSeconds;
+	}
+	return Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, Math.round(value)));
+}
+
+function normalizeNormalizationMode(value: unknown): LoudnessNormalizationMode {
+	return value === 'off' || value === 'album' ? value : DEFAULT_STATE.normalizationMode;
+}
+
+function normalizePreampDb(value: unknown): number {
+	return typeof value === 'number' ? clampPreampDb(value) : DEFAULT_STATE.replayGainPreampDb;
+}
+
+function normalizeOutputProfile(value: unknown): OutputProfileId {
+	return OUTPUT_PROFILES.some((profile) => profile.id === value)
+		? (value as OutputProfileId)
+		: DEFAULT_STATE.outputProfile;
+}
+
+function normalizeDspProfiles(value: unknown): Record<OutputProfileId, DspSettings> {
+	const raw = (value ?? {}) as Partial<Record<OutputProfileId, unknown>>;
+	return {
+		speakers: normalizeDspSettings(raw.speakers),
+		headphones: normalizeDspSettings(raw.headphones)
+	};
+}
+
 function normalizePlaybackQuality(value: unknown): AudioQuality {
 	if (
 		value === 'HI_RES_LOSSLESS' ||
@@ -51,7 +115,15 @@ function normalizePreferences(value: unknown): UserPreferencesState {
 		downloadCoversSeperately: raw?.downloadCoversSeperately === true,
 		experimentalMusicBrainzTagging: raw?.experimentalMusicBrainzTagging !== false,
 		strictMusicBrainzMatching: raw?.strictMusicBrainzMatching === true,
-		performanceMode: normalizePerformanceMode(raw?.performanceMode)
+		performanceMode: normalizePerformanceMode(raw?.performanceMode),
+		gaplessPlayback: raw?.gaplessPlayback !== false,
+		crossfadeSeconds: normalizeCrossfadeSeconds(raw?.crossfadeSeconds),
+		normalizationMode: normalizeNormalizationMode(raw?.normalizationMode),
+		replayGainPreampDb: normalizePreampDb(raw?.replayGainPreampDb),
+		dspEnabled: raw?.dspEnabled === true,
+		outputProfile: normalizeOutputProfile(raw?.outputProfile),
+		dspProfiles: normalizeDspProfiles(raw?.dspProfiles),
+		syncListeningHistory: raw?.syncListeningHistory === true
 	};
 }
 
@@ -163,6 +235,59 @@ const createUserPreferencesStore = () => {
 				return { ...state, performanceMode: mode };
 			});
 		},
+		toggleGaplessPlayback() {
+			update((state) => ({ ...state, gaplessPlayback: !state.gaplessPlayback }));
+		},
+		setCrossfadeSeconds(seconds: number) {
+			update((state) => {
+				const crossfadeSeconds = normalizeCrossfadeSeconds(seconds);
+				if (state.crossfadeSeconds === crossfadeSeconds) {
+					return state;
+				}
+				return { ...state, crossfadeSeconds };
+			});
+		},
+		setNormalizationMode(mode: LoudnessNormalizationMode) {
+			update((state) => {
+				if (state.normalizationMode === mode) {
+					return state;
+				}
+				return { ...state, normalizationMode: mode };
+			});
+		},
+		setReplayGainPreampDb(value: number) {
+			update((state) => {
+				const replayGainPreampDb = normalizePreampDb(value);
+				if (state.replayGainPreampDb === replayGainPreampDb) {
+					return state;
+				}
+				return { ...state, replayGainPreampDb };
+			});
+		},
+		toggleDsp() {
+			update((state) => ({ ...state, dspEnabled: !state.dspEnabled }));
+		},
+		setOutputProfile(profile: OutputProfileId) {
+			update((state) => {
+				if (state.outputProfile === profile) {
+					return state;
+				}
+				return { ...state, outputProfile: profile };
+			});
+		},
+		// Replaces the DSP settings of the active output profile
+		setDspSettings(settings: DspSettings) {
+			update((state) => ({
+				...state,
+				dspProfiles: {
+					...state.dspProfiles,
+					[state.outputProfile]: normalizeDspSettings(settings)
+				}
+			}));
+		},
+		toggleListeningHistorySync() {
+			update((state) => ({ ...state, syncListeningHistory: !state.syncListeningHistory }));
+		},
 		getEffectivePerformanceLevel(): PerformanceLevel {
 			// Read current store state instead of localStorage
 			let currentState: UserPreferencesState | undefined;
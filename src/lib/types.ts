@@ -207,6 +207,28 @@ export interface Lyrics {
 
 export type AudioQuality = 'HI_RES_LOSSLESS' | 'LOSSLESS' | 'HIGH' | 'LOW';
 
+export type LoudnessNormalizationMode = 'off' | 'track' | 'album';
+
+/**
+ * ReplayGain values for one track. Gains are in dB, peaks are linear sample amplitudes
+ * where 1.0 is full scale.
+ */
+export interface ReplayGainInfo {
+	trackGain: number | null;
+	trackPeak: number | null;
+	albumGain: number | null;
+	albumPeak: number | null;
+}
+
+/**
+ * Gain picked for playback under a normalization mode, before the user's pre-amp
+ */
+export interface AppliedReplayGain {
+	mode: LoudnessNormalizationMode;
+	gain: number | null;
+	peak: number | null;
+}
+
 export interface StreamData {
 	url: string;
 	replayGain?: number | null;
@@ -302,10 +324,36 @@ export interface SonglinkTrack {
 	audioQuality: 'LOSSLESS';
 }
 
+/**
+ * A file in the server's media library, streamed from /api/media-library/stream/[fileId]
+ */
+export interface LocalTrackFile {
+	fileId: string;
+	// Upper-case container format, e.g. "FLAC"
+	format: string;
+	// Null when the file carries no stream properties to classify
+	quality: AudioQuality | null;
+	sampleRate?: number;
+	bitDepth?: number;
+	// From the file's REPLAYGAIN_* tags
+	replayGain?: ReplayGainInfo;
+}
+
+/**
+ * Represents a track played from the server's media library instead of a TIDAL stream.
+ * Keeps the TIDAL track shape so player UI renders it unchanged; files without an
+ * embedded TIDAL id get a negative placeholder id.
+ */
+export interface LocalTrack extends Track {
+	localFile: LocalTrackFile;
+	// Flag to identify this as a local library track
+	isLocalTrack: true;
+}
+
 /**
  * Union type for tracks that can be played
  */
-export type PlayableTrack = Track | SonglinkTrack;
+export type PlayableTrack = Track | SonglinkTrack | LocalTrack;
 
 /**
  * Type guard to check if a track is a SonglinkTrack
@@ -313,3 +361,10 @@ export type PlayableTrack = Track | SonglinkTrack;
 export function isSonglinkTrack(track: PlayableTrack): track is SonglinkTrack {
 	return 'isSonglinkTrack' in track && track.isSonglinkTrack === true;
 }
+
+/**
+ * Type guard to check if a track is a LocalTrack
+ */
+export function isLocalTrack(track: PlayableTrack): track is LocalTrack {
+	return 'isLocalTrack' in track && track.isLocalTrack === true;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+	applyEqPreset,
+	createDefaultDspSettings,
+	describeDspChain,
+	EQ_BAND_FREQUENCIES,
+	EQ_DEFAULT_Q,
+	normalizeDspSettings,
+	updateEqBand
+} from './equalizer';
+
+describe('equalizer', () => {
+	it('normalizes persisted settings into ten clamped bands', () => {
+		const settings = normalizeDspSettings({
+			presetId: 'unknown',
+			bands: [{ frequency: 40, gain: 30, q: 50 }, { gain: 'loud' }],
+			preampDb: -40,
+			mono: 'yes',
+			balance: 3
+		});
+		expect(settings.presetId).toBe('flat');
+		expect(settings.bands).toHaveLength(EQ_BAND_FREQUENCIES.length);
+		expect(settings.bands[0]).toEqual({ frequency: 40, gain: 12, q: 10 });
+		expect(settings.bands[1]).toEqual({ frequency: 62, gain: 0, q: EQ_DEFAULT_Q });
+		expect(settings.preampDb).toBe(-12);
+		expect(settings.mono).toBe(false);
+		expect(settings.balance).toBe(1);
+		expect(normalizeDspSettings(undefined)).toEqual(createDefaultDspSettings());
+	});
+
+	it('applies presets and marks manual band edits as custom', () => {
+		const boosted = applyEqPreset(createDefaultDspSettings(), 'bass-boost');
+		expect(boosted.presetId).toBe('bass-boost');
+		expect(boosted.bands[0].gain).toBe(6);
+
+		const edited = updateEqBand(boosted, 9, { gain: 3, q: 0.01 });
+		expect(edited.presetId).toBe('custom');
+		expect(edited.bands[9]).toEqual({ frequency: 16000, gain: 3, q: 0.3 });
+		expect(edited.bands[0]).toEqual(boosted.bands[0]);
+	});
+
+	it('describes only the stages that change the signal', () => {
+		expect(describeDspChain(createDefaultDspSettings(), { reduced: false })).toEqual([]);
+
+		const settings = {
+			...applyEqPreset(createDefaultDspSettings(), 'vocal'),
+			preampDb: -3,
+			mono: true,
+			balance: -0.25
+		};
+		expect(describeDspChain(settings, { reduced: false })).toEqual([
+			'EQ Vocal',
+			'-3 dB',
+			'Mono',
+			'Bal L25'
+		]);
+		expect(describeDspChain(settings, { reduced: true })[0]).toBe('EQ Vocal (bypassed)');
+		expect(describeDspChain(updateEqBand(settings, 0, { gain: 1 }), { reduced: false })[0]).toBe(
+			'EQ Custom'
+		);
+	});
+});
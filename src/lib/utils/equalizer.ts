@@ -0,0 +1,150 @@
+/**
+ * Player DSP settings: a 10-band parametric EQ, a pre-amp and mono/balance, stored per
+ * output profile. Everything here is plain data so preferences can persist and normalize it;
+ * the Web Audio graph lives in audioDspController.
+ */
+
+export type OutputProfileId = 'speakers' | 'headphones';
+
+export type EqPresetId =
+	| 'flat'
+	| 'bass-boost'
+	| 'treble-boost'
+	| 'vocal'
+	| 'loudness'
+	| 'classical'
+	| 'custom';
+
+export type EqBand = {
+	frequency: number;
+	gain: number;
+	q: number;
+};
+
+export type DspSettings = {
+	presetId: EqPresetId;
+	bands: EqBand[];
+	preampDb: number;
+	mono: boolean;
+	// -1 is full left, 1 full right
+	balance: number;
+};
+
+export const EQ_BAND_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_GAIN_LIMIT_DB = 12;
+export const EQ_MIN_Q = 0.3;
+export const EQ_MAX_Q = 10;
+// Roughly one octave wide, which keeps neighbouring bands overlapping smoothly
+export const EQ_DEFAULT_Q = 1.41;
+
+export const OUTPUT_PROFILES: Array<{ id: OutputProfileId; label: string }> = [
+	{ id: 'speakers', label: 'Speakers' },
+	{ id: 'headphones', label: 'Headphones' }
+];
+
+export const EQ_PRESETS: Array<{
+	id: Exclude<EqPresetId, 'custom'>;
+	label: string;
+	gains: number[];
+}> = [
+	{ id: 'flat', label: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+	{ id: 'bass-boost', label: 'Bass boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+	{ id: 'treble-boost', label: 'Treble boost', gains: [0, 0, 0, 0, 0, 0, 2, 4, 5, 6] },
+	{ id: 'vocal', label: 'Vocal', gains: [-2, -2, -1, 1, 3, 3, 2, 1, 0, -1] },
+	{ id: 'loudness', label: 'Loudness', gains: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5] },
+	{ id: 'classical', label: 'Classical', gains: [0, 0, 0, 0, 0, 0, -1, -2, -2, -3] }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const finiteOr = (value: unknown, fallback: number): number =>
+	typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export const buildPresetBands = (presetId: Exclude<EqPresetId, 'custom'>): EqBand[] => {
+	const preset = EQ_PRESETS.find((candidate) => candidate.id === presetId) ?? EQ_PRESETS[0];
+	return EQ_BAND_FREQUENCIES.map((frequency, index) => ({
+		frequency,
+		gain: preset.gains[index],
+		q: EQ_DEFAULT_Q
+	}));
+};
+
+export const createDefaultDspSettings = (): DspSettings => ({
+	presetId: 'flat',
+	bands: buildPresetBands('flat'),
+	preampDb: 0,
+	mono: false,
+	balance: 0
+});
+
+const normalizeBand = (value: unknown, index: number): EqBand => {
+	const raw = (value ?? {}) as Partial<EqBand>;
+	return {
+		frequency: clamp(finiteOr(raw.frequency, EQ_BAND_FREQUENCIES[index]), 20, 20000),
+		gain: clamp(finiteOr(raw.gain, 0), -EQ_GAIN_LIMIT_DB, EQ_GAIN_LIMIT_DB),
+		q: clamp(finiteOr(raw.q, EQ_DEFAULT_Q), EQ_MIN_Q, EQ_MAX_Q)
+	};
+};
+
+export const normalizeDspSettings = (value: unknown): DspSettings => {
+	const raw = (value ?? {}) as Partial<DspSettings>;
+	const bands = Array.isArray(raw.bands) ? raw.bands : [];
+	const presetId =
+		raw.presetId === 'custom' || EQ_PRESETS.some((preset) => preset.id === raw.presetId)
+			? (raw.presetId as EqPresetId)
+			: 'flat';
+	return {
+		presetId,
+		bands: EQ_BAND_FREQUENCIES.map((_, index) => normalizeBand(bands[index], index)),
+		preampDb: clamp(finiteOr(raw.preampDb, 0), -EQ_GAIN_LIMIT_DB, EQ_GAIN_LIMIT_DB),
+		mono: raw.mono === true,
+		balance: clamp(finiteOr(raw.balance, 0), -1, 1)
+	};
+};
+
+export const applyEqPreset = (
+	settings: DspSettings,
+	presetId: Exclude<EqPresetId, 'custom'>
+): DspSettings => ({ ...settings, presetId, bands: buildPresetBands(presetId) });
+
+// Any manual band edit turns the curve into a custom one.
+export const updateEqBand = (
+	settings: DspSettings,
+	index: number,
+	patch: Partial<EqBand>
+): DspSettings =>
+	normalizeDspSettings({
+		...settings,
+		presetId: 'custom',
+		bands: settings.bands.map((band, bandIndex) =>
+			bandIndex === index ? { ...band, ...patch } : band
+		)
+	});
+
+/**
+ * Short labels for the DSP stages that actually change the signal. Low performance mode
+ * keeps the pre-amp and mono/balance but bypasses the EQ filters.
+ */
+export const describeDspChain = (
+	settings: DspSettings,
+	options: { reduced: boolean }
+): string[] => {
+	const stages: string[] = [];
+	const eqActive = settings.bands.some((band) => band.gain !== 0);
+	if (eqActive) {
+		const preset = EQ_PRESETS.find((candidate) => candidate.id === settings.presetId);
+		const label = `EQ ${preset?.label ?? 'Custom'}`;
+		stages.push(options.reduced ? `${label} (bypassed)` : label);
+	}
+	if (settings.preampDb !== 0) {
+		stages.push(`${settings.preampDb > 0 ? '+' : ''}${settings.preampDb} dB`);
+	}
+	if (settings.mono) {
+		stages.push('Mono');
+	}
+	if (settings.balance !== 0) {
+		const side = settings.balance < 0 ? 'L' : 'R';
+		stages.push(`Bal ${side}${Math.round(Math.abs(settings.balance) * 100)}`);
+	}
+	return stages;
+};
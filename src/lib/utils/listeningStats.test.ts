@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { LocalTrack, Track } from '$lib/types';
+import {
+	buildListeningEvent,
+	listenThresholdSeconds,
+	mergeListeningEvents,
+	normalizeListeningEvent,
+	parseTidalTrackKey,
+	summarizeListening,
+	type ListeningEvent
+} from './listeningStats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 400 * DAY_MS;
+
+const createTrack = (overrides: Partial<Track> = {}): Track =>
+	({
+		id: 11,
+		title: 'Track',
+		duration: 200,
+		artist: { id: 5, name: 'Artist' },
+		artists: [{ id: 5, name: 'Artist' }],
+		album: { id: 7, title: 'Album', cover: 'cover-id' },
+		...overrides
+	}) as Track;
+
+const createEvent = (overrides: Partial<ListeningEvent> = {}): ListeningEvent => {
+	const trackKey = overrides.trackKey ?? 'tidal:11';
+	const playedAt = overrides.playedAt ?? NOW - DAY_MS;
+	return {
+		trackKey,
+		playedAt,
+		listenedSeconds: 100,
+		durationSeconds: 200,
+		title: 'Track',
+		artistName: 'Artist',
+		artistId: 5,
+		albumTitle: 'Album',
+		albumId: 7,
+		cover: null,
+		...overrides,
+		id: `${trackKey}:${playedAt}`
+	};
+};
+
+describe('listeningStats', () => {
+	it('counts a listen at half the track, capped at four minutes', () => {
+		expect(listenThresholdSeconds(200)).toBe(100);
+		expect(listenThresholdSeconds(1200)).toBe(240);
+		expect(listenThresholdSeconds(0)).toBe(240);
+	});
+
+	it('builds events keyed by TIDAL id or local file', () => {
+		const event = buildListeningEvent(createTrack(), {
+			playedAt: 1_000,
+			listenedSeconds: 100.4,
+			durationSeconds: 200
+		});
+		expect(event).toMatchObject({
+			id: 'tidal:11:1000',
+			trackKey: 'tidal:11',
+			listenedSeconds: 100,
+			artistId: 5,
+			albumId: 7,
+			cover: 'cover-id'
+		});
+		expect(parseTidalTrackKey(event!.trackKey)).toBe(11);
+
+		const local = {
+			...createTrack({ id: -1 }),
+			isLocalTrack: true,
+			localFile: { fileId: 'abc' }
+		} as unknown as LocalTrack;
+		const localEvent = buildListeningEvent(local, {
+			playedAt: 1_000,
+			listenedSeconds: 100,
+			durationSeconds: 200
+		});
+		expect(localEvent?.trackKey).toBe('local:abc');
+		expect(parseTidalTrackKey('local:abc')).toBeNull();
+	});
+
+	it('rejects malformed events and recomputes ids', () => {
+		expect(normalizeListeningEvent({ trackKey: 'songlink:x', playedAt: 1, title: 'T' })).toBeNull();
+		expect(normalizeListeningEvent({ trackKey: 'tidal:1', title: 'T' })).toBeNull();
+		expect(
+			normalizeListeningEvent({ id: 'forged', trackKey: 'tidal:1', playedAt: 5, title: 'T' })
+		).toMatchObject({ id: 'tidal:1:5', artistName: 'Unknown Artist', albumId: null });
+	});
+
+	it('merges event lists without duplicates, newest first', () => {
+		const older = createEvent({ playedAt: 1_000 });
+		const newer = createEvent({ playedAt: 2_000 });
+		expect(mergeListeningEvents([older], [newer, older]).map((event) => event.id)).toEqual([
+			newer.id,
+			older.id
+		]);
+	});
+
+	it('ranks tracks, artists and albums within the period', () => {
+		const events = [
+			createEvent({ playedAt: NOW - DAY_MS }),
+			createEvent({ playedAt: NOW - 2 * DAY_MS }),
+			createEvent({
+				trackKey: 'tidal:12',
+				title: 'Other',
+				artistId: 6,
+				artistName: 'Other Artist',
+				albumId: 8,
+				albumTitle: 'Other Album',
+				playedAt: NOW - 3 * DAY_MS
+			}),
+			createEvent({ playedAt: NOW - 20 * DAY_MS })
+		];
+
+		const week = summarizeListening(events, { period: 'week', now: NOW });
+		expect(week.plays).toBe(3);
+		expect(week.listenedSeconds).toBe(300);
+		expect(week.tracks.map((entry) => [entry.label, entry.plays])).toEqual([
+			['Track', 2],
+			['Other', 1]
+		]);
+		expect(week.tracks[0].latest.playedAt).toBe(NOW - DAY_MS);
+		expect(week.artists.map((entry) => entry.label)).toEqual(['Artist', 'Other Artist']);
+		expect(week.albums.map((entry) => entry.key)).toEqual(['id:7', 'id:8']);
+
+		const month = summarizeListening(events, { period: 'month', now: NOW, limit: 1 });
+		expect(month.plays).toBe(4);
+		expect(month.tracks).toHaveLength(1);
+		expect(month.tracks[0].plays).toBe(3);
+	});
+});
@@ -0,0 +1,252 @@
+/**
+ * Listening History
+ *
+ * Play events recorded once a track has actually been listened to, and the aggregations
+ * behind the history page. Shared by the client store and the optional server sync, so
+ * everything here is plain data without browser or Node dependencies.
+ */
+
+import type { PlayableTrack } from '$lib/types';
+import { isLocalTrack, isSonglinkTrack } from '$lib/types';
+
+export interface ListeningEvent {
+	id: string;
+	// "tidal:<id>" or "local:<fileId>"; stable across plays of the same track
+	trackKey: string;
+	playedAt: number;
+	listenedSeconds: number;
+	durationSeconds: number;
+	title: string;
+	artistName: string;
+	artistId: number | null;
+	albumTitle: string | null;
+	albumId: number | null;
+	cover: string | null;
+}
+
+export type ListeningPeriod = 'week' | 'month' | 'year' | 'all';
+
+export interface ListeningTopEntry {
+	key: string;
+	label: string;
+	sublabel: string | null;
+	cover: string | null;
+	plays: number;
+	listenedSeconds: number;
+	// Most recent event, used for links and "play again"
+	latest: ListeningEvent;
+}
+
+export interface ListeningSummary {
+	plays: number;
+	listenedSeconds: number;
+	tracks: ListeningTopEntry[];
+	artists: ListeningTopEntry[];
+	albums: ListeningTopEntry[];
+}
+
+// A play counts after half the track or four minutes, whichever comes first.
+export const LISTEN_THRESHOLD_RATIO = 0.5;
+export const LISTEN_THRESHOLD_MAX_SECONDS = 240;
+
+const PERIOD_MS: Record<Exclude<ListeningPeriod, 'all'>, number> = {
+	week: 7 * 24 * 60 * 60 * 1000,
+	month: 30 * 24 * 60 * 60 * 1000,
+	year: 365 * 24 * 60 * 60 * 1000
+};
+
+export function listenThresholdSeconds(durationSeconds: number): number {
+	if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+		return LISTEN_THRESHOLD_MAX_SECONDS;
+	}
+	return Math.min(LISTEN_THRESHOLD_MAX_SECONDS, durationSeconds * LISTEN_THRESHOLD_RATIO);
+}
+
+/**
+ * Key identifying a track across plays; null for tracks that can't be replayed reliably
+ * (unconverted Songlink entries).
+ */
+export function getListeningTrackKey(track: PlayableTrack): string | null {
+	if (isSonglinkTrack(track)) return null;
+	if (isLocalTrack(track)) return `local:${track.localFile.fileId}`;
+	return `tidal:${track.id}`;
+}
+
+export function parseTidalTrackKey(trackKey: string): number | null {
+	const match = /^tidal:(\d+)$/.exec(trackKey);
+	return match ? Number(match[1]) : null;
+}
+
+export function buildListeningEvent(
+	track: PlayableTrack,
+	input: { playedAt: number; listenedSeconds: number; durationSeconds: number }
+): ListeningEvent | null {
+	const trackKey = getListeningTrackKey(track);
+	if (!trackKey || isSonglinkTrack(track)) {
+		return null;
+	}
+	const artist = track.artists?.[0] ?? track.artist;
+	return {
+		id: `${trackKey}:${input.playedAt}`,
+		trackKey,
+		playedAt: input.playedAt,
+		listenedSeconds: Math.round(input.listenedSeconds),
+		durationSeconds: Math.round(input.durationSeconds || track.duration || 0),
+		title: track.title,
+		artistName: artist?.name ?? 'Unknown Artist',
+		artistId: artist?.id && artist.id > 0 ? artist.id : null,
+		albumTitle: track.album?.title ?? null,
+		albumId: track.album?.id && track.album.id > 0 ? track.album.id : null,
+		cover: track.album?.cover || null
+	};
+}
+
+const asString = (value: unknown): string | null =>
+	typeof value === 'string' && value.trim().length > 0 ? value : null;
+
+const asFinite = (value: unknown): number | null =>
+	typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const asPositiveId = (value: unknown): number | null => {
+	const id = asFinite(value);
+	return id !== null && Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Validate an event read from storage or received over the API.
+ */
+export function normalizeListeningEvent(raw: unknown): ListeningEvent | null {
+	if (!raw || typeof raw !== 'object') {
+		return null;
+	}
+	const candidate = raw as Record<string, unknown>;
+	const trackKey = asString(candidate.trackKey);
+	const playedAt = asFinite(candidate.playedAt);
+	const title = asString(candidate.title);
+	if (!trackKey || !/^(tidal|local):/.test(trackKey) || playedAt === null || !title) {
+		return null;
+	}
+	return {
+		id: `${trackKey}:${playedAt}`,
+		trackKey,
+		playedAt,
+		listenedSeconds: Math.max(0, asFinite(candidate.listenedSeconds) ?? 0),
+		durationSeconds: Math.max(0, asFinite(candidate.durationSeconds) ?? 0),
+		title,
+		artistName: asString(candidate.artistName) ?? 'Unknown Artist',
+		artistId: asPositiveId(candidate.artistId),
+		albumTitle: asString(candidate.albumTitle),
+		albumId: asPositiveId(candidate.albumId),
+		cover: asString(candidate.cover)
+	};
+}
+
+/**
+ * Merge event lists by id, newest first.
+ */
+export function mergeListeningEvents(...lists: ListeningEvent[][]): ListeningEvent[] {
+	const byId = new Map<string, ListeningEvent>();
+	for (const list of lists) {
+		for (const event of list) {
+			if (!byId.has(event.id)) {
+				byId.set(event.id, event);
+			}
+		}
+	}
+	return [...byId.values()].sort((a, b) => b.playedAt - a.playedAt);
+}
+
+export function filterListeningEvents(
+	events: ListeningEvent[],
+	period: ListeningPeriod,
+	now: number = Date.now()
+): ListeningEvent[] {
+	if (period === 'all') {
+		return events;
+	}
+	const since = now - PERIOD_MS[period];
+	return events.filter((event) => event.playedAt >= since);
+}
+
+function rankBy(
+	events: ListeningEvent[],
+	keyOf: (event: ListeningEvent) => string | null,
+	describe: (event: ListeningEvent) => Pick<ListeningTopEntry, 'label' | 'sublabel' | 'cover'>,
+	limit: number
+): ListeningTopEntry[] {
+	const entries = new Map<string, ListeningTopEntry>();
+	// Events are newest first, so the first event seen for a key is its latest.
+	for (const event of events) {
+		const key = keyOf(event);
+		if (!key) continue;
+		const entry = entries.get(key);
+		if (entry) {
+			entry.plays += 1;
+			entry.listenedSeconds += event.listenedSeconds;
+			continue;
+		}
+		entries.set(key, {
+			key,
+			...describe(event),
+			plays: 1,
+			listenedSeconds: event.listenedSeconds,
+			latest: event
+		});
+	}
+	return [...entries.values()]
+		.sort(
+			(a, b) =>
+				b.plays - a.plays ||
+				b.listenedSeconds - a.listenedSeconds ||
+				b.latest.playedAt - a.latest.playedAt
+		)
+		.slice(0, limit);
+}
+
+const normalizeName = (value: string): string => value.trim().toLowerCase();
+
+export function summarizeListening(
+	events: ListeningEvent[],
+	options: { period: ListeningPeriod; now?: number; limit?: number }
+): ListeningSummary {
+	const inPeriod = filterListeningEvents(
+		[...events].sort((a, b) => b.playedAt - a.playedAt),
+		options.period,
+		options.now
+	);
+	const limit = options.limit ?? 10;
+	return {
+		plays: inPeriod.length,
+		listenedSeconds: inPeriod.reduce((total, event) => total + event.listenedSeconds, 0),
+		tracks: rankBy(
+			inPeriod,
+			(event) => event.trackKey,
+			(event) => ({ label: event.title, sublabel: event.artistName, cover: event.cover }),
+			limit
+		),
+		artists: rankBy(
+			inPeriod,
+			(event) =>
+				event.artistId !== null
+					? `id:${event.artistId}`
+					: `name:${normalizeName(event.artistName)}`,
+			(event) => ({ label: event.artistName, sublabel: null, cover: null }),
+			limit
+		),
+		albums: rankBy(
+			inPeriod,
+			(event) =>
+				event.albumId !== null
+					? `id:${event.albumId}`
+					: event.albumTitle
+						? `name:${normalizeName(event.artistName)}:${normalizeName(event.albumTitle)}`
+						: null,
+			(event) => ({
+				label: event.albumTitle ?? 'Unknown Album',
+				sublabel: event.artistName,
+				cover: event.cover
+			}),
+			limit
+		)
+	};
+}
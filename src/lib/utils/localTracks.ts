@@ -0,0 +1,105 @@
+/**
+ * Local Tracks
+ *
+ * Builds playable tracks for files in the server's media library and resolves TIDAL
+ * tracks that already exist on disk, so the player can stream them locally.
+ */
+
+import type { LocalTrack, LocalTrackFile, Track } from '$lib/types';
+import type { LibraryBrowseAlbum, LibraryBrowseTrack } from '$lib/utils/mediaLibraryClient';
+
+const RESOLVE_CACHE_TTL_MS = 60_000;
+const RESOLVE_CACHE_LIMIT = 200;
+
+const resolveCache = new Map<number, { expiresAt: number; file: Promise<LocalTrackFile | null> }>();
+
+export function getLocalStreamUrl(fileId: string): string {
+	return `/api/media-library/stream/${encodeURIComponent(fileId)}`;
+}
+
+/**
+ * Placeholder id for files without an embedded TIDAL id. Negative so it can never
+ * collide with a catalog track.
+ */
+function toPlaceholderTrackId(fileId: string): number {
+	return -(Number.parseInt(fileId.slice(0, 12), 16) || 1);
+}
+
+export function createLocalTrack(
+	album: Pick<LibraryBrowseAlbum, 'artistName' | 'albumTitle' | 'tidalAlbumId'>,
+	track: LibraryBrowseTrack
+): LocalTrack {
+	const artist = { id: 0, name: album.artistName, type: 'MAIN' };
+	return {
+		id: toPlaceholderTrackId(track.fileId),
+		title: track.title,
+		duration: 0,
+		allowStreaming: true,
+		streamReady: true,
+		premiumStreamingOnly: false,
+		trackNumber: track.trackNo ?? 0,
+		volumeNumber: track.discNo ?? 1,
+		version: null,
+		popularity: 0,
+		url: getLocalStreamUrl(track.fileId),
+		editable: false,
+		explicit: false,
+		audioQuality: track.quality ?? 'LOSSLESS',
+		audioModes: ['STEREO'],
+		artist,
+		artists: [artist],
+		album: {
+			id: album.tidalAlbumId ?? 0,
+			title: album.albumTitle,
+			cover: '',
+			videoCover: null
+		},
+		localFile: {
+			fileId: track.fileId,
+			format: track.format,
+			quality: track.quality,
+			sampleRate: track.sampleRate,
+			bitDepth: track.bitsPerSample
+		},
+		isLocalTrack: true
+	};
+}
+
+async function fetchLocalTrackFile(track: Track): Promise<LocalTrackFile | null> {
+	const params = new URLSearchParams({ trackTitle: track.title });
+	if (track.id > 0) params.set('trackId', String(track.id));
+	if (track.isrc) params.set('isrc', track.isrc);
+	const artistName = track.album?.artist?.name ?? track.artist?.name;
+	if (artistName) params.set('artistName', artistName);
+	if (track.album?.title) params.set('albumTitle', track.album.title);
+	if (track.trackNumber) params.set('trackNumber', String(track.trackNumber));
+	if (track.volumeNumber) params.set('volumeNumber', String(track.volumeNumber));
+	try {
+		const response = await fetch(`/api/media-library/stream/resolve?${params.toString()}`);
+		if (!response.ok) {
+			return null;
+		}
+		const payload = (await response.json()) as { success?: boolean; file?: LocalTrackFile | null };
+		return payload.success ? (payload.file ?? null) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Find the library file for a TIDAL track. Resolves to null when the track is not on disk
+ * or the server has no media library. Results are cached briefly per track id.
+ */
+export function resolveLocalTrackFile(track: Track): Promise<LocalTrackFile | null> {
+	const now = Date.now();
+	const cached = resolveCache.get(track.id);
+	if (cached && cached.expiresAt > now) {
+		return cached.file;
+	}
+	if (resolveCache.size >= RESOLVE_CACHE_LIMIT) {
+		resolveCache.clear();
+	}
+	const file = fetchLocalTrackFile(track);
+	resolveCache.set(track.id, { expiresAt: now + RESOLVE_CACHE_TTL_MS, file });
+	return file;
+}
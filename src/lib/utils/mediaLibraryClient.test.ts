@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+class FakeEventSource {
+	static instances: FakeEventSource[] = [];
+	readonly listeners = new Map<string, EventListener>();
+	closed = false;
+
+	constructor(readonly url: string) {
+		FakeEventSource.instances.push(this);
+	}
+
+	addEventListener(type: string, listener: EventListener): void {
+		this.listeners.set(type, listener);
+	}
+
+	close(): void {
+		this.closed = true;
+	}
+
+	emit(type: string, data: unknown): void {
+		this.listeners.get(type)?.({ data: JSON.stringify(data) } as MessageEvent<string>);
+	}
+}
+
+describe('subscribeMediaLibraryChanges', () => {
+	beforeEach(() => {
+		vi.resetModules();
+		FakeEventSource.instances = [];
+		vi.stubGlobal('EventSource', FakeEventSource);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('shares one stream per tab and closes it with the last listener', async () => {
+		const { subscribeMediaLibraryChanges } = await import('./mediaLibraryClient');
+		const first = vi.fn();
+		const second = vi.fn();
+
+		const unsubscribeFirst = subscribeMediaLibraryChanges(first);
+		const unsubscribeSecond = subscribeMediaLibraryChanges(second);
+		expect(FakeEventSource.instances).toHaveLength(1);
+		const [source] = FakeEventSource.instances;
+		source.emit('ready', { enabled: true, running: true });
+		source.emit('library-changed', { type: 'library-changed', totalFiles: 3 });
+		expect(first).toHaveBeenCalledWith(expect.objectContaining({ totalFiles: 3 }));
+		expect(second).toHaveBeenCalledTimes(1);
+
+		unsubscribeFirst();
+		expect(source.closed).toBe(false);
+		unsubscribeSecond();
+		expect(source.closed).toBe(true);
+	});
+
+	it('closes the stream and stops reconnecting when the watcher is disabled', async () => {
+		const { subscribeMediaLibraryChanges } = await import('./mediaLibraryClient');
+
+		const unsubscribe = subscribeMediaLibraryChanges(vi.fn());
+		FakeEventSource.instances[0].emit('ready', { enabled: false, running: false });
+		expect(FakeEventSource.instances[0].closed).toBe(true);
+		unsubscribe();
+
+		subscribeMediaLibraryChanges(vi.fn());
+		expect(FakeEventSource.instances).toHaveLength(1);
+	});
+
+	it('retries the stream while an enabled watcher is not running', async () => {
+		vi.useFakeTimers();
+		try {
+			const { subscribeMediaLibraryChanges } = await import('./mediaLibraryClient');
+
+			subscribeMediaLibraryChanges(vi.fn());
+			FakeEventSource.instances[0].emit('ready', { enabled: true, running: false });
+			expect(FakeEventSource.instances[0].closed).toBe(true);
+
+			subscribeMediaLibraryChanges(vi.fn());
+			expect(FakeEventSource.instances).toHaveLength(1);
+			await vi.advanceTimersByTimeAsync(30_000);
+			expect(FakeEventSource.instances).toHaveLength(2);
+			expect(FakeEventSource.instances[1].closed).toBe(false);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
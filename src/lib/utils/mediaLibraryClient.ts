@@ -71,6 +71,7 @@ export type FullLibraryRepairResult = {
 	finishedAt?: number;
 	durationMs?: number;
 	queueEnabled?: boolean;
+	batchId?: string;
 	quality?: 'LOW' | 'HIGH' | 'LOSSLESS' | 'HI_RES_LOSSLESS';
 	summary?: {
 		albumsDiscovered: number;
@@ -302,6 +303,232 @@ export type MediaLibraryCorrectAndDeduplicateStatusResult = {
 	error?: string | null;
 };
 
+export type MediaLibraryQualityUpgradeCandidate = {
+	albumId: number;
+	artistDir: string;
+	albumDir: string;
+	artistName: string;
+	albumTitle: string;
+	trackCount: number;
+	localQuality: 'LOW' | 'HIGH' | 'LOSSLESS' | 'HI_RES_LOSSLESS';
+	localBitsPerSample?: number;
+	localSampleRate?: number;
+	offeredQuality: 'LOW' | 'HIGH' | 'LOSSLESS' | 'HI_RES_LOSSLESS';
+};
+
+export type MediaLibraryQualityUpgradeScanResult = {
+	success: boolean;
+	runId?: string;
+	reportPath?: string | null;
+	startedAt?: number;
+	finishedAt?: number;
+	durationMs?: number;
+	albumsScanned?: number;
+	albumsSkipped?: number;
+	albumsUpToDate?: number;
+	albumsErrored?: number;
+	candidates?: MediaLibraryQualityUpgradeCandidate[];
+	error?: string;
+};
+
+export type MediaLibraryQualityUpgradeQueueResult = {
+	success: boolean;
+	runId?: string;
+	batchId?: string;
+	queued?: number;
+	jobIds?: string[];
+	error?: string;
+};
+
+export type MediaLibraryReorganizeResult = {
+	success: boolean;
+	runId?: string;
+	dryRun?: boolean;
+	filesScanned?: number;
+	unchanged?: number;
+	skippedMissingTags?: number;
+	movesPlanned?: number;
+	movesApplied?: number;
+	conflictCount?: number;
+	moves?: Array<{ kind: 'audio' | 'cover' | 'sidecar'; from: string; to: string }>;
+	conflicts?: Array<{
+		from: string;
+		to?: string;
+		reason: 'missing-tags' | 'duplicate-target' | 'target-exists';
+	}>;
+	truncated?: boolean;
+	rolledBack?: boolean;
+	planHash?: string;
+	planChanged?: boolean;
+	journalPath?: string;
+	reportPath?: string | null;
+	error?: string;
+};
+
+export type MediaLibraryReorganizeRollbackResult = {
+	success: boolean;
+	runId?: string;
+	restored?: number;
+	missing?: number;
+	errors?: number;
+	failedSamples?: string[];
+	reportPath?: string | null;
+	error?: string;
+};
+
+export type LibraryBrowseQuality = 'LOW' | 'HIGH' | 'LOSSLESS' | 'HI_RES_LOSSLESS';
+
+export type LibraryBrowseAlbum = {
+	artistDir: string;
+	albumDir: string;
+	artistName: string;
+	albumTitle: string;
+	year?: number;
+	formats: string[];
+	quality: LibraryBrowseQuality | null;
+	tidalAlbumId?: number;
+	trackCount: number;
+	sizeBytes: number;
+	modifiedAt: number;
+};
+
+export type LibraryBrowseTrack = {
+	fileId: string;
+	relativePath: string;
+	filename: string;
+	title: string;
+	trackNo?: number;
+	discNo?: number;
+	format: string;
+	quality: LibraryBrowseQuality | null;
+	bitsPerSample?: number;
+	sampleRate?: number;
+	sizeBytes: number;
+};
+
+export type LibraryBrowseResult = {
+	success: boolean;
+	scannedAt?: number;
+	albums?: LibraryBrowseAlbum[];
+	error?: string;
+};
+
+export type LibraryBrowseAlbumResult = {
+	success: boolean;
+	album?: LibraryBrowseAlbum;
+	tracks?: LibraryBrowseTrack[];
+	error?: string;
+};
+
+export type LibraryAlbumIntegrityResult = {
+	success: boolean;
+	albumId?: number;
+	scannedAt?: number;
+	summary?: {
+		expected: number;
+		healthy: number;
+		missing: number;
+		corrupt: number;
+	};
+	tracks?: Array<{
+		trackId: number;
+		trackTitle?: string;
+		trackNumber?: number;
+		status: 'healthy' | 'missing' | 'corrupt';
+		reason?: string;
+		relativePath?: string;
+	}>;
+	error?: string;
+};
+
+export type MediaLibraryChangeEvent = {
+	type: 'library-changed';
+	changedAt: number;
+	scannedAt: number;
+	totalFiles: number;
+	albums: Array<{ artistDir: string; albumDir: string }>;
+	truncated: boolean;
+};
+
+type MediaLibraryChangeListener = (event: MediaLibraryChangeEvent) => void;
+
+const libraryChangeListeners = new Set<MediaLibraryChangeListener>();
+let libraryChangeSource: EventSource | null = null;
+let libraryChangeRetry: ReturnType<typeof setTimeout> | null = null;
+// The watcher is off by default; once the server says so, don't hold a connection open
+let libraryWatcherOff = false;
+// An enabled watcher that isn't running yet (or is restarting) is retried after this
+const LIBRARY_WATCHER_RETRY_MS = 30_000;
+
+function closeLibraryChangeSource(): void {
+	libraryChangeSource?.close();
+	libraryChangeSource = null;
+	if (libraryChangeRetry) {
+		clearTimeout(libraryChangeRetry);
+		libraryChangeRetry = null;
+	}
+}
+
+function openLibraryChangeSource(): void {
+	const source = new EventSource('/api/media-library/events');
+	source.addEventListener('ready', ((message: MessageEvent<string>) => {
+		let status: { enabled?: boolean; running?: boolean };
+		try {
+			status = JSON.parse(message.data) as { enabled?: boolean; running?: boolean };
+		} catch {
+			return;
+		}
+		if (status.enabled === false) {
+			libraryWatcherOff = true;
+			closeLibraryChangeSource();
+			return;
+		}
+		if (status.running === false) {
+			closeLibraryChangeSource();
+			libraryChangeRetry = setTimeout(() => {
+				libraryChangeRetry = null;
+				if (libraryChangeListeners.size > 0 && !libraryChangeSource) {
+					openLibraryChangeSource();
+				}
+			}, LIBRARY_WATCHER_RETRY_MS);
+		}
+	}) as EventListener);
+	source.addEventListener('library-changed', ((message: MessageEvent<string>) => {
+		let event: MediaLibraryChangeEvent;
+		try {
+			event = JSON.parse(message.data) as MediaLibraryChangeEvent;
+		} catch {
+			return;
+		}
+		for (const listener of libraryChangeListeners) {
+			listener(event);
+		}
+	}) as EventListener);
+	libraryChangeSource = source;
+}
+
+/**
+ * Listen for server-side library changes (filesystem watcher). Returns an unsubscribe
+ * function; a no-op outside the browser. All listeners in a tab share one EventSource,
+ * which reconnects on its own, closes with the last listener and isn't kept open while
+ * the server's watcher is disabled; a watcher that is enabled but not running is retried.
+ */
+export function subscribeMediaLibraryChanges(onChange: MediaLibraryChangeListener): () => void {
+	if (typeof EventSource === 'undefined' || libraryWatcherOff) {
+		return () => {};
+	}
+	libraryChangeListeners.add(onChange);
+	if (!libraryChangeSource && !libraryChangeRetry) {
+		openLibraryChangeSource();
+	}
+	return () => {
+		libraryChangeListeners.delete(onChange);
+		if (libraryChangeListeners.size === 0) {
+			closeLibraryChangeSource();
+		}
+	};
+}
+
 export async function fetchAlbumLibraryStatus(
 	albums: AlbumLibraryStatusInput[],
 	options?: {
@@ -587,3 +814,190 @@ export async function fetchCorrectAndDeduplicateStatus(): Promise<MediaLibraryCo
 		};
 	}
 }
+
+export async function scanLibraryQualityUpgrades(input?: {
+	forceRescan?: boolean;
+	maxAlbums?: number;
+}): Promise<MediaLibraryQualityUpgradeScanResult> {
+	try {
+		const response = await fetch('/api/media-library/quality-upgrades', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(input ?? {})
+		});
+		const payload = (await response.json()) as MediaLibraryQualityUpgradeScanResult;
+		if (!response.ok) {
+			return {
+				success: false,
+				error: payload?.error || 'Failed to scan for quality upgrades'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to scan for quality upgrades'
+		};
+	}
+}
+
+export async function queueLibraryQualityUpgrades(input?: {
+	albumIds?: number[];
+}): Promise<MediaLibraryQualityUpgradeQueueResult> {
+	try {
+		const response = await fetch('/api/media-library/quality-upgrades/queue', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(input ?? {})
+		});
+		const payload = (await response.json()) as MediaLibraryQualityUpgradeQueueResult;
+		if (!response.ok) {
+			return {
+				success: false,
+				error: payload?.error || 'Failed to queue quality upgrades'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to queue quality upgrades'
+		};
+	}
+}
+
+export async function reorganizeLibrary(input?: {
+	dryRun?: boolean;
+	forceRescan?: boolean;
+	planHash?: string;
+	folderTemplate?: string | null;
+	fileTemplate?: string | null;
+}): Promise<MediaLibraryReorganizeResult> {
+	try {
+		const response = await fetch('/api/media-library/reorganize', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(input ?? {})
+		});
+		const payload = (await response.json()) as MediaLibraryReorganizeResult;
+		if (!response.ok) {
+			return {
+				...payload,
+				success: false,
+				error: payload?.error || 'Failed to reorganize media library'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to reorganize media library'
+		};
+	}
+}
+
+export async function rollbackLibraryReorganize(
+	runId: string
+): Promise<MediaLibraryReorganizeRollbackResult> {
+	try {
+		const response = await fetch('/api/media-library/reorganize/rollback', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({ runId })
+		});
+		const payload = (await response.json()) as MediaLibraryReorganizeRollbackResult;
+		if (!response.ok) {
+			return {
+				...payload,
+				success: false,
+				error: payload?.error || 'Failed to roll back library reorganize'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to roll back library reorganize'
+		};
+	}
+}
+
+export async function fetchLibraryBrowse(input?: { force?: boolean }): Promise<LibraryBrowseResult> {
+	try {
+		const endpoint =
+			input?.force === true ? '/api/media-library/browse?force=true' : '/api/media-library/browse';
+		const response = await fetch(endpoint);
+		const payload = (await response.json()) as LibraryBrowseResult;
+		if (!response.ok) {
+			return {
+				success: false,
+				error: payload?.error || 'Failed to load media library'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to load media library'
+		};
+	}
+}
+
+export async function fetchLibraryBrowseAlbum(input: {
+	artistDir: string;
+	albumDir: string;
+}): Promise<LibraryBrowseAlbumResult> {
+	try {
+		const params = new URLSearchParams({ artistDir: input.artistDir, albumDir: input.albumDir });
+		const response = await fetch(`/api/media-library/browse/album?${params.toString()}`);
+		const payload = (await response.json()) as LibraryBrowseAlbumResult;
+		if (!response.ok) {
+			return {
+				success: false,
+				error: payload?.error || 'Failed to load library album'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to load library album'
+		};
+	}
+}
+
+export async function checkLibraryAlbumIntegrity(input: {
+	artistDir: string;
+	albumDir: string;
+}): Promise<LibraryAlbumIntegrityResult> {
+	try {
+		const response = await fetch('/api/media-library/browse/integrity', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(input)
+		});
+		const payload = (await response.json()) as LibraryAlbumIntegrityResult;
+		if (!response.ok) {
+			return {
+				success: false,
+				error: payload?.error || 'Failed to check album integrity'
+			};
+		}
+		return payload;
+	} catch {
+		return {
+			success: false,
+			error: 'Failed to check album integrity'
+		};
+	}
+}
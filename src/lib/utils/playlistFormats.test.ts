@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+	buildM3u8,
+	buildXspf,
+	detectPlaylistFileFormat,
+	normalizeIsrc,
+	parseM3u8,
+	parseQueueCsv,
+	parseTidalTrackId,
+	parseXspf,
+	type PlaylistFileEntry
+} from './playlistFormats';
+
+const entries: PlaylistFileEntry[] = [
+	{
+		location: 'Massive Attack/Mezzanine/03 - Teardrop.flac',
+		tidalId: 1234,
+		isrc: 'GBAAA9800189',
+		title: 'Teardrop',
+		artist: 'Massive Attack',
+		album: 'Mezzanine',
+		durationSeconds: 330
+	},
+	{
+		location: 'https://tidal.com/browse/track/5678',
+		tidalId: 5678,
+		title: 'Angel & <Dub>',
+		artist: 'Massive Attack',
+		durationSeconds: 379
+	}
+];
+
+describe('playlistFormats', () => {
+	it('writes and reads extended M3U', () => {
+		const content = buildM3u8('Trip Hop', entries);
+
+		expect(content).toContain('#PLAYLIST:Trip Hop');
+		expect(content).toContain('#EXTINF:330,Massive Attack - Teardrop');
+		expect(content).toContain('#EXTALB:Mezzanine');
+		expect(parseM3u8(content)).toEqual([
+			{
+				location: 'Massive Attack/Mezzanine/03 - Teardrop.flac',
+				title: 'Teardrop',
+				artist: 'Massive Attack',
+				album: 'Mezzanine',
+				durationSeconds: 330,
+				tidalId: undefined,
+				isrc: undefined
+			},
+			{
+				location: 'https://tidal.com/browse/track/5678',
+				title: 'Angel & <Dub>',
+				artist: 'Massive Attack',
+				durationSeconds: 379,
+				tidalId: 5678,
+				isrc: undefined
+			}
+		]);
+	});
+
+	it('reads plain M3U lists with Windows line endings', () => {
+		expect(parseM3u8('\uFEFFmusic\\a.flac\r\n# comment\r\nmusic\\b.flac\r\n')).toEqual([
+			expect.objectContaining({ location: 'music\\a.flac' }),
+			expect.objectContaining({ location: 'music\\b.flac' })
+		]);
+	});
+
+	it('writes and reads XSPF with identifiers', () => {
+		const content = buildXspf('Trip & Hop', entries);
+
+		expect(content).toContain('<title>Trip &amp; Hop</title>');
+		expect(content).toContain(
+			'<location>Massive%20Attack/Mezzanine/03%20-%20Teardrop.flac</location>'
+		);
+		expect(content).toContain('<identifier>urn:isrc:GBAAA9800189</identifier>');
+		expect(content).toContain('<duration>330000</duration>');
+		expect(parseXspf(content)).toEqual(entries);
+	});
+
+	it('reads the queue CSV export back', () => {
+		const csv = [
+			'Index,Title,Artist,Album,Duration,TIDAL ID,ISRC,FLAC URL',
+			'1,"Teardrop, Live",Massive Attack,Mezzanine,5:30,1234,GB-AAA-98-00189,https://x',
+			'2,Angel,Massive Attack,Mezzanine,6:19,,,'
+		].join('\n');
+
+		expect(parseQueueCsv(csv)).toEqual([
+			{
+				location: undefined,
+				tidalId: 1234,
+				isrc: 'GBAAA9800189',
+				title: 'Teardrop, Live',
+				artist: 'Massive Attack',
+				album: 'Mezzanine',
+				durationSeconds: 330
+			},
+			{
+				location: undefined,
+				tidalId: undefined,
+				isrc: undefined,
+				title: 'Angel',
+				artist: 'Massive Attack',
+				album: 'Mezzanine',
+				durationSeconds: 379
+			}
+		]);
+	});
+
+	it('detects formats and normalizes identifiers', () => {
+		expect(detectPlaylistFileFormat('mix.M3U', '')).toBe('m3u8');
+		expect(detectPlaylistFileFormat(undefined, '<?xml version="1.0"?><playlist/>')).toBe('xspf');
+		expect(detectPlaylistFileFormat('notes.txt', 'hello')).toBeNull();
+		expect(parseTidalTrackId('https://listen.tidal.com/track/42')).toBe(42);
+		expect(parseTidalTrackId('abc')).toBeUndefined();
+		expect(normalizeIsrc('urn:isrc:gbaaa9800189')).toBe('GBAAA9800189');
+		expect(normalizeIsrc('not-an-isrc')).toBeUndefined();
+	});
+});
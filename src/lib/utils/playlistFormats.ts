@@ -0,0 +1,309 @@
+/**
+ * Playlist Formats
+ *
+ * Reads and writes the playlist file formats other players understand: extended M3U
+ * (UTF-8, `.m3u8`) and XSPF, plus the queue CSV this app exports. Locations are written as
+ * given, either a path or an URL; resolving them against the library happens on the server.
+ */
+
+export type PlaylistFileFormat = 'm3u8' | 'xspf' | 'csv';
+
+export type PlaylistFileEntry = {
+	// Library path (relative or absolute) or URL, as written in the file
+	location?: string;
+	tidalId?: number;
+	isrc?: string;
+	title?: string;
+	artist?: string;
+	album?: string;
+	durationSeconds?: number;
+};
+
+export const PLAYLIST_FILE_MIME_TYPES: Record<PlaylistFileFormat, string> = {
+	m3u8: 'audio/x-mpegurl; charset=utf-8',
+	xspf: 'application/xspf+xml; charset=utf-8',
+	csv: 'text/csv; charset=utf-8'
+};
+
+const TIDAL_TRACK_URL_RE = /tidal\.com\/(?:browse\/)?track\/(\d+)/i;
+const ISRC_RE = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+export function tidalTrackUrl(trackId: number): string {
+	return `https://tidal.com/browse/track/${trackId}`;
+}
+
+export function parseTidalTrackId(value: string | undefined): number | undefined {
+	const match = value?.match(TIDAL_TRACK_URL_RE);
+	const id = Number(match?.[1] ?? value);
+	return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+export function normalizeIsrc(value: string | undefined): string | undefined {
+	const isrc = value
+		?.replace(/^urn:isrc:/i, '')
+		.replace(/-/g, '')
+		.trim()
+		.toUpperCase();
+	return isrc && ISRC_RE.test(isrc) ? isrc : undefined;
+}
+
+export function isUrlLocation(location: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:\/\//i.test(location) && !location.toLowerCase().startsWith('file:');
+}
+
+export function detectPlaylistFileFormat(
+	filename: string | undefined,
+	content: string
+): PlaylistFileFormat | null {
+	const extension = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+	if (extension === 'm3u' || extension === 'm3u8') return 'm3u8';
+	if (extension === 'xspf') return 'xspf';
+	if (extension === 'csv') return 'csv';
+	const head = content.replace(/^\uFEFF/, '').trimStart();
+	if (head.startsWith('#EXTM3U')) return 'm3u8';
+	if (head.startsWith('<?xml') || head.startsWith('<playlist')) return 'xspf';
+	return null;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+const singleLine = (value: string | undefined): string => (value ?? '').replace(/[\r\n]+/g, ' ');
+
+export function buildM3u8(name: string, entries: PlaylistFileEntry[]): string {
+	const lines = ['#EXTM3U', `#PLAYLIST:${singleLine(name)}`];
+	for (const entry of entries) {
+		if (!entry.location) continue;
+		const label = [entry.artist, entry.title].filter(Boolean).map(singleLine).join(' - ');
+		lines.push(`#EXTINF:${Math.round(entry.durationSeconds ?? -1)},${label}`);
+		if (entry.album) lines.push(`#EXTALB:${singleLine(entry.album)}`);
+		lines.push(entry.location);
+	}
+	return `${lines.join('\n')}\n`;
+}
+
+const escapeXml = (value: string): string =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+
+// XSPF locations are URIs, so relative paths are percent-encoded per segment.
+const toXspfLocation = (location: string): string =>
+	isUrlLocation(location) || location.toLowerCase().startsWith('file:')
+		? location
+		: location.split('/').map(encodeURIComponent).join('/');
+
+export function buildXspf(name: string, entries: PlaylistFileEntry[]): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+		`\t<title>${escapeXml(name)}</title>`,
+		'\t<trackList>'
+	];
+	for (const entry of entries) {
+		lines.push('\t\t<track>');
+		if (entry.location) {
+			lines.push(`\t\t\t<location>${escapeXml(toXspfLocation(entry.location))}</location>`);
+		}
+		if (entry.tidalId) {
+			lines.push(`\t\t\t<identifier>${tidalTrackUrl(entry.tidalId)}</identifier>`);
+		}
+		if (entry.isrc) {
+			lines.push(`\t\t\t<identifier>urn:isrc:${entry.isrc}</identifier>`);
+		}
+		if (entry.title) lines.push(`\t\t\t<title>${escapeXml(entry.title)}</title>`);
+		if (entry.artist) lines.push(`\t\t\t<creator>${escapeXml(entry.artist)}</creator>`);
+		if (entry.album) lines.push(`\t\t\t<album>${escapeXml(entry.album)}</album>`);
+		if (entry.durationSeconds && entry.durationSeconds > 0) {
+			lines.push(`\t\t\t<duration>${Math.round(entry.durationSeconds * 1000)}</duration>`);
+		}
+		lines.push('\t\t</track>');
+	}
+	lines.push('\t</trackList>', '</playlist>');
+	return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function withIdentifiers(entry: PlaylistFileEntry): PlaylistFileEntry {
+	const location = entry.location?.trim() || undefined;
+	return {
+		...entry,
+		location,
+		tidalId:
+			entry.tidalId ??
+			(location && isUrlLocation(location) ? parseTidalTrackId(location) : undefined),
+		isrc: normalizeIsrc(entry.isrc)
+	};
+}
+
+export function parseM3u8(content: string): PlaylistFileEntry[] {
+	const entries: PlaylistFileEntry[] = [];
+	let pending: PlaylistFileEntry = {};
+	for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line) continue;
+		if (line.startsWith('#EXTINF:')) {
+			const [, duration = '', label = ''] = line.match(/^#EXTINF:(-?[\d.]+)[^,]*,(.*)$/) ?? [];
+			const separator = label.indexOf(' - ');
+			pending = {
+				durationSeconds: Number(duration) > 0 ? Number(duration) : undefined,
+				artist: separator > 0 ? label.slice(0, separator).trim() : undefined,
+				title: (separator > 0 ? label.slice(separator + 3) : label).trim() || undefined
+			};
+			continue;
+		}
+		if (line.startsWith('#EXTALB:')) {
+			pending.album = line.slice('#EXTALB:'.length).trim() || undefined;
+			continue;
+		}
+		if (line.startsWith('#')) continue;
+		entries.push(withIdentifiers({ ...pending, location: line }));
+		pending = {};
+	}
+	return entries;
+}
+
+const decodeXml = (value: string): string =>
+	value
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&');
+
+function readXmlElements(block: string, tag: string): string[] {
+	const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+	return Array.from(block.matchAll(pattern), (match) => decodeXml(match[1]).trim());
+}
+
+function fromXspfLocation(location: string): string {
+	if (isUrlLocation(location) || location.toLowerCase().startsWith('file:')) {
+		return location;
+	}
+	try {
+		return decodeURIComponent(location);
+	} catch {
+		return location;
+	}
+}
+
+export function parseXspf(content: string): PlaylistFileEntry[] {
+	const entries: PlaylistFileEntry[] = [];
+	for (const [, block] of content.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi)) {
+		const identifiers = readXmlElements(block, 'identifier');
+		const location = readXmlElements(block, 'location')[0];
+		const durationMs = Number(readXmlElements(block, 'duration')[0]);
+		entries.push(
+			withIdentifiers({
+				location: location ? fromXspfLocation(location) : undefined,
+				tidalId: identifiers.map(parseTidalTrackId).find((id) => id !== undefined),
+				isrc: identifiers.map(normalizeIsrc).find(Boolean),
+				title: readXmlElements(block, 'title')[0] || undefined,
+				artist: readXmlElements(block, 'creator')[0] || undefined,
+				album: readXmlElements(block, 'album')[0] || undefined,
+				durationSeconds: durationMs > 0 ? durationMs / 1000 : undefined
+			})
+		);
+	}
+	return entries;
+}
+
+function parseCsvRows(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+	const text = content.replace(/^\uFEFF/, '');
+	for (let index = 0; index < text.length; index += 1) {
+		const char = text[index];
+		if (quoted) {
+			if (char === '"' && text[index + 1] === '"') {
+				field += '"';
+				index += 1;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[index + 1] === '\n') index += 1;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const parseDurationLabel = (value: string | undefined): number | undefined => {
+	const parts = value?.split(':').map(Number);
+	if (!parts || parts.length < 2 || parts.some((part) => !Number.isFinite(part))) return undefined;
+	const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+	return seconds > 0 ? seconds : undefined;
+};
+
+/** Reads the queue CSV export; other CSVs work when they have matching header names. */
+export function parseQueueCsv(content: string): PlaylistFileEntry[] {
+	const [header, ...rows] = parseCsvRows(content);
+	if (!header) return [];
+	const columns = header.map((cell) => cell.trim().toLowerCase());
+	const column = (...names: string[]) => columns.findIndex((name) => names.includes(name));
+	const indexes = {
+		tidalId: column('tidal id', 'tidal_id', 'track id'),
+		isrc: column('isrc'),
+		path: column('path', 'location', 'file'),
+		title: column('title', 'track', 'name'),
+		artist: column('artist', 'artists'),
+		album: column('album'),
+		duration: column('duration')
+	};
+	const read = (cells: string[], index: number) =>
+		index >= 0 ? cells[index]?.trim() || undefined : undefined;
+	return rows.map((cells) =>
+		withIdentifiers({
+			location: read(cells, indexes.path),
+			tidalId: parseTidalTrackId(read(cells, indexes.tidalId)),
+			isrc: read(cells, indexes.isrc),
+			title: read(cells, indexes.title),
+			artist: read(cells, indexes.artist),
+			album: read(cells, indexes.album),
+			durationSeconds: parseDurationLabel(read(cells, indexes.duration))
+		})
+	);
+}
+
+export function parsePlaylistFile(
+	format: PlaylistFileFormat,
+	content: string
+): PlaylistFileEntry[] {
+	switch (format) {
+		case 'm3u8':
+			return parseM3u8(content);
+		case 'xspf':
+			return parseXspf(content);
+		case 'csv':
+			return parseQueueCsv(content);
+	}
+}
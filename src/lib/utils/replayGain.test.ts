@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { computeReplayGainFactor, readReplayGainInfo, selectReplayGain } from './replayGain';
+
+describe('replayGain', () => {
+	const info = { trackGain: -6, trackPeak: 0.8, albumGain: -8, albumPeak: 0.95 };
+
+	it('reads normalization data from TIDAL track info', () => {
+		expect(
+			readReplayGainInfo({
+				trackReplayGain: -6,
+				trackPeakAmplitude: 0.8,
+				albumReplayGain: -8,
+				albumPeakAmplitude: 0.95
+			})
+		).toEqual(info);
+		expect(readReplayGainInfo({ trackPeakAmplitude: 0.8 })).toBeNull();
+		expect(readReplayGainInfo(undefined)).toBeNull();
+	});
+
+	it('picks the gain for the normalization mode', () => {
+		expect(selectReplayGain(info, 'track')).toEqual({ mode: 'track', gain: -6, peak: 0.8 });
+		expect(selectReplayGain(info, 'album')).toEqual({ mode: 'album', gain: -8, peak: 0.95 });
+		expect(selectReplayGain(info, 'off')).toEqual({ mode: 'off', gain: null, peak: null });
+		expect(selectReplayGain({ ...info, albumGain: null, albumPeak: null }, 'album')).toEqual({
+			mode: 'album',
+			gain: -6,
+			peak: 0.8
+		});
+	});
+
+	it('applies the pre-amp and keeps the peak at or below full scale', () => {
+		expect(computeReplayGainFactor({ gain: -6, peak: null }, 0)).toBeCloseTo(0.501, 3);
+		expect(computeReplayGainFactor({ gain: -6, peak: null }, 6)).toBeCloseTo(1, 5);
+		expect(computeReplayGainFactor({ gain: 0, peak: 1.25 }, 0)).toBeCloseTo(0.8, 5);
+		expect(computeReplayGainFactor({ gain: null, peak: 0.5 }, 6)).toBe(1);
+		expect(computeReplayGainFactor(null, 6)).toBe(1);
+	});
+});
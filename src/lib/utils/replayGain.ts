@@ -0,0 +1,73 @@
+import type {
+	AppliedReplayGain,
+	LoudnessNormalizationMode,
+	ReplayGainInfo,
+	TrackInfo
+} from '$lib/types';
+
+export const MIN_PREAMP_DB = -12;
+export const MAX_PREAMP_DB = 12;
+
+export const NO_REPLAY_GAIN: AppliedReplayGain = { mode: 'off', gain: null, peak: null };
+
+const finiteOrNull = (value: unknown): number | null =>
+	typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+export const readReplayGainInfo = (
+	info:
+		| Pick<
+				TrackInfo,
+				'trackReplayGain' | 'trackPeakAmplitude' | 'albumReplayGain' | 'albumPeakAmplitude'
+		  >
+		| null
+		| undefined
+): ReplayGainInfo | null => {
+	if (!info) {
+		return null;
+	}
+	const replayGain = {
+		trackGain: finiteOrNull(info.trackReplayGain),
+		trackPeak: finiteOrNull(info.trackPeakAmplitude),
+		albumGain: finiteOrNull(info.albumReplayGain),
+		albumPeak: finiteOrNull(info.albumPeakAmplitude)
+	};
+	return replayGain.trackGain === null && replayGain.albumGain === null ? null : replayGain;
+};
+
+/**
+ * Pick the gain for a normalization mode. Album mode falls back to the track gain when the
+ * album value is missing, so singles and untagged albums are still levelled.
+ */
+export const selectReplayGain = (
+	info: ReplayGainInfo | null | undefined,
+	mode: LoudnessNormalizationMode
+): AppliedReplayGain => {
+	if (mode === 'off' || !info) {
+		return { ...NO_REPLAY_GAIN, mode };
+	}
+	if (mode === 'album' && info.albumGain !== null) {
+		return { mode, gain: info.albumGain, peak: info.albumPeak ?? info.trackPeak };
+	}
+	return { mode, gain: info.trackGain, peak: info.trackPeak };
+};
+
+export const clampPreampDb = (value: number): number =>
+	Number.isFinite(value) ? Math.min(MAX_PREAMP_DB, Math.max(MIN_PREAMP_DB, Math.round(value))) : 0;
+
+/**
+ * Linear factor for the selected gain plus pre-amp. The factor is capped at 1/peak so the
+ * loudest sample stays at or below full scale.
+ */
+export const computeReplayGainFactor = (
+	replayGain: Pick<AppliedReplayGain, 'gain' | 'peak'> | null,
+	preampDb: number
+): number => {
+	if (!replayGain || replayGain.gain === null) {
+		return 1;
+	}
+	const factor = Math.pow(10, (replayGain.gain + preampDb) / 20);
+	if (replayGain.peak !== null && replayGain.peak > 0) {
+		return Math.min(factor, 1 / replayGain.peak);
+	}
+	return factor;
+};
@@ -323,6 +323,115 @@ export const PlayerStateSchema = z.object({
 	queueIndex: z.number().min(-1)
 });
 
+// Public /api/v1 surface for scripts; the OpenAPI document is generated from these
+const ApiV1QualitySchema = z
+	.enum(['HI_RES_LOSSLESS', 'LOSSLESS', 'HIGH', 'LOW'])
+	.describe('Preferred quality; lower qualities are used when it is unavailable');
+
+const ApiV1MusicBrainzOptionsSchema = z.object({
+	experimentalMusicBrainzTagging: z.boolean().optional(),
+	strictMusicBrainzMatching: z.boolean().optional(),
+	musicBrainzReleaseId: z.string().optional(),
+	forceOverwrite: z.boolean().optional()
+});
+
+export const ApiV1TrackJobSchema = ApiV1MusicBrainzOptionsSchema.extend({
+	type: z.literal('track'),
+	trackId: z.number().int().positive(),
+	quality: ApiV1QualitySchema,
+	albumTitle: z.string().optional(),
+	artistName: z.string().optional(),
+	trackTitle: z.string().optional(),
+	trackNumber: z.number().int().positive().optional(),
+	coverUrl: z.string().optional()
+});
+
+export const ApiV1AlbumJobSchema = ApiV1MusicBrainzOptionsSchema.extend({
+	type: z.literal('album'),
+	albumId: z.number().int().positive(),
+	quality: ApiV1QualitySchema,
+	albumTitle: z.string().optional(),
+	artistName: z.string().optional(),
+	trackCount: z.number().int().positive().optional()
+});
+
+export const ApiV1DownloadJobSchema = z.discriminatedUnion('type', [
+	ApiV1TrackJobSchema,
+	ApiV1AlbumJobSchema
+]);
+
+export const ApiV1EnqueueRequestSchema = z.object({
+	job: ApiV1DownloadJobSchema,
+	priority: z.enum(['low', 'normal', 'high']).optional(),
+	maxRetries: z.number().int().min(0).max(10).optional(),
+	checkDuplicate: z
+		.boolean()
+		.optional()
+		.describe('Skip jobs already in the queue or the library (default true)')
+});
+
+export const ApiV1JobSchema = z.object({
+	id: z.string(),
+	status: z.enum(['queued', 'processing', 'paused', 'completed', 'failed', 'cancelled']),
+	progress: z.number().min(0).max(1),
+	job: ApiV1DownloadJobSchema,
+	error: z.string().optional(),
+	createdAt: z.number().describe('Unix time in milliseconds'),
+	startedAt: z.number().optional(),
+	completedAt: z.number().optional(),
+	trackCount: z.number().optional(),
+	completedTracks: z.number().optional(),
+	outputPath: z.string().optional()
+});
+
+export const ApiV1JobResponseSchema = z.object({
+	success: z.literal(true),
+	job: ApiV1JobSchema
+});
+
+export const ApiV1JobListResponseSchema = z.object({
+	success: z.literal(true),
+	jobs: z.array(ApiV1JobSchema)
+});
+
+export const ApiV1LibraryStatusRequestSchema = z.object({
+	albums: z
+		.array(
+			z.object({
+				id: z.number().int().describe('TIDAL album ID, used to key the response'),
+				artistName: z.string().optional(),
+				albumTitle: z.string().optional(),
+				expectedTrackCount: z.number().int().positive().optional()
+			})
+		)
+		.min(1)
+		.max(500)
+});
+
+export const ApiV1LibraryStatusResponseSchema = z.object({
+	success: z.literal(true),
+	albums: z.record(
+		z.string(),
+		z.object({
+			exists: z.boolean().describe('All expected tracks (or any, without a count) are present'),
+			matchedTracks: z.number()
+		})
+	)
+});
+
+export const ApiV1LibraryScanResponseSchema = z.object({
+	success: z.literal(true),
+	totalFiles: z.number(),
+	scannedAt: z.number()
+});
+
+export const ApiV1ErrorSchema = z.object({
+	success: z.literal(false),
+	error: z.string()
+});
+
+export type ApiV1Job = z.infer<typeof ApiV1JobSchema>;
+
 // Validation helpers
 export function validateApiResponse<T>(data: unknown, schema: z.ZodSchema<T>): T {
 	try {
@@ -1,8 +1,9 @@
 import type { LayoutServerLoad } from './$types';
 import { env } from '$env/dynamic/private';
 
-export const load: LayoutServerLoad = () => {
+export const load: LayoutServerLoad = ({ locals }) => {
 	return {
-		title: env.TITLE ?? 'BiniLossless'
+		title: env.TITLE ?? 'BiniLossless',
+		auth: locals.auth
 	};
 };
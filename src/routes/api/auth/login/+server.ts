@@ -0,0 +1,50 @@
+/**
+ * Sign in
+ * POST: Exchange account credentials or the admin token for a session cookie
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AuthError, SESSION_COOKIE_NAME, login } from '$lib/server/auth';
+
+/**
+ * POST /api/auth/login
+ *
+ * Body: { username: string, password: string } | { token: string }
+ */
+export const POST: RequestHandler = async ({ request, cookies, url, getClientAddress }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as {
+			username?: unknown;
+			password?: unknown;
+			token?: unknown;
+		} | null;
+		const credentials = {
+			username: typeof body?.username === 'string' ? body.username.trim() : undefined,
+			password: typeof body?.password === 'string' ? body.password : undefined,
+			token: typeof body?.token === 'string' ? body.token.trim() : undefined
+		};
+		if (!credentials.token && !(credentials.username && credentials.password)) {
+			return json(
+				{ success: false, error: 'Provide a username and password, or the admin token' },
+				{ status: 400 }
+			);
+		}
+		const result = await login(credentials, getClientAddress());
+		cookies.set(SESSION_COOKIE_NAME, result.sessionToken, {
+			path: '/',
+			httpOnly: true,
+			sameSite: 'lax',
+			secure: url.protocol === 'https:',
+			expires: new Date(result.expiresAt)
+		});
+		return json({ success: true, user: result.user });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] POST login error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,16 @@
+/**
+ * Sign out
+ * POST: Clear the session cookie
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { SESSION_COOKIE_NAME } from '$lib/server/auth';
+
+/**
+ * POST /api/auth/logout
+ */
+export const POST: RequestHandler = async ({ cookies }) => {
+	cookies.delete(SESSION_COOKIE_NAME, { path: '/' });
+	return json({ success: true });
+};
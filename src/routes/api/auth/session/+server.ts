@@ -0,0 +1,14 @@
+/**
+ * Current session
+ * GET: Whether sign-in is required and who the request is signed in as
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/auth/session
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+	return json({ success: true, enabled: locals.auth.enabled, user: locals.auth.user });
+};
@@ -0,0 +1,79 @@
+/**
+ * Personal API tokens for the /api/v1 routes
+ * GET: List the caller's tokens (all tokens for admins)
+ * POST: Create a token; the secret is only returned once
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	API_TOKEN_SCOPES,
+	AuthError,
+	createApiToken,
+	listApiTokens,
+	normalizeApiTokenName,
+	parseApiTokenScopes
+} from '$lib/server/auth';
+
+/**
+ * GET /api/auth/tokens
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		const actor = locals.auth.user;
+		return json({ success: true, tokens: actor ? await listApiTokens(actor) : [] });
+	} catch (error) {
+		console.error('[Auth API] GET tokens error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/auth/tokens
+ *
+ * Body: { name: string, scopes: Array<'queue:read' | 'queue:write' | 'library:maintain'>, owner?: string }
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	try {
+		const actor = locals.auth.user;
+		if (!actor) {
+			return json({ success: false, error: 'Sign in required' }, { status: 401 });
+		}
+		const body = (await request.json().catch(() => null)) as {
+			name?: unknown;
+			scopes?: unknown;
+			owner?: unknown;
+		} | null;
+		const name = normalizeApiTokenName(body?.name);
+		if (!name.ok) {
+			return json({ success: false, error: name.error }, { status: 400 });
+		}
+		const scopes = parseApiTokenScopes(body?.scopes);
+		if (!scopes) {
+			return json(
+				{
+					success: false,
+					error: `scopes must be a non-empty list of: ${API_TOKEN_SCOPES.join(', ')}`
+				},
+				{ status: 400 }
+			);
+		}
+		if (body?.owner !== undefined && typeof body.owner !== 'string') {
+			return json({ success: false, error: 'owner must be a string' }, { status: 400 });
+		}
+		const created = await createApiToken(actor, {
+			name: name.name,
+			scopes,
+			owner: body?.owner
+		});
+		return json({ success: true, ...created }, { status: 201 });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] POST tokens error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,29 @@
+/**
+ * A single API token
+ * DELETE: Revoke it (owners and admins)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AuthError, revokeApiToken } from '$lib/server/auth';
+
+/**
+ * DELETE /api/auth/tokens/:tokenId
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		const actor = locals.auth.user;
+		if (!actor) {
+			return json({ success: false, error: 'Sign in required' }, { status: 401 });
+		}
+		await revokeApiToken(actor, params.tokenId);
+		return json({ success: true });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] DELETE token error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
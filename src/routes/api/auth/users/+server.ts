@@ -0,0 +1,72 @@
+/**
+ * Local accounts (admin only)
+ * GET: List accounts
+ * POST: Create an account; the first one must be an admin and switches sign-in on
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	AuthError,
+	createAccount,
+	listAccounts,
+	normalizePassword,
+	normalizeUsername,
+	parseAuthRole
+} from '$lib/server/auth';
+
+/**
+ * GET /api/auth/users
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		return json({ success: true, accounts: await listAccounts() });
+	} catch (error) {
+		console.error('[Auth API] GET users error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/auth/users
+ *
+ * Body: { username: string, password: string, role: 'listener' | 'downloader' | 'admin' }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as {
+			username?: unknown;
+			password?: unknown;
+			role?: unknown;
+		} | null;
+		const username = normalizeUsername(body?.username);
+		if (!username.ok) {
+			return json({ success: false, error: username.error }, { status: 400 });
+		}
+		const password = normalizePassword(body?.password);
+		if (!password.ok) {
+			return json({ success: false, error: password.error }, { status: 400 });
+		}
+		const role = parseAuthRole(body?.role);
+		if (!role) {
+			return json(
+				{ success: false, error: 'role must be one of: listener, downloader, admin' },
+				{ status: 400 }
+			);
+		}
+		const account = await createAccount({
+			username: username.username,
+			password: password.password,
+			role
+		});
+		return json({ success: true, account }, { status: 201 });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] POST users error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,76 @@
+/**
+ * Single local account (admin only)
+ * PATCH: Change the role or reset the password (signs the account out everywhere)
+ * DELETE: Remove the account
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	AuthError,
+	deleteAccount,
+	normalizePassword,
+	parseAuthRole,
+	updateAccount,
+	type AuthRole
+} from '$lib/server/auth';
+
+/**
+ * PATCH /api/auth/users/:username
+ *
+ * Body: { role?: 'listener' | 'downloader' | 'admin', password?: string }
+ */
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as {
+			role?: unknown;
+			password?: unknown;
+		} | null;
+		const update: { role?: AuthRole; password?: string } = {};
+		if (body?.role !== undefined) {
+			const role = parseAuthRole(body.role);
+			if (!role) {
+				return json(
+					{ success: false, error: 'role must be one of: listener, downloader, admin' },
+					{ status: 400 }
+				);
+			}
+			update.role = role;
+		}
+		if (body?.password !== undefined) {
+			const password = normalizePassword(body.password);
+			if (!password.ok) {
+				return json({ success: false, error: password.error }, { status: 400 });
+			}
+			update.password = password.password;
+		}
+		if (!update.role && !update.password) {
+			return json({ success: false, error: 'Nothing to update' }, { status: 400 });
+		}
+		return json({ success: true, account: await updateAccount(params.username, update) });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] PATCH user error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/auth/users/:username
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		await deleteAccount(params.username);
+		return json({ success: true });
+	} catch (error) {
+		if (error instanceof AuthError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Auth API] DELETE user error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -2,7 +2,13 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from '@sveltejs/kit';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { buildServerFilename, getDownloadDir, getServerExtension, sanitizeDirName } from '$lib/server/download/shared';
+import { getDownloadDir, getServerExtension } from '$lib/server/download/shared';
+import {
+	buildNamingTemplateValues,
+	getNamingTemplateConfig,
+	renderAlbumFolders,
+	renderTrackFilename
+} from '$lib/server/download/namingTemplates';
 import type { AudioQuality, TrackLookup } from '$lib/types';
 
 export const POST: RequestHandler = async ({ request }) => {
@@ -33,20 +39,23 @@ export const POST: RequestHandler = async ({ request }) => {
 		// Determine file extension based on server rules
 		const ext = getServerExtension(quality, null, detectedMimeType);
 
-		// Generate filename using canonical server naming
-		const filename = buildServerFilename(
+		// Generate filename and folders using the configured naming templates
+		const namingConfig = await getNamingTemplateConfig();
+		const namingInput = {
 			artistName,
+			albumTitle,
 			trackTitle,
 			trackId,
-			ext,
-			trackMetadata,
-			trackNumber
-		);
+			trackNumber,
+			quality,
+			trackMetadata
+		};
+		const namingValues = buildNamingTemplateValues(namingInput);
+		const filename = renderTrackFilename(namingConfig, { ...namingInput, ext }, namingValues);
 
 		// Check if file exists in expected location
 		const baseDir = getDownloadDir();
-		const artistDir = sanitizeDirName(artistName || 'Unknown Artist');
-		const albumDir = sanitizeDirName(albumTitle || 'Unknown Album');
+		const { artistDir, albumDir } = renderAlbumFolders(namingConfig, namingValues);
 		const expectedPath = path.join(baseDir, artistDir, albumDir, filename);
 
 		try {
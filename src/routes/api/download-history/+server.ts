@@ -0,0 +1,34 @@
+/**
+ * Download history ledger
+ * GET: Paginated, filterable list of jobs that reached a terminal state
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { parseDownloadHistoryQuery, queryDownloadHistory } from '$lib/server/downloadHistory';
+
+/**
+ * GET /api/download-history
+ *
+ * Query: ?status=completed|failed|cancelled&type=track|album&quality=LOSSLESS
+ *        &q=<artist/album/track/path or numeric id>&since=<ms|ISO>&until=<ms|ISO>
+ *        &limit=50&offset=0
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const parsed = parseDownloadHistoryQuery(url.searchParams);
+		if (!parsed.ok) {
+			return json({ success: false, error: parsed.error }, { status: 400 });
+		}
+
+		const page = await queryDownloadHistory(parsed.query);
+		return json({
+			success: true,
+			...page
+		});
+	} catch (error) {
+		console.error('[Download History API] GET error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
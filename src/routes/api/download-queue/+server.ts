@@ -6,7 +6,13 @@
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { enqueueJob, getQueueSnapshot, type DownloadJob } from '$lib/server/downloadQueueManager';
+import {
+	enqueueJobWithOutcome,
+	getQueueBatch,
+	getQueueSnapshot,
+	validateJobDependencies,
+	type DownloadJob
+} from '$lib/server/downloadQueueManager';
 
 /**
  * POST /api/download-queue
@@ -17,18 +23,34 @@ import { enqueueJob, getQueueSnapshot, type DownloadJob } from '$lib/server/down
  *   priority?: 'low' | 'normal' | 'high',
  *   maxRetries?: number,
  *   checkDuplicate?: boolean,
- *   forceOverwrite?: boolean
+ *   forceOverwrite?: boolean,
+ *   batchId?: string,
+ *   dependsOn?: string[]
  * }
+ *
+ * Every dependsOn job must exist and still be able to complete. When an existing job is
+ * returned instead of a new one, `outcome` says why and `dependsOnIgnored` is set if
+ * dependsOn was given, since the existing job keeps its own dependencies.
  */
 export const POST: RequestHandler = async ({ request }) => {
 	try {
 		const body = await request.json();
-		const { job, priority = 'normal', maxRetries = 3, checkDuplicate = true, forceOverwrite = false } = body as {
+		const {
+			job,
+			priority = 'normal',
+			maxRetries = 3,
+			checkDuplicate = true,
+			forceOverwrite = false,
+			batchId,
+			dependsOn
+		} = body as {
 			job: DownloadJob;
 			priority?: 'low' | 'normal' | 'high';
 			maxRetries?: number;
 			checkDuplicate?: boolean;
 			forceOverwrite?: boolean;
+			batchId?: string;
+			dependsOn?: string[];
 		};
 
 		if (!job || !job.type) {
@@ -137,22 +159,66 @@ export const POST: RequestHandler = async ({ request }) => {
 			);
 		}
 
+		if (batchId !== undefined) {
+			if (typeof batchId !== 'string' || batchId.trim().length === 0) {
+				return json(
+					{ success: false, error: 'batchId must be a non-empty string' },
+					{ status: 400 }
+				);
+			}
+			if (!(await getQueueBatch(batchId.trim()))) {
+				return json(
+					{ success: false, error: 'Batch not found' },
+					{ status: 404 }
+				);
+			}
+		}
+
+		if (
+			dependsOn !== undefined &&
+			(!Array.isArray(dependsOn) ||
+				dependsOn.some((dependencyId) => typeof dependencyId !== 'string' || !dependencyId))
+		) {
+			return json(
+				{ success: false, error: 'dependsOn must be an array of job IDs' },
+				{ status: 400 }
+			);
+		}
+
+		if (dependsOn && dependsOn.length > 0) {
+			const dependencyError = await validateJobDependencies(dependsOn);
+			if (dependencyError) {
+				return json(
+					{ success: false, error: dependencyError },
+					{ status: 409 }
+				);
+			}
+		}
+
 		const normalizedJob = forceOverwrite
 			? ({ ...job, forceOverwrite: true } as DownloadJob)
 			: job;
 
-		const jobId = await enqueueJob(normalizedJob, {
+		const { jobId, outcome } = await enqueueJobWithOutcome(normalizedJob, {
 			priority,
 			maxRetries,
 			checkDuplicate,
-			forceOverwrite
+			forceOverwrite,
+			batchId,
+			dependsOn
 		});
 		const snapshot = await getQueueSnapshot();
+		const dependsOnIgnored = outcome !== 'created' && !!dependsOn && dependsOn.length > 0;
 
 		return json({
 			success: true,
 			jobId,
-			message: `${job.type} job queued successfully`,
+			outcome,
+			message:
+				outcome === 'created'
+					? `${job.type} job queued successfully`
+					: `${job.type} job already exists as ${jobId}${dependsOnIgnored ? '; dependsOn was not applied' : ''}`,
+			...(dependsOnIgnored ? { dependsOnIgnored: true } : {}),
 			warning: snapshot.warning
 		});
 	} catch (error) {
@@ -119,7 +119,8 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 				return json(
 					{
 						success: false,
-						error: 'Could not retry job (not found or status is not failed/cancelled)'
+						error:
+							'Could not retry job (not found, status is not failed/cancelled, or blocked by a failed dependency)'
 					},
 					{ status: 400 }
 				);
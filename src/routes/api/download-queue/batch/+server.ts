@@ -0,0 +1,83 @@
+/**
+ * Download queue batches
+ * GET: List batches with aggregate status
+ * POST: Create a batch to group subsequently submitted jobs
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	createQueueBatch,
+	listQueueBatchSummaries,
+	type QueueBatchSource
+} from '$lib/server/downloadQueueManager';
+
+const BATCH_SOURCES: QueueBatchSource[] = ['discography', 'repair-all', 'quality-upgrade', 'manual'];
+
+/**
+ * GET /api/download-queue/batch
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const batches = await listQueueBatchSummaries();
+		return json({
+			success: true,
+			batches
+		});
+	} catch (error) {
+		console.error('[Queue API] Batch list error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/download-queue/batch
+ *
+ * Body: {
+ *   label: string,
+ *   source?: 'discography' | 'repair-all' | 'quality-upgrade' | 'manual',
+ *   createdByRoute?: string
+ * }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as {
+			label?: unknown;
+			source?: unknown;
+			createdByRoute?: unknown;
+		} | null;
+
+		const label = typeof body?.label === 'string' ? body.label.trim() : '';
+		if (!label) {
+			return json({ success: false, error: 'label must be a non-empty string' }, { status: 400 });
+		}
+
+		const source = body?.source ?? 'manual';
+		if (!BATCH_SOURCES.includes(source as QueueBatchSource)) {
+			return json(
+				{ success: false, error: `source must be one of: ${BATCH_SOURCES.join(', ')}` },
+				{ status: 400 }
+			);
+		}
+
+		if (body?.createdByRoute !== undefined && typeof body.createdByRoute !== 'string') {
+			return json({ success: false, error: 'createdByRoute must be a string' }, { status: 400 });
+		}
+
+		const batch = await createQueueBatch({
+			label: label.slice(0, 200),
+			source: source as QueueBatchSource,
+			createdByRoute: body?.createdByRoute as string | undefined
+		});
+
+		return json({
+			success: true,
+			batch
+		});
+	} catch (error) {
+		console.error('[Queue API] Batch POST error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,68 @@
+/**
+ * Individual batch operations
+ * GET: Aggregate status for every job in the batch
+ * PATCH: Bulk pause/resume/cancel/retry
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getQueueBatchSummary,
+	requestBatchAction,
+	type QueueBatchAction
+} from '$lib/server/downloadQueueManager';
+
+const BATCH_ACTIONS: QueueBatchAction[] = ['pause', 'resume', 'cancel', 'retry'];
+
+/**
+ * GET /api/download-queue/batch/:batchId
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const summary = await getQueueBatchSummary(params.batchId);
+		if (!summary) {
+			return json({ success: false, error: 'Batch not found' }, { status: 404 });
+		}
+
+		return json({
+			success: true,
+			...summary
+		});
+	} catch (error) {
+		console.error('[Queue API] GET batch error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * PATCH /api/download-queue/batch/:batchId
+ *
+ * Body: { action: 'pause' | 'resume' | 'cancel' | 'retry' }
+ */
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as { action?: unknown } | null;
+		const action = body?.action;
+		if (!BATCH_ACTIONS.includes(action as QueueBatchAction)) {
+			return json({ success: false, error: 'Unknown action' }, { status: 400 });
+		}
+
+		const result = await requestBatchAction(params.batchId, action as QueueBatchAction);
+		if (!result) {
+			return json({ success: false, error: 'Batch not found' }, { status: 404 });
+		}
+
+		const summary = await getQueueBatchSummary(params.batchId);
+		return json({
+			success: true,
+			action,
+			...result,
+			batch: summary
+		});
+	} catch (error) {
+		console.error('[Queue API] PATCH batch error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
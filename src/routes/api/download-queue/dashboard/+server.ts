@@ -1,15 +1,22 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getQueueSnapshot, getMetrics } from '$lib/server/downloadQueueManager';
+import {
+	getQueueSnapshot,
+	getMetrics,
+	listQueueBatchSummaries
+} from '$lib/server/downloadQueueManager';
 import { getWorkerStatus } from '$lib/server/downloadQueueWorker';
+import { getDownloadScheduleStatus } from '$lib/server/downloadQueueSchedule';
 import * as rateLimiter from '$lib/server/rateLimiter';
 
 export const GET: RequestHandler = async () => {
 	try {
-		const [snapshot, metrics, workerStatus] = await Promise.all([
+		const workerStatus = getWorkerStatus();
+		const [snapshot, metrics, schedule, batches] = await Promise.all([
 			getQueueSnapshot(),
 			getMetrics(),
-			Promise.resolve(getWorkerStatus())
+			getDownloadScheduleStatus(workerStatus.maxConcurrent),
+			listQueueBatchSummaries()
 		]);
 
 		const jobs = snapshot.jobs;
@@ -28,6 +35,8 @@ export const GET: RequestHandler = async () => {
 			queue,
 			metrics,
 			worker: workerStatus,
+			schedule,
+			batches,
 			queueSource: snapshot.source,
 			warning: snapshot.warning,
 			localMode: process.env.LOCAL_MODE !== 'false',
@@ -0,0 +1,87 @@
+import type { RequestHandler } from './$types';
+import {
+	getLatestDownloadQueueEventId,
+	subscribeDownloadQueueEvents,
+	type QueueEvent
+} from '$lib/server/downloadQueueEvents';
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /api/download-queue/events
+ * Server-sent events stream of queue changes: `job-created`, `job-updated`, `job-progress`,
+ * `job-terminal` and `job-removed`, each carrying `{ id, type, jobId, job?, at }`.
+ *
+ * Resumes after the `Last-Event-ID` header (sent by EventSource on reconnect) or the
+ * `lastEventId` query parameter. When the missed events are gone (restart, backlog overflow,
+ * Redis/memory switch) it sends `reset` and the client reloads the queue. A fresh stream
+ * starts with `ready`.
+ */
+export const GET: RequestHandler = async ({ request, url }) => {
+	const encoder = new TextEncoder();
+	const lastEventId =
+		request.headers.get('last-event-id')?.trim() || url.searchParams.get('lastEventId')?.trim();
+	const startId = lastEventId ? null : await getLatestDownloadQueueEventId();
+	let cleanup: (() => void) | null = null;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (chunk: string) => {
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					cleanup?.();
+				}
+			};
+			const sendEvent = (event: string, data: unknown, id?: string | null) => {
+				const idLine = id ? `id: ${id}\n` : '';
+				send(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+			};
+
+			const unsubscribe = subscribeDownloadQueueEvents(
+				(event: QueueEvent) => {
+					sendEvent(`job-${event.type}`, event, event.id);
+				},
+				{
+					// A fresh stream also replays from its start id, covering events published
+					// while the response was being set up
+					lastEventId: lastEventId || startId,
+					onReset: (latestId) => {
+						sendEvent('reset', { latestId }, latestId);
+					}
+				}
+			);
+			const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+			const onAbort = () => cleanup?.();
+
+			cleanup = () => {
+				cleanup = null;
+				unsubscribe();
+				clearInterval(heartbeat);
+				request.signal.removeEventListener('abort', onAbort);
+				try {
+					controller.close();
+				} catch {
+					// already closed by the client
+				}
+			};
+			request.signal.addEventListener('abort', onAbort);
+
+			if (startId) {
+				sendEvent('ready', { latestId: startId }, startId);
+			}
+		},
+		cancel() {
+			cleanup?.();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+			'X-Accel-Buffering': 'no'
+		}
+	});
+};
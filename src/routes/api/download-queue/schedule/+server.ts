@@ -0,0 +1,65 @@
+/**
+ * Download window and bandwidth budget configuration for the queue worker
+ * GET: Current schedule and live gate status
+ * PUT: Replace the schedule
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWorkerStatus } from '$lib/server/downloadQueueWorker';
+import {
+	getDownloadScheduleConfig,
+	getDownloadScheduleStatus,
+	normalizeScheduleConfig,
+	saveDownloadScheduleConfig
+} from '$lib/server/downloadQueueSchedule';
+
+/**
+ * GET /api/download-queue/schedule
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const schedule = await getDownloadScheduleConfig({ forceRefresh: true });
+		const status = await getDownloadScheduleStatus(getWorkerStatus().maxConcurrent);
+		return json({
+			success: true,
+			schedule,
+			status
+		});
+	} catch (error) {
+		console.error('[Queue API] Schedule GET error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * PUT /api/download-queue/schedule
+ *
+ * Body: {
+ *   enabled?: boolean,
+ *   windows: Array<{ start: 'HH:MM', end: 'HH:MM', days?: number[] }>,
+ *   bandwidthBudgetBytesPerSecond?: number | null
+ * }
+ */
+export const PUT: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeScheduleConfig(body);
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+
+		await saveDownloadScheduleConfig(normalized.config);
+		const status = await getDownloadScheduleStatus(getWorkerStatus().maxConcurrent);
+		return json({
+			success: true,
+			schedule: normalized.config,
+			status
+		});
+	} catch (error) {
+		console.error('[Queue API] Schedule PUT error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
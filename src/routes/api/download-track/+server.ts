@@ -9,7 +9,7 @@ import {
 	chunkUploads,
 	startCleanupInterval,
 	getTempDir,
-	sanitizeDirName,
+	toDownloadRelativePath,
 	ensureDir,
 	canStartUpload,
 	startUpload,
@@ -199,14 +199,13 @@ export const POST: RequestHandler = async ({ request, url }) => {
 					return json({ error: finalizeResult.error }, { status: finalizeResult.status });
 				}
 
-				const artistDir = sanitizeDirName(body.artistName || 'Unknown Artist');
-				const albumDir = sanitizeDirName(body.albumTitle || 'Unknown Album');
-				let message = `File saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`;
+				const savedPath = toDownloadRelativePath(finalizeResult.filepath);
+				let message = `File saved to ${savedPath}`;
 				if (finalizeResult.coverDownloaded) {
 					message += ' (with cover)';
 				}
 				if (finalizeResult.action === 'rename') {
-					message = `File renamed and saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`;
+					message = `File renamed and saved to ${savedPath}`;
 				}
 
 					return json(
@@ -509,9 +508,7 @@ export const POST: RequestHandler = async ({ request, url }) => {
 			}
 
 			endUpload(uploadId);
-			const artistDir = sanitizeDirName(artistName || 'Unknown Artist');
-			const albumDir = sanitizeDirName(albumTitle || 'Unknown Album');
-			let message = `File saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`;
+			let message = `File saved to ${toDownloadRelativePath(finalizeResult.filepath)}`;
 			if (finalizeResult.action === 'rename') message = `File renamed`;
 				return json(
 					{
@@ -2,7 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from '@sveltejs/kit';
 import {
 	pendingUploads,
-	sanitizeDirName,
+	toDownloadRelativePath,
 	MAX_FILE_SIZE,
 	validateChecksum,
 	endUpload
@@ -90,12 +90,11 @@ export const POST: RequestHandler = async ({ request, params }) => {
 		// Clean up the upload session
 		endUpload(uploadId);
 
-		const artistDir = sanitizeDirName(artistName || 'Unknown Artist');
-		const albumDir = sanitizeDirName(albumTitle || 'Unknown Album');
+		const savedPath = toDownloadRelativePath(finalizeResult.filepath);
 		const message =
 			finalizeResult.action === 'rename'
-				? `File renamed and saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`
-				: `File saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`
+				? `File renamed and saved to ${savedPath}`
+				: `File saved to ${savedPath}`
 					+ (finalizeResult.coverDownloaded ? ' (with cover)' : '');
 
 			return json(
@@ -4,7 +4,7 @@ import * as fs from 'fs/promises';
 import {
 	chunkUploads,
 	pendingUploads,
-	sanitizeDirName,
+	toDownloadRelativePath,
 	createDownloadError,
 	ERROR_CODES,
 	endUpload,
@@ -215,11 +215,10 @@ export const POST: RequestHandler = async ({ request, params }) => {
 
 			endUpload(uploadId);
 
-			const artistDir = sanitizeDirName(artistName || 'Unknown Artist');
-			const albumDir = sanitizeDirName(albumTitle || 'Unknown Album');
-			let message = `File saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`;
+			const savedPath = toDownloadRelativePath(finalizeResult.filepath);
+			let message = `File saved to ${savedPath}`;
 			if (finalizeResult.action === 'rename') {
-				message = `File renamed and saved to ${artistDir}/${albumDir}/${finalizeResult.filename}`;
+				message = `File renamed and saved to ${savedPath}`;
 			}
 			if (finalizeResult.coverDownloaded) {
 				message += ' (with cover)';
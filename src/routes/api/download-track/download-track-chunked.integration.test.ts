@@ -36,7 +36,7 @@ const createMockRequestEvent = (
 		},
 		fetch: global.fetch,
 		getClientAddress: vi.fn(() => '127.0.0.1'),
-		locals: {},
+		locals: { auth: { enabled: false, user: { name: 'local', role: 'admin', source: 'open' } } },
 		platform: undefined,
 		route: { id: null },
 		setHeaders: vi.fn(),
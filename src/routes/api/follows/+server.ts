@@ -0,0 +1,79 @@
+/**
+ * Followed artists
+ * GET: List followed artists
+ * POST: Follow an artist (or update an existing follow)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	followArtist,
+	getArtistFollow,
+	listArtistFollows,
+	normalizeFollowRules
+} from '$lib/server/artistFollows';
+
+type FollowRequestBody = {
+	artistId?: unknown;
+	artistName?: unknown;
+	picture?: unknown;
+	rules?: unknown;
+};
+
+/**
+ * GET /api/follows
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const follows = await listArtistFollows();
+		return json({ success: true, follows });
+	} catch (error) {
+		console.error('[Follows API] GET error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Failed to list follows' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * POST /api/follows
+ *
+ * Body: { artistId: number, artistName: string, picture?: string, rules?: Partial<ArtistFollowRules> }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as FollowRequestBody;
+		const artistId = Number(body.artistId);
+		if (!Number.isInteger(artistId) || artistId <= 0) {
+			return json(
+				{ success: false, error: 'artistId must be a positive integer' },
+				{ status: 400 }
+			);
+		}
+		const artistName = typeof body.artistName === 'string' ? body.artistName.trim() : '';
+		if (!artistName) {
+			return json({ success: false, error: 'artistName is required' }, { status: 400 });
+		}
+
+		const existing = await getArtistFollow(artistId);
+		const rules = normalizeFollowRules(body.rules, existing?.rules);
+		if (!rules.ok) {
+			return json({ success: false, error: rules.error }, { status: 400 });
+		}
+
+		const follow = await followArtist({
+			artistId,
+			artistName,
+			picture: typeof body.picture === 'string' ? body.picture : undefined,
+			rules: rules.rules
+		});
+		return json({ success: true, follow }, { status: existing ? 200 : 201 });
+	} catch (error) {
+		console.error('[Follows API] POST error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Failed to follow artist' },
+			{ status: 500 }
+		);
+	}
+};
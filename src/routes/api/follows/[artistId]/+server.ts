@@ -0,0 +1,99 @@
+/**
+ * Single followed artist
+ * GET: Follow details and detected releases
+ * PATCH: Update follow rules
+ * DELETE: Unfollow
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getArtistFollow,
+	listArtistNewReleases,
+	normalizeFollowRules,
+	unfollowArtist,
+	updateArtistFollowRules
+} from '$lib/server/artistFollows';
+
+function parseArtistId(raw: string): number | null {
+	const artistId = Number(raw);
+	return Number.isInteger(artistId) && artistId > 0 ? artistId : null;
+}
+
+/**
+ * GET /api/follows/:artistId
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const artistId = parseArtistId(params.artistId);
+		if (artistId === null) {
+			return json({ success: false, error: 'Invalid artist id' }, { status: 400 });
+		}
+		const follow = await getArtistFollow(artistId);
+		if (!follow) {
+			return json({ success: false, error: 'Artist is not followed' }, { status: 404 });
+		}
+		const releases = await listArtistNewReleases({ artistId });
+		return json({ success: true, follow, releases });
+	} catch (error) {
+		console.error('[Follows API] GET follow error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * PATCH /api/follows/:artistId
+ *
+ * Body: { rules: Partial<ArtistFollowRules> }
+ */
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	try {
+		const artistId = parseArtistId(params.artistId);
+		if (artistId === null) {
+			return json({ success: false, error: 'Invalid artist id' }, { status: 400 });
+		}
+		const existing = await getArtistFollow(artistId);
+		if (!existing) {
+			return json({ success: false, error: 'Artist is not followed' }, { status: 404 });
+		}
+		const body = (await request.json().catch(() => ({}))) as { rules?: unknown };
+		const rules = normalizeFollowRules(body.rules, existing.rules);
+		if (!rules.ok) {
+			return json({ success: false, error: rules.error }, { status: 400 });
+		}
+		const follow = await updateArtistFollowRules(artistId, rules.rules);
+		return json({ success: true, follow });
+	} catch (error) {
+		console.error('[Follows API] PATCH error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * DELETE /api/follows/:artistId
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		const artistId = parseArtistId(params.artistId);
+		if (artistId === null) {
+			return json({ success: false, error: 'Invalid artist id' }, { status: 400 });
+		}
+		const removed = await unfollowArtist(artistId);
+		if (!removed) {
+			return json({ success: false, error: 'Artist is not followed' }, { status: 404 });
+		}
+		return json({ success: true });
+	} catch (error) {
+		console.error('[Follows API] DELETE error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
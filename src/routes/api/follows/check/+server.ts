@@ -0,0 +1,45 @@
+/**
+ * Check followed artists now
+ * POST: Diff discographies against their snapshots and apply follow rules
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { checkFollowedArtists, getArtistFollow } from '$lib/server/artistFollows';
+
+/**
+ * POST /api/follows/check
+ *
+ * Body: { artistId?: number } - defaults to every followed artist
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { artistId?: unknown };
+		let artistId: number | undefined;
+		if (body.artistId !== undefined) {
+			artistId = Number(body.artistId);
+			if (!Number.isInteger(artistId) || artistId <= 0) {
+				return json(
+					{ success: false, error: 'artistId must be a positive integer' },
+					{ status: 400 }
+				);
+			}
+			if (!(await getArtistFollow(artistId))) {
+				return json({ success: false, error: 'Artist is not followed' }, { status: 404 });
+			}
+		}
+		const results = await checkFollowedArtists({ artistId });
+		return json({
+			success: true,
+			results,
+			newReleases: results.reduce((sum, result) => sum + result.newReleases.length, 0),
+			queued: results.reduce((sum, result) => sum + result.queued, 0)
+		});
+	} catch (error) {
+		console.error('[Follows API] check error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Failed to check follows' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,26 @@
+/**
+ * New-release feed
+ * GET: Releases detected for followed artists, newest first
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listArtistNewReleases } from '$lib/server/artistFollows';
+
+/**
+ * GET /api/follows/releases?limit=50
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const limitParam = Number(url.searchParams.get('limit'));
+		const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : undefined;
+		const releases = await listArtistNewReleases({ limit });
+		return json({ success: true, releases });
+	} catch (error) {
+		console.error('[Follows API] releases error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Failed to list releases' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,86 @@
+/**
+ * Listening history sync
+ * GET: Play events, newest first
+ * POST: Append play events (already-stored events are ignored)
+ * DELETE: Clear the server copy
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	appendListeningEvents,
+	clearListeningHistory,
+	parseListeningEventsBody,
+	parseListeningHistoryQuery,
+	queryListeningEvents
+} from '$lib/server/listeningHistory';
+
+/**
+ * GET /api/listening-history
+ *
+ * Query: ?since=<ms>&limit=500
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const parsed = parseListeningHistoryQuery(url.searchParams);
+		if (!parsed.ok) {
+			return json({ success: false, error: parsed.error }, { status: 400 });
+		}
+		const page = await queryListeningEvents(parsed.query);
+		return json({ success: true, ...page });
+	} catch (error) {
+		console.error('[Listening History API] GET error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to read listening history'
+			},
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * POST /api/listening-history
+ *
+ * Body: { events: ListeningEvent[] }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const parsed = parseListeningEventsBody(body);
+		if (!parsed.ok) {
+			return json({ success: false, error: parsed.error }, { status: 400 });
+		}
+		const added = await appendListeningEvents(parsed.events);
+		return json({ success: true, added });
+	} catch (error) {
+		console.error('[Listening History API] POST error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to store listening history'
+			},
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * DELETE /api/listening-history
+ */
+export const DELETE: RequestHandler = async () => {
+	try {
+		await clearListeningHistory();
+		return json({ success: true });
+	} catch (error) {
+		console.error('[Listening History API] DELETE error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to clear listening history'
+			},
+			{ status: 500 }
+		);
+	}
+};
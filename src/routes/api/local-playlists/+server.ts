@@ -0,0 +1,60 @@
+/**
+ * Saved playlists
+ * GET: List playlists (summaries without tracks)
+ * POST: Create a playlist, optionally with tracks (e.g. the current queue)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	createLocalPlaylist,
+	listLocalPlaylists,
+	normalizePlaylistName,
+	normalizePlaylistTracks
+} from '$lib/server/localPlaylists';
+
+/**
+ * GET /api/local-playlists
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const playlists = await listLocalPlaylists();
+		return json({ success: true, playlists });
+	} catch (error) {
+		console.error('[Playlists API] GET error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to list playlists'
+			},
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * POST /api/local-playlists
+ *
+ * Body: { name: string, tracks?: Track[] }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { name?: unknown; tracks?: unknown };
+		const name = normalizePlaylistName(body.name);
+		if (!name.ok) {
+			return json({ success: false, error: name.error }, { status: 400 });
+		}
+		const tracks = normalizePlaylistTracks(body.tracks ?? []);
+		if (!tracks.ok) {
+			return json({ success: false, error: tracks.error }, { status: 400 });
+		}
+		const playlist = await createLocalPlaylist({ name: name.name, tracks: tracks.tracks });
+		return json({ success: true, playlist }, { status: 201 });
+	} catch (error) {
+		console.error('[Playlists API] POST error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
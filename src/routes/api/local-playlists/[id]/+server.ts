@@ -0,0 +1,100 @@
+/**
+ * Single saved playlist
+ * GET: Playlist with its entries
+ * PATCH: Rename and/or reorder
+ * DELETE: Delete the playlist
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	deleteLocalPlaylist,
+	getLocalPlaylist,
+	normalizePlaylistName,
+	renameLocalPlaylist,
+	reorderLocalPlaylist,
+	type LocalPlaylist
+} from '$lib/server/localPlaylists';
+
+/**
+ * GET /api/local-playlists/:id
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const playlist = await getLocalPlaylist(params.id);
+		if (!playlist) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		return json({ success: true, playlist });
+	} catch (error) {
+		console.error('[Playlists API] GET playlist error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * PATCH /api/local-playlists/:id
+ *
+ * Body: { name?: string, order?: string[] } — `order` lists entry ids
+ */
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { name?: unknown; order?: unknown };
+		if (body.name === undefined && body.order === undefined) {
+			return json({ success: false, error: 'Nothing to update' }, { status: 400 });
+		}
+		if (
+			body.order !== undefined &&
+			(!Array.isArray(body.order) || body.order.some((id) => typeof id !== 'string'))
+		) {
+			return json(
+				{ success: false, error: 'order must be an array of entry ids' },
+				{ status: 400 }
+			);
+		}
+		const name = body.name === undefined ? null : normalizePlaylistName(body.name);
+		if (name && !name.ok) {
+			return json({ success: false, error: name.error }, { status: 400 });
+		}
+
+		let playlist: LocalPlaylist | null = await getLocalPlaylist(params.id);
+		if (playlist && name) {
+			playlist = await renameLocalPlaylist(params.id, name.name);
+		}
+		if (playlist && body.order !== undefined) {
+			playlist = await reorderLocalPlaylist(params.id, body.order as string[]);
+		}
+		if (!playlist) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		return json({ success: true, playlist });
+	} catch (error) {
+		console.error('[Playlists API] PATCH error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * DELETE /api/local-playlists/:id
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		const removed = await deleteLocalPlaylist(params.id);
+		if (!removed) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		return json({ success: true });
+	} catch (error) {
+		console.error('[Playlists API] DELETE error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
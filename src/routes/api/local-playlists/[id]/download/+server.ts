@@ -0,0 +1,46 @@
+/**
+ * Download a saved playlist
+ * POST: Queue its tracks into a shared playlist folder on the server
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getLocalPlaylist,
+	normalizePlaylistDownloadQuality,
+	queueLocalPlaylistDownload
+} from '$lib/server/localPlaylists';
+
+/**
+ * POST /api/local-playlists/:id/download
+ *
+ * Body: { quality?: AudioQuality }
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	try {
+		// An empty body queues at the default quality
+		const body = (await request.json().catch(() => ({}))) as { quality?: unknown } | null;
+		if (!body || typeof body !== 'object' || Array.isArray(body)) {
+			return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		}
+		const quality = normalizePlaylistDownloadQuality(body.quality);
+		if (!quality.ok) {
+			return json({ success: false, error: quality.error }, { status: 400 });
+		}
+		const playlist = await getLocalPlaylist(params.id);
+		if (!playlist) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		const result = await queueLocalPlaylistDownload(playlist, {
+			quality: quality.quality,
+			createdByRoute: `/playlists/${playlist.id}`
+		});
+		return json({ success: true, ...result });
+	} catch (error) {
+		console.error('[Playlists API] Download error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const playlistMocks = vi.hoisted(() => ({
+	getLocalPlaylist: vi.fn(),
+	queueLocalPlaylistDownload: vi.fn()
+}));
+
+vi.mock('$lib/server/localPlaylists', async (importOriginal) => ({
+	...(await importOriginal<typeof import('$lib/server/localPlaylists')>()),
+	getLocalPlaylist: playlistMocks.getLocalPlaylist,
+	queueLocalPlaylistDownload: playlistMocks.queueLocalPlaylistDownload
+}));
+
+function createPostEvent(body?: string) {
+	return {
+		params: { id: 'playlist-1' },
+		request: new Request('http://localhost/api/local-playlists/playlist-1/download', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body
+		})
+	};
+}
+
+describe('POST /api/local-playlists/:id/download', () => {
+	beforeEach(() => {
+		playlistMocks.getLocalPlaylist.mockReset();
+		playlistMocks.queueLocalPlaylistDownload.mockReset();
+		playlistMocks.getLocalPlaylist.mockResolvedValue({ id: 'playlist-1', name: 'Mix' });
+		playlistMocks.queueLocalPlaylistDownload.mockResolvedValue({ queued: 0 });
+	});
+
+	it.each(['null', '"LOSSLESS"', '42', '[]'])('rejects a %s body with 400', async (body) => {
+		const { POST } = await import('./+server');
+		const response = await POST(createPostEvent(body) as Parameters<typeof POST>[0]);
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			success: false,
+			error: 'Request body must be a JSON object'
+		});
+		expect(playlistMocks.queueLocalPlaylistDownload).not.toHaveBeenCalled();
+	});
+
+	it('queues at the default quality when the body is empty', async () => {
+		const { POST } = await import('./+server');
+		const response = await POST(createPostEvent() as Parameters<typeof POST>[0]);
+		expect(response.status).toBe(200);
+		expect(playlistMocks.queueLocalPlaylistDownload).toHaveBeenCalledWith(
+			{ id: 'playlist-1', name: 'Mix' },
+			{ quality: 'LOSSLESS', createdByRoute: '/playlists/playlist-1' }
+		);
+	});
+});
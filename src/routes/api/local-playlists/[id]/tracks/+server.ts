@@ -0,0 +1,86 @@
+/**
+ * Saved playlist tracks
+ * POST: Add tracks
+ * DELETE: Remove entries
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	MAX_PLAYLIST_TRACKS,
+	addLocalPlaylistTracks,
+	getLocalPlaylist,
+	normalizePlaylistTracks,
+	removeLocalPlaylistEntries
+} from '$lib/server/localPlaylists';
+
+/**
+ * POST /api/local-playlists/:id/tracks
+ *
+ * Body: { tracks: Track[], position?: number }
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as {
+			tracks?: unknown;
+			position?: unknown;
+		};
+		const tracks = normalizePlaylistTracks(body.tracks);
+		if (!tracks.ok) {
+			return json({ success: false, error: tracks.error }, { status: 400 });
+		}
+		if (body.position !== undefined && !Number.isInteger(body.position)) {
+			return json({ success: false, error: 'position must be an integer' }, { status: 400 });
+		}
+		const existing = await getLocalPlaylist(params.id);
+		if (!existing) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		if (existing.entries.length + tracks.tracks.length > MAX_PLAYLIST_TRACKS) {
+			return json(
+				{ success: false, error: `A playlist holds at most ${MAX_PLAYLIST_TRACKS} tracks` },
+				{ status: 400 }
+			);
+		}
+		const playlist = await addLocalPlaylistTracks(
+			params.id,
+			tracks.tracks,
+			body.position as number | undefined
+		);
+		return json({ success: true, playlist });
+	} catch (error) {
+		console.error('[Playlists API] POST tracks error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * DELETE /api/local-playlists/:id/tracks
+ *
+ * Body: { entryIds: string[] }
+ */
+export const DELETE: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { entryIds?: unknown };
+		if (!Array.isArray(body.entryIds) || body.entryIds.some((id) => typeof id !== 'string')) {
+			return json(
+				{ success: false, error: 'entryIds must be an array of entry ids' },
+				{ status: 400 }
+			);
+		}
+		const playlist = await removeLocalPlaylistEntries(params.id, body.entryIds as string[]);
+		if (!playlist) {
+			return json({ success: false, error: 'Playlist not found' }, { status: 404 });
+		}
+		return json({ success: true, playlist });
+	} catch (error) {
+		console.error('[Playlists API] DELETE tracks error:', error);
+		return json(
+			{ success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,27 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listLibraryBrowseAlbums } from '$lib/server/mediaLibrary';
+
+/**
+ * GET /api/media-library/browse[?force=true]
+ *
+ * Every album folder in the library with its tag-derived summary (artist, title, year,
+ * formats, quality, TIDAL album id). Filtering and sorting happen client-side.
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const payload = await listLibraryBrowseAlbums({
+			force: url.searchParams.get('force') === 'true'
+		});
+		return json({ success: true, ...payload });
+	} catch (error) {
+		console.error('[Media Library API] browse error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to browse media library'
+			},
+			{ status: 500 }
+		);
+	}
+};
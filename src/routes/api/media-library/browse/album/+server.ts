@@ -0,0 +1,33 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { MediaLibraryBrowseError, getLibraryBrowseAlbum } from '$lib/server/mediaLibrary';
+
+/**
+ * GET /api/media-library/browse/album?artistDir=...&albumDir=...
+ *
+ * One album folder with its tracks in disc/track order.
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const artistDir = url.searchParams.get('artistDir')?.trim() ?? '';
+	const albumDir = url.searchParams.get('albumDir')?.trim() ?? '';
+	if (!artistDir || !albumDir) {
+		return json({ success: false, error: 'artistDir and albumDir are required' }, { status: 400 });
+	}
+
+	try {
+		const payload = await getLibraryBrowseAlbum({ artistDir, albumDir });
+		return json({ success: true, ...payload });
+	} catch (error) {
+		if (error instanceof MediaLibraryBrowseError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Media Library API] browse album error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to read library album'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,49 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	MediaLibraryBrowseError,
+	inspectLibraryBrowseAlbumIntegrity
+} from '$lib/server/mediaLibrary';
+
+type IntegrityRequestBody = {
+	artistDir?: unknown;
+	albumDir?: unknown;
+};
+
+/**
+ * POST /api/media-library/browse/integrity
+ *
+ * Body: { artistDir, albumDir } - validates the folder's files against the TIDAL
+ * tracklist of its embedded album id. Read-only; repairs go through /repair.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	const body = (await request.json().catch(() => ({}))) as IntegrityRequestBody;
+	const artistDir = typeof body.artistDir === 'string' ? body.artistDir.trim() : '';
+	const albumDir = typeof body.albumDir === 'string' ? body.albumDir.trim() : '';
+	if (!artistDir || !albumDir) {
+		return json({ success: false, error: 'artistDir and albumDir are required' }, { status: 400 });
+	}
+
+	try {
+		const { albumId, report } = await inspectLibraryBrowseAlbumIntegrity({ artistDir, albumDir });
+		return json({
+			success: true,
+			albumId,
+			scannedAt: report.scannedAt,
+			summary: report.summary,
+			tracks: report.tracks
+		});
+	} catch (error) {
+		if (error instanceof MediaLibraryBrowseError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Media Library API] browse integrity error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to check album integrity'
+			},
+			{ status: 500 }
+		);
+	}
+};
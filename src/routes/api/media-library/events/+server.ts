@@ -0,0 +1,68 @@
+import type { RequestHandler } from './$types';
+import {
+	getMediaLibraryWatcherStatus,
+	subscribeMediaLibraryChanges,
+	type MediaLibraryChangeEvent
+} from '$lib/server/mediaLibraryWatcher';
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /api/media-library/events
+ * Server-sent events stream. Sends `ready` with the watcher status (`enabled` by
+ * configuration, `running` right now), then one `library-changed` event per debounced
+ * burst of filesystem changes.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	const encoder = new TextEncoder();
+	let cleanup: (() => void) | null = null;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (chunk: string) => {
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					cleanup?.();
+				}
+			};
+			const sendEvent = (event: string, data: unknown) => {
+				send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+			};
+
+			const unsubscribe = subscribeMediaLibraryChanges((event: MediaLibraryChangeEvent) => {
+				sendEvent(event.type, event);
+			});
+			const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+			const onAbort = () => cleanup?.();
+
+			cleanup = () => {
+				cleanup = null;
+				unsubscribe();
+				clearInterval(heartbeat);
+				request.signal.removeEventListener('abort', onAbort);
+				try {
+					controller.close();
+				} catch {
+					// already closed by the client
+				}
+			};
+			request.signal.addEventListener('abort', onAbort);
+
+			const { enabled, running } = getMediaLibraryWatcherStatus();
+			sendEvent('ready', { enabled, running });
+		},
+		cancel() {
+			cleanup?.();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+			'X-Accel-Buffering': 'no'
+		}
+	});
+};
@@ -83,6 +83,25 @@ describe('media-library maintenance routes lock conflict', () => {
 		expect(payload.error).toContain('already running');
 	});
 
+	it('returns 409 for reorganize when maintenance lock is busy', async () => {
+		const { POST } = await import('./reorganize/+server');
+		const response = await POST(
+			createPostEvent({ dryRun: false, planHash: 'plan-1' }) as Parameters<typeof POST>[0]
+		);
+		expect(response.status).toBe(409);
+		const payload = await response.json();
+		expect(payload.success).toBe(false);
+		expect(payload.error).toContain('already running');
+	});
+
+	it('rejects a reorganize body that is not a JSON object', async () => {
+		const { POST } = await import('./reorganize/+server');
+		const response = await POST(createPostEvent(null) as Parameters<typeof POST>[0]);
+		expect(response.status).toBe(400);
+		expect((await response.json()).success).toBe(false);
+		expect(lockMocks.acquireMediaMaintenanceLock).not.toHaveBeenCalled();
+	});
+
 	it('returns 409 for correct-and-deduplicate when maintenance lock is busy', async () => {
 		const { POST } = await import('./correct-and-deduplicate/+server');
 		const response = await POST(
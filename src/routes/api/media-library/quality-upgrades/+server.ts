@@ -0,0 +1,64 @@
+/**
+ * Quality-upgrade scan
+ * GET: Watcher state and the latest upgrade list
+ * POST: Run a scan now
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getQualityUpgradeWatchState,
+	isQualityUpgradeScanRunning,
+	runQualityUpgradeScan
+} from '$lib/server/mediaLibraryUpgrades';
+
+type QualityUpgradeScanRequestBody = {
+	forceRescan?: boolean;
+	maxAlbums?: number;
+};
+
+export const GET: RequestHandler = async () => {
+	return json({
+		success: true,
+		...getQualityUpgradeWatchState()
+	});
+};
+
+/**
+ * POST /api/media-library/quality-upgrades
+ *
+ * Body: { forceRescan?: boolean, maxAlbums?: number }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	if (isQualityUpgradeScanRunning()) {
+		return json(
+			{ success: false, error: 'A quality-upgrade scan is already in progress' },
+			{ status: 409 }
+		);
+	}
+
+	try {
+		const body = (await request.json().catch(() => ({}))) as QualityUpgradeScanRequestBody;
+		const maxAlbums =
+			typeof body.maxAlbums === 'number' && Number.isFinite(body.maxAlbums) && body.maxAlbums > 0
+				? Math.floor(body.maxAlbums)
+				: undefined;
+		const result = await runQualityUpgradeScan({
+			force: body.forceRescan === true,
+			maxAlbums
+		});
+		return json({
+			success: true,
+			...result
+		});
+	} catch (error) {
+		console.error('[Media Library API] quality-upgrades error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to scan for quality upgrades'
+			},
+			{ status: 500 }
+		);
+	}
+};
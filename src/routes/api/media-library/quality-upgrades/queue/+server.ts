@@ -0,0 +1,66 @@
+/**
+ * Queue quality upgrades
+ * POST: Enqueue force-overwrite album jobs for the latest upgrade list
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getQualityUpgradeWatchState,
+	queueQualityUpgrades
+} from '$lib/server/mediaLibraryUpgrades';
+
+type QualityUpgradeQueueRequestBody = {
+	albumIds?: unknown;
+};
+
+/**
+ * POST /api/media-library/quality-upgrades/queue
+ *
+ * Body: { albumIds?: number[] } - defaults to every candidate from the latest scan
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as QualityUpgradeQueueRequestBody;
+		if (
+			body.albumIds !== undefined &&
+			(!Array.isArray(body.albumIds) ||
+				!body.albumIds.every((id) => typeof id === 'number' && Number.isInteger(id) && id > 0))
+		) {
+			return json(
+				{ success: false, error: 'albumIds must be an array of positive integers' },
+				{ status: 400 }
+			);
+		}
+
+		const { lastResult } = getQualityUpgradeWatchState();
+		if (!lastResult) {
+			return json(
+				{ success: false, error: 'Run a quality-upgrade scan before queueing upgrades' },
+				{ status: 409 }
+			);
+		}
+
+		const selected = Array.isArray(body.albumIds) ? new Set(body.albumIds as number[]) : null;
+		const candidates = selected
+			? lastResult.candidates.filter((candidate) => selected.has(candidate.albumId))
+			: lastResult.candidates;
+		const result = await queueQualityUpgrades(candidates, {
+			createdByRoute: '/api/media-library/quality-upgrades/queue'
+		});
+		return json({
+			success: true,
+			runId: lastResult.runId,
+			...result
+		});
+	} catch (error) {
+		console.error('[Media Library API] quality-upgrades queue error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to queue quality upgrades'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,216 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	reorganizeMediaLibrary,
+	type MediaLibraryReorganizeProgress,
+	type MediaLibraryReorganizeSummary
+} from '$lib/server/mediaLibrary';
+import {
+	getNamingTemplateConfig,
+	normalizeNamingTemplateConfig
+} from '$lib/server/download/namingTemplates';
+import {
+	acquireMediaMaintenanceLock,
+	getMediaMaintenanceLockHolder
+} from '$lib/server/mediaMaintenanceLock';
+import { writeMediaMaintenanceRunReport } from '$lib/server/mediaMaintenanceReports';
+
+type ReorganizeRequestBody = {
+	dryRun?: boolean;
+	forceRescan?: boolean;
+	planHash?: string;
+	folderTemplate?: string | null;
+	fileTemplate?: string | null;
+};
+
+type ReorganizeRunStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+type ReorganizeStatusPayload = {
+	success: true;
+	status: ReorganizeRunStatus;
+	startedAt: number | null;
+	finishedAt: number | null;
+	progress: MediaLibraryReorganizeProgress | null;
+	result: MediaLibraryReorganizeSummary | null;
+	reportPath: string | null;
+	error: string | null;
+};
+
+let activeRun: Promise<MediaLibraryReorganizeSummary> | null = null;
+let runStatus: ReorganizeRunStatus = 'idle';
+let runStartedAt: number | null = null;
+let runFinishedAt: number | null = null;
+let runProgress: MediaLibraryReorganizeProgress | null = null;
+let runResult: MediaLibraryReorganizeSummary | null = null;
+let runReportPath: string | null = null;
+let runError: string | null = null;
+
+function setRunStarted(startedAt: number): void {
+	runStatus = 'running';
+	runStartedAt = startedAt;
+	runFinishedAt = null;
+	runProgress = null;
+	runResult = null;
+	runReportPath = null;
+	runError = null;
+}
+
+/**
+ * POST /api/media-library/reorganize
+ *
+ * Body: { dryRun?: boolean (default true), forceRescan?: boolean, planHash?: string,
+ *         folderTemplate?: string | null, fileTemplate?: string | null }
+ *
+ * Without templates the saved naming templates are used (the built-in
+ * `Artist/Album/NN - Title` layout unless configured otherwise). Applying
+ * (`dryRun: false`) needs the `planHash` of a preview and answers 409 without
+ * moving anything when the plan has changed since.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	if (activeRun) {
+		return json(
+			{
+				success: false,
+				error: 'A reorganize run is already in progress'
+			},
+			{ status: 409 }
+		);
+	}
+
+	let lock: Awaited<ReturnType<typeof acquireMediaMaintenanceLock>> | null = null;
+	let currentRunId: string | null = null;
+	try {
+		const body = (await request.json().catch(() => null)) as ReorganizeRequestBody | null;
+		if (!body || typeof body !== 'object') {
+			return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		}
+		const hasCustomPattern = 'folderTemplate' in body || 'fileTemplate' in body;
+		const normalizedPattern = hasCustomPattern ? normalizeNamingTemplateConfig(body) : null;
+		if (normalizedPattern && !normalizedPattern.ok) {
+			return json({ success: false, error: normalizedPattern.error }, { status: 400 });
+		}
+		const planHash = typeof body.planHash === 'string' ? body.planHash.trim() : '';
+		if (body.dryRun === false && !planHash) {
+			return json(
+				{ success: false, error: 'Applying a reorganize needs the planHash of its preview' },
+				{ status: 400 }
+			);
+		}
+
+		lock = await acquireMediaMaintenanceLock({
+			owner: `api:reorganize:${Date.now()}`,
+			waitTimeoutMs: 0
+		});
+		if (!lock) {
+			const holder = await getMediaMaintenanceLockHolder();
+			return json(
+				{
+					success: false,
+					error: 'Media-library maintenance is already running',
+					holder
+				},
+				{ status: 409 }
+			);
+		}
+		const startedAt = Date.now();
+		setRunStarted(startedAt);
+		const dryRun = body.dryRun !== false;
+		const naming = normalizedPattern?.ok
+			? normalizedPattern.config
+			: await getNamingTemplateConfig({ forceRefresh: true });
+		currentRunId = `reorganize-${startedAt}-${Math.random().toString(36).slice(2, 10)}`;
+		console.log(
+			'[Media Library API] reorganize started',
+			JSON.stringify({ runId: currentRunId, dryRun, naming })
+		);
+
+		activeRun = reorganizeMediaLibrary({
+			naming,
+			dryRun,
+			planHash: planHash || undefined,
+			forceRescan: body.forceRescan === true,
+			runId: currentRunId,
+			onProgress: (progress) => {
+				runProgress = progress;
+			}
+		});
+		const result = await activeRun;
+		const finishedAt = Date.now();
+		runReportPath = await writeMediaMaintenanceRunReport({
+			runId: currentRunId,
+			kind: 'reorganize',
+			payload: {
+				result,
+				startedAt,
+				finishedAt,
+				durationMs: Math.max(0, finishedAt - startedAt)
+			}
+		});
+		runStatus = result.error ? 'failed' : 'completed';
+		runFinishedAt = finishedAt;
+		runResult = result;
+		runError = result.error ?? null;
+		console.log(
+			'[Media Library API] reorganize completed',
+			JSON.stringify({
+				runId: result.runId,
+				dryRun: result.dryRun,
+				movesPlanned: result.movesPlanned,
+				movesApplied: result.movesApplied,
+				conflictCount: result.conflictCount,
+				rolledBack: result.rolledBack
+			})
+		);
+
+		return json(
+			{
+				success: !result.error,
+				...result,
+				reportPath: runReportPath
+			},
+			{ status: result.planChanged ? 409 : result.error ? 500 : 200 }
+		);
+	} catch (error) {
+		console.error('[Media Library API] reorganize error:', error);
+		const message = error instanceof Error ? error.message : 'Failed to reorganize media library';
+		if (currentRunId) {
+			await writeMediaMaintenanceRunReport({
+				runId: currentRunId,
+				kind: 'reorganize',
+				payload: {
+					error: message,
+					startedAt: runStartedAt,
+					finishedAt: Date.now(),
+					progress: runProgress
+				}
+			});
+		}
+		runStatus = 'failed';
+		runFinishedAt = Date.now();
+		runError = message;
+		return json(
+			{
+				success: false,
+				error: message
+			},
+			{ status: 500 }
+		);
+	} finally {
+		activeRun = null;
+		await lock?.release();
+	}
+};
+
+export const GET: RequestHandler = async () => {
+	const payload: ReorganizeStatusPayload = {
+		success: true,
+		status: runStatus,
+		startedAt: runStartedAt,
+		finishedAt: runFinishedAt,
+		progress: runProgress,
+		result: runResult,
+		reportPath: runReportPath,
+		error: runError
+	};
+	return json(payload);
+};
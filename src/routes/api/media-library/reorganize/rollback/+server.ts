@@ -0,0 +1,66 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { rollbackMediaLibraryReorganize } from '$lib/server/mediaLibrary';
+import {
+	acquireMediaMaintenanceLock,
+	getMediaMaintenanceLockHolder
+} from '$lib/server/mediaMaintenanceLock';
+import { writeMediaMaintenanceRunReport } from '$lib/server/mediaMaintenanceReports';
+
+/**
+ * POST /api/media-library/reorganize/rollback
+ *
+ * Body: { runId: string } - restores the layout recorded in that run's journal.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	const body = (await request.json().catch(() => ({}))) as { runId?: unknown };
+	const runId = typeof body.runId === 'string' ? body.runId.trim() : '';
+	if (!/^reorganize-[a-z0-9-]+$/i.test(runId)) {
+		return json({ success: false, error: 'A reorganize runId is required' }, { status: 400 });
+	}
+
+	let lock: Awaited<ReturnType<typeof acquireMediaMaintenanceLock>> | null = null;
+	try {
+		lock = await acquireMediaMaintenanceLock({
+			owner: `api:reorganize-rollback:${Date.now()}`,
+			waitTimeoutMs: 0
+		});
+		if (!lock) {
+			const holder = await getMediaMaintenanceLockHolder();
+			return json(
+				{
+					success: false,
+					error: 'Media-library maintenance is already running',
+					holder
+				},
+				{ status: 409 }
+			);
+		}
+
+		const result = await rollbackMediaLibraryReorganize(runId);
+		if (!result) {
+			return json(
+				{ success: false, error: `No reorganize journal found for ${runId}` },
+				{ status: 404 }
+			);
+		}
+		const reportPath = await writeMediaMaintenanceRunReport({
+			runId: `${runId}-rollback`,
+			kind: 'reorganize-rollback',
+			payload: { result, finishedAt: Date.now() }
+		});
+		console.log('[Media Library API] reorganize rollback completed', JSON.stringify(result));
+		return json({
+			success: result.errors === 0,
+			...result,
+			reportPath
+		});
+	} catch (error) {
+		console.error('[Media Library API] reorganize rollback error:', error);
+		const message =
+			error instanceof Error ? error.message : 'Failed to roll back media library reorganize';
+		return json({ success: false, error: message }, { status: 500 });
+	} finally {
+		await lock?.release();
+	}
+};
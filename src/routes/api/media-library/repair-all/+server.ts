@@ -5,7 +5,7 @@ import type { Album, AudioQuality } from '$lib/types';
 import { losslessAPI } from '$lib/api';
 import { inspectAlbumIntegrity, scanLocalMediaLibrary, type LocalMediaFile } from '$lib/server/mediaLibrary';
 import { sanitizeDirName } from '$lib/server/download/shared';
-import { enqueueJob } from '$lib/server/downloadQueueManager';
+import { createQueueBatch, enqueueJob } from '$lib/server/downloadQueueManager';
 
 type RepairAllRequestBody = {
 	quality?: AudioQuality;
@@ -50,6 +50,7 @@ type FullLibraryRepairResult = {
 	finishedAt: number;
 	durationMs: number;
 	queueEnabled: boolean;
+	batchId?: string;
 	quality: AudioQuality;
 	summary: FullLibraryRepairSummary;
 	unresolvedAlbums: UnresolvedAlbum[];
@@ -320,6 +321,8 @@ async function runRepairAll(input: {
 	setRunStatusRunning(startedAt);
 
 	const summary: FullLibraryRepairSummary = createEmptySummary();
+	// Created on the first queued repair so dry scans don't leave empty batches behind.
+	let batchId: string | undefined;
 
 	const snapshot = await scanLocalMediaLibrary({ force: input.forceRescan });
 	const groupedAlbums = groupLibraryAlbums(snapshot.files);
@@ -533,6 +536,14 @@ async function runRepairAll(input: {
 					);
 					continue;
 				}
+				if (!batchId) {
+					const batch = await createQueueBatch({
+						label: `Library repair ${new Date(startedAt).toISOString()}`,
+						source: 'repair-all',
+						createdByRoute: '/api/media-library/repair-all'
+					});
+					batchId = batch.id;
+				}
 				await enqueueJob(
 					{
 						type: 'track',
@@ -552,7 +563,8 @@ async function runRepairAll(input: {
 						priority: 'high',
 						maxRetries: 6,
 						checkDuplicate: true,
-						forceOverwrite: true
+						forceOverwrite: true,
+						batchId
 					}
 				);
 				queuedForAlbum += 1;
@@ -596,6 +608,7 @@ async function runRepairAll(input: {
 		finishedAt,
 		durationMs: finishedAt - startedAt,
 		queueEnabled: input.queue,
+		batchId,
 		quality: input.quality,
 		summary,
 		unresolvedAlbums: unresolvedAlbums.slice(0, UNRESOLVED_PAYLOAD_LIMIT),
@@ -0,0 +1,81 @@
+import { createReadStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getLocalAudioContentType,
+	parseByteRange,
+	resolveLocalMediaFile
+} from '$lib/server/mediaLibrary';
+
+/**
+ * GET /api/media-library/stream/[fileId]
+ *
+ * Streams a scanned library file with single-range `Range` support so the audio element
+ * can seek. Answers 206 for ranges, 416 for ranges past the end and 404 for unknown ids.
+ */
+const serveLocalFile = async (
+	fileId: string,
+	request: Request,
+	includeBody: boolean
+): Promise<Response> => {
+	const file = await resolveLocalMediaFile(fileId);
+	if (!file) {
+		return json({ success: false, error: 'Library file not found' }, { status: 404 });
+	}
+
+	let size: number;
+	try {
+		size = (await fs.stat(file.path)).size;
+	} catch {
+		return json({ success: false, error: 'Library file not found' }, { status: 404 });
+	}
+
+	const headers = new Headers({
+		'Accept-Ranges': 'bytes',
+		'Content-Type': getLocalAudioContentType(file.extension),
+		'Cache-Control': 'private, no-cache'
+	});
+	const range = parseByteRange(request.headers.get('range'), size);
+	if (range === 'unsatisfiable') {
+		headers.set('Content-Range', `bytes */${size}`);
+		return new Response(null, { status: 416, headers });
+	}
+
+	const start = range?.start ?? 0;
+	const end = range?.end ?? size - 1;
+	headers.set('Content-Length', String(size === 0 ? 0 : end - start + 1));
+	if (range) {
+		headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+	}
+	const body =
+		includeBody && size > 0
+			? (Readable.toWeb(createReadStream(file.path, { start, end })) as ReadableStream)
+			: null;
+	return new Response(body, { status: range ? 206 : 200, headers });
+};
+
+export const GET: RequestHandler = async ({ params, request }) => {
+	try {
+		return await serveLocalFile(params.fileId, request, true);
+	} catch (error) {
+		console.error('[Media Library API] stream error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to stream library file'
+			},
+			{ status: 500 }
+		);
+	}
+};
+
+export const HEAD: RequestHandler = async ({ params, request }) => {
+	try {
+		return await serveLocalFile(params.fileId, request, false);
+	} catch (error) {
+		console.error('[Media Library API] stream error:', error);
+		return new Response(null, { status: 500 });
+	}
+};
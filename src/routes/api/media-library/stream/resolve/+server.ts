@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { resolveLocalStreamForTrack } from '$lib/server/mediaLibrary';
+
+const toPositiveInt = (value: string | null): number | undefined => {
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * GET /api/media-library/stream/resolve?trackId=...&isrc=...&artistName=...&albumTitle=...&trackTitle=...&trackNumber=...&volumeNumber=...
+ *
+ * Looks up a TIDAL track in the local library. `file` is null when the track is not on disk
+ * (or the match is ambiguous), in which case the player streams from TIDAL.
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const trackTitle = url.searchParams.get('trackTitle')?.trim() ?? '';
+	if (!trackTitle) {
+		return json({ success: false, error: 'trackTitle is required' }, { status: 400 });
+	}
+
+	try {
+		const file = await resolveLocalStreamForTrack({
+			trackId: toPositiveInt(url.searchParams.get('trackId')),
+			isrc: url.searchParams.get('isrc')?.trim() || undefined,
+			artistName: url.searchParams.get('artistName')?.trim() || undefined,
+			albumTitle: url.searchParams.get('albumTitle')?.trim() || undefined,
+			trackTitle,
+			trackNumber: toPositiveInt(url.searchParams.get('trackNumber')),
+			volumeNumber: toPositiveInt(url.searchParams.get('volumeNumber'))
+		});
+		return json({ success: true, file });
+	} catch (error) {
+		console.error('[Media Library API] stream resolve error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to resolve library track'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,60 @@
+/**
+ * Folder and filename templates for server downloads
+ * GET: Current templates, available tokens and sample paths
+ * PUT: Replace the templates (null or empty restores the built-in layout)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	NAMING_TEMPLATE_TOKENS,
+	getNamingTemplateConfig,
+	normalizeNamingTemplateConfig,
+	previewNamingTemplates,
+	saveNamingTemplateConfig
+} from '$lib/server/download/namingTemplates';
+
+/**
+ * GET /api/naming-templates
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const naming = await getNamingTemplateConfig({ forceRefresh: true });
+		return json({
+			success: true,
+			naming,
+			tokens: NAMING_TEMPLATE_TOKENS,
+			preview: previewNamingTemplates(naming)
+		});
+	} catch (error) {
+		console.error('[Naming API] GET error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * PUT /api/naming-templates
+ *
+ * Body: { folderTemplate: string | null, fileTemplate: string | null }
+ */
+export const PUT: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeNamingTemplateConfig(body);
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+
+		await saveNamingTemplateConfig(normalized.config);
+		return json({
+			success: true,
+			naming: normalized.config,
+			preview: previewNamingTemplates(normalized.config)
+		});
+	} catch (error) {
+		console.error('[Naming API] PUT error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
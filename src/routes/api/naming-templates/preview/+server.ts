@@ -0,0 +1,36 @@
+/**
+ * Validate naming templates without saving them
+ * POST: Sample paths for the submitted templates
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	normalizeNamingTemplateConfig,
+	previewNamingTemplates
+} from '$lib/server/download/namingTemplates';
+
+/**
+ * POST /api/naming-templates/preview
+ *
+ * Body: { folderTemplate: string | null, fileTemplate: string | null }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeNamingTemplateConfig(body);
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+
+		return json({
+			success: true,
+			naming: normalized.config,
+			preview: previewNamingTemplates(normalized.config)
+		});
+	} catch (error) {
+		console.error('[Naming API] Preview error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,55 @@
+/**
+ * Playlist file export
+ * POST: Build an M3U8 or XSPF file for a list of tracks
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { normalizePlaylistName, normalizePlaylistTracks } from '$lib/server/localPlaylists';
+import { exportPlaylistFile } from '$lib/server/playlistFiles';
+import { PLAYLIST_FILE_MIME_TYPES } from '$lib/utils/playlistFormats';
+
+/**
+ * POST /api/playlist-files/export
+ *
+ * Body: { format: 'm3u8' | 'xspf', name?: string, tracks: Track[] }
+ *
+ * Responds with the file itself; `X-Library-Matches` counts the tracks found on disk.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as {
+			format?: unknown;
+			name?: unknown;
+			tracks?: unknown;
+		};
+		if (body.format !== 'm3u8' && body.format !== 'xspf') {
+			return json({ success: false, error: 'format must be m3u8 or xspf' }, { status: 400 });
+		}
+		const name = normalizePlaylistName(body.name ?? 'Queue');
+		if (!name.ok) {
+			return json({ success: false, error: name.error }, { status: 400 });
+		}
+		const tracks = normalizePlaylistTracks(body.tracks);
+		if (!tracks.ok) {
+			return json({ success: false, error: tracks.error }, { status: 400 });
+		}
+		const { content, matched } = await exportPlaylistFile(tracks.tracks, body.format, name.name);
+		return new Response(content, {
+			headers: {
+				'Content-Type': PLAYLIST_FILE_MIME_TYPES[body.format],
+				'Content-Disposition': `attachment; filename="${encodeURIComponent(name.name)}.${body.format}"`,
+				'X-Library-Matches': String(matched)
+			}
+		});
+	} catch (error) {
+		console.error('[Playlist Files API] export error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to export playlist'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,52 @@
+/**
+ * Playlist file import
+ * POST: Parse an M3U8, XSPF or queue CSV file and resolve its entries
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	MAX_PLAYLIST_FILE_BYTES,
+	PlaylistFileError,
+	importPlaylistFile
+} from '$lib/server/playlistFiles';
+
+/**
+ * POST /api/playlist-files/import
+ *
+ * Body: { content: string, filename?: string }
+ *
+ * Each entry resolves to a library file, a TIDAL track id, an ISRC left for a catalog
+ * search, or nothing.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => ({}))) as {
+			content?: unknown;
+			filename?: unknown;
+		};
+		if (typeof body.content !== 'string' || body.content.trim().length === 0) {
+			return json({ success: false, error: 'content must be a non-empty string' }, { status: 400 });
+		}
+		if (body.content.length > MAX_PLAYLIST_FILE_BYTES) {
+			return json({ success: false, error: 'Playlist file is too large' }, { status: 413 });
+		}
+		const result = await importPlaylistFile({
+			content: body.content,
+			filename: typeof body.filename === 'string' ? body.filename : undefined
+		});
+		return json({ success: true, ...result });
+	} catch (error) {
+		if (error instanceof PlaylistFileError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Playlist Files API] import error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to import playlist'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,48 @@
+/**
+ * Playlist file in the library
+ * POST: Write `<name>.m3u8` next to the downloaded files of a playlist
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { normalizePlaylistName, normalizePlaylistTracks } from '$lib/server/localPlaylists';
+import { PlaylistFileError, writePlaylistNextToFiles } from '$lib/server/playlistFiles';
+
+/**
+ * POST /api/playlist-files/write
+ *
+ * Body: { name: string, tracks: Track[] }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = (await request.json().catch(() => null)) as {
+			name?: unknown;
+			tracks?: unknown;
+		} | null;
+		if (!body || typeof body !== 'object' || Array.isArray(body)) {
+			return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		}
+		const name = normalizePlaylistName(body.name);
+		if (!name.ok) {
+			return json({ success: false, error: name.error }, { status: 400 });
+		}
+		const tracks = normalizePlaylistTracks(body.tracks);
+		if (!tracks.ok) {
+			return json({ success: false, error: tracks.error }, { status: 400 });
+		}
+		const result = await writePlaylistNextToFiles(name.name, tracks.tracks);
+		return json({ success: true, ...result });
+	} catch (error) {
+		if (error instanceof PlaylistFileError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Playlist Files API] write error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to write playlist file'
+			},
+			{ status: 500 }
+		);
+	}
+};
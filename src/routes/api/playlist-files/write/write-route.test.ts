@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const playlistFileMocks = vi.hoisted(() => ({
+	writePlaylistNextToFiles: vi.fn()
+}));
+
+vi.mock('$lib/server/playlistFiles', async (importOriginal) => ({
+	...(await importOriginal<typeof import('$lib/server/playlistFiles')>()),
+	writePlaylistNextToFiles: playlistFileMocks.writePlaylistNextToFiles
+}));
+
+function createPostEvent(body: string) {
+	return {
+		request: new Request('http://localhost/api/playlist-files/write', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body
+		})
+	};
+}
+
+describe('POST /api/playlist-files/write', () => {
+	beforeEach(() => {
+		playlistFileMocks.writePlaylistNextToFiles.mockReset();
+	});
+
+	it.each(['null', '"mix"', '42', '[]', 'not json'])('rejects a %s body with 400', async (body) => {
+		const { POST } = await import('./+server');
+		const response = await POST(createPostEvent(body) as Parameters<typeof POST>[0]);
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			success: false,
+			error: 'Request body must be a JSON object'
+		});
+		expect(playlistFileMocks.writePlaylistNextToFiles).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,70 @@
+/**
+ * ListenBrainz scrobbling
+ * GET: Settings and submission status (the token itself is never returned)
+ * PUT: Update the endpoint, token and enabled flag
+ * POST: Report a track as playing now, or a finished listen
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getListenBrainzStatus,
+	normalizeListenBrainzConfigUpdate,
+	parseScrobbleBody,
+	saveListenBrainzConfig,
+	scrobble
+} from '$lib/server/listenBrainz';
+
+/**
+ * GET /api/scrobble
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		return json({ success: true, status: await getListenBrainzStatus() });
+	} catch (error) {
+		console.error('[Scrobble API] GET error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * PUT /api/scrobble
+ *
+ * Body: { enabled: boolean, apiUrl?: string, token?: string }
+ */
+export const PUT: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeListenBrainzConfigUpdate(body);
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+		return json({ success: true, status: await saveListenBrainzConfig(normalized.update) });
+	} catch (error) {
+		console.error('[Scrobble API] PUT error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/scrobble
+ *
+ * Body: { kind: 'playing_now' | 'listen', track: ScrobbleTrack, listenedAt?: number }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const parsed = parseScrobbleBody(body);
+		if (!parsed.ok) {
+			return json({ success: false, error: parsed.error }, { status: 400 });
+		}
+		const accepted = await scrobble(parsed.kind, parsed.track, parsed.listenedAt);
+		return json({ success: true, accepted, status: await getListenBrainzStatus() });
+	} catch (error) {
+		console.error('[Scrobble API] POST error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,22 @@
+/**
+ * Retry buffered scrobbles
+ * POST: Submit pending listens now instead of waiting for the backoff timer
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { flushPendingListens, getListenBrainzStatus } from '$lib/server/listenBrainz';
+
+/**
+ * POST /api/scrobble/flush
+ */
+export const POST: RequestHandler = async () => {
+	try {
+		await flushPendingListens();
+		return json({ success: true, status: await getListenBrainzStatus() });
+	} catch (error) {
+		console.error('[Scrobble API] Flush error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
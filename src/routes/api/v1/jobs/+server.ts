@@ -0,0 +1,66 @@
+/**
+ * Versioned download queue API for scripts
+ * GET: List jobs (scope queue:read)
+ * POST: Queue a track or album job (scope queue:write)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { enqueueJob, getJob, getQueueSnapshot } from '$lib/server/downloadQueueManager';
+import { readApiV1Body, toApiV1Job } from '$lib/server/apiV1';
+import { ApiV1EnqueueRequestSchema, ApiV1JobSchema } from '$lib/utils/schemas';
+
+/**
+ * GET /api/v1/jobs
+ *
+ * Query: ?status=queued|processing|paused|completed|failed|cancelled
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const statusParam = url.searchParams.get('status');
+		const status = statusParam ? ApiV1JobSchema.shape.status.safeParse(statusParam) : null;
+		if (status && !status.success) {
+			return json({ success: false, error: `Unknown status "${statusParam}"` }, { status: 400 });
+		}
+		const { jobs } = await getQueueSnapshot();
+		return json({
+			success: true,
+			jobs: jobs.filter((job) => !status || job.status === status.data).map(toApiV1Job)
+		});
+	} catch (error) {
+		console.error('[API v1] GET jobs error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/v1/jobs
+ *
+ * Body: EnqueueRequest (see /api/v1/openapi.json)
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readApiV1Body(request, ApiV1EnqueueRequestSchema);
+		if (!body.ok) {
+			return json({ success: false, error: body.error }, { status: 400 });
+		}
+		const { job, priority, maxRetries, checkDuplicate } = body.data;
+		// Duplicates resolve to the existing job, so callers always get a job back
+		const jobId = await enqueueJob(job, {
+			priority,
+			maxRetries,
+			checkDuplicate,
+			forceOverwrite: job.forceOverwrite
+		});
+		const queued = await getJob(jobId);
+		if (!queued) {
+			return json({ success: false, error: 'Job was not stored' }, { status: 500 });
+		}
+		return json({ success: true, job: toApiV1Job(queued) });
+	} catch (error) {
+		console.error('[API v1] POST jobs error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,26 @@
+/**
+ * Versioned job status for scripts
+ * GET: Read one job (scope queue:read)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getJob } from '$lib/server/downloadQueueManager';
+import { toApiV1Job } from '$lib/server/apiV1';
+
+/**
+ * GET /api/v1/jobs/:jobId
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const queued = await getJob(params.jobId);
+		if (!queued) {
+			return json({ success: false, error: 'Job not found' }, { status: 404 });
+		}
+		return json({ success: true, job: toApiV1Job(queued) });
+	} catch (error) {
+		console.error('[API v1] GET job error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,29 @@
+/**
+ * Versioned job cancellation for scripts
+ * POST: Cancel a queued or running job (scope queue:write)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getJob, requestCancellation } from '$lib/server/downloadQueueManager';
+import { toApiV1Job } from '$lib/server/apiV1';
+
+/**
+ * POST /api/v1/jobs/:jobId/cancel
+ */
+export const POST: RequestHandler = async ({ params }) => {
+	try {
+		if (!(await requestCancellation(params.jobId))) {
+			return json({ success: false, error: 'Job not found' }, { status: 404 });
+		}
+		const queued = await getJob(params.jobId);
+		if (!queued) {
+			return json({ success: false, error: 'Job not found' }, { status: 404 });
+		}
+		return json({ success: true, job: toApiV1Job(queued) });
+	} catch (error) {
+		console.error('[API v1] POST cancel error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,26 @@
+/**
+ * Versioned library rescan for scripts
+ * POST: Rescan the download folder (scope library:maintain)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { scanLocalMediaLibrary } from '$lib/server/mediaLibrary';
+
+/**
+ * POST /api/v1/library/scan
+ */
+export const POST: RequestHandler = async () => {
+	try {
+		const snapshot = await scanLocalMediaLibrary({ force: true });
+		return json({
+			success: true,
+			totalFiles: snapshot.files.length,
+			scannedAt: snapshot.scannedAt
+		});
+	} catch (error) {
+		console.error('[API v1] POST library scan error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
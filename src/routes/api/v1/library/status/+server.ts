@@ -0,0 +1,29 @@
+/**
+ * Versioned library status for scripts
+ * POST: Check which albums are already downloaded (scope queue:read)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { batchAlbumLibraryStatus } from '$lib/server/mediaLibrary';
+import { readApiV1Body } from '$lib/server/apiV1';
+import { ApiV1LibraryStatusRequestSchema } from '$lib/utils/schemas';
+
+/**
+ * POST /api/v1/library/status
+ *
+ * Body: LibraryStatusRequest (see /api/v1/openapi.json)
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readApiV1Body(request, ApiV1LibraryStatusRequestSchema);
+		if (!body.ok) {
+			return json({ success: false, error: body.error }, { status: 400 });
+		}
+		return json({ success: true, albums: await batchAlbumLibraryStatus(body.data.albums) });
+	} catch (error) {
+		console.error('[API v1] POST library status error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
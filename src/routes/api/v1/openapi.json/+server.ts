@@ -0,0 +1,15 @@
+/**
+ * OpenAPI document for the v1 API
+ * GET: The document, generated from the request and response schemas (no sign-in needed)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { buildOpenApiDocument } from '$lib/server/apiV1';
+
+/**
+ * GET /api/v1/openapi.json
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	return json(buildOpenApiDocument(url.origin));
+};
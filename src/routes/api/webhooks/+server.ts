@@ -0,0 +1,63 @@
+/**
+ * Outgoing webhooks (admin only)
+ * GET: Webhooks and the recent delivery log
+ * POST: Add a webhook; its signing secret is only returned once
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	createWebhook,
+	listWebhookDeliveries,
+	listWebhooks,
+	normalizeWebhookInput,
+	WebhookError
+} from '$lib/server/webhooks';
+
+/**
+ * GET /api/webhooks
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		return json({
+			success: true,
+			webhooks: await listWebhooks(),
+			deliveries: await listWebhookDeliveries()
+		});
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Webhooks API] GET error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/webhooks
+ *
+ * Body: { name: string, url: string, events: WebhookEvent[], enabled?: boolean, secret?: string }
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeWebhookInput(body, { partial: false });
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+		const { name, url, events } = normalized.input;
+		if (!name || !url || !events) {
+			return json({ success: false, error: 'name, url and events are required' }, { status: 400 });
+		}
+		const created = await createWebhook({ ...normalized.input, name, url, events });
+		return json({ success: true, ...created }, { status: 201 });
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Webhooks API] POST error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
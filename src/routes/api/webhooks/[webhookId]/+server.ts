@@ -0,0 +1,57 @@
+/**
+ * A single webhook (admin only)
+ * PATCH: Change the name, URL, events, secret or enabled flag
+ * DELETE: Remove it along with its delivery log
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	WebhookError,
+	deleteWebhook,
+	normalizeWebhookInput,
+	updateWebhook
+} from '$lib/server/webhooks';
+
+/**
+ * PATCH /api/webhooks/:webhookId
+ *
+ * Body: { name?: string, url?: string, events?: WebhookEvent[], enabled?: boolean, secret?: string }
+ */
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	try {
+		const body = await request.json().catch(() => null);
+		const normalized = normalizeWebhookInput(body, { partial: true });
+		if (!normalized.ok) {
+			return json({ success: false, error: normalized.error }, { status: 400 });
+		}
+		return json({
+			success: true,
+			webhook: await updateWebhook(params.webhookId, normalized.input)
+		});
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Webhooks API] PATCH error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/webhooks/:webhookId
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	try {
+		await deleteWebhook(params.webhookId);
+		return json({ success: true });
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Webhooks API] DELETE error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
@@ -0,0 +1,24 @@
+/**
+ * Webhook test event (admin only)
+ * POST: Send a test event right away and report the result
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { WebhookError, sendTestWebhook } from '$lib/server/webhooks';
+
+/**
+ * POST /api/webhooks/:webhookId/test
+ */
+export const POST: RequestHandler = async ({ params }) => {
+	try {
+		return json({ success: true, delivery: await sendTestWebhook(params.webhookId) });
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			return json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error('[Webhooks API] POST test error:', error);
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return json({ success: false, error: message }, { status: 500 });
+	}
+};
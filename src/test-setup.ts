@@ -33,6 +33,9 @@ if (!existsSync(LOCAL_STORAGE_FILE)) {
 ensureLocalStorageFlag(process.execArgv);
 ensureLocalStorageFlag(process.argv);
 
+// Keep the persistent media-library index out of the repo's data/ directory
+process.env.MEDIA_LIBRARY_INDEX_DB ??= ':memory:';
+
 // Extend expect with jest-dom matchers
 expect.extend(matchers);
 
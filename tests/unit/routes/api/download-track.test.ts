@@ -47,7 +47,7 @@ describe('Download Track API', () => {
 		},
 		fetch: global.fetch,
 		getClientAddress: vi.fn(() => '127.0.0.1'),
-		locals: {},
+		locals: { auth: { enabled: false, user: { name: 'local', role: 'admin' as const, source: 'open' as const } } },
 		params: {},
 		platform: undefined,
 		route: { id: null },